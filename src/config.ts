@@ -8,7 +8,7 @@ import path from "path";
 import fs from "fs";
 import { logger } from "./utils/logger.js";
 import { isSubPath } from "./utils/file-utils.js";
-import type { PrivacyMode } from "./types.js";
+import type { OrganizationRule, PrivacyMode, UserTopic } from "./types.js";
 
 export const CONFIG = {
   VERSION: "3.5.0",
@@ -56,12 +56,32 @@ export interface UserConfig {
     enablePathValidation?: boolean;
     allowCustomDirectories?: boolean;
   };
-  /** Organization rules */
-  rules?: Array<{
-    pattern: string;
-    destination: string;
-    overwrite?: boolean;
-  }>;
+  /**
+   * Organization rules consulted by organize_files / preview_organization.
+   * Validated through OrganizationRuleSchema; legacy `{ pattern, destination }`
+   * entries are still accepted and converted to glob-on-name move rules.
+   */
+  rules?: Array<
+    | OrganizationRule
+    | {
+        pattern: string;
+        destination: string;
+        overwrite?: boolean;
+      }
+  >;
+  /**
+   * Content topics for organize_by_content, validated through UserTopicSchema.
+   * When set they replace the built-in topics unless includeBuiltInTopics is true.
+   */
+  topics?: UserTopic[];
+  /** Keep the built-in topics (Mathematics, Science, ...) next to user topics */
+  includeBuiltInTopics?: boolean;
+  /**
+   * Directory of YARA-style signature rule files (.yar, .yara, .rules) that
+   * content screening evaluates. Defaults to screening-rules/ next to
+   * config.json.
+   */
+  screeningRulesDirectory?: string;
   /** Watch list for smart scheduling */
   watchList?: WatchConfig[];
   /** History logging settings */
@@ -79,8 +99,16 @@ export interface UserConfig {
 export interface WatchConfig {
   /** Directory path to watch */
   directory: string;
-  /** Cron expression for scheduling (e.g., "0 9 * * *" for 9am daily) */
-  schedule: string;
+  /**
+   * Cron expression for scheduling (e.g., "0 9 * * *" for 9am daily).
+   * Not required when trigger is "events".
+   */
+  schedule?: string;
+  /**
+   * What starts an organization run: the cron schedule (default), filesystem
+   * events (new or changed files are organized within seconds), or both
+   */
+  trigger?: WatchTrigger;
   /** Organization rules for this watch */
   rules: {
     /** Enable auto-organization */
@@ -91,9 +119,13 @@ export interface WatchConfig {
     max_files_per_run?: number;
     /** Catchup behavior when server starts */
     catchup_mode?: "smart" | "always" | "never";
+    /** Quiet period in ms after the last file event before files are checked (events trigger) */
+    debounce_ms?: number;
   };
 }
 
+export type WatchTrigger = "cron" | "events" | "both";
+
 /**
  * Get default allowed directories based on platform
  */
@@ -460,6 +492,16 @@ export function getHistoryDirectory(): string {
   return path.join(basePath, "file-organizer-mcp");
 }
 
+/**
+ * Get the directory holding signature rule files for content screening
+ */
+export function getScreeningRulesDirectory(): string {
+  const configured = loadUserConfig().screeningRulesDirectory;
+  return configured
+    ? path.resolve(configured)
+    : path.join(path.dirname(getUserConfigPath()), "screening-rules");
+}
+
 /**
  * Get the history file path
  */
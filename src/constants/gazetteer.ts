@@ -0,0 +1,859 @@
+/**
+ * Offline Gazetteer
+ *
+ * Major cities and travel destinations with their first-level region and
+ * country, used for reverse geocoding photo GPS coordinates without any
+ * network calls. Coordinates are city centres rounded to two decimals.
+ *
+ * @module gazetteer
+ */
+
+/**
+ * A place the reverse geocoder can resolve coordinates to
+ */
+export interface GazetteerPlace {
+  city: string;
+  /** First-level administrative region (state, province, county, ...) */
+  region: string;
+  country: string;
+  /** ISO 3166-1 alpha-2 code */
+  countryCode: string;
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Country names by ISO 3166-1 alpha-2 code
+ */
+export const COUNTRY_NAMES: Readonly<Record<string, string>> = {
+  AE: "United Arab Emirates",
+  AF: "Afghanistan",
+  AL: "Albania",
+  AM: "Armenia",
+  AO: "Angola",
+  AR: "Argentina",
+  AT: "Austria",
+  AU: "Australia",
+  AW: "Aruba",
+  AZ: "Azerbaijan",
+  BA: "Bosnia and Herzegovina",
+  BB: "Barbados",
+  BD: "Bangladesh",
+  BE: "Belgium",
+  BF: "Burkina Faso",
+  BG: "Bulgaria",
+  BH: "Bahrain",
+  BJ: "Benin",
+  BM: "Bermuda",
+  BN: "Brunei",
+  BO: "Bolivia",
+  BR: "Brazil",
+  BS: "Bahamas",
+  BT: "Bhutan",
+  BW: "Botswana",
+  BY: "Belarus",
+  BZ: "Belize",
+  CA: "Canada",
+  CD: "DR Congo",
+  CF: "Central African Republic",
+  CG: "Republic of the Congo",
+  CH: "Switzerland",
+  CI: "Ivory Coast",
+  CL: "Chile",
+  CM: "Cameroon",
+  CN: "China",
+  CO: "Colombia",
+  CR: "Costa Rica",
+  CU: "Cuba",
+  CV: "Cape Verde",
+  CW: "Curaçao",
+  CY: "Cyprus",
+  CZ: "Czechia",
+  DE: "Germany",
+  DJ: "Djibouti",
+  DK: "Denmark",
+  DO: "Dominican Republic",
+  DZ: "Algeria",
+  EC: "Ecuador",
+  EE: "Estonia",
+  EG: "Egypt",
+  ER: "Eritrea",
+  ES: "Spain",
+  ET: "Ethiopia",
+  FI: "Finland",
+  FJ: "Fiji",
+  FK: "Falkland Islands",
+  FR: "France",
+  GA: "Gabon",
+  GB: "United Kingdom",
+  GE: "Georgia",
+  GF: "French Guiana",
+  GH: "Ghana",
+  GL: "Greenland",
+  GN: "Guinea",
+  GR: "Greece",
+  GT: "Guatemala",
+  GY: "Guyana",
+  HK: "Hong Kong",
+  HN: "Honduras",
+  HR: "Croatia",
+  HT: "Haiti",
+  HU: "Hungary",
+  ID: "Indonesia",
+  IE: "Ireland",
+  IL: "Israel",
+  IN: "India",
+  IQ: "Iraq",
+  IR: "Iran",
+  IS: "Iceland",
+  IT: "Italy",
+  JM: "Jamaica",
+  JO: "Jordan",
+  JP: "Japan",
+  KE: "Kenya",
+  KG: "Kyrgyzstan",
+  KH: "Cambodia",
+  KP: "North Korea",
+  KR: "South Korea",
+  KW: "Kuwait",
+  KZ: "Kazakhstan",
+  LA: "Laos",
+  LB: "Lebanon",
+  LC: "Saint Lucia",
+  LK: "Sri Lanka",
+  LR: "Liberia",
+  LS: "Lesotho",
+  LT: "Lithuania",
+  LU: "Luxembourg",
+  LV: "Latvia",
+  LY: "Libya",
+  MA: "Morocco",
+  MC: "Monaco",
+  MD: "Moldova",
+  ME: "Montenegro",
+  MG: "Madagascar",
+  MK: "North Macedonia",
+  ML: "Mali",
+  MM: "Myanmar",
+  MN: "Mongolia",
+  MO: "Macau",
+  MR: "Mauritania",
+  MT: "Malta",
+  MU: "Mauritius",
+  MV: "Maldives",
+  MW: "Malawi",
+  MX: "Mexico",
+  MY: "Malaysia",
+  MZ: "Mozambique",
+  NA: "Namibia",
+  NC: "New Caledonia",
+  NE: "Niger",
+  NG: "Nigeria",
+  NI: "Nicaragua",
+  NL: "Netherlands",
+  NO: "Norway",
+  NP: "Nepal",
+  NZ: "New Zealand",
+  OM: "Oman",
+  PA: "Panama",
+  PE: "Peru",
+  PF: "French Polynesia",
+  PG: "Papua New Guinea",
+  PH: "Philippines",
+  PK: "Pakistan",
+  PL: "Poland",
+  PR: "Puerto Rico",
+  PT: "Portugal",
+  PY: "Paraguay",
+  QA: "Qatar",
+  RO: "Romania",
+  RS: "Serbia",
+  RU: "Russia",
+  RW: "Rwanda",
+  SA: "Saudi Arabia",
+  SB: "Solomon Islands",
+  SC: "Seychelles",
+  SD: "Sudan",
+  SE: "Sweden",
+  SG: "Singapore",
+  SI: "Slovenia",
+  SK: "Slovakia",
+  SL: "Sierra Leone",
+  SN: "Senegal",
+  SO: "Somalia",
+  SR: "Suriname",
+  SS: "South Sudan",
+  SV: "El Salvador",
+  SY: "Syria",
+  SZ: "Eswatini",
+  TD: "Chad",
+  TG: "Togo",
+  TH: "Thailand",
+  TJ: "Tajikistan",
+  TL: "Timor-Leste",
+  TM: "Turkmenistan",
+  TN: "Tunisia",
+  TO: "Tonga",
+  TR: "Turkey",
+  TT: "Trinidad and Tobago",
+  TW: "Taiwan",
+  TZ: "Tanzania",
+  UA: "Ukraine",
+  UG: "Uganda",
+  US: "United States",
+  UY: "Uruguay",
+  UZ: "Uzbekistan",
+  VE: "Venezuela",
+  VN: "Vietnam",
+  VU: "Vanuatu",
+  WS: "Samoa",
+  YE: "Yemen",
+  ZA: "South Africa",
+  ZM: "Zambia",
+  ZW: "Zimbabwe",
+};
+
+/** [city, region, country code, latitude, longitude] */
+type PlaceRow = [string, string, string, number, number];
+
+const PLACES: PlaceRow[] = [
+  // Europe
+  ["Lisbon", "Lisbon", "PT", 38.72, -9.14],
+  ["Porto", "Porto", "PT", 41.15, -8.61],
+  ["Faro", "Faro", "PT", 37.02, -7.93],
+  ["Funchal", "Madeira", "PT", 32.65, -16.91],
+  ["Ponta Delgada", "Azores", "PT", 37.74, -25.67],
+  ["Madrid", "Community of Madrid", "ES", 40.42, -3.7],
+  ["Barcelona", "Catalonia", "ES", 41.39, 2.17],
+  ["Valencia", "Valencian Community", "ES", 39.47, -0.38],
+  ["Seville", "Andalusia", "ES", 37.39, -5.98],
+  ["Málaga", "Andalusia", "ES", 36.72, -4.42],
+  ["Granada", "Andalusia", "ES", 37.18, -3.6],
+  ["Bilbao", "Basque Country", "ES", 43.26, -2.93],
+  ["Palma", "Balearic Islands", "ES", 39.57, 2.65],
+  ["Las Palmas de Gran Canaria", "Canary Islands", "ES", 28.12, -15.43],
+  ["Santa Cruz de Tenerife", "Canary Islands", "ES", 28.46, -16.25],
+  ["Zaragoza", "Aragon", "ES", 41.65, -0.88],
+  ["Santiago de Compostela", "Galicia", "ES", 42.88, -8.54],
+  ["Paris", "Île-de-France", "FR", 48.86, 2.35],
+  ["Lyon", "Auvergne-Rhône-Alpes", "FR", 45.76, 4.84],
+  ["Marseille", "Provence-Alpes-Côte d'Azur", "FR", 43.3, 5.37],
+  ["Nice", "Provence-Alpes-Côte d'Azur", "FR", 43.7, 7.27],
+  ["Bordeaux", "Nouvelle-Aquitaine", "FR", 44.84, -0.58],
+  ["Toulouse", "Occitanie", "FR", 43.6, 1.44],
+  ["Montpellier", "Occitanie", "FR", 43.61, 3.88],
+  ["Nantes", "Pays de la Loire", "FR", 47.22, -1.55],
+  ["Strasbourg", "Grand Est", "FR", 48.57, 7.75],
+  ["Lille", "Hauts-de-France", "FR", 50.63, 3.06],
+  ["Rennes", "Brittany", "FR", 48.11, -1.68],
+  ["Ajaccio", "Corsica", "FR", 41.93, 8.74],
+  ["Chamonix", "Auvergne-Rhône-Alpes", "FR", 45.92, 6.87],
+  ["London", "England", "GB", 51.51, -0.13],
+  ["Manchester", "England", "GB", 53.48, -2.24],
+  ["Birmingham", "England", "GB", 52.49, -1.89],
+  ["Liverpool", "England", "GB", 53.41, -2.98],
+  ["Bristol", "England", "GB", 51.45, -2.59],
+  ["Newcastle upon Tyne", "England", "GB", 54.98, -1.61],
+  ["Edinburgh", "Scotland", "GB", 55.95, -3.19],
+  ["Glasgow", "Scotland", "GB", 55.86, -4.25],
+  ["Inverness", "Scotland", "GB", 57.48, -4.22],
+  ["Cardiff", "Wales", "GB", 51.48, -3.18],
+  ["Belfast", "Northern Ireland", "GB", 54.6, -5.93],
+  ["Dublin", "Leinster", "IE", 53.35, -6.26],
+  ["Cork", "Munster", "IE", 51.9, -8.47],
+  ["Galway", "Connacht", "IE", 53.27, -9.05],
+  ["Amsterdam", "North Holland", "NL", 52.37, 4.9],
+  ["Rotterdam", "South Holland", "NL", 51.92, 4.48],
+  ["The Hague", "South Holland", "NL", 52.08, 4.3],
+  ["Utrecht", "Utrecht", "NL", 52.09, 5.12],
+  ["Brussels", "Brussels-Capital", "BE", 50.85, 4.35],
+  ["Antwerp", "Flanders", "BE", 51.22, 4.4],
+  ["Bruges", "Flanders", "BE", 51.21, 3.22],
+  ["Luxembourg", "Luxembourg", "LU", 49.61, 6.13],
+  ["Berlin", "Berlin", "DE", 52.52, 13.4],
+  ["Hamburg", "Hamburg", "DE", 53.55, 9.99],
+  ["Munich", "Bavaria", "DE", 48.14, 11.58],
+  ["Nuremberg", "Bavaria", "DE", 49.45, 11.08],
+  ["Cologne", "North Rhine-Westphalia", "DE", 50.94, 6.96],
+  ["Düsseldorf", "North Rhine-Westphalia", "DE", 51.23, 6.78],
+  ["Frankfurt", "Hesse", "DE", 50.11, 8.68],
+  ["Stuttgart", "Baden-Württemberg", "DE", 48.78, 9.18],
+  ["Dresden", "Saxony", "DE", 51.05, 13.74],
+  ["Leipzig", "Saxony", "DE", 51.34, 12.37],
+  ["Hanover", "Lower Saxony", "DE", 52.38, 9.73],
+  ["Bremen", "Bremen", "DE", 53.08, 8.8],
+  ["Vienna", "Vienna", "AT", 48.21, 16.37],
+  ["Salzburg", "Salzburg", "AT", 47.81, 13.04],
+  ["Innsbruck", "Tyrol", "AT", 47.27, 11.39],
+  ["Graz", "Styria", "AT", 47.07, 15.44],
+  ["Zurich", "Zurich", "CH", 47.38, 8.54],
+  ["Geneva", "Geneva", "CH", 46.2, 6.14],
+  ["Bern", "Bern", "CH", 46.95, 7.45],
+  ["Basel", "Basel-Stadt", "CH", 47.56, 7.59],
+  ["Lucerne", "Lucerne", "CH", 47.05, 8.31],
+  ["Zermatt", "Valais", "CH", 46.02, 7.75],
+  ["Rome", "Lazio", "IT", 41.9, 12.5],
+  ["Milan", "Lombardy", "IT", 45.46, 9.19],
+  ["Venice", "Veneto", "IT", 45.44, 12.32],
+  ["Verona", "Veneto", "IT", 45.44, 10.99],
+  ["Florence", "Tuscany", "IT", 43.77, 11.26],
+  ["Pisa", "Tuscany", "IT", 43.72, 10.4],
+  ["Naples", "Campania", "IT", 40.85, 14.27],
+  ["Amalfi", "Campania", "IT", 40.63, 14.6],
+  ["Turin", "Piedmont", "IT", 45.07, 7.69],
+  ["Bologna", "Emilia-Romagna", "IT", 44.49, 11.34],
+  ["Genoa", "Liguria", "IT", 44.41, 8.93],
+  ["Como", "Lombardy", "IT", 45.81, 9.09],
+  ["Palermo", "Sicily", "IT", 38.12, 13.36],
+  ["Catania", "Sicily", "IT", 37.5, 15.09],
+  ["Cagliari", "Sardinia", "IT", 39.22, 9.11],
+  ["Bari", "Apulia", "IT", 41.12, 16.87],
+  ["Valletta", "Malta", "MT", 35.9, 14.51],
+  ["Monaco", "Monaco", "MC", 43.74, 7.42],
+  ["Copenhagen", "Capital Region", "DK", 55.68, 12.57],
+  ["Aarhus", "Central Denmark", "DK", 56.16, 10.2],
+  ["Stockholm", "Stockholm", "SE", 59.33, 18.07],
+  ["Gothenburg", "Västra Götaland", "SE", 57.71, 11.97],
+  ["Malmö", "Skåne", "SE", 55.6, 13.0],
+  ["Kiruna", "Norrbotten", "SE", 67.86, 20.23],
+  ["Oslo", "Oslo", "NO", 59.91, 10.75],
+  ["Bergen", "Vestland", "NO", 60.39, 5.32],
+  ["Trondheim", "Trøndelag", "NO", 63.43, 10.4],
+  ["Tromsø", "Troms", "NO", 69.65, 18.96],
+  ["Helsinki", "Uusimaa", "FI", 60.17, 24.94],
+  ["Rovaniemi", "Lapland", "FI", 66.5, 25.73],
+  ["Reykjavík", "Capital Region", "IS", 64.15, -21.94],
+  ["Akureyri", "Northeastern Region", "IS", 65.68, -18.09],
+  ["Tallinn", "Harju", "EE", 59.44, 24.75],
+  ["Riga", "Riga", "LV", 56.95, 24.11],
+  ["Vilnius", "Vilnius County", "LT", 54.69, 25.28],
+  ["Warsaw", "Masovia", "PL", 52.23, 21.01],
+  ["Kraków", "Lesser Poland", "PL", 50.06, 19.94],
+  ["Gdańsk", "Pomerania", "PL", 54.35, 18.65],
+  ["Wrocław", "Lower Silesia", "PL", 51.11, 17.04],
+  ["Poznań", "Greater Poland", "PL", 52.41, 16.93],
+  ["Prague", "Prague", "CZ", 50.08, 14.44],
+  ["Brno", "South Moravia", "CZ", 49.2, 16.61],
+  ["Bratislava", "Bratislava", "SK", 48.15, 17.11],
+  ["Budapest", "Budapest", "HU", 47.5, 19.04],
+  ["Ljubljana", "Central Slovenia", "SI", 46.06, 14.51],
+  ["Zagreb", "Zagreb", "HR", 45.81, 15.98],
+  ["Split", "Split-Dalmatia", "HR", 43.51, 16.44],
+  ["Dubrovnik", "Dubrovnik-Neretva", "HR", 42.65, 18.09],
+  ["Sarajevo", "Federation of Bosnia and Herzegovina", "BA", 43.86, 18.41],
+  ["Belgrade", "Belgrade", "RS", 44.79, 20.45],
+  ["Podgorica", "Podgorica", "ME", 42.44, 19.26],
+  ["Kotor", "Kotor", "ME", 42.42, 18.77],
+  ["Tirana", "Tirana", "AL", 41.33, 19.82],
+  ["Skopje", "Skopje", "MK", 42.0, 21.43],
+  ["Sofia", "Sofia City", "BG", 42.7, 23.32],
+  ["Varna", "Varna", "BG", 43.21, 27.91],
+  ["Bucharest", "Bucharest", "RO", 44.43, 26.1],
+  ["Cluj-Napoca", "Cluj", "RO", 46.77, 23.59],
+  ["Chișinău", "Chișinău", "MD", 47.01, 28.86],
+  ["Athens", "Attica", "GR", 37.98, 23.73],
+  ["Thessaloniki", "Central Macedonia", "GR", 40.64, 22.94],
+  ["Heraklion", "Crete", "GR", 35.34, 25.13],
+  ["Chania", "Crete", "GR", 35.51, 24.02],
+  ["Santorini", "South Aegean", "GR", 36.42, 25.43],
+  ["Mykonos", "South Aegean", "GR", 37.45, 25.33],
+  ["Rhodes", "South Aegean", "GR", 36.43, 28.22],
+  ["Corfu", "Ionian Islands", "GR", 39.62, 19.92],
+  ["Nicosia", "Nicosia", "CY", 35.17, 33.36],
+  ["Limassol", "Limassol", "CY", 34.68, 33.04],
+  ["Istanbul", "Istanbul", "TR", 41.01, 28.98],
+  ["Ankara", "Ankara", "TR", 39.93, 32.86],
+  ["Izmir", "Izmir", "TR", 38.42, 27.14],
+  ["Antalya", "Antalya", "TR", 36.9, 30.7],
+  ["Göreme", "Nevşehir", "TR", 38.64, 34.83],
+  ["Kyiv", "Kyiv", "UA", 50.45, 30.52],
+  ["Lviv", "Lviv", "UA", 49.84, 24.03],
+  ["Odesa", "Odesa", "UA", 46.48, 30.72],
+  ["Minsk", "Minsk", "BY", 53.9, 27.56],
+  ["Moscow", "Moscow", "RU", 55.76, 37.62],
+  ["Saint Petersburg", "Saint Petersburg", "RU", 59.93, 30.36],
+  ["Kazan", "Tatarstan", "RU", 55.79, 49.12],
+  ["Sochi", "Krasnodar Krai", "RU", 43.6, 39.73],
+  ["Yekaterinburg", "Sverdlovsk Oblast", "RU", 56.84, 60.61],
+  ["Novosibirsk", "Novosibirsk Oblast", "RU", 55.03, 82.92],
+  ["Irkutsk", "Irkutsk Oblast", "RU", 52.29, 104.28],
+  ["Vladivostok", "Primorsky Krai", "RU", 43.12, 131.89],
+
+  // Middle East, Caucasus and Central Asia
+  ["Tbilisi", "Tbilisi", "GE", 41.72, 44.79],
+  ["Batumi", "Adjara", "GE", 41.64, 41.64],
+  ["Yerevan", "Yerevan", "AM", 40.18, 44.51],
+  ["Baku", "Baku", "AZ", 40.41, 49.87],
+  ["Tel Aviv", "Tel Aviv District", "IL", 32.09, 34.78],
+  ["Jerusalem", "Jerusalem District", "IL", 31.77, 35.21],
+  ["Amman", "Amman", "JO", 31.95, 35.93],
+  ["Wadi Musa", "Ma'an", "JO", 30.32, 35.48],
+  ["Beirut", "Beirut", "LB", 33.89, 35.5],
+  ["Damascus", "Damascus", "SY", 33.51, 36.29],
+  ["Baghdad", "Baghdad", "IQ", 33.31, 44.36],
+  ["Erbil", "Erbil", "IQ", 36.19, 44.01],
+  ["Riyadh", "Riyadh", "SA", 24.71, 46.68],
+  ["Jeddah", "Makkah", "SA", 21.49, 39.19],
+  ["Mecca", "Makkah", "SA", 21.39, 39.86],
+  ["Dubai", "Dubai", "AE", 25.2, 55.27],
+  ["Abu Dhabi", "Abu Dhabi", "AE", 24.45, 54.38],
+  ["Doha", "Doha", "QA", 25.29, 51.53],
+  ["Manama", "Capital", "BH", 26.23, 50.59],
+  ["Kuwait City", "Capital", "KW", 29.38, 47.99],
+  ["Muscat", "Muscat", "OM", 23.59, 58.41],
+  ["Sana'a", "Amanat Al Asimah", "YE", 15.37, 44.19],
+  ["Tehran", "Tehran", "IR", 35.69, 51.39],
+  ["Isfahan", "Isfahan", "IR", 32.65, 51.67],
+  ["Shiraz", "Fars", "IR", 29.59, 52.58],
+  ["Kabul", "Kabul", "AF", 34.56, 69.21],
+  ["Tashkent", "Tashkent", "UZ", 41.3, 69.24],
+  ["Samarkand", "Samarqand", "UZ", 39.65, 66.96],
+  ["Almaty", "Almaty", "KZ", 43.24, 76.89],
+  ["Astana", "Astana", "KZ", 51.17, 71.45],
+  ["Bishkek", "Bishkek", "KG", 42.87, 74.59],
+  ["Dushanbe", "Dushanbe", "TJ", 38.56, 68.79],
+  ["Ashgabat", "Ashgabat", "TM", 37.95, 58.38],
+  ["Ulaanbaatar", "Ulaanbaatar", "MN", 47.89, 106.91],
+
+  // South Asia
+  ["Delhi", "Delhi", "IN", 28.61, 77.21],
+  ["Mumbai", "Maharashtra", "IN", 19.08, 72.88],
+  ["Pune", "Maharashtra", "IN", 18.52, 73.86],
+  ["Bengaluru", "Karnataka", "IN", 12.97, 77.59],
+  ["Chennai", "Tamil Nadu", "IN", 13.08, 80.27],
+  ["Hyderabad", "Telangana", "IN", 17.39, 78.49],
+  ["Kolkata", "West Bengal", "IN", 22.57, 88.36],
+  ["Ahmedabad", "Gujarat", "IN", 23.02, 72.57],
+  ["Jaipur", "Rajasthan", "IN", 26.91, 75.79],
+  ["Udaipur", "Rajasthan", "IN", 24.58, 73.71],
+  ["Agra", "Uttar Pradesh", "IN", 27.18, 78.01],
+  ["Varanasi", "Uttar Pradesh", "IN", 25.32, 83.01],
+  ["Panaji", "Goa", "IN", 15.5, 73.83],
+  ["Kochi", "Kerala", "IN", 9.93, 76.27],
+  ["Amritsar", "Punjab", "IN", 31.63, 74.87],
+  ["Srinagar", "Jammu and Kashmir", "IN", 34.08, 74.8],
+  ["Leh", "Ladakh", "IN", 34.15, 77.58],
+  ["Karachi", "Sindh", "PK", 24.86, 67.01],
+  ["Lahore", "Punjab", "PK", 31.55, 74.34],
+  ["Islamabad", "Islamabad Capital Territory", "PK", 33.68, 73.05],
+  ["Dhaka", "Dhaka", "BD", 23.81, 90.41],
+  ["Chittagong", "Chittagong", "BD", 22.36, 91.78],
+  ["Kathmandu", "Bagmati", "NP", 27.72, 85.32],
+  ["Pokhara", "Gandaki", "NP", 28.21, 83.99],
+  ["Thimphu", "Thimphu", "BT", 27.47, 89.64],
+  ["Colombo", "Western Province", "LK", 6.93, 79.86],
+  ["Kandy", "Central Province", "LK", 7.29, 80.63],
+  ["Malé", "Malé", "MV", 4.18, 73.51],
+
+  // East Asia
+  ["Beijing", "Beijing", "CN", 39.9, 116.41],
+  ["Shanghai", "Shanghai", "CN", 31.23, 121.47],
+  ["Guangzhou", "Guangdong", "CN", 23.13, 113.26],
+  ["Shenzhen", "Guangdong", "CN", 22.54, 114.06],
+  ["Chengdu", "Sichuan", "CN", 30.57, 104.07],
+  ["Chongqing", "Chongqing", "CN", 29.56, 106.55],
+  ["Xi'an", "Shaanxi", "CN", 34.34, 108.94],
+  ["Hangzhou", "Zhejiang", "CN", 30.27, 120.16],
+  ["Nanjing", "Jiangsu", "CN", 32.06, 118.8],
+  ["Suzhou", "Jiangsu", "CN", 31.3, 120.59],
+  ["Wuhan", "Hubei", "CN", 30.59, 114.31],
+  ["Tianjin", "Tianjin", "CN", 39.34, 117.36],
+  ["Qingdao", "Shandong", "CN", 36.07, 120.38],
+  ["Xiamen", "Fujian", "CN", 24.48, 118.09],
+  ["Harbin", "Heilongjiang", "CN", 45.8, 126.53],
+  ["Kunming", "Yunnan", "CN", 24.88, 102.83],
+  ["Guilin", "Guangxi", "CN", 25.27, 110.29],
+  ["Sanya", "Hainan", "CN", 18.25, 109.51],
+  ["Lhasa", "Tibet", "CN", 29.65, 91.17],
+  ["Ürümqi", "Xinjiang", "CN", 43.83, 87.62],
+  ["Hong Kong", "Hong Kong", "HK", 22.32, 114.17],
+  ["Macau", "Macau", "MO", 22.2, 113.54],
+  ["Taipei", "Taipei", "TW", 25.03, 121.57],
+  ["Kaohsiung", "Kaohsiung", "TW", 22.63, 120.3],
+  ["Tokyo", "Tokyo", "JP", 35.68, 139.69],
+  ["Yokohama", "Kanagawa", "JP", 35.44, 139.64],
+  ["Hakone", "Kanagawa", "JP", 35.23, 139.11],
+  ["Osaka", "Osaka", "JP", 34.69, 135.5],
+  ["Kyoto", "Kyoto", "JP", 35.01, 135.77],
+  ["Nara", "Nara", "JP", 34.69, 135.8],
+  ["Kobe", "Hyogo", "JP", 34.69, 135.2],
+  ["Nagoya", "Aichi", "JP", 35.18, 136.91],
+  ["Kanazawa", "Ishikawa", "JP", 36.56, 136.66],
+  ["Hiroshima", "Hiroshima", "JP", 34.39, 132.46],
+  ["Fukuoka", "Fukuoka", "JP", 33.59, 130.4],
+  ["Sendai", "Miyagi", "JP", 38.27, 140.87],
+  ["Sapporo", "Hokkaido", "JP", 43.06, 141.35],
+  ["Naha", "Okinawa", "JP", 26.21, 127.68],
+  ["Seoul", "Seoul", "KR", 37.57, 126.98],
+  ["Incheon", "Incheon", "KR", 37.46, 126.71],
+  ["Busan", "Busan", "KR", 35.18, 129.08],
+  ["Gyeongju", "North Gyeongsang", "KR", 35.86, 129.22],
+  ["Jeju City", "Jeju", "KR", 33.5, 126.53],
+  ["Pyongyang", "Pyongyang", "KP", 39.04, 125.76],
+
+  // Southeast Asia
+  ["Bangkok", "Bangkok", "TH", 13.76, 100.5],
+  ["Chiang Mai", "Chiang Mai", "TH", 18.79, 98.98],
+  ["Pattaya", "Chonburi", "TH", 12.93, 100.88],
+  ["Phuket", "Phuket", "TH", 7.88, 98.39],
+  ["Krabi", "Krabi", "TH", 8.09, 98.91],
+  ["Ko Samui", "Surat Thani", "TH", 9.51, 100.01],
+  ["Hanoi", "Hanoi", "VN", 21.03, 105.85],
+  ["Hạ Long", "Quảng Ninh", "VN", 20.95, 107.08],
+  ["Da Nang", "Da Nang", "VN", 16.05, 108.2],
+  ["Hội An", "Quảng Nam", "VN", 15.88, 108.33],
+  ["Ho Chi Minh City", "Ho Chi Minh City", "VN", 10.82, 106.63],
+  ["Phnom Penh", "Phnom Penh", "KH", 11.56, 104.92],
+  ["Siem Reap", "Siem Reap", "KH", 13.36, 103.86],
+  ["Vientiane", "Vientiane Prefecture", "LA", 17.97, 102.63],
+  ["Luang Prabang", "Luang Prabang", "LA", 19.89, 102.13],
+  ["Yangon", "Yangon", "MM", 16.87, 96.2],
+  ["Mandalay", "Mandalay", "MM", 21.98, 96.08],
+  ["Bagan", "Mandalay", "MM", 21.17, 94.86],
+  ["Kuala Lumpur", "Kuala Lumpur", "MY", 3.14, 101.69],
+  ["George Town", "Penang", "MY", 5.41, 100.33],
+  ["Malacca City", "Malacca", "MY", 2.19, 102.25],
+  ["Kota Kinabalu", "Sabah", "MY", 5.98, 116.07],
+  ["Kuching", "Sarawak", "MY", 1.55, 110.34],
+  ["Singapore", "Singapore", "SG", 1.35, 103.82],
+  ["Jakarta", "Jakarta", "ID", -6.21, 106.85],
+  ["Bandung", "West Java", "ID", -6.92, 107.61],
+  ["Yogyakarta", "Yogyakarta", "ID", -7.8, 110.36],
+  ["Surabaya", "East Java", "ID", -7.25, 112.75],
+  ["Denpasar", "Bali", "ID", -8.65, 115.22],
+  ["Ubud", "Bali", "ID", -8.51, 115.26],
+  ["Medan", "North Sumatra", "ID", 3.6, 98.67],
+  ["Makassar", "South Sulawesi", "ID", -5.15, 119.43],
+  ["Labuan Bajo", "East Nusa Tenggara", "ID", -8.5, 119.89],
+  ["Manila", "Metro Manila", "PH", 14.6, 120.98],
+  ["Cebu City", "Central Visayas", "PH", 10.32, 123.89],
+  ["Davao City", "Davao Region", "PH", 7.19, 125.46],
+  ["El Nido", "Mimaropa", "PH", 11.18, 119.39],
+  ["Boracay", "Western Visayas", "PH", 11.97, 121.92],
+  ["Bandar Seri Begawan", "Brunei-Muara", "BN", 4.9, 114.94],
+  ["Dili", "Dili", "TL", -8.56, 125.57],
+
+  // Oceania
+  ["Sydney", "New South Wales", "AU", -33.87, 151.21],
+  ["Melbourne", "Victoria", "AU", -37.81, 144.96],
+  ["Brisbane", "Queensland", "AU", -27.47, 153.03],
+  ["Gold Coast", "Queensland", "AU", -28.02, 153.4],
+  ["Cairns", "Queensland", "AU", -16.92, 145.77],
+  ["Perth", "Western Australia", "AU", -31.95, 115.86],
+  ["Broome", "Western Australia", "AU", -17.96, 122.24],
+  ["Adelaide", "South Australia", "AU", -34.93, 138.6],
+  ["Hobart", "Tasmania", "AU", -42.88, 147.33],
+  ["Canberra", "Australian Capital Territory", "AU", -35.28, 149.13],
+  ["Darwin", "Northern Territory", "AU", -12.46, 130.84],
+  ["Alice Springs", "Northern Territory", "AU", -23.7, 133.88],
+  ["Auckland", "Auckland", "NZ", -36.85, 174.76],
+  ["Rotorua", "Bay of Plenty", "NZ", -38.14, 176.25],
+  ["Wellington", "Wellington", "NZ", -41.29, 174.78],
+  ["Christchurch", "Canterbury", "NZ", -43.53, 172.64],
+  ["Queenstown", "Otago", "NZ", -45.03, 168.66],
+  ["Dunedin", "Otago", "NZ", -45.87, 170.5],
+  ["Suva", "Central", "FJ", -18.14, 178.44],
+  ["Nadi", "Western", "FJ", -17.8, 177.42],
+  ["Port Moresby", "National Capital District", "PG", -9.44, 147.18],
+  ["Nouméa", "South Province", "NC", -22.28, 166.46],
+  ["Papeete", "Windward Islands", "PF", -17.54, -149.57],
+  ["Bora Bora", "Leeward Islands", "PF", -16.5, -151.75],
+  ["Apia", "Tuamasaga", "WS", -13.83, -171.76],
+  ["Nuku'alofa", "Tongatapu", "TO", -21.14, -175.2],
+  ["Port Vila", "Shefa", "VU", -17.73, 168.32],
+  ["Honiara", "Honiara", "SB", -9.43, 159.95],
+
+  // Africa
+  ["Cairo", "Cairo", "EG", 30.04, 31.24],
+  ["Alexandria", "Alexandria", "EG", 31.2, 29.92],
+  ["Luxor", "Luxor", "EG", 25.69, 32.64],
+  ["Aswan", "Aswan", "EG", 24.09, 32.9],
+  ["Hurghada", "Red Sea", "EG", 27.26, 33.81],
+  ["Sharm El Sheikh", "South Sinai", "EG", 27.92, 34.33],
+  ["Casablanca", "Casablanca-Settat", "MA", 33.57, -7.59],
+  ["Rabat", "Rabat-Salé-Kénitra", "MA", 34.02, -6.84],
+  ["Marrakesh", "Marrakesh-Safi", "MA", 31.63, -8.01],
+  ["Fez", "Fès-Meknès", "MA", 34.03, -5.0],
+  ["Tangier", "Tanger-Tetouan-Al Hoceima", "MA", 35.76, -5.83],
+  ["Chefchaouen", "Tanger-Tetouan-Al Hoceima", "MA", 35.17, -5.26],
+  ["Agadir", "Souss-Massa", "MA", 30.43, -9.6],
+  ["Algiers", "Algiers", "DZ", 36.75, 3.06],
+  ["Oran", "Oran", "DZ", 35.7, -0.63],
+  ["Tunis", "Tunis", "TN", 36.81, 10.18],
+  ["Djerba", "Medenine", "TN", 33.88, 10.86],
+  ["Tripoli", "Tripoli", "LY", 32.89, 13.19],
+  ["Khartoum", "Khartoum", "SD", 15.5, 32.56],
+  ["Juba", "Central Equatoria", "SS", 4.85, 31.58],
+  ["Addis Ababa", "Addis Ababa", "ET", 9.03, 38.74],
+  ["Asmara", "Maekel", "ER", 15.32, 38.93],
+  ["Djibouti", "Djibouti", "DJ", 11.59, 43.15],
+  ["Mogadishu", "Banaadir", "SO", 2.05, 45.32],
+  ["Nairobi", "Nairobi", "KE", -1.29, 36.82],
+  ["Mombasa", "Mombasa", "KE", -4.04, 39.67],
+  ["Kampala", "Central Region", "UG", 0.35, 32.58],
+  ["Kigali", "Kigali", "RW", -1.95, 30.06],
+  ["Arusha", "Arusha", "TZ", -3.39, 36.68],
+  ["Dar es Salaam", "Dar es Salaam", "TZ", -6.79, 39.21],
+  ["Zanzibar City", "Zanzibar", "TZ", -6.16, 39.2],
+  ["Lagos", "Lagos", "NG", 6.52, 3.38],
+  ["Abuja", "Federal Capital Territory", "NG", 9.08, 7.4],
+  ["Accra", "Greater Accra", "GH", 5.6, -0.19],
+  ["Kumasi", "Ashanti", "GH", 6.69, -1.62],
+  ["Abidjan", "Abidjan", "CI", 5.36, -4.01],
+  ["Dakar", "Dakar", "SN", 14.72, -17.47],
+  ["Bamako", "Bamako", "ML", 12.64, -8.0],
+  ["Ouagadougou", "Centre", "BF", 12.37, -1.52],
+  ["Niamey", "Niamey", "NE", 13.51, 2.13],
+  ["N'Djamena", "N'Djamena", "TD", 12.13, 15.06],
+  ["Nouakchott", "Nouakchott", "MR", 18.08, -15.98],
+  ["Conakry", "Conakry", "GN", 9.64, -13.58],
+  ["Freetown", "Western Area", "SL", 8.48, -13.23],
+  ["Monrovia", "Montserrado", "LR", 6.3, -10.8],
+  ["Lomé", "Maritime", "TG", 6.13, 1.22],
+  ["Cotonou", "Littoral", "BJ", 6.37, 2.39],
+  ["Douala", "Littoral", "CM", 4.05, 9.77],
+  ["Yaoundé", "Centre", "CM", 3.87, 11.52],
+  ["Bangui", "Bangui", "CF", 4.39, 18.56],
+  ["Libreville", "Estuaire", "GA", 0.42, 9.47],
+  ["Kinshasa", "Kinshasa", "CD", -4.44, 15.27],
+  ["Brazzaville", "Brazzaville", "CG", -4.27, 15.28],
+  ["Luanda", "Luanda", "AO", -8.84, 13.23],
+  ["Lusaka", "Lusaka", "ZM", -15.39, 28.32],
+  ["Livingstone", "Southern Province", "ZM", -17.84, 25.85],
+  ["Victoria Falls", "Matabeleland North", "ZW", -17.93, 25.83],
+  ["Harare", "Harare", "ZW", -17.83, 31.05],
+  ["Lilongwe", "Central Region", "MW", -13.96, 33.79],
+  ["Maputo", "Maputo", "MZ", -25.97, 32.57],
+  ["Antananarivo", "Analamanga", "MG", -18.88, 47.51],
+  ["Port Louis", "Port Louis", "MU", -20.16, 57.5],
+  ["Victoria", "Mahé", "SC", -4.62, 55.45],
+  ["Windhoek", "Khomas", "NA", -22.56, 17.08],
+  ["Swakopmund", "Erongo", "NA", -22.68, 14.53],
+  ["Gaborone", "South-East", "BW", -24.63, 25.92],
+  ["Maun", "North-West", "BW", -19.98, 23.42],
+  ["Johannesburg", "Gauteng", "ZA", -26.2, 28.05],
+  ["Pretoria", "Gauteng", "ZA", -25.75, 28.19],
+  ["Skukuza", "Mpumalanga", "ZA", -24.99, 31.59],
+  ["Durban", "KwaZulu-Natal", "ZA", -29.86, 31.02],
+  ["Gqeberha", "Eastern Cape", "ZA", -33.96, 25.6],
+  ["Cape Town", "Western Cape", "ZA", -33.92, 18.42],
+  ["Maseru", "Maseru", "LS", -29.31, 27.48],
+  ["Mbabane", "Hhohho", "SZ", -26.31, 31.14],
+  ["Praia", "Santiago", "CV", 14.93, -23.51],
+
+  // North America
+  ["New York", "New York", "US", 40.71, -74.01],
+  ["Buffalo", "New York", "US", 42.89, -78.88],
+  ["Newark", "New Jersey", "US", 40.74, -74.17],
+  ["Atlantic City", "New Jersey", "US", 39.36, -74.42],
+  ["Boston", "Massachusetts", "US", 42.36, -71.06],
+  ["Providence", "Rhode Island", "US", 41.82, -71.41],
+  ["Hartford", "Connecticut", "US", 41.76, -72.67],
+  ["Burlington", "Vermont", "US", 44.48, -73.21],
+  ["Portland", "Maine", "US", 43.66, -70.26],
+  ["Philadelphia", "Pennsylvania", "US", 39.95, -75.17],
+  ["Pittsburgh", "Pennsylvania", "US", 40.44, -80.0],
+  ["Wilmington", "Delaware", "US", 39.74, -75.55],
+  ["Baltimore", "Maryland", "US", 39.29, -76.61],
+  ["Washington", "District of Columbia", "US", 38.91, -77.04],
+  ["Richmond", "Virginia", "US", 37.54, -77.44],
+  ["Charleston", "West Virginia", "US", 38.35, -81.63],
+  ["Raleigh", "North Carolina", "US", 35.78, -78.64],
+  ["Charlotte", "North Carolina", "US", 35.23, -80.84],
+  ["Charleston", "South Carolina", "US", 32.78, -79.93],
+  ["Atlanta", "Georgia", "US", 33.75, -84.39],
+  ["Savannah", "Georgia", "US", 32.08, -81.09],
+  ["Jacksonville", "Florida", "US", 30.33, -81.66],
+  ["Orlando", "Florida", "US", 28.54, -81.38],
+  ["Tampa", "Florida", "US", 27.95, -82.46],
+  ["Miami", "Florida", "US", 25.76, -80.19],
+  ["Key West", "Florida", "US", 24.56, -81.78],
+  ["Birmingham", "Alabama", "US", 33.52, -86.8],
+  ["Nashville", "Tennessee", "US", 36.16, -86.78],
+  ["Memphis", "Tennessee", "US", 35.15, -90.05],
+  ["Louisville", "Kentucky", "US", 38.25, -85.76],
+  ["Jackson", "Mississippi", "US", 32.3, -90.18],
+  ["New Orleans", "Louisiana", "US", 29.95, -90.07],
+  ["Little Rock", "Arkansas", "US", 34.75, -92.29],
+  ["Chicago", "Illinois", "US", 41.88, -87.63],
+  ["Detroit", "Michigan", "US", 42.33, -83.05],
+  ["Cleveland", "Ohio", "US", 41.5, -81.69],
+  ["Columbus", "Ohio", "US", 39.96, -83.0],
+  ["Cincinnati", "Ohio", "US", 39.1, -84.51],
+  ["Indianapolis", "Indiana", "US", 39.77, -86.16],
+  ["Milwaukee", "Wisconsin", "US", 43.04, -87.91],
+  ["Minneapolis", "Minnesota", "US", 44.98, -93.27],
+  ["Des Moines", "Iowa", "US", 41.59, -93.62],
+  ["St. Louis", "Missouri", "US", 38.63, -90.2],
+  ["Kansas City", "Missouri", "US", 39.1, -94.58],
+  ["Wichita", "Kansas", "US", 37.69, -97.34],
+  ["Omaha", "Nebraska", "US", 41.26, -95.93],
+  ["Sioux Falls", "South Dakota", "US", 43.55, -96.73],
+  ["Rapid City", "South Dakota", "US", 44.08, -103.23],
+  ["Fargo", "North Dakota", "US", 46.88, -96.79],
+  ["Oklahoma City", "Oklahoma", "US", 35.47, -97.52],
+  ["Dallas", "Texas", "US", 32.78, -96.8],
+  ["Houston", "Texas", "US", 29.76, -95.37],
+  ["Austin", "Texas", "US", 30.27, -97.74],
+  ["San Antonio", "Texas", "US", 29.42, -98.49],
+  ["El Paso", "Texas", "US", 31.76, -106.49],
+  ["Albuquerque", "New Mexico", "US", 35.08, -106.65],
+  ["Santa Fe", "New Mexico", "US", 35.69, -105.94],
+  ["Denver", "Colorado", "US", 39.74, -104.99],
+  ["Aspen", "Colorado", "US", 39.19, -106.82],
+  ["Salt Lake City", "Utah", "US", 40.76, -111.89],
+  ["Moab", "Utah", "US", 38.57, -109.55],
+  ["Phoenix", "Arizona", "US", 33.45, -112.07],
+  ["Tucson", "Arizona", "US", 32.22, -110.97],
+  ["Flagstaff", "Arizona", "US", 35.2, -111.65],
+  ["Grand Canyon Village", "Arizona", "US", 36.05, -112.14],
+  ["Las Vegas", "Nevada", "US", 36.17, -115.14],
+  ["Reno", "Nevada", "US", 39.53, -119.81],
+  ["Boise", "Idaho", "US", 43.62, -116.2],
+  ["Jackson", "Wyoming", "US", 43.48, -110.76],
+  ["Bozeman", "Montana", "US", 45.68, -111.04],
+  ["Los Angeles", "California", "US", 34.05, -118.24],
+  ["San Diego", "California", "US", 32.72, -117.16],
+  ["Palm Springs", "California", "US", 33.83, -116.55],
+  ["Santa Barbara", "California", "US", 34.42, -119.7],
+  ["Monterey", "California", "US", 36.6, -121.89],
+  ["San Jose", "California", "US", 37.34, -121.89],
+  ["San Francisco", "California", "US", 37.77, -122.42],
+  ["Sacramento", "California", "US", 38.58, -121.49],
+  ["Yosemite Valley", "California", "US", 37.75, -119.59],
+  ["South Lake Tahoe", "California", "US", 38.94, -119.98],
+  ["Portland", "Oregon", "US", 45.52, -122.68],
+  ["Seattle", "Washington", "US", 47.61, -122.33],
+  ["Spokane", "Washington", "US", 47.66, -117.43],
+  ["Anchorage", "Alaska", "US", 61.22, -149.9],
+  ["Fairbanks", "Alaska", "US", 64.84, -147.72],
+  ["Juneau", "Alaska", "US", 58.3, -134.42],
+  ["Honolulu", "Hawaii", "US", 21.31, -157.86],
+  ["Kahului", "Hawaii", "US", 20.89, -156.47],
+  ["Hilo", "Hawaii", "US", 19.72, -155.08],
+  ["Toronto", "Ontario", "CA", 43.65, -79.38],
+  ["Ottawa", "Ontario", "CA", 45.42, -75.7],
+  ["Niagara Falls", "Ontario", "CA", 43.09, -79.08],
+  ["Montreal", "Quebec", "CA", 45.5, -73.57],
+  ["Quebec City", "Quebec", "CA", 46.81, -71.21],
+  ["Halifax", "Nova Scotia", "CA", 44.65, -63.57],
+  ["Fredericton", "New Brunswick", "CA", 45.96, -66.64],
+  ["Charlottetown", "Prince Edward Island", "CA", 46.24, -63.13],
+  ["St. John's", "Newfoundland and Labrador", "CA", 47.56, -52.71],
+  ["Winnipeg", "Manitoba", "CA", 49.9, -97.14],
+  ["Regina", "Saskatchewan", "CA", 50.45, -104.62],
+  ["Saskatoon", "Saskatchewan", "CA", 52.13, -106.67],
+  ["Calgary", "Alberta", "CA", 51.05, -114.07],
+  ["Edmonton", "Alberta", "CA", 53.55, -113.49],
+  ["Banff", "Alberta", "CA", 51.18, -115.57],
+  ["Jasper", "Alberta", "CA", 52.87, -118.08],
+  ["Vancouver", "British Columbia", "CA", 49.28, -123.12],
+  ["Victoria", "British Columbia", "CA", 48.43, -123.37],
+  ["Whistler", "British Columbia", "CA", 50.12, -122.95],
+  ["Whitehorse", "Yukon", "CA", 60.72, -135.06],
+  ["Yellowknife", "Northwest Territories", "CA", 62.45, -114.37],
+  ["Iqaluit", "Nunavut", "CA", 63.75, -68.52],
+  ["Nuuk", "Sermersooq", "GL", 64.18, -51.72],
+  ["Mexico City", "Mexico City", "MX", 19.43, -99.13],
+  ["Puebla", "Puebla", "MX", 19.04, -98.21],
+  ["Guadalajara", "Jalisco", "MX", 20.66, -103.35],
+  ["Puerto Vallarta", "Jalisco", "MX", 20.65, -105.23],
+  ["San Miguel de Allende", "Guanajuato", "MX", 20.91, -100.74],
+  ["Monterrey", "Nuevo León", "MX", 25.69, -100.32],
+  ["Tijuana", "Baja California", "MX", 32.51, -117.04],
+  ["Cabo San Lucas", "Baja California Sur", "MX", 22.89, -109.91],
+  ["Oaxaca", "Oaxaca", "MX", 17.07, -96.73],
+  ["Mérida", "Yucatán", "MX", 20.97, -89.62],
+  ["Cancún", "Quintana Roo", "MX", 21.16, -86.85],
+  ["Playa del Carmen", "Quintana Roo", "MX", 20.63, -87.08],
+  ["Tulum", "Quintana Roo", "MX", 20.21, -87.47],
+  ["Guatemala City", "Guatemala", "GT", 14.63, -90.51],
+  ["Antigua Guatemala", "Sacatepéquez", "GT", 14.56, -90.73],
+  ["Belize City", "Belize", "BZ", 17.5, -88.2],
+  ["San Salvador", "San Salvador", "SV", 13.69, -89.22],
+  ["Tegucigalpa", "Francisco Morazán", "HN", 14.07, -87.19],
+  ["Managua", "Managua", "NI", 12.11, -86.24],
+  ["San José", "San José", "CR", 9.93, -84.08],
+  ["Panama City", "Panamá", "PA", 8.98, -79.52],
+  ["Havana", "Havana", "CU", 23.11, -82.37],
+  ["Nassau", "New Providence", "BS", 25.05, -77.35],
+  ["Hamilton", "Pembroke", "BM", 32.29, -64.78],
+  ["Kingston", "Kingston", "JM", 17.97, -76.79],
+  ["Montego Bay", "Saint James", "JM", 18.47, -77.92],
+  ["Port-au-Prince", "Ouest", "HT", 18.59, -72.31],
+  ["Santo Domingo", "Distrito Nacional", "DO", 18.49, -69.93],
+  ["Punta Cana", "La Altagracia", "DO", 18.58, -68.4],
+  ["San Juan", "San Juan", "PR", 18.47, -66.11],
+  ["Castries", "Castries", "LC", 14.01, -60.99],
+  ["Bridgetown", "Saint Michael", "BB", 13.1, -59.61],
+  ["Port of Spain", "Port of Spain", "TT", 10.65, -61.52],
+  ["Oranjestad", "Aruba", "AW", 12.52, -70.03],
+  ["Willemstad", "Curaçao", "CW", 12.11, -68.93],
+
+  // South America
+  ["Bogotá", "Bogotá", "CO", 4.71, -74.07],
+  ["Medellín", "Antioquia", "CO", 6.24, -75.58],
+  ["Cali", "Valle del Cauca", "CO", 3.45, -76.53],
+  ["Cartagena", "Bolívar", "CO", 10.39, -75.48],
+  ["Caracas", "Capital District", "VE", 10.48, -66.9],
+  ["Georgetown", "Demerara-Mahaica", "GY", 6.8, -58.16],
+  ["Paramaribo", "Paramaribo", "SR", 5.85, -55.2],
+  ["Cayenne", "French Guiana", "GF", 4.92, -52.31],
+  ["Quito", "Pichincha", "EC", -0.18, -78.47],
+  ["Guayaquil", "Guayas", "EC", -2.19, -79.89],
+  ["Puerto Ayora", "Galápagos", "EC", -0.74, -90.31],
+  ["Lima", "Lima", "PE", -12.05, -77.04],
+  ["Cusco", "Cusco", "PE", -13.53, -71.97],
+  ["Aguas Calientes", "Cusco", "PE", -13.15, -72.52],
+  ["Arequipa", "Arequipa", "PE", -16.41, -71.54],
+  ["La Paz", "La Paz", "BO", -16.5, -68.15],
+  ["Santa Cruz de la Sierra", "Santa Cruz", "BO", -17.78, -63.18],
+  ["Sucre", "Chuquisaca", "BO", -19.04, -65.26],
+  ["Uyuni", "Potosí", "BO", -20.46, -66.83],
+  ["Santiago", "Santiago Metropolitan", "CL", -33.45, -70.67],
+  ["Valparaíso", "Valparaíso", "CL", -33.05, -71.62],
+  ["Hanga Roa", "Valparaíso", "CL", -27.15, -109.43],
+  ["San Pedro de Atacama", "Antofagasta", "CL", -22.91, -68.2],
+  ["Puerto Natales", "Magallanes", "CL", -51.73, -72.51],
+  ["Punta Arenas", "Magallanes", "CL", -53.16, -70.91],
+  ["Buenos Aires", "Buenos Aires", "AR", -34.6, -58.38],
+  ["Córdoba", "Córdoba", "AR", -31.42, -64.18],
+  ["Mendoza", "Mendoza", "AR", -32.89, -68.83],
+  ["Salta", "Salta", "AR", -24.78, -65.41],
+  ["Puerto Iguazú", "Misiones", "AR", -25.6, -54.57],
+  ["Bariloche", "Río Negro", "AR", -41.13, -71.31],
+  ["El Calafate", "Santa Cruz", "AR", -50.34, -72.26],
+  ["Ushuaia", "Tierra del Fuego", "AR", -54.8, -68.3],
+  ["Montevideo", "Montevideo", "UY", -34.9, -56.16],
+  ["Punta del Este", "Maldonado", "UY", -34.96, -54.95],
+  ["Asunción", "Asunción", "PY", -25.26, -57.58],
+  ["São Paulo", "São Paulo", "BR", -23.55, -46.63],
+  ["Rio de Janeiro", "Rio de Janeiro", "BR", -22.91, -43.17],
+  ["Belo Horizonte", "Minas Gerais", "BR", -19.92, -43.94],
+  ["Brasília", "Federal District", "BR", -15.79, -47.88],
+  ["Salvador", "Bahia", "BR", -12.97, -38.5],
+  ["Recife", "Pernambuco", "BR", -8.05, -34.88],
+  ["Natal", "Rio Grande do Norte", "BR", -5.79, -35.21],
+  ["Fortaleza", "Ceará", "BR", -3.73, -38.53],
+  ["Belém", "Pará", "BR", -1.46, -48.5],
+  ["Manaus", "Amazonas", "BR", -3.12, -60.02],
+  ["Curitiba", "Paraná", "BR", -25.43, -49.27],
+  ["Foz do Iguaçu", "Paraná", "BR", -25.55, -54.59],
+  ["Florianópolis", "Santa Catarina", "BR", -27.6, -48.55],
+  ["Porto Alegre", "Rio Grande do Sul", "BR", -30.03, -51.23],
+  ["Stanley", "Falkland Islands", "FK", -51.69, -57.86],
+];
+
+/**
+ * All bundled places
+ */
+export const GAZETTEER: readonly GazetteerPlace[] = PLACES.map(
+  ([city, region, countryCode, latitude, longitude]) => ({
+    city,
+    region,
+    country: COUNTRY_NAMES[countryCode] ?? countryCode,
+    countryCode,
+    latitude,
+    longitude,
+  }),
+);
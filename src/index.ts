@@ -141,6 +141,7 @@ import {
   stopAutoOrganizeScheduler,
   getAutoOrganizeScheduler,
 } from "./services/auto-organize.service.js";
+import { organizeJournalService } from "./services/organize-journal.service.js";
 
 // ==================== MAIN FUNCTION ====================
 
@@ -199,6 +200,29 @@ For more information, visit: https://github.com/kridaydave/File-Organizer-MCP
     );
   }
 
+  // Report organize runs interrupted by a crash before anything else moves files
+  try {
+    const interrupted = await organizeJournalService.listInterrupted();
+    if (interrupted.length > 0) {
+      logger.warn(
+        `\n⚠️  ${interrupted.length} organize run(s) were interrupted before finishing:`,
+      );
+      interrupted.forEach((journal) => {
+        const done = journal.steps.filter((s) => s.status === "done").length;
+        logger.warn(
+          `   • ${journal.directory} (${done}/${journal.steps.length} steps done) - journal ${journal.id}`,
+        );
+      });
+      logger.warn(
+        "   Use file_organizer_recover_organization to resume or roll back.\n",
+      );
+    }
+  } catch (error) {
+    logger.error(
+      `Failed to check for interrupted organize runs: ${(error as Error).message}`,
+    );
+  }
+
   // Start auto-organize scheduler if enabled
   const schedulerResult = await startAutoOrganizeScheduler();
 
@@ -0,0 +1,47 @@
+/**
+ * File Organizer MCP Server v3.5.0
+ * Archive Schemas
+ */
+
+import { z } from "zod";
+import { CommonParamsSchema } from "./common.schemas.js";
+
+/**
+ * Schema for extract_archive tool
+ */
+export const ExtractArchiveInputSchema = z
+  .object({
+    archive_path: z
+      .string()
+      .min(1, "Archive path cannot be empty")
+      .describe("Full path to the ZIP, TAR, TAR.GZ or GZ archive"),
+    target_dir: z
+      .string()
+      .min(1, "Target directory path cannot be empty")
+      .optional()
+      .describe(
+        "Directory to extract into; defaults to a folder named after the archive next to it",
+      ),
+    dry_run: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Validate the archive and list what would be extracted"),
+  })
+  .merge(CommonParamsSchema);
+
+export type ExtractArchiveInput = z.infer<typeof ExtractArchiveInputSchema>;
+
+/**
+ * Schema for inspect_archive tool
+ */
+export const InspectArchiveInputSchema = z
+  .object({
+    archive_path: z
+      .string()
+      .min(1, "Archive path cannot be empty")
+      .describe("Full path to the ZIP, TAR, TAR.GZ or GZ archive"),
+  })
+  .merge(CommonParamsSchema);
+
+export type InspectArchiveInput = z.infer<typeof InspectArchiveInputSchema>;
@@ -4,6 +4,10 @@
  */
 
 import { z } from "zod";
+import {
+  DESTINATION_TEMPLATE_TOKENS,
+  getTemplateTokenNames,
+} from "../utils/path-template.js";
 
 /**
  * Base directory input schema
@@ -39,6 +43,33 @@ export const CommonParamsSchema = z.object({
     ),
 });
 
+/**
+ * Destination templates are resolved relative to the organized directory
+ */
+export const DestinationTemplateSchema = z
+  .string()
+  .min(1, "Destination cannot be empty")
+  .max(500)
+  .refine(
+    (dest) =>
+      !dest.includes("\0") &&
+      !/^([\/\\]|[a-zA-Z]:)/.test(dest) &&
+      !dest.split(/[\/\\]/).includes(".."),
+    "Destination must be a relative path without '..' segments",
+  )
+  .superRefine((dest, ctx) => {
+    const known: readonly string[] = DESTINATION_TEMPLATE_TOKENS;
+    const unknown = getTemplateTokenNames(dest).filter(
+      (token) => !known.includes(token),
+    );
+    if (unknown.length > 0) {
+      ctx.addIssue({
+        code: "custom",
+        message: `Unknown template token(s): ${unknown.map((t) => `{${t}}`).join(", ")}`,
+      });
+    }
+  });
+
 export type PaginationInput = z.infer<typeof PaginationSchema>;
 export type CommonParams = z.infer<typeof CommonParamsSchema>;
 
@@ -5,6 +5,7 @@
 
 import { z } from "zod";
 import { CommonParamsSchema } from "./common.schemas.js";
+import type { UserTopic } from "../types.js";
 
 /**
  * Schema for organize_by_content tool
@@ -40,15 +41,102 @@ export const OrganizeByContentInputSchema = z
       .default(true)
       .describe("Scan subdirectories recursively"),
     strategy: z
-      .enum(["topic", "project"])
+      .enum(["topic", "project", "learned"])
       .optional()
       .default("topic")
       .describe(
-        '"topic" groups documents by detected topic; "project" groups files across types into detected project folders',
+        '"topic" groups documents by detected topic; "project" groups files across types into detected project folders; "learned" classifies documents into the folders of examples_dir',
+      ),
+    examples_dir: z
+      .string()
+      .min(1, "Examples directory path cannot be empty")
+      .optional()
+      .describe(
+        'Directory whose subfolders hold already-sorted example documents, one folder per topic (strategy "learned")',
+      ),
+    min_confidence: z
+      .number()
+      .min(0)
+      .max(1)
+      .optional()
+      .describe(
+        'Documents whose best topic scores below this confidence are reported as unsure and left in place (default 0.6 for "learned", off otherwise)',
       ),
   })
-  .merge(CommonParamsSchema);
+  .merge(CommonParamsSchema)
+  .refine((data) => data.strategy !== "learned" || data.examples_dir, {
+    message: 'examples_dir is required for strategy "learned"',
+    path: ["examples_dir"],
+  });
 
 export type OrganizeByContentInput = z.infer<
   typeof OrganizeByContentInputSchema
 >;
+
+/**
+ * Topic definition from the user config's `topics` list. The name becomes a
+ * folder name, so it may not contain path separators.
+ */
+export const UserTopicSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Topic name cannot be empty")
+    .max(100)
+    .refine(
+      (name) => !/[\\/:*?"<>|\x00-\x1f]/.test(name) && !/^\.+$/.test(name),
+      "Topic name must be a valid folder name",
+    ),
+  keywords: z
+    .array(
+      z.union([
+        z.string().trim().min(1),
+        z.object({
+          term: z.string().trim().min(1),
+          weight: z.number().positive(),
+        }),
+      ]),
+    )
+    .min(1, "Topic needs at least one keyword"),
+  exclude: z.array(z.string().trim().min(1)).optional(),
+  weight: z.number().positive().optional(),
+});
+
+/**
+ * Validate a raw topics array from user config. Invalid topics are dropped
+ * and reported instead of failing the whole set.
+ */
+export function parseUserTopics(raw: unknown): {
+  topics: UserTopic[];
+  errors: string[];
+} {
+  const topics: UserTopic[] = [];
+  const errors: string[] = [];
+
+  if (raw === undefined || raw === null) {
+    return { topics, errors };
+  }
+  if (!Array.isArray(raw)) {
+    return { topics, errors: ["Topics must be an array"] };
+  }
+
+  raw.forEach((entry: unknown, index) => {
+    const parsed = UserTopicSchema.safeParse(entry);
+    if (parsed.success) {
+      topics.push(parsed.data);
+      return;
+    }
+
+    const label =
+      entry && typeof entry === "object" && "name" in entry
+        ? `"${String((entry as { name: unknown }).name)}"`
+        : `#${index}`;
+    errors.push(
+      `Topic ${label} is invalid: ${parsed.error.issues
+        .map((i) => `${i.path.join(".") || "topic"}: ${i.message}`)
+        .join(", ")}`,
+    );
+  });
+
+  return { topics, errors };
+}
@@ -13,9 +13,28 @@ export const AnalyzeDuplicatesInputSchema = z
   .object({
     directory: z.string().min(1, "Directory path cannot be empty"),
     recommendation_strategy: z
-      .enum(["newest", "oldest", "best_location", "best_name"])
+      .enum([
+        "newest",
+        "oldest",
+        "best_location",
+        "best_name",
+        "highest_resolution",
+        "most_metadata",
+      ])
       .default("best_location"),
     auto_select_keep: z.boolean().default(false),
+    match_mode: z.enum(["exact", "perceptual", "music"]).default("exact"),
+    max_hamming_distance: z
+      .number()
+      .int()
+      .min(0, "max_hamming_distance must be between 0 and 64")
+      .max(64, "max_hamming_distance must be between 0 and 64")
+      .default(10),
+    duration_tolerance_seconds: z
+      .number()
+      .min(0, "duration_tolerance_seconds cannot be negative")
+      .max(30, "duration_tolerance_seconds cannot exceed 30")
+      .default(2),
   })
   .merge(CommonParamsSchema);
 
@@ -34,3 +53,31 @@ export const DeleteDuplicatesInputSchema = z
   .merge(CommonParamsSchema);
 
 export type DeleteDuplicatesInput = z.infer<typeof DeleteDuplicatesInputSchema>;
+
+/**
+ * Schema for replacing duplicate files with links to a kept copy
+ */
+export const DedupeDuplicatesInputSchema = z
+  .object({
+    groups: z
+      .array(
+        z.object({
+          keep: z.string().min(1, "Kept file path cannot be empty"),
+          duplicates: z
+            .array(z.string().min(1))
+            .min(1, "Each group needs at least one duplicate"),
+        }),
+      )
+      .min(1, "At least one group is required"),
+    allow_symlinks: z
+      .boolean()
+      .default(true)
+      .describe("Use a symlink when the filesystem refuses hardlinks"),
+    dry_run: z
+      .boolean()
+      .default(false)
+      .describe("If true, only check which duplicates can be linked"),
+  })
+  .merge(CommonParamsSchema);
+
+export type DedupeDuplicatesInput = z.infer<typeof DedupeDuplicatesInputSchema>;
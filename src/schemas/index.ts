@@ -13,3 +13,4 @@ export * from "./content.schemas.js";
 export * from "./duplicate.schemas.js";
 export * from "./file-management.schemas.js";
 export * from "./reader.schemas.js";
+export * from "./rules.schemas.js";
@@ -47,6 +47,32 @@ export const OrganizeMusicInputSchema = z
       .optional()
       .default(false)
       .describe("Skip files that are missing artist/album metadata"),
+    infer_missing_tags: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Fill missing tags from file and folder names"),
+    inference_patterns: z
+      .array(z.string().min(1, "Inference pattern cannot be empty"))
+      .max(20, "Maximum 20 inference patterns allowed")
+      .optional()
+      .describe(
+        'Path patterns tried in order, e.g. "{artist}/{album}/{track} - {title}"',
+      ),
+    min_inference_confidence: z
+      .number()
+      .min(0, "Confidence must be between 0 and 1")
+      .max(1, "Confidence must be between 0 and 1")
+      .optional()
+      .default(0.5)
+      .describe("Inferred values below this confidence are ignored"),
+    group_albums: z
+      .boolean()
+      .optional()
+      .default(true)
+      .describe(
+        "Keep each album together with one artist and year, and put multi-disc sets into Disc N folders",
+      ),
   })
   .merge(CommonParamsSchema);
 
@@ -91,6 +117,54 @@ export const OrganizePhotosInputSchema = z
       .optional()
       .default(false)
       .describe("Strip GPS location data from photos for privacy"),
+    group_sequences: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe(
+        "Move bursts and exposure brackets into a subfolder of their own instead of keeping them side by side",
+      ),
+    group_by_location: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe(
+        "Add a place-name folder (e.g. 2024/Lisbon, Portugal) resolved from GPS data with an offline gazetteer",
+      ),
+    location_granularity: z
+      .enum(["country", "region", "city"])
+      .optional()
+      .default("city")
+      .describe("Place name used for location folders"),
+    location_inherit_minutes: z
+      .number()
+      .int()
+      .min(0)
+      .max(1440)
+      .optional()
+      .default(60)
+      .describe(
+        "Photos without GPS take the location of the closest photo from the same camera taken within this many minutes (0 to disable)",
+      ),
+    clock_offsets: z
+      .record(z.string(), z.number().int())
+      .optional()
+      .describe(
+        'Seconds to add to the dates of each camera, keyed by "Make Model" (see file_organizer_correct_photo_dates)',
+      ),
+    clock_from_gps: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe(
+        "Correct camera clocks with offsets measured from GPS timestamps",
+      ),
+    timezone: z
+      .string()
+      .optional()
+      .describe(
+        "IANA time zone the photos were taken in (e.g. Europe/Lisbon), used to read GPS time as local time",
+      ),
     unknown_date_folder: z
       .string()
       .optional()
@@ -100,3 +174,167 @@ export const OrganizePhotosInputSchema = z
   .merge(CommonParamsSchema);
 
 export type OrganizePhotosInput = z.infer<typeof OrganizePhotosInputSchema>;
+
+// ==================== Video Organization Schema ====================
+
+export const OrganizeVideosInputSchema = z
+  .object({
+    source_dir: z
+      .string()
+      .min(1, "Source directory path cannot be empty")
+      .describe("Full path to the directory containing videos"),
+    target_dir: z
+      .string()
+      .min(1, "Target directory path cannot be empty")
+      .describe(
+        "Full path to the directory where organized videos will be placed",
+      ),
+    date_format: z
+      .enum(["YYYY/MM/DD", "YYYY-MM-DD", "YYYY/MM", "YYYY"])
+      .optional()
+      .default("YYYY/MM")
+      .describe("Date format for folder structure"),
+    group_by_device: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Group videos by recording device within date folders"),
+    dry_run: z
+      .boolean()
+      .optional()
+      .default(true)
+      .describe("If true, only preview changes without moving files"),
+    copy_instead_of_move: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Copy files instead of moving them"),
+    unknown_date_folder: z
+      .string()
+      .optional()
+      .default("Unknown Date")
+      .describe("Folder name for videos without a recording date"),
+  })
+  .merge(CommonParamsSchema);
+
+export type OrganizeVideosInput = z.infer<typeof OrganizeVideosInputSchema>;
+
+// ==================== Audio Tag Editing Schema ====================
+
+const positiveInt = (field: string) =>
+  z.number().int().min(1, `${field} must be a positive integer`);
+
+export const AudioTagsSchema = z
+  .object({
+    title: z.string().min(1).optional(),
+    artist: z.string().min(1).optional(),
+    album: z.string().min(1).optional(),
+    album_artist: z.string().min(1).optional(),
+    genre: z.string().min(1).optional(),
+    year: z
+      .number()
+      .int()
+      .min(1000, "year must be a four-digit year")
+      .max(9999, "year must be a four-digit year")
+      .optional(),
+    track_number: positiveInt("track_number").optional(),
+    total_tracks: positiveInt("total_tracks").optional(),
+    disc_number: positiveInt("disc_number").optional(),
+    total_discs: positiveInt("total_discs").optional(),
+  })
+  .strict();
+
+export type AudioTags = z.infer<typeof AudioTagsSchema>;
+
+export const EditAudioTagsInputSchema = z
+  .object({
+    files: z
+      .array(z.string())
+      .optional()
+      .describe("Audio files that receive the shared tags"),
+    directory: z
+      .string()
+      .optional()
+      .describe("Edit every supported audio file in this directory (album)"),
+    tags: AudioTagsSchema.optional().describe("Tags written to every file"),
+    per_file: z
+      .array(z.object({ path: z.string().min(1), tags: AudioTagsSchema }))
+      .optional()
+      .describe("Tags for individual files; these win over the shared tags"),
+    number_tracks: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Number tracks 1..n in file name order and set the total"),
+    dry_run: z
+      .boolean()
+      .optional()
+      .default(true)
+      .describe("If true, only preview tag changes without writing files"),
+  })
+  .merge(CommonParamsSchema)
+  .refine((data) => data.files || data.directory || data.per_file, {
+    message: 'Either "files", "directory" or "per_file" must be provided',
+    path: ["files", "directory"],
+  })
+  .refine((data) => data.tags || data.per_file || data.number_tracks, {
+    message: 'Nothing to edit: provide "tags", "per_file" or "number_tracks"',
+    path: ["tags"],
+  });
+
+export type EditAudioTagsInput = z.infer<typeof EditAudioTagsInputSchema>;
+
+// ==================== Photo Date Correction Schema ====================
+
+export const CorrectPhotoDatesInputSchema = z
+  .object({
+    directory: z
+      .string()
+      .min(1, "Directory path cannot be empty")
+      .describe("Directory containing the photos to correct"),
+    reference_file: z
+      .string()
+      .optional()
+      .describe("Photo whose real capture time is known"),
+    reference_time: z
+      .string()
+      .optional()
+      .refine((value) => value === undefined || !isNaN(Date.parse(value)), {
+        message: "reference_time must be a date and time",
+      })
+      .describe(
+        "Real local capture time of reference_file, e.g. 2024-05-01T14:05:00",
+      ),
+    use_gps: z
+      .boolean()
+      .optional()
+      .default(true)
+      .describe("Measure offsets from GPS timestamps versus camera time"),
+    timezone: z
+      .string()
+      .optional()
+      .describe(
+        "IANA time zone the photos were taken in (e.g. Europe/Lisbon); defaults to the system time zone",
+      ),
+    write_exif: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe(
+        "Rewrite DateTimeOriginal (and the other EXIF dates) of JPEG, TIFF and RAW files",
+      ),
+    dry_run: z
+      .boolean()
+      .optional()
+      .default(true)
+      .describe("If true, only report offsets and corrected dates"),
+  })
+  .merge(CommonParamsSchema)
+  .refine((data) => !data.reference_file === !data.reference_time, {
+    message: "reference_file and reference_time must be given together",
+    path: ["reference_time"],
+  });
+
+export type CorrectPhotoDatesInput = z.infer<
+  typeof CorrectPhotoDatesInputSchema
+>;
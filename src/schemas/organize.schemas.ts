@@ -4,7 +4,10 @@
  */
 
 import { z } from "zod";
-import { CommonParamsSchema } from "./common.schemas.js";
+import {
+  CommonParamsSchema,
+  DestinationTemplateSchema,
+} from "./common.schemas.js";
 
 /**
  * Schema for organize_files tool
@@ -33,6 +36,16 @@ export const OrganizeFilesInputSchema = z
       .describe(
         "Analyze file content for accurate type detection and security (slower)",
       ),
+    destination_template: DestinationTemplateSchema.optional().describe(
+      'Relative destination path template, e.g. "{category}/{year}/{month}/{name}{ext}" or "{artist|Unknown Artist}/{album}/{track:02} - {title}{ext}". Files with missing token values are skipped',
+    ),
+    archive_content: z
+      .enum(["off", "categorize", "extract"])
+      .optional()
+      .default("off")
+      .describe(
+        'Look inside archives: "categorize" files an archive under the category of most of its content (a ZIP of photos goes to Images), "extract" also extracts archives whose entries all pass inspection',
+      ),
   })
   .merge(CommonParamsSchema);
 
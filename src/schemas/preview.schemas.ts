@@ -4,7 +4,10 @@
  */
 
 import { z } from "zod";
-import { CommonParamsSchema } from "./common.schemas.js";
+import {
+  CommonParamsSchema,
+  DestinationTemplateSchema,
+} from "./common.schemas.js";
 
 /**
  * Schema for preview_organization tool
@@ -26,6 +29,9 @@ export const PreviewOrganizationInputSchema = z
       .describe(
         "How to handle file conflicts for preview. Uses config default if not specified",
       ),
+    destination_template: DestinationTemplateSchema.optional().describe(
+      'Relative destination path template, e.g. "{category}/{year}/{month}/{name}{ext}" or "{artist|Unknown Artist}/{album}/{track:02} - {title}{ext}". Files with missing token values are skipped',
+    ),
   })
   .merge(CommonParamsSchema);
 
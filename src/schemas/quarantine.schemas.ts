@@ -0,0 +1,94 @@
+/**
+ * File Organizer MCP Server v3.5.0
+ * Quarantine Schemas
+ */
+
+import { z } from "zod";
+import { CommonParamsSchema } from "./common.schemas.js";
+
+const QuarantineIdSchema = z
+  .string()
+  .min(1, "Quarantine ID cannot be empty")
+  .describe("ID of the quarantined item, as listed by list_quarantine");
+
+/**
+ * Schema for quarantine_files tool
+ */
+export const QuarantineFilesInputSchema = z
+  .object({
+    path: z
+      .string()
+      .min(1, "Path cannot be empty")
+      .describe("File to screen, or directory whose files are screened"),
+    include_subdirs: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Also screen files in subdirectories"),
+    min_threat_level: z
+      .enum(["low", "medium", "high"])
+      .optional()
+      .default("high")
+      .describe("Lowest screening threat level that is quarantined"),
+    dry_run: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Only screen and report which files would be quarantined"),
+  })
+  .merge(CommonParamsSchema);
+
+export type QuarantineFilesInput = z.infer<typeof QuarantineFilesInputSchema>;
+
+/**
+ * Schema for list_quarantine tool
+ */
+export const ListQuarantineInputSchema = z.object({}).merge(CommonParamsSchema);
+
+export type ListQuarantineInput = z.infer<typeof ListQuarantineInputSchema>;
+
+/**
+ * Schema for inspect_quarantine tool
+ */
+export const InspectQuarantineInputSchema = z
+  .object({ id: QuarantineIdSchema })
+  .merge(CommonParamsSchema);
+
+export type InspectQuarantineInput = z.infer<
+  typeof InspectQuarantineInputSchema
+>;
+
+/**
+ * Schema for release_quarantine tool
+ */
+export const ReleaseQuarantineInputSchema = z
+  .object({
+    id: QuarantineIdSchema,
+    target_path: z
+      .string()
+      .min(1, "Target path cannot be empty")
+      .optional()
+      .describe(
+        "Where to restore the file; defaults to the path it was quarantined from",
+      ),
+  })
+  .merge(CommonParamsSchema);
+
+export type ReleaseQuarantineInput = z.infer<
+  typeof ReleaseQuarantineInputSchema
+>;
+
+/**
+ * Schema for purge_quarantine tool
+ */
+export const PurgeQuarantineInputSchema = z
+  .object({
+    ids: z
+      .array(QuarantineIdSchema)
+      .min(1, "At least one quarantine ID is required")
+      .max(500)
+      .describe("IDs of the quarantined items to delete permanently"),
+  })
+  .merge(CommonParamsSchema);
+
+export type PurgeQuarantineInput = z.infer<typeof PurgeQuarantineInputSchema>;
@@ -0,0 +1,41 @@
+/**
+ * File Organizer MCP Server v3.5.0
+ * Organize Recovery Schemas
+ */
+
+import { z } from "zod";
+import { CommonParamsSchema } from "./common.schemas.js";
+
+/**
+ * Schema for recover_organization tool
+ * Lists, resumes or rolls back organize runs that were interrupted
+ */
+export const RecoverOrganizationInputSchema = z
+  .object({
+    action: z
+      .enum(["list", "resume", "rollback"])
+      .optional()
+      .default("list")
+      .describe(
+        "list interrupted runs, resume the remaining moves, or roll back what was done",
+      ),
+    journal_id: z
+      .string()
+      .min(1)
+      .optional()
+      .describe("ID of the interrupted run (required for resume and rollback)"),
+    dry_run: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Report what would happen without moving files"),
+  })
+  .merge(CommonParamsSchema)
+  .refine((data) => data.action === "list" || data.journal_id !== undefined, {
+    message: "journal_id is required for resume and rollback",
+    path: ["journal_id"],
+  });
+
+export type RecoverOrganizationInput = z.infer<
+  typeof RecoverOrganizationInputSchema
+>;
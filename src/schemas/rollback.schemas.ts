@@ -18,9 +18,106 @@ export const UndoLastOperationInputSchema = z
       .describe(
         "ID of the operation to undo. if omitted, undoes the last operation.",
       ),
+    dry_run: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Report the planned steps and conflicts without moving files"),
+    paths: z
+      .array(z.string().min(1).max(500))
+      .min(1)
+      .max(50)
+      .optional()
+      .describe(
+        'Only undo actions whose original or current path matches one of these globs (e.g. "**/Documents/**", "*.pdf")',
+      ),
+    categories: z
+      .array(z.string().min(1).max(100))
+      .min(1)
+      .optional()
+      .describe(
+        'Only undo actions organized into these categories (e.g. "Documents")',
+      ),
+    action_indices: z
+      .array(z.number().int().min(0))
+      .min(1)
+      .optional()
+      .describe(
+        "Only undo the actions at these zero-based positions (see file_organizer_inspect_rollback)",
+      ),
   })
   .merge(CommonParamsSchema);
 
 export type UndoLastOperationInput = z.infer<
   typeof UndoLastOperationInputSchema
 >;
+
+const IsoDateSchema = z
+  .string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), {
+    message: "Invalid date, expected an ISO 8601 timestamp",
+  });
+
+/**
+ * Schema for list_rollbacks tool
+ * Lists stored rollback manifests, newest first
+ */
+export const ListRollbacksInputSchema = z
+  .object({
+    since: IsoDateSchema.optional().describe(
+      "ISO date string - only operations at or after this time",
+    ),
+    until: IsoDateSchema.optional().describe(
+      "ISO date string - only operations at or before this time",
+    ),
+    search: z
+      .string()
+      .min(1)
+      .optional()
+      .describe("Text to match in the description or file paths"),
+    limit: z
+      .number()
+      .int()
+      .min(1)
+      .max(200)
+      .optional()
+      .default(20)
+      .describe("Maximum number of manifests to return"),
+  })
+  .merge(CommonParamsSchema);
+
+export type ListRollbacksInput = z.infer<typeof ListRollbacksInputSchema>;
+
+/**
+ * Schema for inspect_rollback tool
+ * Shows the recorded actions of one manifest
+ */
+export const InspectRollbackInputSchema = z
+  .object({
+    manifest_id: z
+      .string()
+      .min(1, "Manifest ID is required")
+      .describe("ID of the manifest to inspect"),
+  })
+  .merge(CommonParamsSchema);
+
+export type InspectRollbackInput = z.infer<typeof InspectRollbackInputSchema>;
+
+/**
+ * Schema for rollback_since tool
+ * Undoes every operation after a point in time, newest first
+ */
+export const RollbackSinceInputSchema = z
+  .object({
+    since: IsoDateSchema.describe(
+      "ISO date string - undo every operation at or after this time",
+    ),
+    dry_run: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Report the planned steps and conflicts without moving files"),
+  })
+  .merge(CommonParamsSchema);
+
+export type RollbackSinceInput = z.infer<typeof RollbackSinceInputSchema>;
@@ -0,0 +1,209 @@
+/**
+ * File Organizer MCP Server v3.5.0
+ * Organization Rules Schemas
+ *
+ * @module schemas/rules.schemas
+ */
+
+import { z } from "zod";
+import { DestinationTemplateSchema } from "./common.schemas.js";
+import type {
+  OrganizationRule,
+  RuleAction,
+  RuleCondition,
+  RuleFieldCondition,
+} from "../types.js";
+
+const RULE_FIELD_PATTERN =
+  /^(name|extension|path|size|age_days|modified|mime_type|detected_type|category|(exif|id3)\.[A-Za-z][A-Za-z0-9]*)$/;
+
+const MAX_RULE_REGEX_LENGTH = 100;
+
+/**
+ * Single field comparison, e.g. { field: "size", op: "gt", value: "10MB" }
+ */
+export const RuleFieldConditionSchema: z.ZodType<RuleFieldCondition> = z
+  .object({
+    field: z
+      .string()
+      .regex(RULE_FIELD_PATTERN, "Unknown rule field")
+      .describe(
+        'Field to inspect: name, extension, path, size, age_days, modified, mime_type, detected_type, category, "exif.<key>" or "id3.<key>"',
+      ) as z.ZodType<RuleFieldCondition["field"]>,
+    op: z.enum([
+      "eq",
+      "neq",
+      "gt",
+      "gte",
+      "lt",
+      "lte",
+      "contains",
+      "starts_with",
+      "ends_with",
+      "glob",
+      "regex",
+      "in",
+      "exists",
+    ]),
+    value: z
+      .union([
+        z.string(),
+        z.number(),
+        z.boolean(),
+        z.array(z.union([z.string(), z.number()])),
+      ])
+      .optional(),
+  })
+  .superRefine((condition, ctx) => {
+    if (condition.op !== "exists" && condition.value === undefined) {
+      ctx.addIssue({
+        code: "custom",
+        message: `Operator "${condition.op}" requires a value`,
+        path: ["value"],
+      });
+    }
+    if (condition.op === "in" && !Array.isArray(condition.value)) {
+      ctx.addIssue({
+        code: "custom",
+        message: 'Operator "in" requires an array value',
+        path: ["value"],
+      });
+    }
+    if (condition.op === "regex") {
+      const pattern = String(condition.value ?? "");
+      if (pattern.length > MAX_RULE_REGEX_LENGTH) {
+        ctx.addIssue({
+          code: "custom",
+          message: `Regex exceeds ${MAX_RULE_REGEX_LENGTH} characters`,
+          path: ["value"],
+        });
+        return;
+      }
+      // Security: reject nested quantifiers that can cause catastrophic backtracking
+      if (/\([^)]*[+*][^)]*\)[+*{]/.test(pattern)) {
+        ctx.addIssue({
+          code: "custom",
+          message: "Regex contains nested quantifiers",
+          path: ["value"],
+        });
+        return;
+      }
+      try {
+        new RegExp(pattern);
+      } catch {
+        ctx.addIssue({
+          code: "custom",
+          message: "Invalid regular expression",
+          path: ["value"],
+        });
+      }
+    }
+  });
+
+/**
+ * Condition tree combining field comparisons with all / any / not
+ */
+export const RuleConditionSchema: z.ZodType<RuleCondition> = z.lazy(() =>
+  z.union([
+    z.object({ all: z.array(RuleConditionSchema).min(1) }).strict(),
+    z.object({ any: z.array(RuleConditionSchema).min(1) }).strict(),
+    z.object({ not: RuleConditionSchema }).strict(),
+    RuleFieldConditionSchema,
+  ]),
+);
+
+export const RuleActionSchema: z.ZodType<RuleAction> = z.discriminatedUnion(
+  "type",
+  [
+    z.object({
+      type: z.literal("move"),
+      destination: DestinationTemplateSchema,
+    }),
+    z.object({
+      type: z.literal("copy"),
+      destination: DestinationTemplateSchema,
+    }),
+    z.object({
+      type: z.literal("tag"),
+      tags: z.array(z.string().min(1).max(50)).min(1),
+    }),
+    z.object({ type: z.literal("skip"), reason: z.string().optional() }),
+    z.object({ type: z.literal("quarantine") }),
+  ],
+);
+
+export const OrganizationRuleSchema = z.object({
+  name: z.string().min(1, "Rule name cannot be empty").max(100),
+  description: z.string().optional(),
+  enabled: z.boolean().default(true),
+  priority: z.number().int().default(0),
+  conditions: RuleConditionSchema,
+  action: RuleActionSchema,
+});
+
+/**
+ * Pre-rules-engine config shape: { pattern, destination, overwrite }
+ */
+export const LegacyOrganizationRuleSchema = z.object({
+  pattern: z.string().min(1),
+  destination: z.string().min(1),
+  overwrite: z.boolean().optional(),
+});
+
+export type LegacyOrganizationRule = z.infer<
+  typeof LegacyOrganizationRuleSchema
+>;
+
+/**
+ * Validate a raw rules array from user config.
+ * Legacy `{ pattern, destination }` entries are converted to glob-on-name
+ * move rules. Invalid rules are dropped and reported instead of failing the
+ * whole set.
+ */
+export function parseOrganizationRules(raw: unknown): {
+  rules: OrganizationRule[];
+  errors: string[];
+} {
+  const rules: OrganizationRule[] = [];
+  const errors: string[] = [];
+
+  if (raw === undefined || raw === null) {
+    return { rules, errors };
+  }
+  if (!Array.isArray(raw)) {
+    return { rules, errors: ["Rules must be an array"] };
+  }
+
+  raw.forEach((entry: unknown, index) => {
+    const parsed = OrganizationRuleSchema.safeParse(entry);
+    if (parsed.success) {
+      rules.push(parsed.data);
+      return;
+    }
+
+    const legacy = LegacyOrganizationRuleSchema.safeParse(entry);
+    if (legacy.success) {
+      const converted = OrganizationRuleSchema.safeParse({
+        name: `legacy:${legacy.data.pattern}`,
+        conditions: { field: "name", op: "glob", value: legacy.data.pattern },
+        action: { type: "move", destination: legacy.data.destination },
+      });
+      if (converted.success) {
+        rules.push(converted.data);
+        return;
+      }
+    }
+
+    const label =
+      entry && typeof entry === "object" && "name" in entry
+        ? `"${String((entry as { name: unknown }).name)}"`
+        : `#${index}`;
+    errors.push(
+      `Rule ${label} is invalid: ${parsed.error.issues
+        .map((i) => `${i.path.join(".") || "rule"}: ${i.message}`)
+        .join(", ")}`,
+    );
+  });
+
+  return { rules, errors };
+}
@@ -14,6 +14,7 @@ export const IssueTypeSchema = z.enum([
   "unknown_type",
   "malicious_content",
   "policy_violation",
+  "active_content",
 ]);
 
 export const ThreatLevelSchema = z.enum([
@@ -17,8 +17,15 @@ export const WatchDirectoryInputSchema = z
     schedule: z
       .string()
       .min(1, "Schedule cannot be empty")
+      .optional()
+      .describe(
+        'Cron expression (e.g., "0 9 * * *" for 9am daily, "*/30 * * * *" for every 30 min). Required unless trigger is "events"',
+      ),
+    trigger: z
+      .enum(["cron", "events", "both"])
+      .default("cron")
       .describe(
-        'Cron expression (e.g., "0 9 * * *" for 9am daily, "*/30 * * * *" for every 30 min)',
+        "What starts organization: the cron schedule, filesystem events (new files are organized within seconds), or both",
       ),
     auto_organize: z
       .boolean()
@@ -38,8 +45,21 @@ export const WatchDirectoryInputSchema = z
       .min(1)
       .optional()
       .describe("Maximum files to process per run"),
+    debounce_ms: z
+      .number()
+      .int()
+      .min(100)
+      .max(60000)
+      .optional()
+      .describe(
+        "Quiet period in milliseconds after the last file event before files are checked (events trigger)",
+      ),
   })
-  .merge(CommonParamsSchema);
+  .merge(CommonParamsSchema)
+  .refine((input) => input.trigger === "events" || !!input.schedule, {
+    message: 'Schedule is required unless trigger is "events"',
+    path: ["schedule"],
+  });
 
 export type WatchDirectoryInput = z.infer<typeof WatchDirectoryInputSchema>;
 
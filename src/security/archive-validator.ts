@@ -33,9 +33,10 @@ export interface EntryValidationResult {
  */
 export function detectArchiveFormat(filePath: string): ArchiveValidationResult {
   try {
-    const buffer = Buffer.alloc(16);
+    // TAR has its "ustar" magic at offset 257 of the first header block
+    const buffer = Buffer.alloc(512);
     const fd = fs.openSync(filePath, "r");
-    const bytesRead = fs.readSync(fd, buffer, 0, 16, 0);
+    const bytesRead = fs.readSync(fd, buffer, 0, 512, 0);
     fs.closeSync(fd);
 
     if (bytesRead < 4) {
@@ -79,6 +80,15 @@ export function detectArchiveFormat(filePath: string): ArchiveValidationResult {
       return { valid: true, format: "bz2" };
     }
 
+    // Check TAR format (POSIX ustar and GNU tar)
+    const tarMagic = SECURITY_LIMITS.archiveValidation.MAGIC_NUMBERS.tar;
+    if (
+      bytesRead >= 257 + tarMagic.length &&
+      tarMagic.every((byte, i) => magicBytes[257 + i] === byte)
+    ) {
+      return { valid: true, format: "tar" };
+    }
+
     return { valid: false, error: "Unknown or unsupported archive format" };
   } catch (error) {
     return {
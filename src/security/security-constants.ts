@@ -18,6 +18,12 @@ export const SECURITY_LIMITS = {
      */
     MAX_RATIO: 10,
 
+    /**
+     * Total uncompressed size below which MAX_RATIO is not enforced
+     * Ordinary text compresses past 10x, and 64MB cannot exhaust a disk
+     */
+    RATIO_EXEMPT_BYTES: 64 * 1024 * 1024, // 64 MB
+
     /**
      * Maximum absolute uncompressed size per chunk
      * 2.5GB per chunk prevents memory exhaustion
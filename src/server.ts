@@ -22,7 +22,12 @@ import {
   handleSetCustomRules,
   handleAnalyzeDuplicates,
   handleDeleteDuplicates,
+  handleDedupeDuplicates,
   handleUndoLastOperation,
+  handleListRollbacks,
+  handleInspectRollback,
+  handleRollbackSince,
+  handleRecoverOrganization,
   handleBatchRename,
   handleInspectMetadata,
   handleWatchDirectory,
@@ -30,11 +35,21 @@ import {
   handleListWatches,
   handleReadFile,
   handleOrganizeMusic,
+  handleEditAudioTags,
   handleOrganizePhotos,
+  handleCorrectPhotoDates,
+  handleOrganizeVideos,
   handleOrganizeByContent,
   handleOrganizeSmart,
   handleSystemOrganization,
   handleBatchReadFiles,
+  handleExtractArchive,
+  handleInspectArchive,
+  handleQuarantineFiles,
+  handleListQuarantine,
+  handleInspectQuarantine,
+  handleReleaseQuarantine,
+  handlePurgeQuarantine,
   handleViewHistory,
   handleSmartSuggest,
 } from "./tools/index.js";
@@ -172,9 +187,24 @@ async function handleToolCall(
       case "file_organizer_delete_duplicates":
         response = await handleDeleteDuplicates(args);
         break;
+      case "file_organizer_dedupe_duplicates":
+        response = await handleDedupeDuplicates(args);
+        break;
       case "file_organizer_undo_last_operation":
         response = await handleUndoLastOperation(args);
         break;
+      case "file_organizer_list_rollbacks":
+        response = await handleListRollbacks(args);
+        break;
+      case "file_organizer_inspect_rollback":
+        response = await handleInspectRollback(args);
+        break;
+      case "file_organizer_rollback_since":
+        response = await handleRollbackSince(args);
+        break;
+      case "file_organizer_recover_organization":
+        response = await handleRecoverOrganization(args);
+        break;
       case "file_organizer_batch_rename":
         response = await handleBatchRename(args);
         break;
@@ -199,9 +229,18 @@ async function handleToolCall(
       case "file_organizer_organize_music":
         response = await handleOrganizeMusic(args);
         break;
+      case "file_organizer_edit_audio_tags":
+        response = await handleEditAudioTags(args);
+        break;
       case "file_organizer_organize_photos":
         response = await handleOrganizePhotos(args);
         break;
+      case "file_organizer_correct_photo_dates":
+        response = await handleCorrectPhotoDates(args);
+        break;
+      case "file_organizer_organize_videos":
+        response = await handleOrganizeVideos(args);
+        break;
       case "file_organizer_organize_by_content":
         response = await handleOrganizeByContent(args);
         break;
@@ -214,6 +253,27 @@ async function handleToolCall(
       case "file_organizer_system_organize":
         response = await handleSystemOrganization(args);
         break;
+      case "file_organizer_extract_archive":
+        response = await handleExtractArchive(args);
+        break;
+      case "file_organizer_inspect_archive":
+        response = await handleInspectArchive(args);
+        break;
+      case "file_organizer_quarantine_files":
+        response = await handleQuarantineFiles(args);
+        break;
+      case "file_organizer_list_quarantine":
+        response = await handleListQuarantine(args);
+        break;
+      case "file_organizer_inspect_quarantine":
+        response = await handleInspectQuarantine(args);
+        break;
+      case "file_organizer_release_quarantine":
+        response = await handleReleaseQuarantine(args);
+        break;
+      case "file_organizer_purge_quarantine":
+        response = await handlePurgeQuarantine(args);
+        break;
       case "file_organizer_batch_read_files":
         response = await handleBatchReadFiles(args);
         break;
@@ -0,0 +1,530 @@
+/**
+ * File Organizer MCP Server v3.5.0
+ * Active Content Service
+ *
+ * @module services/active-content.service
+ * @description Looks inside Office and PDF documents for content that can
+ * run when the document is opened: VBA and Excel 4.0 macros, external
+ * template and object relationships and DDE fields in OOXML files, macro
+ * storages and packaged files in legacy OLE compound files, and JavaScript,
+ * launch actions, open actions and embedded files in PDFs, including names
+ * hidden in compressed object streams.
+ */
+
+import fs from "fs/promises";
+import zlib from "zlib";
+import {
+  archiveExtractorService,
+  type ArchiveExtractorService,
+} from "./archive-extractor.service.js";
+import { logger } from "../utils/logger.js";
+
+export type ActiveContentFormat = "ooxml" | "ole" | "pdf";
+
+export interface ActiveContentIndicator {
+  format: ActiveContentFormat;
+  /** Kind of active content, e.g. "vba_macro" or "javascript" */
+  indicator: string;
+  severity: "warning" | "error";
+  message: string;
+  /** Exactly what was found: PDF names, part names, targets or instructions */
+  evidence: string[];
+  /** Where it was found: ZIP entries, OLE storages or PDF locations */
+  locations: string[];
+}
+
+interface PdfIndicator {
+  indicator: string;
+  names: string[];
+  severity: "warning" | "error";
+  message: string;
+}
+
+const PDF_INDICATORS: PdfIndicator[] = [
+  {
+    indicator: "javascript",
+    names: ["/JavaScript", "/JS"],
+    severity: "error",
+    message: "PDF contains JavaScript",
+  },
+  {
+    indicator: "launch",
+    names: ["/Launch"],
+    severity: "error",
+    message: "PDF can launch other programs",
+  },
+  {
+    indicator: "open_action",
+    names: ["/OpenAction"],
+    severity: "warning",
+    message: "PDF runs an action when it is opened",
+  },
+  {
+    indicator: "additional_actions",
+    names: ["/AA"],
+    severity: "warning",
+    message: "PDF runs actions on page or form events",
+  },
+  {
+    indicator: "embedded_file",
+    names: ["/EmbeddedFile", "/EmbeddedFiles"],
+    severity: "warning",
+    message: "PDF contains embedded files",
+  },
+];
+
+/** External relationships that load a template or object when opened */
+const REMOTE_LOAD_RELATIONSHIPS = [
+  "attachedTemplate",
+  "oleObject",
+  "subDocument",
+  "frame",
+];
+const OLE_MACRO_STORAGES = [
+  "VBA",
+  "_VBA_PROJECT",
+  "_VBA_PROJECT_CUR",
+  "Macros",
+];
+
+const OLE_SIGNATURE = Buffer.from([
+  0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1,
+]);
+const ZIP_SIGNATURE = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+const PDF_SIGNATURE = Buffer.from("%PDF-");
+/** PDF readers accept a header anywhere in the first kilobyte */
+const PDF_HEADER_SEARCH_BYTES = 1024;
+/** Bytes of an OLE or PDF document that are inspected */
+const MAX_DOCUMENT_BYTES = 32 * 1024 * 1024;
+/** Bytes read from each OOXML part and each PDF object stream */
+const MAX_PART_BYTES = 8 * 1024 * 1024;
+const MAX_OBJECT_STREAMS = 500;
+const MAX_EVIDENCE = 10;
+/** Sector numbers above this mark free sectors or the end of a chain */
+const MAX_REGULAR_SECTOR = 0xfffffffa;
+
+/**
+ * Active Content Service
+ */
+export class ActiveContentService {
+  constructor(
+    private readonly archives: ArchiveExtractorService = archiveExtractorService,
+  ) {}
+
+  /**
+   * Active content in a document, identified by its first bytes. Files that
+   * are not OOXML, OLE or PDF documents have none.
+   */
+  async detect(
+    filePath: string,
+    header: Buffer,
+  ): Promise<ActiveContentIndicator[]> {
+    if (header.subarray(0, 4).equals(ZIP_SIGNATURE)) {
+      return this.detectOoxml(filePath);
+    }
+    if (header.subarray(0, 8).equals(OLE_SIGNATURE)) {
+      return detectOle(await readDocument(filePath));
+    }
+    if (header.subarray(0, PDF_HEADER_SEARCH_BYTES).includes(PDF_SIGNATURE)) {
+      return detectPdf(await readDocument(filePath));
+    }
+    return [];
+  }
+
+  private async detectOoxml(
+    filePath: string,
+  ): Promise<ActiveContentIndicator[]> {
+    let listing;
+    try {
+      listing = await this.archives.list(filePath);
+    } catch (error) {
+      logger.debug(
+        `Not inspecting ${filePath} as OOXML: ${(error as Error).message}`,
+      );
+      return [];
+    }
+    const files = listing.entries.filter((e) => e.type === "file");
+    if (!files.some((e) => e.name === "[Content_Types].xml")) return [];
+
+    const indicators: ActiveContentIndicator[] = [];
+    const macros = files
+      .filter((e) => /(^|\/)vbaProject\.bin$/i.test(e.name))
+      .map((e) => e.name);
+    if (macros.length > 0) {
+      indicators.push(
+        ooxmlIndicator("vba_macro", "error", "Document contains VBA macros", {
+          evidence: macros,
+          locations: macros,
+        }),
+      );
+    }
+    const macroSheets = files
+      .filter((e) => /^xl\/macrosheets\//i.test(e.name))
+      .map((e) => e.name);
+    if (macroSheets.length > 0) {
+      indicators.push(
+        ooxmlIndicator(
+          "xlm_macro",
+          "error",
+          "Workbook contains Excel 4.0 macro sheets",
+          { evidence: macroSheets, locations: macroSheets },
+        ),
+      );
+    }
+
+    const parts = files.filter(
+      (e) =>
+        /\.rels$/i.test(e.name) ||
+        /^word\/[^/]+\.xml$/i.test(e.name) ||
+        /^xl\/externalLinks\/[^/]+\.xml$/i.test(e.name),
+    );
+    const contents = await this.archives.readEntryHeads(
+      filePath,
+      { ...listing, entries: parts },
+      MAX_PART_BYTES,
+    );
+
+    const remoteLoads: Array<{ location: string; evidence: string }> = [];
+    const external: Array<{ location: string; evidence: string }> = [];
+    const dde: Array<{ location: string; evidence: string }> = [];
+    parts.forEach((part, i) => {
+      const xml = contents[i]?.toString("utf8");
+      if (xml === undefined) return;
+
+      if (/\.rels$/i.test(part.name)) {
+        for (const { type, target } of externalRelationships(xml)) {
+          if (type === "hyperlink") continue;
+          (REMOTE_LOAD_RELATIONSHIPS.includes(type)
+            ? remoteLoads
+            : external
+          ).push({ location: part.name, evidence: `${type}: ${target}` });
+        }
+      } else if (part.name.startsWith("xl/")) {
+        for (const link of ddeLinks(xml)) {
+          dde.push({ location: part.name, evidence: link });
+        }
+      } else {
+        for (const instruction of ddeFieldInstructions(xml)) {
+          dde.push({ location: part.name, evidence: instruction });
+        }
+      }
+    });
+
+    if (remoteLoads.length > 0) {
+      indicators.push(
+        ooxmlIndicator(
+          "external_template",
+          "error",
+          "Document loads a template or object from an external location when opened",
+          collect(remoteLoads),
+        ),
+      );
+    }
+    if (dde.length > 0) {
+      indicators.push(
+        ooxmlIndicator(
+          "dde",
+          "error",
+          "Document contains DDE links that can run commands",
+          collect(dde),
+        ),
+      );
+    }
+    if (external.length > 0) {
+      indicators.push(
+        ooxmlIndicator(
+          "external_relationship",
+          "warning",
+          "Document references external resources",
+          collect(external),
+        ),
+      );
+    }
+    return indicators;
+  }
+}
+
+function ooxmlIndicator(
+  indicator: string,
+  severity: ActiveContentIndicator["severity"],
+  message: string,
+  found: { evidence: string[]; locations: string[] },
+): ActiveContentIndicator {
+  return {
+    format: "ooxml",
+    indicator,
+    severity,
+    message,
+    evidence: found.evidence.slice(0, MAX_EVIDENCE),
+    locations: [...new Set(found.locations)].slice(0, MAX_EVIDENCE),
+  };
+}
+
+function collect(found: Array<{ location: string; evidence: string }>): {
+  evidence: string[];
+  locations: string[];
+} {
+  return {
+    evidence: [...new Set(found.map((f) => f.evidence))],
+    locations: found.map((f) => f.location),
+  };
+}
+
+/**
+ * Relationships with TargetMode="External", by the last part of their type
+ */
+function externalRelationships(
+  xml: string,
+): Array<{ type: string; target: string }> {
+  const relationships: Array<{ type: string; target: string }> = [];
+  for (const [, attributes] of xml.matchAll(/<Relationship\b([^>]*)>/g)) {
+    const attrs = Object.fromEntries(
+      [...attributes!.matchAll(/(\w+)\s*=\s*"([^"]*)"/g)].map(([, k, v]) => [
+        k!,
+        decodeXmlEntities(v!),
+      ]),
+    );
+    if (attrs.TargetMode?.toLowerCase() !== "external") continue;
+    relationships.push({
+      type: attrs.Type?.split("/").pop() ?? "unknown",
+      target: attrs.Target ?? "",
+    });
+  }
+  return relationships;
+}
+
+/**
+ * DDE and DDEAUTO field instructions of a WordprocessingML part. Complex
+ * field instructions may be split over several runs, so they are joined.
+ */
+function ddeFieldInstructions(xml: string): string[] {
+  const instructions = [
+    [...xml.matchAll(/<w:instrText\b[^>]*>([^<]*)<\/w:instrText>/g)]
+      .map(([, text]) => text)
+      .join(""),
+    ...[...xml.matchAll(/<w:fldSimple\b[^>]*\bw:instr="([^"]*)"/g)].map(
+      ([, instr]) => instr!,
+    ),
+  ];
+
+  const found: string[] = [];
+  for (const instruction of instructions.map(decodeXmlEntities)) {
+    for (const match of instruction.matchAll(/\bDDE(?:AUTO)?\b/gi)) {
+      found.push(instruction.slice(match.index, match.index + 200).trim());
+    }
+  }
+  return found;
+}
+
+/**
+ * DDE links of a SpreadsheetML external link part, as service|topic
+ */
+function ddeLinks(xml: string): string[] {
+  return [...xml.matchAll(/<(?:\w+:)?ddeLink\b([^>]*)>/g)].map(
+    ([, attributes]) => {
+      const service = /ddeService="([^"]*)"/.exec(attributes!)?.[1] ?? "";
+      const topic = /ddeTopic="([^"]*)"/.exec(attributes!)?.[1] ?? "";
+      return decodeXmlEntities(`${service}|${topic}`);
+    },
+  );
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Macro storages and packaged files in an OLE compound file
+ */
+function detectOle(data: Buffer): ActiveContentIndicator[] {
+  const names = compoundFileEntryNames(data);
+  const indicators: ActiveContentIndicator[] = [];
+
+  const macros = names.filter((name) => OLE_MACRO_STORAGES.includes(name));
+  if (macros.length > 0) {
+    indicators.push({
+      format: "ole",
+      indicator: "vba_macro",
+      severity: "error",
+      message: "Document contains VBA macros",
+      evidence: [...new Set(macros)],
+      locations: [...new Set(macros)],
+    });
+  }
+  const packages = names.filter((name) => name === "Ole10Native");
+  if (packages.length > 0) {
+    indicators.push({
+      format: "ole",
+      indicator: "ole_package",
+      severity: "warning",
+      message: "Document contains an embedded package that can hold any file",
+      evidence: ["Ole10Native"],
+      locations: ["Ole10Native"],
+    });
+  }
+  return indicators;
+}
+
+/**
+ * Names of the storages and streams in an OLE compound file, read by
+ * following the directory chain through the FAT. Control characters that
+ * prefix some names (e.g. \x01Ole10Native) are removed.
+ */
+function compoundFileEntryNames(data: Buffer): string[] {
+  if (data.length < 512) return [];
+  const shift = data.readUInt16LE(0x1e);
+  if (shift !== 9 && shift !== 12) return [];
+
+  const sectorSize = 1 << shift;
+  const perSector = sectorSize / 4;
+  const sectorStart = (sector: number) => (sector + 1) * sectorSize;
+  const readSectorNumber = (offset: number) =>
+    offset + 4 <= data.length ? data.readUInt32LE(offset) : MAX_REGULAR_SECTOR;
+
+  const fatSectors: number[] = [];
+  for (let i = 0; i < 109; i++) {
+    const sector = data.readUInt32LE(0x4c + i * 4);
+    if (sector < MAX_REGULAR_SECTOR) fatSectors.push(sector);
+  }
+  const seen = new Set<number>();
+  let difat = data.readUInt32LE(0x44);
+  while (difat < MAX_REGULAR_SECTOR && !seen.has(difat)) {
+    seen.add(difat);
+    const start = sectorStart(difat);
+    for (let i = 0; i < perSector - 1; i++) {
+      const sector = readSectorNumber(start + i * 4);
+      if (sector < MAX_REGULAR_SECTOR) fatSectors.push(sector);
+    }
+    difat = readSectorNumber(start + (perSector - 1) * 4);
+  }
+  const nextSector = (sector: number) => {
+    const fat = fatSectors[Math.floor(sector / perSector)];
+    return fat === undefined
+      ? MAX_REGULAR_SECTOR
+      : readSectorNumber(sectorStart(fat) + (sector % perSector) * 4);
+  };
+
+  const names: string[] = [];
+  const visited = new Set<number>();
+  let sector = data.readUInt32LE(0x30);
+  while (sector < MAX_REGULAR_SECTOR && !visited.has(sector)) {
+    visited.add(sector);
+    const start = sectorStart(sector);
+    if (start + sectorSize > data.length) break;
+    for (let entry = start; entry < start + sectorSize; entry += 128) {
+      const nameLength = data.readUInt16LE(entry + 0x40);
+      const type = data[entry + 0x42];
+      if (
+        (type === 1 || type === 2 || type === 5) &&
+        nameLength >= 2 &&
+        nameLength <= 64
+      ) {
+        names.push(
+          data
+            .toString("utf16le", entry, entry + nameLength - 2)
+            .replace(/[\x00-\x1f]/g, ""),
+        );
+      }
+    }
+    sector = nextSector(sector);
+  }
+  return names;
+}
+
+/**
+ * Active content names in a PDF, in the file itself and inside
+ * Flate-compressed object streams. Names are compared after decoding
+ * #xx escapes, so /J#61vaScript counts as /JavaScript. Object streams too
+ * large to inflate are reported, since they could hide any of them.
+ */
+function detectPdf(data: Buffer): ActiveContentIndicator[] {
+  const text = data.toString("latin1");
+  const found = new Map<string, Set<string>>();
+  const record = (source: string, location: string) => {
+    for (const [raw] of source.matchAll(/\/[^\s/[\]()<>{}%]+/g)) {
+      const name = raw.replace(/#([0-9a-fA-F]{2})/g, (_, hex: string) =>
+        String.fromCharCode(parseInt(hex, 16)),
+      );
+      if (!PDF_INDICATORS.some((i) => i.names.includes(name))) continue;
+      if (!found.has(name)) found.set(name, new Set());
+      found.get(name)!.add(location);
+    }
+  };
+
+  record(text, "document");
+  const oversized: string[] = [];
+  let objectStreams = 0;
+  for (const match of text.matchAll(/(?<!end)stream\r?\n/g)) {
+    if (objectStreams >= MAX_OBJECT_STREAMS) break;
+    const dictionary = text.slice(
+      Math.max(0, text.lastIndexOf(" obj", match.index)),
+      match.index,
+    );
+    if (!/\/ObjStm\b/.test(dictionary) || !/\/FlateDecode\b/.test(dictionary)) {
+      continue;
+    }
+    const start = match.index + match[0].length;
+    const end = text.indexOf("endstream", start);
+    if (end < 0) continue;
+    objectStreams++;
+    try {
+      const inflated = zlib.inflateSync(data.subarray(start, end), {
+        finishFlush: zlib.constants.Z_SYNC_FLUSH,
+        maxOutputLength: MAX_PART_BYTES,
+      });
+      record(inflated.toString("latin1"), "object stream");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") {
+        oversized.push(`object stream at byte ${match.index}`);
+        continue;
+      }
+      logger.debug(
+        `Could not inflate PDF object stream at ${match.index}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  const indicators = PDF_INDICATORS.filter((i) =>
+    i.names.some((n) => found.has(n)),
+  ).map((i): ActiveContentIndicator => {
+    const names = i.names.filter((n) => found.has(n));
+    return {
+      format: "pdf",
+      indicator: i.indicator,
+      severity: i.severity,
+      message: i.message,
+      evidence: names,
+      locations: [...new Set(names.flatMap((n) => [...found.get(n)!]))],
+    };
+  });
+  if (oversized.length > 0) {
+    indicators.push({
+      format: "pdf",
+      indicator: "oversized_object_stream",
+      severity: "warning",
+      message: "PDF object stream is too large to inspect",
+      evidence: ["/ObjStm"],
+      locations: oversized.slice(0, MAX_EVIDENCE),
+    });
+  }
+  return indicators;
+}
+
+async function readDocument(filePath: string): Promise<Buffer> {
+  const handle = await fs.open(filePath, "r");
+  try {
+    const { size } = await handle.stat();
+    const buffer = Buffer.alloc(Math.min(size, MAX_DOCUMENT_BYTES));
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+export const activeContentService = new ActiveContentService();
@@ -0,0 +1,292 @@
+/**
+ * File Organizer MCP Server v3.5.0
+ * Album Grouping Service
+ *
+ * @module services/album-grouping.service
+ * @description Clusters tracks into albums by album title plus album artist
+ * or source folder, picks a canonical artist, title and year for each album
+ * and reports discs, missing track numbers and gaps.
+ */
+
+import path from "path";
+import type { AudioMetadata } from "./audio-metadata.service.js";
+import { normalizeTag } from "./music-duplicate.service.js";
+
+export interface AlbumTrack {
+  path: string;
+  metadata: Pick<
+    AudioMetadata,
+    | "artist"
+    | "album"
+    | "albumArtist"
+    | "year"
+    | "trackNumber"
+    | "totalTracks"
+    | "discNumber"
+    | "totalDiscs"
+  >;
+}
+
+export interface AlbumReport {
+  album: string;
+  /** Canonical album artist; undefined when no track names one */
+  artist?: string;
+  year?: number;
+  trackCount: number;
+  discCount: number;
+  /** Tracks without a track number */
+  missingTrackNumbers: string[];
+  /**
+   * Track numbers missing from the sequence, per disc. Only the first 50
+   * are listed; missingCount has them all.
+   */
+  gaps: { disc: number; missing: number[]; missingCount: number }[];
+  /** Tag values that differed between tracks and were unified */
+  inconsistencies: string[];
+}
+
+export interface AlbumGroup extends AlbumReport {
+  tracks: { path: string; discNumber: number }[];
+}
+
+export interface AlbumGroupingOptions {
+  /** Album artist used when tracks credit several different artists */
+  variousArtistsName?: string;
+}
+
+/** "Album (Disc 2)", "Album CD2", "Album - Disk 2" */
+const DISC_SUFFIX =
+  /[\s_-]*[([]?\s*(?<![\p{L}\p{N}])(?:disc|disk|cd)\s*(\d{1,2})\s*[)\]]?\s*$/iu;
+/** Folders like "CD1" or "Disc 2" inside the album folder */
+const DISC_FOLDER = /^(?:disc|disk|cd)\s*(\d{1,2})$/i;
+/** "(feat. X)", "[ft. X]" or a trailing "feat. X" credit */
+const FEATURING =
+  /\s*[([]\s*(?:feat|ft|featuring)\.?\s[^)\]]*[)\]]|\s+(?:feat|ft|featuring)\.?\s.*$/gi;
+
+/** Track numbers and totals above this are treated as bad tags */
+const MAX_TRACK_NUMBER = 999;
+/** Missing track numbers listed per disc */
+const MAX_LISTED_GAPS = 50;
+
+/**
+ * Album Grouping Service
+ */
+export class AlbumGroupingService {
+  /**
+   * Group tracks into albums. Tracks without an album tag are left out.
+   */
+  group(
+    tracks: AlbumTrack[],
+    options: AlbumGroupingOptions = {},
+  ): AlbumGroup[] {
+    const entries = tracks.flatMap((track) => {
+      const rawAlbum = track.metadata.album?.trim();
+      if (!rawAlbum) return [];
+      const suffix = DISC_SUFFIX.exec(rawAlbum);
+      const album = suffix ? rawAlbum.slice(0, suffix.index).trim() : rawAlbum;
+      const albumKey = normalizeTag(album);
+      if (!albumKey) return [];
+
+      let folder = path.dirname(track.path);
+      const discFolder = DISC_FOLDER.exec(path.basename(folder));
+      if (discFolder) folder = path.dirname(folder);
+
+      const suffixDisc = suffix ? parseInt(suffix[1]!, 10) : undefined;
+      const folderDisc = discFolder ? parseInt(discFolder[1]!, 10) : undefined;
+      return [
+        {
+          track,
+          album,
+          albumKey,
+          folder,
+          impliedDisc: suffixDisc || folderDisc || undefined,
+        },
+      ];
+    });
+
+    // Union tracks that share album + album artist or album + folder
+    const parent = entries.map((_, i) => i);
+    const find = (i: number): number => {
+      while (parent[i] !== i) {
+        parent[i] = parent[parent[i]!]!;
+        i = parent[i]!;
+      }
+      return i;
+    };
+    const firstByKey = new Map<string, number>();
+    entries.forEach((entry, i) => {
+      const keys = [`folder:${entry.albumKey}|${entry.folder}`];
+      const albumArtist = entry.track.metadata.albumArtist?.trim();
+      if (albumArtist) {
+        keys.push(`artist:${entry.albumKey}|${normalizeTag(albumArtist)}`);
+      }
+      for (const key of keys) {
+        const first = firstByKey.get(key);
+        if (first === undefined) firstByKey.set(key, i);
+        else parent[find(i)] = find(first);
+      }
+    });
+
+    const clusters = new Map<number, typeof entries>();
+    entries.forEach((entry, i) => {
+      const root = find(i);
+      const cluster = clusters.get(root) ?? [];
+      cluster.push(entry);
+      clusters.set(root, cluster);
+    });
+
+    return [...clusters.values()].map((cluster) =>
+      this.buildGroup(cluster, options),
+    );
+  }
+
+  private buildGroup(
+    cluster: {
+      track: AlbumTrack;
+      album: string;
+      impliedDisc?: number;
+    }[],
+    options: AlbumGroupingOptions,
+  ): AlbumGroup {
+    const inconsistencies: string[] = [];
+    const metadata = cluster.map((e) => e.track.metadata);
+
+    const albums = this.tally(cluster.map((e) => e.album));
+    if (albums.length > 1) {
+      inconsistencies.push(`Album title differs: ${this.describe(albums)}`);
+    }
+
+    const albumArtists = this.tally(metadata.map((m) => m.albumArtist?.trim()));
+    if (albumArtists.length > 1) {
+      inconsistencies.push(
+        `Album artist differs: ${this.describe(albumArtists)}`,
+      );
+    }
+
+    const years = this.tally(metadata.map((m) => m.year)).sort(
+      (a, b) => b.count - a.count || a.value - b.value,
+    );
+    if (years.length > 1) {
+      inconsistencies.push(`Year differs: ${this.describe(years)}`);
+    }
+
+    const discNumbers = cluster.map(
+      (e) => e.track.metadata.discNumber ?? e.impliedDisc ?? 1,
+    );
+    const discCount = Math.max(
+      ...discNumbers,
+      ...metadata.map((m) => m.totalDiscs ?? 1),
+    );
+
+    const missingTrackNumbers: string[] = [];
+    const outOfRange = new Set<number>();
+    const perDisc = new Map<number, { numbers: number[]; total: number }>();
+    cluster.forEach((entry, i) => {
+      const disc = discNumbers[i]!;
+      const info = perDisc.get(disc) ?? { numbers: [], total: 0 };
+      perDisc.set(disc, info);
+      const { trackNumber, totalTracks } = entry.track.metadata;
+      if (totalTracks !== undefined && totalTracks > MAX_TRACK_NUMBER) {
+        outOfRange.add(totalTracks);
+      } else {
+        info.total = Math.max(info.total, totalTracks ?? 0);
+      }
+      if (trackNumber !== undefined && trackNumber > MAX_TRACK_NUMBER) {
+        outOfRange.add(trackNumber);
+      } else if (trackNumber === undefined || trackNumber < 1) {
+        missingTrackNumbers.push(entry.track.path);
+      } else {
+        info.numbers.push(trackNumber);
+      }
+    });
+    if (outOfRange.size > 0) {
+      inconsistencies.push(
+        `Track numbers or totals above ${MAX_TRACK_NUMBER} ignored: ${[...outOfRange].join(", ")}`,
+      );
+    }
+
+    const gaps: AlbumGroup["gaps"] = [];
+    for (const [disc, info] of [...perDisc].sort(([a], [b]) => a - b)) {
+      const present = new Set(info.numbers);
+      if (present.size < info.numbers.length) {
+        const repeated = info.numbers.filter(
+          (n, i) => info.numbers.indexOf(n) !== i,
+        );
+        inconsistencies.push(
+          `Track numbers used more than once${discCount > 1 ? ` on disc ${disc}` : ""}: ${[...new Set(repeated)].join(", ")}`,
+        );
+      }
+      const last = Math.max(info.total, ...info.numbers, 0);
+      const missing: number[] = [];
+      let missingCount = 0;
+      for (let n = 1; n <= last; n++) {
+        if (present.has(n)) continue;
+        if (missingCount++ < MAX_LISTED_GAPS) missing.push(n);
+      }
+      if (missingCount > 0) gaps.push({ disc, missing, missingCount });
+    }
+
+    return {
+      album: albums[0]!.value,
+      artist: this.pickArtist(metadata, options),
+      year: years[0]?.value,
+      trackCount: cluster.length,
+      discCount,
+      missingTrackNumbers,
+      gaps,
+      inconsistencies,
+      tracks: cluster.map((entry, i) => ({
+        path: entry.track.path,
+        discNumber: discNumbers[i]!,
+      })),
+    };
+  }
+
+  /**
+   * The album artist most tracks agree on. Tracks without one count with
+   * their primary artist, so "feat." credits do not split the album. When
+   * no artist covers half of the tracks the album is a compilation.
+   */
+  private pickArtist(
+    metadata: AlbumTrack["metadata"][],
+    options: AlbumGroupingOptions,
+  ): string | undefined {
+    const credits = metadata.map(
+      (m) =>
+        m.albumArtist?.trim() ||
+        m.artist?.replace(FEATURING, "").trim() ||
+        undefined,
+    );
+    const byKey = new Map<string, string[]>();
+    for (const credit of credits) {
+      if (!credit) continue;
+      const key = normalizeTag(credit);
+      if (!byKey.has(key)) byKey.set(key, []);
+      byKey.get(key)!.push(credit);
+    }
+    if (byKey.size === 0) return undefined;
+
+    const top = [...byKey.values()].sort((a, b) => b.length - a.length)[0]!;
+    if (byKey.size > 1 && top.length * 2 < metadata.length) {
+      return options.variousArtistsName ?? "Various Artists";
+    }
+    return this.tally(top)[0]!.value;
+  }
+
+  /** Distinct values, most frequent first; undefined values are ignored */
+  private tally<T>(values: (T | undefined)[]): { value: T; count: number }[] {
+    const counts = new Map<T, number>();
+    for (const value of values) {
+      if (value !== undefined) counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+    return [...counts]
+      .map(([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count);
+  }
+
+  private describe(tally: { value: unknown; count: number }[]): string {
+    return tally.map(({ value, count }) => `${value} (${count})`).join(", ");
+  }
+}
+
+export const albumGroupingService = new AlbumGroupingService();
@@ -0,0 +1,1018 @@
+/**
+ * File Organizer MCP Server v3.5.0
+ * Archive Extractor Service
+ *
+ * @module services/archive-extractor.service
+ * @description Lists and extracts ZIP, TAR, TAR.GZ and GZ archives. The
+ * whole archive is checked with the archive validator before anything is
+ * written: zip-slip paths, entry counts, per-file and total sizes, the
+ * compression ratio, links and special files are refused. Extraction
+ * streams entries to disk and is recorded in a rollback manifest.
+ */
+
+import fs from "fs/promises";
+import { createReadStream, type ReadStream } from "fs";
+import path from "path";
+import zlib from "zlib";
+import type { Transform } from "stream";
+import { pipeline } from "stream/promises";
+import {
+  detectArchiveFormat,
+  validateArchiveEntries,
+  validateEntryPath,
+  sanitizeEntryName,
+} from "../security/archive-validator.js";
+import { SECURITY_LIMITS } from "../security/security-constants.js";
+import { RollbackService } from "./rollback.service.js";
+import { isSubPath } from "../utils/file-utils.js";
+import { logger } from "../utils/logger.js";
+import type { RollbackAction } from "../types.js";
+
+export type ArchiveFormat = "zip" | "tar" | "tar.gz" | "gz";
+
+export interface ArchiveEntry {
+  /** Path inside the archive, with forward slashes */
+  name: string;
+  type: "file" | "directory" | "symlink" | "hardlink" | "other";
+  /** Uncompressed size in bytes (for GZ, as declared in the trailer) */
+  size: number;
+  /** Compressed size, for ZIP entries */
+  compressedSize?: number;
+  /** Target of a symbolic or hard link */
+  linkName?: string;
+  modified?: Date;
+}
+
+export interface ArchiveListing {
+  format: ArchiveFormat;
+  entries: ArchiveEntry[];
+  /** Size of the archive file */
+  archiveSize: number;
+  /** Summed uncompressed size of all entries */
+  totalSize: number;
+}
+
+export interface ExtractionOptions {
+  /** Only validate and report what would be extracted */
+  dryRun?: boolean;
+  /**
+   * Checks the extracted files before the extraction is kept; a returned
+   * reason removes them again and rejects the archive
+   */
+  screen?: (files: string[]) => Promise<string | undefined>;
+}
+
+export interface ExtractionResult {
+  format: ArchiveFormat;
+  destination: string;
+  files: Array<{ path: string; size: number }>;
+  directories: string[];
+  totalSize: number;
+  /** Entries not extracted because a file of that name already exists */
+  skipped: Array<{ entry: string; reason: string }>;
+  manifestId?: string;
+}
+
+/** Entries of a ZIP archive, with what is needed to read their data */
+interface ZipEntry extends ArchiveEntry {
+  method: number;
+  flags: number;
+  localHeaderOffset: number;
+}
+
+/** Receives the data of one TAR entry; undefined skips the data */
+type TarSink = ((chunk: Buffer) => Promise<void>) | undefined;
+
+/** A file being extracted; close returns the bytes written */
+interface FileSink {
+  write: (chunk: Buffer) => Promise<void>;
+  close: () => Promise<number>;
+}
+
+const ZIP_EOCD_SIGNATURE = Buffer.from([0x50, 0x4b, 0x05, 0x06]);
+const ZIP_CENTRAL_SIGNATURE = 0x02014b50;
+const ZIP_LOCAL_SIGNATURE = 0x04034b50;
+const ZIP_EOCD_SIZE = 22;
+const TAR_BLOCK = 512;
+/** Largest PAX or GNU long-name record read into memory */
+const MAX_TAR_META_BYTES = 1024 * 1024;
+
+const { MAX_RATIO, MAX_ABSOLUTE_BYTES, RATIO_EXEMPT_BYTES } =
+  SECURITY_LIMITS.decompression;
+
+/**
+ * Largest total uncompressed size accepted for an archive of the given size
+ */
+export function uncompressedSizeLimit(archiveSize: number): number {
+  return Math.min(
+    MAX_ABSOLUTE_BYTES,
+    Math.max(archiveSize * MAX_RATIO, RATIO_EXEMPT_BYTES),
+  );
+}
+
+/**
+ * Folder next to the archive, named after it without the archive extension
+ */
+export function defaultExtractionDir(archivePath: string): string {
+  const name = path
+    .basename(archivePath)
+    .replace(/\.(tar\.gz|tgz|tar|zip|gz)$/i, "");
+  return path.join(path.dirname(archivePath), name || "extracted");
+}
+
+/**
+ * Archive Extractor Service
+ */
+export class ArchiveExtractorService {
+  constructor(private readonly rollbackService = new RollbackService()) {}
+
+  /**
+   * Read the entry list of an archive without extracting it
+   * @throws {Error} When the format is unsupported or the archive is corrupt
+   */
+  async list(archivePath: string): Promise<ArchiveListing> {
+    const archiveSize = (await fs.stat(archivePath)).size;
+    const format = await this.detectFormat(archivePath);
+
+    let entries: ArchiveEntry[];
+    if (format === "zip") {
+      entries = await this.listZip(archivePath, archiveSize);
+    } else if (format === "gz") {
+      entries = [await this.gzipEntry(archivePath, archiveSize)];
+    } else {
+      entries = [];
+      await this.walkTar(
+        archivePath,
+        format === "tar.gz",
+        archiveSize,
+        (entry) => {
+          entries.push(entry);
+          if (entries.length > SECURITY_LIMITS.decompression.MAX_ENTRIES) {
+            throw new Error(
+              `Archive has more than ${SECURITY_LIMITS.decompression.MAX_ENTRIES} entries`,
+            );
+          }
+          return undefined;
+        },
+      );
+    }
+
+    return {
+      format,
+      entries,
+      archiveSize,
+      totalSize: entries.reduce((sum, e) => sum + e.size, 0),
+    };
+  }
+
+  /**
+   * Extract an archive into destination, refusing it as a whole when any
+   * entry fails validation or the screen option. Existing files are never
+   * overwritten. Created files and directories are recorded in one
+   * rollback manifest.
+   * @throws {Error} When the archive is rejected or extraction fails; files
+   * written so far are removed again
+   */
+  async extract(
+    archivePath: string,
+    destination: string,
+    options: ExtractionOptions = {},
+  ): Promise<ExtractionResult> {
+    const listing = await this.list(archivePath);
+    const { targets, reasons } = this.planTargets(listing, destination);
+    if (reasons.length > 0) {
+      const shown = [...new Set(reasons)];
+      throw new Error(
+        `Archive rejected: ${shown.slice(0, 5).join("; ")}${shown.length > 5 ? `; and ${shown.length - 5} more` : ""}`,
+      );
+    }
+
+    const result: ExtractionResult = {
+      format: listing.format,
+      destination,
+      files: [],
+      directories: [],
+      totalSize: 0,
+      skipped: [],
+    };
+    if (options.dryRun) {
+      listing.entries.forEach((entry, i) => {
+        if (entry.type === "file") {
+          result.files.push({ path: targets[i]!, size: entry.size });
+          result.totalSize += entry.size;
+        } else if (targets[i] !== path.resolve(destination)) {
+          result.directories.push(targets[i]!);
+        }
+      });
+      return result;
+    }
+
+    const actions: RollbackAction[] = [];
+    const writer = new ExtractionWriter(archivePath, destination, actions);
+    const open = async (entry: ArchiveEntry, target: string) => {
+      if (entry.type === "directory") {
+        await writer.ensureDirectory(target);
+        return undefined;
+      }
+      const sink = await writer.openFile(entry, target);
+      if (!sink) {
+        result.skipped.push({
+          entry: entry.name,
+          reason: "A file with this name already exists",
+        });
+      }
+      return sink;
+    };
+    const close = async (sink: FileSink, target: string) => {
+      const size = await sink.close();
+      result.files.push({ path: target, size });
+      result.totalSize += size;
+    };
+
+    try {
+      await writer.ensureDirectory(destination);
+
+      if (listing.format === "zip") {
+        for (const [i, entry] of (listing.entries as ZipEntry[]).entries()) {
+          const sink = await open(entry, targets[i]!);
+          if (!sink) continue;
+          await this.readZipEntry(archivePath, entry, sink.write);
+          await close(sink, targets[i]!);
+        }
+      } else if (listing.format === "gz") {
+        const sink = await open(listing.entries[0]!, targets[0]!);
+        if (sink) {
+          await pipeline(
+            createReadStream(archivePath),
+            zlib.createGunzip(),
+            async (source: AsyncIterable<Buffer>) => {
+              for await (const chunk of source) await sink.write(chunk);
+            },
+          );
+          await close(sink, targets[0]!);
+        }
+      } else {
+        let index = 0;
+        await this.walkTar(
+          archivePath,
+          listing.format === "tar.gz",
+          listing.archiveSize,
+          async (entry) => {
+            const target = targets[index];
+            if (listing.entries[index++]?.name !== entry.name || !target) {
+              throw new Error("Archive changed while it was being extracted");
+            }
+            const sink = await open(entry, target);
+            if (!sink) return undefined;
+            if (entry.size === 0) {
+              await close(sink, target);
+              return undefined;
+            }
+            let received = 0;
+            return async (chunk) => {
+              await sink.write(chunk);
+              received += chunk.length;
+              if (received === entry.size) await close(sink, target);
+            };
+          },
+        );
+      }
+
+      const refused = await options.screen?.(result.files.map((f) => f.path));
+      if (refused) throw new Error(`Archive rejected: ${refused}`);
+    } catch (error) {
+      await writer.discard();
+      throw error;
+    }
+
+    result.directories = writer.createdDirectories;
+    if (actions.length > 0) {
+      result.manifestId = await this.rollbackService.createManifest(
+        `Extract ${path.basename(archivePath)} to ${destination} (${result.files.length} files)`,
+        actions,
+      );
+    }
+    logger.info(
+      `Extracted ${result.files.length} files from ${archivePath} to ${destination}`,
+    );
+    return result;
+  }
+
+  /**
+   * Reasons extract() would refuse the archive when extracting it into
+   * destination; empty when every entry passes
+   */
+  rejectionReasons(listing: ArchiveListing, destination: string): string[] {
+    return [...new Set(this.planTargets(listing, destination).reasons)];
+  }
+
+  /**
+   * Read the first bytes of every file entry, e.g. to detect its type.
+   * Directories, links, encrypted and unreadable entries get undefined.
+   */
+  async readEntryHeads(
+    archivePath: string,
+    listing: ArchiveListing,
+    bytes = 4096,
+  ): Promise<Array<Buffer | undefined>> {
+    const heads: Array<Buffer | undefined> = listing.entries.map(
+      () => undefined,
+    );
+
+    if (listing.format === "zip") {
+      for (const [i, entry] of (listing.entries as ZipEntry[]).entries()) {
+        if (
+          entry.type !== "file" ||
+          entry.flags & 0x1 ||
+          (entry.method !== 0 && entry.method !== 8)
+        ) {
+          continue;
+        }
+        try {
+          heads[i] = await this.readZipHead(archivePath, entry, bytes);
+        } catch (error) {
+          logger.debug(
+            `Could not read ${entry.name} in ${archivePath}: ${(error as Error).message}`,
+          );
+        }
+      }
+    } else if (listing.format === "gz") {
+      heads[0] = await this.readGunzipHead(archivePath, bytes);
+    } else {
+      let index = 0;
+      await this.walkTar(
+        archivePath,
+        listing.format === "tar.gz",
+        listing.archiveSize,
+        (entry) => {
+          const i = index++;
+          if (entry.type !== "file") return undefined;
+          heads[i] = Buffer.alloc(0);
+          return async (chunk) => {
+            const head = heads[i]!;
+            if (head.length < bytes) {
+              heads[i] = Buffer.concat([
+                head,
+                chunk.subarray(0, bytes - head.length),
+              ]);
+            }
+          };
+        },
+      );
+    }
+    return heads;
+  }
+
+  /**
+   * Validate every entry against the destination and work out where each
+   * one goes. Listing order is kept; reasons lists the refused entries.
+   */
+  private planTargets(
+    listing: ArchiveListing,
+    destination: string,
+  ): { targets: string[]; reasons: string[] } {
+    const reasons: string[] = validateArchiveEntries(
+      listing.entries.map((e) => ({ name: e.name, size: e.size })),
+      destination,
+    ).invalidEntries.map((e) => e.error ?? `Invalid entry: ${e.entryName}`);
+
+    const limit = uncompressedSizeLimit(listing.archiveSize);
+    if (listing.totalSize > limit) {
+      reasons.push(
+        `Uncompressed size ${listing.totalSize} bytes exceeds the ${limit}-byte limit for a ${listing.archiveSize}-byte archive (max ratio ${MAX_RATIO}:1)`,
+      );
+    }
+
+    const targets = listing.entries.map((entry) => {
+      if (entry.type === "symlink" || entry.type === "hardlink") {
+        reasons.push(`Links are not extracted: ${entry.name}`);
+      } else if (entry.type === "other") {
+        reasons.push(`Special files are not extracted: ${entry.name}`);
+      } else if ("method" in entry) {
+        const { method, flags } = entry as ZipEntry;
+        if (flags & 0x1) {
+          reasons.push(`Encrypted entries are not supported: ${entry.name}`);
+        } else if (method !== 0 && method !== 8) {
+          reasons.push(
+            `Unsupported compression method ${method}: ${entry.name}`,
+          );
+        }
+      }
+
+      const validation = validateEntryPath(
+        sanitizeEntryName(entry.name),
+        destination,
+      );
+      const target = validation.extractedPath ?? destination;
+      if (entry.type === "file" && target === path.resolve(destination)) {
+        reasons.push(`Invalid entry name: ${entry.name}`);
+      }
+      return target;
+    });
+
+    return { targets, reasons };
+  }
+
+  private async detectFormat(archivePath: string): Promise<ArchiveFormat> {
+    const detected = detectArchiveFormat(archivePath);
+    if (detected.format === "zip" || detected.format === "tar") {
+      return detected.format;
+    }
+    if (detected.format === "gz") {
+      const head = await this.readGunzipHead(archivePath, TAR_BLOCK);
+      return isTarHeader(head) ? "tar.gz" : "gz";
+    }
+    throw new Error(
+      detected.format
+        ? `Unsupported archive format: ${detected.format}`
+        : (detected.error ?? "Unknown or unsupported archive format"),
+    );
+  }
+
+  /**
+   * Entries from the ZIP central directory
+   */
+  private async listZip(
+    archivePath: string,
+    archiveSize: number,
+  ): Promise<ZipEntry[]> {
+    const handle = await fs.open(archivePath, "r");
+    try {
+      const tailSize = Math.min(archiveSize, ZIP_EOCD_SIZE + 0xffff);
+      const tail = Buffer.alloc(tailSize);
+      await handle.read(tail, 0, tailSize, archiveSize - tailSize);
+      const eocd = tail.lastIndexOf(ZIP_EOCD_SIGNATURE);
+      if (eocd < 0 || eocd + ZIP_EOCD_SIZE > tail.length) {
+        throw new Error(
+          "Corrupt ZIP archive: end of central directory not found",
+        );
+      }
+
+      const count = tail.readUInt16LE(eocd + 10);
+      const directorySize = tail.readUInt32LE(eocd + 12);
+      const directoryOffset = tail.readUInt32LE(eocd + 16);
+      if (
+        count === 0xffff ||
+        directorySize === 0xffffffff ||
+        directoryOffset === 0xffffffff
+      ) {
+        throw new Error("ZIP64 archives are not supported");
+      }
+      if (directoryOffset + directorySize > archiveSize) {
+        throw new Error("Corrupt ZIP archive: central directory out of range");
+      }
+
+      const directory = Buffer.alloc(directorySize);
+      await handle.read(directory, 0, directorySize, directoryOffset);
+
+      const entries: ZipEntry[] = [];
+      let pos = 0;
+      while (entries.length < count) {
+        if (
+          pos + 46 > directory.length ||
+          directory.readUInt32LE(pos) !== ZIP_CENTRAL_SIGNATURE
+        ) {
+          throw new Error("Corrupt ZIP archive: bad central directory entry");
+        }
+        const madeBy = directory.readUInt16LE(pos + 4);
+        const flags = directory.readUInt16LE(pos + 8);
+        const method = directory.readUInt16LE(pos + 10);
+        const dosTime = directory.readUInt16LE(pos + 12);
+        const dosDate = directory.readUInt16LE(pos + 14);
+        const compressedSize = directory.readUInt32LE(pos + 20);
+        const size = directory.readUInt32LE(pos + 24);
+        const nameLength = directory.readUInt16LE(pos + 28);
+        const extraLength = directory.readUInt16LE(pos + 30);
+        const commentLength = directory.readUInt16LE(pos + 32);
+        const externalAttributes = directory.readUInt32LE(pos + 38);
+        const localHeaderOffset = directory.readUInt32LE(pos + 42);
+        const name = directory
+          .subarray(pos + 46, pos + 46 + nameLength)
+          .toString(flags & 0x800 ? "utf8" : "latin1");
+        pos += 46 + nameLength + extraLength + commentLength;
+
+        // Unix file type, when the archive was made on Unix
+        const unixType =
+          madeBy >> 8 === 3 ? (externalAttributes >>> 16) & 0xf000 : 0;
+        let type: ArchiveEntry["type"] = "file";
+        if (name.endsWith("/") || unixType === 0x4000) type = "directory";
+        else if (unixType === 0xa000) type = "symlink";
+        else if (unixType !== 0 && unixType !== 0x8000) type = "other";
+
+        entries.push({
+          name,
+          type,
+          size,
+          compressedSize,
+          modified: new Date(
+            (dosDate >> 9) + 1980,
+            ((dosDate >> 5) & 0xf) - 1,
+            dosDate & 0x1f,
+            dosTime >> 11,
+            (dosTime >> 5) & 0x3f,
+            (dosTime & 0x1f) * 2,
+          ),
+          method,
+          flags,
+          localHeaderOffset,
+        });
+      }
+      return entries;
+    } finally {
+      await handle.close();
+    }
+  }
+
+  private async readZipEntry(
+    archivePath: string,
+    entry: ZipEntry,
+    write: (chunk: Buffer) => Promise<void>,
+  ): Promise<void> {
+    if (entry.compressedSize === 0) return;
+
+    const start = await this.zipDataOffset(archivePath, entry);
+    const input = createReadStream(archivePath, {
+      start,
+      end: start + entry.compressedSize! - 1,
+    });
+    const consume = async (source: AsyncIterable<Buffer>) => {
+      for await (const chunk of source) await write(chunk);
+    };
+    if (entry.method === 8) {
+      await pipeline(input, zlib.createInflateRaw(), consume);
+    } else {
+      await pipeline(input, consume);
+    }
+  }
+
+  private async readZipHead(
+    archivePath: string,
+    entry: ZipEntry,
+    bytes: number,
+  ): Promise<Buffer> {
+    if (entry.compressedSize === 0) return Buffer.alloc(0);
+
+    const start = await this.zipDataOffset(archivePath, entry);
+    const input = createReadStream(archivePath, {
+      start,
+      end: start + entry.compressedSize! - 1,
+    });
+    return entry.method === 8
+      ? readStreamHead(input, zlib.createInflateRaw(), bytes)
+      : readStreamHead(input, undefined, bytes);
+  }
+
+  /**
+   * Where the data of a ZIP entry starts, after its local header
+   */
+  private async zipDataOffset(
+    archivePath: string,
+    entry: ZipEntry,
+  ): Promise<number> {
+    const header = Buffer.alloc(30);
+    const handle = await fs.open(archivePath, "r");
+    try {
+      await handle.read(header, 0, 30, entry.localHeaderOffset);
+    } finally {
+      await handle.close();
+    }
+    if (header.readUInt32LE(0) !== ZIP_LOCAL_SIGNATURE) {
+      throw new Error(
+        `Corrupt ZIP archive: bad local header for ${entry.name}`,
+      );
+    }
+    return (
+      entry.localHeaderOffset +
+      30 +
+      header.readUInt16LE(26) +
+      header.readUInt16LE(28)
+    );
+  }
+
+  /**
+   * The single file inside a GZ archive, named after the original file name
+   * stored in the header or else after the archive
+   */
+  private async gzipEntry(
+    archivePath: string,
+    archiveSize: number,
+  ): Promise<ArchiveEntry> {
+    const handle = await fs.open(archivePath, "r");
+    try {
+      const header = Buffer.alloc(Math.min(archiveSize, 1024));
+      await handle.read(header, 0, header.length, 0);
+      const trailer = Buffer.alloc(4);
+      await handle.read(trailer, 0, 4, Math.max(archiveSize - 4, 0));
+
+      const flags = header[3] ?? 0;
+      let storedName = "";
+      let pos = 10;
+      if (flags & 0x04) pos += 2 + header.readUInt16LE(pos);
+      if (flags & 0x08) {
+        const end = header.indexOf(0, pos);
+        if (end > pos)
+          storedName = header.subarray(pos, end).toString("latin1");
+      }
+
+      const name =
+        path.basename(sanitizeEntryName(storedName)) ||
+        path.basename(archivePath).replace(/\.gz$/i, "") ||
+        "file";
+      return {
+        name,
+        type: "file",
+        size: trailer.readUInt32LE(0),
+        modified:
+          header.readUInt32LE(4) > 0
+            ? new Date(header.readUInt32LE(4) * 1000)
+            : undefined,
+      };
+    } finally {
+      await handle.close();
+    }
+  }
+
+  private async readGunzipHead(
+    archivePath: string,
+    bytes: number,
+  ): Promise<Buffer> {
+    try {
+      return await readStreamHead(
+        createReadStream(archivePath),
+        zlib.createGunzip(),
+        bytes,
+      );
+    } catch (error) {
+      throw new Error(`Corrupt GZ archive: ${(error as Error).message}`, {
+        cause: error,
+      });
+    }
+  }
+
+  /**
+   * Stream through a TAR archive, calling onEntry for every entry header.
+   * PAX and GNU long-name records are applied to the entry they describe.
+   * The decompressed size is capped as for listed entries, so a
+   * decompression bomb is stopped while it is being read.
+   */
+  private async walkTar(
+    archivePath: string,
+    gzipped: boolean,
+    archiveSize: number,
+    onEntry: (entry: ArchiveEntry) => TarSink | Promise<TarSink>,
+  ): Promise<void> {
+    const limit = uncompressedSizeLimit(archiveSize);
+    let total = 0;
+    let buffer: Buffer = Buffer.alloc(0);
+    let remaining = 0;
+    let padding = 0;
+    let sink: TarSink;
+    let meta: Buffer[] | undefined;
+    let metaType = "";
+    let overrides: { name?: string; linkName?: string; size?: number } = {};
+    let ended = false;
+
+    const parse = async (source: AsyncIterable<Buffer>) => {
+      for await (const chunk of source) {
+        total += chunk.length;
+        if (total > limit) {
+          throw new Error(
+            `Decompressed size exceeds the ${limit}-byte limit for a ${archiveSize}-byte archive (max ratio ${MAX_RATIO}:1)`,
+          );
+        }
+        if (ended) continue;
+        buffer = buffer.length > 0 ? Buffer.concat([buffer, chunk]) : chunk;
+
+        while (!ended) {
+          if (remaining > 0) {
+            const take = Math.min(remaining, buffer.length);
+            if (take === 0) break;
+            const data = buffer.subarray(0, take);
+            buffer = buffer.subarray(take);
+            remaining -= take;
+            if (meta) meta.push(data);
+            else if (sink) await sink(data);
+            if (remaining === 0 && meta) {
+              overrides = applyTarMeta(
+                metaType,
+                Buffer.concat(meta),
+                overrides,
+              );
+              meta = undefined;
+            }
+            continue;
+          }
+          if (padding > 0) {
+            const take = Math.min(padding, buffer.length);
+            if (take === 0) break;
+            buffer = buffer.subarray(take);
+            padding -= take;
+            continue;
+          }
+          if (buffer.length < TAR_BLOCK) break;
+
+          const header = buffer.subarray(0, TAR_BLOCK);
+          buffer = buffer.subarray(TAR_BLOCK);
+          if (header.every((b) => b === 0)) {
+            ended = true;
+            break;
+          }
+          if (!isTarHeader(header)) {
+            throw new Error("Corrupt TAR archive: bad header checksum");
+          }
+
+          const typeFlag = String.fromCharCode(header[156]!);
+          const size = overrides.size ?? readTarNumber(header, 124, 12);
+          remaining = size;
+          padding = (TAR_BLOCK - (size % TAR_BLOCK)) % TAR_BLOCK;
+          sink = undefined;
+
+          if (["x", "g", "L", "K"].includes(typeFlag)) {
+            if (size > MAX_TAR_META_BYTES) {
+              throw new Error("Corrupt TAR archive: oversized extended header");
+            }
+            // Global PAX headers are read and ignored
+            meta = typeFlag === "g" ? undefined : [];
+            metaType = typeFlag;
+            if (size === 0 && meta) {
+              overrides = applyTarMeta(metaType, Buffer.alloc(0), overrides);
+              meta = undefined;
+            }
+            continue;
+          }
+
+          const entry: ArchiveEntry = {
+            name: overrides.name ?? readTarName(header),
+            type: tarEntryType(typeFlag),
+            size: typeFlag === "5" ? 0 : size,
+            modified: new Date(readTarNumber(header, 136, 12) * 1000),
+          };
+          const linkName =
+            overrides.linkName ?? readTarString(header, 157, 100);
+          if (entry.type === "symlink" || entry.type === "hardlink") {
+            entry.linkName = linkName;
+          }
+          overrides = {};
+          sink = await onEntry(entry);
+        }
+      }
+      if (!ended && (remaining > 0 || buffer.length > 0)) {
+        throw new Error("Corrupt TAR archive: unexpected end of data");
+      }
+    };
+
+    try {
+      if (gzipped) {
+        await pipeline(
+          createReadStream(archivePath),
+          zlib.createGunzip(),
+          parse,
+        );
+      } else {
+        await pipeline(createReadStream(archivePath), parse);
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code?.startsWith("Z_")) {
+        throw new Error(`Corrupt GZ archive: ${(error as Error).message}`, {
+          cause: error,
+        });
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Creates directories and files for one extraction and records them as
+ * rollback actions: "mkdir" for each directory it created and "copy" for
+ * each file, so undo removes the files and then the emptied directories.
+ */
+class ExtractionWriter {
+  readonly createdDirectories: string[] = [];
+  private readonly verified = new Set<string>();
+  private realDestination?: string;
+  private openHandle?: fs.FileHandle;
+
+  constructor(
+    private readonly archivePath: string,
+    private readonly destination: string,
+    private readonly actions: RollbackAction[],
+  ) {}
+
+  /**
+   * Create dir and any missing parents, then make sure it did not resolve
+   * outside the destination through an existing symlink
+   */
+  async ensureDirectory(dir: string): Promise<void> {
+    if (this.verified.has(dir)) return;
+
+    const missing: string[] = [];
+    for (let current = dir; ; current = path.dirname(current)) {
+      try {
+        await fs.lstat(current);
+        break;
+      } catch {
+        missing.unshift(current);
+        if (path.dirname(current) === current) break;
+      }
+    }
+    for (const created of missing) {
+      await fs.mkdir(created);
+      this.createdDirectories.push(created);
+      this.actions.push({
+        type: "mkdir",
+        originalPath: created,
+        timestamp: Date.now(),
+      });
+    }
+
+    const real = await fs.realpath(dir);
+    this.realDestination ??= await fs.realpath(this.destination);
+    if (!isSubPath(this.realDestination, real)) {
+      throw new Error(`Refusing to extract through a symlink: ${dir}`);
+    }
+    this.verified.add(dir);
+  }
+
+  /**
+   * Create one file, never following or replacing an existing path
+   * @returns Undefined when the file already exists
+   */
+  async openFile(
+    entry: ArchiveEntry,
+    target: string,
+  ): Promise<FileSink | undefined> {
+    await this.ensureDirectory(path.dirname(target));
+
+    let handle: fs.FileHandle;
+    try {
+      handle = await fs.open(target, "wx");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "EEXIST") return undefined;
+      throw error;
+    }
+    this.openHandle = handle;
+    this.actions.push({
+      type: "copy",
+      originalPath: this.archivePath,
+      currentPath: target,
+      timestamp: Date.now(),
+    });
+
+    let written = 0;
+    return {
+      write: async (chunk) => {
+        written += chunk.length;
+        if (written > entry.size) {
+          throw new Error(`${entry.name} is larger than its declared size`);
+        }
+        await handle.write(chunk);
+      },
+      close: async () => {
+        await handle.close();
+        this.openHandle = undefined;
+        if (entry.modified && !Number.isNaN(entry.modified.getTime())) {
+          await fs
+            .utimes(target, entry.modified, entry.modified)
+            .catch(() => {});
+        }
+        return written;
+      },
+    };
+  }
+
+  /**
+   * Remove everything written so far, newest first
+   */
+  async discard(): Promise<void> {
+    await this.openHandle?.close().catch(() => {});
+    this.openHandle = undefined;
+    for (const action of [...this.actions].reverse()) {
+      try {
+        if (action.type === "mkdir") await fs.rmdir(action.originalPath);
+        else if (action.currentPath) await fs.rm(action.currentPath);
+      } catch (error) {
+        logger.warn(
+          `Could not remove partially extracted ${action.currentPath ?? action.originalPath}: ${(error as Error).message}`,
+        );
+      }
+    }
+    this.actions.length = 0;
+  }
+}
+
+/**
+ * Read the first bytes of a file stream, through a decompressor when
+ * given, then stop reading
+ */
+async function readStreamHead(
+  input: ReadStream,
+  decompressor: Transform | undefined,
+  bytes: number,
+): Promise<Buffer> {
+  const source = decompressor ? input.pipe(decompressor) : input;
+  const chunks: Buffer[] = [];
+  let length = 0;
+  try {
+    for await (const chunk of source) {
+      chunks.push(chunk as Buffer);
+      length += (chunk as Buffer).length;
+      if (length >= bytes) break;
+    }
+  } finally {
+    input.destroy();
+    decompressor?.destroy();
+  }
+  return Buffer.concat(chunks).subarray(0, bytes);
+}
+
+function isTarHeader(header: Buffer): boolean {
+  if (header.length < TAR_BLOCK) return false;
+  const recorded = readTarNumber(header, 148, 8);
+  let sum = 0;
+  for (let i = 0; i < TAR_BLOCK; i++) {
+    sum += i >= 148 && i < 156 ? 0x20 : header[i]!;
+  }
+  return sum === recorded;
+}
+
+function readTarString(header: Buffer, offset: number, length: number): string {
+  const field = header.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end < 0 ? length : end).toString("utf8");
+}
+
+/** Octal number field, or base-256 when the high bit of the first byte is set */
+function readTarNumber(header: Buffer, offset: number, length: number): number {
+  if (header[offset]! & 0x80) {
+    let value = header[offset]! & 0x7f;
+    for (let i = 1; i < length; i++) value = value * 256 + header[offset + i]!;
+    return value;
+  }
+  const text = readTarString(header, offset, length).trim();
+  return text ? parseInt(text, 8) || 0 : 0;
+}
+
+function readTarName(header: Buffer): string {
+  const name = readTarString(header, 0, 100);
+  const isUstar = header.subarray(257, 262).toString("latin1") === "ustar";
+  const prefix = isUstar ? readTarString(header, 345, 155) : "";
+  return prefix ? `${prefix}/${name}` : name;
+}
+
+function tarEntryType(typeFlag: string): ArchiveEntry["type"] {
+  switch (typeFlag) {
+    case "0":
+    case "\0":
+    case "7":
+      return "file";
+    case "5":
+      return "directory";
+    case "2":
+      return "symlink";
+    case "1":
+      return "hardlink";
+    default:
+      return "other";
+  }
+}
+
+/**
+ * Apply a PAX extended header ("x") or GNU long name ("L") / long link
+ * ("K") record to the next entry
+ */
+function applyTarMeta(
+  type: string,
+  data: Buffer,
+  overrides: { name?: string; linkName?: string; size?: number },
+): { name?: string; linkName?: string; size?: number } {
+  if (type === "L" || type === "K") {
+    const end = data.indexOf(0);
+    const value = data
+      .subarray(0, end < 0 ? data.length : end)
+      .toString("utf8");
+    return type === "L"
+      ? { ...overrides, name: value }
+      : { ...overrides, linkName: value };
+  }
+
+  // PAX records are "<length> <key>=<value>\n", the length in bytes
+  const result = { ...overrides };
+  let pos = 0;
+  while (pos < data.length) {
+    const space = data.indexOf(0x20, pos);
+    const length = parseInt(data.subarray(pos, space).toString("latin1"), 10);
+    if (space < 0 || !(length > 0)) break;
+    const record = data.subarray(space + 1, pos + length - 1).toString("utf8");
+    const eq = record.indexOf("=");
+    const key = record.slice(0, eq);
+    const value = record.slice(eq + 1);
+    if (key === "path") result.name = value;
+    else if (key === "linkpath") result.linkName = value;
+    else if (key === "size") result.size = Number(value);
+    pos += length;
+  }
+  return result;
+}
+
+export const archiveExtractorService = new ArchiveExtractorService();
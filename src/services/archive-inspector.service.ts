@@ -0,0 +1,226 @@
+/**
+ * File Organizer MCP Server v3.5.0
+ * Archive Inspector Service
+ *
+ * @module services/archive-inspector.service
+ * @description Looks inside ZIP, TAR, TAR.GZ and GZ archives without
+ * extracting them. Every entry's type is detected from its first bytes,
+ * entries that should not be trusted are flagged, and the category that
+ * holds most of the content is worked out so an archive can be filed with
+ * what it contains.
+ */
+
+import path from "path";
+import type { CategoryName } from "../types.js";
+import {
+  ArchiveExtractorService,
+  defaultExtractionDir,
+  type ArchiveEntry,
+  type ArchiveFormat,
+} from "./archive-extractor.service.js";
+import {
+  ContentAnalyzerService,
+  type FileTypeDetection,
+} from "./content-analyzer.service.js";
+import { CategorizerService } from "./categorizer.service.js";
+
+export interface InspectedEntry {
+  name: string;
+  type: ArchiveEntry["type"];
+  size: number;
+  compressedSize?: number;
+  /** Uncompressed over compressed size, for ZIP entries */
+  compressionRatio?: number;
+  /** Type detected from the entry's first bytes ("UNKNOWN" when unmatched) */
+  detectedType?: string;
+  mimeType?: string;
+  /** Category by file name, as organize would file the entry */
+  category?: CategoryName;
+  /** Why the entry is suspicious; empty when nothing was found */
+  flags: string[];
+}
+
+export interface ArchiveInspection {
+  archivePath: string;
+  format: ArchiveFormat;
+  archiveSize: number;
+  totalSize: number;
+  /** Summed uncompressed size over the archive size */
+  compressionRatio: number;
+  entries: InspectedEntry[];
+  /** Reasons extraction would be refused */
+  problems: string[];
+  /** Number of flagged entries */
+  suspiciousCount: number;
+  /** No entry is flagged and the archive can be extracted */
+  safe: boolean;
+  /** Category holding more than half of the content, when there is one */
+  dominantCategory?: { category: CategoryName; share: number };
+}
+
+/** Entry compression ratio above which an entry is flagged */
+const SUSPICIOUS_ENTRY_RATIO = 100;
+/** Extensions that run code when opened, flagged whatever the content */
+const EXECUTABLE_EXTENSIONS = new Set([
+  ".exe",
+  ".dll",
+  ".scr",
+  ".com",
+  ".msi",
+  ".bat",
+  ".cmd",
+  ".ps1",
+  ".vbs",
+  ".jar",
+  ".lnk",
+]);
+
+/**
+ * Archive Inspector Service
+ */
+export class ArchiveInspectorService {
+  constructor(
+    private readonly extractor = new ArchiveExtractorService(),
+    private readonly categorizer = new CategorizerService(),
+    private readonly contentAnalyzer = new ContentAnalyzerService(),
+  ) {}
+
+  /**
+   * Inspect an archive's entries without writing anything
+   * @throws {Error} When the format is unsupported or the archive is corrupt
+   */
+  async inspect(archivePath: string): Promise<ArchiveInspection> {
+    const listing = await this.extractor.list(archivePath);
+    const heads = await this.extractor.readEntryHeads(archivePath, listing);
+
+    const entries = listing.entries.map((entry, i) =>
+      this.inspectEntry(entry, heads[i]),
+    );
+    const problems = this.extractor.rejectionReasons(
+      listing,
+      defaultExtractionDir(archivePath),
+    );
+    const suspiciousCount = entries.filter((e) => e.flags.length > 0).length;
+
+    return {
+      archivePath,
+      format: listing.format,
+      archiveSize: listing.archiveSize,
+      totalSize: listing.totalSize,
+      compressionRatio:
+        listing.archiveSize > 0 ? listing.totalSize / listing.archiveSize : 0,
+      entries,
+      problems,
+      suspiciousCount,
+      safe: suspiciousCount === 0 && problems.length === 0,
+      dominantCategory: dominantCategory(entries),
+    };
+  }
+
+  private inspectEntry(
+    entry: ArchiveEntry,
+    head: Buffer | undefined,
+  ): InspectedEntry {
+    const inspected: InspectedEntry = {
+      name: entry.name,
+      type: entry.type,
+      size: entry.size,
+      flags: [],
+    };
+    const { flags } = inspected;
+
+    if (entry.compressedSize !== undefined) {
+      inspected.compressedSize = entry.compressedSize;
+      if (entry.compressedSize > 0) {
+        inspected.compressionRatio = entry.size / entry.compressedSize;
+      }
+    }
+
+    const parts = entry.name.split(/[\\/]/);
+    if (/^([\\/]|[A-Za-z]:)/.test(entry.name) || parts.includes("..")) {
+      flags.push("Path escapes the extraction folder");
+    }
+    if (entry.type === "symlink" || entry.type === "hardlink") {
+      flags.push(
+        `${entry.type === "symlink" ? "Symbolic" : "Hard"} link to ${entry.linkName ?? "unknown target"}`,
+      );
+    } else if (entry.type === "other") {
+      flags.push("Special file (device, FIFO or socket)");
+    }
+    if (entry.type !== "file") return inspected;
+
+    const baseName = parts[parts.length - 1] ?? entry.name;
+    inspected.category = this.categorizer.getCategory(baseName);
+
+    if (entry.size > 0 && head === undefined) {
+      flags.push("Content could not be read (encrypted or unsupported)");
+    }
+    if ((inspected.compressionRatio ?? 0) > SUSPICIOUS_ENTRY_RATIO) {
+      flags.push(
+        `Compression ratio ${Math.round(inspected.compressionRatio!)}:1`,
+      );
+    }
+
+    const extension = path.extname(baseName).toLowerCase();
+    let detection: FileTypeDetection | undefined;
+    if (head && head.length > 0) {
+      detection = this.contentAnalyzer.detectFileType(head);
+      inspected.detectedType = detection.type;
+      inspected.mimeType = detection.mimeType;
+    }
+
+    if (detection && this.contentAnalyzer.isPotentiallyDangerous(detection)) {
+      flags.push(`Executable content: ${detection.description}`);
+    } else if (EXECUTABLE_EXTENSIONS.has(extension)) {
+      flags.push(`Executable file type: ${extension}`);
+    }
+    // ZIP-based formats (DOCX, EPUB, JAR...) are detected as plain archives,
+    // so only signatures of other kinds count as a mismatch
+    if (
+      detection &&
+      detection.signatures.length > 0 &&
+      detection.category !== "archive" &&
+      !this.contentAnalyzer.checkExtensionMismatch(baseName, detection.type)
+    ) {
+      flags.push(
+        `Content is ${detection.type} but the name ends in ${extension || "no extension"}`,
+      );
+    }
+    if (
+      EXECUTABLE_EXTENSIONS.has(extension) &&
+      /\.[a-z0-9]{2,4}\.[a-z0-9]{2,4}$/i.test(baseName)
+    ) {
+      flags.push("Double extension hides an executable");
+    }
+
+    return inspected;
+  }
+}
+
+/**
+ * The category of more than half of the archive's content, by size, or by
+ * count when all files are empty. Files without a recognized category
+ * ("Others") never dominate.
+ */
+function dominantCategory(
+  entries: InspectedEntry[],
+): ArchiveInspection["dominantCategory"] {
+  const files = entries.filter((e) => e.type === "file" && e.category);
+  const bySize = files.some((e) => e.size > 0);
+  const weights = new Map<CategoryName, number>();
+  let total = 0;
+  for (const file of files) {
+    const weight = bySize ? file.size : 1;
+    weights.set(file.category!, (weights.get(file.category!) ?? 0) + weight);
+    total += weight;
+  }
+
+  for (const [category, weight] of weights) {
+    if (category !== "Others" && weight / total > 0.5) {
+      return { category, share: weight / total };
+    }
+  }
+  return undefined;
+}
+
+export const archiveInspectorService = new ArchiveInspectorService();
@@ -15,7 +15,9 @@ export interface AudioMetadata {
   totalTracks?: number;
   discNumber?: number;
   totalDiscs?: number;
+  /** Duration in seconds */
   duration?: number;
+  /** Average bitrate in kbps */
   bitrate?: number;
   sampleRate?: number;
   channels?: number;
@@ -48,6 +50,37 @@ interface ID3Frame {
   data: Buffer;
 }
 
+/** MPEG audio bitrates in kbps, indexed by [MPEG1 ? 0 : 1][layer - 1][index] */
+const MPEG_BITRATES = [
+  [
+    [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+    [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  ],
+  [
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  ],
+];
+
+/** MPEG audio sample rates, indexed by version bits (0 = MPEG2.5, 2 = MPEG2, 3 = MPEG1) */
+const MPEG_SAMPLE_RATES: Record<number, number[]> = {
+  0: [11025, 12000, 8000],
+  2: [22050, 24000, 16000],
+  3: [44100, 48000, 32000],
+};
+
+interface MPEGFrameHeader {
+  mpeg1: boolean;
+  layer: number;
+  bitrate: number;
+  sampleRate: number;
+  channels: number;
+  frameLength: number;
+  samplesPerFrame: number;
+}
+
 export class AudioMetadataService {
   private readonly supportedFormats = [
     "mp3",
@@ -99,8 +132,10 @@ export class AudioMetadataService {
         case "ogg":
           metadata = await this.parseOGG(filePath);
           break;
-        case "wma":
         case "wav":
+          metadata = await this.parseWAV(filePath);
+          break;
+        case "wma":
           metadata = await this.parseGeneric(filePath, ext);
           break;
         default:
@@ -254,6 +289,8 @@ export class AudioMetadataService {
     const buffer = await fs.readFile(filePath);
     const metadata: Partial<AudioMetadata> = {};
 
+    let audioStart = 0;
+
     // Check for ID3v2 header
     if (buffer.toString("ascii", 0, 3) === "ID3") {
       const version: number = buffer[3]!;
@@ -278,6 +315,7 @@ export class AudioMetadataService {
       }
 
       const endOfTags = 10 + size;
+      audioStart = endOfTags + ((flags & 0x10) !== 0 ? 10 : 0);
 
       while (offset < endOfTags - 10) {
         const frameId = buffer.toString("ascii", offset, offset + 4);
@@ -332,9 +370,132 @@ export class AudioMetadataService {
       }
     }
 
+    this.parseMPEGAudio(buffer, audioStart, metadata);
+
     return metadata;
   }
 
+  /**
+   * Read duration and bitrate from the first MPEG audio frame. VBR files
+   * carry the frame count in a Xing/Info or VBRI header; CBR files are
+   * measured by size.
+   */
+  private parseMPEGAudio(
+    buffer: Buffer,
+    start: number,
+    metadata: Partial<AudioMetadata>,
+  ): void {
+    const end =
+      buffer.length >= 128 &&
+      buffer.toString("ascii", buffer.length - 128, buffer.length - 125) ===
+        "TAG"
+        ? buffer.length - 128
+        : buffer.length;
+    const scanLimit = Math.min(end - 4, start + 64 * 1024);
+
+    for (let offset = start; offset < scanLimit; offset++) {
+      const frame = this.readMPEGFrameHeader(buffer, offset);
+      if (!frame) continue;
+
+      // Require a second frame right after a CBR frame to rule out false syncs
+      const next = offset + frame.frameLength;
+      const frameCount = this.readVBRFrameCount(buffer, offset, frame);
+      if (frameCount === undefined && next + 4 <= end) {
+        if (!this.readMPEGFrameHeader(buffer, next)) continue;
+      }
+
+      const audioBytes = end - offset;
+      metadata.sampleRate = frame.sampleRate;
+      metadata.channels = frame.channels;
+      if (frameCount) {
+        const duration =
+          (frameCount * frame.samplesPerFrame) / frame.sampleRate;
+        metadata.duration = duration;
+        metadata.bitrate = Math.round((audioBytes * 8) / duration / 1000);
+      } else {
+        metadata.bitrate = frame.bitrate;
+        metadata.duration = (audioBytes * 8) / (frame.bitrate * 1000);
+      }
+      return;
+    }
+  }
+
+  private readMPEGFrameHeader(
+    buffer: Buffer,
+    offset: number,
+  ): MPEGFrameHeader | undefined {
+    if (offset + 4 > buffer.length) return undefined;
+    const header = buffer.readUInt32BE(offset);
+    if ((header & 0xffe00000) >>> 0 !== 0xffe00000) return undefined;
+
+    const versionBits = (header >> 19) & 0x03;
+    const layerBits = (header >> 17) & 0x03;
+    const bitrateIndex = (header >> 12) & 0x0f;
+    const sampleRateIndex = (header >> 10) & 0x03;
+    if (
+      versionBits === 1 ||
+      layerBits === 0 ||
+      bitrateIndex === 0 ||
+      bitrateIndex === 15 ||
+      sampleRateIndex === 3
+    ) {
+      return undefined;
+    }
+
+    const mpeg1 = versionBits === 3;
+    const layer = 4 - layerBits;
+    const bitrate = MPEG_BITRATES[mpeg1 ? 0 : 1]![layer - 1]![bitrateIndex]!;
+    const sampleRate = MPEG_SAMPLE_RATES[versionBits]![sampleRateIndex]!;
+    const padding = (header >> 9) & 0x01;
+    const samplesPerFrame =
+      layer === 1 ? 384 : layer === 3 && !mpeg1 ? 576 : 1152;
+    const frameLength =
+      layer === 1
+        ? (Math.floor((12 * bitrate * 1000) / sampleRate) + padding) * 4
+        : Math.floor(((samplesPerFrame / 8) * bitrate * 1000) / sampleRate) +
+          padding;
+
+    return {
+      mpeg1,
+      layer,
+      bitrate,
+      sampleRate,
+      channels: ((header >> 6) & 0x03) === 3 ? 1 : 2,
+      frameLength,
+      samplesPerFrame,
+    };
+  }
+
+  private readVBRFrameCount(
+    buffer: Buffer,
+    offset: number,
+    frame: MPEGFrameHeader,
+  ): number | undefined {
+    const sideInfo = frame.mpeg1
+      ? frame.channels === 1
+        ? 17
+        : 32
+      : frame.channels === 1
+        ? 9
+        : 17;
+    const xing = offset + 4 + sideInfo;
+    const tag = buffer.toString("ascii", xing, xing + 4);
+    if ((tag === "Xing" || tag === "Info") && xing + 12 <= buffer.length) {
+      const flags = buffer.readUInt32BE(xing + 4);
+      if (flags & 0x01) return buffer.readUInt32BE(xing + 8) || undefined;
+      return undefined;
+    }
+
+    const vbri = offset + 36;
+    if (
+      buffer.toString("ascii", vbri, vbri + 4) === "VBRI" &&
+      vbri + 18 <= buffer.length
+    ) {
+      return buffer.readUInt32BE(vbri + 14) || undefined;
+    }
+    return undefined;
+  }
+
   private parseID3Frame(
     frameId: string,
     data: Buffer,
@@ -407,6 +568,12 @@ export class AudioMetadataService {
           if (discMatch[2]) metadata.totalDiscs = parseInt(discMatch[2], 10);
         }
         break;
+      case "TLEN": {
+        // Length in milliseconds; the MPEG frames take precedence when present
+        const length = parseInt(cleanText, 10);
+        if (!isNaN(length) && length > 0) metadata.duration = length / 1000;
+        break;
+      }
       case "APIC":
         metadata.hasEmbeddedArtwork = true;
         break;
@@ -607,6 +774,18 @@ export class AudioMetadataService {
             if (discMatch[2]) metadata.totalDiscs = parseInt(discMatch[2], 10);
           }
           break;
+        case "TRACKTOTAL":
+        case "TOTALTRACKS": {
+          const total = parseInt(value, 10);
+          if (!isNaN(total)) metadata.totalTracks = total;
+          break;
+        }
+        case "DISCTOTAL":
+        case "TOTALDISCS": {
+          const total = parseInt(value, 10);
+          if (!isNaN(total)) metadata.totalDiscs = total;
+          break;
+        }
       }
       i++;
     }
@@ -656,7 +835,8 @@ export class AudioMetadataService {
 
     while (offset < data.length - 8) {
       const size = data.readUInt32BE(offset);
-      const type = data.toString("ascii", offset + 4, offset + 8);
+      // latin1 keeps the 0xA9 "©" byte of iTunes atom names intact
+      const type = data.toString("latin1", offset + 4, offset + 8);
 
       if (size === 0 || size > data.length - offset) break;
 
@@ -664,6 +844,13 @@ export class AudioMetadataService {
 
       // Map MP4 atom types to metadata fields
       switch (type) {
+        case "udta":
+        case "ilst":
+          this.parseMP4Container(atomData, metadata);
+          break;
+        case "meta": // Full box: version/flags precede the children
+          this.parseMP4Container(atomData.subarray(4), metadata);
+          break;
         case "\xa9nam": // Title
           metadata.title = this.parseMP4String(atomData);
           break;
@@ -696,7 +883,7 @@ export class AudioMetadataService {
           break;
         case "disk": // Disc number
           const discData = this.parseMP4Binary(atomData);
-          if (discData && discData.length >= 8) {
+          if (discData && discData.length >= 6) {
             metadata.discNumber = discData.readUInt16BE(2);
             metadata.totalDiscs = discData.readUInt16BE(4);
           }
@@ -704,6 +891,20 @@ export class AudioMetadataService {
         case "covr": // Artwork
           metadata.hasEmbeddedArtwork = true;
           break;
+        case "mvhd": {
+          // Movie header: timescale and duration (64-bit fields in version 1)
+          const v1 = atomData[0] === 1;
+          if (atomData.length >= (v1 ? 32 : 20)) {
+            const timescale = atomData.readUInt32BE(v1 ? 20 : 12);
+            const units = v1
+              ? Number(atomData.readBigUInt64BE(24))
+              : atomData.readUInt32BE(16);
+            if (timescale > 0 && units > 0) {
+              metadata.duration = units / timescale;
+            }
+          }
+          break;
+        }
       }
 
       offset += size;
@@ -746,6 +947,82 @@ export class AudioMetadataService {
     return {};
   }
 
+  /**
+   * Parse WAV (RIFF) audio properties and LIST/INFO tags
+   */
+  private async parseWAV(filePath: string): Promise<Partial<AudioMetadata>> {
+    const buffer = await fs.readFile(filePath);
+    const metadata: Partial<AudioMetadata> = {};
+
+    if (
+      buffer.toString("ascii", 0, 4) !== "RIFF" ||
+      buffer.toString("ascii", 8, 12) !== "WAVE"
+    ) {
+      logger.warn(`Invalid WAV file: ${filePath}`);
+      return metadata;
+    }
+
+    let byteRate = 0;
+    let offset = 12;
+    while (offset + 8 <= buffer.length) {
+      const id = buffer.toString("ascii", offset, offset + 4);
+      const size = buffer.readUInt32LE(offset + 4);
+      const data = buffer.subarray(offset + 8, offset + 8 + size);
+
+      if (id === "fmt " && data.length >= 16) {
+        metadata.channels = data.readUInt16LE(2);
+        metadata.sampleRate = data.readUInt32LE(4);
+        byteRate = data.readUInt32LE(8);
+        metadata.bitrate = Math.round((byteRate * 8) / 1000);
+      } else if (id === "data" && byteRate > 0) {
+        // Streams may declare a placeholder size; trust the bytes on disk
+        metadata.duration =
+          Math.min(size, buffer.length - offset - 8) / byteRate;
+      } else if (id === "LIST" && data.toString("ascii", 0, 4) === "INFO") {
+        this.parseRIFFInfo(data.subarray(4), metadata);
+      }
+
+      offset += 8 + size + (size % 2);
+    }
+
+    return metadata;
+  }
+
+  private parseRIFFInfo(data: Buffer, metadata: Partial<AudioMetadata>): void {
+    let offset = 0;
+    while (offset + 8 <= data.length) {
+      const id = data.toString("ascii", offset, offset + 4);
+      const size = data.readUInt32LE(offset + 4);
+      const value = this.cleanString(
+        data.toString("utf8", offset + 8, offset + 8 + size),
+      );
+
+      if (value) {
+        switch (id) {
+          case "INAM":
+            metadata.title = value;
+            break;
+          case "IART":
+            metadata.artist = value;
+            break;
+          case "IPRD":
+            metadata.album = value;
+            break;
+          case "IGNR":
+            metadata.genre = value;
+            break;
+          case "ICRD": {
+            const year = parseInt(value.substring(0, 4), 10);
+            if (!isNaN(year)) metadata.year = year;
+            break;
+          }
+        }
+      }
+
+      offset += 8 + size + (size % 2);
+    }
+  }
+
   private async parseGeneric(
     filePath: string,
     ext: string,
@@ -0,0 +1,210 @@
+/**
+ * File Organizer MCP Server v3.5.0
+ * Audio Tag Editor Service
+ *
+ * @module services/audio-tag-editor.service
+ * @description Applies tag edits to single tracks or whole albums. The
+ * original tag block of every edited file is saved first and recorded in a
+ * rollback manifest, so edits can be undone like any other operation.
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import type { RollbackAction } from "../types.js";
+import {
+  AudioMetadataService,
+  type AudioMetadata,
+} from "./audio-metadata.service.js";
+import {
+  audioTagWriterService,
+  type AudioTagEdit,
+  type AudioTagWriterService,
+} from "./audio-tag-writer.service.js";
+import { RollbackService, backupTagBlock } from "./rollback.service.js";
+import { logger } from "../utils/logger.js";
+
+export interface AudioTagEditRequest {
+  path: string;
+  tags: AudioTagEdit;
+}
+
+export interface AudioTagChange {
+  field: keyof AudioTagEdit;
+  from?: string | number;
+  to: string | number;
+}
+
+export interface AudioTagEditResult {
+  dryRun: boolean;
+  /** Files that were (or, on a dry run, would be) changed */
+  edited: { path: string; changes: AudioTagChange[] }[];
+  /** Files whose tags already had the requested values */
+  unchanged: string[];
+  failed: { path: string; error: string }[];
+  manifestId?: string;
+}
+
+export interface AlbumEditOptions {
+  /** Tags that differ per file, e.g. titles; they win over the shared tags */
+  perFile?: AudioTagEditRequest[];
+  /** Number tracks 1..n in file name order and set the track total */
+  numberTracks?: boolean;
+}
+
+const EDITABLE_FIELDS: (keyof AudioTagEdit)[] = [
+  "title",
+  "artist",
+  "album",
+  "albumArtist",
+  "genre",
+  "year",
+  "trackNumber",
+  "totalTracks",
+  "discNumber",
+  "totalDiscs",
+];
+
+export class AudioTagEditorService {
+  private writer: AudioTagWriterService;
+  private audioMetadata: AudioMetadataService;
+  private rollbackService: RollbackService;
+
+  constructor(
+    writer: AudioTagWriterService = audioTagWriterService,
+    audioMetadata: AudioMetadataService = new AudioMetadataService(),
+    rollbackService: RollbackService = new RollbackService(),
+  ) {
+    this.writer = writer;
+    this.audioMetadata = audioMetadata;
+    this.rollbackService = rollbackService;
+  }
+
+  /**
+   * Turn shared album tags, per-file tags and track numbering into one edit
+   * per file. Files are taken in the given order; unsupported ones are kept
+   * so that editTags can report them.
+   */
+  planAlbumEdit(
+    files: string[],
+    shared: AudioTagEdit = {},
+    options: AlbumEditOptions = {},
+  ): AudioTagEditRequest[] {
+    const perFile = new Map(
+      (options.perFile ?? []).map((r) => [path.resolve(r.path), r.tags]),
+    );
+    const paths = [
+      ...new Set([...files, ...(options.perFile ?? []).map((r) => r.path)]),
+    ].map((p) => path.resolve(p));
+
+    const numbered = options.numberTracks
+      ? paths
+          .filter((p) => this.writer.isSupported(p))
+          .sort((a, b) =>
+            path
+              .basename(a)
+              .localeCompare(path.basename(b), undefined, { numeric: true }),
+          )
+      : [];
+
+    return paths.map((filePath) => {
+      const index = numbered.indexOf(filePath);
+      return {
+        path: filePath,
+        tags: {
+          ...shared,
+          ...(index === -1
+            ? {}
+            : { trackNumber: index + 1, totalTracks: numbered.length }),
+          ...perFile.get(filePath),
+        },
+      };
+    });
+  }
+
+  /**
+   * Write the requested tags. The original tag block of each file is saved
+   * before writing and every edit is recorded in one rollback manifest.
+   */
+  async editTags(
+    requests: AudioTagEditRequest[],
+    options: { dryRun?: boolean } = {},
+  ): Promise<AudioTagEditResult> {
+    const dryRun = options.dryRun ?? false;
+    const result: AudioTagEditResult = {
+      dryRun,
+      edited: [],
+      unchanged: [],
+      failed: [],
+    };
+    const rollbackActions: RollbackAction[] = [];
+
+    for (const request of requests) {
+      try {
+        if (!this.writer.isSupported(request.path)) {
+          throw new Error(
+            `Writing tags is not supported for this format (supported: ${this.writer.getSupportedFormats().join(", ")})`,
+          );
+        }
+
+        const current = await this.audioMetadata.extract(request.path);
+        const changes = this.diff(current, request.tags);
+        if (changes.length === 0) {
+          result.unchanged.push(request.path);
+          continue;
+        }
+        if (dryRun) {
+          result.edited.push({ path: request.path, changes });
+          continue;
+        }
+
+        const backupPath = await backupTagBlock(request.path, (file) =>
+          this.writer.readTagBlock(file),
+        );
+        try {
+          await this.writer.writeTags(request.path, request.tags);
+        } catch (error) {
+          await fs.rm(backupPath, { force: true });
+          throw error;
+        }
+
+        rollbackActions.push({
+          type: "retag",
+          originalPath: request.path,
+          backupPath,
+          timestamp: Date.now(),
+        });
+        result.edited.push({ path: request.path, changes });
+      } catch (error) {
+        logger.warn(
+          `Tag edit failed for ${request.path}: ${(error as Error).message}`,
+        );
+        result.failed.push({
+          path: request.path,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    if (rollbackActions.length > 0) {
+      result.manifestId = await this.rollbackService.createManifest(
+        `Tag edit of ${rollbackActions.length} files`,
+        rollbackActions,
+      );
+    }
+
+    return result;
+  }
+
+  private diff(current: AudioMetadata, edit: AudioTagEdit): AudioTagChange[] {
+    const changes: AudioTagChange[] = [];
+    for (const field of EDITABLE_FIELDS) {
+      const to = edit[field];
+      if (to !== undefined && current[field] !== to) {
+        changes.push({ field, from: current[field], to });
+      }
+    }
+    return changes;
+  }
+}
+
+export const audioTagEditorService = new AudioTagEditorService();
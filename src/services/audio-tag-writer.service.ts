@@ -0,0 +1,782 @@
+/**
+ * File Organizer MCP Server v3.5.0
+ * Audio Tag Writer Service
+ *
+ * @module services/audio-tag-writer.service
+ * @description Writes title, artist, album, track/disc, year and genre tags
+ * back into MP3 (ID3v2.4), FLAC (Vorbis comments) and M4A (iTunes `ilst`
+ * atoms). The tags of each format live in one contiguous region of the file,
+ * the "tag block", which can be saved before an edit and put back to undo it.
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Tag fields that can be written. Omitted fields keep their current value.
+ */
+export interface AudioTagEdit {
+  title?: string;
+  artist?: string;
+  album?: string;
+  albumArtist?: string;
+  genre?: string;
+  year?: number;
+  trackNumber?: number;
+  totalTracks?: number;
+  discNumber?: number;
+  totalDiscs?: number;
+}
+
+type TagFormat = "mp3" | "flac" | "m4a";
+
+/** Byte range of the tag block within the file */
+interface TagRegion {
+  start: number;
+  end: number;
+}
+
+/** Number/total pair such as track 3 of 12 */
+interface NumberPair {
+  number?: number;
+  total?: number;
+}
+
+/** Free space left after rewritten tags so later edits rarely grow the file */
+const PADDING_BYTES = 1024;
+
+const FORMATS: Record<string, TagFormat> = {
+  mp3: "mp3",
+  flac: "flac",
+  m4a: "m4a",
+};
+
+/**
+ * Apply the edit's number/total to an existing pair
+ */
+function mergePair(
+  current: NumberPair,
+  number: number | undefined,
+  total: number | undefined,
+): NumberPair {
+  return { number: number ?? current.number, total: total ?? current.total };
+}
+
+function parsePair(value: string | undefined): NumberPair {
+  const match = value?.match(/^\s*(\d+)?\s*(?:\/\s*(\d+))?/);
+  return {
+    number: match?.[1] ? parseInt(match[1], 10) : undefined,
+    total: match?.[2] ? parseInt(match[2], 10) : undefined,
+  };
+}
+
+function formatPair(pair: NumberPair): string {
+  return pair.total !== undefined
+    ? `${pair.number ?? 0}/${pair.total}`
+    : `${pair.number ?? 0}`;
+}
+
+// ==================== ID3v2 (MP3) ====================
+
+interface ID3WriteFrame {
+  id: string;
+  flags: number;
+  data: Buffer;
+}
+
+/** ID3v2.3 frames that have no ID3v2.4 equivalent */
+const ID3V23_ONLY_FRAMES = new Set(["TDAT", "TIME", "TRDA", "TSIZ", "RVAD"]);
+
+/** ID3v2.3 frames renamed in ID3v2.4 */
+const ID3V23_RENAMED_FRAMES: Record<string, string> = {
+  TYER: "TDRC",
+  TORY: "TDOR",
+};
+
+const ID3_TEXT_FRAMES: Partial<Record<keyof AudioTagEdit, string>> = {
+  title: "TIT2",
+  artist: "TPE1",
+  album: "TALB",
+  albumArtist: "TPE2",
+  genre: "TCON",
+};
+
+function readSynchsafe(buffer: Buffer, offset: number): number {
+  return (
+    ((buffer[offset]! & 0x7f) << 21) |
+    ((buffer[offset + 1]! & 0x7f) << 14) |
+    ((buffer[offset + 2]! & 0x7f) << 7) |
+    (buffer[offset + 3]! & 0x7f)
+  );
+}
+
+function writeSynchsafe(value: number): Buffer {
+  if (value >= 1 << 28) {
+    throw new Error("ID3 tag is too large");
+  }
+  return Buffer.from([
+    (value >> 21) & 0x7f,
+    (value >> 14) & 0x7f,
+    (value >> 7) & 0x7f,
+    value & 0x7f,
+  ]);
+}
+
+function id3Region(buffer: Buffer): TagRegion {
+  if (buffer.length < 10 || buffer.toString("latin1", 0, 3) !== "ID3") {
+    return { start: 0, end: 0 };
+  }
+  const footer = (buffer[5]! & 0x10) !== 0 ? 10 : 0;
+  return {
+    start: 0,
+    end: Math.min(buffer.length, 10 + readSynchsafe(buffer, 6) + footer),
+  };
+}
+
+/**
+ * Read the frames of an ID3v2.3 or v2.4 tag, converting v2.3 frames to v2.4
+ */
+function readID3Frames(buffer: Buffer): ID3WriteFrame[] {
+  const region = id3Region(buffer);
+  if (region.end === 0) return [];
+
+  const version = buffer[3]!;
+  const flags = buffer[5]!;
+  if (version !== 3 && version !== 4) {
+    throw new Error(`ID3v2.${version} tags are not supported`);
+  }
+  if ((flags & 0x80) !== 0) {
+    throw new Error("Unsynchronised ID3 tags are not supported");
+  }
+
+  const end = Math.min(buffer.length, 10 + readSynchsafe(buffer, 6));
+  let offset = 10;
+  if ((flags & 0x40) !== 0) {
+    offset +=
+      version === 4 ? readSynchsafe(buffer, 10) : buffer.readUInt32BE(10) + 4;
+  }
+
+  const frames: ID3WriteFrame[] = [];
+  while (offset + 10 <= end) {
+    const id = buffer.toString("latin1", offset, offset + 4);
+    if (!/^[A-Z0-9]{4}$/.test(id)) break; // padding
+    const size =
+      version === 4
+        ? readSynchsafe(buffer, offset + 4)
+        : buffer.readUInt32BE(offset + 4);
+    const frameFlags = buffer.readUInt16BE(offset + 8);
+    const data = buffer.subarray(offset + 10, offset + 10 + size);
+    offset += 10 + size;
+
+    if (version === 4) {
+      frames.push({ id, flags: frameFlags, data });
+    } else if ((frameFlags & 0x00e0) !== 0) {
+      logger.warn(`Dropping compressed or encrypted ID3v2.3 frame: ${id}`);
+    } else if (!ID3V23_ONLY_FRAMES.has(id)) {
+      frames.push({ id: ID3V23_RENAMED_FRAMES[id] ?? id, flags: 0, data });
+    }
+  }
+  return frames;
+}
+
+function decodeID3Text(data: Buffer): string {
+  const body = data.subarray(1);
+  let text: string;
+  switch (data[0]) {
+    case 0:
+      text = body.toString("latin1");
+      break;
+    case 1:
+      text =
+        body[0] === 0xfe && body[1] === 0xff
+          ? Buffer.from(body.subarray(2)).swap16().toString("utf16le")
+          : body.subarray(2).toString("utf16le");
+      break;
+    case 2:
+      text = Buffer.from(body.subarray(0, body.length & ~1))
+        .swap16()
+        .toString("utf16le");
+      break;
+    default:
+      text = body.toString("utf8");
+  }
+  return text.replace(/\0+$/, "");
+}
+
+function id3TextFrame(id: string, value: string): ID3WriteFrame {
+  return {
+    id,
+    flags: 0,
+    data: Buffer.concat([Buffer.from([3]), Buffer.from(value, "utf8")]),
+  };
+}
+
+/**
+ * Replace the first frame with the same ID (dropping any others) or append
+ */
+function setID3Frame(frames: ID3WriteFrame[], frame: ID3WriteFrame): void {
+  const index = frames.findIndex((f) => f.id === frame.id);
+  if (index === -1) {
+    frames.push(frame);
+    return;
+  }
+  frames[index] = frame;
+  for (let i = frames.length - 1; i > index; i--) {
+    if (frames[i]!.id === frame.id) frames.splice(i, 1);
+  }
+}
+
+function applyID3Edit(buffer: Buffer, edit: AudioTagEdit): Buffer {
+  const frames = readID3Frames(buffer);
+  const textOf = (id: string) => {
+    const frame = frames.find((f) => f.id === id);
+    return frame && frame.flags === 0 ? decodeID3Text(frame.data) : undefined;
+  };
+
+  for (const [field, id] of Object.entries(ID3_TEXT_FRAMES)) {
+    const value = edit[field as keyof AudioTagEdit];
+    if (value !== undefined) setID3Frame(frames, id3TextFrame(id, `${value}`));
+  }
+  if (edit.year !== undefined) {
+    setID3Frame(frames, id3TextFrame("TDRC", `${edit.year}`));
+  }
+  if (edit.trackNumber !== undefined || edit.totalTracks !== undefined) {
+    const pair = mergePair(
+      parsePair(textOf("TRCK")),
+      edit.trackNumber,
+      edit.totalTracks,
+    );
+    setID3Frame(frames, id3TextFrame("TRCK", formatPair(pair)));
+  }
+  if (edit.discNumber !== undefined || edit.totalDiscs !== undefined) {
+    const pair = mergePair(
+      parsePair(textOf("TPOS")),
+      edit.discNumber,
+      edit.totalDiscs,
+    );
+    setID3Frame(frames, id3TextFrame("TPOS", formatPair(pair)));
+  }
+
+  const body = Buffer.concat([
+    ...frames.map((frame) => {
+      const header = Buffer.alloc(10);
+      header.write(frame.id, 0, "latin1");
+      writeSynchsafe(frame.data.length).copy(header, 4);
+      header.writeUInt16BE(frame.flags, 8);
+      return Buffer.concat([header, frame.data]);
+    }),
+    Buffer.alloc(PADDING_BYTES),
+  ]);
+  const header = Buffer.concat([
+    Buffer.from([0x49, 0x44, 0x33, 4, 0, 0]),
+    writeSynchsafe(body.length),
+  ]);
+
+  return Buffer.concat([header, body, buffer.subarray(id3Region(buffer).end)]);
+}
+
+// ==================== FLAC (Vorbis comments) ====================
+
+interface FLACBlock {
+  type: number;
+  data: Buffer;
+}
+
+const FLAC_STREAMINFO = 0;
+const FLAC_PADDING = 1;
+const FLAC_VORBIS_COMMENT = 4;
+
+const VORBIS_TEXT_FIELDS: Partial<Record<keyof AudioTagEdit, string>> = {
+  title: "TITLE",
+  artist: "ARTIST",
+  album: "ALBUM",
+  albumArtist: "ALBUMARTIST",
+  genre: "GENRE",
+  year: "DATE",
+};
+
+function readFLACBlocks(buffer: Buffer): { blocks: FLACBlock[]; end: number } {
+  if (buffer.toString("latin1", 0, 4) !== "fLaC") {
+    throw new Error("Not a FLAC file");
+  }
+  const blocks: FLACBlock[] = [];
+  let offset = 4;
+  let last = false;
+  while (!last) {
+    if (offset + 4 > buffer.length) throw new Error("Truncated FLAC metadata");
+    last = (buffer[offset]! & 0x80) !== 0;
+    const type = buffer[offset]! & 0x7f;
+    const size = buffer.readUIntBE(offset + 1, 3);
+    if (offset + 4 + size > buffer.length) {
+      throw new Error("Truncated FLAC metadata");
+    }
+    blocks.push({ type, data: buffer.subarray(offset + 4, offset + 4 + size) });
+    offset += 4 + size;
+  }
+  return { blocks, end: offset };
+}
+
+function readVorbisComments(data: Buffer | undefined): {
+  vendor: Buffer;
+  comments: string[];
+} {
+  if (!data || data.length < 8) {
+    return { vendor: Buffer.from("File Organizer MCP"), comments: [] };
+  }
+  const vendorLength = data.readUInt32LE(0);
+  const vendor = data.subarray(4, 4 + vendorLength);
+  let offset = 4 + vendorLength;
+  const count = offset + 4 <= data.length ? data.readUInt32LE(offset) : 0;
+  offset += 4;
+
+  const comments: string[] = [];
+  for (let i = 0; i < count && offset + 4 <= data.length; i++) {
+    const length = data.readUInt32LE(offset);
+    offset += 4;
+    if (offset + length > data.length) break;
+    comments.push(data.toString("utf8", offset, offset + length));
+    offset += length;
+  }
+  return { vendor, comments };
+}
+
+function applyVorbisEdit(comments: string[], edit: AudioTagEdit): string[] {
+  const key = (comment: string) =>
+    comment.slice(0, comment.indexOf("=")).toUpperCase();
+  const valueOf = (...fields: string[]) => {
+    const comment = comments.find((c) => fields.includes(key(c)));
+    return comment?.slice(comment.indexOf("=") + 1);
+  };
+
+  const replaced = new Set<string>();
+  const added: string[] = [];
+  const set = (field: string, value: string) => {
+    replaced.add(field);
+    added.push(`${field}=${value}`);
+  };
+
+  for (const [field, name] of Object.entries(VORBIS_TEXT_FIELDS)) {
+    const value = edit[field as keyof AudioTagEdit];
+    if (value !== undefined) set(name, `${value}`);
+  }
+  if (edit.year !== undefined) replaced.add("YEAR");
+
+  const pairs = [
+    {
+      prefix: "TRACK",
+      number: edit.trackNumber,
+      total: edit.totalTracks,
+      totalKeys: ["TRACKTOTAL", "TOTALTRACKS"],
+    },
+    {
+      prefix: "DISC",
+      number: edit.discNumber,
+      total: edit.totalDiscs,
+      totalKeys: ["DISCTOTAL", "TOTALDISCS"],
+    },
+  ];
+  for (const { prefix, number, total, totalKeys } of pairs) {
+    if (number === undefined && total === undefined) continue;
+
+    // The total is either "n/total" in the number field or a field of its own
+    const current = parsePair(valueOf(`${prefix}NUMBER`));
+    current.total ??= parsePair(valueOf(...totalKeys)).number;
+    const pair = mergePair(current, number, total);
+
+    set(`${prefix}NUMBER`, `${pair.number ?? 0}`);
+    for (const name of totalKeys) replaced.add(name);
+    if (pair.total !== undefined) added.push(`${totalKeys[0]}=${pair.total}`);
+  }
+
+  return [...comments.filter((c) => !replaced.has(key(c))), ...added];
+}
+
+function applyFLACEdit(buffer: Buffer, edit: AudioTagEdit): Buffer {
+  const { blocks, end } = readFLACBlocks(buffer);
+  const { vendor, comments } = readVorbisComments(
+    blocks.find((b) => b.type === FLAC_VORBIS_COMMENT)?.data,
+  );
+
+  const entries = applyVorbisEdit(comments, edit).map((c) =>
+    Buffer.from(c, "utf8"),
+  );
+  const commentData = Buffer.alloc(
+    8 + vendor.length + entries.reduce((sum, e) => sum + 4 + e.length, 0),
+  );
+  let offset = commentData.writeUInt32LE(vendor.length, 0);
+  offset += vendor.copy(commentData, offset);
+  offset = commentData.writeUInt32LE(entries.length, offset);
+  for (const entry of entries) {
+    offset = commentData.writeUInt32LE(entry.length, offset);
+    offset += entry.copy(commentData, offset);
+  }
+
+  const kept = blocks.filter(
+    (b) => b.type !== FLAC_VORBIS_COMMENT && b.type !== FLAC_PADDING,
+  );
+  const streamInfo = kept.findIndex((b) => b.type === FLAC_STREAMINFO);
+  kept.splice(streamInfo + 1, 0, {
+    type: FLAC_VORBIS_COMMENT,
+    data: commentData,
+  });
+  kept.push({ type: FLAC_PADDING, data: Buffer.alloc(PADDING_BYTES) });
+
+  const encoded = kept.map((block, i) => {
+    if (block.data.length >= 1 << 24) {
+      throw new Error("FLAC metadata block is too large");
+    }
+    const header = Buffer.alloc(4);
+    header.writeUIntBE(block.data.length, 1, 3);
+    header[0] = (i === kept.length - 1 ? 0x80 : 0) | block.type;
+    return Buffer.concat([header, block.data]);
+  });
+
+  return Buffer.concat([
+    buffer.subarray(0, 4),
+    ...encoded,
+    buffer.subarray(end),
+  ]);
+}
+
+// ==================== MP4 (M4A) ====================
+
+interface Atom {
+  type: string;
+  start: number;
+  headerSize: number;
+  end: number;
+}
+
+const MP4_TEXT_ATOMS: Partial<Record<keyof AudioTagEdit, string>> = {
+  title: "\xa9nam",
+  artist: "\xa9ART",
+  album: "\xa9alb",
+  albumArtist: "aART",
+  genre: "\xa9gen",
+  year: "\xa9day",
+};
+
+/** Containers that hold sample tables with absolute chunk offsets */
+const MP4_SAMPLE_CONTAINERS = new Set(["trak", "mdia", "minf", "stbl"]);
+
+function readAtoms(buffer: Buffer, start = 0, end = buffer.length): Atom[] {
+  const atoms: Atom[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = buffer.readUInt32BE(offset);
+    const type = buffer.toString("latin1", offset + 4, offset + 8);
+    let headerSize = 8;
+    if (size === 1) {
+      if (offset + 16 > end) break;
+      size = Number(buffer.readBigUInt64BE(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize || offset + size > end) {
+      throw new Error(`Malformed MP4 atom "${type}"`);
+    }
+    atoms.push({ type, start: offset, headerSize, end: offset + size });
+    offset += size;
+  }
+  return atoms;
+}
+
+function atom(type: string, ...children: Buffer[]): Buffer {
+  const header = Buffer.alloc(8);
+  const body = Buffer.concat(children);
+  header.writeUInt32BE(8 + body.length, 0);
+  header.write(type, 4, "latin1");
+  return Buffer.concat([header, body]);
+}
+
+/**
+ * Replace (or append) the child atom of the given type inside a container body
+ */
+function replaceChild(
+  body: Buffer,
+  type: string,
+  transform: (childBody: Buffer | undefined) => Buffer,
+): Buffer {
+  const children = readAtoms(body);
+  const existing = children.find((a) => a.type === type);
+  if (!existing) {
+    return Buffer.concat([body, atom(type, transform(undefined))]);
+  }
+  return Buffer.concat([
+    body.subarray(0, existing.start),
+    atom(
+      type,
+      transform(
+        body.subarray(existing.start + existing.headerSize, existing.end),
+      ),
+    ),
+    body.subarray(existing.end),
+  ]);
+}
+
+function mp4Data(typeCode: number, payload: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(typeCode, 0);
+  return atom("data", header, payload);
+}
+
+function readMP4Data(item: Buffer | undefined): Buffer | undefined {
+  if (!item) return undefined;
+  const data = readAtoms(item).find((a) => a.type === "data");
+  return data ? item.subarray(data.start + 16, data.end) : undefined;
+}
+
+function applyIlstEdit(body: Buffer, edit: AudioTagEdit): Buffer {
+  const items = new Map<string, Buffer>(
+    readAtoms(body).map((a) => [
+      a.type,
+      body.subarray(a.start + a.headerSize, a.end),
+    ]),
+  );
+  const order = [...items.keys()];
+  const set = (type: string, value: Buffer) => {
+    if (!items.has(type)) order.push(type);
+    items.set(type, value);
+  };
+
+  for (const [field, type] of Object.entries(MP4_TEXT_ATOMS)) {
+    const value = edit[field as keyof AudioTagEdit];
+    if (value !== undefined)
+      set(type, mp4Data(1, Buffer.from(`${value}`, "utf8")));
+  }
+  if (edit.genre !== undefined) items.delete("gnre");
+
+  const pairs: Array<[string, number, number | undefined, number | undefined]> =
+    [
+      ["trkn", 8, edit.trackNumber, edit.totalTracks],
+      ["disk", 6, edit.discNumber, edit.totalDiscs],
+    ];
+  for (const [type, length, number, total] of pairs) {
+    if (number === undefined && total === undefined) continue;
+    const current = readMP4Data(items.get(type));
+    const pair = mergePair(
+      current && current.length >= 6
+        ? { number: current.readUInt16BE(2), total: current.readUInt16BE(4) }
+        : {},
+      number,
+      total,
+    );
+    const payload = Buffer.alloc(length);
+    payload.writeUInt16BE(pair.number ?? 0, 2);
+    payload.writeUInt16BE(pair.total ?? 0, 4);
+    set(type, mp4Data(0, payload));
+  }
+
+  return Buffer.concat(
+    order
+      .filter((type) => items.has(type))
+      .map((type) => atom(type, items.get(type)!)),
+  );
+}
+
+/**
+ * Shift absolute chunk offsets (stco/co64) at or past `from` by `delta`
+ */
+function shiftChunkOffsets(
+  buffer: Buffer,
+  start: number,
+  end: number,
+  from: number,
+  delta: number,
+): void {
+  for (const child of readAtoms(buffer, start, end)) {
+    const body = child.start + child.headerSize;
+    if (MP4_SAMPLE_CONTAINERS.has(child.type)) {
+      shiftChunkOffsets(buffer, body, child.end, from, delta);
+    } else if (child.type === "stco" || child.type === "co64") {
+      const wide = child.type === "co64";
+      const count = buffer.readUInt32BE(body + 4);
+      for (let i = 0; i < count; i++) {
+        const at = body + 8 + i * (wide ? 8 : 4);
+        if (wide) {
+          const value = buffer.readBigUInt64BE(at);
+          if (value >= BigInt(from)) {
+            buffer.writeBigUInt64BE(value + BigInt(delta), at);
+          }
+        } else {
+          const value = buffer.readUInt32BE(at);
+          if (value >= from) {
+            if (value + delta > 0xffffffff) {
+              throw new Error("Chunk offset overflow; file is too large");
+            }
+            buffer.writeUInt32BE(value + delta, at);
+          }
+        }
+      }
+    }
+  }
+}
+
+function findMoov(buffer: Buffer): Atom {
+  const moov = readAtoms(buffer).find((a) => a.type === "moov");
+  if (!moov) throw new Error("No moov atom found");
+  return moov;
+}
+
+/** Empty iTunes metadata box: version/flags plus an "mdir" handler */
+function emptyMetaBody(): Buffer {
+  const hdlr = Buffer.alloc(25);
+  hdlr.write("mdir", 8, "latin1");
+  hdlr.write("appl", 12, "latin1");
+  return Buffer.concat([Buffer.alloc(4), atom("hdlr", hdlr)]);
+}
+
+function applyMP4Edit(buffer: Buffer, edit: AudioTagEdit): Buffer {
+  const moov = findMoov(buffer);
+
+  const moovBody = replaceChild(
+    buffer.subarray(moov.start + moov.headerSize, moov.end),
+    "udta",
+    (udta) =>
+      replaceChild(udta ?? Buffer.alloc(0), "meta", (meta) => {
+        const body = meta ?? emptyMetaBody();
+        // QuickTime-style meta boxes have no version/flags before their children
+        const fullBox = body.toString("latin1", 4, 8) !== "hdlr";
+        const prefix = fullBox ? body.subarray(0, 4) : Buffer.alloc(0);
+        return Buffer.concat([
+          prefix,
+          replaceChild(body.subarray(prefix.length), "ilst", (ilst) =>
+            applyIlstEdit(ilst ?? Buffer.alloc(0), edit),
+          ),
+        ]);
+      }),
+  );
+  const newMoov = atom("moov", moovBody);
+
+  // Media stored after moov moves by the size difference
+  const delta = newMoov.length - (moov.end - moov.start);
+  const mediaAfterMoov = readAtoms(buffer).some(
+    (a) => a.type === "mdat" && a.start > moov.start,
+  );
+  if (delta !== 0 && mediaAfterMoov) {
+    shiftChunkOffsets(newMoov, 8, newMoov.length, moov.end, delta);
+  }
+
+  return Buffer.concat([
+    buffer.subarray(0, moov.start),
+    newMoov,
+    buffer.subarray(moov.end),
+  ]);
+}
+
+// ==================== Service ====================
+
+export class AudioTagWriterService {
+  getSupportedFormats(): string[] {
+    return Object.keys(FORMATS);
+  }
+
+  isSupported(filePath: string): boolean {
+    return this.formatOf(filePath) !== undefined;
+  }
+
+  /**
+   * Read the file's current tag block (empty for an untagged MP3)
+   */
+  async readTagBlock(filePath: string): Promise<Buffer> {
+    const format = this.requireFormat(filePath);
+    const buffer = await fs.readFile(filePath);
+    const region = this.regionOf(buffer, format);
+    return Buffer.from(buffer.subarray(region.start, region.end));
+  }
+
+  /**
+   * Write the given fields, keeping every other tag in the file
+   * @throws {Error} When the format is unsupported or the file is malformed
+   */
+  async writeTags(filePath: string, edit: AudioTagEdit): Promise<void> {
+    const format = this.requireFormat(filePath);
+    const buffer = await fs.readFile(filePath);
+    const updated =
+      format === "mp3"
+        ? applyID3Edit(buffer, edit)
+        : format === "flac"
+          ? applyFLACEdit(buffer, edit)
+          : applyMP4Edit(buffer, edit);
+    await this.replaceFile(filePath, updated);
+    logger.info(`Wrote ${format.toUpperCase()} tags: ${filePath}`);
+  }
+
+  /**
+   * Put a tag block saved by readTagBlock back into the file
+   */
+  async restoreTagBlock(filePath: string, block: Buffer): Promise<void> {
+    const format = this.requireFormat(filePath);
+    const valid =
+      format === "mp3"
+        ? block.length === 0 || block.toString("latin1", 0, 3) === "ID3"
+        : format === "flac"
+          ? block.length >= 4 && (block[0]! & 0x7f) === FLAC_STREAMINFO
+          : block.toString("latin1", 4, 8) === "moov";
+    if (!valid) {
+      throw new Error(`Saved tag block is not a valid ${format} tag block`);
+    }
+
+    const buffer = await fs.readFile(filePath);
+    const region = this.regionOf(buffer, format);
+    await this.replaceFile(
+      filePath,
+      Buffer.concat([
+        buffer.subarray(0, region.start),
+        block,
+        buffer.subarray(region.end),
+      ]),
+    );
+  }
+
+  private formatOf(filePath: string): TagFormat | undefined {
+    return FORMATS[path.extname(filePath).toLowerCase().slice(1)];
+  }
+
+  private requireFormat(filePath: string): TagFormat {
+    const format = this.formatOf(filePath);
+    if (!format) {
+      throw new Error(
+        `Writing tags is not supported for ${path.extname(filePath) || "files without an extension"} (supported: ${this.getSupportedFormats().join(", ")})`,
+      );
+    }
+    return format;
+  }
+
+  private regionOf(buffer: Buffer, format: TagFormat): TagRegion {
+    switch (format) {
+      case "mp3":
+        return id3Region(buffer);
+      case "flac":
+        return { start: 4, end: readFLACBlocks(buffer).end };
+      case "m4a": {
+        const moov = findMoov(buffer);
+        return { start: moov.start, end: moov.end };
+      }
+    }
+  }
+
+  /**
+   * Write next to the file and rename over it so a failed write never
+   * leaves a truncated file behind
+   */
+  private async replaceFile(filePath: string, data: Buffer): Promise<void> {
+    const { mode } = await fs.stat(filePath);
+    const tempPath = path.join(
+      path.dirname(filePath),
+      `.${path.basename(filePath)}.${randomUUID()}.tmp`,
+    );
+    try {
+      await fs.writeFile(tempPath, data, { mode });
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+}
+
+export const audioTagWriterService = new AudioTagWriterService();
@@ -5,6 +5,8 @@
  * Smart scheduling with cron-based per-directory configuration.
  * Supports min_file_age filtering and batch limits.
  * Includes smart catchup for missed schedules.
+ * Watches with trigger "events" or "both" also organize new files as
+ * filesystem events arrive (see DirectoryWatcher).
  */
 
 import cron, { type ScheduledTask } from "node-cron";
@@ -20,16 +22,29 @@ import {
 } from "../config.js";
 import { logger } from "../utils/logger.js";
 import { SchedulerStateService } from "./scheduler-state.service.js";
+import {
+  DirectoryWatcher,
+  type DirectoryWatcherStatus,
+} from "./directory-watcher.service.js";
+import type { FileWithSize } from "../types.js";
 import { shouldCatchup } from "../utils/cron-utils.js";
 
 export type ConfigLoader = () => UserConfig;
 
+interface EventWatch {
+  watcher: DirectoryWatcher;
+  watch: WatchConfig;
+  /** Settings the watcher was created with; a change recreates it on reload */
+  key: string;
+}
+
 /**
  * Auto-Organize Scheduler Service
  * Manages cron-based scheduled tasks for multiple directories
  */
 export class AutoOrganizeService {
   private tasks: Map<string, ScheduledTask> = new Map();
+  private eventWatches: Map<string, EventWatch> = new Map();
   private runningDirectories: Set<string> = new Set();
   private stateService: SchedulerStateService | null = null;
   private missedSchedulesLock: Promise<void> | null = null;
@@ -67,10 +82,10 @@ export class AutoOrganizeService {
   }> {
     const errors: string[] = [];
 
-    if (this.tasks.size > 0) {
+    if (this.isActive()) {
       const msg = "Auto-organize scheduler already running";
       logger.warn(msg);
-      return { success: true, taskCount: this.tasks.size, errors: [msg] };
+      return { success: true, taskCount: this.getTaskCount(), errors: [msg] };
     }
 
     logger.info("Starting smart auto-organize scheduler...");
@@ -84,6 +99,13 @@ export class AutoOrganizeService {
       errors.push(noTasksMsg);
     }
 
+    // Pick up files that arrived while the server was not running
+    for (const { watcher, watch } of this.eventWatches.values()) {
+      if (watch.rules.catchup_mode !== "never") {
+        watcher.rescan();
+      }
+    }
+
     if (result.taskCount > 0) {
       logger.info(`Started ${result.taskCount} scheduled task(s)`);
       try {
@@ -111,10 +133,15 @@ export class AutoOrganizeService {
         task.stop();
         logger.debug(`Stopped task for: ${directory}`);
       }
+      for (const [directory, { watcher }] of this.eventWatches) {
+        watcher.stop();
+        logger.debug(`Stopped file watcher for: ${directory}`);
+      }
     } catch (error) {
       logger.error("Error stopping auto-organize tasks:", error);
     } finally {
       this.tasks.clear();
+      this.eventWatches.clear();
       this.runningDirectories.clear();
       logger.info("Auto-organize scheduler stopped");
     }
@@ -159,7 +186,9 @@ export class AutoOrganizeService {
       }
     }
 
-    // Create cron tasks for each watch config
+    const activeEventWatches = new Set<string>();
+
+    // Create cron tasks and file watchers for each watch config
     for (const watch of watchList) {
       if (!watch.rules.auto_organize) continue;
 
@@ -177,15 +206,30 @@ export class AutoOrganizeService {
         continue;
       }
 
-      if (!cron.validate(watch.schedule)) {
-        const errorMsg = `Invalid cron expression "${watch.schedule}" for ${watch.directory}. Use format like "0 9 * * *" (daily at 9am) or "0 * * * *" (hourly)`;
+      const trigger = watch.trigger ?? "cron";
+      if (trigger !== "cron") {
+        this.ensureEventWatch(watch);
+        activeEventWatches.add(watch.directory);
+      }
+      if (trigger === "events") continue;
+
+      const schedule = watch.schedule;
+      if (!schedule) {
+        const errorMsg = `Missing cron schedule for ${watch.directory} (required for trigger "${trigger}")`;
+        logger.error(errorMsg);
+        errors.push(errorMsg);
+        continue;
+      }
+
+      if (!cron.validate(schedule)) {
+        const errorMsg = `Invalid cron expression "${schedule}" for ${watch.directory}. Use format like "0 9 * * *" (daily at 9am) or "0 * * * *" (hourly)`;
         logger.error(errorMsg);
         errors.push(errorMsg);
         continue;
       }
 
       try {
-        const task = cron.schedule(watch.schedule, async () => {
+        const task = cron.schedule(schedule, async () => {
           const maxRetries = 3;
           let attempt = 0;
           while (attempt < maxRetries) {
@@ -211,9 +255,7 @@ export class AutoOrganizeService {
         });
 
         this.tasks.set(watch.directory, task);
-        logger.info(
-          `Scheduled "${watch.directory}" with cron: ${watch.schedule}`,
-        );
+        logger.info(`Scheduled "${watch.directory}" with cron: ${schedule}`);
       } catch (error) {
         const errorMsg = `Failed to schedule task for ${watch.directory}: ${error}`;
         logger.error(errorMsg);
@@ -221,28 +263,116 @@ export class AutoOrganizeService {
       }
     }
 
-    return { taskCount: this.tasks.size, errors };
+    // Stop watchers for directories that were removed or switched to cron only
+    for (const [directory, { watcher }] of this.eventWatches) {
+      if (!activeEventWatches.has(directory)) {
+        watcher.stop();
+        this.eventWatches.delete(directory);
+      }
+    }
+
+    return { taskCount: this.getTaskCount(), errors };
+  }
+
+  /**
+   * Create (or keep, if its settings are unchanged) the file watcher for a
+   * watch with trigger "events" or "both". Keeping unchanged watchers across
+   * reloads preserves their pending queue.
+   */
+  private ensureEventWatch(watch: WatchConfig): void {
+    const key = JSON.stringify([
+      watch.rules.debounce_ms,
+      watch.rules.min_file_age_minutes,
+      watch.rules.max_files_per_run,
+    ]);
+    const existing = this.eventWatches.get(watch.directory);
+    if (existing?.key === key) {
+      existing.watch = watch;
+      return;
+    }
+    existing?.watcher.stop();
+
+    const entry: EventWatch = {
+      watch,
+      key,
+      watcher: new DirectoryWatcher(
+        watch.directory,
+        (files) => this.runEventOrganization(entry.watch, files),
+        {
+          ...(watch.rules.debounce_ms !== undefined && {
+            debounceMs: watch.rules.debounce_ms,
+          }),
+          minFileAgeMs: (watch.rules.min_file_age_minutes ?? 0) * 60 * 1000,
+          // Files beyond the limit stay queued for the next run
+          maxBatchFiles: watch.rules.max_files_per_run ?? 0,
+        },
+      ),
+    };
+    entry.watcher.start();
+    this.eventWatches.set(watch.directory, entry);
+    logger.info(`Watching "${watch.directory}" for file events`);
   }
 
   /**
    * Check if scheduler is currently running
    */
   isActive(): boolean {
-    return this.tasks.size > 0;
+    return this.tasks.size > 0 || this.eventWatches.size > 0;
   }
 
   /**
-   * Get the number of active tasks
+   * Get the number of active tasks (directories with a cron task, a file
+   * watcher, or both)
    */
   getTaskCount(): number {
-    return this.tasks.size;
+    return this.getWatchedDirectories().length;
   }
 
   /**
    * Get list of watched directories
    */
   getWatchedDirectories(): string[] {
-    return Array.from(this.tasks.keys());
+    return Array.from(
+      new Set([...this.tasks.keys(), ...this.eventWatches.keys()]),
+    );
+  }
+
+  /**
+   * Live status of the file watcher for a directory (queue depth, last
+   * event). Undefined for cron-only watches.
+   */
+  getEventWatchStatus(directory: string): DirectoryWatcherStatus | undefined {
+    return this.eventWatches.get(directory)?.watcher.getStatus();
+  }
+
+  /**
+   * Organize files handed off by a directory watcher.
+   * @returns false if a run for the directory is already active, so the
+   *   watcher keeps the files queued and retries
+   */
+  private async runEventOrganization(
+    watch: WatchConfig,
+    files: FileWithSize[],
+  ): Promise<boolean> {
+    const { directory } = watch;
+
+    if (this.runningDirectories.has(directory)) {
+      logger.debug(
+        `[${directory}] Run already active, keeping ${files.length} file(s) queued`,
+      );
+      return false;
+    }
+    this.runningDirectories.add(directory);
+    logger.info(
+      `[${directory}] Organizing ${files.length} file(s) after file events`,
+    );
+
+    try {
+      await this.organizeFiles(directory, files);
+      return true;
+    } finally {
+      this.runningDirectories.delete(directory);
+    }
   }
 
   /**
@@ -304,31 +434,7 @@ export class AutoOrganizeService {
         );
       }
 
-      // Get conflict strategy from config
-      const userConfig = this.configLoader();
-      const conflictStrategy = userConfig.conflictStrategy ?? "rename";
-
-      // Run organization
-      const result = await this.organizer.organize(directory, files, {
-        dryRun: false,
-        conflictStrategy,
-      });
-
-      const totalMoved = Object.values(result.statistics).reduce(
-        (a, b) => a + b,
-        0,
-      );
-      logger.info(`[${directory}] Organized ${totalMoved} files`, {
-        statistics: result.statistics,
-        errors: result.errors.length,
-      });
-
-      if (result.errors.length > 0) {
-        logger.warn(
-          `[${directory}] Had ${result.errors.length} errors`,
-          result.errors,
-        );
-      }
+      await this.organizeFiles(directory, files);
 
       // Record successful run time for smart catchup
       if (this.stateService) {
@@ -353,6 +459,41 @@ export class AutoOrganizeService {
     }
   }
 
+  /**
+   * Organize a batch of files with the configured conflict strategy and log
+   * the outcome. Shared by cron runs and file-event runs.
+   */
+  private async organizeFiles(
+    directory: string,
+    files: FileWithSize[],
+  ): Promise<void> {
+    // Get conflict strategy from config
+    const userConfig = this.configLoader();
+    const conflictStrategy = userConfig.conflictStrategy ?? "rename";
+
+    // Run organization
+    const result = await this.organizer.organize(directory, files, {
+      dryRun: false,
+      conflictStrategy,
+    });
+
+    const totalMoved = Object.values(result.statistics).reduce(
+      (a, b) => a + b,
+      0,
+    );
+    logger.info(`[${directory}] Organized ${totalMoved} files`, {
+      statistics: result.statistics,
+      errors: result.errors.length,
+    });
+
+    if (result.errors.length > 0) {
+      logger.warn(
+        `[${directory}] Had ${result.errors.length} errors`,
+        result.errors,
+      );
+    }
+  }
+
   /**
    * Filter files by minimum age
    */
@@ -445,10 +586,14 @@ export class AutoOrganizeService {
 
   /**
    * Check if a watch should be included in catchup checks
-   * Returns true if the watch has auto_organize enabled
+   * Returns true if the watch has auto_organize enabled and a cron schedule
+   * (event-only watches catch up by rescanning when their watcher starts)
    */
   private shouldIncludeInCatchupCheck(watch: WatchConfig): boolean {
-    return watch.rules?.auto_organize === true;
+    return (
+      watch.rules?.auto_organize === true &&
+      (watch.trigger ?? "cron") !== "events"
+    );
   }
 
   /**
@@ -475,6 +620,10 @@ export class AutoOrganizeService {
       return true;
     }
 
+    if (!watch.schedule) {
+      return false;
+    }
+
     // 'smart' mode: only run if schedule was missed
     const needsCatchup = shouldCatchup(watch.schedule, lastRunTime, new Date());
     logger.debug(
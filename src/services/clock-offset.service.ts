@@ -0,0 +1,295 @@
+/**
+ * File Organizer MCP Server v3.5.0
+ * Clock Offset Service
+ *
+ * @module services/clock-offset.service
+ * @description Measures how far each camera's clock was off, from a reference
+ * photo with a known capture time or from GPS timestamps, and corrects photo
+ * dates with it. EXIF dates can be rewritten with rollback support.
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { MetadataService } from "./metadata.service.js";
+import { ImageMetadataService } from "./image-metadata.service.js";
+import {
+  ExifDateWriterService,
+  exifDateWriterService,
+} from "./exif-date-writer.service.js";
+import { RollbackService, backupTagBlock } from "./rollback.service.js";
+import { logger } from "../utils/logger.js";
+import type { RollbackAction } from "../types.js";
+
+export type ClockOffsetSource = "reference" | "gps" | "manual";
+
+export interface ClockOffset {
+  /** "Make Model", as used for camera folders */
+  camera: string;
+  /** Seconds to add to the camera's dates */
+  offsetSeconds: number;
+  source: ClockOffsetSource;
+  /** Photos the offset was measured on */
+  samples: number;
+}
+
+export interface ClockSample {
+  camera?: string;
+  /** Camera wall-clock time */
+  dateTaken?: Date;
+  /** UTC time of the GPS fix */
+  gpsTimestamp?: Date;
+}
+
+export interface ClockCorrectionOptions {
+  /** A photo whose real local capture time is known */
+  reference?: { path: string; actualTime: Date };
+  /** Measure offsets from GPS timestamps (default true) */
+  useGPS?: boolean;
+  /** IANA time zone the photos were taken in; defaults to the system zone */
+  timeZone?: string;
+  /** Rewrite the EXIF dates of corrected files */
+  writeExif?: boolean;
+  dryRun?: boolean;
+}
+
+export interface ClockCorrectionResult {
+  offsets: ClockOffset[];
+  corrected: Array<{
+    path: string;
+    camera: string;
+    /** Local times as "YYYY-MM-DD HH:MM:SS" */
+    from: string;
+    to: string;
+    rewritten: boolean;
+  }>;
+  failed: Array<{ path: string; error: string }>;
+  manifestId?: string;
+}
+
+/**
+ * Clock Offset Service
+ */
+export class ClockOffsetService {
+  private metadataService: MetadataService;
+  private imageMetadata: ImageMetadataService;
+  private writer: ExifDateWriterService;
+  private rollbackService: RollbackService;
+
+  constructor(
+    metadataService: MetadataService = new MetadataService(),
+    writer: ExifDateWriterService = exifDateWriterService,
+    rollbackService: RollbackService = new RollbackService(),
+  ) {
+    this.metadataService = metadataService;
+    this.imageMetadata = new ImageMetadataService();
+    this.writer = writer;
+    this.rollbackService = rollbackService;
+  }
+
+  /**
+   * Offset of the reference photo's camera, given the photo's real time
+   * @throws {Error} When the photo has no camera model or capture date
+   */
+  fromReference(sample: ClockSample, actualTime: Date): ClockOffset {
+    if (!sample.camera || !sample.dateTaken) {
+      throw new Error("Reference photo has no camera model or capture date");
+    }
+    return {
+      camera: sample.camera,
+      offsetSeconds: Math.round(
+        (actualTime.getTime() - sample.dateTaken.getTime()) / 1000,
+      ),
+      source: "reference",
+      samples: 1,
+    };
+  }
+
+  /**
+   * Per-camera offsets between GPS time, read as local time in timeZone,
+   * and the camera clock. The median ignores the odd stale GPS fix.
+   */
+  fromGPS(samples: ClockSample[], timeZone?: string): ClockOffset[] {
+    const byCamera = new Map<string, number[]>();
+    for (const { camera, dateTaken, gpsTimestamp } of samples) {
+      if (!camera || !dateTaken || !gpsTimestamp) continue;
+      const gpsTime = this.toWallClock(gpsTimestamp, timeZone);
+      const offset = (gpsTime.getTime() - dateTaken.getTime()) / 1000;
+      if (!byCamera.has(camera)) byCamera.set(camera, []);
+      byCamera.get(camera)!.push(offset);
+    }
+
+    return [...byCamera].map(([camera, offsets]) => {
+      offsets.sort((a, b) => a - b);
+      const mid = offsets.length >> 1;
+      const median =
+        offsets.length % 2
+          ? offsets[mid]!
+          : (offsets[mid - 1]! + offsets[mid]!) / 2;
+      return {
+        camera,
+        offsetSeconds: Math.round(median),
+        source: "gps" as const,
+        samples: offsets.length,
+      };
+    });
+  }
+
+  /**
+   * The local time of an instant in timeZone, as a Date whose local fields
+   * read like the EXIF dates of ImageMetadataService
+   */
+  toWallClock(instant: Date, timeZone?: string): Date {
+    if (!timeZone) return new Date(instant.getTime());
+
+    const parts = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    }).formatToParts(instant);
+    const part = (type: Intl.DateTimeFormatPartTypes) =>
+      Number(parts.find((p) => p.type === type)?.value);
+    return new Date(
+      part("year"),
+      part("month") - 1,
+      part("day"),
+      part("hour"),
+      part("minute"),
+      part("second"),
+      instant.getUTCMilliseconds(),
+    );
+  }
+
+  isValidTimeZone(timeZone: string): boolean {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Measure per-camera offsets for the photos of a directory and correct
+   * their dates. With writeExif (and not dryRun) the EXIF dates are
+   * rewritten and a rollback manifest is created.
+   */
+  async correct(
+    directory: string,
+    options: ClockCorrectionOptions = {},
+  ): Promise<ClockCorrectionResult> {
+    if (options.timeZone && !this.isValidTimeZone(options.timeZone)) {
+      throw new Error(`Unknown time zone: ${options.timeZone}`);
+    }
+
+    const samples: Array<ClockSample & { path: string }> = [];
+    const entries = await fs.readdir(directory, { withFileTypes: true });
+    for (const entry of entries) {
+      if (!entry.isFile() || !this.imageMetadata.isFormatSupported(entry.name))
+        continue;
+      const filePath = path.join(directory, entry.name);
+      samples.push({ path: filePath, ...(await this.readSample(filePath)) });
+    }
+
+    const offsets = new Map<string, ClockOffset>();
+    if (options.useGPS !== false) {
+      for (const offset of this.fromGPS(samples, options.timeZone)) {
+        offsets.set(offset.camera, offset);
+      }
+    }
+    if (options.reference) {
+      const referencePath = path.resolve(options.reference.path);
+      const sample =
+        samples.find((s) => s.path === referencePath) ??
+        (await this.readSample(referencePath));
+      const offset = this.fromReference(sample, options.reference.actualTime);
+      offsets.set(offset.camera, offset);
+    }
+
+    const result: ClockCorrectionResult = {
+      offsets: [...offsets.values()],
+      corrected: [],
+      failed: [],
+    };
+    const rollbackActions: RollbackAction[] = [];
+
+    for (const sample of samples) {
+      const offset = sample.camera && offsets.get(sample.camera);
+      if (!offset || !offset.offsetSeconds || !sample.dateTaken) continue;
+
+      const entry = {
+        path: sample.path,
+        camera: offset.camera,
+        from: this.formatLocal(sample.dateTaken),
+        to: this.formatLocal(
+          new Date(sample.dateTaken.getTime() + offset.offsetSeconds * 1000),
+        ),
+        rewritten: false,
+      };
+      result.corrected.push(entry);
+      if (!options.writeExif || options.dryRun) continue;
+
+      try {
+        const backupPath = await backupTagBlock(sample.path, (file) =>
+          this.writer.readTagBlock(file),
+        );
+        try {
+          await this.writer.shiftDates(sample.path, offset.offsetSeconds);
+        } catch (error) {
+          await fs.rm(backupPath, { force: true });
+          throw error;
+        }
+        rollbackActions.push({
+          type: "retag",
+          originalPath: sample.path,
+          backupPath,
+          timestamp: Date.now(),
+        });
+        entry.rewritten = true;
+      } catch (error) {
+        logger.warn(
+          `EXIF date rewrite failed for ${sample.path}: ${(error as Error).message}`,
+        );
+        result.failed.push({
+          path: sample.path,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    if (rollbackActions.length > 0) {
+      result.manifestId = await this.rollbackService.createManifest(
+        `Clock correction of ${rollbackActions.length} photos`,
+        rollbackActions,
+      );
+    }
+
+    return result;
+  }
+
+  private async readSample(filePath: string): Promise<ClockSample> {
+    const metadata = await this.metadataService.extractMetadata(
+      filePath,
+      path.extname(filePath).toLowerCase(),
+    );
+    return {
+      camera: metadata?.camera,
+      dateTaken: metadata?.dateTaken ? new Date(metadata.dateTaken) : undefined,
+      gpsTimestamp: metadata?.gpsTimestamp
+        ? new Date(metadata.gpsTimestamp)
+        : undefined,
+    };
+  }
+
+  private formatLocal(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, "0");
+    return (
+      `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+      `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+    );
+  }
+}
@@ -6,11 +6,23 @@
 import * as fs from "fs/promises";
 import * as path from "path";
 import { logger } from "../utils/logger.js";
+import {
+  signatureRuleService,
+  type SignatureRuleService,
+} from "./signature-rules.service.js";
+import {
+  activeContentService,
+  type ActiveContentService,
+} from "./active-content.service.js";
 
 export interface ScreenOptions {
   checkExtensionMismatch?: boolean;
   checkExecutableContent?: boolean;
   checkSuspiciousPatterns?: boolean;
+  /** Evaluate the signature rules from the screening rules directory */
+  checkSignatureRules?: boolean;
+  /** Look for macros, DDE, external templates and PDF actions in documents */
+  checkActiveContent?: boolean;
   strictMode?: boolean;
 }
 
@@ -19,7 +31,9 @@ export interface ScreenIssue {
     | "extension_mismatch"
     | "executable_disguised"
     | "suspicious_pattern"
-    | "unknown_type";
+    | "unknown_type"
+    | "malicious_content"
+    | "active_content";
   severity: "warning" | "error";
   message: string;
   details?: Record<string, any>;
@@ -225,9 +239,17 @@ const SUSPICIOUS_PATTERNS = {
   dangerousInImage: [".exe", ".dll", ".scr", ".com", ".bat", ".cmd", ".sh"],
 };
 
+/** Files screened at the same time by screenBatch */
+const SCREEN_BATCH_CONCURRENCY = 8;
+
 export class ContentScreeningService {
   private readonly maxHeaderBytes = 4096;
 
+  constructor(
+    private readonly signatureRules: SignatureRuleService = signatureRuleService,
+    private readonly activeContent: ActiveContentService = activeContentService,
+  ) {}
+
   /**
    * Screen a single file for security threats
    */
@@ -239,6 +261,8 @@ export class ContentScreeningService {
       checkExtensionMismatch: true,
       checkExecutableContent: true,
       checkSuspiciousPatterns: true,
+      checkSignatureRules: true,
+      checkActiveContent: true,
       strictMode: false,
       ...options,
     };
@@ -335,6 +359,16 @@ export class ContentScreeningService {
         });
       }
 
+      // Check 5: Signature Rules
+      if (opts.checkSignatureRules) {
+        await this.checkSignatureRules(result);
+      }
+
+      // Check 6: Active Content in Documents
+      if (opts.checkActiveContent) {
+        await this.checkActiveContent(result, header);
+      }
+
       this.updateThreatLevel(result);
 
       // In strict mode, any warning causes failure
@@ -362,7 +396,7 @@ export class ContentScreeningService {
   }
 
   /**
-   * Screen multiple files in parallel
+   * Screen multiple files, a few at a time
    */
   async screenBatch(
     filePaths: string[],
@@ -370,9 +404,16 @@ export class ContentScreeningService {
   ): Promise<ScreenResult[]> {
     logger.info(`Starting batch screening of ${filePaths.length} files`);
 
-    const results = await Promise.all(
-      filePaths.map((filePath) => this.screen(filePath, options)),
-    );
+    // Screen in batches: rules and document checks read most of each file
+    const results: ScreenResult[] = [];
+    for (let i = 0; i < filePaths.length; i += SCREEN_BATCH_CONCURRENCY) {
+      const batch = filePaths.slice(i, i + SCREEN_BATCH_CONCURRENCY);
+      results.push(
+        ...(await Promise.all(
+          batch.map((filePath) => this.screen(filePath, options)),
+        )),
+      );
+    }
 
     const passedCount = results.filter((r) => r.passed).length;
     const failedCount = results.length - passedCount;
@@ -438,6 +479,8 @@ export class ContentScreeningService {
       executable_disguised: 0,
       suspicious_pattern: 0,
       unknown_type: 0,
+      malicious_content: 0,
+      active_content: 0,
     };
 
     for (const result of results) {
@@ -735,6 +778,63 @@ export class ContentScreeningService {
     }
   }
 
+  /**
+   * Report every signature rule that matches the file's content, and every
+   * rule that could not be evaluated on it
+   */
+  private async checkSignatureRules(result: ScreenResult): Promise<void> {
+    const { matches, unevaluated } = await this.signatureRules.scanFile(
+      result.filePath,
+    );
+
+    for (const match of matches) {
+      result.issues.push({
+        type: "malicious_content",
+        severity: match.severity,
+        message: `Signature rule "${match.rule}" matched${match.description ? `: ${match.description}` : ""}`,
+        details: {
+          rule: match.rule,
+          tags: match.tags,
+          ruleFile: match.file,
+          strings: match.strings,
+        },
+      });
+    }
+    for (const failed of unevaluated) {
+      result.issues.push({
+        type: "malicious_content",
+        severity: "warning",
+        message: `Signature rule "${failed.rule}" could not be evaluated: ${failed.message}`,
+        details: { rule: failed.rule, ruleFile: failed.file },
+      });
+    }
+  }
+
+  /**
+   * Report macros, DDE links, external templates and PDF actions found
+   * inside Office and PDF documents
+   */
+  private async checkActiveContent(
+    result: ScreenResult,
+    header: Buffer,
+  ): Promise<void> {
+    const indicators = await this.activeContent.detect(result.filePath, header);
+
+    for (const found of indicators) {
+      result.issues.push({
+        type: "active_content",
+        severity: found.severity,
+        message: `${found.message} (${found.evidence.join(", ")})`,
+        details: {
+          format: found.format,
+          indicator: found.indicator,
+          evidence: found.evidence,
+          locations: found.locations,
+        },
+      });
+    }
+  }
+
   /**
    * Update threat level based on issues
    */
@@ -0,0 +1,394 @@
+/**
+ * File Organizer MCP Server v3.5.0
+ * Directory Watcher Service
+ *
+ * Event-driven watching for auto-organize. Filesystem events are debounced
+ * and coalesced into a pending queue; a file is only handed off once its size
+ * and mtime have stopped changing (and it satisfies the minimum age). Hidden
+ * files (names starting with ".") are ignored, as in directory scans. If the
+ * watched directory is renamed or removed the watcher detaches and re-attaches
+ * once a directory exists at the configured path again.
+ */
+
+import fs, { type FSWatcher } from "fs";
+import fsPromises from "fs/promises";
+import path from "path";
+import type { FileWithSize } from "../types.js";
+import { logger } from "../utils/logger.js";
+
+export interface DirectoryWatcherOptions {
+  /** Quiet period after the last event before the queue is examined */
+  debounceMs: number;
+  /** Interval between size/mtime checks used to detect files still being written */
+  stabilityMs: number;
+  /** Minimum file age (based on mtime) before a file is handed off */
+  minFileAgeMs: number;
+  /** Delay between attempts to re-attach after the directory disappears */
+  reattachMs: number;
+  /** Most files handed off at once; the rest stay queued (0 = no limit) */
+  maxBatchFiles: number;
+}
+
+export type WatchEventType = "rename" | "change" | "rescan";
+
+export interface WatchEventInfo {
+  path: string;
+  type: WatchEventType;
+  at: Date;
+}
+
+export interface DirectoryWatcherStatus {
+  directory: string;
+  /** False while waiting for a renamed/removed directory to reappear */
+  attached: boolean;
+  /** Files waiting for the debounce window or for their size to settle */
+  queueDepth: number;
+  /** Most recent filesystem event received */
+  lastEvent?: WatchEventInfo;
+  /** Most recent batch handed to the organizer */
+  lastProcessed?: { path: string; files: number; at: Date };
+}
+
+/**
+ * Called with files that are ready to organize. Returning false (e.g. because
+ * a cron run for the same directory is in progress) keeps them queued for a
+ * later attempt.
+ */
+export type ReadyFilesHandler = (files: FileWithSize[]) => Promise<boolean>;
+
+interface FileSnapshot {
+  size: number;
+  mtimeMs: number;
+}
+
+const DEFAULT_OPTIONS: DirectoryWatcherOptions = {
+  debounceMs: 1000,
+  stabilityMs: 2000,
+  minFileAgeMs: 0,
+  reattachMs: 5000,
+  maxBatchFiles: 0,
+};
+
+// Bound memory during event storms; beyond this the queue is replaced by a rescan
+const MAX_PENDING_FILES = 10000;
+
+/**
+ * Watches a single directory (non-recursive, matching auto-organize scans)
+ */
+export class DirectoryWatcher {
+  private readonly options: DirectoryWatcherOptions;
+  private watcher: FSWatcher | null = null;
+  private identity: { dev: number; ino: number } | null = null;
+  private pending = new Map<string, FileSnapshot | null>();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private reattachTimer: ReturnType<typeof setTimeout> | null = null;
+  private processing = false;
+  private rescanRequested = false;
+  private stopped = true;
+  private lastEvent?: WatchEventInfo;
+  private lastProcessed?: { path: string; files: number; at: Date };
+
+  constructor(
+    private readonly directory: string,
+    private readonly onReady: ReadyFilesHandler,
+    options: Partial<DirectoryWatcherOptions> = {},
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Start watching for file events
+   */
+  start(): void {
+    if (!this.stopped) return;
+    this.stopped = false;
+    this.attach();
+  }
+
+  /**
+   * Stop watching and drop the pending queue
+   */
+  stop(): void {
+    this.stopped = true;
+    this.detach();
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    if (this.reattachTimer) clearTimeout(this.reattachTimer);
+    this.flushTimer = null;
+    this.reattachTimer = null;
+    this.pending.clear();
+    this.rescanRequested = false;
+  }
+
+  /**
+   * Queue every file currently in the directory
+   */
+  rescan(): void {
+    if (this.stopped) return;
+    this.requestRescan();
+  }
+
+  getStatus(): DirectoryWatcherStatus {
+    return {
+      directory: this.directory,
+      attached: this.watcher !== null,
+      queueDepth: this.pending.size,
+      ...(this.lastEvent && { lastEvent: this.lastEvent }),
+      ...(this.lastProcessed && { lastProcessed: this.lastProcessed }),
+    };
+  }
+
+  private attach(): boolean {
+    try {
+      const stats = fs.statSync(this.directory);
+      if (!stats.isDirectory()) {
+        throw new Error("Not a directory");
+      }
+      this.identity = { dev: stats.dev, ino: stats.ino };
+      this.watcher = fs.watch(this.directory, { persistent: false });
+      this.watcher.on("change", (eventType, filename) =>
+        this.handleEvent(eventType, filename),
+      );
+      this.watcher.on("error", (error) => {
+        logger.warn(`[${this.directory}] Watcher error: ${error.message}`);
+        this.scheduleReattach();
+      });
+      logger.debug(`[${this.directory}] Watching for file events`);
+      return true;
+    } catch (error) {
+      logger.warn(
+        `[${this.directory}] Cannot watch directory: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      this.scheduleReattach();
+      return false;
+    }
+  }
+
+  private detach(): void {
+    if (this.watcher) {
+      this.watcher.removeAllListeners();
+      this.watcher.close();
+      this.watcher = null;
+    }
+    this.identity = null;
+  }
+
+  /**
+   * Drop the current watch handle and poll until the path is a directory again.
+   * Files that arrived in the meantime are picked up by a rescan.
+   */
+  private scheduleReattach(): void {
+    this.detach();
+    if (this.stopped || this.reattachTimer) return;
+
+    this.reattachTimer = setTimeout(() => {
+      this.reattachTimer = null;
+      if (this.stopped) return;
+      if (this.attach()) {
+        logger.info(`[${this.directory}] Re-attached directory watcher`);
+        this.requestRescan();
+      }
+    }, this.options.reattachMs);
+  }
+
+  private handleEvent(
+    eventType: string,
+    filename: string | Buffer | null,
+  ): void {
+    if (this.stopped) return;
+
+    const type: WatchEventType = eventType === "change" ? "change" : "rename";
+    if (!filename) {
+      // Some platforms omit the name; fall back to rescanning the directory
+      this.lastEvent = { path: this.directory, type: "rescan", at: new Date() };
+      this.requestRescan();
+      return;
+    }
+
+    const name = filename.toString();
+    if (name.startsWith(".")) return;
+
+    const fullPath = path.join(this.directory, name);
+    this.lastEvent = { path: fullPath, type, at: new Date() };
+
+    if (this.pending.size >= MAX_PENDING_FILES && !this.pending.has(fullPath)) {
+      logger.warn(
+        `[${this.directory}] Event queue full (${MAX_PENDING_FILES}), falling back to a rescan`,
+      );
+      this.pending.clear();
+      this.requestRescan();
+      return;
+    }
+
+    // Any new event invalidates the previous snapshot for this file
+    this.pending.set(fullPath, null);
+    this.scheduleFlush(this.options.debounceMs);
+  }
+
+  private requestRescan(): void {
+    this.rescanRequested = true;
+    this.scheduleFlush(this.options.debounceMs);
+  }
+
+  private scheduleFlush(delay: number): void {
+    if (this.stopped) return;
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      void this.flush();
+    }, delay);
+  }
+
+  /**
+   * Verify the watched path still refers to the directory we attached to.
+   * A rename of the watched directory keeps the old handle alive on some
+   * platforms, so compare device/inode instead of relying on an error.
+   */
+  private async isSameDirectory(): Promise<boolean> {
+    try {
+      const stats = await fsPromises.stat(this.directory);
+      return (
+        stats.isDirectory() &&
+        this.identity !== null &&
+        stats.dev === this.identity.dev &&
+        stats.ino === this.identity.ino
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  private async flush(): Promise<void> {
+    if (this.stopped) return;
+    if (this.processing) {
+      this.scheduleFlush(this.options.stabilityMs);
+      return;
+    }
+    this.processing = true;
+
+    try {
+      if (!(await this.isSameDirectory())) {
+        logger.info(
+          `[${this.directory}] Watched directory moved or removed, waiting for it to reappear`,
+        );
+        this.pending.clear();
+        this.scheduleReattach();
+        return;
+      }
+
+      if (this.rescanRequested) {
+        this.rescanRequested = false;
+        await this.queueDirectoryContents();
+      }
+
+      const ready: FileWithSize[] = [];
+      let nextCheck = this.options.stabilityMs;
+      const now = Date.now();
+
+      for (const [filePath, previous] of this.pending) {
+        let stats: fs.Stats;
+        try {
+          stats = await fsPromises.lstat(filePath);
+        } catch {
+          // Moved away or deleted (including by our own organization)
+          this.pending.delete(filePath);
+          continue;
+        }
+        if (!stats.isFile()) {
+          this.pending.delete(filePath);
+          continue;
+        }
+
+        const snapshot = { size: stats.size, mtimeMs: stats.mtimeMs };
+        const settled =
+          previous !== null &&
+          previous.size === snapshot.size &&
+          previous.mtimeMs === snapshot.mtimeMs;
+        const age = now - stats.mtimeMs;
+
+        if (settled && age >= this.options.minFileAgeMs) {
+          this.pending.delete(filePath);
+          ready.push({
+            name: path.basename(filePath),
+            path: filePath,
+            size: stats.size,
+            modified: stats.mtime,
+          });
+        } else {
+          this.pending.set(filePath, snapshot);
+          if (settled) {
+            nextCheck = Math.max(
+              nextCheck,
+              Math.min(this.options.minFileAgeMs - age, 60 * 60 * 1000),
+            );
+          }
+        }
+      }
+
+      const { maxBatchFiles } = this.options;
+      if (maxBatchFiles > 0 && ready.length > maxBatchFiles) {
+        // Settled files beyond the limit are handed off on the next check
+        for (const file of ready.splice(maxBatchFiles)) {
+          this.pending.set(file.path, {
+            size: file.size,
+            mtimeMs: file.modified?.getTime() ?? 0,
+          });
+        }
+      }
+
+      if (ready.length > 0) {
+        await this.handOff(ready);
+      }
+
+      if (this.pending.size > 0) {
+        this.scheduleFlush(nextCheck);
+      }
+    } catch (error) {
+      logger.error(`[${this.directory}] Failed to process file events:`, error);
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async handOff(files: FileWithSize[]): Promise<void> {
+    let accepted: boolean;
+    try {
+      accepted = await this.onReady(files);
+    } catch (error) {
+      logger.error(`[${this.directory}] Event-triggered organization failed:`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      accepted = true; // Do not retry a failing batch in a tight loop
+    }
+
+    if (!accepted) {
+      // Keep the snapshots so the files are handed off again on the next check
+      for (const file of files) {
+        this.pending.set(file.path, {
+          size: file.size,
+          mtimeMs: file.modified?.getTime() ?? 0,
+        });
+      }
+      return;
+    }
+
+    this.lastProcessed = {
+      path: files[files.length - 1]!.path,
+      files: files.length,
+      at: new Date(),
+    };
+  }
+
+  private async queueDirectoryContents(): Promise<void> {
+    const entries = await fsPromises.readdir(this.directory, {
+      withFileTypes: true,
+    });
+    for (const entry of entries) {
+      if (this.pending.size >= MAX_PENDING_FILES) break;
+      if (!entry.isFile() || entry.name.startsWith(".")) continue;
+      const fullPath = path.join(this.directory, entry.name);
+      if (!this.pending.has(fullPath)) {
+        this.pending.set(fullPath, null);
+      }
+    }
+  }
+}
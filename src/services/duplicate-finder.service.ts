@@ -6,6 +6,7 @@
  */
 
 import fs from "fs/promises";
+import type { Stats } from "fs";
 import crypto from "crypto";
 import { HashCalculatorService } from "./hash-calculator.service.js";
 import type { FileWithSize, DuplicateGroup } from "../types.js";
@@ -19,19 +20,85 @@ import {
   PathValidatorService,
 } from "./path-validator.service.js";
 import { FileScannerService } from "./file-scanner.service.js";
+import {
+  PerceptualHashService,
+  DEFAULT_HAMMING_THRESHOLD,
+} from "./perceptual-hash.service.js";
+import { ImageMetadataService } from "./image-metadata.service.js";
+import type { ImageMetadata } from "./image-metadata.service.js";
+import type { AudioMetadata } from "./audio-metadata.service.js";
+import {
+  MusicDuplicateService,
+  DEFAULT_DURATION_TOLERANCE,
+  isLosslessFormat,
+} from "./music-duplicate.service.js";
 
 export type RecommendationStrategy =
   | "newest"
   | "oldest"
   | "best_location"
-  | "best_name";
+  | "best_name"
+  | "highest_resolution"
+  | "most_metadata";
+
+/**
+ * exact: byte-identical files (SHA-256)
+ * perceptual: visually similar JPEG/PNG images (dHash within a Hamming distance)
+ * music: same artist and title tags with a similar duration
+ */
+export type DuplicateMatchMode = "exact" | "perceptual" | "music";
+
+export interface FindWithScoringOptions {
+  timeoutMs?: number;
+  matchMode?: DuplicateMatchMode;
+  /** Maximum Hamming distance between perceptual hashes (perceptual mode) */
+  threshold?: number;
+  /** Maximum duration difference in seconds (music mode) */
+  durationTolerance?: number;
+  /** Filled with images that could not be decoded (perceptual mode) */
+  skipped?: { path: string; reason: string }[];
+}
 
 export interface ScoredFile {
   path: string;
   score: number;
   reasons: string[];
+  /** Hamming distance to the group's reference image (perceptual mode) */
+  distance?: number;
+}
+
+/**
+ * Image details used by the resolution and metadata strategies
+ */
+interface ImageDetails {
+  width?: number;
+  height?: number;
+  exifFieldCount: number;
 }
 
+/** EXIF-derived fields counted by the most_metadata strategy */
+const EXIF_FIELDS: (keyof ImageMetadata)[] = [
+  "cameraMake",
+  "cameraModel",
+  "lensModel",
+  "dateTaken",
+  "iso",
+  "focalLength",
+  "aperture",
+  "shutterSpeed",
+  "exposureCompensation",
+  "flash",
+  "orientation",
+  "colorSpace",
+  "latitude",
+  "longitude",
+  "altitude",
+  "gpsTimestamp",
+  "software",
+  "dateModified",
+  "dateCreated",
+];
+
 export interface AnalyzedDuplicateGroup {
   hash: string;
   size_bytes: number;
@@ -40,6 +107,8 @@ export interface AnalyzedDuplicateGroup {
   recommended_keep: string;
   recommended_delete: string[];
   wasted_space_bytes: number;
+  /** Why the files were grouped, e.g. "same tags, 0.4s duration diff" */
+  match_reason?: string;
 }
 
 export interface DeletionResult {
@@ -48,15 +117,58 @@ export interface DeletionResult {
   manifestPath?: string;
 }
 
+export type LinkType = "hardlink" | "symlink";
+
+export interface LinkGroup {
+  keep: string;
+  duplicates: string[];
+}
+
+export interface LinkOptions {
+  /** Fall back to a symlink when the filesystem refuses a hardlink (default: true) */
+  allowSymlinks?: boolean;
+  dryRun?: boolean;
+}
+
+export interface LinkResult {
+  linked: {
+    path: string;
+    target: string;
+    linkType: LinkType;
+    bytesSaved: number;
+  }[];
+  /** Duplicates on a different filesystem than the kept file */
+  notLinkable: { path: string; target: string; reason: string }[];
+  skipped: { path: string; reason: string }[];
+  failed: { path: string; error: string }[];
+  manifestPath?: string;
+}
+
+/** Errors after which a symlink is tried instead of a hardlink */
+const HARDLINK_UNSUPPORTED = new Set([
+  "EPERM",
+  "EMLINK",
+  "ENOTSUP",
+  "EOPNOTSUPP",
+]);
+
+const COMPARE_CHUNK_SIZE = 64 * 1024;
+
 export class DuplicateFinderService {
   private hashCalculator: HashCalculatorService;
   private rollbackService: RollbackService;
   private fileScanner: FileScannerService;
+  private perceptualHasher: PerceptualHashService;
+  private imageMetadata: ImageMetadataService;
+  private musicDuplicates: MusicDuplicateService;
 
   constructor() {
     this.hashCalculator = new HashCalculatorService();
     this.rollbackService = new RollbackService();
     this.fileScanner = new FileScannerService();
+    this.perceptualHasher = new PerceptualHashService();
+    this.imageMetadata = new ImageMetadataService();
+    this.musicDuplicates = new MusicDuplicateService();
   }
 
   /**
@@ -65,17 +177,23 @@ export class DuplicateFinderService {
   async findWithScoring(
     files: FileWithSize[],
     strategy: RecommendationStrategy = "best_location",
-    options: { timeoutMs?: number } = {},
+    options: FindWithScoringOptions = {},
   ): Promise<AnalyzedDuplicateGroup[]> {
+    if (options.matchMode === "perceptual") {
+      return this.findSimilarImages(files, strategy, options);
+    }
+    if (options.matchMode === "music") {
+      return this.findMatchingTracks(files, strategy, options);
+    }
+
     const duplicates = await this.hashCalculator.findDuplicates(files, options);
+    const details = await this.loadImageDetails(
+      duplicates.flatMap((group) => group.files),
+      strategy,
+    );
 
     return duplicates.map((group) => {
-      const scoredFiles = group.files.map((file) =>
-        this.scoreFile(file, strategy),
-      );
-
-      // Sort by score descending (Highest score first)
-      scoredFiles.sort((a, b) => b.score - a.score);
+      const scoredFiles = this.scoreGroup(group.files, strategy, details);
 
       if (scoredFiles.length === 0) {
         // Should not happen given findDuplicates filters for > 1, but safety first
@@ -98,10 +216,230 @@ export class DuplicateFinderService {
         recommended_keep: scoredFiles[0]?.path ?? "",
         recommended_delete: scoredFiles.slice(1).map((f) => f.path),
         wasted_space_bytes: group.size_bytes * (group.files.length - 1),
+        match_reason: "identical content",
       };
     });
   }
 
+  /**
+   * Group visually similar images and score them for recommendation
+   */
+  private async findSimilarImages(
+    files: FileWithSize[],
+    strategy: RecommendationStrategy,
+    options: FindWithScoringOptions,
+  ): Promise<AnalyzedDuplicateGroup[]> {
+    const groups = await this.perceptualHasher.findSimilar(files, {
+      threshold: options.threshold ?? DEFAULT_HAMMING_THRESHOLD,
+      timeoutMs: options.timeoutMs,
+      skipped: options.skipped,
+    });
+    const details = await this.loadImageDetails(
+      groups.flatMap((group) => group.files),
+      strategy,
+    );
+
+    // Decoded dimensions win over EXIF, which resizing tools often leave stale
+    for (const group of groups) {
+      for (const [filePath, size] of group.dimensions) {
+        details.set(filePath, {
+          exifFieldCount: details.get(filePath)?.exifFieldCount ?? 0,
+          ...size,
+        });
+      }
+    }
+
+    return groups.map((group) => {
+      const scoredFiles = this.scoreGroup(group.files, strategy, details).map(
+        (file) => ({ ...file, distance: group.distances.get(file.path) }),
+      );
+      const maxDistance = Math.max(...group.distances.values());
+      return this.buildGroup(
+        group.hash,
+        group.files,
+        scoredFiles,
+        `visually similar, hash distance ${maxDistance}`,
+      );
+    });
+  }
+
+  /**
+   * Group the same recording stored in different formats or bitrates and
+   * rank each group by format quality (lossless first, then bitrate)
+   */
+  private async findMatchingTracks(
+    files: FileWithSize[],
+    strategy: RecommendationStrategy,
+    options: FindWithScoringOptions,
+  ): Promise<AnalyzedDuplicateGroup[]> {
+    const groups = await this.musicDuplicates.findMatchingTracks(files, {
+      durationTolerance:
+        options.durationTolerance ?? DEFAULT_DURATION_TOLERANCE,
+      timeoutMs: options.timeoutMs,
+    });
+
+    return groups.map((group) => {
+      const scoredFiles = this.scoreGroup(
+        group.files,
+        strategy,
+        new Map(),
+        group.metadata,
+      );
+      const maxDiff = Math.max(...group.durationDiffs.values());
+      return this.buildGroup(
+        `tags:${group.key}`,
+        group.files,
+        scoredFiles,
+        `same tags, ${maxDiff.toFixed(1)}s duration diff`,
+      );
+    });
+  }
+
+  /**
+   * Assemble a group whose members may differ in size: wasted space is the
+   * total size of the files recommended for deletion
+   */
+  private buildGroup(
+    hash: string,
+    files: FileWithSize[],
+    scoredFiles: ScoredFile[],
+    matchReason: string,
+  ): AnalyzedDuplicateGroup {
+    const sizes = new Map(files.map((f) => [f.path, f.size]));
+    const keep = scoredFiles[0]?.path ?? "";
+    const remove = scoredFiles.slice(1).map((f) => f.path);
+
+    return {
+      hash,
+      size_bytes: sizes.get(keep) ?? 0,
+      file_count: files.length,
+      files: scoredFiles,
+      recommended_keep: keep,
+      recommended_delete: remove,
+      wasted_space_bytes: remove.reduce(
+        (sum, p) => sum + (sizes.get(p) ?? 0),
+        0,
+      ),
+      match_reason: matchReason,
+    };
+  }
+
+  /**
+   * Read dimensions and EXIF field counts when the strategy needs them
+   */
+  private async loadImageDetails(
+    files: FileWithSize[],
+    strategy: RecommendationStrategy,
+  ): Promise<Map<string, ImageDetails>> {
+    const details = new Map<string, ImageDetails>();
+    if (strategy !== "highest_resolution" && strategy !== "most_metadata") {
+      return details;
+    }
+
+    for (const file of files) {
+      if (!this.imageMetadata.isFormatSupported(file.path)) continue;
+      try {
+        const metadata = await this.imageMetadata.extract(file.path, {
+          extractGPS: true,
+        });
+        details.set(file.path, {
+          width: metadata.width,
+          height: metadata.height,
+          exifFieldCount: EXIF_FIELDS.filter(
+            (field) => metadata[field] !== undefined,
+          ).length,
+        });
+      } catch (error) {
+        logger.debug(
+          `Could not read image metadata: ${file.path}`,
+          error as Error,
+        );
+      }
+    }
+    return details;
+  }
+
+  /**
+   * Score every file of a group, best candidate to keep first.
+   * With audio metadata, files are ranked by format quality first and the
+   * strategy score only breaks ties.
+   */
+  private scoreGroup(
+    files: FileWithSize[],
+    strategy: RecommendationStrategy,
+    details: Map<string, ImageDetails>,
+    audio?: Map<string, AudioMetadata>,
+  ): ScoredFile[] {
+    const pixelCount = (filePath: string) => {
+      const info = details.get(filePath);
+      return info?.width && info.height ? info.width * info.height : 0;
+    };
+    const maxPixels = Math.max(0, ...files.map((f) => pixelCount(f.path)));
+    const quality = new Map<string, number>();
+
+    const scored = files.map((file) => {
+      const result = this.scoreFile(file, strategy);
+      const info = details.get(file.path);
+
+      if (strategy === "highest_resolution") {
+        const pixels = pixelCount(file.path);
+        if (pixels > 0 && maxPixels > 0) {
+          // Relative to the largest image so resolution outweighs location
+          const resolutionBonus = (pixels / maxPixels) * 100;
+          result.score += resolutionBonus;
+          result.reasons.push(
+            `Resolution ${info!.width}x${info!.height} (+${resolutionBonus.toFixed(1)})`,
+          );
+        } else {
+          result.reasons.push("No image dimensions available");
+        }
+      } else if (strategy === "most_metadata") {
+        const fieldCount = info?.exifFieldCount ?? 0;
+        const metadataBonus = fieldCount * 10;
+        result.score += metadataBonus;
+        result.reasons.push(
+          `EXIF fields: ${fieldCount} (+${metadataBonus.toFixed(1)})`,
+        );
+      }
+
+      const track = audio?.get(file.path);
+      if (track) {
+        const { bonus, label } = this.scoreAudioQuality(track);
+        result.score += bonus;
+        result.reasons.push(`Format quality: ${label} (+${bonus.toFixed(1)})`);
+        quality.set(file.path, bonus);
+      }
+
+      return result;
+    });
+
+    // Best format first, then score descending (Highest score first)
+    return scored.sort(
+      (a, b) =>
+        (quality.get(b.path) ?? 0) - (quality.get(a.path) ?? 0) ||
+        b.score - a.score,
+    );
+  }
+
+  /**
+   * Lossless formats always beat lossy ones; lossy formats rank by bitrate
+   */
+  private scoreAudioQuality(track: AudioMetadata): {
+    bonus: number;
+    label: string;
+  } {
+    if (isLosslessFormat(track.format)) {
+      return { bonus: 300, label: `${track.format} lossless` };
+    }
+    if (!track.bitrate) {
+      return { bonus: 0, label: `${track.format}, bitrate unknown` };
+    }
+    return {
+      bonus: (Math.min(track.bitrate, 320) / 320) * 200,
+      label: `${track.format} ${track.bitrate}kbps`,
+    };
+  }
+
   /**
    * Score a file based on strategy
    * Higher score = Better to KEEP
@@ -309,6 +647,209 @@ export class DuplicateFinderService {
     return result;
   }
 
+  /**
+   * Replace duplicate copies with links to the kept file instead of deleting
+   * them. Each duplicate is compared byte-for-byte with the kept file right
+   * before it is linked; a hardlink is used where possible and a symlink when
+   * the filesystem refuses hardlinks. Duplicates on another filesystem are
+   * reported as not linkable. Undoing the manifest restores independent copies.
+   */
+  async linkDuplicates(
+    groups: LinkGroup[],
+    options: LinkOptions = {},
+  ): Promise<LinkResult> {
+    const { allowSymlinks = true, dryRun = false } = options;
+    const result: LinkResult = {
+      linked: [],
+      notLinkable: [],
+      skipped: [],
+      failed: [],
+    };
+    const rollbackActions: RollbackAction[] = [];
+    const validator = new PathValidatorService();
+
+    for (const group of groups) {
+      let keep: string;
+      let keepStats: Stats;
+      try {
+        keep = await validateStrictPath(group.keep);
+        keepStats = await fs.lstat(keep);
+        if (!keepStats.isFile()) {
+          throw new Error("Kept file is not a regular file");
+        }
+      } catch (error) {
+        for (const duplicate of group.duplicates) {
+          result.failed.push({
+            path: duplicate,
+            error: `Cannot use kept file ${group.keep}: ${(error as Error).message}`,
+          });
+        }
+        continue;
+      }
+
+      for (const duplicate of [...new Set(group.duplicates)]) {
+        try {
+          const dupPath = await validateStrictPath(duplicate);
+          if (dupPath === keep) {
+            result.skipped.push({
+              path: duplicate,
+              reason: "Same as kept file",
+            });
+            continue;
+          }
+
+          const dupStats = await fs.lstat(dupPath);
+          if (dupStats.isSymbolicLink()) {
+            result.skipped.push({ path: duplicate, reason: "Already a link" });
+            continue;
+          }
+          if (dupStats.dev !== keepStats.dev) {
+            result.notLinkable.push({
+              path: duplicate,
+              target: keep,
+              reason: "Different filesystem than the kept file",
+            });
+            continue;
+          }
+          if (dupStats.ino === keepStats.ino) {
+            result.skipped.push({
+              path: duplicate,
+              reason: "Already hardlinked to the kept file",
+            });
+            continue;
+          }
+          if (!(await this.filesAreIdentical(validator, keep, dupPath))) {
+            result.failed.push({
+              path: duplicate,
+              error: "Content differs from the kept file",
+            });
+            continue;
+          }
+
+          if (dryRun) {
+            result.linked.push({
+              path: dupPath,
+              target: keep,
+              linkType: "hardlink",
+              bytesSaved: dupStats.size,
+            });
+            continue;
+          }
+
+          const linkType = await this.replaceWithLink(
+            keep,
+            dupPath,
+            allowSymlinks,
+          );
+          rollbackActions.push({
+            type: "link",
+            originalPath: dupPath,
+            currentPath: keep,
+            linkType,
+            timestamp: Date.now(),
+          });
+          result.linked.push({
+            path: dupPath,
+            target: keep,
+            linkType,
+            bytesSaved: dupStats.size,
+          });
+        } catch (error) {
+          result.failed.push({
+            path: duplicate,
+            error: (error as Error).message,
+          });
+        }
+      }
+    }
+
+    if (rollbackActions.length > 0) {
+      result.manifestPath = await this.rollbackService.createManifest(
+        `Linking of ${rollbackActions.length} duplicates`,
+        rollbackActions,
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Create the link under a temporary name next to the duplicate, then
+   * rename it over the duplicate so the path is never missing
+   */
+  private async replaceWithLink(
+    keep: string,
+    duplicate: string,
+    allowSymlinks: boolean,
+  ): Promise<LinkType> {
+    const tempPath = path.join(
+      path.dirname(duplicate),
+      `.${path.basename(duplicate)}.${crypto.randomUUID()}.link`,
+    );
+
+    let linkType: LinkType = "hardlink";
+    try {
+      await fs.link(keep, tempPath);
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code ?? "";
+      if (!allowSymlinks || !HARDLINK_UNSUPPORTED.has(code)) throw error;
+      logger.debug(`Hardlink refused (${code}), using symlink: ${duplicate}`);
+      await fs.symlink(keep, tempPath);
+      linkType = "symlink";
+    }
+
+    try {
+      await fs.rename(tempPath, duplicate);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+    return linkType;
+  }
+
+  /**
+   * Byte-for-byte comparison of two files
+   */
+  private async filesAreIdentical(
+    validator: PathValidatorService,
+    a: string,
+    b: string,
+  ): Promise<boolean> {
+    const handleA = await validator.openAndValidateFile(a);
+    let handleB: fs.FileHandle | undefined;
+    try {
+      handleB = await validator.openAndValidateFile(b);
+      const [statsA, statsB] = await Promise.all([
+        handleA.stat(),
+        handleB.stat(),
+      ]);
+      if (statsA.size !== statsB.size) return false;
+
+      const bufferA = Buffer.alloc(COMPARE_CHUNK_SIZE);
+      const bufferB = Buffer.alloc(COMPARE_CHUNK_SIZE);
+      for (let position = 0; position < statsA.size;) {
+        const [readA, readB] = await Promise.all([
+          handleA.read(bufferA, 0, COMPARE_CHUNK_SIZE, position),
+          handleB.read(bufferB, 0, COMPARE_CHUNK_SIZE, position),
+        ]);
+        if (
+          readA.bytesRead !== readB.bytesRead ||
+          !bufferA
+            .subarray(0, readA.bytesRead)
+            .equals(bufferB.subarray(0, readB.bytesRead))
+        ) {
+          return false;
+        }
+        if (readA.bytesRead === 0) break;
+        position += readA.bytesRead;
+      }
+      return true;
+    } finally {
+      await handleA.close();
+      await handleB?.close();
+    }
+  }
+
   /**
    * Verify that duplicates exist for files being deleted
    * Scans parent directories to ensure at least one copy remains
@@ -0,0 +1,161 @@
+/**
+ * File Organizer MCP Server v3.5.0
+ * EXIF Date Writer Service
+ *
+ * @module services/exif-date-writer.service
+ * @description Shifts the EXIF date/time strings (DateTimeOriginal,
+ * DateTimeDigitized, DateTime) of JPEG and TIFF-based files. The strings have
+ * a fixed length, so they are overwritten in place and nothing else in the
+ * file moves.
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import {
+  ImageMetadataService,
+  TIFF_RAW_EXTENSIONS,
+  type EXIFDateField,
+} from "./image-metadata.service.js";
+import { logger } from "../utils/logger.js";
+
+const WRITABLE_EXTENSIONS = new Set([
+  ".jpg",
+  ".jpeg",
+  ".jpe",
+  ".tif",
+  ".tiff",
+  ...TIFF_RAW_EXTENSIONS,
+]);
+
+const EXIF_DATE = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})$/;
+
+/**
+ * EXIF Date Writer Service
+ */
+export class ExifDateWriterService {
+  private imageMetadata: ImageMetadataService;
+
+  constructor(
+    imageMetadata: ImageMetadataService = new ImageMetadataService(),
+  ) {
+    this.imageMetadata = imageMetadata;
+  }
+
+  isSupported(filePath: string): boolean {
+    return WRITABLE_EXTENSIONS.has(path.extname(filePath).toLowerCase());
+  }
+
+  getSupportedFormats(): string[] {
+    return [...WRITABLE_EXTENSIONS].map((ext) => ext.slice(1));
+  }
+
+  /**
+   * Current date/time strings of the file, for restoreTagBlock
+   */
+  async readTagBlock(filePath: string): Promise<Buffer> {
+    const fields = await this.requireFields(filePath);
+    return Buffer.from(
+      JSON.stringify(Object.fromEntries(fields.map((f) => [f.tag, f.value]))),
+    );
+  }
+
+  /**
+   * Put date/time strings saved by readTagBlock back into the file
+   */
+  async restoreTagBlock(filePath: string, block: Buffer): Promise<void> {
+    let saved: Record<string, unknown>;
+    try {
+      saved = JSON.parse(block.toString("utf-8"));
+    } catch {
+      throw new Error("Saved tag block is not a valid EXIF date block");
+    }
+
+    const fields = await this.requireFields(filePath);
+    const updates = fields.flatMap((field) => {
+      const value = saved[field.tag];
+      if (value === undefined) return [];
+      if (typeof value !== "string" || !EXIF_DATE.test(value)) {
+        throw new Error(`Saved ${field.tag} is not an EXIF date: ${value}`);
+      }
+      return [{ ...field, value }];
+    });
+    await this.writeFields(filePath, updates);
+  }
+
+  /**
+   * Move every date/time string of the file by offsetSeconds
+   * @returns The new DateTimeOriginal, or the first date written
+   * @throws {Error} When the format is unsupported or the file has no dates
+   */
+  async shiftDates(filePath: string, offsetSeconds: number): Promise<Date> {
+    const fields = await this.requireFields(filePath);
+    const updates = fields.map((field) => ({
+      ...field,
+      value: this.format(
+        new Date(this.parse(field.value) + offsetSeconds * 1000),
+      ),
+    }));
+    await this.writeFields(filePath, updates);
+    logger.info(`Shifted EXIF dates by ${offsetSeconds}s: ${filePath}`);
+
+    const original =
+      updates.find((f) => f.tag === "DateTimeOriginal") ?? updates[0]!;
+    return this.toLocalDate(original.value);
+  }
+
+  private async requireFields(filePath: string): Promise<EXIFDateField[]> {
+    if (!this.isSupported(filePath)) {
+      throw new Error(
+        `Writing EXIF dates is not supported for this format (supported: ${this.getSupportedFormats().join(", ")})`,
+      );
+    }
+    const fields = await this.imageMetadata.findDateFields(filePath);
+    if (fields.length === 0) {
+      throw new Error("No EXIF date/time to rewrite");
+    }
+    return fields;
+  }
+
+  private async writeFields(
+    filePath: string,
+    fields: EXIFDateField[],
+  ): Promise<void> {
+    const handle = await fs.open(filePath, "r+");
+    try {
+      for (const field of fields) {
+        await handle.write(
+          Buffer.from(field.value, "ascii"),
+          0,
+          19,
+          field.offset,
+        );
+      }
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * Wall-clock time as UTC milliseconds, so shifting ignores DST changes
+   */
+  private parse(value: string): number {
+    const [, y, mo, d, h, mi, s] = EXIF_DATE.exec(value)!.map(Number);
+    return Date.UTC(y!, mo! - 1, d!, h!, mi!, s!);
+  }
+
+  private format(date: Date): string {
+    const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+    return (
+      `${pad(date.getUTCFullYear(), 4)}:${pad(date.getUTCMonth() + 1)}:${pad(date.getUTCDate())} ` +
+      `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`
+    );
+  }
+
+  /** Same local-time reading as ImageMetadataService */
+  private toLocalDate(value: string): Date {
+    const [, y, mo, d, h, mi, s] = EXIF_DATE.exec(value)!.map(Number);
+    return new Date(y!, mo! - 1, d!, h!, mi!, s!);
+  }
+}
+
+export const exifDateWriterService = new ExifDateWriterService();
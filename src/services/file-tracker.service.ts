@@ -9,10 +9,12 @@ import fs from "fs/promises";
 import fsSync from "fs";
 import path from "path";
 import { logger } from "../utils/logger.js";
+import type { UserConfig } from "../config.js";
 
 interface FileTrackerConfig {
   debounceTime: number;
-  rules: unknown[];
+  /** Same shape as user config rules (see parseOrganizationRules) */
+  rules: NonNullable<UserConfig["rules"]>;
   [key: string]: unknown;
 }
 
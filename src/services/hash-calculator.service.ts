@@ -4,6 +4,7 @@
  */
 
 import fs from "fs/promises";
+import path from "path";
 import { createReadStream, type ReadStream } from "fs";
 import { pipeline } from "stream/promises";
 import crypto from "crypto";
@@ -11,16 +12,51 @@ import type { FileWithSize, DuplicateGroup } from "../types.js";
 import { CONFIG } from "../config.js";
 import { formatBytes } from "../utils/formatters.js";
 import { logger } from "../utils/logger.js";
+import {
+  MetadataCacheService,
+  type ContentHashEntry,
+} from "./metadata-cache.service.js";
+
+/** Bytes hashed from each end of a file in the partial-hash stage */
+export const PARTIAL_HASH_BYTES = 64 * 1024;
+
+const PARTIAL_HASH_KIND = "sha256-partial";
+const FULL_HASH_KIND = "sha256";
+const DEFAULT_HASH_CONCURRENCY = 4;
+const DEFAULT_DUPLICATE_TIMEOUT_MS = 5 * 60 * 1000;
+
+export interface FindDuplicatesOptions {
+  /** Overall time limit (default 5 minutes); hashes computed so far are still cached */
+  timeoutMs?: number;
+  /** Files hashed in parallel (default 4) */
+  concurrency?: number;
+  /** Read and write the persistent hash cache (default true) */
+  useCache?: boolean;
+}
+
+/**
+ * Shared persistent cache of content hashes, kept apart from the metadata
+ * cache so large shares do not evict extracted metadata
+ */
+const sharedHashCache = new MetadataCacheService({
+  cacheDir: path.join(process.cwd(), ".cache", "hashes"),
+  maxEntries: 200000,
+});
 
 /**
  * Hash Calculator Service - file hashing and duplicate detection
  */
 export class HashCalculatorService {
   private readonly maxFileSize: number;
+  private readonly hashCache: MetadataCacheService;
 
-  constructor(maxFileSize = 100 * 1024 * 1024) {
+  constructor(
+    maxFileSize = 100 * 1024 * 1024,
+    hashCache: MetadataCacheService = sharedHashCache,
+  ) {
     // 100MB default
     this.maxFileSize = maxFileSize;
+    this.hashCache = hashCache;
   }
 
   /**
@@ -84,47 +120,91 @@ export class HashCalculatorService {
   }
 
   /**
-   * Find duplicate files based on content hash
+   * Find duplicate files based on content hash.
+   *
+   * Staged so that most files are never read in full: files are grouped by
+   * size, same-size files are compared by a hash of their first and last
+   * 64KB, and only files that still collide get a full SHA-256. Hashes are
+   * cached by path, size and mtime, so rescans only read changed files.
+   * Files above the size cap are hashed in chunks rather than skipped.
    */
   async findDuplicates(
     files: FileWithSize[],
-    options: { timeoutMs?: number } = {},
+    options: FindDuplicatesOptions = {},
   ): Promise<DuplicateGroup[]> {
-    const hashMap: Record<string, FileWithSize[]> = {};
-    const startTime = Date.now();
-    const timeoutMs = options.timeoutMs ?? 30000; // 30s default timeout
+    const timeoutMs = options.timeoutMs ?? DEFAULT_DUPLICATE_TIMEOUT_MS;
+    const concurrency = Math.max(
+      1,
+      options.concurrency ?? DEFAULT_HASH_CONCURRENCY,
+    );
+    const cache = options.useCache === false ? null : this.hashCache;
+    const deadline = Date.now() + timeoutMs;
+    const pending = {
+      partial: [] as ContentHashEntry[],
+      full: [] as ContentHashEntry[],
+    };
+    let processed = 0;
 
-    for (const file of files) {
-      // Check timeout
-      if (Date.now() - startTime > timeoutMs) {
+    const checkDeadline = () => {
+      if (Date.now() > deadline) {
         throw new Error(
-          `Duplicate analysis timed out after ${timeoutMs}ms. Processed ${Object.keys(hashMap).length} files.`,
+          `Duplicate analysis timed out after ${timeoutMs}ms. Processed ${processed} files.`,
         );
       }
+    };
 
-      try {
-        if (file.size > this.maxFileSize) {
-          logger.warn(
-            `Skipping large file: ${file.name} (${formatBytes(file.size)})`,
+    // Stage 1: only files sharing a size can be identical
+    const sameSize = this.groupBy(files, (file) => String(file.size));
+
+    try {
+      // Stage 2: hash the head and tail of each same-size candidate
+      const partialHashes = await this.mapConcurrent(
+        sameSize.flat(),
+        concurrency,
+        async (file) => {
+          checkDeadline();
+          const hash = await this.cachedHash(
+            file,
+            PARTIAL_HASH_KIND,
+            cache,
+            pending.partial,
           );
-          continue;
-        }
+          processed++;
+          return hash;
+        },
+      );
+      const samePartial = this.groupBy(
+        sameSize.flat().filter((file) => partialHashes.has(file.path)),
+        (file) => `${file.size}:${partialHashes.get(file.path)}`,
+      );
 
-        const hash = await this.calculateHash(file.path);
-        if (!hashMap[hash]) {
-          hashMap[hash] = [];
-        }
-        hashMap[hash].push(file);
-      } catch (error) {
-        logger.error(`Error hashing ${file.name}: ${(error as Error).message}`);
-      }
-    }
+      // Stage 3: full hash for files that still collide. Small files were
+      // read completely in stage 2, so their partial hash is already exact.
+      const fullHashes = await this.mapConcurrent(
+        samePartial.flat(),
+        concurrency,
+        async (file) => {
+          if (file.size <= PARTIAL_HASH_BYTES * 2) {
+            return partialHashes.get(file.path);
+          }
+          checkDeadline();
+          if (file.size > this.maxFileSize) {
+            logger.debug(
+              `Hashing large file in chunks: ${file.name} (${formatBytes(file.size)})`,
+            );
+          }
+          return this.cachedHash(file, FULL_HASH_KIND, cache, pending.full);
+        },
+      );
 
-    // Filter only duplicates and format
-    return Object.entries(hashMap)
-      .filter(([_, group]) => group.length > 1)
-      .map(([hash, group]) => ({
-        hash,
+      // Preserve the input order of files within and across groups
+      const byHash = this.groupBy(
+        files.filter((file) => fullHashes.has(file.path)),
+        (file) => fullHashes.get(file.path)!,
+      );
+
+      return byHash.map((group) => ({
+        hash: fullHashes.get(group[0]!.path)!,
         count: group.length,
         size: formatBytes(group[0]?.size ?? 0),
         size_bytes: group[0]?.size ?? 0,
@@ -135,5 +215,139 @@ export class HashCalculatorService {
           modified: f.modified,
         })),
       }));
+    } finally {
+      // Keep computed hashes even when the run times out, so the next scan resumes
+      if (cache) {
+        try {
+          await cache.setContentHashes(PARTIAL_HASH_KIND, pending.partial);
+          await cache.setContentHashes(FULL_HASH_KIND, pending.full);
+        } catch (error) {
+          logger.warn(
+            `Failed to persist hash cache: ${(error as Error).message}`,
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Hash a file (partial or full), using the cache when the file is unchanged.
+   * Returns undefined when the file cannot be read.
+   */
+  private async cachedHash(
+    file: FileWithSize,
+    kind: typeof PARTIAL_HASH_KIND | typeof FULL_HASH_KIND,
+    cache: MetadataCacheService | null,
+    pending: ContentHashEntry[],
+  ): Promise<string | undefined> {
+    try {
+      const stats = await fs.stat(file.path);
+      const cached = await cache?.getContentHash(
+        kind,
+        file.path,
+        stats.size,
+        stats.mtimeMs,
+      );
+      if (cached) return cached;
+
+      const hash =
+        kind === PARTIAL_HASH_KIND
+          ? await this.calculatePartialHash(file.path, stats.size)
+          : await this.calculateChunkedHash(file.path);
+      pending.push({
+        filePath: file.path,
+        size: stats.size,
+        mtimeMs: stats.mtimeMs,
+        hash,
+      });
+      return hash;
+    } catch (error) {
+      logger.error(`Error hashing ${file.name}: ${(error as Error).message}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * SHA-256 of the first and last 64KB. Files up to 128KB are read whole,
+   * which makes the result their full content hash.
+   */
+  private async calculatePartialHash(
+    filePath: string,
+    size: number,
+  ): Promise<string> {
+    const handle = await fs.open(filePath, "r");
+    try {
+      const hash = crypto.createHash("sha256");
+      if (size <= PARTIAL_HASH_BYTES * 2) {
+        hash.update(await handle.readFile());
+      } else {
+        const buffer = Buffer.alloc(PARTIAL_HASH_BYTES);
+        await handle.read(buffer, 0, PARTIAL_HASH_BYTES, 0);
+        hash.update(buffer);
+        await handle.read(
+          buffer,
+          0,
+          PARTIAL_HASH_BYTES,
+          size - PARTIAL_HASH_BYTES,
+        );
+        hash.update(buffer);
+      }
+      return hash.digest("hex");
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * Full SHA-256 streamed in 1MB chunks, without the size cap
+   */
+  private async calculateChunkedHash(filePath: string): Promise<string> {
+    const hash = crypto.createHash("sha256");
+    await pipeline(
+      createReadStream(filePath, { highWaterMark: 1024 * 1024 }),
+      hash,
+    );
+    return hash.digest("hex");
+  }
+
+  /**
+   * Run an async function over items with at most `limit` in flight.
+   * Results are keyed by file path; undefined results are dropped.
+   */
+  private async mapConcurrent(
+    items: FileWithSize[],
+    limit: number,
+    fn: (item: FileWithSize) => Promise<string | undefined>,
+  ): Promise<Map<string, string>> {
+    const results = new Map<string, string>();
+    let next = 0;
+    const worker = async () => {
+      while (next < items.length) {
+        const item = items[next++]!;
+        const value = await fn(item);
+        if (value !== undefined) results.set(item.path, value);
+      }
+    };
+    await Promise.all(
+      Array.from({ length: Math.min(limit, items.length) }, worker),
+    );
+    return results;
+  }
+
+  /**
+   * Group items by key, keeping only groups with more than one member
+   */
+  private groupBy(
+    items: FileWithSize[],
+    key: (item: FileWithSize) => string,
+  ): FileWithSize[][] {
+    const groups = new Map<string, FileWithSize[]>();
+    for (const item of items) {
+      const k = key(item);
+      const group = groups.get(k);
+      if (group) group.push(item);
+      else groups.set(k, [item]);
+    }
+    return [...groups.values()].filter((group) => group.length > 1);
   }
 }
@@ -29,6 +29,7 @@ const EXIF_TAGS = {
   ISO_SPEED_RATINGS: 0x8827,
   DATE_TIME_ORIGINAL: 0x9003,
   DATE_TIME_DIGITIZED: 0x9004,
+  SUB_SEC_TIME_ORIGINAL: 0x9291,
   COMPRESSED_BITS_PER_PIXEL: 0x9102,
   SHUTTER_SPEED_VALUE: 0x9201,
   APERTURE_VALUE: 0x9202,
@@ -51,19 +52,49 @@ const EXIF_TAGS = {
   GPS_DATE_STAMP: 0x001d,
 } as const;
 
-// Image formats and their magic bytes
-const IMAGE_FORMATS: Record<string, { magic: number[]; extensions: string[] }> =
-  {
-    jpeg: { magic: [0xff, 0xd8, 0xff], extensions: [".jpg", ".jpeg"] },
-    png: { magic: [0x89, 0x50, 0x4e, 0x47], extensions: [".png"] },
-    tiff_be: { magic: [0x4d, 0x4d], extensions: [".tif", ".tiff"] },
-    tiff_le: { magic: [0x49, 0x49], extensions: [".tif", ".tiff"] },
-    webp: { magic: [0x52, 0x49, 0x46, 0x46], extensions: [".webp"] },
-    heic: {
-      magic: [0x00, 0x00, 0x00, 0x18, 0x66, 0x74, 0x79, 0x70],
-      extensions: [".heic", ".heif"],
-    },
-  };
+// Camera RAW formats built on TIFF (Canon, Nikon, Sony, Adobe, Olympus,
+// Panasonic, Pentax, Samsung); their IFD0 carries the usual EXIF pointers
+export const TIFF_RAW_EXTENSIONS = [
+  ".cr2",
+  ".nef",
+  ".nrw",
+  ".arw",
+  ".sr2",
+  ".dng",
+  ".orf",
+  ".rw2",
+  ".pef",
+  ".srw",
+];
+
+// Image formats and their magic bytes (at `offset`, default 0)
+const IMAGE_FORMATS: Record<
+  string,
+  { magic: number[]; offset?: number; extensions: string[] }
+> = {
+  jpeg: { magic: [0xff, 0xd8, 0xff], extensions: [".jpg", ".jpeg"] },
+  png: { magic: [0x89, 0x50, 0x4e, 0x47], extensions: [".png"] },
+  tiff_be: {
+    magic: [0x4d, 0x4d],
+    extensions: [".tif", ".tiff", ...TIFF_RAW_EXTENSIONS],
+  },
+  tiff_le: {
+    magic: [0x49, 0x49],
+    extensions: [".tif", ".tiff", ...TIFF_RAW_EXTENSIONS],
+  },
+  webp: { magic: [0x52, 0x49, 0x46, 0x46], extensions: [".webp"] },
+  // ISO-BMFF "ftyp" box; the box size in front of it varies by encoder
+  heic: {
+    magic: [0x66, 0x74, 0x79, 0x70],
+    offset: 4,
+    extensions: [".heic", ".heif"],
+  },
+};
+
+/** Largest EXIF block read from a WebP chunk or HEIF item */
+const MAX_EXIF_SIZE = 1024 * 1024;
+/** Largest HEIF meta box read into memory */
+const MAX_HEIF_META_SIZE = 4 * 1024 * 1024;
 
 export interface ImageMetadata {
   filePath: string;
@@ -124,6 +155,16 @@ export interface ImageMetadata {
   extractedAt: Date;
 }
 
+/**
+ * An EXIF date/time string and its position in the file
+ */
+export interface EXIFDateField {
+  tag: "DateTime" | "DateTimeOriginal" | "DateTimeDigitized";
+  /** File offset of the 19-character "YYYY:MM:DD HH:MM:SS" value */
+  offset: number;
+  value: string;
+}
+
 export interface ProgressUpdate {
   processed: number;
   total: number;
@@ -163,9 +204,12 @@ export class ImageMetadataService {
     "jpg",
     "jpeg",
     "tiff",
+    "tif",
     "png",
     "webp",
     "heic",
+    "heif",
+    ...TIFF_RAW_EXTENSIONS.map((ext) => ext.slice(1)),
   ];
 
   /**
@@ -215,9 +259,16 @@ export class ImageMetadataService {
       const buffer = await this.readImageFile(filePath);
       const format = this.detectImageFormat(buffer);
 
+      // RAW files parse as TIFF but keep their own format name
+      const ext = path.extname(filePath).toLowerCase();
+      const formatName =
+        format === "tiff" && TIFF_RAW_EXTENSIONS.includes(ext)
+          ? ext.slice(1).toUpperCase()
+          : this.formatFormatName(format);
+
       const baseMetadata: ImageMetadata = {
         filePath,
-        format: this.formatFormatName(format),
+        format: formatName,
         hasGPS: false,
         extractedAt,
       };
@@ -239,9 +290,10 @@ export class ImageMetadataService {
         return result;
       }
 
-      if (format === "jpeg" || format === "jpg") {
-        return await this.parseJPEGMetadata(
+      if (format !== "png") {
+        return await this.parseEXIFMetadata(
           buffer,
+          format,
           filePath,
           baseMetadata,
           options,
@@ -389,6 +441,70 @@ export class ImageMetadataService {
     }
   }
 
+  /**
+   * Locate the date/time strings of a JPEG or TIFF-based file (including
+   * RAW) so they can be rewritten in place. Other formats yield no fields.
+   */
+  async findDateFields(filePath: string): Promise<EXIFDateField[]> {
+    const buffer = await this.readImageFile(filePath);
+    const format = this.detectImageFormat(buffer);
+
+    let tiffStart: number;
+    if (format === "jpeg") {
+      const exifData = this.findEXIFSegment(buffer);
+      if (!exifData) return [];
+      tiffStart = exifData.tiffHeaderOffset;
+    } else if (format === "tiff") {
+      tiffStart = 0;
+    } else {
+      return [];
+    }
+
+    const tiff = buffer.subarray(tiffStart);
+    if (tiff.length < 8) return [];
+    const isLittleEndian = this.isLittleEndian(tiff, 0);
+    const ifd0Offset = isLittleEndian
+      ? tiff.readUInt32LE(4)
+      : tiff.readUInt32BE(4);
+    const ifd0 = this.parseIFD(tiff, ifd0Offset, isLittleEndian, 0);
+
+    const candidates: [EXIFDateField["tag"], EXIFValue | undefined][] = [
+      ["DateTime", ifd0.entries.get(EXIF_TAGS.DATE_TIME)],
+    ];
+    const exifIFDOffset = this.getNumericValue(
+      ifd0.entries.get(EXIF_TAGS.EXIF_IFD_POINTER),
+    );
+    if (exifIFDOffset) {
+      const exifIFD = this.parseIFD(tiff, exifIFDOffset, isLittleEndian, 0);
+      candidates.push(
+        ["DateTimeOriginal", exifIFD.entries.get(EXIF_TAGS.DATE_TIME_ORIGINAL)],
+        [
+          "DateTimeDigitized",
+          exifIFD.entries.get(EXIF_TAGS.DATE_TIME_DIGITIZED),
+        ],
+      );
+    }
+
+    return candidates.flatMap(([tag, entry]) => {
+      // 19 characters plus NUL never fit inside the entry itself
+      if (
+        !entry ||
+        entry.type !== 2 ||
+        entry.count < 20 ||
+        entry.valueOffset + 19 > tiff.length
+      ) {
+        return [];
+      }
+      const value = tiff.toString(
+        "ascii",
+        entry.valueOffset,
+        entry.valueOffset + 19,
+      );
+      if (!this.parseEXIFDate(value)) return [];
+      return [{ tag, offset: tiffStart + entry.valueOffset, value }];
+    });
+  }
+
   /**
    * Create a copy of the image with GPS data stripped
    */
@@ -504,7 +620,7 @@ export class ImageMetadataService {
    */
   private detectImageFormat(buffer: Buffer): string {
     for (const [format, info] of Object.entries(IMAGE_FORMATS)) {
-      if (this.matchesMagic(buffer, info.magic)) {
+      if (this.matchesMagic(buffer, info.magic, info.offset)) {
         return format === "tiff_be" || format === "tiff_le" ? "tiff" : format;
       }
     }
@@ -516,9 +632,9 @@ export class ImageMetadataService {
   /**
    * Check if magic bytes match
    */
-  private matchesMagic(buffer: Buffer, magic: number[]): boolean {
-    if (buffer.length < magic.length) return false;
-    return magic.every((byte, index) => buffer[index] === byte);
+  private matchesMagic(buffer: Buffer, magic: number[], offset = 0): boolean {
+    if (buffer.length < offset + magic.length) return false;
+    return magic.every((byte, index) => buffer[offset + index] === byte);
   }
 
   /**
@@ -538,28 +654,31 @@ export class ImageMetadataService {
    * Check if format is supported for detailed EXIF parsing
    */
   private isDetailedParsingSupported(format: string): boolean {
-    return ["jpg", "jpeg", "tiff", "png"].includes(format);
+    return ["jpg", "jpeg", "tiff", "png", "webp", "heic"].includes(format);
   }
 
   /**
-   * Parse JPEG metadata including EXIF
+   * Parse EXIF metadata of JPEG, TIFF/RAW, WebP and HEIC images
    */
-  private async parseJPEGMetadata(
-    buffer: Buffer,
+  private async parseEXIFMetadata(
+    fileBuffer: Buffer,
+    format: string,
     filePath: string,
     baseMetadata: ImageMetadata,
     options: ImageMetadataOptions,
   ): Promise<ImageMetadata> {
     try {
-      const exifData = this.findEXIFSegment(buffer);
+      const tiff = await this.locateEXIF(fileBuffer, format, filePath);
 
       // Build metadata
       const metadata: ImageMetadata = { ...baseMetadata };
 
       // Check for thumbnail in EXIF
-      metadata.hasThumbnail = this.hasThumbnailSegment(buffer);
+      if (format === "jpeg") {
+        metadata.hasThumbnail = this.hasThumbnailSegment(fileBuffer);
+      }
 
-      if (!exifData) {
+      if (!tiff) {
         // No EXIF data, try to get file stats
         const stats = await fs.stat(filePath).catch(() => null);
         if (stats) {
@@ -590,20 +709,17 @@ export class ImageMetadataService {
 
       // Has EXIF data
       metadata.hasEXIF = true;
+      // All offsets are relative to the start of the TIFF block
+      const buffer = tiff;
 
       // Parse TIFF header
-      const isLittleEndian = this.isLittleEndian(
-        buffer,
-        exifData.tiffHeaderOffset,
-      );
+      const isLittleEndian = this.isLittleEndian(buffer, 0);
 
       // Parse IFD0
-      const ifd0 = this.parseIFD(
-        buffer,
-        exifData.tiffHeaderOffset,
-        isLittleEndian,
-        exifData.tiffHeaderOffset,
-      );
+      const ifd0Offset = isLittleEndian
+        ? buffer.readUInt32LE(4)
+        : buffer.readUInt32BE(4);
+      const ifd0 = this.parseIFD(buffer, ifd0Offset, isLittleEndian, 0);
 
       // Extract basic tags from IFD0
       metadata.width = this.getNumericValue(
@@ -657,7 +773,7 @@ export class ImageMetadataService {
             buffer,
             exifIFDOffset,
             isLittleEndian,
-            exifData.tiffHeaderOffset,
+            0,
           );
 
           metadata.iso = this.getNumericValue(
@@ -709,6 +825,19 @@ export class ImageMetadataService {
           if (dateOriginal) {
             metadata.dateTaken = this.parseEXIFDate(dateOriginal);
           }
+
+          // Fractional seconds, needed to tell burst shots apart
+          const subSec = this.getStringValue(
+            exifIFD.entries.get(EXIF_TAGS.SUB_SEC_TIME_ORIGINAL),
+            buffer,
+            isLittleEndian,
+          )?.trim();
+          if (metadata.dateTaken && subSec && /^\d+$/.test(subSec)) {
+            metadata.dateTaken = new Date(
+              metadata.dateTaken.getTime() +
+                Math.round(parseFloat(`0.${subSec}`) * 1000),
+            );
+          }
         }
       }
 
@@ -722,12 +851,7 @@ export class ImageMetadataService {
       if (gpsIFDPointer && options.stripGPS !== true) {
         const gpsIFDOffset = this.getNumericValue(gpsIFDPointer);
         if (gpsIFDOffset) {
-          const gpsIFD = this.parseIFD(
-            buffer,
-            gpsIFDOffset,
-            isLittleEndian,
-            exifData.tiffHeaderOffset,
-          );
+          const gpsIFD = this.parseIFD(buffer, gpsIFDOffset, isLittleEndian, 0);
           const gpsData = this.parseGPSData(gpsIFD, buffer, isLittleEndian);
 
           if (
@@ -877,6 +1001,260 @@ export class ImageMetadataService {
     return false;
   }
 
+  /**
+   * Find the TIFF block holding the EXIF tags of an image
+   */
+  private async locateEXIF(
+    buffer: Buffer,
+    format: string,
+    filePath: string,
+  ): Promise<Buffer | null> {
+    let tiff: Buffer | null;
+    switch (format) {
+      case "jpeg": {
+        const exifData = this.findEXIFSegment(buffer);
+        tiff = exifData && buffer.subarray(exifData.tiffHeaderOffset);
+        break;
+      }
+      case "tiff":
+        // TIFF and TIFF-based RAW files are the EXIF structure themselves
+        tiff = buffer;
+        break;
+      case "webp":
+        tiff = await this.findWebPEXIF(filePath);
+        break;
+      case "heic":
+        tiff = await this.findHEIFEXIF(filePath);
+        break;
+      default:
+        return null;
+    }
+
+    if (!tiff || tiff.length < 8) return null;
+    const byteOrder = tiff.toString("ascii", 0, 2);
+    if (byteOrder !== "II" && byteOrder !== "MM") return null;
+    return tiff;
+  }
+
+  /**
+   * Read the EXIF chunk of a WebP file. Encoders write it after the image
+   * data, so chunk headers are walked on disk instead of in the read buffer.
+   */
+  private async findWebPEXIF(filePath: string): Promise<Buffer | null> {
+    const handle = await fs.open(filePath, "r");
+    try {
+      const { size } = await handle.stat();
+      const header = Buffer.alloc(8);
+      // RIFF header (12 bytes), then chunks padded to an even size
+      let offset = 12;
+      while (offset + 8 <= size) {
+        await handle.read(header, 0, 8, offset);
+        const chunkSize = header.readUInt32LE(4);
+        if (header.toString("ascii", 0, 4) === "EXIF") {
+          if (chunkSize > MAX_EXIF_SIZE) return null;
+          const chunk = Buffer.alloc(chunkSize);
+          const { bytesRead } = await handle.read(
+            chunk,
+            0,
+            chunkSize,
+            offset + 8,
+          );
+          // Some writers keep the JPEG "Exif\0\0" identifier
+          const start = chunk.toString("ascii", 0, 6) === "Exif\0\0" ? 6 : 0;
+          return chunk.subarray(start, bytesRead);
+        }
+        offset += 8 + chunkSize + (chunkSize & 1);
+      }
+      return null;
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * Read the Exif item of a HEIF/HEIC file: find its ID in the meta box's
+   * item info (iinf), then read its extents from the item locations (iloc)
+   */
+  private async findHEIFEXIF(filePath: string): Promise<Buffer | null> {
+    const handle = await fs.open(filePath, "r");
+    try {
+      const { size } = await handle.stat();
+      const meta = await this.readTopLevelBox(handle, size, "meta");
+      if (!meta || meta.length < 4) return null;
+
+      // meta is a full box: skip version and flags
+      const boxes = new Map<string, Buffer>();
+      for (const box of this.boxChildren(meta, 4, meta.length)) {
+        boxes.set(box.type, meta.subarray(box.start, box.end));
+      }
+      const iinf = boxes.get("iinf");
+      const iloc = boxes.get("iloc");
+      if (!iinf || !iloc) return null;
+
+      const itemId = this.findHEIFItem(iinf, "Exif");
+      if (itemId === undefined) return null;
+      const location = this.findHEIFItemLocation(iloc, itemId);
+      if (!location) return null;
+
+      const parts: Buffer[] = [];
+      let total = 0;
+      for (const extent of location.extents) {
+        const offset = location.baseOffset + extent.offset;
+        total += extent.length;
+        if (total > MAX_EXIF_SIZE) return null;
+        if (location.constructionMethod === 1) {
+          // Offsets into the idat box of the meta box
+          const idat = boxes.get("idat");
+          if (!idat) return null;
+          parts.push(idat.subarray(offset, offset + extent.length));
+        } else if (location.constructionMethod === 0) {
+          const part = Buffer.alloc(extent.length);
+          const { bytesRead } = await handle.read(
+            part,
+            0,
+            extent.length,
+            offset,
+          );
+          parts.push(part.subarray(0, bytesRead));
+        } else {
+          return null;
+        }
+      }
+
+      // The item starts with the offset of the TIFF header past this field
+      const item = Buffer.concat(parts);
+      if (item.length < 4) return null;
+      return item.subarray(4 + item.readUInt32BE(0));
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * Walk the top-level ISO-BMFF boxes on disk and load the body of one
+   */
+  private async readTopLevelBox(
+    handle: fs.FileHandle,
+    size: number,
+    type: string,
+  ): Promise<Buffer | null> {
+    const header = Buffer.alloc(16);
+    let offset = 0;
+    while (offset + 8 <= size) {
+      await handle.read(header, 0, 16, offset);
+      let boxSize = header.readUInt32BE(0);
+      let headerSize = 8;
+      if (boxSize === 1) {
+        boxSize = Number(header.readBigUInt64BE(8));
+        headerSize = 16;
+      } else if (boxSize === 0) {
+        boxSize = size - offset;
+      }
+      if (boxSize < headerSize) return null;
+
+      if (header.toString("latin1", 4, 8) === type) {
+        const bodySize = boxSize - headerSize;
+        if (bodySize > MAX_HEIF_META_SIZE) return null;
+        const body = Buffer.alloc(bodySize);
+        const { bytesRead } = await handle.read(
+          body,
+          0,
+          bodySize,
+          offset + headerSize,
+        );
+        return body.subarray(0, bytesRead);
+      }
+      offset += boxSize;
+    }
+    return null;
+  }
+
+  /** Child boxes of the range [start, end) */
+  private *boxChildren(
+    buffer: Buffer,
+    start: number,
+    end: number,
+  ): Generator<{ type: string; start: number; end: number }> {
+    let offset = start;
+    while (offset + 8 <= end) {
+      const size = buffer.readUInt32BE(offset);
+      const type = buffer.toString("latin1", offset + 4, offset + 8);
+      if (size < 8 || offset + size > end) return;
+      yield { type, start: offset + 8, end: offset + size };
+      offset += size;
+    }
+  }
+
+  /**
+   * ID of the first item of the given type in an iinf box body
+   */
+  private findHEIFItem(iinf: Buffer, itemType: string): number | undefined {
+    const version = iinf[0];
+    const start = version === 0 ? 6 : 8;
+    for (const infe of this.boxChildren(iinf, start, iinf.length)) {
+      if (infe.type !== "infe") continue;
+      const body = iinf.subarray(infe.start, infe.end);
+      // Versions 0 and 1 have no item type
+      if (body[0] === 2 && body.length >= 12) {
+        if (body.toString("latin1", 8, 12) === itemType) {
+          return body.readUInt16BE(4);
+        }
+      } else if (body[0] === 3 && body.length >= 14) {
+        if (body.toString("latin1", 10, 14) === itemType) {
+          return body.readUInt32BE(4);
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Location of an item in an iloc box body
+   */
+  private findHEIFItemLocation(
+    iloc: Buffer,
+    itemId: number,
+  ):
+    | {
+        constructionMethod: number;
+        baseOffset: number;
+        extents: { offset: number; length: number }[];
+      }
+    | undefined {
+    const version = iloc[0]!;
+    const offsetSize = iloc[4]! >> 4;
+    const lengthSize = iloc[4]! & 0x0f;
+    const baseOffsetSize = iloc[5]! >> 4;
+    const indexSize = version === 1 || version === 2 ? iloc[5]! & 0x0f : 0;
+
+    let pos = 6;
+    const readUInt = (bytes: number): number => {
+      let value = 0;
+      for (let i = 0; i < bytes; i++) value = value * 256 + iloc[pos + i]!;
+      pos += bytes;
+      return value;
+    };
+
+    const itemCount = readUInt(version < 2 ? 2 : 4);
+    for (let i = 0; i < itemCount && pos < iloc.length; i++) {
+      const id = readUInt(version < 2 ? 2 : 4);
+      const constructionMethod =
+        version === 1 || version === 2 ? readUInt(2) & 0x0f : 0;
+      readUInt(2); // data_reference_index
+      const baseOffset = readUInt(baseOffsetSize);
+      const extentCount = readUInt(2);
+      const extents: { offset: number; length: number }[] = [];
+      for (let e = 0; e < extentCount; e++) {
+        readUInt(indexSize);
+        const offset = readUInt(offsetSize);
+        const length = readUInt(lengthSize);
+        extents.push({ offset, length });
+      }
+      if (id === itemId) return { constructionMethod, baseOffset, extents };
+    }
+    return undefined;
+  }
+
   /**
    * Find EXIF segment in JPEG
    */
@@ -1004,8 +1382,13 @@ export class ImageMetadataService {
 
     if (length <= 4) {
       // Value fits in the valueOffset field
+      // Restore the bytes in file order
       const bytes = Buffer.alloc(4);
-      bytes.writeUInt32BE(entry.valueOffset, 0);
+      if (isLittleEndian) {
+        bytes.writeUInt32LE(entry.valueOffset, 0);
+      } else {
+        bytes.writeUInt32BE(entry.valueOffset, 0);
+      }
       str = bytes.toString("ascii", 0, length - 1); // -1 to remove null terminator
     } else {
       // Value is at offset
@@ -1056,7 +1439,15 @@ export class ImageMetadataService {
     let numerator: number;
     let denominator: number;
 
-    if (isLittleEndian) {
+    // SRATIONAL (type 10) is signed, e.g. negative exposure compensation
+    if (entry.type === 10) {
+      numerator = isLittleEndian
+        ? buffer.readInt32LE(offset)
+        : buffer.readInt32BE(offset);
+      denominator = isLittleEndian
+        ? buffer.readInt32LE(offset + 4)
+        : buffer.readInt32BE(offset + 4);
+    } else if (isLittleEndian) {
       numerator = buffer.readUInt32LE(offset);
       denominator = buffer.readUInt32LE(offset + 4);
     } else {
@@ -1188,36 +1579,29 @@ export class ImageMetadataService {
         isLittleEndian,
         3,
       );
-      if (timeParts) {
-        let date = new Date();
-        if (dateStampEntry) {
-          const dateStr = this.getStringValue(
-            dateStampEntry,
-            buffer,
-            isLittleEndian,
-          );
-          if (dateStr) {
-            const dateParts = dateStr.split(":").map(Number);
-            if (dateParts.length >= 3) {
-              const year = dateParts[0]!;
-              const month = dateParts[1]!;
-              const day = dateParts[2]!;
-              date = new Date(year, month - 1, day);
-            }
-          }
-        }
-        if (
-          timeParts[0] !== undefined &&
-          timeParts[1] !== undefined &&
-          timeParts[2] !== undefined
-        ) {
-          date.setHours(
+      // GPS time is UTC and only a point in time together with the date
+      const dateStr =
+        dateStampEntry &&
+        this.getStringValue(dateStampEntry, buffer, isLittleEndian);
+      const dateParts = dateStr?.split(":").map(Number) ?? [];
+      if (
+        timeParts &&
+        dateParts.length >= 3 &&
+        timeParts[0] !== undefined &&
+        timeParts[1] !== undefined &&
+        timeParts[2] !== undefined
+      ) {
+        const date = new Date(
+          Date.UTC(
+            dateParts[0]!,
+            dateParts[1]! - 1,
+            dateParts[2]!,
             Math.floor(timeParts[0]),
             Math.floor(timeParts[1]),
             Math.floor(timeParts[2]),
-          );
-        }
-        result.timestamp = date;
+          ),
+        );
+        if (!isNaN(date.getTime())) result.timestamp = date;
       }
     }
 
@@ -10,6 +10,8 @@ export * from "./hash-calculator.service.js";
 export * from "./categorizer.service.js";
 export * from "./organizer.service.js";
 export * from "./duplicate-finder.service.js";
+export * from "./perceptual-hash.service.js";
+export * from "./music-duplicate.service.js";
 export * from "./renaming.service.js";
 export * from "./scheduler-state.service.js";
 export * from "./metadata-cache.service.js";
@@ -18,7 +20,9 @@ export * from "./system-organize.service.js";
 // Content Analysis Services (Phase 2.1)
 export * from "./content-analyzer.service.js";
 export * from "./content-screening.service.js";
+export * from "./signature-rules.service.js";
 export * from "./topic-extractor.service.js";
+export * from "./topic-classifier.service.js";
 
 // Project Detection Services (Phase 3)
 export {
@@ -40,6 +44,9 @@ export {
   type ImageMetadataOptions,
 } from "./image-metadata.service.js";
 export * from "./metadata.service.js";
+export * from "./video-metadata.service.js";
+export * from "./audio-tag-writer.service.js";
+export * from "./audio-tag-editor.service.js";
 
 export {
   TextExtractionService,
@@ -53,12 +60,23 @@ export {
   MusicOrganizerService,
   type MusicOrganizationConfig,
   type MusicOrganizationResult,
+  type InferredTags,
 } from "./music-organizer.service.js";
+export * from "./tag-inference.service.js";
+export * from "./album-grouping.service.js";
+export * from "./reverse-geocoder.service.js";
+export * from "./exif-date-writer.service.js";
+export * from "./clock-offset.service.js";
 export {
   PhotoOrganizerService,
   type PhotoOrganizationConfig,
   type PhotoOrganizationResult,
 } from "./photo-organizer.service.js";
+export {
+  VideoOrganizerService,
+  type VideoOrganizationConfig,
+  type VideoOrganizationResult,
+} from "./video-organizer.service.js";
 
 import { CategorizerService } from "./categorizer.service.js";
 import { OrganizerService } from "./organizer.service.js";
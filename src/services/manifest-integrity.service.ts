@@ -56,6 +56,30 @@ export class ManifestIntegrityService {
     return hmac.digest("hex");
   }
 
+  /**
+   * HMAC for standalone records (e.g. organize journal lines). The record
+   * must not contain its own signature.
+   */
+  computeRecordSignature(record: object): string {
+    const hmac = crypto.createHmac("sha256", this.secretKey);
+    hmac.update(JSON.stringify(record));
+    return hmac.digest("hex");
+  }
+
+  verifyRecord(record: { signature?: string }): ManifestVerificationResult {
+    const { signature, ...unsigned } = record;
+    if (!signature) {
+      return { valid: false, error: "Missing record signature" };
+    }
+    if (this.computeRecordSignature(unsigned) !== signature) {
+      return {
+        valid: false,
+        error: "Record signature mismatch - possible tampering detected",
+      };
+    }
+    return { valid: true };
+  }
+
   verifyManifest(manifest: RollbackManifest): ManifestVerificationResult {
     if (!manifest.version || manifest.version !== "1.0") {
       return { valid: false, error: "Invalid or missing manifest version" };
@@ -34,6 +34,16 @@ function isValidDate(value: unknown): value is Date {
   return value instanceof Date && !isNaN(value.getTime());
 }
 
+/**
+ * A content hash tied to the file state it was computed from
+ */
+export interface ContentHashEntry {
+  filePath: string;
+  size: number;
+  mtimeMs: number;
+  hash: string;
+}
+
 // Extended cache entry for internal use with TTL support
 interface ExtendedCacheEntry {
   value: unknown;
@@ -383,6 +393,72 @@ export class MetadataCacheService {
     return this.isFileStale(entry);
   }
 
+  /**
+   * Get a cached content hash of the given kind (e.g. "sha256") if the file
+   * still has the size and mtime the hash was computed from. The caller
+   * supplies the current stats so a lookup costs no extra stat call.
+   */
+  async getContentHash(
+    kind: string,
+    filePath: string,
+    size: number,
+    mtimeMs: number,
+  ): Promise<string | null> {
+    await this.initialize();
+
+    const entry = this.memoryCache.get(`${kind}:${filePath}`);
+    if (
+      !entry ||
+      typeof entry.value !== "string" ||
+      entry.fileSize !== size ||
+      entry.fileMtime !== mtimeMs
+    ) {
+      this.stats.misses++;
+      return null;
+    }
+
+    this.stats.hits++;
+    return entry.value;
+  }
+
+  /**
+   * Store content hashes in one disk write. Hashes never expire by age;
+   * they are invalidated by a size or mtime change instead.
+   */
+  async setContentHashes(
+    kind: string,
+    entries: ContentHashEntry[],
+  ): Promise<void> {
+    if (entries.length === 0) return;
+    await this.initialize();
+
+    await this.acquireLock(async () => {
+      const now = Date.now();
+      for (const entry of entries) {
+        const key = `${kind}:${entry.filePath}`;
+        // Re-insert so FIFO eviction drops the least recently written hashes
+        this.memoryCache.delete(key);
+        this.memoryCache.set(key, {
+          value: entry.hash,
+          timestamp: now,
+          ttl: null,
+          filePath: entry.filePath,
+          fileMtime: entry.mtimeMs,
+          fileSize: entry.size,
+        });
+      }
+
+      while (this.memoryCache.size > this.maxEntries) {
+        const firstKey = this.memoryCache.keys().next().value;
+        if (firstKey === undefined) break;
+        this.memoryCache.delete(firstKey);
+      }
+
+      this.lastModified = now;
+      await this.saveToDisk();
+    });
+  }
+
   /**
    * Prune expired entries
    */
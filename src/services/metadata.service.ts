@@ -3,11 +3,22 @@ import { createReadStream } from "fs"; // For exif-parser which might need buffe
 import path from "path";
 import { parseFile } from "music-metadata";
 import * as ExifParser from "exif-parser"; // Handle older CJS import style if needed, or stick to import if it supports it. exif-parser is usually CJS.
-import { CategoryName } from "../types.js";
+import { CategoryName, FileWithSize } from "../types.js";
 import { PathValidatorService } from "./path-validator.service.js";
 import { logger } from "../utils/logger.js";
-import { AudioMetadataService } from "./audio-metadata.service.js";
-import { ImageMetadataService } from "./image-metadata.service.js";
+import {
+  getDateTokens,
+  type PathTemplateTokens,
+} from "../utils/path-template.js";
+import {
+  AudioMetadataService,
+  type AudioMetadata,
+} from "./audio-metadata.service.js";
+import {
+  ImageMetadataService,
+  type ImageMetadata,
+} from "./image-metadata.service.js";
+import { VideoMetadataService } from "./video-metadata.service.js";
 
 export interface FileMetadata {
   date?: Date;
@@ -22,11 +33,13 @@ export class MetadataService {
   private pathValidator: PathValidatorService;
   private audioMetadataService: AudioMetadataService;
   private imageMetadataService: ImageMetadataService;
+  private videoMetadataService: VideoMetadataService;
 
   constructor() {
     this.pathValidator = new PathValidatorService();
     this.audioMetadataService = new AudioMetadataService();
     this.imageMetadataService = new ImageMetadataService();
+    this.videoMetadataService = new VideoMetadataService();
   }
 
   /**
@@ -39,7 +52,12 @@ export class MetadataService {
     category: CategoryName,
   ): Promise<FileMetadata> {
     try {
-      if (category === "Images" || category === "Videos") {
+      if (
+        category === "Videos" &&
+        this.videoMetadataService.isFormatSupported(filePath)
+      ) {
+        return await this.getVideoMetadataEnhanced(filePath);
+      } else if (category === "Images" || category === "Videos") {
         return await this.getImageMetadataEnhanced(filePath);
       } else if (category === "Audio") {
         return await this.getAudioMetadataEnhanced(filePath);
@@ -100,6 +118,86 @@ export class MetadataService {
     return subpath;
   }
 
+  /**
+   * Extract the full image or audio metadata record for a file, chosen by
+   * extension. Used by rule conditions (exif.* / id3.* fields).
+   * Returns an empty object for unsupported formats or extraction failures.
+   */
+  async getDetailedMetadata(
+    filePath: string,
+  ): Promise<{ image?: ImageMetadata; audio?: AudioMetadata }> {
+    const ext = path.extname(filePath).toLowerCase().slice(1);
+    try {
+      if (this.imageMetadataService.isFormatSupported(filePath)) {
+        return { image: await this.imageMetadataService.extract(filePath) };
+      }
+      if (this.audioMetadataService.getSupportedFormats().includes(ext)) {
+        return { audio: await this.audioMetadataService.extract(filePath) };
+      }
+    } catch (error) {
+      logger.debug(
+        `Detailed metadata extraction failed for ${filePath}: ${(error as Error).message}`,
+      );
+    }
+    return {};
+  }
+
+  /**
+   * Build the tokens available to destination templates for a file:
+   * name/ext/category, year/month/day (EXIF date taken, or the audio tag
+   * year alone with month and day left missing, or the modification time),
+   * camera and lens info for images, and artist,
+   * album, title, track, disc and genre for audio.
+   */
+  async getTemplateTokens(
+    file: FileWithSize,
+    category: CategoryName,
+  ): Promise<PathTemplateTokens> {
+    const ext = path.extname(file.name);
+    const { image, audio } = await this.getDetailedMetadata(file.path);
+
+    const tokens: PathTemplateTokens = {
+      name: path.basename(file.name, ext),
+      ext,
+      extension: ext.slice(1).toLowerCase(),
+      category,
+      ...getDateTokens(file.modified),
+    };
+
+    if (image) {
+      Object.assign(tokens, getDateTokens(image.dateTaken), {
+        camera_make: image.cameraMake ?? image.camera?.make,
+        camera_model: image.cameraModel ?? image.camera?.model,
+        lens: image.lensModel ?? image.camera?.lens,
+        width: image.width,
+        height: image.height,
+      });
+    }
+
+    if (audio) {
+      Object.assign(tokens, {
+        artist: audio.artist,
+        album_artist: audio.albumArtist ?? audio.artist,
+        album: audio.album,
+        title: audio.title,
+        track: audio.trackNumber,
+        total_tracks: audio.totalTracks,
+        disc: audio.discNumber,
+        total_discs: audio.totalDiscs,
+        genre: audio.genre,
+        composer: audio.composer,
+      });
+      if (audio.year) {
+        // A tag year with the file's month and day would be a made-up date
+        tokens.year = audio.year;
+        tokens.month = undefined;
+        tokens.day = undefined;
+      }
+    }
+
+    return tokens;
+  }
+
   /**
    * Enhanced image metadata extraction using ImageMetadataService
    */
@@ -122,6 +220,16 @@ export class MetadataService {
     return this.getImageMetadata(filePath);
   }
 
+  /**
+   * Recording date of MP4/MOV and Matroska/WebM videos
+   */
+  private async getVideoMetadataEnhanced(
+    filePath: string,
+  ): Promise<FileMetadata> {
+    const videoMetadata = await this.videoMetadataService.extract(filePath);
+    return { date: videoMetadata.dateTaken };
+  }
+
   /**
    * Enhanced audio metadata extraction using AudioMetadataService
    */
@@ -236,15 +344,7 @@ export class MetadataService {
     filePath: string,
     ext: string,
   ): Promise<Record<string, any> | null> {
-    const isImage = [
-      ".jpg",
-      ".jpeg",
-      ".png",
-      ".tiff",
-      ".tif",
-      ".heic",
-      ".heif",
-    ].includes(ext);
+    const isImage = this.imageMetadataService.isFormatSupported(filePath);
     const isAudio = [".mp3", ".flac", ".ogg", ".wav", ".m4a", ".aac"].includes(
       ext,
     );
@@ -262,6 +362,10 @@ export class MetadataService {
                 : undefined,
             width: imageMetadata.width,
             height: imageMetadata.height,
+            exposureCompensation: imageMetadata.exposureCompensation,
+            latitude: imageMetadata.latitude,
+            longitude: imageMetadata.longitude,
+            gpsTimestamp: imageMetadata.gpsTimestamp?.toISOString(),
           };
         }
       } catch (error) {
@@ -273,6 +377,31 @@ export class MetadataService {
       return this.extractImageMetadataLegacy(filePath);
     }
 
+    // Handle video files
+    if (this.videoMetadataService.isFormatSupported(filePath)) {
+      try {
+        const videoMetadata = await this.videoMetadataService.extract(filePath);
+        return {
+          dateTaken: videoMetadata.dateTaken?.toISOString(),
+          device:
+            videoMetadata.make && videoMetadata.model
+              ? `${videoMetadata.make} ${videoMetadata.model}`.trim()
+              : undefined,
+          duration: videoMetadata.duration,
+          width: videoMetadata.width,
+          height: videoMetadata.height,
+          codec: videoMetadata.videoCodec,
+          latitude: videoMetadata.latitude,
+          longitude: videoMetadata.longitude,
+        };
+      } catch (error) {
+        logger.debug(
+          `Video metadata extraction failed for ${filePath}: ${(error as Error).message}`,
+        );
+        return null;
+      }
+    }
+
     // Handle audio files
     if (isAudio) {
       try {
@@ -0,0 +1,144 @@
+/**
+ * File Organizer MCP Server v3.5.0
+ * Music Duplicate Service
+ *
+ * @module services/music-duplicate.service
+ * @description Finds the same recording stored in different formats or
+ * bitrates by comparing normalized artist and title tags plus duration,
+ * since re-encoded audio never matches byte-for-byte.
+ */
+
+import path from "path";
+import type { FileWithSize } from "../types.js";
+import {
+  AudioMetadataService,
+  type AudioMetadata,
+} from "./audio-metadata.service.js";
+import { logger } from "../utils/logger.js";
+
+/** Default allowed duration difference in seconds */
+export const DEFAULT_DURATION_TOLERANCE = 2;
+
+const LOSSLESS_FORMATS = new Set(["FLAC", "WAV", "AIFF", "ALAC", "APE"]);
+
+export interface MusicTrackGroup {
+  /** Normalized "artist - title" the tracks share */
+  key: string;
+  files: FileWithSize[];
+  /** Duration difference to the first track in the group, keyed by path */
+  durationDiffs: Map<string, number>;
+  metadata: Map<string, AudioMetadata>;
+}
+
+export interface FindMatchingTracksOptions {
+  durationTolerance?: number;
+  timeoutMs?: number;
+}
+
+/**
+ * Normalize a tag for comparison: case, accents, punctuation, "feat." credits
+ * and a leading "The" are ignored
+ */
+export function normalizeTag(value: string): string {
+  return value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[([]\s*(?:feat|ft|featuring)\.?\s[^)\]]*[)\]]/g, " ")
+    .replace(/\s(?:feat|ft|featuring)\.?\s.*$/, " ")
+    .replace(/&/g, " and ")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim()
+    .replace(/^the\s+/, "");
+}
+
+/**
+ * Whether the audio format stores samples without lossy compression
+ */
+export function isLosslessFormat(format: string): boolean {
+  return LOSSLESS_FORMATS.has(format.toUpperCase());
+}
+
+export class MusicDuplicateService {
+  private audioMetadata: AudioMetadataService;
+
+  constructor(
+    audioMetadata: AudioMetadataService = new AudioMetadataService(),
+  ) {
+    this.audioMetadata = audioMetadata;
+  }
+
+  /**
+   * Whether the file type can carry the tags used for matching
+   */
+  isSupported(filePath: string): boolean {
+    const ext = path.extname(filePath).toLowerCase().slice(1);
+    return this.audioMetadata.getSupportedFormats().includes(ext);
+  }
+
+  /**
+   * Group tracks with the same normalized artist and title whose durations
+   * are within the tolerance of the group's first track. Tracks without an
+   * artist, title or duration are never grouped.
+   */
+  async findMatchingTracks(
+    files: FileWithSize[],
+    options: FindMatchingTracksOptions = {},
+  ): Promise<MusicTrackGroup[]> {
+    const tolerance = options.durationTolerance ?? DEFAULT_DURATION_TOLERANCE;
+    const timeoutMs = options.timeoutMs ?? 30000;
+    const startTime = Date.now();
+    const groupsByKey = new Map<string, MusicTrackGroup[]>();
+
+    for (const file of files) {
+      if (!this.isSupported(file.path)) continue;
+
+      if (Date.now() - startTime > timeoutMs) {
+        throw new Error(
+          `Music duplicate analysis timed out after ${timeoutMs}ms.`,
+        );
+      }
+
+      const metadata = await this.audioMetadata.extract(file.path);
+      const artist = normalizeTag(metadata.artist ?? "");
+      const title = normalizeTag(metadata.title ?? "");
+      if (!artist || !title || !metadata.duration) {
+        logger.debug(
+          `Skipping track without artist/title/duration: ${file.path}`,
+        );
+        continue;
+      }
+
+      const key = `${artist} - ${title}`;
+      const candidates = groupsByKey.get(key) ?? [];
+      const match = candidates.find((group) => {
+        const reference = group.metadata.get(group.files[0]!.path)!;
+        return Math.abs(reference.duration! - metadata.duration!) <= tolerance;
+      });
+
+      if (match) {
+        const reference = match.metadata.get(match.files[0]!.path)!;
+        match.files.push(file);
+        match.metadata.set(file.path, metadata);
+        match.durationDiffs.set(
+          file.path,
+          Math.abs(reference.duration! - metadata.duration),
+        );
+      } else {
+        candidates.push({
+          key,
+          files: [file],
+          durationDiffs: new Map([[file.path, 0]]),
+          metadata: new Map([[file.path, metadata]]),
+        });
+        groupsByKey.set(key, candidates);
+      }
+    }
+
+    return [...groupsByKey.values()]
+      .flat()
+      .filter((group) => group.files.length > 1);
+  }
+}
+
+export const musicDuplicateService = new MusicDuplicateService();
@@ -10,8 +10,17 @@ import fs from "fs/promises";
 import path from "path";
 import { AudioMetadataService } from "./audio-metadata.service.js";
 import { PathValidatorService } from "./path-validator.service.js";
+import {
+  AlbumGroupingService,
+  type AlbumReport,
+} from "./album-grouping.service.js";
+import {
+  TagInferenceService,
+  type InferableField,
+  type InferredValue,
+} from "./tag-inference.service.js";
 import { logger } from "../utils/logger.js";
-import { isSubPath } from "../utils/file-utils.js";
+import { isSubPath, sanitizeFilename } from "../utils/file-utils.js";
 
 /**
  * Audio metadata structure for music organization
@@ -51,6 +60,26 @@ export interface MusicOrganizationConfig {
   skipIfMissingMetadata?: boolean;
   variousArtistsAlbumName?: string;
   dryRun?: boolean;
+  /** Fill tags missing from the file from its file and folder names */
+  inferMissingTags?: boolean;
+  /** Path patterns for inference, e.g. "{artist}/{album}/{track} - {title}" */
+  inferencePatterns?: string[];
+  /** Inferred values below this confidence (0..1) are not used; default 0.5 */
+  minInferenceConfidence?: number;
+  /**
+   * Group tracks into albums first: unify artist, title and year per album
+   * and put multi-disc sets into "Disc N" folders
+   */
+  groupAlbums?: boolean;
+}
+
+/**
+ * Tags filled in from the path of a file
+ */
+export interface InferredTags {
+  file: string;
+  pattern: string;
+  fields: Partial<Record<InferableField, InferredValue>>;
 }
 
 /**
@@ -64,6 +93,10 @@ export interface MusicOrganizationResult {
   structure: Record<string, string[]>;
   /** Tracks files that were moved (not copied) for rollback support */
   movedFiles: Array<{ originalPath: string; currentPath: string }>;
+  /** Tags inferred from paths, when inferMissingTags is enabled */
+  inferredTags?: InferredTags[];
+  /** Album consistency report, when groupAlbums is enabled */
+  albums?: AlbumReport[];
 }
 
 /**
@@ -74,6 +107,7 @@ interface PlannedOperation {
   destinationPath: string;
   metadata: AudioMetadata;
   skipped?: boolean;
+  inferred?: InferredTags;
 }
 
 /**
@@ -83,6 +117,8 @@ interface PlannedOperation {
 export class MusicOrganizerService {
   private audioMetadataService: AudioMetadataService;
   private pathValidator: PathValidatorService;
+  private tagInference: TagInferenceService;
+  private albumGrouping: AlbumGroupingService;
   private readonly defaultVariousArtistsName = "Various Artists";
   private readonly defaultUnknownArtist = "Unknown Artist";
   private readonly defaultUnknownAlbum = "Unknown Album";
@@ -90,10 +126,14 @@ export class MusicOrganizerService {
   constructor(
     audioMetadataService?: AudioMetadataService,
     pathValidator?: PathValidatorService,
+    tagInference?: TagInferenceService,
+    albumGrouping?: AlbumGroupingService,
   ) {
     this.audioMetadataService =
       audioMetadataService ?? new AudioMetadataService();
     this.pathValidator = pathValidator ?? new PathValidatorService();
+    this.tagInference = tagInference ?? new TagInferenceService();
+    this.albumGrouping = albumGrouping ?? new AlbumGroupingService();
   }
 
   /**
@@ -118,9 +158,17 @@ export class MusicOrganizerService {
 
       // Plan organization
       const operations = await this.planOrganization(audioFiles, config);
+      const albums = config.groupAlbums
+        ? this.applyAlbumGroups(operations, config)
+        : undefined;
 
       // Execute operations
-      const result = await this.executeOperations(operations, config, false);
+      const result = await this.executeOperations(
+        operations,
+        config,
+        config.dryRun ?? false,
+      );
+      if (albums) result.albums = albums;
 
       logger.info("Music organization completed", {
         organized: result.organizedFiles,
@@ -162,7 +210,11 @@ export class MusicOrganizerService {
       await this.validateConfig(config);
       const audioFiles = await this.scanForAudioFiles(config.sourceDir);
       const operations = await this.planOrganization(audioFiles, config);
+      const albums = config.groupAlbums
+        ? this.applyAlbumGroups(operations, config)
+        : undefined;
       const result = await this.executeOperations(operations, config, true);
+      if (albums) result.albums = albums;
 
       logger.info("Music organization preview completed", {
         organized: result.organizedFiles,
@@ -192,30 +244,7 @@ export class MusicOrganizerService {
    * Sanitize filename by removing invalid characters
    */
   sanitizeFilename(filename: string): string {
-    // Remove or replace invalid filename characters
-    // Order matters: first replace > and < with nothing, then other chars with _
-    const sanitized = filename
-      .replace(/[>]/g, "") // Remove > first
-      .replace(/[<]/g, "_") // Replace < with _
-      .replace(/[\/\\:*?"<>|]/g, "_") // Replace rest with _
-      .replace(/[\x00-\x1F]/g, "") // Remove control characters
-      .trim();
-
-    // Prevent Windows reserved names
-    const nameWithoutExt = sanitized.split(".")[0] ?? "";
-    if (/^(CON|PRN|AUX|NUL|COM[1-9]|LPT[1-9])$/i.test(nameWithoutExt)) {
-      // Add underscore BEFORE the extension if there is one
-      const extIndex = sanitized.lastIndexOf(".");
-      if (extIndex > 0) {
-        return (
-          sanitized.substring(0, extIndex) + "_" + sanitized.substring(extIndex)
-        );
-      }
-      return sanitized + "_";
-    }
-
-    // Limit length to avoid path issues
-    return sanitized.substring(0, 200);
+    return sanitizeFilename(filename);
   }
 
   /**
@@ -307,6 +336,14 @@ export class MusicOrganizerService {
     if (!validPatterns.includes(config.filenamePattern)) {
       throw new Error(`Invalid filename pattern: ${config.filenamePattern}`);
     }
+
+    // Validate inference patterns
+    for (const pattern of config.inferencePatterns ?? []) {
+      const problem = this.tagInference.validatePattern(pattern);
+      if (problem) {
+        throw new Error(`Invalid inference pattern: ${problem}`);
+      }
+    }
   }
 
   /**
@@ -357,7 +394,19 @@ export class MusicOrganizerService {
 
     for (const filePath of files) {
       try {
-        const metadata = await this.audioMetadataService.extract(filePath);
+        let metadata: AudioMetadata =
+          await this.audioMetadataService.extract(filePath);
+        let inferred: InferredTags | undefined;
+
+        if (config.inferMissingTags) {
+          inferred = this.inferMissingTags(filePath, metadata, config);
+          if (inferred) {
+            metadata = { ...metadata };
+            for (const [field, { value }] of Object.entries(inferred.fields)) {
+              Object.assign(metadata, { [field]: value });
+            }
+          }
+        }
 
         // Check if we should skip files with missing metadata
         if (config.skipIfMissingMetadata && this.isMetadataMissing(metadata)) {
@@ -367,6 +416,7 @@ export class MusicOrganizerService {
             destinationPath: "",
             metadata,
             skipped: true,
+            inferred,
           });
           continue;
         }
@@ -376,6 +426,7 @@ export class MusicOrganizerService {
           sourcePath: filePath,
           destinationPath,
           metadata,
+          inferred,
         });
       } catch (error) {
         logger.warn(`Failed to extract metadata for ${filePath}`, {
@@ -387,6 +438,87 @@ export class MusicOrganizerService {
     return operations;
   }
 
+  /**
+   * Infer the tags a file lacks from its path below the source directory.
+   * Only fields that are missing and reach the minimum confidence are kept.
+   */
+  private inferMissingTags(
+    filePath: string,
+    metadata: AudioMetadata,
+    config: MusicOrganizationConfig,
+  ): InferredTags | undefined {
+    const inference = this.tagInference.infer(filePath, {
+      patterns: config.inferencePatterns,
+      rootDir: config.sourceDir,
+    });
+    if (!inference) return undefined;
+
+    const minConfidence = config.minInferenceConfidence ?? 0.5;
+    const fields: InferredTags["fields"] = {};
+    for (const [field, inferred] of Object.entries(inference.fields) as [
+      InferableField,
+      InferredValue,
+    ][]) {
+      const current = metadata[field];
+      const missing =
+        current === undefined ||
+        (typeof current === "string" && current.trim() === "");
+      if (missing && inferred.confidence >= minConfidence) {
+        fields[field] = inferred;
+      }
+    }
+
+    if (Object.keys(fields).length === 0) return undefined;
+    return { file: filePath, pattern: inference.pattern, fields };
+  }
+
+  /**
+   * Group planned tracks into albums, give every track of an album the same
+   * artist, title and year and move multi-disc sets into "Disc N" folders.
+   */
+  private applyAlbumGroups(
+    operations: PlannedOperation[],
+    config: MusicOrganizationConfig,
+  ): AlbumReport[] {
+    const planned = operations.filter((op) => !op.skipped);
+    const byPath = new Map(planned.map((op) => [op.sourcePath, op]));
+    const groups = this.albumGrouping.group(
+      planned.map((op) => ({ path: op.sourcePath, metadata: op.metadata })),
+      {
+        variousArtistsName:
+          config.variousArtistsAlbumName || this.defaultVariousArtistsName,
+      },
+    );
+    const discFolders =
+      config.structure === "artist/album" || config.structure === "album";
+
+    return groups.map(({ tracks, ...report }) => {
+      for (const track of tracks) {
+        const operation = byPath.get(track.path)!;
+        operation.metadata = {
+          ...operation.metadata,
+          album: report.album,
+          albumArtist: report.artist ?? operation.metadata.albumArtist,
+          year: report.year ?? operation.metadata.year,
+          discNumber: track.discNumber,
+        };
+        let destinationPath = this.getDestinationPath(
+          operation.metadata,
+          config,
+        );
+        if (discFolders && report.discCount > 1) {
+          destinationPath = path.join(
+            path.dirname(destinationPath),
+            `Disc ${track.discNumber}`,
+            path.basename(destinationPath),
+          );
+        }
+        operation.destinationPath = destinationPath;
+      }
+      return report;
+    });
+  }
+
   /**
    * Check if metadata is essentially missing
    */
@@ -410,6 +542,11 @@ export class MusicOrganizerService {
       structure: {},
       movedFiles: [],
     };
+    if (config.inferMissingTags) {
+      result.inferredTags = operations.flatMap((op) =>
+        op.inferred ? [op.inferred] : [],
+      );
+    }
 
     // Track used paths for collision detection
     const usedPaths = new Set<string>();
@@ -526,7 +663,10 @@ export class MusicOrganizerService {
     metadata: AudioMetadata,
     config: MusicOrganizationConfig,
   ): void {
-    const artist = metadata.artist?.trim() || this.defaultUnknownArtist;
+    const artist =
+      metadata.albumArtist?.trim() ||
+      metadata.artist?.trim() ||
+      this.defaultUnknownArtist;
     const sanitizedArtist = this.sanitizeFilename(artist);
 
     const album = metadata.album?.trim() || this.defaultUnknownAlbum;
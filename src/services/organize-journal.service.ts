@@ -0,0 +1,630 @@
+/**
+ * File Organizer MCP Server v3.5.0
+ * Organize Journal Service
+ *
+ * Write-ahead journal for organize runs. The planned moves are persisted
+ * before any file is touched and every finished step is appended, so a run
+ * that is killed half way can be resumed or rolled back after a restart.
+ */
+
+import fs from "fs/promises";
+import { constants } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+
+import type {
+  InterruptedJournal,
+  JournalRecord,
+  RollbackAction,
+} from "../types.js";
+import { fileExists } from "../utils/file-utils.js";
+import { isErrnoException } from "../utils/error-handler.js";
+import { logger } from "../utils/logger.js";
+import { manifestIntegrityService } from "./manifest-integrity.service.js";
+import { HashCalculatorService } from "./hash-calculator.service.js";
+import { PathValidatorService } from "./path-validator.service.js";
+import { RollbackService, type RollbackResult } from "./rollback.service.js";
+
+const JOURNAL_EXTENSION = ".journal";
+
+const JOURNAL_ID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Journals being written by organize runs in this process
+const activeJournals = new Set<string>();
+
+/**
+ * What resuming a pending step does (or would do, on a dry run)
+ * - move / copy: the step had not started and is carried out now
+ * - finish_move: the file was copied but the source not yet removed
+ * - already_done: the destination exists and the source is gone
+ * - missing: neither the source nor the destination exists
+ */
+export type JournalResumeOutcome =
+  "move" | "copy" | "finish_move" | "already_done" | "missing";
+
+export interface JournalResumeStep {
+  index: number;
+  type: RollbackAction["type"];
+  from: string;
+  to: string;
+  outcome: JournalResumeOutcome;
+  error?: string;
+}
+
+export interface JournalResumeResult {
+  journalId: string;
+  dryRun: boolean;
+  manifestId?: string;
+  /** Pending steps carried out (or finished) by this call */
+  resumed: number;
+  /** Pending steps that turned out to have completed before the interruption */
+  alreadyDone: number;
+  failed: number;
+  errors: string[];
+  steps: JournalResumeStep[];
+}
+
+export interface JournalRollbackResult extends RollbackResult {
+  journalId: string;
+  manifestId?: string;
+}
+
+type PendingState =
+  | "not_started"
+  | "completed"
+  | "copied_not_removed"
+  | "destination_taken"
+  | "missing";
+
+/**
+ * Handle for appending to the journal of a running organize operation
+ */
+export class OrganizeJournal {
+  constructor(
+    readonly id: string,
+    private readonly filePath: string,
+    private readonly handle: fs.FileHandle,
+  ) {}
+
+  async markDone(index: number, action: RollbackAction): Promise<void> {
+    await this.append({
+      kind: "step",
+      index,
+      status: "done",
+      action,
+      timestamp: Date.now(),
+    });
+  }
+
+  async markFailed(index: number, reason: string): Promise<void> {
+    await this.append({
+      kind: "step",
+      index,
+      status: "failed",
+      reason,
+      timestamp: Date.now(),
+    });
+  }
+
+  async markSkipped(index: number, reason: string): Promise<void> {
+    await this.append({
+      kind: "step",
+      index,
+      status: "skipped",
+      reason,
+      timestamp: Date.now(),
+    });
+  }
+
+  async linkManifest(manifestId: string): Promise<void> {
+    await this.append({ kind: "manifest", manifestId, timestamp: Date.now() });
+  }
+
+  /**
+   * The run finished: the rollback manifest is now the only record needed
+   */
+  async complete(): Promise<void> {
+    await this.handle.close();
+    await fs.unlink(this.filePath);
+    activeJournals.delete(this.id);
+  }
+
+  async append(record: JournalRecord): Promise<void> {
+    await this.handle.write(`${JSON.stringify(signRecord(record))}\n`);
+    await this.handle.datasync();
+  }
+}
+
+function signRecord(record: JournalRecord): JournalRecord {
+  const { signature: _signature, ...unsigned } = record;
+  return {
+    ...unsigned,
+    signature: manifestIntegrityService.computeRecordSignature(unsigned),
+  } as JournalRecord;
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return isErrnoException(error) && error.code === "EPERM";
+  }
+}
+
+/**
+ * Copy to `dest`, or to `name_N.ext` if taken, never overwriting a file.
+ * Optionally removes the source afterwards (a move).
+ */
+async function transferWithoutOverwrite(
+  source: string,
+  dest: string,
+  removeSource: boolean,
+): Promise<string> {
+  const ext = path.extname(dest);
+  const base = path.basename(dest, ext);
+  const dir = path.dirname(dest);
+  await fs.mkdir(dir, { recursive: true });
+
+  for (let attempt = 0; attempt < 100; attempt++) {
+    const candidate =
+      attempt === 0 ? dest : path.join(dir, `${base}_${attempt}${ext}`);
+    try {
+      await fs.copyFile(source, candidate, constants.COPYFILE_EXCL);
+    } catch (error) {
+      if (isErrnoException(error) && error.code === "EEXIST") continue;
+      throw error;
+    }
+    if (removeSource) {
+      await fs.unlink(source);
+    }
+    return candidate;
+  }
+  throw new Error(`No free destination name for ${dest} after 100 attempts`);
+}
+
+export class OrganizeJournalService {
+  private storageDir: string;
+  private rollbackService: RollbackService;
+  private pathValidator: PathValidatorService;
+  private hashCalculator: HashCalculatorService;
+
+  constructor() {
+    this.storageDir = path.join(process.cwd(), ".file-organizer-journals");
+    this.rollbackService = new RollbackService();
+    this.pathValidator = new PathValidatorService();
+    this.hashCalculator = new HashCalculatorService();
+  }
+
+  /**
+   * Persist the planned actions before an organize run touches any file
+   */
+  async begin(
+    directory: string,
+    description: string,
+    actions: RollbackAction[],
+  ): Promise<OrganizeJournal> {
+    await fs.mkdir(this.storageDir, { recursive: true });
+
+    const id = randomUUID();
+    const filePath = path.join(this.storageDir, `${id}${JOURNAL_EXTENSION}`);
+    const handle = await fs.open(filePath, "wx");
+    const journal = new OrganizeJournal(id, filePath, handle);
+
+    try {
+      await journal.append({
+        kind: "begin",
+        version: "1.0",
+        id,
+        pid: process.pid,
+        directory,
+        description,
+        timestamp: Date.now(),
+        actions,
+      });
+    } catch (error) {
+      await handle.close().catch(() => {});
+      await fs.unlink(filePath).catch(() => {});
+      throw error;
+    }
+
+    activeJournals.add(id);
+    logger.debug(`Started organize journal ${id} (${actions.length} steps)`);
+    return journal;
+  }
+
+  /**
+   * Journals left behind by organize runs that did not finish. Journals of
+   * runs still in progress (in this or another live server process) are
+   * excluded; unreadable or tampered journals are logged and skipped.
+   *
+   * SECURITY JUSTIFICATION (SEC-001):
+   * - storageDir is an internal path constructed in the constructor from process.cwd()
+   * - Only files created by begin() (UUID names with the journal extension) are read
+   */
+  async listInterrupted(): Promise<InterruptedJournal[]> {
+    if (!(await fileExists(this.storageDir))) return [];
+
+    const files = await fs.readdir(this.storageDir);
+    const journals: InterruptedJournal[] = [];
+
+    for (const file of files) {
+      const id = file.slice(0, -JOURNAL_EXTENSION.length);
+      if (!file.endsWith(JOURNAL_EXTENSION) || !JOURNAL_ID_PATTERN.test(id)) {
+        continue;
+      }
+      try {
+        const journal = await this.readJournal(id);
+        if (this.isRunning(journal)) continue;
+        journals.push(journal);
+      } catch (error) {
+        logger.error(
+          `Failed to read organize journal ${file}: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    return journals.sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  /**
+   * Read one interrupted journal
+   * @throws {Error} When the ID is malformed, the journal is missing, fails integrity checks or is still running
+   */
+  async getInterrupted(journalId: string): Promise<InterruptedJournal> {
+    if (!JOURNAL_ID_PATTERN.test(journalId)) {
+      throw new Error(`Invalid journal ID format: ${journalId}`);
+    }
+    const journal = await this.readJournal(journalId);
+    if (this.isRunning(journal)) {
+      throw new Error(
+        `Journal ${journalId} belongs to an organize run that is still in progress`,
+      );
+    }
+    return journal;
+  }
+
+  /**
+   * Carry out the steps that had not completed, then record everything in
+   * the run's rollback manifest and close the journal. Pending steps never
+   * overwrite: a taken destination gets a numeric suffix.
+   */
+  async resume(
+    journalId: string,
+    options: { dryRun?: boolean } = {},
+  ): Promise<JournalResumeResult> {
+    const dryRun = options.dryRun ?? false;
+    const journal = await this.getInterrupted(journalId);
+    const result: JournalResumeResult = {
+      journalId,
+      dryRun,
+      ...(journal.manifestId && { manifestId: journal.manifestId }),
+      resumed: 0,
+      alreadyDone: 0,
+      failed: 0,
+      errors: [],
+      steps: [],
+    };
+
+    const doneActions = journal.steps
+      .filter((s) => s.status === "done" && s.action)
+      .map((s) => s.action!);
+
+    for (const step of journal.steps) {
+      if (step.status !== "pending") continue;
+      const { planned } = step;
+      const source = planned.originalPath;
+      const dest = planned.currentPath ?? planned.originalPath;
+      const isCopy = planned.type === "copy";
+
+      if (
+        !this.pathValidator.isPathAllowed(source) ||
+        !this.pathValidator.isPathAllowed(dest)
+      ) {
+        result.failed++;
+        result.errors.push(`Path not allowed for step ${step.index}`);
+        continue;
+      }
+
+      const state = await this.inspectPending(source, dest);
+      const record = (
+        outcome: JournalResumeOutcome,
+        to = dest,
+        error?: string,
+      ) =>
+        result.steps.push({
+          index: step.index,
+          type: planned.type,
+          from: source,
+          to,
+          outcome,
+          ...(error && { error }),
+        });
+
+      if (state === "missing") {
+        result.failed++;
+        record("missing");
+        result.errors.push(`Source file no longer exists: ${source}`);
+        continue;
+      }
+      if (state === "completed" || (state === "copied_not_removed" && isCopy)) {
+        result.alreadyDone++;
+        record("already_done");
+        doneActions.push(planned);
+        continue;
+      }
+
+      if (dryRun) {
+        record(
+          state === "copied_not_removed"
+            ? "finish_move"
+            : isCopy
+              ? "copy"
+              : "move",
+        );
+        continue;
+      }
+
+      try {
+        if (state === "copied_not_removed") {
+          await fs.unlink(source);
+          record("finish_move");
+          doneActions.push(planned);
+        } else {
+          const finalDest = await transferWithoutOverwrite(
+            source,
+            dest,
+            !isCopy,
+          );
+          record(isCopy ? "copy" : "move", finalDest);
+          doneActions.push({
+            ...planned,
+            currentPath: finalDest,
+            timestamp: Date.now(),
+          });
+        }
+        result.resumed++;
+      } catch (error) {
+        result.failed++;
+        const message = `Failed to resume ${source}: ${(error as Error).message}`;
+        result.errors.push(message);
+        record(
+          state === "copied_not_removed"
+            ? "finish_move"
+            : isCopy
+              ? "copy"
+              : "move",
+          dest,
+          message,
+        );
+      }
+    }
+
+    if (dryRun) return result;
+
+    result.manifestId = await this.saveManifest(journal, doneActions);
+    await this.discard(journalId);
+    logger.info(
+      `Resumed organize journal ${journalId}: ${result.resumed} resumed, ${result.alreadyDone} already done, ${result.failed} failed`,
+    );
+    return result;
+  }
+
+  /**
+   * Undo everything the interrupted run did, including steps that completed
+   * but were not marked before the interruption. Uses the same conflict
+   * checks as a manifest rollback; the journal is kept if anything fails.
+   */
+  async rollback(
+    journalId: string,
+    options: { dryRun?: boolean } = {},
+  ): Promise<JournalRollbackResult> {
+    const dryRun = options.dryRun ?? false;
+    const journal = await this.getInterrupted(journalId);
+
+    const actions: RollbackAction[] = [];
+    for (const step of journal.steps) {
+      if (step.status === "done" && step.action) {
+        actions.push(step.action);
+        continue;
+      }
+      if (step.status !== "pending" || !step.planned.currentPath) continue;
+
+      const state = await this.inspectPending(
+        step.planned.originalPath,
+        step.planned.currentPath,
+      );
+      if (state === "completed") {
+        actions.push(step.planned);
+      } else if (state === "copied_not_removed") {
+        // Source is still in place: undoing means removing the duplicate
+        actions.push({ ...step.planned, type: "copy" });
+      }
+    }
+
+    const empty: JournalRollbackResult = {
+      journalId,
+      ...(journal.manifestId && { manifestId: journal.manifestId }),
+      success: 0,
+      failed: 0,
+      errors: [],
+      conflicts: [],
+      steps: [],
+      dryRun,
+      remainingActions: 0,
+    };
+
+    if (dryRun) {
+      const plan = await this.rollbackService.previewActions(
+        actions,
+        journal.manifestId ?? journalId,
+      );
+      return {
+        ...empty,
+        ...plan,
+        remainingActions: actions.length - plan.steps.length,
+      };
+    }
+
+    if (actions.length === 0) {
+      await this.discard(journalId);
+      return empty;
+    }
+
+    const manifestId = await this.saveManifest(journal, actions);
+    const result = await this.rollbackService.rollback(manifestId);
+    if (result.failed === 0) {
+      await this.discard(journalId);
+    } else {
+      result.errors.push(
+        `Journal ${journalId} kept; the run is also recorded in manifest ${manifestId}`,
+      );
+    }
+    return { journalId, manifestId, ...result };
+  }
+
+  /**
+   * Delete a journal without acting on it
+   */
+  async discard(journalId: string): Promise<void> {
+    if (!JOURNAL_ID_PATTERN.test(journalId)) {
+      throw new Error(`Invalid journal ID format: ${journalId}`);
+    }
+    await fs.unlink(
+      path.join(this.storageDir, `${journalId}${JOURNAL_EXTENSION}`),
+    );
+  }
+
+  private isRunning(journal: InterruptedJournal): boolean {
+    if (activeJournals.has(journal.id)) return true;
+    return journal.pid !== process.pid && isProcessAlive(journal.pid);
+  }
+
+  /**
+   * Record the run's completed actions in its rollback manifest, creating
+   * the manifest if the run was interrupted before the first move finished
+   */
+  private async saveManifest(
+    journal: InterruptedJournal,
+    actions: RollbackAction[],
+  ): Promise<string> {
+    const description = `${journal.description} (recovered, ${actions.length} files)`;
+    if (journal.manifestId) {
+      try {
+        await this.rollbackService.updateManifest(
+          journal.manifestId,
+          description,
+          actions,
+        );
+        return journal.manifestId;
+      } catch (error) {
+        logger.warn(
+          `Could not update manifest ${journal.manifestId}, creating a new one: ${(error as Error).message}`,
+        );
+      }
+    }
+    return this.rollbackService.createManifest(description, actions);
+  }
+
+  private async inspectPending(
+    source: string,
+    dest: string,
+  ): Promise<PendingState> {
+    const [sourceExists, destExists] = await Promise.all([
+      fileExists(source),
+      fileExists(dest),
+    ]);
+    if (!sourceExists) return destExists ? "completed" : "missing";
+    if (!destExists) return "not_started";
+    return (await this.isSameContent(source, dest))
+      ? "copied_not_removed"
+      : "destination_taken";
+  }
+
+  private async isSameContent(a: string, b: string): Promise<boolean> {
+    try {
+      const [statA, statB] = await Promise.all([fs.stat(a), fs.stat(b)]);
+      if (statA.size !== statB.size) return false;
+      const [hashA, hashB] = await Promise.all([
+        this.hashCalculator.calculateHash(a),
+        this.hashCalculator.calculateHash(b),
+      ]);
+      return hashA === hashB;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Parse and verify a journal. A torn final line (the process died while
+   * appending) is ignored; any other unreadable or unsigned line is an error.
+   */
+  private async readJournal(journalId: string): Promise<InterruptedJournal> {
+    const filePath = path.join(
+      this.storageDir,
+      `${journalId}${JOURNAL_EXTENSION}`,
+    );
+    if (!(await fileExists(filePath))) {
+      throw new Error(`Journal ${journalId} not found`);
+    }
+
+    const lines = (await fs.readFile(filePath, "utf-8"))
+      .split("\n")
+      .filter((line) => line.trim() !== "");
+
+    const records: JournalRecord[] = [];
+    for (const [i, line] of lines.entries()) {
+      let record: JournalRecord;
+      try {
+        record = JSON.parse(line);
+      } catch (error) {
+        if (i === lines.length - 1) break;
+        throw new Error(`Journal ${journalId} is corrupt at line ${i + 1}`, {
+          cause: error,
+        });
+      }
+      const verification = manifestIntegrityService.verifyRecord(record);
+      if (!verification.valid) {
+        throw new Error(
+          `Journal ${journalId} integrity check failed at line ${i + 1}: ${verification.error}`,
+        );
+      }
+      records.push(record);
+    }
+
+    const begin = records[0];
+    if (begin?.kind !== "begin" || begin.version !== "1.0") {
+      throw new Error(`Journal ${journalId} has no valid header`);
+    }
+
+    const journal: InterruptedJournal = {
+      id: begin.id,
+      pid: begin.pid,
+      directory: begin.directory,
+      description: begin.description,
+      timestamp: begin.timestamp,
+      steps: begin.actions.map((planned, index) => ({
+        index,
+        status: "pending",
+        planned,
+      })),
+    };
+
+    for (const record of records.slice(1)) {
+      if (record.kind === "manifest") {
+        journal.manifestId = record.manifestId;
+      } else if (record.kind === "step") {
+        const step = journal.steps[record.index];
+        if (!step) continue;
+        step.status = record.status;
+        if (record.action) step.action = record.action;
+        if (record.reason) step.reason = record.reason;
+      }
+    }
+
+    return journal;
+  }
+}
+
+export const organizeJournalService = new OrganizeJournalService();
@@ -11,16 +11,36 @@ import type {
   OrganizeAction,
   CategoryName,
   OrganizationPlan,
+  OrganizationRule,
   RollbackAction,
+  RuleEvaluation,
 } from "../types.js";
 import { CATEGORIES } from "../constants.js";
 import { fileExists } from "../utils/file-utils.js";
 import { logger } from "../utils/logger.js";
 import { isErrnoException } from "../utils/error-handler.js";
 import { CategorizerService } from "./categorizer.service.js";
-import { RollbackService } from "./rollback.service.js";
+import {
+  RollbackService,
+  captureFingerprint,
+} from "./rollback.service.js";
+import {
+  organizeJournalService,
+  type OrganizeJournal,
+} from "./organize-journal.service.js";
 import { PathValidatorService } from "./path-validator.service.js";
 import { MetadataService } from "./metadata.service.js";
+import { RulesEngineService } from "./rules-engine.service.js";
+import { ArchiveInspectorService } from "./archive-inspector.service.js";
+import { ContentScreeningService } from "./content-screening.service.js";
+import {
+  ArchiveExtractorService,
+  defaultExtractionDir,
+} from "./archive-extractor.service.js";
+import {
+  renderPathTemplate,
+  type RenderedPathTemplate,
+} from "../utils/path-template.js";
 
 export type ConflictStrategy =
   | "rename"
@@ -28,25 +48,70 @@ export type ConflictStrategy =
   | "overwrite"
   | "overwrite_if_newer";
 
+/**
+ * How organize treats archives: "categorize" files an archive under the
+ * category of most of its content, "extract" also extracts archives whose
+ * entries all pass inspection next to where they were moved
+ */
+export type ArchiveContentMode = "off" | "categorize" | "extract";
+
 export interface OrganizeOptions {
   dryRun?: boolean;
   conflictStrategy?: ConflictStrategy;
   useContentAnalysis?: boolean;
+  rules?: OrganizationRule[];
+  destinationTemplate?: string;
+  archiveContent?: ArchiveContentMode;
+}
+
+export interface OrganizationPlanOptions {
+  /** Organization rules evaluated before the default category layout */
+  rules?: OrganizationRule[];
+  /**
+   * Relative destination template replacing the default
+   * `<category>/<metadata subpath>/<name>` layout, e.g.
+   * "{category}/{year}/{month}/{name}{ext}". A trailing "/" keeps the
+   * original file name.
+   */
+  destinationTemplate?: string;
+  /** Look inside archives to categorize them by their content */
+  archiveContent?: ArchiveContentMode;
+}
+
+export interface ArchiveExtractionOutcome {
+  /** The archive, where it was organized to */
+  archive: string;
+  /** Folder the archive is extracted into */
+  destination: string;
+  extracted: boolean;
+  fileCount: number;
+  /** Why the archive was not extracted */
+  reason?: string;
+  manifestId?: string;
 }
 
 export interface OrganizeResult {
   statistics: Record<string, number>;
   actions: OrganizeAction[];
   errors: string[];
+  skippedFiles: { path: string; reason: string }[];
   // BUG-003 FIX: Track partial failure information
   errorCount: number;
   successCount: number;
   aborted: boolean;
+  /** Archive extractions, when organizing with archiveContent "extract" */
+  extractions?: ArchiveExtractionOutcome[];
 }
 
 // BUG-003 FIX: Maximum consecutive errors before aborting to prevent endless processing
 const MAX_CONSECUTIVE_ERRORS = 10;
 
+function describeMissingTokens(rendered: RenderedPathTemplate): string {
+  return (
+    rendered.missing.map((token) => `{${token}}`).join(", ") || "destination"
+  );
+}
+
 /**
  * Organizer Service - file organization logic
  */
@@ -54,6 +119,15 @@ export class OrganizerService {
   constructor(
     private categorizer: CategorizerService = new CategorizerService(),
     private metadataService: MetadataService = new MetadataService(),
+    private rulesEngine: RulesEngineService = new RulesEngineService(
+      undefined,
+      metadataService,
+    ),
+    private archiveInspector: ArchiveInspectorService = new ArchiveInspectorService(
+      undefined,
+      categorizer,
+    ),
+    private contentScreening: ContentScreeningService = new ContentScreeningService(),
   ) {}
 
   /**
@@ -65,6 +139,12 @@ export class OrganizerService {
    * @param conflictStrategy.skip - Skip files with conflicts
    * @param conflictStrategy.overwrite - Replace existing files
    * @param conflictStrategy.overwrite_if_newer - Only overwrite if source is newer
+   * @param options.rules - Organization rules; the first matching move/copy/skip/quarantine
+   *   rule decides the destination and is reported as `matchedRule` on the move
+   * @param options.destinationTemplate - Template for files no rule placed; files whose
+   *   tokens have no value (and no fallback) are reported in skippedFiles
+   * @param options.archiveContent - Categorize archives by the category holding most of
+   *   their content; with "extract", moves also record whether the archive is safe to extract
    * @example
    * ```ts
    * const plan = await service.generateOrganizationPlan(
@@ -80,7 +160,10 @@ export class OrganizerService {
     files: FileWithSize[],
     conflictStrategy: ConflictStrategy = "rename",
     useContentAnalysis: boolean = false,
+    options: OrganizationPlanOptions = {},
   ): Promise<OrganizationPlan> {
+    const rules = options.rules ?? [];
+    const { destinationTemplate, archiveContent = "off" } = options;
     const moves: OrganizationPlan["moves"] = [];
     const categoryCounts: Record<string, number> = {};
     const skippedFiles: { path: string; reason: string }[] = [];
@@ -117,26 +200,105 @@ export class OrganizerService {
       try {
         // Use the stateful categorizer (rules aware)
         // Pass useContentAnalysis to enable content-based type verification
-        const category = await this.categorizer.getCategory(
+        let category: CategoryName = await this.categorizer.getCategory(
           file.name,
           useContentAnalysis,
           file.path,
         );
 
-        if (!categoryCounts[category]) categoryCounts[category] = 0;
-        categoryCounts[category]++;
+        let extraction: { safe: boolean; reason?: string } | undefined;
+        if (archiveContent !== "off" && category === "Archives") {
+          try {
+            const inspection = await this.archiveInspector.inspect(file.path);
+            category = inspection.dominantCategory?.category ?? category;
+            const flagged = inspection.entries.find((e) => e.flags.length > 0);
+            extraction = {
+              safe: inspection.safe,
+              reason: flagged
+                ? `${flagged.name}: ${flagged.flags[0]}`
+                : inspection.problems[0],
+            };
+          } catch (error) {
+            extraction = {
+              safe: false,
+              reason: error instanceof Error ? error.message : String(error),
+            };
+          }
+        }
 
-        // Get metadata-based subpath (e.g., "2024/02" for images or "Artist/Album" for audio)
-        const metadataSubpath = await this.metadataService.getMetadataSubpath(
-          file.path,
-          category,
-        );
+        let evaluation: RuleEvaluation | undefined;
+        if (rules.length > 0) {
+          evaluation = await this.rulesEngine.evaluate(rules, {
+            file,
+            directory,
+            category,
+          });
+        }
+        const ruleAction = evaluation?.action;
+
+        let destFolder: string;
+        let fileName = file.name;
+        if (ruleAction?.type === "skip") {
+          skippedFiles.push({
+            path: file.path,
+            reason: `Skipped by rule "${evaluation!.rule}"${ruleAction.reason ? `: ${ruleAction.reason}` : ""}`,
+          });
+          consecutiveErrors = 0;
+          processedCount++;
+          continue;
+        } else if (ruleAction?.type === "quarantine") {
+          category = "Quarantine";
+          destFolder = path.join(directory, category);
+        } else if (ruleAction) {
+          const rendered = renderPathTemplate(
+            ruleAction.destination,
+            await this.metadataService.getTemplateTokens(file, category),
+          );
+          if (rendered.missing.length > 0 || !rendered.path) {
+            skippedFiles.push({
+              path: file.path,
+              reason: `Rule "${evaluation!.rule}" destination is missing values for: ${describeMissingTokens(rendered)}`,
+            });
+            consecutiveErrors = 0;
+            processedCount++;
+            continue;
+          }
+          destFolder = path.join(directory, ...rendered.path.split("/"));
+        } else if (destinationTemplate) {
+          const rendered = renderPathTemplate(
+            destinationTemplate,
+            await this.metadataService.getTemplateTokens(file, category),
+          );
+          if (rendered.missing.length > 0 || !rendered.path) {
+            skippedFiles.push({
+              path: file.path,
+              reason: `Destination template is missing values for: ${describeMissingTokens(rendered)}`,
+            });
+            consecutiveErrors = 0;
+            processedCount++;
+            continue;
+          }
+          const segments = rendered.path.split("/");
+          if (!/[\/\\]$/.test(destinationTemplate)) {
+            fileName = segments.pop()!;
+          }
+          destFolder = path.join(directory, ...segments);
+        } else {
+          // Get metadata-based subpath (e.g., "2024/02" for images or "Artist/Album" for audio)
+          const metadataSubpath = await this.metadataService.getMetadataSubpath(
+            file.path,
+            category,
+          );
+
+          // Build destination path with optional metadata subdirectories
+          destFolder = metadataSubpath
+            ? path.join(directory, category, metadataSubpath)
+            : path.join(directory, category);
+        }
 
-        // Build destination path with optional metadata subdirectories
-        const destFolder = metadataSubpath
-          ? path.join(directory, category, metadataSubpath)
-          : path.join(directory, category);
-        let destPath = path.join(destFolder, file.name);
+        categoryCounts[category] = (categoryCounts[category] ?? 0) + 1;
+
+        let destPath = path.join(destFolder, fileName);
         let hasConflict = false;
         const conflictResolution: ConflictStrategy = conflictStrategy;
 
@@ -173,6 +335,10 @@ export class OrganizerService {
           category,
           hasConflict,
           conflictResolution,
+          operation: ruleAction?.type === "copy" ? "copy" : "move",
+          ...(evaluation?.rule ? { matchedRule: evaluation.rule } : {}),
+          ...(evaluation?.tags.length ? { tags: evaluation.tags } : {}),
+          ...(extraction && archiveContent === "extract" ? { extraction } : {}),
         });
 
         // BUG-003 FIX: Reset consecutive errors on success
@@ -212,6 +378,9 @@ export class OrganizerService {
       dryRun = false,
       conflictStrategy = "rename",
       useContentAnalysis = false,
+      rules,
+      destinationTemplate,
+      archiveContent,
     } = options;
 
     // 1. Generate Plan (Now includes resolved paths)
@@ -220,6 +389,7 @@ export class OrganizerService {
       files,
       conflictStrategy,
       useContentAnalysis,
+      { rules, destinationTemplate, archiveContent },
     );
 
     if (dryRun) {
@@ -230,11 +400,18 @@ export class OrganizerService {
           from: m.source,
           to: m.destination,
           category: m.category as CategoryName,
+          operation: m.operation,
+          rule: m.matchedRule,
+          tags: m.tags,
         })),
         errors: plan.warnings,
+        skippedFiles: plan.skippedFiles,
         errorCount: 0,
         successCount: plan.moves.length,
         aborted: false,
+        ...(archiveContent === "extract"
+          ? { extractions: this.planExtractions(plan.moves) }
+          : {}),
       };
     }
 
@@ -244,6 +421,7 @@ export class OrganizerService {
     const errors: string[] = [];
 
     const rollbackService = new RollbackService();
+    let manifestId: string | undefined;
 
     // 2. Prepare Backup Directory for Overwrites
     const backupDir = path.join(process.cwd(), ".file-organizer-backups");
@@ -261,8 +439,34 @@ export class OrganizerService {
       hasOverwrites = true;
     }
 
-    for (const move of plan.moves) {
+    // Write-ahead journal: persist the plan before touching any file so an
+    // interrupted run can be resumed or rolled back after a restart
+    const journal = await organizeJournalService.begin(
+      directory,
+      `Organization of ${directory}`,
+      plan.moves.map((m) => ({
+        type: m.operation === "copy" ? "copy" : "move",
+        originalPath: m.source,
+        currentPath: m.destination,
+        timestamp: Date.now(),
+        category: m.category,
+      })),
+    );
+    const journalWrite = async (
+      write: (j: OrganizeJournal) => Promise<void>,
+    ): Promise<void> => {
+      try {
+        await write(journal);
+      } catch (journalErr) {
+        const msg = `Failed to update organize journal: ${(journalErr as Error).message}`;
+        errors.push(msg);
+        logger.error(msg);
+      }
+    };
+
+    for (const [index, move] of plan.moves.entries()) {
       if (move.hasConflict && move.conflictResolution === "skip") {
+        await journalWrite((j) => j.markSkipped(index, "Conflict"));
         continue;
       }
 
@@ -275,6 +479,7 @@ export class OrganizerService {
       if (windowsReservedRegex.test(sourceBase)) {
         const msg = `Skipped reserved Windows filename: ${move.source}`;
         logger.warn(msg);
+        await journalWrite((j) => j.markSkipped(index, msg));
         continue;
       }
 
@@ -283,6 +488,7 @@ export class OrganizerService {
       if (windowsReservedRegex.test(destBase)) {
         const msg = `Skipped reserved Windows filename in destination: ${move.destination}`;
         logger.warn(msg);
+        await journalWrite((j) => j.markSkipped(index, msg));
         continue;
       }
 
@@ -296,8 +502,24 @@ export class OrganizerService {
         let overwrittenBackupPath: string | undefined;
         let skipped = false;
 
+        // --- Handle Copies (rule copy action): source stays in place ---
+        if (move.operation === "copy") {
+          const copiedTo = await this.copyWithoutOverwrite(
+            sourcePath,
+            targetPath,
+            move.conflictResolution === "skip",
+          );
+          if (copiedTo) {
+            finalDest = copiedTo;
+          } else {
+            const msg = `Skipped ${sourcePath}: destination ${targetPath} already exists`;
+            logger.info(msg);
+            errors.push(msg);
+            skipped = true;
+          }
+        }
         // --- Handle Overwrites (overwrite, overwrite_if_newer) ---
-        if (
+        else if (
           move.conflictResolution === "overwrite" ||
           move.conflictResolution === "overwrite_if_newer"
         ) {
@@ -312,6 +534,7 @@ export class OrganizerService {
                 const msg = `Skipped ${sourcePath}: destination is newer`;
                 logger.info(msg);
                 errors.push(msg);
+                await journalWrite((j) => j.markSkipped(index, msg));
                 continue;
               }
             } catch (statErr: unknown) {
@@ -575,6 +798,9 @@ export class OrganizerService {
 
         // Don't add to actions if file was skipped
         if (skipped) {
+          await journalWrite((j) =>
+            j.markSkipped(index, "Destination already exists"),
+          );
           continue;
         }
 
@@ -583,23 +809,39 @@ export class OrganizerService {
           from: sourcePath,
           to: finalDest,
           category: move.category as CategoryName,
+          operation: move.operation,
+          rule: move.matchedRule,
+          tags: move.tags,
         });
 
         rollbackActions.push({
-          type: "move",
+          type: move.operation === "copy" ? "copy" : "move",
           originalPath: sourcePath,
           currentPath: finalDest,
           overwrittenBackupPath: overwrittenBackupPath,
           timestamp: Date.now(),
+          fingerprint: await captureFingerprint(finalDest),
+          category: move.category,
         });
+        await journalWrite((j) => j.markDone(index, rollbackActions.at(-1)!));
 
         // HIGH-002 FIX: Save manifest incrementally after each successful operation
-        // This ensures partial successes can be rolled back if a later operation fails
+        // This ensures partial successes can be rolled back if a later operation fails.
+        // The same manifest is rewritten so one run stays one undoable operation.
         try {
-          await rollbackService.createManifest(
-            `Organization of ${directory} (${rollbackActions.length} files)`,
-            [...rollbackActions], // Create a copy to ensure we capture current state
-          );
+          const description = `Organization of ${directory} (${rollbackActions.length} files)`;
+          if (manifestId) {
+            await rollbackService.updateManifest(manifestId, description, [
+              ...rollbackActions,
+            ]);
+          } else {
+            const createdId = await rollbackService.createManifest(
+              description,
+              [...rollbackActions],
+            );
+            manifestId = createdId;
+            await journalWrite((j) => j.linkManifest(createdId));
+          }
         } catch (manifestErr) {
           const manifestError =
             manifestErr instanceof Error
@@ -619,9 +861,17 @@ export class OrganizerService {
         const msg = `Failed to move ${move.source}: ${(error as Error).message}`;
         errors.push(msg);
         logger.error(msg);
+        await journalWrite((j) => j.markFailed(index, msg));
       }
     }
 
+    await journalWrite((j) => j.complete());
+
+    const extractions =
+      archiveContent === "extract"
+        ? await this.extractArchives(plan.moves, actionsPerformed)
+        : undefined;
+
     // BUG-003 FIX: Calculate error and success counts for result
     const errorCount = errors.length;
     const successCount = actionsPerformed.length;
@@ -631,9 +881,129 @@ export class OrganizerService {
       statistics: plan.categoryCounts,
       actions: actionsPerformed,
       errors,
+      skippedFiles: plan.skippedFiles,
       errorCount,
       successCount,
       aborted,
+      ...(extractions ? { extractions } : {}),
     };
   }
+
+  /**
+   * What extractArchives would do for the planned moves
+   */
+  private planExtractions(
+    moves: OrganizationPlan["moves"],
+  ): ArchiveExtractionOutcome[] {
+    return moves
+      .filter((m) => m.extraction)
+      .map((m) => ({
+        archive: m.destination,
+        destination: defaultExtractionDir(m.destination),
+        extracted: false,
+        fileCount: 0,
+        reason: m.extraction!.safe ? undefined : m.extraction!.reason,
+      }));
+  }
+
+  /**
+   * Extract the organized archives that passed inspection into a folder
+   * next to where they were moved. The extracted files are screened before
+   * they are kept, so one that fails screening undoes the extraction. The
+   * archive itself is kept, and each extraction gets its own rollback
+   * manifest.
+   */
+  private async extractArchives(
+    moves: OrganizationPlan["moves"],
+    performed: OrganizeAction[],
+  ): Promise<ArchiveExtractionOutcome[]> {
+    const extractor = new ArchiveExtractorService();
+    const outcomes: ArchiveExtractionOutcome[] = [];
+
+    for (const move of moves) {
+      const action = performed.find((a) => a.from === move.source);
+      if (!move.extraction || !action) continue;
+
+      const outcome: ArchiveExtractionOutcome = {
+        archive: action.to,
+        destination: defaultExtractionDir(action.to),
+        extracted: false,
+        fileCount: 0,
+      };
+      if (!move.extraction.safe) {
+        outcome.reason = move.extraction.reason;
+      } else {
+        try {
+          const result = await extractor.extract(
+            outcome.archive,
+            outcome.destination,
+            {
+              screen: (files) =>
+                this.screenExtractedFiles(files, outcome.destination),
+            },
+          );
+          outcome.extracted = true;
+          outcome.fileCount = result.files.length;
+          outcome.manifestId = result.manifestId;
+        } catch (error) {
+          outcome.reason = (error as Error).message;
+          logger.warn(`Could not extract ${action.to}: ${outcome.reason}`);
+        }
+      }
+      outcomes.push(outcome);
+    }
+    return outcomes;
+  }
+
+  /**
+   * Why the first extracted file that fails content screening does,
+   * or undefined when all pass
+   */
+  private async screenExtractedFiles(
+    files: string[],
+    destination: string,
+  ): Promise<string | undefined> {
+    const results = await this.contentScreening.screenBatch(files);
+    const failed = results.find((r) => !r.passed);
+    if (!failed) return undefined;
+
+    const issue =
+      failed.issues.find((i) => i.severity === "error") ?? failed.issues[0];
+    return `${path.relative(destination, failed.filePath)} failed screening${issue ? `: ${issue.message}` : ""}`;
+  }
+
+  /**
+   * Copy a file without clobbering an existing destination.
+   * Uses COPYFILE_EXCL and retries with a numeric suffix on EEXIST.
+   * @returns Final destination path, or null when skipOnConflict is set and the destination exists
+   */
+  private async copyWithoutOverwrite(
+    sourcePath: string,
+    targetPath: string,
+    skipOnConflict: boolean,
+  ): Promise<string | null> {
+    const ext = path.extname(targetPath);
+    const base = path.basename(targetPath, ext);
+    const destDir = path.dirname(targetPath);
+    let effectivePath = targetPath;
+
+    for (let attempt = 1; attempt <= 100; attempt++) {
+      try {
+        await fs.copyFile(sourcePath, effectivePath, constants.COPYFILE_EXCL);
+        return effectivePath;
+      } catch (err: unknown) {
+        if (!isErrnoException(err) || err.code !== "EEXIST") {
+          throw err;
+        }
+        if (skipOnConflict) {
+          return null;
+        }
+        effectivePath = path.join(destDir, `${base}_${attempt}${ext}`);
+      }
+    }
+
+    throw new Error(
+      `Failed to copy ${sourcePath} after 100 retries due to name conflicts.`,
+    );
+  }
 }
@@ -0,0 +1,768 @@
+/**
+ * File Organizer MCP Server v3.5.0
+ * Perceptual Hash Service
+ *
+ * @module services/perceptual-hash.service
+ * @description Near-duplicate image detection using a difference hash (dHash)
+ * computed from decoded pixels. Decoding is pure TypeScript: PNG is inflated
+ * and unfiltered, baseline JPEG is decoded at 1/8 scale from the DC
+ * coefficients of the luma channel, which is plenty for a 9x8 hash.
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import zlib from "zlib";
+import { promisify } from "util";
+import type { FileWithSize } from "../types.js";
+import { logger } from "../utils/logger.js";
+
+const inflate = promisify(zlib.inflate);
+
+/** Bits in a dHash (8 rows x 8 adjacent-pixel comparisons) */
+export const PERCEPTUAL_HASH_BITS = 64;
+
+/** Default Hamming distance below which two images count as the same picture */
+export const DEFAULT_HAMMING_THRESHOLD = 10;
+
+const DEFAULT_MAX_FILE_SIZE = 50 * 1024 * 1024;
+
+/** Largest image decoded, in pixels; header dimensions size buffers and work */
+const MAX_IMAGE_PIXELS = 50_000_000;
+
+/** Bytes read past the entropy-coded data before a JPEG scan is abandoned */
+const MAX_JPEG_OVERRUN_BYTES = 64;
+
+const PERCEPTUAL_EXTENSIONS = new Set([".jpg", ".jpeg", ".png"]);
+
+/**
+ * Grayscale pixels plus the dimensions of the original image
+ * (the pixel grid may be downscaled, e.g. 1/8 for JPEG)
+ */
+export interface GrayscaleImage {
+  width: number;
+  height: number;
+  pixels: Uint8Array;
+  originalWidth: number;
+  originalHeight: number;
+}
+
+export interface PerceptualHashResult {
+  path: string;
+  hash: string;
+  width: number;
+  height: number;
+}
+
+export interface PerceptualGroup {
+  /** Hash of the first image in the group, which the others were compared against */
+  hash: string;
+  files: FileWithSize[];
+  /** Hamming distance of each file to the group hash, keyed by path */
+  distances: Map<string, number>;
+  dimensions: Map<string, { width: number; height: number }>;
+}
+
+export interface FindSimilarOptions {
+  threshold?: number;
+  timeoutMs?: number;
+  /** Filled with the images that could not be decoded, and why */
+  skipped?: { path: string; reason: string }[];
+}
+
+// ==================== PNG ====================
+
+const PNG_SIGNATURE = Buffer.from([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+]);
+
+const PNG_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+async function decodePNG(buffer: Buffer): Promise<GrayscaleImage> {
+  let offset = PNG_SIGNATURE.length;
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let palette: Buffer | undefined;
+  const idat: Buffer[] = [];
+
+  while (offset + 8 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString("ascii", offset + 4, offset + 8);
+    const data = buffer.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+
+    if (type === "IHDR") {
+      width = data.readUInt32BE(0);
+      height = data.readUInt32BE(4);
+      bitDepth = data[8]!;
+      colorType = data[9]!;
+      if (data[12] !== 0) {
+        throw new Error("Interlaced PNG is not supported");
+      }
+    } else if (type === "PLTE") {
+      palette = data;
+    } else if (type === "IDAT") {
+      idat.push(data);
+    } else if (type === "IEND") {
+      break;
+    }
+  }
+
+  const channels = PNG_CHANNELS[colorType];
+  if (!width || !height || channels === undefined) {
+    throw new Error("Invalid PNG header");
+  }
+  if (colorType === 3 && !palette) {
+    throw new Error("PNG palette missing");
+  }
+  if (width * height > MAX_IMAGE_PIXELS) {
+    throw new Error(
+      `PNG of ${width}x${height} is larger than ${MAX_IMAGE_PIXELS} pixels`,
+    );
+  }
+
+  const bitsPerPixel = channels * bitDepth;
+  const bpp = Math.max(1, bitsPerPixel >> 3);
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+  const raw = await inflate(Buffer.concat(idat), {
+    maxOutputLength: (stride + 1) * height,
+  }).catch((error: NodeJS.ErrnoException) => {
+    throw error.code === "ERR_BUFFER_TOO_LARGE"
+      ? new Error("PNG image data is larger than its dimensions allow")
+      : error;
+  });
+  if (raw.length < (stride + 1) * height) {
+    throw new Error("Truncated PNG image data");
+  }
+
+  const pixels = new Uint8Array(width * height);
+  let previous = new Uint8Array(stride);
+  let current = new Uint8Array(stride);
+
+  for (let y = 0; y < height; y++) {
+    const rowStart = y * (stride + 1);
+    const filter = raw[rowStart]!;
+    for (let i = 0; i < stride; i++) {
+      const x = raw[rowStart + 1 + i]!;
+      const a = i >= bpp ? current[i - bpp]! : 0;
+      const b = previous[i]!;
+      const c = i >= bpp ? previous[i - bpp]! : 0;
+      let value: number;
+      switch (filter) {
+        case 0:
+          value = x;
+          break;
+        case 1:
+          value = x + a;
+          break;
+        case 2:
+          value = x + b;
+          break;
+        case 3:
+          value = x + ((a + b) >> 1);
+          break;
+        case 4: {
+          const p = a + b - c;
+          const pa = Math.abs(p - a);
+          const pb = Math.abs(p - b);
+          const pc = Math.abs(p - c);
+          value = x + (pa <= pb && pa <= pc ? a : pb <= pc ? b : c);
+          break;
+        }
+        default:
+          throw new Error(`Unknown PNG filter type ${filter}`);
+      }
+      current[i] = value & 0xff;
+    }
+
+    for (let x = 0; x < width; x++) {
+      pixels[y * width + x] = pngPixelLuma(
+        current,
+        x,
+        colorType,
+        bitDepth,
+        palette,
+      );
+    }
+
+    [previous, current] = [current, previous];
+  }
+
+  return {
+    width,
+    height,
+    pixels,
+    originalWidth: width,
+    originalHeight: height,
+  };
+}
+
+function pngPixelLuma(
+  row: Uint8Array,
+  x: number,
+  colorType: number,
+  bitDepth: number,
+  palette: Buffer | undefined,
+): number {
+  if (bitDepth < 8) {
+    const perByte = 8 / bitDepth;
+    const byte = row[Math.floor(x / perByte)]!;
+    const shift = 8 - bitDepth * ((x % perByte) + 1);
+    const index = (byte >> shift) & ((1 << bitDepth) - 1);
+    if (colorType === 3) {
+      return paletteLuma(palette!, index);
+    }
+    return Math.round((index * 255) / ((1 << bitDepth) - 1));
+  }
+
+  // For 16-bit samples the high byte is precise enough for hashing
+  const sampleBytes = bitDepth / 8;
+  const channels = PNG_CHANNELS[colorType]!;
+  const base = x * channels * sampleBytes;
+  const sample = (channel: number) => row[base + channel * sampleBytes]!;
+
+  switch (colorType) {
+    case 3:
+      return paletteLuma(palette!, sample(0));
+    case 2:
+    case 6:
+      return luma(sample(0), sample(1), sample(2));
+    default:
+      return sample(0);
+  }
+}
+
+function paletteLuma(palette: Buffer, index: number): number {
+  const base = index * 3;
+  if (base + 2 >= palette.length) return 0;
+  return luma(palette[base]!, palette[base + 1]!, palette[base + 2]!);
+}
+
+function luma(r: number, g: number, b: number): number {
+  return Math.round(0.299 * r + 0.587 * g + 0.114 * b);
+}
+
+// ==================== JPEG ====================
+
+interface HuffmanTable {
+  /** Lookup keyed by (code length << 16) | code */
+  codes: Map<number, number>;
+}
+
+interface JpegComponent {
+  id: number;
+  h: number;
+  v: number;
+  quantTable: number;
+  dcTable: number;
+  acTable: number;
+}
+
+function buildHuffmanTable(
+  counts: Uint8Array,
+  symbols: Uint8Array,
+): HuffmanTable {
+  const codes = new Map<number, number>();
+  let code = 0;
+  let k = 0;
+  for (let length = 1; length <= 16; length++) {
+    for (let i = 0; i < counts[length - 1]!; i++) {
+      codes.set((length << 16) | code, symbols[k++]!);
+      code++;
+    }
+    code <<= 1;
+  }
+  return { codes };
+}
+
+/**
+ * Bit reader over JPEG entropy-coded data: removes 0xFF00 byte stuffing
+ * and stops at markers, failing once it has read well past one
+ */
+class JpegBitReader {
+  private bitBuffer = 0;
+  private bitCount = 0;
+  private overrun = 0;
+
+  constructor(
+    private readonly data: Buffer,
+    private offset: number,
+  ) {}
+
+  readBit(): number {
+    if (this.bitCount === 0) {
+      let byte = 0;
+      if (this.offset < this.data.length) {
+        byte = this.data[this.offset]!;
+        if (byte === 0xff) {
+          const next = this.data[this.offset + 1];
+          if (next === 0x00) {
+            this.offset += 2;
+          } else {
+            // Marker reached: feed zeros until the caller handles it
+            byte = 0;
+            this.overrun++;
+          }
+        } else {
+          this.offset++;
+        }
+      } else {
+        this.overrun++;
+      }
+      if (this.overrun > MAX_JPEG_OVERRUN_BYTES) {
+        throw new Error("JPEG data ends before the image does");
+      }
+      this.bitBuffer = byte;
+      this.bitCount = 8;
+    }
+    this.bitCount--;
+    return (this.bitBuffer >> this.bitCount) & 1;
+  }
+
+  readBits(count: number): number {
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+      value = (value << 1) | this.readBit();
+    }
+    return value;
+  }
+
+  decode(table: HuffmanTable): number {
+    let code = 0;
+    for (let length = 1; length <= 16; length++) {
+      code = (code << 1) | this.readBit();
+      const symbol = table.codes.get((length << 16) | code);
+      if (symbol !== undefined) return symbol;
+    }
+    throw new Error("Invalid Huffman code in JPEG data");
+  }
+
+  /** Skip to just past the next RSTn marker */
+  restart(): void {
+    this.bitCount = 0;
+    this.overrun = 0;
+    while (this.offset + 1 < this.data.length) {
+      if (
+        this.data[this.offset] === 0xff &&
+        this.data[this.offset + 1]! >= 0xd0 &&
+        this.data[this.offset + 1]! <= 0xd7
+      ) {
+        this.offset += 2;
+        return;
+      }
+      this.offset++;
+    }
+  }
+}
+
+function extend(value: number, size: number): number {
+  return value < 1 << (size - 1) ? value - (1 << size) + 1 : value;
+}
+
+function decodeJPEG(buffer: Buffer): GrayscaleImage {
+  const quantTables = new Map<number, number>();
+  const dcTables = new Map<number, HuffmanTable>();
+  const acTables = new Map<number, HuffmanTable>();
+  const components: JpegComponent[] = [];
+  let width = 0;
+  let height = 0;
+  let restartInterval = 0;
+  let offset = 2;
+
+  while (offset + 4 <= buffer.length) {
+    if (buffer[offset] !== 0xff) {
+      offset++;
+      continue;
+    }
+    const marker = buffer[offset + 1]!;
+    if (
+      marker === 0xff ||
+      marker === 0x01 ||
+      (marker >= 0xd0 && marker <= 0xd7)
+    ) {
+      offset += marker === 0xff ? 1 : 2;
+      continue;
+    }
+    const length = buffer.readUInt16BE(offset + 2);
+    const segment = buffer.subarray(offset + 4, offset + 2 + length);
+    const next = offset + 2 + length;
+
+    if (marker === 0xdb) {
+      // DQT: only the DC quantizer matters at 1/8 scale
+      let p = 0;
+      while (p < segment.length) {
+        const precision = segment[p]! >> 4;
+        const id = segment[p]! & 0x0f;
+        quantTables.set(
+          id,
+          precision ? segment.readUInt16BE(p + 1) : segment[p + 1]!,
+        );
+        p += 1 + 64 * (precision ? 2 : 1);
+      }
+    } else if (marker === 0xc4) {
+      let p = 0;
+      while (p < segment.length) {
+        const tableClass = segment[p]! >> 4;
+        const id = segment[p]! & 0x0f;
+        const counts = segment.subarray(p + 1, p + 17);
+        const total = counts.reduce((sum, n) => sum + n, 0);
+        const table = buildHuffmanTable(
+          counts,
+          segment.subarray(p + 17, p + 17 + total),
+        );
+        (tableClass === 0 ? dcTables : acTables).set(id, table);
+        p += 17 + total;
+      }
+    } else if (marker === 0xc0 || marker === 0xc1) {
+      height = segment.readUInt16BE(1);
+      width = segment.readUInt16BE(3);
+      if (width * height > MAX_IMAGE_PIXELS) {
+        throw new Error(
+          `JPEG of ${width}x${height} is larger than ${MAX_IMAGE_PIXELS} pixels`,
+        );
+      }
+      const count = segment[5]!;
+      if (count < 1 || count > 4) {
+        throw new Error(`Invalid JPEG component count ${count}`);
+      }
+      for (let i = 0; i < count; i++) {
+        const base = 6 + i * 3;
+        const h = segment[base + 1]! >> 4;
+        const v = segment[base + 1]! & 0x0f;
+        if (h < 1 || h > 4 || v < 1 || v > 4) {
+          throw new Error("Invalid JPEG sampling factors");
+        }
+        components.push({
+          id: segment[base]!,
+          h,
+          v,
+          quantTable: segment[base + 2]!,
+          dcTable: 0,
+          acTable: 0,
+        });
+      }
+    } else if (
+      marker >= 0xc2 &&
+      marker <= 0xcf &&
+      marker !== 0xc4 &&
+      marker !== 0xc8 &&
+      marker !== 0xcc
+    ) {
+      throw new Error("Progressive or arithmetic-coded JPEG is not supported");
+    } else if (marker === 0xdd) {
+      restartInterval = segment.readUInt16BE(0);
+    } else if (marker === 0xda) {
+      if (!width || !height || components.length === 0) {
+        throw new Error("JPEG scan found before frame header");
+      }
+      const scanCount = segment[0]!;
+      const scanComponents: JpegComponent[] = [];
+      for (let i = 0; i < scanCount; i++) {
+        const component = components.find((c) => c.id === segment[1 + i * 2]);
+        if (!component)
+          throw new Error("JPEG scan references unknown component");
+        component.dcTable = segment[2 + i * 2]! >> 4;
+        component.acTable = segment[2 + i * 2]! & 0x0f;
+        scanComponents.push(component);
+      }
+      return decodeJPEGScan(
+        buffer,
+        next,
+        width,
+        height,
+        components,
+        scanComponents,
+        { quantTables, dcTables, acTables, restartInterval },
+      );
+    } else if (marker === 0xd9) {
+      break;
+    }
+
+    offset = next;
+  }
+
+  throw new Error("No JPEG image data found");
+}
+
+function decodeJPEGScan(
+  buffer: Buffer,
+  dataOffset: number,
+  width: number,
+  height: number,
+  components: JpegComponent[],
+  scanComponents: JpegComponent[],
+  tables: {
+    quantTables: Map<number, number>;
+    dcTables: Map<number, HuffmanTable>;
+    acTables: Map<number, HuffmanTable>;
+    restartInterval: number;
+  },
+): GrayscaleImage {
+  const luma = components[0]!;
+  if (!scanComponents.includes(luma)) {
+    throw new Error("First JPEG scan does not contain the luma component");
+  }
+
+  const hMax = Math.max(...components.map((c) => c.h));
+  const vMax = Math.max(...components.map((c) => c.v));
+  const single = scanComponents.length === 1;
+  if (!single && scanComponents.reduce((sum, c) => sum + c.h * c.v, 0) > 10) {
+    throw new Error("JPEG scan has more than 10 blocks per MCU");
+  }
+
+  // Luma block grid (one pixel per 8x8 block)
+  const lumaBlocksX = single
+    ? Math.ceil(Math.ceil((width * luma.h) / hMax) / 8)
+    : Math.ceil(width / (8 * hMax)) * luma.h;
+  const lumaBlocksY = single
+    ? Math.ceil(Math.ceil((height * luma.v) / vMax) / 8)
+    : Math.ceil(height / (8 * vMax)) * luma.v;
+  const mcusX = single ? lumaBlocksX : Math.ceil(width / (8 * hMax));
+  const mcusY = single ? lumaBlocksY : Math.ceil(height / (8 * vMax));
+
+  const pixels = new Uint8Array(lumaBlocksX * lumaBlocksY);
+  const predictors = new Map<JpegComponent, number>();
+  const reader = new JpegBitReader(buffer, dataOffset);
+  const lumaQuant = tables.quantTables.get(luma.quantTable) ?? 1;
+
+  const decodeBlock = (component: JpegComponent): number => {
+    const dcTable = tables.dcTables.get(component.dcTable);
+    const acTable = tables.acTables.get(component.acTable);
+    if (!dcTable || !acTable) throw new Error("JPEG Huffman table missing");
+
+    const size = reader.decode(dcTable);
+    const diff = size === 0 ? 0 : extend(reader.readBits(size), size);
+    const dc = (predictors.get(component) ?? 0) + diff;
+    predictors.set(component, dc);
+
+    // AC coefficients only need to be skipped
+    for (let k = 1; k < 64;) {
+      const rs = reader.decode(acTable);
+      const run = rs >> 4;
+      const bits = rs & 0x0f;
+      if (bits === 0) {
+        if (run !== 15) break;
+        k += 16;
+        continue;
+      }
+      reader.readBits(bits);
+      k += run + 1;
+    }
+    return dc;
+  };
+
+  const setLuma = (bx: number, by: number, dc: number) => {
+    if (bx >= lumaBlocksX || by >= lumaBlocksY) return;
+    // DC is 8x the block mean (level shifted by 128)
+    const value = Math.round((dc * lumaQuant) / 8) + 128;
+    pixels[by * lumaBlocksX + bx] = Math.max(0, Math.min(255, value));
+  };
+
+  const totalMcus = mcusX * mcusY;
+  for (let mcu = 0; mcu < totalMcus; mcu++) {
+    if (
+      tables.restartInterval &&
+      mcu > 0 &&
+      mcu % tables.restartInterval === 0
+    ) {
+      reader.restart();
+      predictors.clear();
+    }
+    const mcuX = mcu % mcusX;
+    const mcuY = Math.floor(mcu / mcusX);
+
+    if (single) {
+      setLuma(mcuX, mcuY, decodeBlock(luma));
+      continue;
+    }
+
+    for (const component of scanComponents) {
+      for (let v = 0; v < component.v; v++) {
+        for (let h = 0; h < component.h; h++) {
+          const dc = decodeBlock(component);
+          if (component === luma) {
+            setLuma(mcuX * luma.h + h, mcuY * luma.v + v, dc);
+          }
+        }
+      }
+    }
+  }
+
+  // Crop the padding blocks of partial MCUs
+  const croppedWidth = Math.ceil(Math.ceil((width * luma.h) / hMax) / 8);
+  const croppedHeight = Math.ceil(Math.ceil((height * luma.v) / vMax) / 8);
+  const cropped = new Uint8Array(croppedWidth * croppedHeight);
+  for (let y = 0; y < croppedHeight; y++) {
+    cropped.set(
+      pixels.subarray(y * lumaBlocksX, y * lumaBlocksX + croppedWidth),
+      y * croppedWidth,
+    );
+  }
+
+  return {
+    width: croppedWidth,
+    height: croppedHeight,
+    pixels: cropped,
+    originalWidth: width,
+    originalHeight: height,
+  };
+}
+
+// ==================== Hashing ====================
+
+/**
+ * Decode a JPEG or PNG buffer to grayscale pixels
+ */
+export async function decodeGrayscale(buffer: Buffer): Promise<GrayscaleImage> {
+  if (buffer.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    return decodePNG(buffer);
+  }
+  if (buffer[0] === 0xff && buffer[1] === 0xd8) {
+    return decodeJPEG(buffer);
+  }
+  throw new Error("Unsupported image format");
+}
+
+/**
+ * Compute a 64-bit difference hash: shrink to 9x8 by area averaging and
+ * record whether each pixel is brighter than its right neighbour
+ */
+export function computeDHash(image: GrayscaleImage): string {
+  const cols = 9;
+  const rows = 8;
+  const cells = new Float64Array(cols * rows);
+
+  for (let row = 0; row < rows; row++) {
+    const y0 = Math.floor((row * image.height) / rows);
+    const y1 = Math.max(y0 + 1, Math.floor(((row + 1) * image.height) / rows));
+    for (let col = 0; col < cols; col++) {
+      const x0 = Math.floor((col * image.width) / cols);
+      const x1 = Math.max(x0 + 1, Math.floor(((col + 1) * image.width) / cols));
+      let sum = 0;
+      let count = 0;
+      for (let y = y0; y < Math.min(y1, image.height); y++) {
+        for (let x = x0; x < Math.min(x1, image.width); x++) {
+          sum += image.pixels[y * image.width + x]!;
+          count++;
+        }
+      }
+      cells[row * cols + col] = count ? sum / count : 0;
+    }
+  }
+
+  let hash = 0n;
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols - 1; col++) {
+      hash <<= 1n;
+      if (cells[row * cols + col]! > cells[row * cols + col + 1]!) {
+        hash |= 1n;
+      }
+    }
+  }
+  return hash.toString(16).padStart(PERCEPTUAL_HASH_BITS / 4, "0");
+}
+
+/**
+ * Number of differing bits between two hex-encoded hashes
+ */
+export function hammingDistance(a: string, b: string): number {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let distance = 0;
+  while (diff) {
+    distance += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return distance;
+}
+
+export class PerceptualHashService {
+  constructor(private readonly maxFileSize: number = DEFAULT_MAX_FILE_SIZE) {}
+
+  /**
+   * Whether the file type can be decoded for perceptual hashing
+   */
+  isSupported(filePath: string): boolean {
+    return PERCEPTUAL_EXTENSIONS.has(path.extname(filePath).toLowerCase());
+  }
+
+  /**
+   * Decode an image file and compute its perceptual hash
+   */
+  async hashFile(filePath: string): Promise<PerceptualHashResult> {
+    const stats = await fs.stat(filePath);
+    if (stats.size > this.maxFileSize) {
+      throw new Error(`Image too large for perceptual hashing: ${filePath}`);
+    }
+    const image = await decodeGrayscale(await fs.readFile(filePath));
+    return {
+      path: filePath,
+      hash: computeDHash(image),
+      width: image.originalWidth,
+      height: image.originalHeight,
+    };
+  }
+
+  /**
+   * Group visually similar images. Each image joins the first group whose
+   * first image is within the threshold, so groups never chain together
+   * pictures that only resemble each other through intermediates.
+   */
+  async findSimilar(
+    files: FileWithSize[],
+    options: FindSimilarOptions = {},
+  ): Promise<PerceptualGroup[]> {
+    const threshold = options.threshold ?? DEFAULT_HAMMING_THRESHOLD;
+    const timeoutMs = options.timeoutMs ?? 30000;
+    const startTime = Date.now();
+    const groups: PerceptualGroup[] = [];
+
+    for (const file of files) {
+      if (!this.isSupported(file.path)) continue;
+
+      if (Date.now() - startTime > timeoutMs) {
+        throw new Error(
+          `Perceptual duplicate analysis timed out after ${timeoutMs}ms.`,
+        );
+      }
+
+      let result: PerceptualHashResult;
+      try {
+        result = await this.hashFile(file.path);
+      } catch (error) {
+        const reason = (error as Error).message;
+        logger.debug(
+          `Skipping image for perceptual hashing: ${file.path} (${reason})`,
+        );
+        options.skipped?.push({ path: file.path, reason });
+        continue;
+      }
+
+      const dimensions = { width: result.width, height: result.height };
+      let matched = false;
+      for (const group of groups) {
+        const distance = hammingDistance(group.hash, result.hash);
+        if (distance <= threshold) {
+          group.files.push(file);
+          group.distances.set(file.path, distance);
+          group.dimensions.set(file.path, dimensions);
+          matched = true;
+          break;
+        }
+      }
+
+      if (!matched) {
+        groups.push({
+          hash: result.hash,
+          files: [file],
+          distances: new Map([[file.path, 0]]),
+          dimensions: new Map([[file.path, dimensions]]),
+        });
+      }
+    }
+
+    return groups.filter((group) => group.files.length > 1);
+  }
+}
+
+export const perceptualHashService = new PerceptualHashService();
@@ -10,6 +10,14 @@ import { pipeline } from "stream/promises";
 import * as piexif from "piexifjs";
 import { MetadataService } from "./metadata.service.js";
 import { PathValidatorService } from "./path-validator.service.js";
+import {
+  ReverseGeocoderService,
+  type LocationGranularity,
+} from "./reverse-geocoder.service.js";
+import {
+  ClockOffsetService,
+  type ClockOffset,
+} from "./clock-offset.service.js";
 import { logger } from "../utils/logger.js";
 import { isSubPath } from "../utils/file-utils.js";
 import { FileInfo } from "../types.js";
@@ -31,15 +39,48 @@ const PHOTO_EXTENSIONS = new Set([
   ".cr2",
   ".cr3",
   ".nef",
+  ".nrw",
   ".arw",
   ".dng",
   ".orf",
   ".rw2",
   ".pef",
   ".sr2",
+  ".srw",
   ".raf",
 ]);
 
+// Camera RAW extensions; a RAW file shot alongside a JPEG/HEIC shares its name
+const RAW_EXTENSIONS = new Set([
+  ".raw",
+  ".cr2",
+  ".cr3",
+  ".nef",
+  ".nrw",
+  ".arw",
+  ".dng",
+  ".orf",
+  ".rw2",
+  ".pef",
+  ".sr2",
+  ".srw",
+  ".raf",
+]);
+
+// Video half of an Apple Live Photo, next to the HEIC/JPG of the same name
+const LIVE_PHOTO_VIDEO_EXTENSIONS = new Set([".mov"]);
+const LIVE_PHOTO_STILL_EXTENSIONS = new Set([
+  ".heic",
+  ".heif",
+  ".jpg",
+  ".jpeg",
+]);
+
+// Burst shots follow each other within a second; exposure brackets may be
+// slower because of the long exposures they include
+const BURST_MAX_GAP_MS = 1000;
+const BRACKET_MAX_GAP_MS = 2000;
+
 export interface PhotoOrganizationConfig {
   sourceDir: string;
   targetDir: string;
@@ -50,6 +91,32 @@ export interface PhotoOrganizationConfig {
   stripGPS?: boolean;
   unknownDateFolder?: string;
   dryRun?: boolean;
+  /** Move bursts and exposure brackets into a subfolder of their own */
+  groupSequences?: boolean;
+  /** Add a place-name folder such as "2024/Lisbon, Portugal" from GPS data */
+  groupByLocation?: boolean;
+  locationGranularity?: LocationGranularity;
+  /**
+   * Photos without GPS take the location of the closest shot from the same
+   * camera within this many minutes; 0 disables inheritance
+   */
+  locationInheritMinutes?: number;
+  /** Seconds to add to the dates of each camera ("Make Model") */
+  clockOffsets?: Record<string, number>;
+  /** Measure camera clock offsets from GPS timestamps */
+  clockFromGPS?: boolean;
+  /** IANA time zone used to read GPS timestamps as local time */
+  timeZone?: string;
+}
+
+export type PhotoGroupType = "raw_jpeg" | "live_photo" | "burst" | "bracket";
+
+export interface PhotoGroup {
+  type: PhotoGroupType;
+  /** Source paths of the grouped files, in shooting order */
+  files: string[];
+  /** Folder the group is (or would be) organized into */
+  targetDir: string;
 }
 
 export interface PhotoOrganizationResult {
@@ -57,6 +124,21 @@ export interface PhotoOrganizationResult {
   organizedFiles: number;
   skippedFiles: number;
   strippedGPSFiles: number;
+  /** RAW+JPEG pairs organized into the same folder */
+  rawJpegPairs: number;
+  livePhotos: number;
+  burstGroups: number;
+  bracketGroups: number;
+  /** Files placed in a location folder */
+  geotaggedFiles: number;
+  /** Files without GPS that took the location of a nearby shot */
+  inheritedLocations: number;
+  /** Camera clock offsets that were applied */
+  clockOffsets: ClockOffset[];
+  /** Files whose date was shifted by a clock offset */
+  correctedDates: number;
+  /** Files that are kept together, visible in dry runs */
+  groups: PhotoGroup[];
   errors: Array<{ file: string; error: string }>;
   structure: Record<string, number>;
   /** Tracks files that were moved (not copied) for rollback support */
@@ -67,15 +149,41 @@ interface PhotoFileInfo extends FileInfo {
   dateTaken?: Date;
   cameraModel?: string;
   hasGPS?: boolean;
+  exposureCompensation?: number;
+  latitude?: number;
+  longitude?: number;
+  gpsTimestamp?: Date;
+  /** Place-name folder resolved from the coordinates */
+  location?: string;
+  /** Shared by the files of one shot: RAW+JPEG or a Live Photo */
+  pairKey?: string;
+  sequence?: PhotoSequence;
+}
+
+interface PhotoSequence {
+  type: "burst" | "bracket";
+  /** Subfolder used with groupSequences */
+  folder: string;
+  /** Date of the first shot; every shot goes to its date folder */
+  startDate: Date;
+}
+
+interface DetectedGroup {
+  type: PhotoGroupType;
+  members: PhotoFileInfo[];
 }
 
 export class PhotoOrganizerService {
   private metadataService: MetadataService;
   private pathValidator: PathValidatorService;
+  private reverseGeocoder: ReverseGeocoderService;
+  private clockOffsetService: ClockOffsetService;
 
   constructor() {
     this.metadataService = new MetadataService();
     this.pathValidator = new PathValidatorService();
+    this.reverseGeocoder = new ReverseGeocoderService();
+    this.clockOffsetService = new ClockOffsetService(this.metadataService);
   }
 
   /**
@@ -108,6 +216,15 @@ export class PhotoOrganizerService {
       organizedFiles: 0,
       skippedFiles: 0,
       strippedGPSFiles: 0,
+      rawJpegPairs: 0,
+      livePhotos: 0,
+      burstGroups: 0,
+      bracketGroups: 0,
+      geotaggedFiles: 0,
+      inheritedLocations: 0,
+      clockOffsets: [],
+      correctedDates: 0,
+      groups: [],
       errors: [],
       structure: {},
       movedFiles: [],
@@ -134,10 +251,50 @@ export class PhotoOrganizerService {
       });
 
       // Extract metadata for each photo
-      const photosWithMetadata = await this.extractPhotoMetadata(
-        photoFiles,
-        config,
-      );
+      const photosWithMetadata = await this.extractPhotoMetadata(photoFiles);
+      const clock = this.applyClockOffsets(photosWithMetadata, config);
+      result.clockOffsets = clock.offsets;
+      result.correctedDates = clock.corrected;
+
+      // Related files are matched on their own dates, so the creation-date
+      // fallback only applies afterwards
+      const groups = [
+        ...this.pairCompanionFiles(photosWithMetadata),
+        ...this.detectSequences(photosWithMetadata),
+      ];
+      if (config.groupByLocation) {
+        result.inheritedLocations = this.assignLocations(
+          photosWithMetadata,
+          groups,
+          config,
+        );
+        result.geotaggedFiles = photosWithMetadata.filter(
+          (p) => p.location,
+        ).length;
+      }
+      if (config.useDateCreated) {
+        for (const photo of photosWithMetadata) {
+          photo.dateTaken ??= photo.created;
+        }
+      }
+
+      for (const group of groups) {
+        const targetPath = await this.getTargetPath(group.members[0]!, config);
+        result.groups.push({
+          type: group.type,
+          files: group.members.map((p) => p.path),
+          targetDir: path.dirname(targetPath),
+        });
+      }
+      const countOf = (type: PhotoGroupType) =>
+        groups.filter((g) => g.type === type).length;
+      result.rawJpegPairs = countOf("raw_jpeg");
+      result.livePhotos = countOf("live_photo");
+      result.burstGroups = countOf("burst");
+      result.bracketGroups = countOf("bracket");
+
+      // Stems chosen for pairs so both files keep the same name
+      const pairStems = new Map<string, string>();
 
       // Check disk space before operations (skip for dry run)
       if (!dryRun) {
@@ -168,8 +325,13 @@ export class PhotoOrganizerService {
           // Ensure target directory exists
           await fs.mkdir(targetDir, { recursive: true });
 
-          // Handle filename collisions
-          const finalTargetPath = await this.resolveCollision(targetPath);
+          // Handle filename collisions, renaming both files of a pair alike
+          const finalTargetPath = await this.resolvePairedTarget(
+            photo,
+            targetPath,
+            photosWithMetadata,
+            pairStems,
+          );
 
           // Perform move or copy
           if (config.copyInsteadOfMove) {
@@ -314,10 +476,21 @@ export class PhotoOrganizerService {
     config.groupByCamera ??= false;
     config.copyInsteadOfMove ??= false;
     config.stripGPS ??= false;
+    config.groupSequences ??= false;
+    config.groupByLocation ??= false;
+    config.locationGranularity ??= "city";
+    config.locationInheritMinutes ??= 60;
+    config.clockFromGPS ??= false;
+    if (
+      config.timeZone &&
+      !this.clockOffsetService.isValidTimeZone(config.timeZone)
+    ) {
+      throw new Error(`Unknown time zone: ${config.timeZone}`);
+    }
   }
 
   /**
-   * Scan directory for photo files
+   * Scan directory for photo files, plus the videos of Live Photos
    */
   private async scanPhotoFiles(dir: string): Promise<FileInfo[]> {
     const photos: FileInfo[] = [];
@@ -327,11 +500,25 @@ export class PhotoOrganizerService {
     });
 
     const entries = await fs.readdir(validatedPath, { withFileTypes: true });
+    const stem = (name: string) =>
+      path.basename(name, path.extname(name)).toLowerCase();
+    const liveStills = new Set(
+      entries
+        .filter((entry) =>
+          LIVE_PHOTO_STILL_EXTENSIONS.has(
+            path.extname(entry.name).toLowerCase(),
+          ),
+        )
+        .map((entry) => stem(entry.name)),
+    );
 
     for (const entry of entries) {
       if (entry.isFile()) {
         const ext = path.extname(entry.name).toLowerCase();
-        if (PHOTO_EXTENSIONS.has(ext)) {
+        const isLiveVideo =
+          LIVE_PHOTO_VIDEO_EXTENSIONS.has(ext) &&
+          liveStills.has(stem(entry.name));
+        if (PHOTO_EXTENSIONS.has(ext) || isLiveVideo) {
           const fullPath = path.join(validatedPath, entry.name);
           const stats = await fs.stat(fullPath);
 
@@ -355,7 +542,6 @@ export class PhotoOrganizerService {
    */
   private async extractPhotoMetadata(
     files: FileInfo[],
-    config: PhotoOrganizationConfig,
   ): Promise<PhotoFileInfo[]> {
     const photos: PhotoFileInfo[] = [];
 
@@ -373,17 +559,27 @@ export class PhotoOrganizerService {
           hasGPS: false,
         };
 
-        // Extract date with fallback chain
         if (metadata?.dateTaken) {
           photoInfo.dateTaken = new Date(metadata.dateTaken);
-        } else if (config.useDateCreated) {
-          photoInfo.dateTaken = file.created;
         }
 
         // Extract camera model
         if (metadata?.camera) {
           photoInfo.cameraModel = metadata.camera;
         }
+        if (typeof metadata?.exposureCompensation === "number") {
+          photoInfo.exposureCompensation = metadata.exposureCompensation;
+        }
+        if (
+          typeof metadata?.latitude === "number" &&
+          typeof metadata?.longitude === "number"
+        ) {
+          photoInfo.latitude = metadata.latitude;
+          photoInfo.longitude = metadata.longitude;
+        }
+        if (metadata?.gpsTimestamp) {
+          photoInfo.gpsTimestamp = new Date(metadata.gpsTimestamp);
+        }
 
         // Check for GPS data (would need EXIF library with GPS support)
         // For now, we'll detect based on common GPS tags if metadata includes them
@@ -394,7 +590,7 @@ export class PhotoOrganizerService {
         // If metadata extraction fails, use file with no metadata
         photos.push({
           ...file,
-          dateTaken: config.useDateCreated ? file.created : undefined,
+          dateTaken: undefined,
           cameraModel: undefined,
           hasGPS: false,
         });
@@ -404,6 +600,255 @@ export class PhotoOrganizerService {
     return photos;
   }
 
+  /**
+   * Shift the dates of cameras whose clock was off. Configured offsets win
+   * over offsets measured from GPS timestamps.
+   */
+  private applyClockOffsets(
+    photos: PhotoFileInfo[],
+    config: PhotoOrganizationConfig,
+  ): { offsets: ClockOffset[]; corrected: number } {
+    const offsets = new Map<string, ClockOffset>();
+    if (config.clockFromGPS) {
+      const samples = photos.map((p) => ({
+        camera: p.cameraModel,
+        dateTaken: p.dateTaken,
+        gpsTimestamp: p.gpsTimestamp,
+      }));
+      for (const offset of this.clockOffsetService.fromGPS(
+        samples,
+        config.timeZone,
+      )) {
+        offsets.set(offset.camera, offset);
+      }
+    }
+    for (const [camera, offsetSeconds] of Object.entries(
+      config.clockOffsets ?? {},
+    )) {
+      offsets.set(camera, {
+        camera,
+        offsetSeconds,
+        source: "manual",
+        samples: 0,
+      });
+    }
+
+    let corrected = 0;
+    for (const photo of photos) {
+      const offset = photo.cameraModel && offsets.get(photo.cameraModel);
+      if (!offset || !offset.offsetSeconds || !photo.dateTaken) continue;
+      photo.dateTaken = new Date(
+        photo.dateTaken.getTime() + offset.offsetSeconds * 1000,
+      );
+      corrected++;
+    }
+    return { offsets: [...offsets.values()], corrected };
+  }
+
+  /**
+   * Detect RAW+JPEG pairs and Live Photos (same directory and base name) and
+   * give their files the same date and camera so they land in one folder
+   */
+  private pairCompanionFiles(photos: PhotoFileInfo[]): DetectedGroup[] {
+    const byStem = new Map<string, PhotoFileInfo[]>();
+    for (const photo of photos) {
+      const stem = path.basename(photo.name, path.extname(photo.name));
+      const key = path.join(path.dirname(photo.path), stem).toLowerCase();
+      if (!byStem.has(key)) byStem.set(key, []);
+      byStem.get(key)!.push(photo);
+    }
+
+    const groups: DetectedGroup[] = [];
+    for (const [key, files] of byStem) {
+      const isRaw = (p: PhotoFileInfo) => RAW_EXTENSIONS.has(p.extension);
+      const isVideo = (p: PhotoFileInfo) =>
+        LIVE_PHOTO_VIDEO_EXTENSIONS.has(p.extension);
+      const stills = files.filter((p) => !isRaw(p) && !isVideo(p));
+      if (stills.length === 0 || stills.length === files.length) continue;
+
+      // The JPEG's EXIF is read by the most formats; RAW fills in the gaps
+      const ordered = [
+        ...stills,
+        ...files.filter(isRaw),
+        ...files.filter(isVideo),
+      ];
+      const dateTaken = ordered.find((p) => p.dateTaken)?.dateTaken;
+      const cameraModel = ordered.find((p) => p.cameraModel)?.cameraModel;
+      for (const photo of ordered) {
+        photo.pairKey = key;
+        photo.dateTaken = dateTaken;
+        photo.cameraModel = cameraModel;
+      }
+      groups.push({
+        type: files.some(isVideo) ? "live_photo" : "raw_jpeg",
+        members: ordered,
+      });
+    }
+    return groups;
+  }
+
+  /**
+   * Detect bursts (shots within a second of each other) and exposure
+   * brackets (close shots with varying exposure compensation) per camera.
+   * All files of a shot (RAW+JPEG, Live Photo) join the sequence together.
+   */
+  private detectSequences(photos: PhotoFileInfo[]): DetectedGroup[] {
+    const shots = new Map<string, PhotoFileInfo[]>();
+    for (const photo of photos) {
+      const key = photo.pairKey ?? photo.path;
+      if (!shots.has(key)) shots.set(key, []);
+      shots.get(key)!.push(photo);
+    }
+
+    // Files of one shot share date and camera, see pairCompanionFiles
+    const byCamera = new Map<string, PhotoFileInfo[][]>();
+    for (const shot of shots.values()) {
+      const { dateTaken, cameraModel } = shot[0]!;
+      if (!dateTaken || !cameraModel) continue;
+      if (!byCamera.has(cameraModel)) byCamera.set(cameraModel, []);
+      byCamera.get(cameraModel)!.push(shot);
+    }
+
+    const time = (shot: PhotoFileInfo[]) => shot[0]!.dateTaken!.getTime();
+    const exposure = (shot: PhotoFileInfo[]) =>
+      shot.find((p) => p.exposureCompensation !== undefined)
+        ?.exposureCompensation ?? 0;
+    const sequences: DetectedGroup[] = [];
+    const addSequence = (
+      type: PhotoSequence["type"],
+      run: PhotoFileInfo[][],
+    ) => {
+      if (run.length < 2) return;
+      const first = run[0]![0]!;
+      const sequence: PhotoSequence = {
+        type,
+        folder: `${type === "burst" ? "Burst" : "Bracket"} ${path.basename(first.name, path.extname(first.name))}`,
+        startDate: first.dateTaken!,
+      };
+      const members = run.flat();
+      for (const photo of members) photo.sequence = sequence;
+      sequences.push({ type, members });
+    };
+
+    for (const cameraShots of byCamera.values()) {
+      cameraShots.sort((a, b) => time(a) - time(b));
+
+      // Runs of shots close enough to belong to one sequence
+      const runs: PhotoFileInfo[][][] = [];
+      cameraShots.forEach((shot, i) => {
+        const previous = cameraShots[i - 1];
+        if (previous && time(shot) - time(previous) <= BRACKET_MAX_GAP_MS) {
+          runs[runs.length - 1]!.push(shot);
+        } else {
+          runs.push([shot]);
+        }
+      });
+
+      for (const run of runs) {
+        let current: PhotoFileInfo[][] = [];
+        if (new Set(run.map(exposure)).size > 1) {
+          // A bracket ends when an exposure value comes round again
+          const seen = new Set<number>();
+          for (const shot of run) {
+            if (seen.has(exposure(shot))) {
+              addSequence("bracket", current);
+              current = [];
+              seen.clear();
+            }
+            current.push(shot);
+            seen.add(exposure(shot));
+          }
+          addSequence("bracket", current);
+        } else {
+          for (const shot of run) {
+            const last = current[current.length - 1];
+            if (last && time(shot) - time(last) > BURST_MAX_GAP_MS) {
+              addSequence("burst", current);
+              current = [];
+            }
+            current.push(shot);
+          }
+          addSequence("burst", current);
+        }
+      }
+    }
+    return sequences;
+  }
+
+  /**
+   * Name the place of every photo with GPS coordinates. Photos without
+   * coordinates take those of the closest shot in time from the same camera,
+   * and grouped files share one place so they stay in one folder.
+   * Returns the number of photos whose location was inherited.
+   */
+  private assignLocations(
+    photos: PhotoFileInfo[],
+    groups: DetectedGroup[],
+    config: PhotoOrganizationConfig,
+  ): number {
+    const hasCoordinates = (p: PhotoFileInfo) =>
+      p.latitude !== undefined && p.longitude !== undefined;
+    const time = (p: PhotoFileInfo) => p.dateTaken!.getTime();
+
+    const located = new Map<string, PhotoFileInfo[]>();
+    for (const photo of photos) {
+      if (!hasCoordinates(photo) || !photo.dateTaken || !photo.cameraModel) {
+        continue;
+      }
+      const key = photo.cameraModel;
+      if (!located.has(key)) located.set(key, []);
+      located.get(key)!.push(photo);
+    }
+    for (const cameraPhotos of located.values()) {
+      cameraPhotos.sort((a, b) => time(a) - time(b));
+    }
+
+    let inherited = 0;
+    const windowMs = config.locationInheritMinutes! * 60_000;
+    for (const photo of photos) {
+      if (hasCoordinates(photo) || !photo.dateTaken || !photo.cameraModel) {
+        continue;
+      }
+      const candidates = located.get(photo.cameraModel);
+      if (!candidates || windowMs <= 0) continue;
+
+      // First located shot taken after this one; its predecessor is the
+      // other candidate
+      let low = 0;
+      let high = candidates.length;
+      while (low < high) {
+        const mid = (low + high) >> 1;
+        if (time(candidates[mid]!) < time(photo)) low = mid + 1;
+        else high = mid;
+      }
+      const nearest = [candidates[low - 1], candidates[low]]
+        .filter((c): c is PhotoFileInfo => c !== undefined)
+        .map((c) => ({ c, gap: Math.abs(time(c) - time(photo)) }))
+        .sort((a, b) => a.gap - b.gap)[0];
+      if (nearest && nearest.gap <= windowMs) {
+        photo.latitude = nearest.c.latitude;
+        photo.longitude = nearest.c.longitude;
+        inherited++;
+      }
+    }
+
+    for (const photo of photos) {
+      if (!hasCoordinates(photo)) continue;
+      photo.location =
+        this.reverseGeocoder.describe(
+          photo.latitude!,
+          photo.longitude!,
+          config.locationGranularity,
+        ) ?? undefined;
+    }
+    for (const group of groups) {
+      const location = group.members.find((p) => p.location)?.location;
+      for (const photo of group.members) photo.location = location;
+    }
+
+    return inherited;
+  }
+
   /**
    * Check if a photo has GPS data
    * Note: This is a simplified check. Full implementation would parse EXIF GPS tags.
@@ -445,14 +890,19 @@ export class PhotoOrganizerService {
     photo: PhotoFileInfo,
     config: PhotoOrganizationConfig,
   ): Promise<string> {
+    // A sequence spanning midnight still goes to a single date folder
     const folderPath = this.getDateFolderName(
-      photo.dateTaken,
+      photo.sequence?.startDate ?? photo.dateTaken,
       config.dateFormat,
       config.unknownDateFolder!,
     );
 
     let targetDir = path.join(config.targetDir, folderPath);
 
+    if (config.groupByLocation && photo.location) {
+      targetDir = path.join(targetDir, this.sanitizeFolderName(photo.location));
+    }
+
     // Add camera subfolder if enabled
     if (config.groupByCamera && photo.cameraModel) {
       const sanitizedCamera = this.sanitizeFolderName(photo.cameraModel);
@@ -461,6 +911,13 @@ export class PhotoOrganizerService {
       }
     }
 
+    if (config.groupSequences && photo.sequence) {
+      targetDir = path.join(
+        targetDir,
+        this.sanitizeFolderName(photo.sequence.folder),
+      );
+    }
+
     return path.join(targetDir, photo.name);
   }
 
@@ -517,26 +974,70 @@ export class PhotoOrganizerService {
   }
 
   /**
-   * Resolve filename collisions by appending (1), (2), etc.
+   * Pick the final path of a photo. The first file of a RAW+JPEG pair picks a
+   * name that is free for every extension of the pair; the others reuse it.
    */
-  private async resolveCollision(targetPath: string): Promise<string> {
-    if (!(await this.fileExists(targetPath))) {
-      return targetPath;
+  private async resolvePairedTarget(
+    photo: PhotoFileInfo,
+    targetPath: string,
+    photos: PhotoFileInfo[],
+    pairStems: Map<string, string>,
+  ): Promise<string> {
+    if (!photo.pairKey) {
+      return this.resolveCollision(targetPath);
     }
 
+    const dir = path.dirname(targetPath);
+    const stem = pairStems.get(photo.pairKey);
+    if (stem !== undefined) {
+      const pairedPath = path.join(dir, stem + path.extname(photo.name));
+      if (!(await this.fileExists(pairedPath))) {
+        return pairedPath;
+      }
+    }
+
+    const companions = photos
+      .filter((p) => p.pairKey === photo.pairKey && p !== photo)
+      .map((p) => path.extname(p.name));
+    const finalPath = await this.resolveCollision(targetPath, companions);
+    pairStems.set(
+      photo.pairKey,
+      path.basename(finalPath, path.extname(finalPath)),
+    );
+    return finalPath;
+  }
+
+  /**
+   * Resolve filename collisions by appending (1), (2), etc.
+   * With companion extensions, the name must also be free for each of them.
+   */
+  private async resolveCollision(
+    targetPath: string,
+    companionExtensions: string[] = [],
+  ): Promise<string> {
     const dir = path.dirname(targetPath);
     const ext = path.extname(targetPath);
     const basename = path.basename(targetPath, ext);
 
-    let counter = 1;
-    let newPath: string;
+    const isFree = async (stem: string): Promise<boolean> => {
+      for (const candidateExt of [ext, ...companionExtensions]) {
+        if (await this.fileExists(path.join(dir, stem + candidateExt))) {
+          return false;
+        }
+      }
+      return true;
+    };
+
+    if (await isFree(basename)) {
+      return targetPath;
+    }
 
-    do {
-      newPath = path.join(dir, `${basename} (${counter})${ext}`);
+    let counter = 1;
+    while (!(await isFree(`${basename} (${counter})`))) {
       counter++;
-    } while (await this.fileExists(newPath));
+    }
 
-    return newPath;
+    return path.join(dir, `${basename} (${counter})${ext}`);
   }
 
   /**
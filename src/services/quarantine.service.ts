@@ -0,0 +1,381 @@
+/**
+ * File Organizer MCP Server v3.5.0
+ * Quarantine Service
+ *
+ * @module services/quarantine.service
+ * @description Moves files that fail content screening into a locked-down
+ * quarantine directory. Each file is stored under a non-executable name
+ * with its permissions stripped, next to a JSON sidecar holding the
+ * screening result and where the file came from. Quarantined files can be
+ * listed, inspected, released to their original path or purged. Every
+ * action is recorded in the history log.
+ */
+
+import fs from "fs/promises";
+import { constants } from "fs";
+import path from "path";
+import crypto from "crypto";
+import {
+  contentScreeningService,
+  type ContentScreeningService,
+  type ScreenResult,
+} from "./content-screening.service.js";
+import { historyLogger, type HistoryEntry } from "./history-logger.service.js";
+import { captureFingerprint } from "./rollback.service.js";
+import { isErrnoException } from "../utils/error-handler.js";
+import { fileExists, isSubPath } from "../utils/file-utils.js";
+import { logger } from "../utils/logger.js";
+import type { FileFingerprint } from "../types.js";
+
+export type ThreatLevel = ScreenResult["threatLevel"];
+
+export interface QuarantineRecord {
+  id: string;
+  /** Where the file was before it was quarantined */
+  originalPath: string;
+  /** Name of the file inside the quarantine directory */
+  storedName: string;
+  size: number;
+  /** Permission bits the file had, restored on release */
+  originalMode: number;
+  quarantinedAt: string;
+  /** Summary of the screening issues that caused the quarantine */
+  reason: string;
+  screenResult: ScreenResult;
+  fingerprint?: FileFingerprint;
+}
+
+export interface QuarantineInspection extends QuarantineRecord {
+  storedPath: string;
+  /** The stored file still exists */
+  present: boolean;
+  /** The stored file still matches the fingerprint taken when quarantined */
+  intact: boolean;
+}
+
+export interface ScreenAndQuarantineOptions {
+  /** Lowest threat level that is quarantined */
+  minThreatLevel?: Exclude<ThreatLevel, "none">;
+  /** Only screen and report which files would be quarantined */
+  dryRun?: boolean;
+}
+
+export interface ScreenAndQuarantineResult {
+  screened: number;
+  /** Screening results at or above the threshold */
+  flagged: ScreenResult[];
+  quarantined: QuarantineRecord[];
+  errors: Array<{ path: string; error: string }>;
+}
+
+type HistoryLog = Pick<typeof historyLogger, "log">;
+
+const THREAT_ORDER: ThreatLevel[] = ["none", "low", "medium", "high"];
+const ID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+/** Owner may read the stored file; nobody may write or execute it */
+const STORED_FILE_MODE = 0o400;
+const STORE_MODE = 0o700;
+
+/**
+ * Quarantine Service
+ */
+export class QuarantineService {
+  constructor(
+    private readonly storeDir = path.join(
+      process.cwd(),
+      ".file-organizer-quarantine",
+    ),
+    private readonly screening: ContentScreeningService = contentScreeningService,
+    private readonly history: HistoryLog = historyLogger,
+  ) {}
+
+  /**
+   * Screen files and quarantine those at or above the threat threshold.
+   * Files already inside the quarantine directory are left out.
+   */
+  async screenAndQuarantine(
+    filePaths: string[],
+    options: ScreenAndQuarantineOptions = {},
+  ): Promise<ScreenAndQuarantineResult> {
+    const threshold = THREAT_ORDER.indexOf(options.minThreatLevel ?? "high");
+    const results = await this.screening.screenBatch(
+      filePaths.filter((p) => !isSubPath(this.storeDir, path.resolve(p))),
+    );
+    const flagged = results.filter(
+      (r) => THREAT_ORDER.indexOf(r.threatLevel) >= threshold,
+    );
+
+    const result: ScreenAndQuarantineResult = {
+      screened: results.length,
+      flagged,
+      quarantined: [],
+      errors: [],
+    };
+    if (options.dryRun) return result;
+
+    for (const screenResult of flagged) {
+      try {
+        result.quarantined.push(
+          await this.quarantine(screenResult.filePath, screenResult),
+        );
+      } catch (error) {
+        result.errors.push({
+          path: screenResult.filePath,
+          error: (error as Error).message,
+        });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Move a file into quarantine under a non-executable name, strip its
+   * permissions and record the screening result in a sidecar
+   * @throws {Error} When the path is not a regular file or cannot be moved
+   */
+  async quarantine(
+    filePath: string,
+    screenResult: ScreenResult,
+  ): Promise<QuarantineRecord> {
+    const startTime = Date.now();
+    const stats = await fs.lstat(filePath);
+    if (!stats.isFile()) {
+      throw new Error(`Only regular files can be quarantined: ${filePath}`);
+    }
+    await this.ensureStore();
+
+    const id = crypto.randomUUID();
+    const record: QuarantineRecord = {
+      id,
+      originalPath: path.resolve(filePath),
+      storedName: path.basename(this.storedPath(id)),
+      size: stats.size,
+      originalMode: stats.mode & 0o777,
+      quarantinedAt: new Date().toISOString(),
+      reason: describeIssues(screenResult),
+      screenResult,
+      fingerprint: await captureFingerprint(filePath),
+    };
+    const storedPath = this.storedPath(record.id);
+
+    await moveFile(filePath, storedPath);
+    try {
+      await fs.chmod(storedPath, STORED_FILE_MODE);
+      await fs.writeFile(
+        this.sidecarPath(id),
+        JSON.stringify(record, null, 2),
+        { mode: 0o600, flag: "wx" },
+      );
+    } catch (error) {
+      await fs.chmod(storedPath, record.originalMode).catch(() => {});
+      await moveFile(storedPath, filePath).catch((restoreError) =>
+        logger.error(
+          `CRITICAL: Could not restore ${filePath} from quarantine: ${(restoreError as Error).message}`,
+        ),
+      );
+      throw error;
+    }
+
+    await this.record({
+      operation: "quarantine",
+      status: "success",
+      durationMs: Date.now() - startTime,
+      filesProcessed: 1,
+      details: `Quarantined ${record.originalPath} as ${id} (${screenResult.threatLevel}: ${record.reason})`,
+    });
+    logger.warn(`Quarantined ${record.originalPath}: ${record.reason}`);
+    return record;
+  }
+
+  /**
+   * All quarantined items, newest first
+   */
+  async list(): Promise<QuarantineRecord[]> {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.storeDir);
+    } catch (error) {
+      if (isErrnoException(error) && error.code === "ENOENT") return [];
+      throw error;
+    }
+
+    const records: QuarantineRecord[] = [];
+    for (const name of names) {
+      const id = name.replace(/\.json$/, "");
+      if (!name.endsWith(".json") || !ID_PATTERN.test(id)) continue;
+      try {
+        records.push(await this.load(id));
+      } catch (error) {
+        logger.warn(
+          `Skipping unreadable quarantine record ${name}: ${(error as Error).message}`,
+        );
+      }
+    }
+    return records.sort((a, b) =>
+      b.quarantinedAt.localeCompare(a.quarantinedAt),
+    );
+  }
+
+  /**
+   * One quarantined item, with whether its stored file is still intact
+   * @throws {Error} When no item has this id
+   */
+  async inspect(id: string): Promise<QuarantineInspection> {
+    const record = await this.load(id);
+    const storedPath = this.storedPath(record.id);
+    const current = await captureFingerprint(storedPath);
+    return {
+      ...record,
+      storedPath,
+      present: current !== undefined,
+      intact:
+        current !== undefined &&
+        current.size === record.size &&
+        (record.fingerprint?.hash === undefined ||
+          current.hash === record.fingerprint.hash),
+    };
+  }
+
+  /**
+   * Restore a quarantined file to its original path, or to targetPath,
+   * with its original permissions. An existing file is never replaced.
+   * @throws {Error} When the destination exists or the stored file is gone
+   */
+  async release(id: string, targetPath?: string): Promise<string> {
+    const startTime = Date.now();
+    const record = await this.load(id);
+    const storedPath = this.storedPath(record.id);
+    const destination = path.resolve(targetPath ?? record.originalPath);
+
+    if (await fileExists(destination)) {
+      throw new Error(`Cannot release ${id}: ${destination} already exists`);
+    }
+
+    await fs.mkdir(path.dirname(destination), { recursive: true });
+    await fs.chmod(storedPath, record.originalMode & 0o777);
+    try {
+      await moveFile(storedPath, destination);
+    } catch (error) {
+      await fs.chmod(storedPath, STORED_FILE_MODE).catch(() => {});
+      throw error;
+    }
+    await fs.rm(this.sidecarPath(id), { force: true });
+
+    await this.record({
+      operation: "quarantine_release",
+      status: "success",
+      durationMs: Date.now() - startTime,
+      filesProcessed: 1,
+      details: `Released ${id} to ${destination}`,
+    });
+    logger.info(`Released quarantined file ${id} to ${destination}`);
+    return destination;
+  }
+
+  /**
+   * Permanently delete quarantined items
+   * @returns The ids that were deleted
+   * @throws {Error} When an id is unknown; nothing is deleted then
+   */
+  async purge(ids: string[]): Promise<string[]> {
+    const startTime = Date.now();
+    const records = await Promise.all(ids.map((id) => this.load(id)));
+
+    const purged: string[] = [];
+    for (const record of records) {
+      await fs.rm(this.storedPath(record.id), { force: true });
+      await fs.rm(this.sidecarPath(record.id), { force: true });
+      purged.push(record.id);
+    }
+
+    await this.record({
+      operation: "quarantine_purge",
+      status: "success",
+      durationMs: Date.now() - startTime,
+      filesProcessed: purged.length,
+      details: `Purged ${records.map((r) => `${r.id} (${r.originalPath})`).join(", ")}`,
+    });
+    return purged;
+  }
+
+  private async load(id: string): Promise<QuarantineRecord> {
+    if (!ID_PATTERN.test(id)) {
+      throw new Error(`Invalid quarantine ID format: ${id}`);
+    }
+    let content: string;
+    try {
+      content = await fs.readFile(this.sidecarPath(id), "utf8");
+    } catch (error) {
+      if (isErrnoException(error) && error.code === "ENOENT") {
+        throw new Error(`Quarantined item not found: ${id}`, { cause: error });
+      }
+      throw error;
+    }
+    const record = { ...(JSON.parse(content) as QuarantineRecord), id };
+    record.screenResult.timestamp = new Date(record.screenResult.timestamp);
+    return record;
+  }
+
+  /** Derived from the id, never from the sidecar, so a record cannot point elsewhere */
+  private storedPath(id: string): string {
+    return path.join(this.storeDir, `${id}.quarantined`);
+  }
+
+  private sidecarPath(id: string): string {
+    return path.join(this.storeDir, `${id}.json`);
+  }
+
+  private async ensureStore(): Promise<void> {
+    await fs.mkdir(this.storeDir, { recursive: true, mode: STORE_MODE });
+    await fs.chmod(this.storeDir, STORE_MODE);
+  }
+
+  private async record(
+    entry: Pick<
+      HistoryEntry,
+      "operation" | "status" | "durationMs" | "filesProcessed" | "details"
+    >,
+  ): Promise<void> {
+    try {
+      await this.history.log({ ...entry, source: "manual" });
+    } catch (error) {
+      logger.error(
+        `Failed to record ${entry.operation} in history: ${(error as Error).message}`,
+      );
+    }
+  }
+}
+
+/**
+ * One line summarizing the issues of a screening result
+ */
+function describeIssues(result: ScreenResult): string {
+  const issues = result.issues.filter((i) => i.severity === "error");
+  return (
+    (issues.length > 0 ? issues : result.issues)
+      .map((i) => i.message)
+      .join("; ") || `Threat level ${result.threatLevel}`
+  );
+}
+
+/**
+ * Rename, or copy and delete across devices, never replacing destination
+ */
+async function moveFile(source: string, destination: string): Promise<void> {
+  try {
+    await fs.link(source, destination);
+    await fs.unlink(source);
+  } catch (error) {
+    if (
+      !isErrnoException(error) ||
+      !["EXDEV", "EPERM", "ENOTSUP"].includes(error.code ?? "")
+    ) {
+      throw error;
+    }
+    await fs.copyFile(source, destination, constants.COPYFILE_EXCL);
+    await fs.unlink(source);
+  }
+}
+
+export const quarantineService = new QuarantineService();
@@ -0,0 +1,130 @@
+/**
+ * File Organizer MCP Server v3.5.0
+ * Reverse Geocoder Service
+ *
+ * @module services/reverse-geocoder.service
+ * @description Offline reverse geocoding against the bundled gazetteer.
+ * Coordinates resolve to the nearest known place within a distance limit and
+ * are named at country, region or city granularity. No network calls are
+ * made.
+ */
+
+import { GAZETTEER, type GazetteerPlace } from "../constants/gazetteer.js";
+
+export type LocationGranularity = "country" | "region" | "city";
+
+export interface ReverseGeocodeResult extends GazetteerPlace {
+  /** Great-circle distance from the coordinates to the place, in km */
+  distanceKm: number;
+}
+
+/**
+ * How far from the nearest gazetteer place coordinates may be and still be
+ * named after it. Coarser granularities tolerate more distance because the
+ * nearest city usually lies in the same region or country.
+ */
+export const DEFAULT_MAX_DISTANCE_KM: Record<LocationGranularity, number> = {
+  city: 100,
+  region: 250,
+  country: 500,
+};
+
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Reverse Geocoder Service
+ */
+export class ReverseGeocoderService {
+  private places: readonly GazetteerPlace[];
+
+  constructor(places: readonly GazetteerPlace[] = GAZETTEER) {
+    this.places = places;
+  }
+
+  /**
+   * Nearest place to the coordinates, or null when the coordinates are
+   * invalid or no place lies within maxDistanceKm.
+   */
+  lookup(
+    latitude: number,
+    longitude: number,
+    maxDistanceKm = Infinity,
+  ): ReverseGeocodeResult | null {
+    if (!this.isValidCoordinate(latitude, longitude)) return null;
+
+    let nearest: GazetteerPlace | undefined;
+    let nearestDistance = Infinity;
+    for (const place of this.places) {
+      const distance = this.distanceKm(
+        latitude,
+        longitude,
+        place.latitude,
+        place.longitude,
+      );
+      if (distance < nearestDistance) {
+        nearest = place;
+        nearestDistance = distance;
+      }
+    }
+
+    if (!nearest || nearestDistance > maxDistanceKm) return null;
+    return { ...nearest, distanceKm: nearestDistance };
+  }
+
+  /**
+   * Place name for the coordinates at the given granularity, e.g.
+   * "Lisbon, Portugal", "California, United States" or "Portugal".
+   */
+  describe(
+    latitude: number,
+    longitude: number,
+    granularity: LocationGranularity = "city",
+    maxDistanceKm = DEFAULT_MAX_DISTANCE_KM[granularity],
+  ): string | null {
+    const place = this.lookup(latitude, longitude, maxDistanceKm);
+    if (!place) return null;
+
+    switch (granularity) {
+      case "country":
+        return place.country;
+      case "region":
+        return this.join(place.region, place.country);
+      case "city":
+        return this.join(place.city, place.country);
+    }
+  }
+
+  /**
+   * Haversine distance between two coordinates in km
+   */
+  distanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+    const toRad = (deg: number) => (deg * Math.PI) / 180;
+    const dLat = toRad(lat2 - lat1);
+    const dLon = toRad(lon2 - lon1);
+    const a =
+      Math.sin(dLat / 2) ** 2 +
+      Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+  }
+
+  /**
+   * Cameras without a fix often write 0,0 ("Null Island"), which is treated
+   * as missing rather than placed in the Gulf of Guinea.
+   */
+  private isValidCoordinate(latitude: number, longitude: number): boolean {
+    return (
+      Number.isFinite(latitude) &&
+      Number.isFinite(longitude) &&
+      Math.abs(latitude) <= 90 &&
+      Math.abs(longitude) <= 180 &&
+      !(latitude === 0 && longitude === 0)
+    );
+  }
+
+  /** City-states such as Singapore or Monaco are not named twice */
+  private join(name: string, country: string): string {
+    return name === country ? country : `${name}, ${country}`;
+  }
+}
+
+export const reverseGeocoderService = new ReverseGeocoderService();
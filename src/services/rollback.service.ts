@@ -8,13 +8,199 @@
 import fs from "fs/promises";
 import path from "path";
 import { randomUUID } from "crypto";
+import { minimatch } from "minimatch";
 
-import type { RollbackManifest, RollbackAction } from "../types.js";
+import type {
+  RollbackManifest,
+  RollbackAction,
+  FileFingerprint,
+} from "../types.js";
 import { fileExists } from "../utils/file-utils.js";
 import { logger } from "../utils/logger.js";
 import { CONFIG } from "../config.js";
 import { PathValidatorService } from "./path-validator.service.js";
 import { manifestIntegrityService } from "./manifest-integrity.service.js";
+import { audioTagWriterService } from "./audio-tag-writer.service.js";
+import { exifDateWriterService } from "./exif-date-writer.service.js";
+import { HashCalculatorService } from "./hash-calculator.service.js";
+
+const MANIFEST_ID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Files above this size are fingerprinted by size/mtime only
+const FINGERPRINT_HASH_LIMIT = 10 * 1024 * 1024;
+
+const fingerprintHasher = new HashCalculatorService(FINGERPRINT_HASH_LIMIT);
+
+/**
+ * A reason an action cannot be undone safely
+ */
+export interface RollbackConflict {
+  manifestId: string;
+  type: RollbackAction["type"];
+  path: string;
+  reason: string;
+}
+
+/**
+ * A single file operation a rollback performs (to === null removes a copy)
+ */
+export interface RollbackStep {
+  manifestId: string;
+  type: RollbackAction["type"];
+  from: string;
+  to: string | null;
+}
+
+export interface RollbackResult {
+  success: number;
+  failed: number;
+  errors: string[];
+  conflicts: RollbackConflict[];
+  steps: RollbackStep[];
+  dryRun: boolean;
+  /** Actions left in the manifest afterwards (after a dry run: that would be left) */
+  remainingActions: number;
+}
+
+export interface RollbackSinceResult extends RollbackResult {
+  manifests: Array<{
+    id: string;
+    description: string;
+    timestamp: number;
+    actions: number;
+  }>;
+}
+
+export interface ManifestFilter {
+  /** Only manifests created at or after this time (ms since epoch) */
+  since?: number;
+  /** Only manifests created at or before this time (ms since epoch) */
+  until?: number;
+  /** Case-insensitive match against the description and action paths */
+  search?: string;
+  limit?: number;
+}
+
+/**
+ * Picks a subset of a manifest's actions. Criteria of different kinds must
+ * all match; within one kind any entry may match.
+ */
+export interface RollbackSelector {
+  /** Globs matched against originalPath and currentPath */
+  paths?: string[];
+  /** Categories recorded by the organizer */
+  categories?: string[];
+  /** Zero-based positions in the manifest's action list */
+  indices?: number[];
+}
+
+export interface RollbackOptions {
+  /** Report the steps and conflicts without touching any files */
+  dryRun?: boolean;
+  /** Undo only these actions; the rest stay in the re-signed manifest */
+  select?: RollbackSelector;
+}
+
+/**
+ * Simulated file state used while planning: path -> fingerprint, or null
+ * when the path would be empty after the steps planned so far
+ */
+type PlannedState = Map<string, FileFingerprint | null>;
+
+/**
+ * Record size, mtime and (for small files) the SHA-256 of a file so a later
+ * rollback can tell whether it was modified after the operation.
+ */
+export async function captureFingerprint(
+  filePath: string,
+): Promise<FileFingerprint | undefined> {
+  try {
+    const stats = await fs.lstat(filePath);
+    if (!stats.isFile()) return undefined;
+    const fingerprint: FileFingerprint = {
+      size: stats.size,
+      mtimeMs: stats.mtimeMs,
+    };
+    if (stats.size <= FINGERPRINT_HASH_LIMIT) {
+      fingerprint.hash = await fingerprintHasher.calculateHash(filePath);
+    }
+    return fingerprint;
+  } catch (error) {
+    logger.debug(
+      `Could not fingerprint ${filePath}: ${(error as Error).message}`,
+    );
+    return undefined;
+  }
+}
+
+/**
+ * Save the tag block of a file before it is retagged, for the backupPath
+ * of its "retag" rollback action
+ * @param readTagBlock - readTagBlock of the writer that will change the file
+ * @returns Path of the saved tag block
+ */
+export async function backupTagBlock(
+  filePath: string,
+  readTagBlock: (filePath: string) => Promise<Buffer>,
+): Promise<string> {
+  const backupDir = path.join(process.cwd(), ".file-organizer-backups", "tags");
+  await fs.mkdir(backupDir, { recursive: true });
+  const safeName =
+    path.parse(filePath).name.replace(/[^a-zA-Z0-9_-]/g, "") || "file";
+  const backupPath = path.join(backupDir, `${randomUUID()}_${safeName}.tags`);
+  await fs.writeFile(backupPath, await readTagBlock(filePath));
+  return backupPath;
+}
+
+function toGlobPath(filePath: string): string {
+  return filePath.split(path.sep).join("/");
+}
+
+function matchesSelector(
+  action: RollbackAction,
+  index: number,
+  selector: RollbackSelector,
+): boolean {
+  if (selector.indices && !selector.indices.includes(index)) return false;
+  if (
+    selector.categories &&
+    !selector.categories.some(
+      (c) => c.toLowerCase() === action.category?.toLowerCase(),
+    )
+  ) {
+    return false;
+  }
+  if (selector.paths) {
+    const candidates = [action.originalPath, action.currentPath]
+      .filter((p): p is string => p !== undefined)
+      .map(toGlobPath);
+    return selector.paths.some((pattern) =>
+      candidates.some((candidate) =>
+        minimatch(candidate, toGlobPath(pattern), {
+          nocase: true,
+          dot: true,
+          matchBase: true,
+        }),
+      ),
+    );
+  }
+  return true;
+}
+
+/**
+ * Path whose contents the fingerprint describes
+ */
+function fingerprintTarget(action: RollbackAction): string | undefined {
+  switch (action.type) {
+    case "delete":
+      return action.backupPath;
+    case "retag":
+      return action.originalPath;
+    default:
+      return action.currentPath;
+  }
+}
 
 export class RollbackService {
   private storageDir: string;
@@ -45,26 +231,137 @@ export class RollbackService {
     await this.ensureStorage();
 
     const id = randomUUID();
-    const timestamp = Date.now();
-    const hash = manifestIntegrityService.computeHash(actions, timestamp);
+    const manifest = this.signManifest(
+      id,
+      Date.now(),
+      description,
+      await this.withFingerprints(actions),
+    );
+
+    const filePath = path.join(this.storageDir, `${id}.json`);
+    await fs.writeFile(filePath, JSON.stringify(manifest, null, 2));
+
+    logger.info(`Created rollback manifest: ${id} (${actions.length} actions)`);
+    return id;
+  }
 
+  /**
+   * Replace the actions of an existing manifest, keeping its ID and creation
+   * time. Used by long-running operations that record progress incrementally.
+   */
+  async updateManifest(
+    manifestId: string,
+    description: string,
+    actions: RollbackAction[],
+  ): Promise<void> {
+    const { manifest, filePath } = await this.loadManifest(manifestId);
+
+    const updated = this.signManifest(
+      manifest.id,
+      manifest.timestamp,
+      description,
+      await this.withFingerprints(actions),
+    );
+
+    await this.writeManifest(filePath, updated);
+
+    logger.debug(
+      `Updated rollback manifest: ${manifestId} (${actions.length} actions)`,
+    );
+  }
+
+  /**
+   * Read and verify a single manifest
+   * @throws {Error} When the ID is malformed, the manifest is missing or fails integrity checks
+   */
+  async getManifest(manifestId: string): Promise<RollbackManifest> {
+    return (await this.loadManifest(manifestId)).manifest;
+  }
+
+  private async writeManifest(
+    filePath: string,
+    manifest: RollbackManifest,
+  ): Promise<void> {
+    // Write-then-rename so a crash never leaves a truncated manifest behind
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(manifest, null, 2));
+    await fs.rename(tempPath, filePath);
+  }
+
+  private signManifest(
+    id: string,
+    timestamp: number,
+    description: string,
+    actions: RollbackAction[],
+  ): RollbackManifest {
     const manifest: RollbackManifest = {
       id,
       timestamp,
       description,
       actions,
       version: "1.0",
-      hash,
+      hash: manifestIntegrityService.computeHash(actions, timestamp),
     };
+    manifest.signature = manifestIntegrityService.computeSignature(manifest);
+    return manifest;
+  }
 
-    const signature = manifestIntegrityService.computeSignature(manifest);
-    manifest.signature = signature;
+  /**
+   * Fill in fingerprints for actions whose callers did not record one
+   */
+  private async withFingerprints(
+    actions: RollbackAction[],
+  ): Promise<RollbackAction[]> {
+    const result: RollbackAction[] = [];
+    for (const action of actions) {
+      const target = fingerprintTarget(action);
+      if (action.fingerprint || !target) {
+        result.push(action);
+        continue;
+      }
+      const fingerprint = await captureFingerprint(target);
+      result.push(fingerprint ? { ...action, fingerprint } : action);
+    }
+    return result;
+  }
 
-    const filePath = path.join(this.storageDir, `${id}.json`);
-    await fs.writeFile(filePath, JSON.stringify(manifest, null, 2));
+  /**
+   * SECURITY JUSTIFICATION (SEC-001):
+   * - manifestId is validated as UUID format before being used to construct the file path
+   * - storageDir is an internal path constructed in the constructor from process.cwd()
+   */
+  private async loadManifest(
+    manifestId: string,
+  ): Promise<{ manifest: RollbackManifest; filePath: string }> {
+    // Security: Validate ID format (UUID)
+    if (!MANIFEST_ID_PATTERN.test(manifestId)) {
+      throw new Error(`Invalid manifest ID format: ${manifestId}`);
+    }
 
-    logger.info(`Created rollback manifest: ${id} (${actions.length} actions)`);
-    return id;
+    await this.ensureStorage();
+    const filePath = path.join(this.storageDir, `${manifestId}.json`);
+
+    if (!(await fileExists(filePath))) {
+      throw new Error(`Manifest ${manifestId} not found`);
+    }
+
+    let manifest: RollbackManifest;
+    try {
+      const content = await fs.readFile(filePath, "utf-8");
+      manifest = JSON.parse(content);
+    } catch (error) {
+      throw new Error(
+        `Failed to parse manifest ${manifestId}: ${(error as Error).message}`,
+        { cause: error },
+      );
+    }
+
+    const verification = manifestIntegrityService.verifyManifest(manifest);
+    if (!verification.valid) {
+      throw new Error(`Manifest integrity check failed: ${verification.error}`);
+    }
+
+    return { manifest, filePath };
   }
 
   /**
@@ -78,7 +375,9 @@ export class RollbackService {
    * - Path validation happens at other layers: storageDir is hardcoded, filenames are filtered
    *   for ".json" extension, and rollback() validates UUID format before reading
    */
-  async listManifests(): Promise<RollbackManifest[]> {
+  async listManifests(
+    filter: ManifestFilter = {},
+  ): Promise<RollbackManifest[]> {
     if (!(await fileExists(this.storageDir))) return [];
 
     const files = await fs.readdir(this.storageDir);
@@ -98,71 +397,504 @@ export class RollbackService {
       }
     }
 
-    return manifests.sort((a, b) => b.timestamp - a.timestamp);
+    const search = filter.search?.toLowerCase();
+    const matching = manifests.filter((manifest) => {
+      if (filter.since !== undefined && manifest.timestamp < filter.since) {
+        return false;
+      }
+      if (filter.until !== undefined && manifest.timestamp > filter.until) {
+        return false;
+      }
+      if (search) {
+        const haystack = [
+          manifest.description,
+          ...manifest.actions.flatMap((a) => [a.originalPath, a.currentPath]),
+        ];
+        return haystack.some((value) => value?.toLowerCase().includes(search));
+      }
+      return true;
+    });
+
+    matching.sort((a, b) => b.timestamp - a.timestamp);
+    return filter.limit !== undefined
+      ? matching.slice(0, filter.limit)
+      : matching;
+  }
+
+  /**
+   * Work out what undoing a manifest would do without touching any files.
+   * Each action is checked against the state left by the steps before it,
+   * so chained moves (A -> B, then B -> C) plan correctly.
+   */
+  private async planRollback(
+    manifest: RollbackManifest,
+    state: PlannedState,
+  ): Promise<{ steps: RollbackStep[]; conflicts: RollbackConflict[] }> {
+    const steps: RollbackStep[] = [];
+    const conflicts: RollbackConflict[] = [];
+
+    for (const action of [...manifest.actions].reverse()) {
+      const conflict = (filePath: string, reason: string) =>
+        conflicts.push({
+          manifestId: manifest.id,
+          type: action.type,
+          path: filePath,
+          reason,
+        });
+
+      const disallowed = [
+        action.originalPath,
+        action.currentPath,
+        action.backupPath,
+        action.overwrittenBackupPath,
+      ].find((p) => p && !this.pathValidator.isPathAllowed(p));
+      if (disallowed) {
+        conflict(disallowed, "Path is not allowed");
+        continue;
+      }
+
+      if (
+        (action.type === "move" || action.type === "rename") &&
+        action.currentPath
+      ) {
+        const current = await this.peek(action.currentPath, state);
+        if (!current) {
+          conflict(action.currentPath, "File no longer exists");
+          continue;
+        }
+        if (!(await this.isUnchanged(action, action.currentPath, state))) {
+          conflict(action.currentPath, "File was modified after the operation");
+          continue;
+        }
+        if (await this.peek(action.originalPath, state)) {
+          conflict(action.originalPath, "Original location is occupied");
+          continue;
+        }
+        const overwritten = action.overwrittenBackupPath
+          ? await this.peek(action.overwrittenBackupPath, state)
+          : null;
+        if (action.overwrittenBackupPath && !overwritten) {
+          conflict(
+            action.overwrittenBackupPath,
+            "Backup of the overwritten file is missing",
+          );
+          continue;
+        }
+
+        steps.push({
+          manifestId: manifest.id,
+          type: action.type,
+          from: action.currentPath,
+          to: action.originalPath,
+        });
+        state.set(action.originalPath, current);
+        state.set(action.currentPath, null);
+        if (action.overwrittenBackupPath) {
+          steps.push({
+            manifestId: manifest.id,
+            type: action.type,
+            from: action.overwrittenBackupPath,
+            to: action.currentPath,
+          });
+          state.set(action.currentPath, overwritten);
+          state.set(action.overwrittenBackupPath, null);
+        }
+      } else if (action.type === "copy" && action.currentPath) {
+        if (!(await this.peek(action.currentPath, state))) {
+          conflict(action.currentPath, "Copied file no longer exists");
+          continue;
+        }
+        if (!(await this.isUnchanged(action, action.currentPath, state))) {
+          conflict(
+            action.currentPath,
+            "Copy was modified after the operation; removing it would lose changes",
+          );
+          continue;
+        }
+        steps.push({
+          manifestId: manifest.id,
+          type: action.type,
+          from: action.currentPath,
+          to: null,
+        });
+        state.set(action.currentPath, null);
+      } else if (action.type === "delete") {
+        if (!action.backupPath) {
+          conflict(action.originalPath, "No backup path recorded");
+          continue;
+        }
+        const backup = await this.peek(action.backupPath, state);
+        if (!backup) {
+          conflict(action.backupPath, "Backup not found");
+          continue;
+        }
+        if (!(await this.isUnchanged(action, action.backupPath, state))) {
+          conflict(
+            action.backupPath,
+            "Backup was modified after the operation",
+          );
+          continue;
+        }
+        if (await this.peek(action.originalPath, state)) {
+          conflict(action.originalPath, "Original location is occupied");
+          continue;
+        }
+        steps.push({
+          manifestId: manifest.id,
+          type: action.type,
+          from: action.backupPath,
+          to: action.originalPath,
+        });
+        state.set(action.originalPath, backup);
+        state.set(action.backupPath, null);
+      } else if (action.type === "link" && action.currentPath) {
+        if (!(await this.peek(action.originalPath, state))) {
+          conflict(action.originalPath, "Linked file no longer exists");
+          continue;
+        }
+        const kept = await this.peek(action.currentPath, state);
+        if (!kept) {
+          conflict(action.currentPath, "Kept file no longer exists");
+          continue;
+        }
+        if (!(await this.isUnchanged(action, action.currentPath, state))) {
+          conflict(
+            action.currentPath,
+            "Kept file was modified after linking; the duplicate's content is gone",
+          );
+          continue;
+        }
+        if (!state.has(action.originalPath) && !(await this.isLinked(action))) {
+          conflict(
+            action.originalPath,
+            "File is no longer linked to the kept copy",
+          );
+          continue;
+        }
+        steps.push({
+          manifestId: manifest.id,
+          type: action.type,
+          from: action.currentPath,
+          to: action.originalPath,
+        });
+        state.set(action.originalPath, kept);
+      } else if (action.type === "retag") {
+        if (!action.backupPath) {
+          conflict(action.originalPath, "No tag backup recorded");
+          continue;
+        }
+        if (!(await this.peek(action.backupPath, state))) {
+          conflict(action.backupPath, "Tag backup not found");
+          continue;
+        }
+        if (!(await this.peek(action.originalPath, state))) {
+          conflict(action.originalPath, "File no longer exists");
+          continue;
+        }
+        if (!(await this.isUnchanged(action, action.originalPath, state))) {
+          conflict(
+            action.originalPath,
+            "File was modified after its tags were edited",
+          );
+          continue;
+        }
+        steps.push({
+          manifestId: manifest.id,
+          type: action.type,
+          from: action.backupPath,
+          to: action.originalPath,
+        });
+        state.set(action.backupPath, null);
+      } else if (action.type === "mkdir") {
+        if (!(await this.peek(action.originalPath, state))) {
+          conflict(action.originalPath, "Directory no longer exists");
+          continue;
+        }
+        if (!(await this.isEmptyDirectory(action.originalPath, state))) {
+          conflict(
+            action.originalPath,
+            "Directory holds files that were added after the operation",
+          );
+          continue;
+        }
+        steps.push({
+          manifestId: manifest.id,
+          type: action.type,
+          from: action.originalPath,
+          to: null,
+        });
+        state.set(action.originalPath, null);
+      }
+    }
+
+    return { steps, conflicts };
+  }
+
+  /**
+   * Plan undoing actions that are not stored in a manifest (yet)
+   */
+  async previewActions(
+    actions: RollbackAction[],
+    label: string,
+  ): Promise<{ steps: RollbackStep[]; conflicts: RollbackConflict[] }> {
+    return this.planRollback(
+      {
+        id: label,
+        timestamp: Date.now(),
+        description: label,
+        actions,
+        version: "1.0",
+      },
+      new Map(),
+    );
+  }
+
+  /**
+   * Current fingerprint of a path (size/mtime only), honouring planned steps
+   */
+  private async peek(
+    filePath: string,
+    state: PlannedState,
+  ): Promise<FileFingerprint | null> {
+    if (state.has(filePath)) return state.get(filePath) ?? null;
+    try {
+      const stats = await fs.lstat(filePath);
+      return { size: stats.size, mtimeMs: stats.mtimeMs };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Whether a directory is empty once the planned steps have run
+   */
+  private async isEmptyDirectory(
+    dirPath: string,
+    state: PlannedState,
+  ): Promise<boolean> {
+    try {
+      const entries = await fs.readdir(dirPath);
+      return entries.every((entry) => {
+        const entryPath = path.join(dirPath, entry);
+        return state.has(entryPath) && state.get(entryPath) === null;
+      });
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Whether the originalPath of a link action still refers to the kept file
+   */
+  private async isLinked(action: RollbackAction): Promise<boolean> {
+    if (!action.currentPath) return false;
+    try {
+      if (action.linkType === "symlink") {
+        const target = await fs.readlink(action.originalPath);
+        return (
+          path.resolve(path.dirname(action.originalPath), target) ===
+          path.resolve(action.currentPath)
+        );
+      }
+      const [link, kept] = await Promise.all([
+        fs.lstat(action.originalPath),
+        fs.stat(action.currentPath),
+      ]);
+      return link.dev === kept.dev && link.ino === kept.ino;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Compare a file with the fingerprint recorded for the action. A changed
+   * mtime alone is not treated as a modification when the content hash
+   * still matches. Actions recorded without a fingerprint always pass.
+   */
+  private async isUnchanged(
+    action: RollbackAction,
+    filePath: string,
+    state: PlannedState,
+  ): Promise<boolean> {
+    const recorded = action.fingerprint;
+    if (!recorded) return true;
+
+    const current = await this.peek(filePath, state);
+    if (!current || current.size !== recorded.size) return false;
+    if (current.mtimeMs === recorded.mtimeMs) return true;
+    if (!recorded.hash) return false;
+
+    const hash =
+      current.hash ??
+      (state.has(filePath)
+        ? undefined
+        : await fingerprintHasher
+            .calculateHash(filePath)
+            .catch(() => undefined));
+    return hash === recorded.hash;
+  }
+
+  /**
+   * Undo every manifest created at or after `since`, newest first.
+   * All manifests are planned up front; if any action conflicts nothing is
+   * changed. Execution stops at the first manifest that fails.
+   */
+  async rollbackSince(
+    since: number,
+    options: RollbackOptions = {},
+  ): Promise<RollbackSinceResult> {
+    const dryRun = options.dryRun ?? false;
+    const manifests = await this.listManifests({ since });
+    const result: RollbackSinceResult = {
+      success: 0,
+      failed: 0,
+      errors: [],
+      conflicts: [],
+      steps: [],
+      dryRun,
+      remainingActions: 0,
+      manifests: manifests.map((m) => ({
+        id: m.id,
+        description: m.description,
+        timestamp: m.timestamp,
+        actions: m.actions.length,
+      })),
+    };
+
+    const state: PlannedState = new Map();
+    for (const manifest of manifests) {
+      const verification = manifestIntegrityService.verifyManifest(manifest);
+      if (!verification.valid) {
+        throw new Error(
+          `Manifest ${manifest.id} integrity check failed: ${verification.error}`,
+        );
+      }
+      const plan = await this.planRollback(manifest, state);
+      result.steps.push(...plan.steps);
+      result.conflicts.push(...plan.conflicts);
+    }
+
+    if (dryRun) return result;
+    if (result.conflicts.length > 0) {
+      result.failed = result.conflicts.length;
+      result.remainingActions = manifests.reduce(
+        (sum, m) => sum + m.actions.length,
+        0,
+      );
+      result.errors.push(
+        `Rollback blocked by ${result.conflicts.length} conflict(s); no files were changed`,
+      );
+      return result;
+    }
+
+    for (const manifest of manifests) {
+      const outcome = await this.rollback(manifest.id);
+      result.success += outcome.success;
+      result.failed += outcome.failed;
+      result.errors.push(...outcome.errors);
+      result.conflicts.push(...outcome.conflicts);
+      result.remainingActions += outcome.remainingActions;
+      if (outcome.failed > 0) {
+        result.errors.push(
+          `Stopped after manifest ${manifest.id} failed; older manifests were not rolled back`,
+        );
+        break;
+      }
+    }
+
+    return result;
   }
 
   /**
    * Restore state from a manifest (Undo)
+   *
+   * Every action is checked first: if a file was modified after the
+   * operation, is missing, or its original location is now occupied, the
+   * conflicts are reported and no files are touched.
+   *
+   * With `options.select` only the matching actions are undone; the others
+   * are written back to the manifest, re-signed, so they stay undoable.
    * @param manifestId - UUID of the manifest to rollback
-   * @returns Promise<{ success: number; failed: number; errors: string[] }> - Results object with success count, failed count, and error messages
+   * @param options - dryRun reports the planned steps and conflicts only; select picks a subset of actions
+   * @returns Promise<RollbackResult> - Results object with success count, failed count, error messages, conflicts and planned steps
    * @throws {Error} When manifest ID format is invalid (must be valid UUID format)
    * @throws {Error} When manifest file is not found
    * @throws {Error} When manifest JSON parsing fails
+   * @throws {Error} When the selector matches no actions
    * @throws {Error} When file path validation fails for security reasons
    *
    * SECURITY JUSTIFICATION (SEC-001):
-   * - storageDir is an internal path constructed in the constructor from process.cwd()
-   *   (line 33: path.join(process.cwd(), ".file-organizer-rollbacks"))
-   * - File read is NOT user-provided - it's an internal manifest file created by this service
-   * - Path validation happens at other layers: storageDir is hardcoded, manifestId is validated
-   *   as UUID format (line 105-111) before being used to construct the file path
+   * - The manifest is read through loadManifest, which validates the UUID format
+   *   before constructing the file path inside the internal storageDir
    */
   async rollback(
     manifestId: string,
-  ): Promise<{ success: number; failed: number; errors: string[] }> {
-    // Security: Validate ID format (UUID)
-    if (
-      !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(
-        manifestId,
-      )
-    ) {
-      throw new Error(`Invalid manifest ID format: ${manifestId}`);
-    }
+    options: RollbackOptions = {},
+  ): Promise<RollbackResult> {
+    const dryRun = options.dryRun ?? false;
+    const { manifest, filePath } = await this.loadManifest(manifestId);
 
-    await this.ensureStorage();
-    const filePath = path.join(this.storageDir, `${manifestId}.json`);
-
-    if (!(await fileExists(filePath))) {
-      throw new Error(`Manifest ${manifestId} not found`);
-    }
-
-    let manifest: RollbackManifest;
-    try {
-      const content = await fs.readFile(filePath, "utf-8");
-      manifest = JSON.parse(content);
-    } catch (error) {
+    const selected: RollbackAction[] = [];
+    const remaining: RollbackAction[] = [];
+    manifest.actions.forEach((action, index) => {
+      if (!options.select || matchesSelector(action, index, options.select)) {
+        selected.push(action);
+      } else {
+        remaining.push(action);
+      }
+    });
+    if (selected.length === 0) {
       throw new Error(
-        `Failed to parse manifest ${manifestId}: ${(error as Error).message}`,
-        { cause: error },
+        `No actions in manifest ${manifestId} match the selection`,
       );
     }
 
-    const verification = manifestIntegrityService.verifyManifest(manifest);
-    if (!verification.valid) {
-      throw new Error(`Manifest integrity check failed: ${verification.error}`);
+    const plan = await this.planRollback(
+      { ...manifest, actions: selected },
+      new Map(),
+    );
+    if (dryRun) {
+      return {
+        success: 0,
+        failed: 0,
+        errors: [],
+        ...plan,
+        dryRun,
+        remainingActions: remaining.length,
+      };
+    }
+    if (plan.conflicts.length > 0) {
+      return {
+        success: 0,
+        failed: plan.conflicts.length,
+        errors: [
+          `Rollback blocked by ${plan.conflicts.length} conflict(s); no files were changed. Manifest ${manifestId} remains available.`,
+        ],
+        ...plan,
+        dryRun,
+        remainingActions: manifest.actions.length,
+      };
     }
 
-    const results = { success: 0, failed: 0, errors: [] as string[] };
+    const results: RollbackResult = {
+      success: 0,
+      failed: 0,
+      errors: [],
+      ...plan,
+      dryRun,
+      remainingActions: manifest.actions.length,
+    };
 
     // Track completed actions for potential rollback recovery
     const completedActions: Array<{
       action: RollbackAction;
-      stage: "move" | "restore" | "copy" | "delete";
+      stage:
+        "move" | "restore" | "copy" | "delete" | "link" | "retag" | "mkdir";
       paths: { from: string; to: string };
     }> = [];
 
     // Reverse actions: Undo last action first
-    const reverseActions = [...manifest.actions].reverse();
+    const reverseActions = [...selected].reverse();
 
     try {
       for (const action of reverseActions) {
@@ -327,6 +1059,87 @@ export class RollbackService {
             }
             throw e;
           }
+        } else if (action.type === "link" && action.currentPath) {
+          // Undo Link: replace the link with an independent copy of the kept
+          // file, written next to it first so the link is never left missing
+          const tempPath = path.join(
+            path.dirname(action.originalPath),
+            `.${path.basename(action.originalPath)}.${randomUUID()}.tmp`,
+          );
+          try {
+            await fs.copyFile(action.currentPath, tempPath);
+            await fs.rename(tempPath, action.originalPath);
+          } catch (e) {
+            await fs.rm(tempPath, { force: true });
+            if ((e as NodeJS.ErrnoException).code === "ENOENT") {
+              results.failed++;
+              results.errors.push(
+                `Cannot restore linked file. Kept copy not found: ${action.currentPath}`,
+              );
+              continue;
+            }
+            throw e;
+          }
+          completedActions.push({
+            action,
+            stage: "link",
+            paths: { from: action.currentPath, to: action.originalPath },
+          });
+          results.success++;
+        } else if (action.type === "retag") {
+          // Undo Retag: put the saved original tag block back into the file
+          if (!action.backupPath) {
+            results.failed++;
+            results.errors.push(
+              `Cannot restore tags of ${action.originalPath}: no backup path recorded`,
+            );
+            continue;
+          }
+          let block: Buffer;
+          try {
+            block = await fs.readFile(action.backupPath);
+          } catch (e) {
+            if ((e as NodeJS.ErrnoException).code === "ENOENT") {
+              results.failed++;
+              results.errors.push(
+                `Cannot restore tags. Backup not found: ${action.backupPath}`,
+              );
+              continue;
+            }
+            throw e;
+          }
+          // Photos carry saved EXIF dates, audio files a tag block
+          const writer = exifDateWriterService.isSupported(action.originalPath)
+            ? exifDateWriterService
+            : audioTagWriterService;
+          await writer.restoreTagBlock(action.originalPath, block);
+          await fs.rm(action.backupPath, { force: true });
+          completedActions.push({
+            action,
+            stage: "retag",
+            paths: { from: action.backupPath, to: action.originalPath },
+          });
+          results.success++;
+        } else if (action.type === "mkdir") {
+          // Undo Mkdir: remove the directory, emptied by the steps before
+          try {
+            await fs.rmdir(action.originalPath);
+          } catch (e) {
+            if ((e as NodeJS.ErrnoException).code === "ENOENT") {
+              results.errors.push(
+                `Directory to remove not found: ${action.originalPath}`,
+              );
+              results.failed++;
+              continue;
+            }
+            throw e;
+          }
+          completedActions.push({
+            action,
+            stage: "mkdir",
+            paths: { from: action.originalPath, to: "" },
+          });
+          results.success++;
         }
       }
     } catch (error) {
@@ -373,6 +1186,22 @@ export class RollbackService {
               results.errors.push(
                 `Warning: Cannot recover copy operation - file content not available: ${completed.paths.from}`,
               );
+            } else if (completed.stage === "link") {
+              // The restored copy has the same content as the link it
+              // replaced, so leaving it in place loses nothing
+              results.errors.push(
+                `Warning: Independent copy left in place of link: ${completed.paths.to}`,
+              );
+            } else if (completed.stage === "retag") {
+              // The edited tag block was not kept, so it cannot be re-applied
+              results.errors.push(
+                `Warning: Original tags left restored: ${completed.paths.to}`,
+              );
+            } else if (completed.stage === "mkdir") {
+              await fs.mkdir(completed.paths.from, { recursive: true });
+              results.errors.push(
+                `Recovered directory: Recreated ${completed.paths.from}`,
+              );
             } else if (completed.stage === "delete") {
               // Revert delete undo: delete the restored file and move backup back
               await fs.unlink(completed.paths.to);
@@ -390,10 +1219,30 @@ export class RollbackService {
       }
     }
 
-    // Cleanup manifest to prevent re-running only if full rollback succeeded
-    if (results.failed === 0) {
+    // Cleanup manifest to prevent re-running only if full rollback succeeded.
+    // After a partial rollback the remaining actions are kept and re-signed.
+    if (results.failed === 0 && remaining.length > 0) {
+      try {
+        await this.writeManifest(
+          filePath,
+          this.signManifest(
+            manifest.id,
+            manifest.timestamp,
+            manifest.description,
+            remaining,
+          ),
+        );
+        results.remainingActions = remaining.length;
+      } catch (e) {
+        throw new Error(
+          `Rollback completed but failed to update manifest ${manifestId}: ${(e as Error).message}`,
+          { cause: e },
+        );
+      }
+    } else if (results.failed === 0) {
       try {
         await fs.unlink(filePath);
+        results.remainingActions = 0;
       } catch (e) {
         throw new Error(
           `Rollback completed but failed to delete manifest ${manifestId}: ${(e as Error).message}`,
@@ -0,0 +1,354 @@
+/**
+ * File Organizer MCP Server v3.5.0
+ * Rules Engine Service
+ *
+ * Evaluates declarative organization rules (conditions over name, size, age,
+ * detected MIME type, EXIF/ID3 metadata and path, combined with all/any/not)
+ * against a file and reports which rule decided its fate.
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { minimatch } from "minimatch";
+import type {
+  CategoryName,
+  FileWithSize,
+  OrganizationRule,
+  RuleCondition,
+  RuleConditionValue,
+  RuleEvaluation,
+  RuleFieldCondition,
+} from "../types.js";
+import { logger } from "../utils/logger.js";
+import { parseBytes } from "../utils/formatters.js";
+import { loadUserConfig } from "../config.js";
+import { parseOrganizationRules } from "../schemas/rules.schemas.js";
+import { ContentAnalyzerService } from "./content-analyzer.service.js";
+import { MetadataService } from "./metadata.service.js";
+import type { ImageMetadata } from "./image-metadata.service.js";
+import type { AudioMetadata } from "./audio-metadata.service.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_REGEX_INPUT_LENGTH = 1000;
+
+export interface RuleFileContext {
+  file: FileWithSize;
+  /** Root directory being organized (used for the relative `path` field) */
+  directory: string;
+  /** Category assigned by the categorizer */
+  category: CategoryName;
+}
+
+type FieldValue = string | number | Date | boolean | undefined;
+
+/**
+ * Per-file lazily computed facts. Expensive lookups (content analysis,
+ * metadata extraction, stat) only run if a condition actually needs them.
+ */
+class RuleEvaluationScope {
+  private contentAnalysis?: Promise<{
+    detectedType?: string;
+    mimeType?: string;
+  }>;
+  private metadata?: Promise<{ image?: ImageMetadata; audio?: AudioMetadata }>;
+  private modified?: Promise<Date | undefined>;
+
+  constructor(
+    readonly ctx: RuleFileContext,
+    private contentAnalyzer: ContentAnalyzerService,
+    private metadataService: MetadataService,
+  ) {}
+
+  getContentAnalysis(): Promise<{ detectedType?: string; mimeType?: string }> {
+    this.contentAnalysis ??= this.contentAnalyzer
+      .analyze(this.ctx.file.path)
+      .then((r) => ({ detectedType: r.detectedType, mimeType: r.mimeType }))
+      .catch((error: unknown) => {
+        logger.debug(
+          `Rule content analysis failed for ${this.ctx.file.path}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+        return {};
+      });
+    return this.contentAnalysis;
+  }
+
+  getMetadata(): Promise<{ image?: ImageMetadata; audio?: AudioMetadata }> {
+    this.metadata ??= this.metadataService.getDetailedMetadata(
+      this.ctx.file.path,
+    );
+    return this.metadata;
+  }
+
+  getModified(): Promise<Date | undefined> {
+    if (this.ctx.file.modified) {
+      return Promise.resolve(this.ctx.file.modified);
+    }
+    this.modified ??= fs
+      .stat(this.ctx.file.path)
+      .then((s) => s.mtime)
+      .catch(() => undefined);
+    return this.modified;
+  }
+}
+
+/**
+ * Rules Engine Service - evaluates organization rules for a file
+ */
+export class RulesEngineService {
+  private regexCache = new Map<string, RegExp>();
+
+  constructor(
+    private contentAnalyzer: ContentAnalyzerService = new ContentAnalyzerService(),
+    private metadataService: MetadataService = new MetadataService(),
+  ) {}
+
+  /**
+   * Evaluate rules against a file.
+   * Enabled rules run in descending priority (ties keep config order).
+   * `tag` actions accumulate and evaluation continues; the first matching
+   * move/copy/skip/quarantine rule is terminal.
+   */
+  async evaluate(
+    rules: OrganizationRule[],
+    ctx: RuleFileContext,
+  ): Promise<RuleEvaluation> {
+    const evaluation: RuleEvaluation = { tags: [], matchedRules: [] };
+    const scope = new RuleEvaluationScope(
+      ctx,
+      this.contentAnalyzer,
+      this.metadataService,
+    );
+
+    const ordered = rules
+      .map((rule, index) => ({ rule, index }))
+      .filter(({ rule }) => rule.enabled !== false)
+      .sort((a, b) => b.rule.priority - a.rule.priority || a.index - b.index);
+
+    for (const { rule } of ordered) {
+      let matched: boolean;
+      try {
+        matched = await this.matchCondition(rule.conditions, scope);
+      } catch (error) {
+        logger.warn(
+          `Rule "${rule.name}" failed for ${ctx.file.path}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+        continue;
+      }
+      if (!matched) continue;
+
+      evaluation.matchedRules.push(rule.name);
+
+      if (rule.action.type === "tag") {
+        for (const tag of rule.action.tags) {
+          if (!evaluation.tags.includes(tag)) evaluation.tags.push(tag);
+        }
+        continue;
+      }
+
+      evaluation.rule = rule.name;
+      evaluation.action = rule.action;
+      break;
+    }
+
+    return evaluation;
+  }
+
+  private async matchCondition(
+    condition: RuleCondition,
+    scope: RuleEvaluationScope,
+  ): Promise<boolean> {
+    if ("all" in condition) {
+      for (const child of condition.all) {
+        if (!(await this.matchCondition(child, scope))) return false;
+      }
+      return true;
+    }
+    if ("any" in condition) {
+      for (const child of condition.any) {
+        if (await this.matchCondition(child, scope)) return true;
+      }
+      return false;
+    }
+    if ("not" in condition) {
+      return !(await this.matchCondition(condition.not, scope));
+    }
+    return this.matchField(condition, scope);
+  }
+
+  private async resolveField(
+    field: RuleFieldCondition["field"],
+    scope: RuleEvaluationScope,
+  ): Promise<FieldValue> {
+    const { file, directory, category } = scope.ctx;
+
+    switch (field) {
+      case "name":
+        return file.name;
+      case "extension":
+        return path.extname(file.name).toLowerCase();
+      case "path":
+        return path.relative(directory, file.path).split(path.sep).join("/");
+      case "size":
+        return file.size;
+      case "category":
+        return category;
+      case "modified":
+        return scope.getModified();
+      case "age_days": {
+        const modified = await scope.getModified();
+        return modified
+          ? (Date.now() - modified.getTime()) / DAY_MS
+          : undefined;
+      }
+      case "mime_type":
+        return (await scope.getContentAnalysis()).mimeType;
+      case "detected_type":
+        return (await scope.getContentAnalysis()).detectedType;
+    }
+
+    const [source, key] = field.split(".", 2) as [string, string];
+    const metadata = await scope.getMetadata();
+    const record: object | undefined =
+      source === "exif" ? metadata.image : metadata.audio;
+    const value = record ? (record as Record<string, unknown>)[key] : undefined;
+
+    if (
+      typeof value === "string" ||
+      typeof value === "number" ||
+      typeof value === "boolean" ||
+      value instanceof Date
+    ) {
+      return value;
+    }
+    return undefined;
+  }
+
+  private async matchField(
+    condition: RuleFieldCondition,
+    scope: RuleEvaluationScope,
+  ): Promise<boolean> {
+    const actual = await this.resolveField(condition.field, scope);
+    const { op, field } = condition;
+    const expected = condition.value;
+
+    if (op === "exists") {
+      const exists = actual !== undefined && actual !== "";
+      return expected === false ? !exists : exists;
+    }
+
+    // Missing values never match a comparison (use `not` + `exists` instead)
+    if (actual === undefined || expected === undefined) {
+      return false;
+    }
+
+    switch (op) {
+      case "eq":
+        return this.equals(field, actual, expected);
+      case "neq":
+        return !this.equals(field, actual, expected);
+      case "in":
+        return (
+          Array.isArray(expected) &&
+          expected.some((candidate) => this.equals(field, actual, candidate))
+        );
+      case "gt":
+      case "gte":
+      case "lt":
+      case "lte": {
+        const a = this.toNumber(field, actual);
+        const b = this.toNumber(field, expected);
+        if (isNaN(a) || isNaN(b)) return false;
+        if (op === "gt") return a > b;
+        if (op === "gte") return a >= b;
+        if (op === "lt") return a < b;
+        return a <= b;
+      }
+      case "contains":
+        return this.toText(actual).includes(this.toText(expected));
+      case "starts_with":
+        return this.toText(actual).startsWith(this.toText(expected));
+      case "ends_with":
+        return this.toText(actual).endsWith(this.toText(expected));
+      case "glob":
+        return minimatch(String(actual), String(expected), {
+          nocase: true,
+          dot: true,
+          matchBase: field === "name",
+        });
+      case "regex": {
+        const text = String(actual);
+        if (text.length > MAX_REGEX_INPUT_LENGTH) return false;
+        return this.getRegex(String(expected)).test(text);
+      }
+    }
+    return false;
+  }
+
+  private equals(
+    field: RuleFieldCondition["field"],
+    actual: Exclude<FieldValue, undefined>,
+    expected: RuleConditionValue,
+  ): boolean {
+    if (Array.isArray(expected)) return false;
+
+    if (typeof actual === "number" || actual instanceof Date) {
+      return this.toNumber(field, actual) === this.toNumber(field, expected);
+    }
+    if (typeof actual === "boolean") {
+      return actual === (expected === true || expected === "true");
+    }
+    if (field === "extension") {
+      return actual === this.normalizeExtension(String(expected));
+    }
+    return this.toText(actual) === this.toText(expected);
+  }
+
+  private toNumber(
+    field: RuleFieldCondition["field"],
+    value: Exclude<FieldValue, undefined> | RuleConditionValue,
+  ): number {
+    if (value instanceof Date) return value.getTime();
+    if (typeof value === "number") return value;
+    if (typeof value === "boolean" || Array.isArray(value)) return NaN;
+    if (field === "size") return parseBytes(value);
+    if (field === "modified" || field.startsWith("exif.date")) {
+      return Date.parse(value);
+    }
+    return Number(value);
+  }
+
+  private toText(value: Exclude<FieldValue, undefined> | RuleConditionValue) {
+    return (
+      value instanceof Date ? value.toISOString() : String(value)
+    ).toLowerCase();
+  }
+
+  private normalizeExtension(ext: string): string {
+    const lower = ext.toLowerCase();
+    return lower.startsWith(".") ? lower : `.${lower}`;
+  }
+
+  private getRegex(pattern: string): RegExp {
+    let regex = this.regexCache.get(pattern);
+    if (!regex) {
+      regex = new RegExp(pattern, "i");
+      this.regexCache.set(pattern, regex);
+    }
+    return regex;
+  }
+}
+
+/**
+ * Load and validate organization rules from the user config file.
+ * Invalid rules are skipped and reported in `errors`.
+ */
+export function loadOrganizationRules(): {
+  rules: OrganizationRule[];
+  errors: string[];
+} {
+  const { rules, errors } = parseOrganizationRules(loadUserConfig().rules);
+  for (const error of errors) {
+    logger.warn(`Organization rules: ${error}`);
+  }
+  return { rules, errors };
+}
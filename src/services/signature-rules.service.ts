@@ -0,0 +1,1240 @@
+/**
+ * File Organizer MCP Server v3.5.0
+ * Signature Rules Service
+ *
+ * @module services/signature-rules.service
+ * @description Loads YARA-style signature rules from local rule files and
+ * evaluates them against file content. The supported subset covers text
+ * strings (nocase, ascii, wide, fullword), hex strings with ?? wildcards and
+ * bounded [n-m] jumps, and conditions built from string matches, match
+ * counts (#a), first offsets (@a), `at` and `in` offsets, filesize, uintN
+ * reads and `of` sets, combined with and/or/not. Rule files are re-read when
+ * they change, and a rule that fails to parse is reported without affecting
+ * the other rules.
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { getScreeningRulesDirectory } from "../config.js";
+import { isErrnoException } from "../utils/error-handler.js";
+import { logger } from "../utils/logger.js";
+
+export type RuleMetaValue = string | number | boolean;
+
+export interface TextPattern {
+  kind: "text";
+  value: string;
+  nocase: boolean;
+  ascii: boolean;
+  wide: boolean;
+  fullword: boolean;
+}
+
+/** A byte compared under a mask (0x00 for ??), or a jump over min-max bytes */
+export type HexToken =
+  { byte: number; mask: number } | { min: number; max: number };
+
+export interface HexPattern {
+  kind: "hex";
+  tokens: HexToken[];
+}
+
+export interface RuleString {
+  /** Identifier including the $, e.g. "$mz" */
+  identifier: string;
+  pattern: TextPattern | HexPattern;
+}
+
+export type NumericExpr =
+  | { kind: "number"; value: number }
+  | { kind: "filesize" }
+  | { kind: "count"; identifier: string }
+  | { kind: "offset"; identifier: string }
+  | { kind: "uint"; bytes: 1 | 2 | 4; bigEndian: boolean; at: NumericExpr };
+
+export type CompareOperator = "==" | "!=" | "<" | "<=" | ">" | ">=";
+
+export type ConditionExpr =
+  | { kind: "boolean"; value: boolean }
+  | { kind: "not"; operand: ConditionExpr }
+  | { kind: "and" | "or"; operands: ConditionExpr[] }
+  | {
+      kind: "match";
+      identifier: string;
+      at?: NumericExpr;
+      range?: [NumericExpr, NumericExpr];
+    }
+  | {
+      kind: "of";
+      quantifier: "any" | "all" | NumericExpr;
+      identifiers: string[];
+    }
+  | {
+      kind: "compare";
+      operator: CompareOperator;
+      left: NumericExpr;
+      right: NumericExpr;
+    };
+
+export interface SignatureRule {
+  name: string;
+  tags: string[];
+  meta: Record<string, RuleMetaValue>;
+  strings: RuleString[];
+  condition: ConditionExpr;
+  /** Rule file the rule was loaded from */
+  file: string;
+  line: number;
+}
+
+export interface RuleLoadError {
+  file: string;
+  line: number;
+  /** Name of the rule, when the error is inside one */
+  rule?: string;
+  message: string;
+}
+
+export interface RuleMatch {
+  rule: string;
+  tags: string[];
+  /** From the rule's severity meta; "error" unless it says "warning" */
+  severity: "warning" | "error";
+  description?: string;
+  file: string;
+  /** First offset of each string that matched */
+  strings: Array<{ identifier: string; offset: number }>;
+}
+
+/** Result of scanning one file */
+export interface RuleScan {
+  matches: RuleMatch[];
+  /** Rules that failed on this file, such as by running out of matching budget */
+  unevaluated: Array<{ rule: string; file: string; message: string }>;
+}
+
+export interface SignatureRuleServiceOptions {
+  /** Directory of rule files (default: the configured screening rules directory) */
+  rulesDir?: string;
+  /** Bytes from the start of each file that rules are evaluated on (default 16 MB) */
+  maxScanBytes?: number;
+  /** How long loaded rules are reused before rule files are checked for changes (default 2 s) */
+  reloadIntervalMs?: number;
+}
+
+const RULE_FILE_EXTENSIONS = [".yar", ".yara", ".rules"];
+const DEFAULT_MAX_SCAN_BYTES = 16 * 1024 * 1024;
+const DEFAULT_RELOAD_INTERVAL_MS = 2000;
+/** Longest [n-m] jump allowed in a hex string */
+const MAX_HEX_JUMP = 256;
+/** Jumps allowed in one hex string */
+const MAX_HEX_JUMPS = 4;
+/**
+ * Hex matching steps a rule may take per scanned byte before it is aborted.
+ * A step is one position tried for one token, so patterns without jumps
+ * rarely take more than one or two per byte.
+ */
+const HEX_STEPS_PER_BYTE = 16;
+const MIN_HEX_STEPS = 1_000_000;
+/** Matches recorded per string; counts above this are capped */
+const MAX_MATCHES_PER_STRING = 1000;
+const TEXT_MODIFIERS = ["nocase", "ascii", "wide", "fullword"];
+const COMPARE_OPERATORS: CompareOperator[] = ["==", "!=", "<", "<=", ">", ">="];
+
+// ==================== Parsing ====================
+
+interface Token {
+  type:
+    | "identifier"
+    | "variable"
+    | "count"
+    | "offset"
+    | "number"
+    | "string"
+    | "hex"
+    | "punct"
+    | "invalid"
+    | "eof";
+  /** Source text, decoded text for strings, or the message for invalid tokens */
+  value: string;
+  line: number;
+}
+
+class RuleSyntaxError extends Error {
+  constructor(
+    message: string,
+    readonly line: number,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Parse the rules of one rule file. Rules with errors are left out and
+ * reported; the rules around them are still returned.
+ */
+export function parseSignatureRules(
+  source: string,
+  file = "<inline>",
+): { rules: SignatureRule[]; errors: RuleLoadError[] } {
+  return new RuleParser(tokenize(source), file).parse();
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let i = 0;
+
+  const push = (type: Token["type"], value: string, at = line) =>
+    tokens.push({ type, value, line: at });
+  const read = (pattern: RegExp): string => {
+    pattern.lastIndex = i;
+    const text = pattern.exec(source)?.[0] ?? "";
+    i += text.length;
+    return text;
+  };
+
+  while (i < source.length) {
+    const ch = source[i]!;
+
+    if (ch === "\n") {
+      line++;
+      i++;
+    } else if (/\s/.test(ch)) {
+      i++;
+    } else if (source.startsWith("//", i)) {
+      const end = source.indexOf("\n", i);
+      i = end === -1 ? source.length : end;
+    } else if (source.startsWith("/*", i)) {
+      const end = source.indexOf("*/", i + 2);
+      if (end === -1) {
+        push("invalid", "Unterminated comment");
+        break;
+      }
+      line += countLines(source.slice(i, end));
+      i = end + 2;
+    } else if (ch === '"') {
+      const start = line;
+      let value = "";
+      let error: string | undefined;
+      i++;
+      while (i < source.length && source[i] !== '"' && source[i] !== "\n") {
+        if (source[i] !== "\\") {
+          value += source[i++];
+          continue;
+        }
+        const escaped = source[i + 1];
+        const hex = source.slice(i + 2, i + 4);
+        if (escaped === "x" && /^[0-9a-fA-F]{2}$/.test(hex)) {
+          value += String.fromCharCode(parseInt(hex, 16));
+          i += 4;
+        } else if (escaped !== undefined && escaped in STRING_ESCAPES) {
+          value += STRING_ESCAPES[escaped];
+          i += 2;
+        } else {
+          error ??= `Invalid escape sequence "\\${escaped ?? ""}"`;
+          i += 2;
+        }
+      }
+      if (source[i] !== '"') {
+        push("invalid", "Unterminated string", start);
+        continue;
+      }
+      i++;
+      push(error ? "invalid" : "string", error ?? value, start);
+    } else if (
+      ch === "{" &&
+      tokens.at(-1)?.type === "punct" &&
+      tokens.at(-1)?.value === "="
+    ) {
+      const end = source.indexOf("}", i);
+      if (end === -1) {
+        push("invalid", "Unterminated hex string");
+        break;
+      }
+      push("hex", source.slice(i + 1, end));
+      line += countLines(source.slice(i, end));
+      i = end + 1;
+    } else if (ch === "$") {
+      push("variable", read(/\$[A-Za-z0-9_]*\*?/y));
+    } else if (ch === "#" || ch === "@") {
+      push(ch === "#" ? "count" : "offset", read(/[#@][A-Za-z0-9_]*/y));
+    } else if (/[0-9]/.test(ch)) {
+      push("number", read(/0x[0-9a-fA-F]+|[0-9]+(?:KB|MB)?/y));
+    } else if (/[A-Za-z_]/.test(ch)) {
+      push("identifier", read(/[A-Za-z_][A-Za-z0-9_]*/y));
+    } else {
+      const punct = ["..", "==", "!=", "<=", ">="].find((p) =>
+        source.startsWith(p, i),
+      );
+      if (punct) {
+        push("punct", punct);
+        i += 2;
+      } else if ("(){}[],:=<>".includes(ch)) {
+        push("punct", ch);
+        i++;
+      } else {
+        push("invalid", `Unexpected character "${ch}"`);
+        i++;
+      }
+    }
+  }
+
+  tokens.push({ type: "eof", value: "", line });
+  return tokens;
+}
+
+const STRING_ESCAPES: Record<string, string> = {
+  '"': '"',
+  "\\": "\\",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+};
+
+function countLines(text: string): number {
+  return text.split("\n").length - 1;
+}
+
+class RuleParser {
+  private pos = 0;
+  private currentRule: string | undefined;
+  private strings: RuleString[] = [];
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly file: string,
+  ) {}
+
+  parse(): { rules: SignatureRule[]; errors: RuleLoadError[] } {
+    const rules: SignatureRule[] = [];
+    const errors: RuleLoadError[] = [];
+
+    while (this.peek().type !== "eof") {
+      this.currentRule = undefined;
+      try {
+        rules.push(this.parseRule());
+      } catch (error) {
+        if (!(error instanceof RuleSyntaxError)) throw error;
+        errors.push({
+          file: this.file,
+          line: error.line,
+          ...(this.currentRule ? { rule: this.currentRule } : {}),
+          message: error.message,
+        });
+        this.skipToNextRule();
+      }
+    }
+    return { rules, errors };
+  }
+
+  private parseRule(): SignatureRule {
+    const line = this.expectKeyword("rule").line;
+    const name = this.expect("identifier", "a rule name").value;
+    this.currentRule = name;
+
+    const tags: string[] = [];
+    if (this.acceptPunct(":")) {
+      do {
+        tags.push(this.expect("identifier", "a tag").value);
+      } while (this.peek().type === "identifier");
+    }
+    this.expectPunct("{");
+
+    const meta: Record<string, RuleMetaValue> = {};
+    if (this.acceptSection("meta")) {
+      while (this.peek().type === "identifier" && !this.atSection()) {
+        const key = this.next().value;
+        this.expectPunct("=");
+        meta[key] = this.parseMetaValue();
+      }
+    }
+    if (
+      meta.severity !== undefined &&
+      meta.severity !== "warning" &&
+      meta.severity !== "error"
+    ) {
+      throw new RuleSyntaxError(
+        'Meta "severity" must be "warning" or "error"',
+        line,
+      );
+    }
+
+    this.strings = [];
+    if (this.acceptSection("strings")) {
+      while (this.peek().type === "variable") {
+        this.strings.push(this.parseString());
+      }
+    }
+
+    if (!this.acceptSection("condition")) {
+      this.fail(this.peek(), '"condition:"');
+    }
+    const condition = this.parseOr();
+    this.expectPunct("}");
+
+    return {
+      name,
+      tags,
+      meta,
+      strings: this.strings,
+      condition,
+      file: this.file,
+      line,
+    };
+  }
+
+  private parseMetaValue(): RuleMetaValue {
+    const token = this.next();
+    if (token.type === "string") return token.value;
+    if (token.type === "number") return parseNumber(token);
+    if (
+      token.type === "identifier" &&
+      ["true", "false"].includes(token.value)
+    ) {
+      return token.value === "true";
+    }
+    return this.fail(token, "a string, number or boolean");
+  }
+
+  private parseString(): RuleString {
+    const idToken = this.next();
+    const identifier = idToken.value;
+    if (identifier === "$" || identifier.endsWith("*")) {
+      throw new RuleSyntaxError(
+        `Strings need a name, "${identifier}" is not one`,
+        idToken.line,
+      );
+    }
+    if (this.strings.some((s) => s.identifier === identifier)) {
+      throw new RuleSyntaxError(`Duplicate string ${identifier}`, idToken.line);
+    }
+    this.expectPunct("=");
+
+    const token = this.next();
+    if (token.type === "hex") {
+      return { identifier, pattern: parseHexString(token) };
+    }
+    if (token.type !== "string") {
+      return this.fail(token, "a text or hex string");
+    }
+    if (token.value.length === 0) {
+      throw new RuleSyntaxError(`String ${identifier} is empty`, token.line);
+    }
+
+    const modifiers = new Set<string>();
+    while (this.peek().type === "identifier" && !this.atSection()) {
+      const modifier = this.next();
+      if (!TEXT_MODIFIERS.includes(modifier.value)) {
+        throw new RuleSyntaxError(
+          `Unsupported string modifier "${modifier.value}"`,
+          modifier.line,
+        );
+      }
+      modifiers.add(modifier.value);
+    }
+
+    const wide = modifiers.has("wide");
+    return {
+      identifier,
+      pattern: {
+        kind: "text",
+        value: token.value,
+        nocase: modifiers.has("nocase"),
+        ascii: modifiers.has("ascii") || !wide,
+        wide,
+        fullword: modifiers.has("fullword"),
+      },
+    };
+  }
+
+  private parseOr(): ConditionExpr {
+    const operands = [this.parseAnd()];
+    while (this.acceptKeyword("or")) operands.push(this.parseAnd());
+    return operands.length === 1 ? operands[0]! : { kind: "or", operands };
+  }
+
+  private parseAnd(): ConditionExpr {
+    const operands = [this.parseNot()];
+    while (this.acceptKeyword("and")) operands.push(this.parseNot());
+    return operands.length === 1 ? operands[0]! : { kind: "and", operands };
+  }
+
+  private parseNot(): ConditionExpr {
+    if (this.acceptKeyword("not")) {
+      return { kind: "not", operand: this.parseNot() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ConditionExpr {
+    const token = this.peek();
+
+    if (this.acceptPunct("(")) {
+      const expr = this.parseOr();
+      this.expectPunct(")");
+      return expr;
+    }
+    if (
+      token.type === "identifier" &&
+      ["true", "false"].includes(token.value)
+    ) {
+      this.next();
+      return { kind: "boolean", value: token.value === "true" };
+    }
+    if (token.type === "variable") {
+      this.next();
+      const identifier = this.resolveIdentifier(token);
+      if (this.acceptKeyword("at")) {
+        return { kind: "match", identifier, at: this.parseNumeric() };
+      }
+      if (this.acceptKeyword("in")) {
+        this.expectPunct("(");
+        const from = this.parseNumeric();
+        this.expectPunct("..");
+        const to = this.parseNumeric();
+        this.expectPunct(")");
+        return { kind: "match", identifier, range: [from, to] };
+      }
+      return { kind: "match", identifier };
+    }
+    if (
+      token.type === "identifier" &&
+      (token.value === "any" || token.value === "all")
+    ) {
+      this.next();
+      this.expectKeyword("of");
+      return {
+        kind: "of",
+        quantifier: token.value,
+        identifiers: this.parseStringSet(),
+      };
+    }
+    if (token.type === "number" && this.peek(1).value === "of") {
+      this.next();
+      this.next();
+      return {
+        kind: "of",
+        quantifier: { kind: "number", value: parseNumber(token) },
+        identifiers: this.parseStringSet(),
+      };
+    }
+
+    const left = this.parseNumeric();
+    const operator = this.next();
+    if (
+      operator.type !== "punct" ||
+      !COMPARE_OPERATORS.includes(operator.value as CompareOperator)
+    ) {
+      return this.fail(operator, "a comparison operator");
+    }
+    return {
+      kind: "compare",
+      operator: operator.value as CompareOperator,
+      left,
+      right: this.parseNumeric(),
+    };
+  }
+
+  private parseNumeric(): NumericExpr {
+    const token = this.next();
+    if (token.type === "number") {
+      return { kind: "number", value: parseNumber(token) };
+    }
+    if (token.type === "count" || token.type === "offset") {
+      return {
+        kind: token.type,
+        identifier: this.resolveIdentifier(token),
+      };
+    }
+    if (token.type === "identifier" && token.value === "filesize") {
+      return { kind: "filesize" };
+    }
+    const uint =
+      token.type === "identifier"
+        ? /^uint(8|16|32)(be)?$/.exec(token.value)
+        : null;
+    if (uint) {
+      this.expectPunct("(");
+      const at = this.parseNumeric();
+      this.expectPunct(")");
+      return {
+        kind: "uint",
+        bytes: (Number(uint[1]) / 8) as 1 | 2 | 4,
+        bigEndian: uint[2] !== undefined,
+        at,
+      };
+    }
+    return this.fail(token, "a condition");
+  }
+
+  /** `them` or a parenthesised list of strings, where $a* matches a prefix */
+  private parseStringSet(): string[] {
+    if (this.acceptKeyword("them")) {
+      if (this.strings.length === 0) {
+        throw new RuleSyntaxError(
+          '"them" used in a rule without strings',
+          this.peek().line,
+        );
+      }
+      return this.strings.map((s) => s.identifier);
+    }
+
+    const identifiers = new Set<string>();
+    this.expectPunct("(");
+    do {
+      const token = this.expect("variable", "a string identifier");
+      if (token.value.endsWith("*")) {
+        const prefix = token.value.slice(0, -1);
+        const matching = this.strings.filter((s) =>
+          s.identifier.startsWith(prefix),
+        );
+        if (matching.length === 0) {
+          throw new RuleSyntaxError(
+            `No strings match ${token.value}`,
+            token.line,
+          );
+        }
+        matching.forEach((s) => identifiers.add(s.identifier));
+      } else {
+        identifiers.add(this.resolveIdentifier(token));
+      }
+    } while (this.acceptPunct(","));
+    this.expectPunct(")");
+    return [...identifiers];
+  }
+
+  /** The $ identifier a $a, #a or @a token refers to, which must be defined */
+  private resolveIdentifier(token: Token): string {
+    const identifier = `$${token.value.slice(1)}`;
+    if (identifier === "$" || identifier.endsWith("*")) {
+      this.fail(token, "a string identifier");
+    }
+    if (!this.strings.some((s) => s.identifier === identifier)) {
+      throw new RuleSyntaxError(`Undefined string ${identifier}`, token.line);
+    }
+    return identifier;
+  }
+
+  private skipToNextRule(): void {
+    if (this.peek().type !== "eof") this.pos++;
+    while (
+      this.peek().type !== "eof" &&
+      !(this.peek().type === "identifier" && this.peek().value === "rule")
+    ) {
+      this.pos++;
+    }
+  }
+
+  private peek(ahead = 0): Token {
+    return (
+      this.tokens[Math.min(this.pos + ahead, this.tokens.length - 1)] ??
+      this.tokens[this.tokens.length - 1]!
+    );
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== "eof") this.pos++;
+    return token;
+  }
+
+  private atSection(): boolean {
+    return (
+      ["meta", "strings", "condition"].includes(this.peek().value) &&
+      this.peek(1).value === ":"
+    );
+  }
+
+  private acceptSection(name: string): boolean {
+    if (this.peek().value !== name || this.peek(1).value !== ":") return false;
+    this.pos += 2;
+    return true;
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    const token = this.peek();
+    if (token.type !== "identifier" || token.value !== keyword) return false;
+    this.pos++;
+    return true;
+  }
+
+  private acceptPunct(punct: string): boolean {
+    const token = this.peek();
+    if (token.type !== "punct" || token.value !== punct) return false;
+    this.pos++;
+    return true;
+  }
+
+  private expectKeyword(keyword: string): Token {
+    const token = this.peek();
+    if (!this.acceptKeyword(keyword)) this.fail(token, `"${keyword}"`);
+    return token;
+  }
+
+  private expectPunct(punct: string): Token {
+    const token = this.peek();
+    if (!this.acceptPunct(punct)) this.fail(token, `"${punct}"`);
+    return token;
+  }
+
+  private expect(type: Token["type"], description: string): Token {
+    const token = this.peek();
+    if (token.type !== type) this.fail(token, description);
+    return this.next();
+  }
+
+  private fail(token: Token, expected: string): never {
+    if (token.type === "invalid") {
+      throw new RuleSyntaxError(token.value, token.line);
+    }
+    const found =
+      token.type === "eof"
+        ? "end of file"
+        : token.type === "hex"
+          ? "hex string"
+          : `"${token.value}"`;
+    throw new RuleSyntaxError(
+      `Expected ${expected} but found ${found}`,
+      token.line,
+    );
+  }
+}
+
+function parseNumber(token: Token): number {
+  const text = token.value;
+  if (text.startsWith("0x")) return parseInt(text.slice(2), 16);
+  const multiplier = text.endsWith("MB")
+    ? 1024 * 1024
+    : text.endsWith("KB")
+      ? 1024
+      : 1;
+  return parseInt(text, 10) * multiplier;
+}
+
+function parseHexString(token: Token): HexPattern {
+  const text = token.value.replace(/\s+/g, "");
+  const tokens: HexToken[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    if (text[i] === "[") {
+      const end = text.indexOf("]", i);
+      const jump = /^(\d+)(?:-(\d*))?$/.exec(
+        end === -1 ? "" : text.slice(i + 1, end),
+      );
+      if (!jump || jump[2] === "") {
+        throw new RuleSyntaxError(
+          "Hex jumps must be [n] or [n-m] with both bounds",
+          token.line,
+        );
+      }
+      const min = Number(jump[1]);
+      const max = jump[2] === undefined ? min : Number(jump[2]);
+      if (min > max || max > MAX_HEX_JUMP) {
+        throw new RuleSyntaxError(
+          `Hex jump [${min}-${max}] must be ordered and at most ${MAX_HEX_JUMP} bytes`,
+          token.line,
+        );
+      }
+      if (tokens.filter((t) => "min" in t).length === MAX_HEX_JUMPS) {
+        throw new RuleSyntaxError(
+          `Hex strings may have at most ${MAX_HEX_JUMPS} jumps`,
+          token.line,
+        );
+      }
+      tokens.push({ min, max });
+      i = end + 1;
+      continue;
+    }
+    if (text[i] === "(" || text[i] === "|") {
+      throw new RuleSyntaxError(
+        "Alternatives in hex strings are not supported",
+        token.line,
+      );
+    }
+
+    const pair = text.slice(i, i + 2);
+    if (!/^[0-9a-fA-F?]{2}$/.test(pair)) {
+      throw new RuleSyntaxError(`Invalid hex byte "${pair}"`, token.line);
+    }
+    const nibble = (c: string) => (c === "?" ? 0 : parseInt(c, 16));
+    const mask = (pair[0] === "?" ? 0 : 0xf0) | (pair[1] === "?" ? 0 : 0x0f);
+    tokens.push({
+      byte: ((nibble(pair[0]!) << 4) | nibble(pair[1]!)) & mask,
+      mask,
+    });
+    i += 2;
+  }
+
+  if (tokens.length === 0 || "min" in tokens[0]! || "min" in tokens.at(-1)!) {
+    throw new RuleSyntaxError(
+      "Hex strings must start and end with a byte",
+      token.line,
+    );
+  }
+  return { kind: "hex", tokens };
+}
+
+// ==================== Matching ====================
+
+/**
+ * Evaluate rules against the content of a file. A rule that fails to
+ * evaluate, or takes more hex matching work than the content size allows,
+ * is skipped and passed to onRuleError.
+ * @param data - File content, or its first bytes for large files
+ * @param fileSize - Full size of the file, for the filesize keyword
+ */
+export function matchSignatureRules(
+  rules: SignatureRule[],
+  data: Buffer,
+  fileSize = data.length,
+  onRuleError: (rule: SignatureRule, error: Error) => void = (rule, error) =>
+    logger.warn(`Signature rule ${rule.name} failed: ${error.message}`),
+): RuleMatch[] {
+  const content = new ScanContent(data);
+  const matches: RuleMatch[] = [];
+  const maxSteps = Math.max(MIN_HEX_STEPS, data.length * HEX_STEPS_PER_BYTE);
+
+  for (const rule of rules) {
+    try {
+      const evaluation = new RuleEvaluation(rule, content, fileSize, maxSteps);
+      if (!evaluation.evaluate(rule.condition)) continue;
+      matches.push({
+        rule: rule.name,
+        tags: rule.tags,
+        severity: rule.meta.severity === "warning" ? "warning" : "error",
+        ...(typeof rule.meta.description === "string" && {
+          description: rule.meta.description,
+        }),
+        file: rule.file,
+        strings: evaluation.matchedStrings(),
+      });
+    } catch (error) {
+      onRuleError(rule, error as Error);
+    }
+  }
+  return matches;
+}
+
+/** File content shared by all rules, with a lowercased copy made on demand */
+class ScanContent {
+  private lowercased: Buffer | undefined;
+
+  constructor(readonly data: Buffer) {}
+
+  get lower(): Buffer {
+    this.lowercased ??= asciiLowerCase(this.data);
+    return this.lowercased;
+  }
+}
+
+class RuleEvaluation {
+  private readonly offsets = new Map<string, number[]>();
+  private readonly budget: HexBudget;
+
+  constructor(
+    private readonly rule: SignatureRule,
+    private readonly content: ScanContent,
+    private readonly fileSize: number,
+    maxSteps: number,
+  ) {
+    this.budget = { remaining: maxSteps, maxSteps };
+  }
+
+  evaluate(expr: ConditionExpr): boolean {
+    switch (expr.kind) {
+      case "boolean":
+        return expr.value;
+      case "not":
+        return !this.evaluate(expr.operand);
+      case "and":
+        return expr.operands.every((e) => this.evaluate(e));
+      case "or":
+        return expr.operands.some((e) => this.evaluate(e));
+      case "match": {
+        const offsets = this.matchesOf(expr.identifier);
+        if (expr.at) {
+          const at = this.numeric(expr.at);
+          return at !== undefined && offsets.includes(at);
+        }
+        if (expr.range) {
+          const from = this.numeric(expr.range[0]);
+          const to = this.numeric(expr.range[1]);
+          return (
+            from !== undefined &&
+            to !== undefined &&
+            offsets.some((o) => o >= from && o <= to)
+          );
+        }
+        return offsets.length > 0;
+      }
+      case "of": {
+        const matched = expr.identifiers.filter(
+          (id) => this.matchesOf(id).length > 0,
+        ).length;
+        if (expr.quantifier === "any") return matched > 0;
+        if (expr.quantifier === "all")
+          return matched === expr.identifiers.length;
+        const required = this.numeric(expr.quantifier);
+        return required !== undefined && matched >= required;
+      }
+      case "compare": {
+        const left = this.numeric(expr.left);
+        const right = this.numeric(expr.right);
+        if (left === undefined || right === undefined) return false;
+        switch (expr.operator) {
+          case "==":
+            return left === right;
+          case "!=":
+            return left !== right;
+          case "<":
+            return left < right;
+          case "<=":
+            return left <= right;
+          case ">":
+            return left > right;
+          case ">=":
+            return left >= right;
+        }
+      }
+    }
+  }
+
+  /** First offset of every string looked up during evaluation that matched */
+  matchedStrings(): Array<{ identifier: string; offset: number }> {
+    return [...this.offsets]
+      .filter(([, offsets]) => offsets.length > 0)
+      .map(([identifier, offsets]) => ({ identifier, offset: offsets[0]! }));
+  }
+
+  /** undefined where YARA's value would be undefined, e.g. a read past the end */
+  private numeric(expr: NumericExpr): number | undefined {
+    switch (expr.kind) {
+      case "number":
+        return expr.value;
+      case "filesize":
+        return this.fileSize;
+      case "count":
+        return this.matchesOf(expr.identifier).length;
+      case "offset":
+        return this.matchesOf(expr.identifier)[0];
+      case "uint": {
+        const at = this.numeric(expr.at);
+        const { data } = this.content;
+        if (at === undefined || at < 0 || at + expr.bytes > data.length) {
+          return undefined;
+        }
+        return expr.bigEndian
+          ? data.readUIntBE(at, expr.bytes)
+          : data.readUIntLE(at, expr.bytes);
+      }
+    }
+  }
+
+  private matchesOf(identifier: string): number[] {
+    let offsets = this.offsets.get(identifier);
+    if (!offsets) {
+      const string = this.rule.strings.find((s) => s.identifier === identifier);
+      if (!string) throw new Error(`Undefined string ${identifier}`);
+      offsets =
+        string.pattern.kind === "hex"
+          ? findHexMatches(string.pattern, this.content.data, this.budget)
+          : findTextMatches(string.pattern, this.content);
+      this.offsets.set(identifier, offsets);
+    }
+    return offsets;
+  }
+}
+
+function findTextMatches(pattern: TextPattern, content: ScanContent): number[] {
+  const { data } = content;
+  const offsets = new Set<number>();
+
+  const encodings: BufferEncoding[] = [];
+  if (pattern.ascii) encodings.push("utf8");
+  if (pattern.wide) encodings.push("utf16le");
+
+  for (const encoding of encodings) {
+    const encoded = Buffer.from(pattern.value, encoding);
+    const needle = pattern.nocase ? asciiLowerCase(encoded) : encoded;
+    const haystack = pattern.nocase ? content.lower : data;
+    const charWidth = encoding === "utf16le" ? 2 : 1;
+
+    let at = haystack.indexOf(needle);
+    while (at !== -1 && offsets.size < MAX_MATCHES_PER_STRING) {
+      if (
+        !pattern.fullword ||
+        (!isWordByte(data[at - charWidth]) &&
+          !isWordByte(data[at + needle.length]))
+      ) {
+        offsets.add(at);
+      }
+      at = haystack.indexOf(needle, at + 1);
+    }
+  }
+  return [...offsets].sort((a, b) => a - b);
+}
+
+/** Hex matching steps left to one rule while it is evaluated */
+interface HexBudget {
+  remaining: number;
+  maxSteps: number;
+}
+
+function spendHexSteps(budget: HexBudget, steps: number): void {
+  budget.remaining -= steps;
+  if (budget.remaining < 0) {
+    throw new Error(`Hex matching exceeded ${budget.maxSteps} steps`);
+  }
+}
+
+function findHexMatches(
+  pattern: HexPattern,
+  data: Buffer,
+  budget: HexBudget,
+): number[] {
+  const offsets: number[] = [];
+  const first = pattern.tokens[0] as { byte: number; mask: number };
+
+  for (let at = 0; at < data.length; at++) {
+    if (first.mask === 0xff) {
+      at = data.indexOf(first.byte, at);
+      if (at === -1) break;
+    }
+    if (matchHexAt(data, pattern.tokens, at, budget)) {
+      offsets.push(at);
+      if (offsets.length >= MAX_MATCHES_PER_STRING) break;
+    }
+  }
+  return offsets;
+}
+
+/**
+ * Whether the tokens match at a position. Instead of backtracking over
+ * jumps, this tracks the sorted set of positions each token can be reached
+ * at, so a position is never tried twice for the same token.
+ */
+function matchHexAt(
+  data: Buffer,
+  tokens: HexToken[],
+  position: number,
+  budget: HexBudget,
+): boolean {
+  let positions = [position];
+  for (const token of tokens) {
+    spendHexSteps(budget, positions.length);
+    const next: number[] = [];
+    if ("min" in token) {
+      for (const pos of positions) {
+        const from = Math.max(pos + token.min, (next.at(-1) ?? -1) + 1);
+        const to = Math.min(pos + token.max, data.length - 1);
+        for (let p = from; p <= to; p++) next.push(p);
+      }
+    } else {
+      for (const pos of positions) {
+        const byte = data[pos];
+        if (byte !== undefined && (byte & token.mask) === token.byte) {
+          next.push(pos + 1);
+        }
+      }
+    }
+    if (next.length === 0) return false;
+    positions = next;
+  }
+  return true;
+}
+
+function asciiLowerCase(buffer: Buffer): Buffer {
+  const lower = Buffer.from(buffer);
+  for (let i = 0; i < lower.length; i++) {
+    const byte = lower[i]!;
+    if (byte >= 0x41 && byte <= 0x5a) lower[i] = byte + 0x20;
+  }
+  return lower;
+}
+
+function isWordByte(byte: number | undefined): boolean {
+  return (
+    byte !== undefined &&
+    ((byte >= 0x30 && byte <= 0x39) ||
+      (byte >= 0x41 && byte <= 0x5a) ||
+      (byte >= 0x61 && byte <= 0x7a))
+  );
+}
+
+// ==================== Loading ====================
+
+interface LoadedRuleFile {
+  mtimeMs: number;
+  size: number;
+  rules: SignatureRule[];
+  errors: RuleLoadError[];
+}
+
+/**
+ * Signature Rules Service
+ */
+export class SignatureRuleService {
+  private readonly files = new Map<string, LoadedRuleFile>();
+  private rules: SignatureRule[] = [];
+  private errors: RuleLoadError[] = [];
+  private checkedAt = 0;
+  private loading: Promise<SignatureRule[]> | undefined;
+
+  constructor(private readonly options: SignatureRuleServiceOptions = {}) {}
+
+  /**
+   * Rules from every rule file. Files that changed since the last check are
+   * re-read; this check runs at most once per reload interval.
+   */
+  async getRules(): Promise<SignatureRule[]> {
+    const interval =
+      this.options.reloadIntervalMs ?? DEFAULT_RELOAD_INTERVAL_MS;
+    if (this.checkedAt > 0 && Date.now() - this.checkedAt < interval) {
+      return this.rules;
+    }
+    this.loading ??= this.reload().finally(() => {
+      this.loading = undefined;
+    });
+    return this.loading;
+  }
+
+  /**
+   * Problems found in the rule files by the last reload
+   */
+  getErrors(): RuleLoadError[] {
+    return this.errors;
+  }
+
+  /**
+   * Check the rules directory now, re-reading new and changed rule files
+   * and dropping rules of removed ones
+   */
+  async reload(): Promise<SignatureRule[]> {
+    const directory = this.options.rulesDir ?? getScreeningRulesDirectory();
+    let names: string[] = [];
+    try {
+      names = (await fs.readdir(directory))
+        .filter((name) =>
+          RULE_FILE_EXTENSIONS.includes(path.extname(name).toLowerCase()),
+        )
+        .sort();
+    } catch (error) {
+      if (!isErrnoException(error) || error.code !== "ENOENT") {
+        logger.warn(
+          `Cannot read signature rules directory ${directory}: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    const current = new Map<string, LoadedRuleFile>();
+    for (const name of names) {
+      const file = path.join(directory, name);
+      const loaded = await this.loadFile(file);
+      if (loaded) current.set(file, loaded);
+    }
+    this.files.clear();
+    current.forEach((loaded, file) => this.files.set(file, loaded));
+
+    const rules: SignatureRule[] = [];
+    const errors: RuleLoadError[] = [];
+    const ruleNames = new Set<string>();
+    for (const loaded of current.values()) {
+      errors.push(...loaded.errors);
+      for (const rule of loaded.rules) {
+        if (ruleNames.has(rule.name)) {
+          errors.push({
+            file: rule.file,
+            line: rule.line,
+            rule: rule.name,
+            message: `Duplicate rule name ${rule.name}; the first definition is used`,
+          });
+          continue;
+        }
+        ruleNames.add(rule.name);
+        rules.push(rule);
+      }
+    }
+
+    this.rules = rules;
+    this.errors = errors;
+    this.checkedAt = Date.now();
+    return rules;
+  }
+
+  /**
+   * Rules that match the content of a file, and rules that could not be
+   * evaluated on it. A rule that fails on one file is still used for the next.
+   */
+  async scanFile(filePath: string): Promise<RuleScan> {
+    const rules = await this.getRules();
+    const unevaluated: RuleScan["unevaluated"] = [];
+    if (rules.length === 0) return { matches: [], unevaluated };
+
+    const handle = await fs.open(filePath, "r");
+    try {
+      const { size } = await handle.stat();
+      const maxBytes = this.options.maxScanBytes ?? DEFAULT_MAX_SCAN_BYTES;
+      const buffer = Buffer.alloc(Math.min(size, maxBytes));
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+      const matches = matchSignatureRules(
+        rules,
+        buffer.subarray(0, bytesRead),
+        size,
+        (rule, error) => {
+          logger.warn(
+            `Signature rule ${rule.name} failed on ${filePath}: ${error.message}`,
+          );
+          unevaluated.push({
+            rule: rule.name,
+            file: rule.file,
+            message: error.message,
+          });
+        },
+      );
+      return { matches, unevaluated };
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /** The parsed file, reused while it is unchanged */
+  private async loadFile(file: string): Promise<LoadedRuleFile | undefined> {
+    try {
+      const stats = await fs.stat(file);
+      if (!stats.isFile()) return undefined;
+
+      const cached = this.files.get(file);
+      if (
+        cached &&
+        cached.mtimeMs === stats.mtimeMs &&
+        cached.size === stats.size
+      ) {
+        return cached;
+      }
+
+      const { rules, errors } = parseSignatureRules(
+        await fs.readFile(file, "utf8"),
+        file,
+      );
+      for (const error of errors) {
+        logger.warn(
+          `Signature rule error in ${file}:${error.line}${error.rule ? ` (${error.rule})` : ""}: ${error.message}`,
+        );
+      }
+      logger.info(`Loaded ${rules.length} signature rules from ${file}`);
+      return { mtimeMs: stats.mtimeMs, size: stats.size, rules, errors };
+    } catch (error) {
+      if (isErrnoException(error) && error.code === "ENOENT") return undefined;
+      return {
+        mtimeMs: Number.NaN,
+        size: -1,
+        rules: [],
+        errors: [{ file, line: 0, message: (error as Error).message }],
+      };
+    }
+  }
+}
+
+export const signatureRuleService = new SignatureRuleService();
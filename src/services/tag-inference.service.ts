@@ -0,0 +1,243 @@
+/**
+ * File Organizer MCP Server v3.5.0
+ * Tag Inference Service
+ *
+ * @module services/tag-inference.service
+ * @description Infers missing audio tags from file and folder names using
+ * path patterns such as `{artist}/{album}/{track} - {title}`. Every inferred
+ * field carries a confidence so callers can decide what to trust.
+ */
+
+import path from "path";
+
+/** Fields that can be read from a path */
+export type InferableField =
+  | "artist"
+  | "album"
+  | "title"
+  | "trackNumber"
+  | "discNumber"
+  | "year"
+  | "genre";
+
+export interface InferredValue {
+  value: string | number;
+  /** 0..1 */
+  confidence: number;
+}
+
+export interface TagInference {
+  /** Pattern that matched the path */
+  pattern: string;
+  fields: Partial<Record<InferableField, InferredValue>>;
+}
+
+export interface TagInferenceOptions {
+  /** Patterns tried in order; the first match wins */
+  patterns?: string[];
+  /** Only path segments below this directory are matched */
+  rootDir?: string;
+}
+
+/**
+ * Patterns tried when none are configured, most specific first
+ */
+export const DEFAULT_INFERENCE_PATTERNS = [
+  "{artist}/{year} - {album}/{track} - {title}",
+  "{artist}/{album}/{disc}-{track} - {title}",
+  "{artist}/{album}/{track} - {title}",
+  "{artist} - {album}/{track} - {title}",
+  "{artist}/{album}/{track}. {title}",
+  "{album}/{track} - {artist} - {title}",
+  "{track} - {title}",
+  "{artist} - {title}",
+];
+
+const PLACEHOLDERS = new Map<string, InferableField>([
+  ["artist", "artist"],
+  ["album", "album"],
+  ["title", "title"],
+  ["track", "trackNumber"],
+  ["disc", "discNumber"],
+  ["year", "year"],
+  ["genre", "genre"],
+]);
+
+const NUMERIC_FIELDS = new Set<InferableField>([
+  "trackNumber",
+  "discNumber",
+  "year",
+]);
+
+/** Folder names that say nothing about the music inside them */
+const GENERIC_NAMES = new Set([
+  "music",
+  "my music",
+  "audio",
+  "songs",
+  "tracks",
+  "downloads",
+  "desktop",
+  "new folder",
+  "unknown",
+  "unknown artist",
+  "unknown album",
+  "untitled",
+  "mp3",
+  "flac",
+  "misc",
+]);
+
+/** Digits, years and separated names are reliable; a whole folder name less so */
+const CONFIDENCE = {
+  numeric: 0.9,
+  delimited: 0.8,
+  wholeSegment: 0.6,
+  generic: 0.2,
+};
+
+interface CompiledPattern {
+  source: string;
+  regex: RegExp;
+  segments: number;
+  fields: { field: InferableField; wholeSegment: boolean }[];
+}
+
+/**
+ * Tag Inference Service
+ */
+export class TagInferenceService {
+  private cache = new Map<string, CompiledPattern>();
+
+  /**
+   * Check a pattern and return an error message, or null if it is usable
+   */
+  validatePattern(pattern: string): string | null {
+    try {
+      this.compile(pattern);
+      return null;
+    } catch (error) {
+      return (error as Error).message;
+    }
+  }
+
+  /**
+   * Infer tags from a file path. Returns null when no pattern matches.
+   */
+  infer(
+    filePath: string,
+    options: TagInferenceOptions = {},
+  ): TagInference | null {
+    const patterns = options.patterns?.length
+      ? options.patterns
+      : DEFAULT_INFERENCE_PATTERNS;
+    const parsed = path.parse(filePath);
+    const relativeDir = options.rootDir
+      ? path.relative(options.rootDir, parsed.dir)
+      : parsed.dir;
+    const dirSegments = relativeDir
+      .split(/[\\/]+/)
+      .filter((s) => s && s !== "." && s !== "..");
+    const segments = [...dirSegments, parsed.name];
+
+    for (const source of patterns) {
+      const pattern = this.compile(source);
+      if (pattern.segments > segments.length) continue;
+
+      const subject = segments.slice(-pattern.segments).join("/");
+      const match = pattern.regex.exec(subject);
+      if (!match) continue;
+
+      const fields: TagInference["fields"] = {};
+      pattern.fields.forEach(({ field, wholeSegment }, index) => {
+        const inferred = this.toValue(field, match[index + 1]!, wholeSegment);
+        if (inferred) fields[field] = inferred;
+      });
+      if (Object.keys(fields).length > 0) {
+        return { pattern: source, fields };
+      }
+    }
+    return null;
+  }
+
+  private compile(source: string): CompiledPattern {
+    const cached = this.cache.get(source);
+    if (cached) return cached;
+
+    const parts = source.split("/");
+    if (parts.some((p) => p.trim() === "")) {
+      throw new Error(`Pattern "${source}" has an empty path segment`);
+    }
+
+    const fields: CompiledPattern["fields"] = [];
+    const seen = new Set<InferableField>();
+    const segmentRegexes = parts.map((part) => {
+      const tokens = part.split(/(\{[^}]*\})/).filter(Boolean);
+      return tokens
+        .map((token) => {
+          const name = /^\{(.*)\}$/.exec(token)?.[1];
+          if (name === undefined) {
+            return token.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+          }
+          const field = PLACEHOLDERS.get(name);
+          if (!field) {
+            throw new Error(
+              `Unknown placeholder {${name}} in pattern "${source}" (use ${[...PLACEHOLDERS.keys()].join(", ")})`,
+            );
+          }
+          if (seen.has(field)) {
+            throw new Error(
+              `Placeholder {${name}} appears twice in pattern "${source}"`,
+            );
+          }
+          seen.add(field);
+          fields.push({ field, wholeSegment: tokens.length === 1 });
+          if (field === "year") return "(\\d{4})";
+          if (NUMERIC_FIELDS.has(field)) return "(\\d{1,3})";
+          return "([^/]+?)";
+        })
+        .join("");
+    });
+
+    if (fields.length === 0) {
+      throw new Error(`Pattern "${source}" has no placeholders`);
+    }
+
+    const compiled: CompiledPattern = {
+      source,
+      regex: new RegExp(`^${segmentRegexes.join("/")}$`, "i"),
+      segments: parts.length,
+      fields,
+    };
+    this.cache.set(source, compiled);
+    return compiled;
+  }
+
+  private toValue(
+    field: InferableField,
+    raw: string,
+    wholeSegment: boolean,
+  ): InferredValue | null {
+    if (NUMERIC_FIELDS.has(field)) {
+      const value = parseInt(raw, 10);
+      if (!value) return null;
+      return { value, confidence: CONFIDENCE.numeric };
+    }
+
+    // Rips often use underscores instead of spaces
+    const value = (raw.includes(" ") ? raw : raw.replace(/_/g, " "))
+      .replace(/\s+/g, " ")
+      .trim();
+    if (!value) return null;
+
+    let confidence = wholeSegment
+      ? CONFIDENCE.wholeSegment
+      : CONFIDENCE.delimited;
+    if (GENERIC_NAMES.has(value.toLowerCase())) {
+      confidence = CONFIDENCE.generic;
+    }
+    return { value, confidence };
+  }
+}
+
+export const tagInferenceService = new TagInferenceService();
@@ -3,7 +3,8 @@
  * Text Extraction Service
  *
  * @module services/text-extraction.service
- * @description Centralized document text extraction for PDF, DOCX, DOC, ODT, RTF, TXT, MD files.
+ * @description Centralized document text extraction for PDF, DOCX, DOC, ODT, RTF, TXT, MD,
+ * XLSX, PPTX, EPUB, HTML and email (EML, MBOX) files.
  */
 
 import fs from "fs/promises";
@@ -31,6 +32,70 @@ export interface TextExtractionResult {
 const DEFAULT_MAX_FILE_SIZE_BYTES = 10 * 1024 * 1024;
 const DEFAULT_MAX_TEXT_LENGTH = 50000;
 
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END_OF_CENTRAL_DIR = 0x06054b50;
+const ZIP_DATA_DESCRIPTOR = 0x08074b50;
+/** Cap on the inflated size of a single ZIP entry, against zip bombs */
+const MAX_ZIP_ENTRY_BYTES = 64 * 1024 * 1024;
+/** Cap on the inflated size of all entries read from one ZIP container */
+const MAX_ZIP_TOTAL_BYTES = 128 * 1024 * 1024;
+/** Nesting limit for multipart and attached messages */
+const MAX_MIME_DEPTH = 10;
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: "\u00a0",
+};
+
+/** Elements whose content is not visible text */
+const HTML_HIDDEN_ELEMENTS = new Set([
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "svg",
+]);
+
+/** Elements that start a new line of text */
+const HTML_BLOCK_ELEMENTS = new Set([
+  "p",
+  "div",
+  "br",
+  "hr",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "li",
+  "ul",
+  "ol",
+  "dl",
+  "dt",
+  "dd",
+  "tr",
+  "table",
+  "thead",
+  "tbody",
+  "section",
+  "article",
+  "aside",
+  "header",
+  "footer",
+  "nav",
+  "main",
+  "blockquote",
+  "pre",
+  "title",
+  "figcaption",
+]);
+
 const SUPPORTED_EXTENSIONS = new Set([
   ".pdf",
   ".docx",
@@ -39,8 +104,84 @@ const SUPPORTED_EXTENSIONS = new Set([
   ".rtf",
   ".txt",
   ".md",
+  ".xlsx",
+  ".pptx",
+  ".epub",
+  ".html",
+  ".htm",
+  ".eml",
+  ".mbox",
 ]);
 
+interface ZipEntryLocation {
+  dataStart: number;
+  dataEnd: number;
+  compressionMethod: number;
+}
+
+/**
+ * Entries of a ZIP container, inflated one at a time when read. All reads
+ * share one budget of inflated bytes, so a container of many small zip
+ * bombs cannot add up past MAX_ZIP_TOTAL_BYTES.
+ */
+class ZipEntries {
+  private remainingBytes = MAX_ZIP_TOTAL_BYTES;
+
+  constructor(
+    private readonly buffer: Buffer,
+    private readonly locations: Map<string, ZipEntryLocation>,
+  ) {}
+
+  get size(): number {
+    return this.locations.size;
+  }
+
+  has(name: string): boolean {
+    return this.locations.has(name);
+  }
+
+  keys(): IterableIterator<string> {
+    return this.locations.keys();
+  }
+
+  /**
+   * Content of an entry decoded as UTF-8, or undefined when it is missing,
+   * cannot be inflated or does not fit in the remaining budget
+   */
+  async get(name: string): Promise<string | undefined> {
+    const location = this.locations.get(name);
+    if (!location) return undefined;
+
+    const data = this.buffer.subarray(location.dataStart, location.dataEnd);
+    const maxBytes = Math.min(MAX_ZIP_ENTRY_BYTES, this.remainingBytes);
+    let content: Buffer;
+    if (location.compressionMethod === 0) {
+      content = data;
+    } else if (location.compressionMethod === 8) {
+      try {
+        content = await inflateRaw(data, { maxOutputLength: maxBytes });
+      } catch (inflateError) {
+        logger.warn(`Failed to decompress ZIP entry ${name}`, {
+          error: inflateError,
+        });
+        return undefined;
+      }
+    } else {
+      logger.warn(
+        `ZIP entry ${name} uses unsupported compression method: ${location.compressionMethod}`,
+      );
+      return undefined;
+    }
+
+    if (content.length > maxBytes) {
+      logger.warn(`ZIP entry ${name} is larger than the inflate budget`);
+      return undefined;
+    }
+    this.remainingBytes -= content.length;
+    return content.toString("utf8");
+  }
+}
+
 export class TextExtractionService {
   private readonly defaultOptions: Required<TextExtractionOptions>;
 
@@ -100,6 +241,25 @@ export class TextExtractionService {
       case ".md":
         result = await this.extractTextFile(filePath);
         break;
+      case ".xlsx":
+        result = await this.extractXlsx(filePath, opts.maxTextLength);
+        break;
+      case ".pptx":
+        result = await this.extractPptx(filePath, opts.maxTextLength);
+        break;
+      case ".epub":
+        result = await this.extractEpub(filePath, opts.maxTextLength);
+        break;
+      case ".html":
+      case ".htm":
+        result = await this.extractHtml(filePath);
+        break;
+      case ".eml":
+        result = await this.extractEmail(filePath);
+        break;
+      case ".mbox":
+        result = await this.extractMbox(filePath, opts.maxTextLength);
+        break;
       default:
         return {
           text: "",
@@ -168,70 +328,21 @@ export class TextExtractionService {
   }
 
   private async extractOdtContentXml(buffer: Buffer): Promise<string | null> {
-    let offset = 0;
-
-    if (buffer.length < 4) {
-      return null;
-    }
-
-    const signature = buffer.readUInt32LE(0);
-    if (signature !== 0x04034b50) {
+    const entries = this.readZipEntries(
+      buffer,
+      (name) => name === "content.xml",
+    );
+    if (!entries) {
       logger.warn("ODT file does not have valid ZIP signature");
       return null;
     }
 
-    while (offset < buffer.length - 30) {
-      if (buffer.readUInt32LE(offset) !== 0x04034b50) {
-        break;
-      }
-
-      const headerOffset = offset;
-      const compressionMethod = buffer.readUInt16LE(offset + 8);
-      const compressedSize = buffer.readUInt32LE(offset + 18);
-      const fileNameLength = buffer.readUInt16LE(offset + 26);
-      const extraFieldLength = buffer.readUInt16LE(offset + 28);
-
-      const fileNameStart = offset + 30;
-      const fileName = buffer.toString(
-        "utf8",
-        fileNameStart,
-        fileNameStart + fileNameLength,
-      );
-
-      const dataStart = fileNameStart + fileNameLength + extraFieldLength;
-      const dataEnd = dataStart + compressedSize;
-
-      if (fileName === "content.xml") {
-        const compressedData = buffer.subarray(dataStart, dataEnd);
-
-        if (compressionMethod === 0) {
-          return compressedData.toString("utf8");
-        } else if (compressionMethod === 8) {
-          try {
-            const decompressed = await inflateRaw(compressedData);
-            return decompressed.toString("utf8");
-          } catch (inflateError) {
-            logger.warn("Failed to decompress ODT content.xml", {
-              error: inflateError,
-            });
-            return null;
-          }
-        } else {
-          logger.warn(
-            `ODT uses unsupported compression method: ${compressionMethod}`,
-          );
-          return null;
-        }
-      }
-
-      offset = dataEnd;
-      if (offset === headerOffset) {
-        offset++;
-      }
+    const contentXml = await entries.get("content.xml");
+    if (contentXml === undefined) {
+      logger.warn("content.xml not found in ODT archive");
+      return null;
     }
-
-    logger.warn("content.xml not found in ODT archive");
-    return null;
+    return contentXml;
   }
 
   private parseOdtXml(xml: string): string {
@@ -329,6 +440,647 @@ export class TextExtractionService {
     }
   }
 
+  private async extractXlsx(
+    filePath: string,
+    maxTextLength: number,
+  ): Promise<{ text: string; method: string }> {
+    // SECURITY: Path is validated by PathValidatorService upstream before being passed to this service
+    try {
+      const buffer = await fs.readFile(filePath);
+      const entries = this.readZipEntries(
+        buffer,
+        (name) =>
+          name === "xl/sharedStrings.xml" ||
+          name === "xl/workbook.xml" ||
+          name === "xl/_rels/workbook.xml.rels" ||
+          /^xl\/worksheets\/[^/]+\.xml$/.test(name),
+      );
+      if (!entries) {
+        return { text: "", method: "xlsx-no-content" };
+      }
+
+      const sharedStrings = [
+        ...((await entries.get("xl/sharedStrings.xml")) ?? "").matchAll(
+          /<si\b[^>]*>([\s\S]*?)<\/si>/g,
+        ),
+      ].map((m) =>
+        this.xmlRunText(m[1]!.replace(/<rPh\b[\s\S]*?<\/rPh>/g, ""), "t"),
+      );
+
+      const parts: string[] = [];
+      let length = 0;
+      for (const sheet of await this.listXlsxSheets(entries)) {
+        const rows = [
+          ...((await entries.get(sheet.path)) ?? "").matchAll(
+            /<row\b[^>]*>([\s\S]*?)<\/row>/g,
+          ),
+        ]
+          .map((row) => this.parseXlsxRow(row[1]!, sharedStrings))
+          .filter((row) => row.length > 0);
+        if (rows.length === 0) continue;
+
+        const text = [sheet.name, ...rows]
+          .filter((line) => line !== undefined)
+          .join("\n");
+        parts.push(text);
+        length += text.length;
+        if (length > maxTextLength) break;
+      }
+
+      if (parts.length === 0 && sharedStrings.length === 0) {
+        return { text: "", method: "xlsx-no-content" };
+      }
+      // Workbooks whose sheets could not be read still have their strings
+      const text =
+        parts.length > 0 ? parts.join("\n\n") : sharedStrings.join("\n");
+      return { text, method: "xlsx-native" };
+    } catch (error) {
+      logger.warn(`Failed to extract XLSX text from ${filePath}`, { error });
+      return { text: "", method: "xlsx-error" };
+    }
+  }
+
+  /**
+   * Worksheets in workbook order, named after their tabs. Falls back to the
+   * worksheet files in numeric order when the workbook cannot be resolved.
+   */
+  private async listXlsxSheets(
+    entries: ZipEntries,
+  ): Promise<Array<{ path: string; name?: string }>> {
+    const targets = new Map<string, string>();
+    for (const [, rel] of (
+      (await entries.get("xl/_rels/workbook.xml.rels")) ?? ""
+    ).matchAll(/<Relationship\b([^>]*)>/g)) {
+      const id = this.xmlAttr(rel!, "Id");
+      const target = this.xmlAttr(rel!, "Target");
+      if (id && target) {
+        targets.set(
+          id,
+          target.startsWith("/")
+            ? target.slice(1)
+            : path.posix.normalize(path.posix.join("xl", target)),
+        );
+      }
+    }
+
+    const sheets: Array<{ path: string; name?: string }> = [];
+    for (const [, sheet] of (
+      (await entries.get("xl/workbook.xml")) ?? ""
+    ).matchAll(/<sheet\b([^>]*)>/g)) {
+      const target = targets.get(this.xmlAttr(sheet!, "r:id") ?? "");
+      if (target && entries.has(target)) {
+        sheets.push({ path: target, name: this.xmlAttr(sheet!, "name") });
+      }
+    }
+    if (sheets.length > 0) return sheets;
+
+    return [...entries.keys()]
+      .filter((name) => name.startsWith("xl/worksheets/"))
+      .sort((a, b) => this.partNumber(a) - this.partNumber(b))
+      .map((sheetPath) => ({ path: sheetPath }));
+  }
+
+  /** Cell values of a worksheet row, tab separated */
+  private parseXlsxRow(rowXml: string, sharedStrings: string[]): string {
+    const values: string[] = [];
+    for (const [, attrs, body = ""] of rowXml.matchAll(
+      /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g,
+    )) {
+      const type = this.xmlAttr(attrs!, "t");
+      const raw = /<v\b[^>]*>([^<]*)<\/v>/.exec(body)?.[1];
+      let value: string | undefined;
+      if (type === "s") {
+        value = raw === undefined ? undefined : sharedStrings[Number(raw)];
+      } else if (type === "inlineStr") {
+        value = this.xmlRunText(body, "t");
+      } else if (raw !== undefined) {
+        value = this.decodeEntities(raw);
+      }
+      if (value) values.push(value);
+    }
+    return values.join("\t");
+  }
+
+  private async extractPptx(
+    filePath: string,
+    maxTextLength: number,
+  ): Promise<{ text: string; method: string }> {
+    // SECURITY: Path is validated by PathValidatorService upstream before being passed to this service
+    try {
+      const buffer = await fs.readFile(filePath);
+      const entries = this.readZipEntries(buffer, (name) =>
+        /^ppt\/slides\/slide\d+\.xml$/.test(name),
+      );
+      if (!entries || entries.size === 0) {
+        return { text: "", method: "pptx-no-content" };
+      }
+
+      const slides: string[] = [];
+      let length = 0;
+      const slidePaths = [...entries.keys()].sort(
+        (a, b) => this.partNumber(a) - this.partNumber(b),
+      );
+      for (const slidePath of slidePaths) {
+        const text = [
+          ...((await entries.get(slidePath)) ?? "").matchAll(
+            /<a:p\b[^>]*>([\s\S]*?)<\/a:p>/g,
+          ),
+        ]
+          .map((p) => this.xmlRunText(p[1]!, "a:t").trim())
+          .filter((line) => line.length > 0)
+          .join("\n");
+        if (!text) continue;
+        slides.push(text);
+        length += text.length;
+        if (length > maxTextLength) break;
+      }
+      return { text: slides.join("\n\n"), method: "pptx-native" };
+    } catch (error) {
+      logger.warn(`Failed to extract PPTX text from ${filePath}`, { error });
+      return { text: "", method: "pptx-error" };
+    }
+  }
+
+  private async extractEpub(
+    filePath: string,
+    maxTextLength: number,
+  ): Promise<{ text: string; method: string }> {
+    // SECURITY: Path is validated by PathValidatorService upstream before being passed to this service
+    try {
+      const buffer = await fs.readFile(filePath);
+      const entries = this.readZipEntries(
+        buffer,
+        (name) =>
+          name === "META-INF/container.xml" ||
+          /\.(opf|xhtml|html?)$/i.test(name),
+      );
+      if (!entries) {
+        return { text: "", method: "epub-no-content" };
+      }
+
+      const { title, chapters } = await this.readEpubPackage(entries);
+      const parts: string[] = title ? [title] : [];
+      let length = 0;
+      for (const chapter of chapters) {
+        const html = await entries.get(chapter);
+        if (html === undefined) continue;
+        const text = this.htmlToText(html);
+        if (!text) continue;
+        parts.push(text);
+        length += text.length;
+        if (length > maxTextLength) break;
+      }
+
+      if (parts.length === 0) {
+        return { text: "", method: "epub-no-content" };
+      }
+      return { text: parts.join("\n\n"), method: "epub-native" };
+    } catch (error) {
+      logger.warn(`Failed to extract EPUB text from ${filePath}`, { error });
+      return { text: "", method: "epub-error" };
+    }
+  }
+
+  /**
+   * Title and spine (reading order) of an EPUB, from the package document
+   * named in META-INF/container.xml. Without one, every XHTML document is
+   * read in name order.
+   */
+  private async readEpubPackage(entries: ZipEntries): Promise<{
+    title?: string;
+    chapters: string[];
+  }> {
+    const rootfile = /<rootfile\b([^>]*)>/.exec(
+      (await entries.get("META-INF/container.xml")) ?? "",
+    )?.[1];
+    const opfPath = rootfile && this.xmlAttr(rootfile, "full-path");
+    const opf = opfPath ? await entries.get(opfPath) : undefined;
+    if (!opfPath || opf === undefined) {
+      return {
+        chapters: [...entries.keys()]
+          .filter((name) => /\.(xhtml|html?)$/i.test(name))
+          .sort(),
+      };
+    }
+
+    const baseDir = path.posix.dirname(opfPath);
+    const hrefs = new Map<string, string>();
+    for (const [, item] of opf.matchAll(/<item\b([^>]*)>/g)) {
+      const id = this.xmlAttr(item!, "id");
+      const href = this.xmlAttr(item!, "href");
+      if (id && href) {
+        hrefs.set(
+          id,
+          path.posix.normalize(
+            path.posix.join(baseDir, decodeURIComponent(href.split("#")[0]!)),
+          ),
+        );
+      }
+    }
+
+    const chapters: string[] = [];
+    for (const [, itemref] of opf.matchAll(/<itemref\b([^>]*)>/g)) {
+      const chapter = hrefs.get(this.xmlAttr(itemref!, "idref") ?? "");
+      if (chapter) chapters.push(chapter);
+    }
+
+    const title = /<dc:title\b[^>]*>([^<]*)<\/dc:title>/.exec(opf)?.[1];
+    return {
+      title: title ? this.decodeEntities(title).trim() : undefined,
+      chapters,
+    };
+  }
+
+  private async extractHtml(
+    filePath: string,
+  ): Promise<{ text: string; method: string }> {
+    // SECURITY: Path is validated by PathValidatorService upstream before being passed to this service
+    try {
+      const html = await fs.readFile(filePath, "utf-8");
+      return { text: this.htmlToText(html), method: "html-native" };
+    } catch (error) {
+      logger.warn(`Failed to extract HTML text from ${filePath}`, { error });
+      return { text: "", method: "html-error" };
+    }
+  }
+
+  /**
+   * Visible text of an HTML or XHTML document. Scripts, styles and comments
+   * are dropped and block elements start a new line. The document is read
+   * in one pass; a comment or hidden element that is never closed drops the
+   * rest of it.
+   */
+  private htmlToText(html: string): string {
+    const parts: string[] = [];
+    let position = 0;
+
+    while (position < html.length) {
+      const open = html.indexOf("<", position);
+      const close = open === -1 ? -1 : html.indexOf(">", open + 1);
+      if (close === -1) {
+        parts.push(html.slice(position));
+        break;
+      }
+      parts.push(html.slice(position, open));
+
+      if (html.startsWith("<!--", open)) {
+        const end = html.indexOf("-->", open + 4);
+        if (end === -1) break;
+        position = end + 3;
+        continue;
+      }
+
+      position = close + 1;
+      const tag = /^<(\/?)([a-zA-Z][a-zA-Z0-9]*)/.exec(html.slice(open, close));
+      if (!tag) continue;
+      const name = tag[2]!.toLowerCase();
+      if (HTML_BLOCK_ELEMENTS.has(name)) {
+        parts.push("\n");
+      } else if (name === "td" || name === "th") {
+        parts.push("\t");
+      } else if (
+        HTML_HIDDEN_ELEMENTS.has(name) &&
+        !tag[1] &&
+        html[close - 1] !== "/"
+      ) {
+        const end = new RegExp(`</${name}\\s*>`, "gi");
+        end.lastIndex = position;
+        if (!end.exec(html)) break;
+        position = end.lastIndex;
+      }
+    }
+
+    return this.decodeEntities(parts.join(""))
+      .split("\n")
+      .map((line) => line.replace(/[ \t\f\v\u00a0]+/g, " ").trim())
+      .filter((line) => line.length > 0)
+      .join("\n");
+  }
+
+  private async extractEmail(
+    filePath: string,
+  ): Promise<{ text: string; method: string }> {
+    // SECURITY: Path is validated by PathValidatorService upstream before being passed to this service
+    try {
+      const raw = await fs.readFile(filePath, "latin1");
+      return { text: this.parseEmail(raw), method: "email-native" };
+    } catch (error) {
+      logger.warn(`Failed to extract email text from ${filePath}`, { error });
+      return { text: "", method: "email-error" };
+    }
+  }
+
+  private async extractMbox(
+    filePath: string,
+    maxTextLength: number,
+  ): Promise<{ text: string; method: string }> {
+    // SECURITY: Path is validated by PathValidatorService upstream before being passed to this service
+    try {
+      const raw = await fs.readFile(filePath, "latin1");
+      const messages: string[] = [];
+      let length = 0;
+      // Messages start at "From " separator lines; body lines that began
+      // with "From " were escaped as ">From " when the mailbox was written
+      for (const message of raw.split(/(?:^|\r?\n)From [^\r\n]*\r?\n/)) {
+        if (!message.trim()) continue;
+        const text = this.parseEmail(message.replace(/^>(>*From )/gm, "$1"));
+        if (!text) continue;
+        messages.push(text);
+        length += text.length;
+        if (length > maxTextLength) break;
+      }
+      return { text: messages.join("\n\n"), method: "mbox-native" };
+    } catch (error) {
+      logger.warn(`Failed to extract mailbox text from ${filePath}`, {
+        error,
+      });
+      return { text: "", method: "mbox-error" };
+    }
+  }
+
+  /**
+   * Subject, sender, recipients, date and readable body of an RFC 822
+   * message. The raw message is read as latin1 so that every byte survives
+   * until the part's charset is known.
+   */
+  private parseEmail(raw: string, depth = 0): string {
+    const { headers, body } = this.parseMimeEntity(raw);
+    const lines = ["subject", "from", "to", "cc", "date"]
+      .filter((name) => headers.has(name))
+      .map(
+        (name) =>
+          `${name[0]!.toUpperCase()}${name.slice(1)}: ${this.decodeMimeHeader(headers.get(name)!)}`,
+      );
+    const content = this.mimePartText(headers, body, depth);
+    return [lines.join("\n"), content].filter(Boolean).join("\n\n");
+  }
+
+  private parseMimeEntity(raw: string): {
+    headers: Map<string, string>;
+    body: string;
+  } {
+    const separator = /\r?\n\r?\n/.exec(raw);
+    const head = separator ? raw.slice(0, separator.index) : raw;
+    const body = separator
+      ? raw.slice(separator.index + separator[0].length)
+      : "";
+
+    const headers = new Map<string, string>();
+    for (const line of head.replace(/\r?\n[ \t]+/g, " ").split(/\r?\n/)) {
+      const colon = line.indexOf(":");
+      if (colon <= 0) continue;
+      const name = line.slice(0, colon).trim().toLowerCase();
+      if (!headers.has(name)) headers.set(name, line.slice(colon + 1).trim());
+    }
+    return { headers, body };
+  }
+
+  /**
+   * Text of a MIME part. multipart/alternative prefers the plain-text
+   * version; attachments other than forwarded messages are skipped.
+   */
+  private mimePartText(
+    headers: Map<string, string>,
+    body: string,
+    depth: number,
+  ): string {
+    if (depth > MAX_MIME_DEPTH) return "";
+
+    const contentType = headers.get("content-type") ?? "text/plain";
+    const mimeType = contentType.split(";")[0]!.trim().toLowerCase();
+    const disposition = (
+      headers.get("content-disposition") ?? ""
+    ).toLowerCase();
+
+    if (mimeType === "message/rfc822") {
+      return this.parseEmail(
+        this.decodeMimeBody(headers, body).toString("latin1"),
+        depth + 1,
+      );
+    }
+    if (disposition.startsWith("attachment")) return "";
+
+    if (mimeType.startsWith("multipart/")) {
+      const boundary = this.mimeParam(contentType, "boundary");
+      if (!boundary) return "";
+      const parts = body
+        .split(`--${boundary}`)
+        .slice(1)
+        .filter((part) => !part.startsWith("--"))
+        .map((part) => this.parseMimeEntity(part.replace(/^\r?\n/, "")));
+
+      if (mimeType === "multipart/alternative") {
+        const preferred =
+          parts.find((part) =>
+            (part.headers.get("content-type") ?? "text/plain")
+              .toLowerCase()
+              .startsWith("text/plain"),
+          ) ?? parts[parts.length - 1];
+        return preferred
+          ? this.mimePartText(preferred.headers, preferred.body, depth + 1)
+          : "";
+      }
+      return parts
+        .map((part) => this.mimePartText(part.headers, part.body, depth + 1))
+        .filter(Boolean)
+        .join("\n\n");
+    }
+
+    if (mimeType !== "text/plain" && mimeType !== "text/html") return "";
+    const text = this.decodeCharset(
+      this.decodeMimeBody(headers, body),
+      this.mimeParam(contentType, "charset"),
+    );
+    return mimeType === "text/html" ? this.htmlToText(text) : text.trim();
+  }
+
+  /** Undo the part's Content-Transfer-Encoding */
+  private decodeMimeBody(headers: Map<string, string>, body: string): Buffer {
+    const encoding = (
+      headers.get("content-transfer-encoding") ?? ""
+    ).toLowerCase();
+    if (encoding === "base64") {
+      return Buffer.from(body.replace(/[^A-Za-z0-9+/=]/g, ""), "base64");
+    }
+    if (encoding === "quoted-printable") {
+      return Buffer.from(
+        body
+          .replace(/=\r?\n/g, "")
+          .replace(/=([0-9A-Fa-f]{2})/g, (_, hex: string) =>
+            String.fromCharCode(parseInt(hex, 16)),
+          ),
+        "latin1",
+      );
+    }
+    return Buffer.from(body, "latin1");
+  }
+
+  /** RFC 2047 encoded words, e.g. =?UTF-8?B?...?= */
+  private decodeMimeHeader(value: string): string {
+    return value
+      .replace(/(\?=)\s+(=\?)/g, "$1$2")
+      .replace(
+        /=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g,
+        (_, charset: string, encoding: string, text: string) => {
+          const bytes =
+            encoding.toUpperCase() === "B"
+              ? Buffer.from(text, "base64")
+              : Buffer.from(
+                  text
+                    .replace(/_/g, " ")
+                    .replace(/=([0-9A-Fa-f]{2})/g, (__, hex: string) =>
+                      String.fromCharCode(parseInt(hex, 16)),
+                    ),
+                  "latin1",
+                );
+          return this.decodeCharset(bytes, charset);
+        },
+      );
+  }
+
+  private decodeCharset(bytes: Buffer, charset = "utf-8"): string {
+    try {
+      return new TextDecoder(charset).decode(bytes);
+    } catch {
+      return new TextDecoder("utf-8").decode(bytes);
+    }
+  }
+
+  private mimeParam(header: string, name: string): string | undefined {
+    const match = new RegExp(
+      `;\\s*${name}\\s*=\\s*(?:"([^"]*)"|([^;\\s]+))`,
+      "i",
+    ).exec(header);
+    return match?.[1] ?? match?.[2];
+  }
+
+  /**
+   * Entries of a ZIP container (ODT, XLSX, PPTX, EPUB) whose names match
+   * wanted, inflated when they are read. Local file headers are walked in
+   * order; entries written with a data descriptor take their size from the
+   * central directory. Returns null when the buffer is not a ZIP file.
+   */
+  private readZipEntries(
+    buffer: Buffer,
+    wanted: (name: string) => boolean,
+  ): ZipEntries | null {
+    if (buffer.length < 4 || buffer.readUInt32LE(0) !== ZIP_LOCAL_HEADER) {
+      return null;
+    }
+
+    const locations = new Map<string, ZipEntryLocation>();
+    let centralSizes: Map<string, number> | undefined;
+    let offset = 0;
+
+    while (
+      offset <= buffer.length - 30 &&
+      buffer.readUInt32LE(offset) === ZIP_LOCAL_HEADER
+    ) {
+      const flags = buffer.readUInt16LE(offset + 6);
+      const compressionMethod = buffer.readUInt16LE(offset + 8);
+      let compressedSize = buffer.readUInt32LE(offset + 18);
+      const fileNameLength = buffer.readUInt16LE(offset + 26);
+      const extraFieldLength = buffer.readUInt16LE(offset + 28);
+
+      const fileNameStart = offset + 30;
+      const fileName = buffer.toString(
+        "utf8",
+        fileNameStart,
+        fileNameStart + fileNameLength,
+      );
+      const dataStart = fileNameStart + fileNameLength + extraFieldLength;
+
+      const hasDataDescriptor = (flags & 0x08) !== 0;
+      if (hasDataDescriptor && compressedSize === 0) {
+        centralSizes ??= this.readZipCentralSizes(buffer);
+        compressedSize = centralSizes.get(fileName) ?? 0;
+      }
+      const dataEnd = dataStart + compressedSize;
+
+      if (wanted(fileName)) {
+        locations.set(fileName, { dataStart, dataEnd, compressionMethod });
+      }
+
+      offset = dataEnd;
+      if (hasDataDescriptor && offset + 4 <= buffer.length) {
+        offset += buffer.readUInt32LE(offset) === ZIP_DATA_DESCRIPTOR ? 16 : 12;
+      }
+    }
+
+    return new ZipEntries(buffer, locations);
+  }
+
+  /** Compressed entry sizes from the ZIP central directory */
+  private readZipCentralSizes(buffer: Buffer): Map<string, number> {
+    const sizes = new Map<string, number>();
+    // The end-of-central-directory record sits in the last 64 KiB + 22 bytes
+    const searchStart = Math.max(0, buffer.length - 0xffff - 22);
+    let end = -1;
+    for (let i = buffer.length - 22; i >= searchStart; i--) {
+      if (buffer.readUInt32LE(i) === ZIP_END_OF_CENTRAL_DIR) {
+        end = i;
+        break;
+      }
+    }
+    if (end < 0) return sizes;
+
+    let offset = buffer.readUInt32LE(end + 16);
+    while (
+      offset <= buffer.length - 46 &&
+      buffer.readUInt32LE(offset) === ZIP_CENTRAL_HEADER
+    ) {
+      const compressedSize = buffer.readUInt32LE(offset + 20);
+      const fileNameLength = buffer.readUInt16LE(offset + 28);
+      const extraFieldLength = buffer.readUInt16LE(offset + 30);
+      const commentLength = buffer.readUInt16LE(offset + 32);
+      const name = buffer.toString(
+        "utf8",
+        offset + 46,
+        offset + 46 + fileNameLength,
+      );
+      sizes.set(name, compressedSize);
+      offset += 46 + fileNameLength + extraFieldLength + commentLength;
+    }
+    return sizes;
+  }
+
+  /** Concatenated text of the <tag> runs in an OOXML fragment */
+  private xmlRunText(xml: string, tag: string): string {
+    return [
+      ...xml.matchAll(new RegExp(`<${tag}(?:\\s[^>]*)?>([^<]*)</${tag}>`, "g")),
+    ]
+      .map((m) => this.decodeEntities(m[1]!))
+      .join("");
+  }
+
+  private xmlAttr(attrs: string, name: string): string | undefined {
+    const value = new RegExp(`(?:^|\\s)${name}="([^"]*)"`).exec(attrs)?.[1];
+    return value === undefined ? undefined : this.decodeEntities(value);
+  }
+
+  private decodeEntities(text: string): string {
+    return text.replace(
+      /&(#x[0-9a-fA-F]+|#\d+|[a-zA-Z]+);/g,
+      (entity, name: string) => {
+        if (name.startsWith("#")) {
+          const code =
+            name[1] === "x" || name[1] === "X"
+              ? parseInt(name.slice(2), 16)
+              : parseInt(name.slice(1), 10);
+          return code > 0 && code <= 0x10ffff
+            ? String.fromCodePoint(code)
+            : entity;
+        }
+        return XML_ENTITIES[name] ?? entity;
+      },
+    );
+  }
+
+  /** Trailing number of a part name such as ppt/slides/slide12.xml */
+  private partNumber(name: string): number {
+    return Number(/(\d+)\.xml$/.exec(name)?.[1] ?? 0);
+  }
+
   private applyTextLimit(
     text: string,
     method: string,
@@ -0,0 +1,263 @@
+/**
+ * File Organizer MCP Server v3.5.0
+ * Topic Classifier Service
+ *
+ * @module services/topic-classifier.service
+ * @description Learns topics from folders of documents the user has already
+ * sorted and classifies new documents into them. Each folder becomes a
+ * TF-IDF weighted naive-Bayes profile; classification is local and
+ * deterministic.
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { STOP_WORDS, type TopicMatch } from "./topic-extractor.service.js";
+import { textExtractionService } from "./text-extraction.service.js";
+import { FileScannerService } from "./file-scanner.service.js";
+import { logger } from "../utils/logger.js";
+
+export interface TopicProfile {
+  /** Folder name, used as the topic and target folder */
+  name: string;
+  /** Example documents the profile was built from */
+  documents: number;
+  /** Summed TF-IDF weight of each term over the folder's documents */
+  termWeights: Map<string, number>;
+  totalWeight: number;
+}
+
+export interface TopicClassifierModel {
+  profiles: TopicProfile[];
+  /** Inverse document frequency of every term seen in training */
+  idf: Map<string, number>;
+  documents: number;
+}
+
+export interface TopicTrainingOptions {
+  /** Example documents read per folder (default 200) */
+  maxDocumentsPerTopic?: number;
+}
+
+export interface TopicTrainingResult {
+  model: TopicClassifierModel;
+  skipped: Array<{ file: string; reason: string }>;
+}
+
+/** Laplace smoothing added to every term weight of a profile */
+const SMOOTHING = 1;
+/**
+ * Length a document is scaled to before its evidence is turned into
+ * probabilities. Without this, naive Bayes grows near-certain on any long
+ * document, and an "unsure" threshold would never trigger.
+ */
+const EFFECTIVE_DOCUMENT_LENGTH = 10;
+const MIN_EXAMPLE_TEXT_LENGTH = 50;
+
+/**
+ * Topic Classifier Service
+ */
+export class TopicClassifierService {
+  private readonly extractText: (filePath: string) => Promise<{ text: string }>;
+  private readonly listFiles: (directory: string) => Promise<string[]>;
+
+  constructor(deps?: {
+    extractText?: (filePath: string) => Promise<{ text: string }>;
+    listFiles?: (directory: string) => Promise<string[]>;
+  }) {
+    this.extractText =
+      deps?.extractText ?? (async (p) => textExtractionService.extract(p));
+    this.listFiles =
+      deps?.listFiles ??
+      (async (dir) =>
+        (await new FileScannerService().getAllFiles(dir, true)).map(
+          (f) => f.path,
+        ));
+  }
+
+  /**
+   * Build a profile for every subfolder of examplesDir from the supported
+   * documents inside it
+   * @throws {Error} When fewer than two folders hold readable documents
+   */
+  async train(
+    examplesDir: string,
+    options: TopicTrainingOptions = {},
+  ): Promise<TopicTrainingResult> {
+    const maxDocuments = options.maxDocumentsPerTopic ?? 200;
+    const skipped: TopicTrainingResult["skipped"] = [];
+    const examples: Array<{ topic: string; terms: Map<string, number> }> = [];
+
+    const entries = await fs.readdir(examplesDir, { withFileTypes: true });
+    for (const entry of entries) {
+      if (!entry.isDirectory() || entry.name.startsWith(".")) continue;
+
+      const files = (await this.listFiles(path.join(examplesDir, entry.name)))
+        .filter((file) => textExtractionService.isSupported(file))
+        .sort()
+        .slice(0, maxDocuments);
+      for (const file of files) {
+        try {
+          const { text } = await this.extractText(file);
+          if (text.trim().length < MIN_EXAMPLE_TEXT_LENGTH) {
+            skipped.push({ file, reason: "Insufficient text content" });
+            continue;
+          }
+          examples.push({ topic: entry.name, terms: this.countTerms(text) });
+        } catch (error) {
+          skipped.push({ file, reason: (error as Error).message });
+        }
+      }
+    }
+
+    const topics = new Set(examples.map((e) => e.topic));
+    if (topics.size < 2) {
+      throw new Error(
+        "Learning topics needs at least two example folders with readable documents",
+      );
+    }
+
+    const documentFrequency = new Map<string, number>();
+    for (const { terms } of examples) {
+      for (const term of terms.keys()) {
+        documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+      }
+    }
+    const idf = new Map<string, number>();
+    for (const [term, df] of documentFrequency) {
+      idf.set(term, this.inverseDocumentFrequency(df, examples.length));
+    }
+
+    const profiles = new Map<string, TopicProfile>();
+    for (const { topic, terms } of examples) {
+      let profile = profiles.get(topic);
+      if (!profile) {
+        profile = {
+          name: topic,
+          documents: 0,
+          termWeights: new Map(),
+          totalWeight: 0,
+        };
+        profiles.set(topic, profile);
+      }
+      profile.documents++;
+      for (const [term, count] of terms) {
+        const weight = Math.log(1 + count) * idf.get(term)!;
+        profile.termWeights.set(
+          term,
+          (profile.termWeights.get(term) ?? 0) + weight,
+        );
+        profile.totalWeight += weight;
+      }
+    }
+
+    logger.info(
+      `Learned ${profiles.size} topics from ${examples.length} example documents`,
+    );
+    return {
+      model: {
+        profiles: [...profiles.values()],
+        idf,
+        documents: examples.length,
+      },
+      skipped,
+    };
+  }
+
+  /**
+   * Topics of the model ranked by confidence (the posterior probability),
+   * at most five. matchedKeywords lists the terms that weighed most in
+   * favour of each topic. Empty when the text has no terms.
+   */
+  classify(model: TopicClassifierModel, text: string): TopicMatch[] {
+    const terms = this.countTerms(text);
+    if (terms.size === 0 || model.profiles.length === 0) return [];
+
+    // Terms never seen in training count toward the document's length but
+    // favour no topic, so mostly unfamiliar documents come out unsure
+    const unseenIdf = this.inverseDocumentFrequency(0, model.documents);
+    const weights = new Map<string, number>();
+    let documentWeight = 0;
+    for (const [term, count] of terms) {
+      const idf = model.idf.get(term);
+      const weight = Math.log(1 + count) * (idf ?? unseenIdf);
+      documentWeight += weight;
+      if (idf !== undefined) weights.set(term, weight);
+    }
+
+    const vocabularySize = model.idf.size;
+    const scored = model.profiles.map((profile) => {
+      const denominator = profile.totalWeight + SMOOTHING * vocabularySize;
+      const evidence = new Map<string, number>();
+      let logLikelihood = 0;
+      for (const [term, weight] of weights) {
+        const logProbability = Math.log(
+          ((profile.termWeights.get(term) ?? 0) + SMOOTHING) / denominator,
+        );
+        evidence.set(term, weight * logProbability);
+        logLikelihood += weight * logProbability;
+      }
+      return {
+        profile,
+        evidence,
+        score:
+          Math.log(profile.documents / model.documents) +
+          (logLikelihood / documentWeight) * EFFECTIVE_DOCUMENT_LENGTH,
+      };
+    });
+
+    const maxScore = Math.max(...scored.map((s) => s.score));
+    const normalizer = scored.reduce(
+      (sum, s) => sum + Math.exp(s.score - maxScore),
+      0,
+    );
+
+    return scored
+      .map(({ profile, evidence, score }) => ({
+        topic: profile.name,
+        confidence:
+          Math.round((Math.exp(score - maxScore) / normalizer) * 100) / 100,
+        matchedKeywords: this.topTerms(profile, evidence, scored),
+      }))
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, 5);
+  }
+
+  /**
+   * Terms whose evidence for the profile most exceeds their average
+   * evidence for the other profiles
+   */
+  private topTerms(
+    profile: TopicProfile,
+    evidence: Map<string, number>,
+    scored: Array<{ profile: TopicProfile; evidence: Map<string, number> }>,
+  ): string[] {
+    const others = scored.filter((s) => s.profile !== profile);
+    return [...evidence]
+      .map(([term, value]) => ({
+        term,
+        margin:
+          value -
+          others.reduce((sum, o) => sum + o.evidence.get(term)!, 0) /
+            Math.max(others.length, 1),
+      }))
+      .filter((t) => t.margin > 0)
+      .sort((a, b) => b.margin - a.margin)
+      .slice(0, 5)
+      .map((t) => t.term);
+  }
+
+  private countTerms(text: string): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const token of text.toLowerCase().split(/[^\p{L}\p{N}]+/u)) {
+      if (token.length < 3 || STOP_WORDS.has(token)) continue;
+      counts.set(token, (counts.get(token) ?? 0) + 1);
+    }
+    return counts;
+  }
+
+  private inverseDocumentFrequency(df: number, documents: number): number {
+    return Math.log((1 + documents) / (1 + df)) + 1;
+  }
+}
+
+export const topicClassifierService = new TopicClassifierService();
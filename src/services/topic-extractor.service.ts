@@ -4,6 +4,9 @@
  */
 
 import { logger } from "../utils/logger.js";
+import { loadUserConfig } from "../config.js";
+import { parseUserTopics } from "../schemas/content.schemas.js";
+import type { UserTopic } from "../types.js";
 
 export interface TopicMatch {
   topic: string;
@@ -18,10 +21,21 @@ export interface TopicExtractionResult {
   documentType: "academic" | "business" | "technical" | "general";
 }
 
+export interface TopicExtractorOptions {
+  /** User-defined topics; when given they replace the built-in topics */
+  topics?: UserTopic[];
+  /** Keep the built-in topics next to the user topics */
+  includeBuiltInTopics?: boolean;
+}
+
 interface TopicDefinition {
   name: string;
   keywords: string[];
   weight: number;
+  /** Per-keyword weights; keywords not listed weigh 1 */
+  keywordWeights?: Map<string, number>;
+  /** A document containing any of these never matches the topic */
+  exclude?: string[];
 }
 
 const TOPIC_DEFINITIONS: TopicDefinition[] = [
@@ -505,10 +519,55 @@ export const STOP_WORDS: ReadonlySet<string> = new Set([
   "below",
 ]);
 
+/**
+ * Load and validate content topics from the user config file.
+ * Invalid topics are skipped and reported in `errors`.
+ */
+export function loadUserTopics(): Required<TopicExtractorOptions> & {
+  errors: string[];
+} {
+  const config = loadUserConfig();
+  const { topics, errors } = parseUserTopics(config.topics);
+  for (const error of errors) {
+    logger.warn(`Content topics: ${error}`);
+  }
+  return {
+    topics,
+    includeBuiltInTopics: config.includeBuiltInTopics === true,
+    errors,
+  };
+}
+
+function toTopicDefinition(topic: UserTopic): TopicDefinition {
+  const keywordWeights = new Map<string, number>();
+  const keywords = topic.keywords.map((keyword) => {
+    if (typeof keyword === "string") return keyword.toLowerCase();
+    const term = keyword.term.toLowerCase();
+    keywordWeights.set(term, keyword.weight);
+    return term;
+  });
+  return {
+    name: topic.name,
+    keywords,
+    weight: topic.weight ?? 1.0,
+    keywordWeights,
+    exclude: topic.exclude?.map((term) => term.toLowerCase()),
+  };
+}
+
 export class TopicExtractorService {
   private readonly minKeywordLength = 3;
   private readonly maxKeywords = 20;
   private readonly minTopicConfidence = 0.1;
+  private readonly definitions: TopicDefinition[];
+
+  constructor(options: TopicExtractorOptions = {}) {
+    const userTopics = (options.topics ?? []).map(toTopicDefinition);
+    this.definitions =
+      userTopics.length === 0 || options.includeBuiltInTopics
+        ? [...userTopics, ...TOPIC_DEFINITIONS]
+        : userTopics;
+  }
 
   extractTopics(text: string): TopicExtractionResult {
     if (!text || text.trim().length === 0) {
@@ -553,21 +612,27 @@ export class TopicExtractorService {
     const results: TopicMatch[] = [];
     const wordSet = new Set(words);
 
-    for (const topicDef of TOPIC_DEFINITIONS) {
+    for (const topicDef of this.definitions) {
+      if (topicDef.exclude?.some((term) => text.includes(term))) {
+        continue;
+      }
+
       const matchedKeywords: string[] = [];
-      let matchCount = 0;
+      let matchedWeight = 0;
+      let totalWeight = 0;
 
       for (const keyword of topicDef.keywords) {
+        const keywordWeight = topicDef.keywordWeights?.get(keyword) ?? 1;
+        totalWeight += keywordWeight;
         if (text.includes(keyword) || wordSet.has(keyword)) {
           matchedKeywords.push(keyword);
-          matchCount++;
+          matchedWeight += keywordWeight;
         }
       }
 
-      if (matchCount > 0) {
+      if (matchedKeywords.length > 0) {
         const confidence = Math.min(
-          (matchCount / Math.min(topicDef.keywords.length * 0.3, 10)) *
-            topicDef.weight,
+          (matchedWeight / Math.min(totalWeight * 0.3, 10)) * topicDef.weight,
           1.0,
         );
 
@@ -0,0 +1,654 @@
+/**
+ * File Organizer MCP Server v3.5.0
+ * Video Metadata Service
+ *
+ * @module services/video-metadata.service
+ * @description Pure-TypeScript metadata reader for MP4/MOV (ISO base media
+ * boxes and QuickTime atoms) and Matroska/WebM (EBML). Reads creation time,
+ * duration, resolution, codec, recording device and GPS location.
+ */
+
+import fs from "fs/promises";
+import path from "path";
+
+export interface VideoMetadata {
+  filePath: string;
+  format: string;
+
+  /**
+   * Local wall-clock time of recording, comparable with EXIF dates of
+   * photos. Taken from the QuickTime creation date when it carries a UTC
+   * offset, otherwise from the container's UTC creation time.
+   */
+  dateTaken?: Date;
+  /** Creation time stored in the container (UTC) */
+  creationTime?: Date;
+  duration?: number;
+  width?: number;
+  height?: number;
+  videoCodec?: string;
+  title?: string;
+
+  // Recording device
+  make?: string;
+  model?: string;
+  software?: string;
+
+  // GPS (ISO 6709)
+  hasGPS: boolean;
+  latitude?: number;
+  longitude?: number;
+  altitude?: number;
+
+  extractedAt: Date;
+}
+
+/** Seconds between 1904-01-01 (QuickTime epoch) and 1970-01-01 */
+const MAC_EPOCH_OFFSET = 2082844800;
+/** Milliseconds between 1970-01-01 and 2001-01-01 (Matroska epoch) */
+const MATROSKA_EPOCH_MS = Date.UTC(2001, 0, 1);
+/** Largest moov box that is read into memory */
+const MAX_MOOV_SIZE = 64 * 1024 * 1024;
+/** Bytes of a Matroska file scanned for segment info and tracks */
+const MATROSKA_HEAD_SIZE = 1024 * 1024;
+
+const MP4_EXTENSIONS = new Set([".mp4", ".m4v", ".mov", ".3gp", ".3g2"]);
+const MATROSKA_EXTENSIONS = new Set([".mkv", ".webm"]);
+
+const EBML = {
+  HEADER: 0x1a45dfa3,
+  DOC_TYPE: 0x4282,
+  SEGMENT: 0x18538067,
+  INFO: 0x1549a966,
+  TIMECODE_SCALE: 0x2ad7b1,
+  DURATION: 0x4489,
+  DATE_UTC: 0x4461,
+  TITLE: 0x7ba9,
+  WRITING_APP: 0x5741,
+  TRACKS: 0x1654ae6b,
+  TRACK_ENTRY: 0xae,
+  TRACK_TYPE: 0x83,
+  CODEC_ID: 0x86,
+  VIDEO: 0xe0,
+  PIXEL_WIDTH: 0xb0,
+  PIXEL_HEIGHT: 0xba,
+  CLUSTER: 0x1f43b675,
+} as const;
+
+interface Box {
+  type: string;
+  /** Start of the box body within the buffer */
+  start: number;
+  end: number;
+}
+
+interface EbmlElement {
+  id: number;
+  start: number;
+  /** Undefined for elements of unknown size */
+  end?: number;
+}
+
+export class VideoMetadataService {
+  private readonly supportedFormats = [
+    "mp4",
+    "m4v",
+    "mov",
+    "3gp",
+    "3g2",
+    "mkv",
+    "webm",
+  ];
+
+  /**
+   * Get list of supported video formats
+   */
+  getSupportedFormats(): string[] {
+    return [...this.supportedFormats];
+  }
+
+  /**
+   * Check if a video file format is supported
+   */
+  isFormatSupported(filePath: string): boolean {
+    const ext = path.extname(filePath).toLowerCase().slice(1);
+    return this.supportedFormats.includes(ext);
+  }
+
+  /**
+   * Extract metadata from a video file. Files that cannot be parsed return
+   * the base metadata only.
+   */
+  async extract(filePath: string): Promise<VideoMetadata> {
+    const metadata: VideoMetadata = {
+      filePath,
+      format: "UNKNOWN",
+      hasGPS: false,
+      extractedAt: new Date(),
+    };
+
+    const handle = await fs.open(filePath, "r");
+    try {
+      const head = Buffer.alloc(16);
+      const { bytesRead } = await handle.read(head, 0, 16, 0);
+      const ext = path.extname(filePath).toLowerCase();
+
+      if (bytesRead >= 4 && head.readUInt32BE(0) === EBML.HEADER) {
+        await this.parseMatroska(handle, metadata);
+      } else if (
+        (bytesRead >= 8 &&
+          ["ftyp", "moov", "mdat", "wide", "free"].includes(
+            head.toString("latin1", 4, 8),
+          )) ||
+        MP4_EXTENSIONS.has(ext)
+      ) {
+        await this.parseMP4(handle, metadata, ext);
+      } else if (MATROSKA_EXTENSIONS.has(ext)) {
+        metadata.format = ext === ".webm" ? "WEBM" : "MATROSKA";
+      }
+    } catch {
+      // Damaged or truncated file: keep whatever was read
+    } finally {
+      await handle.close();
+    }
+
+    metadata.hasGPS =
+      metadata.latitude !== undefined && metadata.longitude !== undefined;
+    metadata.dateTaken ??= metadata.creationTime;
+    return metadata;
+  }
+
+  // ==================== MP4 / MOV ====================
+
+  private async parseMP4(
+    handle: fs.FileHandle,
+    metadata: VideoMetadata,
+    ext: string,
+  ): Promise<void> {
+    const { size } = await handle.stat();
+    metadata.format = ext === ".mov" ? "MOV" : "MP4";
+
+    // Walk top-level boxes with small reads; only moov is loaded
+    const header = Buffer.alloc(16);
+    let offset = 0;
+    while (offset + 8 <= size) {
+      await handle.read(header, 0, 16, offset);
+      let boxSize = header.readUInt32BE(0);
+      const type = header.toString("latin1", 4, 8);
+      let headerSize = 8;
+      if (boxSize === 1) {
+        boxSize = Number(header.readBigUInt64BE(8));
+        headerSize = 16;
+      } else if (boxSize === 0) {
+        boxSize = size - offset;
+      }
+      if (boxSize < headerSize) return;
+
+      if (type === "ftyp") {
+        const brand = header.toString("latin1", 8, 12);
+        if (brand === "qt  ") metadata.format = "MOV";
+      } else if (type === "moov") {
+        const bodySize = boxSize - headerSize;
+        if (bodySize > MAX_MOOV_SIZE) return;
+        const moov = Buffer.alloc(bodySize);
+        await handle.read(moov, 0, bodySize, offset + headerSize);
+        this.parseMoov(moov, metadata);
+        return;
+      }
+      offset += boxSize;
+    }
+  }
+
+  private parseMoov(moov: Buffer, metadata: VideoMetadata): void {
+    for (const box of this.children(moov, 0, moov.length)) {
+      if (box.type === "mvhd") {
+        this.parseMvhd(moov.subarray(box.start, box.end), metadata);
+      } else if (box.type === "trak") {
+        this.parseTrak(moov, box, metadata);
+      } else if (box.type === "udta") {
+        this.parseUdta(moov, box, metadata);
+      } else if (box.type === "meta") {
+        this.parseMeta(moov, box, metadata);
+      }
+    }
+  }
+
+  private parseMvhd(body: Buffer, metadata: VideoMetadata): void {
+    const version = body[0];
+    let creation: number;
+    let timescale: number;
+    let duration: number;
+    if (version === 1) {
+      creation = Number(body.readBigUInt64BE(4));
+      timescale = body.readUInt32BE(20);
+      duration = Number(body.readBigUInt64BE(24));
+    } else {
+      creation = body.readUInt32BE(4);
+      timescale = body.readUInt32BE(12);
+      duration = body.readUInt32BE(16);
+    }
+
+    if (creation > MAC_EPOCH_OFFSET) {
+      metadata.creationTime = new Date((creation - MAC_EPOCH_OFFSET) * 1000);
+    }
+    if (timescale > 0 && duration > 0) {
+      metadata.duration = Math.round((duration / timescale) * 1000) / 1000;
+    }
+  }
+
+  private parseTrak(buffer: Buffer, trak: Box, metadata: VideoMetadata): void {
+    const mdia = this.find(buffer, trak, "mdia");
+    const hdlr = mdia && this.find(buffer, mdia, "hdlr");
+    if (
+      !hdlr ||
+      buffer.toString("latin1", hdlr.start + 8, hdlr.start + 12) !== "vide"
+    ) {
+      return;
+    }
+    if (metadata.width !== undefined) return;
+
+    const tkhd = this.find(buffer, trak, "tkhd");
+    if (tkhd) {
+      const body = buffer.subarray(tkhd.start, tkhd.end);
+      const at = body[0] === 1 ? 88 : 76;
+      if (body.length >= at + 8) {
+        metadata.width = Math.round(body.readUInt32BE(at) / 65536);
+        metadata.height = Math.round(body.readUInt32BE(at + 4) / 65536);
+      }
+    }
+
+    const minf = this.find(buffer, mdia, "minf");
+    const stbl = minf && this.find(buffer, minf, "stbl");
+    const stsd = stbl && this.find(buffer, stbl, "stsd");
+    if (stsd && stsd.end - stsd.start >= 16) {
+      metadata.videoCodec = buffer
+        .toString("latin1", stsd.start + 12, stsd.start + 16)
+        .trim();
+    }
+  }
+
+  /**
+   * QuickTime user data: ©xyz location, ©mak/©mod device, ©day date, and
+   * the iTunes-style meta box used by MP4 writers
+   */
+  private parseUdta(buffer: Buffer, udta: Box, metadata: VideoMetadata): void {
+    for (const box of this.children(buffer, udta.start, udta.end)) {
+      if (box.type === "meta") {
+        this.parseMeta(buffer, box, metadata);
+        continue;
+      }
+      if (!box.type.startsWith("\xa9")) continue;
+
+      const text = this.readUserDataText(buffer.subarray(box.start, box.end));
+      if (!text) continue;
+      switch (box.type) {
+        case "\xa9xyz":
+          this.applyISO6709(text, metadata);
+          break;
+        case "\xa9mak":
+          metadata.make ??= text;
+          break;
+        case "\xa9mod":
+          metadata.model ??= text;
+          break;
+        case "\xa9swr":
+          metadata.software ??= text;
+          break;
+        case "\xa9nam":
+          metadata.title ??= text;
+          break;
+        case "\xa9day":
+          this.applyLocalDate(text, metadata);
+          break;
+      }
+    }
+  }
+
+  /** Text of a QuickTime user data atom: 16-bit length, 16-bit language, text */
+  private readUserDataText(body: Buffer): string | undefined {
+    if (body.length >= 4) {
+      const length = body.readUInt16BE(0);
+      if (length > 0 && 4 + length <= body.length) {
+        return body
+          .toString("utf8", 4, 4 + length)
+          .replace(/\0+$/, "")
+          .trim();
+      }
+    }
+    // MP4 writers sometimes store a bare "data" atom instead
+    const data = body.indexOf("data", 0, "latin1");
+    if (data === 4 && body.length > 16) {
+      return body.toString("utf8", 16).replace(/\0+$/, "").trim();
+    }
+    return undefined;
+  }
+
+  /**
+   * meta box: QuickTime "mdta" keys (com.apple.quicktime.*) or iTunes ilst
+   */
+  private parseMeta(buffer: Buffer, meta: Box, metadata: VideoMetadata): void {
+    // ISO meta is a full box, QuickTime meta is not
+    const start =
+      buffer.toString("latin1", meta.start + 4, meta.start + 8) === "hdlr"
+        ? meta.start
+        : meta.start + 4;
+    const box = { ...meta, start };
+
+    const keysBox = this.find(buffer, box, "keys");
+    const ilst = this.find(buffer, box, "ilst");
+    if (!ilst) return;
+
+    const keys: string[] = [];
+    if (keysBox) {
+      const count = buffer.readUInt32BE(keysBox.start + 4);
+      let offset = keysBox.start + 8;
+      for (let i = 0; i < count && offset + 8 <= keysBox.end; i++) {
+        const size = buffer.readUInt32BE(offset);
+        if (size < 8) break;
+        keys.push(buffer.toString("utf8", offset + 8, offset + size));
+        offset += size;
+      }
+    }
+
+    for (const item of this.children(buffer, ilst.start, ilst.end)) {
+      const data = this.find(buffer, item, "data");
+      if (!data || data.end - data.start < 8) continue;
+      const value = buffer
+        .toString("utf8", data.start + 8, data.end)
+        .replace(/\0+$/, "")
+        .trim();
+      if (!value) continue;
+
+      const index = buffer.readUInt32BE(item.start - 4);
+      const key = keysBox ? keys[index - 1] : item.type;
+      switch (key) {
+        case "com.apple.quicktime.location.ISO6709":
+        case "\xa9xyz":
+          this.applyISO6709(value, metadata);
+          break;
+        case "com.apple.quicktime.make":
+        case "\xa9mak":
+          metadata.make = value;
+          break;
+        case "com.apple.quicktime.model":
+        case "\xa9mod":
+          metadata.model = value;
+          break;
+        case "com.apple.quicktime.software":
+        case "\xa9too":
+          metadata.software ??= value;
+          break;
+        case "com.apple.quicktime.title":
+        case "\xa9nam":
+          metadata.title ??= value;
+          break;
+        case "com.apple.quicktime.creationdate":
+        case "\xa9day":
+          this.applyLocalDate(value, metadata);
+          break;
+      }
+    }
+  }
+
+  /**
+   * "+37.7749-122.4194+010.000/" (degrees, optional altitude)
+   */
+  private applyISO6709(value: string, metadata: VideoMetadata): void {
+    const match =
+      /^([+-]\d+(?:\.\d+)?)([+-]\d+(?:\.\d+)?)([+-]\d+(?:\.\d+)?)?/.exec(value);
+    if (!match) return;
+    const latitude = parseFloat(match[1]!);
+    const longitude = parseFloat(match[2]!);
+    if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return;
+    metadata.latitude = latitude;
+    metadata.longitude = longitude;
+    if (match[3]) metadata.altitude = parseFloat(match[3]);
+  }
+
+  /**
+   * Dates with a UTC offset ("2023-05-10T18:30:00+0200") give the wall-clock
+   * time at the place of recording, the way EXIF dates of photos do
+   */
+  private applyLocalDate(value: string, metadata: VideoMetadata): void {
+    const match =
+      /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?(Z|[+-]\d{2}:?\d{2})$/.exec(
+        value,
+      );
+    if (!match) return;
+    const [, y, mo, d, h, mi, s, zone] = match;
+    const local = new Date(
+      Number(y),
+      Number(mo) - 1,
+      Number(d),
+      Number(h),
+      Number(mi),
+      Number(s ?? 0),
+    );
+    if (isNaN(local.getTime())) return;
+
+    // A "Z" date is UTC and says nothing about local time
+    if (zone === "Z") {
+      metadata.creationTime ??= new Date(
+        Date.UTC(
+          Number(y),
+          Number(mo) - 1,
+          Number(d),
+          Number(h),
+          Number(mi),
+          Number(s ?? 0),
+        ),
+      );
+      return;
+    }
+    metadata.dateTaken = local;
+  }
+
+  /** Child boxes of the range [start, end) */
+  private *children(
+    buffer: Buffer,
+    start: number,
+    end: number,
+  ): Generator<Box> {
+    let offset = start;
+    while (offset + 8 <= end) {
+      let size = buffer.readUInt32BE(offset);
+      const type = buffer.toString("latin1", offset + 4, offset + 8);
+      let headerSize = 8;
+      if (size === 1 && offset + 16 <= end) {
+        size = Number(buffer.readBigUInt64BE(offset + 8));
+        headerSize = 16;
+      } else if (size === 0) {
+        size = end - offset;
+      }
+      if (size < headerSize || offset + size > end) return;
+      yield { type, start: offset + headerSize, end: offset + size };
+      offset += size;
+    }
+  }
+
+  private find(buffer: Buffer, parent: Box, type: string): Box | undefined {
+    for (const box of this.children(buffer, parent.start, parent.end)) {
+      if (box.type === type) return box;
+    }
+    return undefined;
+  }
+
+  // ==================== Matroska / WebM ====================
+
+  private async parseMatroska(
+    handle: fs.FileHandle,
+    metadata: VideoMetadata,
+  ): Promise<void> {
+    const buffer = Buffer.alloc(MATROSKA_HEAD_SIZE);
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+    const data = buffer.subarray(0, bytesRead);
+
+    const header = this.readElement(data, 0);
+    if (!header || header.id !== EBML.HEADER || header.end === undefined) {
+      return;
+    }
+    metadata.format = "MATROSKA";
+    for (const el of this.elements(data, header.start, header.end)) {
+      if (el.id === EBML.DOC_TYPE && this.readString(data, el) === "webm") {
+        metadata.format = "WEBM";
+      }
+    }
+
+    const segment = this.readElement(data, header.end);
+    if (!segment || segment.id !== EBML.SEGMENT) return;
+
+    for (const el of this.elements(
+      data,
+      segment.start,
+      segment.end ?? data.length,
+    )) {
+      if (el.id === EBML.CLUSTER) break;
+      if (el.end === undefined) break;
+      if (el.id === EBML.INFO) {
+        this.parseMatroskaInfo(data, el, metadata);
+      } else if (el.id === EBML.TRACKS) {
+        this.parseMatroskaTracks(data, el, metadata);
+      }
+    }
+  }
+
+  private parseMatroskaInfo(
+    data: Buffer,
+    info: EbmlElement,
+    metadata: VideoMetadata,
+  ): void {
+    let timecodeScale = 1_000_000;
+    let duration: number | undefined;
+    for (const el of this.elements(data, info.start, info.end!)) {
+      switch (el.id) {
+        case EBML.TIMECODE_SCALE:
+          timecodeScale = this.readUInt(data, el) || timecodeScale;
+          break;
+        case EBML.DURATION:
+          duration = this.readFloat(data, el);
+          break;
+        case EBML.DATE_UTC: {
+          if (el.end! - el.start !== 8) break;
+          const ns = data.readBigInt64BE(el.start);
+          metadata.creationTime = new Date(
+            MATROSKA_EPOCH_MS + Number(ns / 1_000_000n),
+          );
+          break;
+        }
+        case EBML.TITLE:
+          metadata.title = this.readString(data, el) || undefined;
+          break;
+        case EBML.WRITING_APP:
+          metadata.software = this.readString(data, el) || undefined;
+          break;
+      }
+    }
+    if (duration !== undefined && duration > 0) {
+      metadata.duration =
+        Math.round(((duration * timecodeScale) / 1e9) * 1000) / 1000;
+    }
+  }
+
+  private parseMatroskaTracks(
+    data: Buffer,
+    tracks: EbmlElement,
+    metadata: VideoMetadata,
+  ): void {
+    for (const entry of this.elements(data, tracks.start, tracks.end!)) {
+      if (entry.id !== EBML.TRACK_ENTRY || entry.end === undefined) continue;
+
+      let type: number | undefined;
+      let codec: string | undefined;
+      let width: number | undefined;
+      let height: number | undefined;
+      for (const el of this.elements(data, entry.start, entry.end)) {
+        if (el.id === EBML.TRACK_TYPE) type = this.readUInt(data, el);
+        else if (el.id === EBML.CODEC_ID) codec = this.readString(data, el);
+        else if (el.id === EBML.VIDEO && el.end !== undefined) {
+          for (const v of this.elements(data, el.start, el.end)) {
+            if (v.id === EBML.PIXEL_WIDTH) width = this.readUInt(data, v);
+            if (v.id === EBML.PIXEL_HEIGHT) height = this.readUInt(data, v);
+          }
+        }
+      }
+
+      if (type === 1) {
+        metadata.videoCodec = codec;
+        metadata.width = width;
+        metadata.height = height;
+        return;
+      }
+    }
+  }
+
+  /** Variable-length integer; the marker bit is kept for IDs */
+  private readVint(
+    data: Buffer,
+    offset: number,
+    keepMarker: boolean,
+  ): { value: number; length: number; unknown: boolean } | undefined {
+    const first = data[offset];
+    if (first === undefined || first === 0) return undefined;
+    const length = Math.clz32(first) - 23;
+    if (offset + length > data.length) return undefined;
+
+    let value = keepMarker ? first : first & (0xff >> length);
+    let allOnes = value === 0xff >> length;
+    for (let i = 1; i < length; i++) {
+      const byte = data[offset + i]!;
+      value = value * 256 + byte;
+      if (byte !== 0xff) allOnes = false;
+    }
+    return { value, length, unknown: !keepMarker && allOnes };
+  }
+
+  private readElement(data: Buffer, offset: number): EbmlElement | undefined {
+    const id = this.readVint(data, offset, true);
+    if (!id) return undefined;
+    const size = this.readVint(data, offset + id.length, false);
+    if (!size) return undefined;
+    const start = offset + id.length + size.length;
+    if (size.unknown) return { id: id.value, start };
+    return { id: id.value, start, end: start + size.value };
+  }
+
+  /** Child elements that lie completely within the read data */
+  private *elements(
+    data: Buffer,
+    start: number,
+    end: number,
+  ): Generator<EbmlElement> {
+    let offset = start;
+    const limit = Math.min(end, data.length);
+    while (offset < limit) {
+      const el = this.readElement(data, offset);
+      if (!el) return;
+      if (el.end === undefined) {
+        yield el;
+        return;
+      }
+      if (el.end > limit) return;
+      yield el;
+      offset = el.end;
+    }
+  }
+
+  private readUInt(data: Buffer, el: EbmlElement): number {
+    let value = 0;
+    for (let i = el.start; i < el.end!; i++) value = value * 256 + data[i]!;
+    return value;
+  }
+
+  private readFloat(data: Buffer, el: EbmlElement): number | undefined {
+    const size = el.end! - el.start;
+    if (size === 4) return data.readFloatBE(el.start);
+    if (size === 8) return data.readDoubleBE(el.start);
+    return undefined;
+  }
+
+  private readString(data: Buffer, el: EbmlElement): string {
+    return data.toString("utf8", el.start, el.end).replace(/\0+$/, "");
+  }
+}
+
+export const videoMetadataService = new VideoMetadataService();
@@ -0,0 +1,320 @@
+/**
+ * Video Organizer Service
+ * Organizes videos by recording date and device, using the same folder
+ * layout as the photo organizer so clips land next to photos of the same day
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { VideoMetadataService } from "./video-metadata.service.js";
+import { PhotoOrganizerService } from "./photo-organizer.service.js";
+import { PathValidatorService } from "./path-validator.service.js";
+import { logger } from "../utils/logger.js";
+import { isSubPath } from "../utils/file-utils.js";
+import { FileInfo } from "../types.js";
+
+// Video file extensions supported
+const VIDEO_EXTENSIONS = new Set([
+  ".mp4",
+  ".m4v",
+  ".mov",
+  ".3gp",
+  ".3g2",
+  ".mkv",
+  ".webm",
+]);
+
+export interface VideoOrganizationConfig {
+  sourceDir: string;
+  targetDir: string;
+  dateFormat: "YYYY/MM/DD" | "YYYY-MM-DD" | "YYYY/MM" | "YYYY";
+  useDateCreated?: boolean;
+  groupByDevice?: boolean;
+  copyInsteadOfMove?: boolean;
+  unknownDateFolder?: string;
+  dryRun?: boolean;
+}
+
+export interface VideoOrganizationResult {
+  success: boolean;
+  organizedFiles: number;
+  skippedFiles: number;
+  errors: Array<{ file: string; error: string }>;
+  structure: Record<string, number>;
+  /** Tracks files that were moved (not copied) for rollback support */
+  movedFiles: Array<{ originalPath: string; currentPath: string }>;
+}
+
+interface VideoFileInfo extends FileInfo {
+  dateTaken?: Date;
+  device?: string;
+}
+
+export class VideoOrganizerService {
+  private videoMetadata: VideoMetadataService;
+  private photoOrganizer: PhotoOrganizerService;
+  private pathValidator: PathValidatorService;
+
+  constructor(
+    videoMetadata: VideoMetadataService = new VideoMetadataService(),
+    photoOrganizer: PhotoOrganizerService = new PhotoOrganizerService(),
+    pathValidator: PathValidatorService = new PathValidatorService(),
+  ) {
+    this.videoMetadata = videoMetadata;
+    this.photoOrganizer = photoOrganizer;
+    this.pathValidator = pathValidator;
+  }
+
+  /**
+   * Organize videos by recording date
+   */
+  async organize(
+    config: VideoOrganizationConfig,
+  ): Promise<VideoOrganizationResult> {
+    return this.performOrganization(config, config.dryRun ?? false);
+  }
+
+  /**
+   * Preview organization without actually moving/copying files
+   */
+  async previewOrganization(
+    config: VideoOrganizationConfig,
+  ): Promise<VideoOrganizationResult> {
+    return this.performOrganization(config, true);
+  }
+
+  private async performOrganization(
+    config: VideoOrganizationConfig,
+    dryRun: boolean,
+  ): Promise<VideoOrganizationResult> {
+    const result: VideoOrganizationResult = {
+      success: true,
+      organizedFiles: 0,
+      skippedFiles: 0,
+      errors: [],
+      structure: {},
+      movedFiles: [],
+    };
+
+    try {
+      await this.validateConfig(config);
+
+      const videoFiles = await this.scanVideoFiles(config.sourceDir);
+      if (videoFiles.length === 0) {
+        logger.warn("No video files found in source directory", {
+          sourceDir: config.sourceDir,
+        });
+        return result;
+      }
+
+      logger.info(`Found ${videoFiles.length} video files to organize`, {
+        sourceDir: config.sourceDir,
+        targetDir: config.targetDir,
+        dryRun,
+      });
+
+      const videos = await this.extractVideoMetadata(videoFiles, config);
+
+      for (const video of videos) {
+        try {
+          const targetPath = this.getTargetPath(video, config);
+          const targetDir = path.dirname(targetPath);
+
+          if (dryRun) {
+            result.structure[targetDir] =
+              (result.structure[targetDir] || 0) + 1;
+            result.organizedFiles++;
+            continue;
+          }
+
+          await fs.mkdir(targetDir, { recursive: true });
+          const finalTargetPath = await this.resolveCollision(targetPath);
+
+          if (config.copyInsteadOfMove) {
+            await fs.copyFile(video.path, finalTargetPath);
+            await fs.utimes(finalTargetPath, video.modified, video.modified);
+          } else {
+            try {
+              await fs.rename(video.path, finalTargetPath);
+            } catch (renameErr) {
+              const err = renameErr as NodeJS.ErrnoException;
+              if (err.code === "EXDEV") {
+                // Cross-device move: fall back to copy + delete
+                await fs.copyFile(video.path, finalTargetPath);
+                await fs.unlink(video.path);
+              } else {
+                throw renameErr;
+              }
+            }
+            // Track moved file for rollback support
+            result.movedFiles.push({
+              originalPath: video.path,
+              currentPath: finalTargetPath,
+            });
+          }
+
+          result.structure[targetDir] = (result.structure[targetDir] || 0) + 1;
+          result.organizedFiles++;
+          logger.info(
+            `${config.copyInsteadOfMove ? "Copied" : "Moved"} video`,
+            {
+              source: video.path,
+              target: finalTargetPath,
+              dateTaken: video.dateTaken?.toISOString(),
+            },
+          );
+        } catch (error) {
+          const errorMsg =
+            error instanceof Error ? error.message : String(error);
+          result.errors.push({ file: video.path, error: errorMsg });
+          logger.error("Failed to organize video", error, { file: video.path });
+        }
+      }
+
+      logger.info("Video organization completed", {
+        totalFiles: videoFiles.length,
+        organized: result.organizedFiles,
+        errors: result.errors.length,
+      });
+    } catch (error) {
+      result.success = false;
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      logger.error("Video organization failed", error);
+      result.errors.push({ file: "N/A", error: errorMsg });
+    }
+
+    return result;
+  }
+
+  private async validateConfig(config: VideoOrganizationConfig): Promise<void> {
+    const sourceReal = await this.pathValidator.validatePath(config.sourceDir, {
+      requireExists: true,
+      checkWrite: false,
+    });
+    const targetReal = await this.pathValidator.validatePath(config.targetDir, {
+      requireExists: false,
+      checkWrite: true,
+    });
+
+    if (sourceReal === targetReal) {
+      throw new Error("Source and target directories must be different");
+    }
+    if (
+      isSubPath(sourceReal, targetReal) ||
+      isSubPath(targetReal, sourceReal)
+    ) {
+      throw new Error(
+        "Source and target directories cannot be nested within each other",
+      );
+    }
+
+    config.unknownDateFolder ??= "Unknown Date";
+    config.useDateCreated ??= false;
+    config.groupByDevice ??= false;
+    config.copyInsteadOfMove ??= false;
+  }
+
+  private async scanVideoFiles(dir: string): Promise<FileInfo[]> {
+    const videos: FileInfo[] = [];
+    const validatedPath = await this.pathValidator.validatePath(dir, {
+      requireExists: true,
+      checkWrite: false,
+    });
+
+    const entries = await fs.readdir(validatedPath, { withFileTypes: true });
+    for (const entry of entries) {
+      if (!entry.isFile()) continue;
+      const ext = path.extname(entry.name).toLowerCase();
+      if (!VIDEO_EXTENSIONS.has(ext)) continue;
+
+      const fullPath = path.join(validatedPath, entry.name);
+      const stats = await fs.stat(fullPath);
+      videos.push({
+        name: entry.name,
+        path: fullPath,
+        size: stats.size,
+        extension: ext,
+        created: stats.birthtime,
+        modified: stats.mtime,
+      });
+    }
+
+    return videos;
+  }
+
+  private async extractVideoMetadata(
+    files: FileInfo[],
+    config: VideoOrganizationConfig,
+  ): Promise<VideoFileInfo[]> {
+    const videos: VideoFileInfo[] = [];
+
+    for (const file of files) {
+      const video: VideoFileInfo = { ...file };
+      try {
+        const metadata = await this.videoMetadata.extract(file.path);
+        video.dateTaken = metadata.dateTaken;
+        // Same "Make Model" naming as the camera folders of photos
+        if (metadata.make && metadata.model) {
+          video.device = `${metadata.make} ${metadata.model}`.trim();
+        }
+      } catch (error) {
+        logger.debug(
+          `Video metadata extraction failed for ${file.path}: ${(error as Error).message}`,
+        );
+      }
+      if (!video.dateTaken && config.useDateCreated) {
+        video.dateTaken = file.created;
+      }
+      videos.push(video);
+    }
+
+    return videos;
+  }
+
+  private getTargetPath(
+    video: VideoFileInfo,
+    config: VideoOrganizationConfig,
+  ): string {
+    const folderPath = this.photoOrganizer.getDateFolderName(
+      video.dateTaken,
+      config.dateFormat,
+      config.unknownDateFolder!,
+    );
+
+    let targetDir = path.join(config.targetDir, folderPath);
+    if (config.groupByDevice && video.device) {
+      const sanitizedDevice = this.photoOrganizer.sanitizeFolderName(
+        video.device,
+      );
+      if (sanitizedDevice) {
+        targetDir = path.join(targetDir, sanitizedDevice);
+      }
+    }
+
+    return path.join(targetDir, video.name);
+  }
+
+  /**
+   * Resolve filename collisions by appending (1), (2), etc.
+   */
+  private async resolveCollision(targetPath: string): Promise<string> {
+    const dir = path.dirname(targetPath);
+    const ext = path.extname(targetPath);
+    const basename = path.basename(targetPath, ext);
+
+    let candidate = targetPath;
+    for (let counter = 1; await this.fileExists(candidate); counter++) {
+      candidate = path.join(dir, `${basename} (${counter})${ext}`);
+    }
+    return candidate;
+  }
+
+  private async fileExists(filePath: string): Promise<boolean> {
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * File Organizer MCP Server v3.5.0
+ * extract_archive Tool
+ *
+ * @module tools/archive-extraction
+ */
+
+import path from "path";
+import type { ToolDefinition, ToolResponse } from "../types.js";
+import { validateStrictPath } from "../services/path-validator.service.js";
+import {
+  ArchiveExtractorService,
+  defaultExtractionDir,
+} from "../services/archive-extractor.service.js";
+import { createErrorResponse } from "../utils/error-handler.js";
+import { formatBytes } from "../utils/formatters.js";
+import { ExtractArchiveInputSchema } from "../schemas/archive.schemas.js";
+
+export { ExtractArchiveInputSchema } from "../schemas/archive.schemas.js";
+export type { ExtractArchiveInput } from "../schemas/archive.schemas.js";
+
+export const extractArchiveToolDefinition: ToolDefinition = {
+  name: "file_organizer_extract_archive",
+  title: "Extract Archive",
+  description:
+    "Safely extract a ZIP, TAR, TAR.GZ or GZ archive into an allowed directory. The whole archive is refused if any entry would escape the target (zip-slip), is a symbolic or hard link, or if entry count, file size, total size or compression ratio exceed the safety limits. Existing files are never overwritten. The extracted files and folders can be removed in one undo with the returned rollback manifest.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      archive_path: {
+        type: "string",
+        description: "Full path to the ZIP, TAR, TAR.GZ or GZ archive",
+      },
+      target_dir: {
+        type: "string",
+        description:
+          "Directory to extract into; defaults to a folder named after the archive next to it",
+      },
+      dry_run: {
+        type: "boolean",
+        description: "Validate the archive and list what would be extracted",
+        default: false,
+      },
+      response_format: {
+        type: "string",
+        enum: ["json", "markdown"],
+        default: "markdown",
+      },
+    },
+    required: ["archive_path"],
+  },
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+};
+
+export async function handleExtractArchive(
+  args: Record<string, unknown>,
+): Promise<ToolResponse> {
+  try {
+    const parsed = ExtractArchiveInputSchema.safeParse(args);
+    if (!parsed.success) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${parsed.error.issues.map((i) => i.message).join(", ")}`,
+          },
+        ],
+      };
+    }
+
+    const { archive_path, target_dir, dry_run, response_format } = parsed.data;
+
+    const archivePath = await validateStrictPath(archive_path);
+    const targetDir = await validateStrictPath(
+      target_dir ?? defaultExtractionDir(archivePath),
+    );
+
+    const result = await new ArchiveExtractorService().extract(
+      archivePath,
+      targetDir,
+      { dryRun: dry_run },
+    );
+
+    const output = {
+      dry_run,
+      format: result.format,
+      target_dir: result.destination,
+      file_count: result.files.length,
+      directory_count: result.directories.length,
+      total_size: result.totalSize,
+      files: result.files,
+      skipped: result.skipped,
+      manifest_id: result.manifestId,
+    };
+
+    if (response_format === "json") {
+      return {
+        content: [{ type: "text", text: JSON.stringify(output, null, 2) }],
+        structuredContent: output as unknown as Record<string, unknown>,
+      };
+    }
+
+    let md = `### Archive Extraction ${dry_run ? "(Dry Run)" : "Result"}\n\n`;
+    md += `**Archive:** \`${archivePath}\` (${result.format.toUpperCase()})\n`;
+    md += `**Target:** \`${result.destination}\`\n\n`;
+    md += `- **${dry_run ? "Would extract" : "Extracted Files"}:** ${result.files.length} (${formatBytes(result.totalSize)})\n`;
+    md += `- **Folders${dry_run ? "" : " Created"}:** ${result.directories.length}\n`;
+    md += `- **Skipped (already exist):** ${result.skipped.length}\n\n`;
+
+    if (result.files.length > 0) {
+      md += `| File | Size |\n|---|---|\n`;
+      for (const file of result.files.slice(0, 50)) {
+        md += `| \`${path.relative(result.destination, file.path)}\` | ${formatBytes(file.size)} |\n`;
+      }
+      if (result.files.length > 50) md += `| ... | ... |\n`;
+    }
+    if (result.skipped.length > 0) {
+      md += `\n**Skipped:**\n${result.skipped.map((s) => `- ${s.entry}: ${s.reason}`).join("\n")}\n`;
+    }
+    if (result.manifestId) {
+      md += `\nUndo the extraction with rollback manifest \`${result.manifestId}\`.\n`;
+    }
+
+    return { content: [{ type: "text", text: md }] };
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * File Organizer MCP Server v3.5.0
+ * inspect_archive Tool
+ *
+ * @module tools/archive-inspection
+ */
+
+import type { ToolDefinition, ToolResponse } from "../types.js";
+import { validateStrictPath } from "../services/path-validator.service.js";
+import { ArchiveInspectorService } from "../services/archive-inspector.service.js";
+import { createErrorResponse } from "../utils/error-handler.js";
+import { escapeMarkdown } from "../utils/index.js";
+import { formatBytes } from "../utils/formatters.js";
+import { InspectArchiveInputSchema } from "../schemas/archive.schemas.js";
+
+export { InspectArchiveInputSchema } from "../schemas/archive.schemas.js";
+export type { InspectArchiveInput } from "../schemas/archive.schemas.js";
+
+export const inspectArchiveToolDefinition: ToolDefinition = {
+  name: "file_organizer_inspect_archive",
+  title: "Inspect Archive",
+  description:
+    "Look inside a ZIP, TAR, TAR.GZ or GZ archive without extracting it. Lists every entry with its size, compression ratio and the file type detected from its first bytes, flags suspicious entries (executables, disguised or double extensions, links, paths escaping the extraction folder, extreme compression) and reports the category holding most of the content. Read-only.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      archive_path: {
+        type: "string",
+        description: "Full path to the ZIP, TAR, TAR.GZ or GZ archive",
+      },
+      response_format: {
+        type: "string",
+        enum: ["json", "markdown"],
+        default: "markdown",
+      },
+    },
+    required: ["archive_path"],
+  },
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+};
+
+export async function handleInspectArchive(
+  args: Record<string, unknown>,
+): Promise<ToolResponse> {
+  try {
+    const parsed = InspectArchiveInputSchema.safeParse(args);
+    if (!parsed.success) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${parsed.error.issues.map((i) => i.message).join(", ")}`,
+          },
+        ],
+      };
+    }
+
+    const { archive_path, response_format } = parsed.data;
+    const archivePath = await validateStrictPath(archive_path);
+    const inspection = await new ArchiveInspectorService().inspect(archivePath);
+
+    const output = {
+      archive_path: inspection.archivePath,
+      format: inspection.format,
+      archive_size: inspection.archiveSize,
+      total_size: inspection.totalSize,
+      compression_ratio: Number(inspection.compressionRatio.toFixed(2)),
+      entry_count: inspection.entries.length,
+      safe: inspection.safe,
+      suspicious_count: inspection.suspiciousCount,
+      problems: inspection.problems,
+      dominant_category: inspection.dominantCategory
+        ? {
+            category: inspection.dominantCategory.category,
+            share: Number(inspection.dominantCategory.share.toFixed(2)),
+          }
+        : null,
+      entries: inspection.entries.map((e) => ({
+        name: e.name,
+        type: e.type,
+        size: e.size,
+        compressed_size: e.compressedSize,
+        compression_ratio:
+          e.compressionRatio !== undefined
+            ? Number(e.compressionRatio.toFixed(2))
+            : undefined,
+        detected_type: e.detectedType,
+        mime_type: e.mimeType,
+        category: e.category,
+        flags: e.flags,
+      })),
+    };
+
+    if (response_format === "json") {
+      return {
+        content: [{ type: "text", text: JSON.stringify(output, null, 2) }],
+        structuredContent: output as unknown as Record<string, unknown>,
+      };
+    }
+
+    let md = `### Archive Inspection\n\n`;
+    md += `**Archive:** \`${escapeMarkdown(archivePath)}\` (${inspection.format.toUpperCase()})\n`;
+    md += `**Size:** ${formatBytes(inspection.archiveSize)} → ${formatBytes(inspection.totalSize)} uncompressed (${output.compression_ratio}:1)\n`;
+    md += `**Entries:** ${inspection.entries.length}\n`;
+    if (inspection.dominantCategory) {
+      md += `**Mostly:** ${inspection.dominantCategory.category} (${Math.round(inspection.dominantCategory.share * 100)}% of the content)\n`;
+    }
+    md += `**Verdict:** ${inspection.safe ? "✅ No suspicious entries" : `⚠️ ${inspection.suspiciousCount} suspicious entries`}\n\n`;
+
+    md += `| Entry | Size | Ratio | Detected | Flags |\n|---|---|---|---|---|\n`;
+    for (const entry of inspection.entries.slice(0, 100)) {
+      md += `| \`${escapeMarkdown(entry.name)}\` | ${entry.type === "file" ? formatBytes(entry.size) : entry.type} | ${entry.compressionRatio !== undefined ? `${entry.compressionRatio.toFixed(1)}:1` : "-"} | ${entry.detectedType ?? "-"} | ${entry.flags.map(escapeMarkdown).join("; ") || "-"} |\n`;
+    }
+    if (inspection.entries.length > 100) {
+      md += `| ... ${inspection.entries.length - 100} more | | | | |\n`;
+    }
+    if (inspection.problems.length > 0) {
+      md += `\n**Would not be extracted:**\n${inspection.problems.map((p) => `- ${escapeMarkdown(p)}`).join("\n")}\n`;
+    }
+
+    return { content: [{ type: "text", text: md }] };
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
@@ -0,0 +1,232 @@
+/**
+ * File Organizer MCP Server v3.5.0
+ * edit_audio_tags Tool
+ *
+ * @module tools/audio-tag-editing
+ */
+
+import path from "path";
+import type { ToolDefinition, ToolResponse } from "../types.js";
+import { validateStrictPath } from "../services/path-validator.service.js";
+import { FileScannerService } from "../services/file-scanner.service.js";
+import { AudioTagEditorService } from "../services/audio-tag-editor.service.js";
+import {
+  audioTagWriterService,
+  type AudioTagEdit,
+} from "../services/audio-tag-writer.service.js";
+import { createErrorResponse } from "../utils/error-handler.js";
+import {
+  EditAudioTagsInputSchema,
+  type AudioTags,
+} from "../schemas/media.schemas.js";
+
+export {
+  EditAudioTagsInputSchema,
+  AudioTagsSchema,
+} from "../schemas/media.schemas.js";
+export type {
+  EditAudioTagsInput,
+  AudioTags,
+} from "../schemas/media.schemas.js";
+
+const tagProperties = {
+  title: { type: "string" },
+  artist: { type: "string" },
+  album: { type: "string" },
+  album_artist: { type: "string" },
+  genre: { type: "string" },
+  year: { type: "integer" },
+  track_number: { type: "integer", minimum: 1 },
+  total_tracks: { type: "integer", minimum: 1 },
+  disc_number: { type: "integer", minimum: 1 },
+  total_discs: { type: "integer", minimum: 1 },
+};
+
+export const editAudioTagsToolDefinition: ToolDefinition = {
+  name: "file_organizer_edit_audio_tags",
+  title: "Edit Audio Tags",
+  description:
+    "Write title, artist, album, album artist, track/disc, year and genre tags to MP3 (ID3v2.4), FLAC (Vorbis comments) and M4A files. " +
+    "Edit single files or a whole album (shared tags, per-file tags, track numbering). " +
+    'The original tags are backed up and can be restored with the rollback tools. "dry_run" defaults to true.',
+  inputSchema: {
+    type: "object",
+    properties: {
+      files: {
+        type: "array",
+        items: { type: "string" },
+        description: "Audio files that receive the shared tags",
+      },
+      directory: {
+        type: "string",
+        description: "Edit every supported audio file in this directory",
+      },
+      tags: {
+        type: "object",
+        properties: tagProperties,
+        description: "Tags written to every file",
+      },
+      per_file: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            path: { type: "string" },
+            tags: { type: "object", properties: tagProperties },
+          },
+          required: ["path", "tags"],
+        },
+        description: "Tags for individual files (win over shared tags)",
+      },
+      number_tracks: {
+        type: "boolean",
+        description: "Number tracks 1..n in file name order",
+        default: false,
+      },
+      dry_run: {
+        type: "boolean",
+        description: "Preview tag changes without writing",
+        default: true,
+      },
+      response_format: {
+        type: "string",
+        enum: ["json", "markdown"],
+        default: "markdown",
+      },
+    },
+    required: [],
+  },
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+};
+
+function toTagEdit(tags: AudioTags | undefined): AudioTagEdit {
+  if (!tags) return {};
+  const edit: AudioTagEdit = {
+    title: tags.title,
+    artist: tags.artist,
+    album: tags.album,
+    albumArtist: tags.album_artist,
+    genre: tags.genre,
+    year: tags.year,
+    trackNumber: tags.track_number,
+    totalTracks: tags.total_tracks,
+    discNumber: tags.disc_number,
+    totalDiscs: tags.total_discs,
+  };
+  return Object.fromEntries(
+    Object.entries(edit).filter(([, value]) => value !== undefined),
+  ) as AudioTagEdit;
+}
+
+export async function handleEditAudioTags(
+  args: Record<string, unknown>,
+): Promise<ToolResponse> {
+  try {
+    const parsed = EditAudioTagsInputSchema.safeParse(args);
+    if (!parsed.success) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${parsed.error.issues.map((i) => i.message).join(", ")}`,
+          },
+        ],
+      };
+    }
+
+    const {
+      files,
+      directory,
+      tags,
+      per_file,
+      number_tracks,
+      dry_run,
+      response_format,
+    } = parsed.data;
+    const editor = new AudioTagEditorService();
+
+    const targets: string[] = [];
+    for (const file of files ?? []) {
+      targets.push(await validateStrictPath(file));
+    }
+    if (directory) {
+      const validatedDir = await validateStrictPath(directory);
+      const scanned = await new FileScannerService().getAllFiles(
+        validatedDir,
+        false,
+      );
+      targets.push(
+        ...scanned
+          .map((f) => f.path)
+          .filter((p) => audioTagWriterService.isSupported(p)),
+      );
+    }
+    const perFile = [];
+    for (const entry of per_file ?? []) {
+      perFile.push({
+        path: await validateStrictPath(entry.path),
+        tags: toTagEdit(entry.tags),
+      });
+    }
+
+    const requests = editor.planAlbumEdit(targets, toTagEdit(tags), {
+      perFile,
+      numberTracks: number_tracks,
+    });
+    if (requests.length === 0) {
+      return {
+        content: [{ type: "text", text: "No audio files found to edit." }],
+      };
+    }
+
+    const result = await editor.editTags(requests, { dryRun: dry_run });
+
+    const output = {
+      dry_run,
+      edited_count: result.edited.length,
+      unchanged_count: result.unchanged.length,
+      failed_count: result.failed.length,
+      edited: result.edited,
+      unchanged: result.unchanged,
+      failures: result.failed,
+      manifest_id: result.manifestId,
+    };
+
+    if (response_format === "json") {
+      return {
+        content: [{ type: "text", text: JSON.stringify(output, null, 2) }],
+        structuredContent: output as unknown as Record<string, unknown>,
+      };
+    }
+
+    let md = `### Audio Tag Edit ${dry_run ? "(Dry Run)" : "Result"}\n\n`;
+    md += `- **${dry_run ? "Would edit" : "Edited"}:** ${output.edited_count}\n`;
+    md += `- **Unchanged:** ${output.unchanged_count}\n`;
+    md += `- **Failed:** ${output.failed_count}\n\n`;
+
+    if (result.edited.length > 0) {
+      md += `| File | Field | Before | After |\n|---|---|---|---|\n`;
+      for (const file of result.edited.slice(0, 50)) {
+        for (const change of file.changes) {
+          md += `| \`${path.basename(file.path)}\` | ${change.field} | ${change.from ?? "_(none)_"} | ${change.to} |\n`;
+        }
+      }
+      if (result.edited.length > 50) md += `| ... | ... | ... | ... |\n`;
+    }
+    if (result.failed.length > 0) {
+      md += `\n**Failures:**\n${result.failed.map((f) => `- ${f.path}: ${f.error}`).join("\n")}\n`;
+    }
+    if (result.manifestId) {
+      md += `\nOriginal tags backed up; undo with rollback manifest \`${result.manifestId}\`.\n`;
+    }
+
+    return { content: [{ type: "text", text: md }] };
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
@@ -14,8 +14,10 @@ import { FileScannerService } from "../services/file-scanner.service.js";
 import {
   TopicExtractorService,
   topicExtractorService,
+  loadUserTopics,
   type TopicMatch,
 } from "../services/topic-extractor.service.js";
+import { TopicClassifierService } from "../services/topic-classifier.service.js";
 import { textExtractionService } from "../services/text-extraction.service.js";
 import { RollbackService } from "../services/rollback.service.js";
 import {
@@ -27,7 +29,7 @@ import {
   sanitizeErrorMessage,
 } from "../utils/error-handler.js";
 import { escapeMarkdown } from "../utils/index.js";
-import { fileExists } from "../utils/file-utils.js";
+import { fileExists, isSubPath } from "../utils/file-utils.js";
 import { CommonParamsSchema } from "../schemas/common.schemas.js";
 import {
   OrganizeByContentInputSchema,
@@ -47,6 +49,13 @@ const DOCUMENT_EXTENSIONS = [
   ".md",
   ".rtf",
   ".odt",
+  ".xlsx",
+  ".pptx",
+  ".epub",
+  ".html",
+  ".htm",
+  ".eml",
+  ".mbox",
 ];
 
 interface DocumentOrganizationResult {
@@ -64,13 +73,17 @@ interface OrganizationResult {
   errors: Array<{ file: string; error: string }>;
   results: DocumentOrganizationResult[];
   structure: Record<string, string[]>;
+  /** Documents whose best topic scored below min_confidence; left in place */
+  unsure: Array<{ file: string; topic: string; confidence: number }>;
+  /** Topics learned from examples_dir (strategy "learned") */
+  learnedTopics?: Array<{ topic: string; documents: number }>;
 }
 
 export const organizeByContentToolDefinition: ToolDefinition = {
   name: "file_organizer_organize_by_content",
   title: "Organize Documents by Content",
   description:
-    "Organize files based on content analysis. strategy='topic' groups documents (PDF, DOCX, TXT, MD, RTF, ODT) into topic-based folders. strategy='project' groups files across all types (documents, code, images) into detected project folders using shared name tokens, content terms, and identifiers. Use dry_run=true to preview changes.",
+    "Organize files based on content analysis. strategy='topic' groups documents (PDF, DOCX, TXT, MD, RTF, ODT, XLSX, PPTX, EPUB, HTML, EML, MBOX) into topic-based folders, using the topics from the user config when defined. strategy='learned' learns topics from the subfolders of examples_dir (documents the user has already sorted) and classifies new documents into same-named folders under target_dir. strategy='project' groups files across all types (documents, code, images) into detected project folders using shared name tokens, content terms, and identifiers. Documents below min_confidence are reported as unsure and left in place. Use dry_run=true to preview changes.",
   inputSchema: {
     type: "object",
     properties: {
@@ -100,10 +113,22 @@ export const organizeByContentToolDefinition: ToolDefinition = {
       },
       strategy: {
         type: "string",
-        enum: ["topic", "project"],
+        enum: ["topic", "project", "learned"],
         default: "topic",
         description:
-          "'topic' groups documents by detected topic; 'project' groups files across types into detected project folders",
+          "'topic' groups documents by detected topic; 'project' groups files across types into detected project folders; 'learned' classifies documents into the folders of examples_dir",
+      },
+      examples_dir: {
+        type: "string",
+        description:
+          "Directory whose subfolders hold already-sorted example documents, one folder per topic (required for strategy 'learned')",
+      },
+      min_confidence: {
+        type: "number",
+        minimum: 0,
+        maximum: 1,
+        description:
+          "Documents whose best topic scores below this confidence are reported as unsure and left in place (default 0.6 for 'learned', off otherwise)",
       },
       response_format: {
         type: "string",
@@ -143,6 +168,7 @@ export async function handleOrganizeByContent(
   services?: {
     scanner?: FileScannerService;
     topicExtractor?: TopicExtractorService;
+    topicClassifier?: TopicClassifierService;
     projectDetector?: ProjectDetectorService;
   },
 ): Promise<ToolResponse> {
@@ -165,6 +191,9 @@ export async function handleOrganizeByContent(
       dry_run,
       create_shortcuts,
       recursive,
+      strategy,
+      examples_dir,
+      min_confidence,
       response_format,
     } = parsed.data;
 
@@ -202,7 +231,7 @@ export async function handleOrganizeByContent(
       };
     }
 
-    if (parsed.data.strategy === "project") {
+    if (strategy === "project") {
       return await handleProjectOrganization(
         validatedSourcePath,
         validatedTargetPath,
@@ -225,6 +254,7 @@ export async function handleOrganizeByContent(
         errors: [],
         results: [],
         structure: {},
+        unsure: [],
       };
 
       if (response_format === "json") {
@@ -246,10 +276,6 @@ export async function handleOrganizeByContent(
       };
     }
 
-    const documentFiles = files.filter((f) =>
-      DOCUMENT_EXTENSIONS.includes(path.extname(f.path).toLowerCase()),
-    );
-
     const result: OrganizationResult = {
       success: true,
       organizedFiles: 0,
@@ -257,14 +283,41 @@ export async function handleOrganizeByContent(
       errors: [],
       results: [],
       structure: {},
+      unsure: [],
     };
 
+    let classify: (text: string) => TopicMatch[];
+    let examplesPath: string | undefined;
+    if (strategy === "learned") {
+      examplesPath = await validateStrictPath(examples_dir!);
+      const classifier =
+        services?.topicClassifier ?? new TopicClassifierService();
+      const { model, skipped } = await classifier.train(examplesPath);
+      result.learnedTopics = model.profiles.map((p) => ({
+        topic: p.name,
+        documents: p.documents,
+      }));
+      for (const { file, reason } of skipped) {
+        logger.info(`Skipped example ${file}: ${reason}`);
+      }
+      classify = (text) => classifier.classify(model, text);
+    } else {
+      const topicExtractor =
+        services?.topicExtractor ?? new TopicExtractorService(loadUserTopics());
+      classify = (text) => topicExtractor.extractTopics(text).topics;
+    }
+    const minConfidence = min_confidence ?? (strategy === "learned" ? 0.6 : 0);
+
+    // The examples themselves are training data, not documents to organize
+    const documentFiles = files.filter(
+      (f) =>
+        DOCUMENT_EXTENSIONS.includes(path.extname(f.path).toLowerCase()) &&
+        !(examplesPath && isSubPath(examplesPath, f.path)),
+    );
+
     // Track rollback actions for undo support
     const rollbackActions: RollbackAction[] = [];
 
-    const topicExtractor =
-      services?.topicExtractor ?? new TopicExtractorService();
-
     for (const file of documentFiles) {
       try {
         const text = await extractTextFromFile(file.path);
@@ -278,9 +331,9 @@ export async function handleOrganizeByContent(
           continue;
         }
 
-        const extractionResult = topicExtractor.extractTopics(text);
+        const topics = classify(text);
 
-        if (extractionResult.topics.length === 0) {
+        if (topics.length === 0) {
           result.skippedFiles++;
           result.errors.push({
             file: file.name,
@@ -289,14 +342,24 @@ export async function handleOrganizeByContent(
           continue;
         }
 
-        const primaryTopic = extractionResult.topics[0]!;
+        const primaryTopic = topics[0]!;
+        if (primaryTopic.confidence < minConfidence) {
+          result.skippedFiles++;
+          result.unsure.push({
+            file: file.name,
+            topic: primaryTopic.topic,
+            confidence: primaryTopic.confidence,
+          });
+          continue;
+        }
+
         const topicFolder = primaryTopic.topic;
         const targetFolder = path.join(validatedTargetPath, topicFolder);
         const targetPath = path.join(targetFolder, file.name);
 
         const docResult: DocumentOrganizationResult = {
           file: file.name,
-          topics: extractionResult.topics,
+          topics: topics,
           primaryTopic: topicFolder,
           targetPath,
           shortcuts: [],
@@ -319,8 +382,8 @@ export async function handleOrganizeByContent(
             timestamp: Date.now(),
           });
 
-          if (create_shortcuts && extractionResult.topics.length > 1) {
-            for (const secondaryTopic of extractionResult.topics.slice(1)) {
+          if (create_shortcuts && topics.length > 1) {
+            for (const secondaryTopic of topics.slice(1)) {
               const shortcutFolder = path.join(
                 validatedTargetPath,
                 secondaryTopic.topic,
@@ -389,11 +452,12 @@ export async function handleOrganizeByContent(
 **Target:** \`${validatedTargetPath}\`
 **Recursive:** ${recursive}
 **Create Shortcuts:** ${create_shortcuts}
-
+${result.learnedTopics ? `**Learned Topics:** ${result.learnedTopics.map((t) => `${escapeMarkdown(t.topic)} (${t.documents} examples)`).join(", ")}\n` : ""}
 **Summary:**
 - **Success:** ${result.success ? "✅" : "❌"}
 - **Organized Files:** ${result.organizedFiles}
 - **Skipped Files:** ${result.skippedFiles}
+- **Unsure:** ${result.unsure.length}
 - **Errors:** ${result.errors.length}
 
 **Organized by Topic:**
@@ -416,7 +480,14 @@ ${result.results
     : ""
 }
 
-${result.errors.length > 0 ? `**Errors:**\n${result.errors.map((e) => `- \`${escapeMarkdown(e.file)}\`: ${e.error}`).join("\n")}` : ""}`;
+${
+  result.unsure.length > 0
+    ? `**Unsure (below ${(minConfidence * 100).toFixed(0)}% confidence, left in place):**
+${result.unsure.map((u) => `- \`${escapeMarkdown(u.file)}\` → ${escapeMarkdown(u.topic)}? (${(u.confidence * 100).toFixed(0)}%)`).join("\n")}
+
+`
+    : ""
+}${result.errors.length > 0 ? `**Errors:**\n${result.errors.map((e) => `- \`${escapeMarkdown(e.file)}\`: ${e.error}`).join("\n")}` : ""}`;
 
     return {
       content: [{ type: "text", text: markdown }],
@@ -478,6 +549,7 @@ async function handleProjectOrganization(
     errors: [],
     results: [],
     structure: {},
+    unsure: [],
   };
 
   if (files.length === 0) {
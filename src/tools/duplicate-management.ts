@@ -1,6 +1,6 @@
 /**
  * File Organizer MCP Server v3.5.0
- * duplicate-management Tool (Analyze and Delete Duplicates)
+ * duplicate-management Tool (Analyze, Delete and Dedupe Duplicates)
  *
  * @module tools/duplicate-management
  */
@@ -14,31 +14,62 @@ import { formatBytes } from "../utils/formatters.js";
 import {
   AnalyzeDuplicatesInputSchema,
   DeleteDuplicatesInputSchema,
+  DedupeDuplicatesInputSchema,
 } from "../schemas/duplicate.schemas.js";
 
 export {
   AnalyzeDuplicatesInputSchema,
   DeleteDuplicatesInputSchema,
+  DedupeDuplicatesInputSchema,
 } from "../schemas/duplicate.schemas.js";
 export type {
   AnalyzeDuplicatesInput,
   DeleteDuplicatesInput,
+  DedupeDuplicatesInput,
 } from "../schemas/duplicate.schemas.js";
 export const analyzeDuplicatesToolDefinition: ToolDefinition = {
   name: "file_organizer_analyze_duplicates",
   title: "Analyze Duplicate Files with Smart Recommendations",
   description:
-    "Finds duplicate files and suggests which to keep/delete based on location, name quality, and age.",
+    "Finds duplicate files and suggests which to keep/delete based on location, name quality, age, resolution or EXIF metadata. " +
+    'match_mode "perceptual" also finds resized or re-encoded copies of JPEG/PNG images; ' +
+    'match_mode "music" finds the same track in other formats or bitrates by artist/title tags and duration, keeping the best quality.',
   inputSchema: {
     type: "object",
     properties: {
       directory: { type: "string" },
       recommendation_strategy: {
         type: "string",
-        enum: ["newest", "oldest", "best_location", "best_name"],
+        enum: [
+          "newest",
+          "oldest",
+          "best_location",
+          "best_name",
+          "highest_resolution",
+          "most_metadata",
+        ],
         default: "best_location",
       },
       auto_select_keep: { type: "boolean", default: false },
+      match_mode: {
+        type: "string",
+        enum: ["exact", "perceptual", "music"],
+        description:
+          "exact: byte-identical files. perceptual: visually similar images (JPEG/PNG). music: same artist/title tags and duration",
+        default: "exact",
+      },
+      max_hamming_distance: {
+        type: "number",
+        description:
+          "Perceptual mode: maximum number of differing hash bits (0-64) for images to count as duplicates",
+        default: 10,
+      },
+      duration_tolerance_seconds: {
+        type: "number",
+        description:
+          "Music mode: maximum duration difference in seconds for tracks to count as duplicates",
+        default: 2,
+      },
       response_format: {
         type: "string",
         enum: ["json", "markdown"],
@@ -81,6 +112,44 @@ export const deleteDuplicatesToolDefinition: ToolDefinition = {
   },
 };
 
+export const dedupeDuplicatesToolDefinition: ToolDefinition = {
+  name: "file_organizer_dedupe_duplicates",
+  title: "Replace Duplicate Files with Links",
+  description:
+    "Reclaims space without losing any path: each duplicate is verified byte-for-byte against the kept file and replaced with a hardlink to it (symlink if the filesystem refuses hardlinks). " +
+    "Duplicates on a different filesystem are reported as not linkable. Undo restores independent copies.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      groups: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            keep: { type: "string" },
+            duplicates: { type: "array", items: { type: "string" } },
+          },
+          required: ["keep", "duplicates"],
+        },
+      },
+      allow_symlinks: { type: "boolean", default: true },
+      dry_run: { type: "boolean", default: false },
+      response_format: {
+        type: "string",
+        enum: ["json", "markdown"],
+        default: "markdown",
+      },
+    },
+    required: ["groups"],
+  },
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+};
+
 export async function handleAnalyzeDuplicates(
   args: Record<string, unknown>,
 ): Promise<ToolResponse> {
@@ -97,19 +166,34 @@ export async function handleAnalyzeDuplicates(
       };
     }
 
-    const { directory, recommendation_strategy, response_format } = parsed.data;
+    const {
+      directory,
+      recommendation_strategy,
+      match_mode,
+      max_hamming_distance,
+      duration_tolerance_seconds,
+      response_format,
+    } = parsed.data;
     const validatedPath = await validateStrictPath(directory);
 
     const scanner = new FileScannerService();
     const duplicateFinder = new DuplicateFinderService(); // Stateless service is fine
 
     const files = await scanner.getAllFiles(validatedPath, true); // Recursive? User usually expects deep dupes
+    const skippedImages: { path: string; reason: string }[] = [];
     const analyzed = await duplicateFinder.findWithScoring(
       files,
       recommendation_strategy,
+      {
+        matchMode: match_mode,
+        threshold: max_hamming_distance,
+        durationTolerance: duration_tolerance_seconds,
+        skipped: skippedImages,
+      },
     );
 
     const summary = {
+      match_mode,
       total_duplicate_groups: analyzed.length,
       total_duplicate_files: analyzed.reduce(
         (sum, g) => sum + g.file_count - 1,
@@ -125,23 +209,25 @@ export async function handleAnalyzeDuplicates(
     };
 
     if (response_format === "json") {
+      const output = {
+        summary,
+        duplicate_groups: analyzed,
+        ...(skippedImages.length > 0 && { skipped_images: skippedImages }),
+      };
       return {
         content: [
           {
             type: "text",
-            text: JSON.stringify(
-              { summary, duplicate_groups: analyzed },
-              null,
-              2,
-            ),
+            text: JSON.stringify(output, null, 2),
           },
         ],
-        structuredContent: { summary, duplicate_groups: analyzed },
+        structuredContent: output,
       };
     }
 
     const markdown = `### Duplicate Analysis for \`${directory}\`
 **Strategy:** ${recommendation_strategy}
+**Match Mode:** ${match_mode === "perceptual" ? `perceptual (max distance ${max_hamming_distance})` : match_mode === "music" ? `music (±${duration_tolerance_seconds}s)` : "exact"}
 **Wasted Space:** ${summary.total_wasted_space_readable}
 **Duplicate Groups:** ${summary.total_duplicate_groups}
 
@@ -149,19 +235,20 @@ ${analyzed
   .map(
     (g, i) => `
 #### Group ${i + 1} (${formatBytes(g.size_bytes)})
-**Keep:** \`${g.recommended_keep}\`
+${g.match_reason ? `**Why:** ${g.match_reason}\n` : ""}**Keep:** \`${g.recommended_keep}\`
 **Delete:**
 ${g.files
   .slice(1)
   .map(
-    (f) => `- \`${f.path}\` (Score: ${f.score})
+    (f) =>
+      `- \`${f.path}\` (Score: ${f.score}${f.distance !== undefined ? `, distance: ${f.distance}` : ""})
   - ${f.reasons.join(", ")}`,
   )
   .join("\n")}
 `,
   )
   .join("\n")}
-`;
+${skippedImages.length > 0 ? `\n**Skipped Images (not decodable for comparison):**\n${skippedImages.map((s) => `- \`${s.path}\`: ${s.reason}`).join("\n")}\n` : ""}${analyzed.length > 0 ? "\nPass the files to delete to `file_organizer_delete_duplicates`; they are backed up and can be undone. To keep every path, pass each group to `file_organizer_dedupe_duplicates` instead.\n" : ""}`;
     return { content: [{ type: "text", text: markdown }] };
   } catch (error) {
     return createErrorResponse(error);
@@ -217,3 +304,65 @@ ${output.failures.length > 0 ? `**Failures:**\n${output.failures.map((f) => `- $
     return createErrorResponse(error);
   }
 }
+
+export async function handleDedupeDuplicates(
+  args: Record<string, unknown>,
+): Promise<ToolResponse> {
+  try {
+    const parsed = DedupeDuplicatesInputSchema.safeParse(args);
+    if (!parsed.success) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${parsed.error.issues.map((i) => i.message).join(", ")}`,
+          },
+        ],
+      };
+    }
+
+    const { groups, allow_symlinks, dry_run, response_format } = parsed.data;
+    const duplicateFinder = new DuplicateFinderService();
+
+    const result = await duplicateFinder.linkDuplicates(groups, {
+      allowSymlinks: allow_symlinks,
+      dryRun: dry_run,
+    });
+
+    const bytesSaved = result.linked.reduce((sum, l) => sum + l.bytesSaved, 0);
+    const output = {
+      dry_run,
+      linked_count: result.linked.length,
+      space_saved_bytes: bytesSaved,
+      space_saved_readable: formatBytes(bytesSaved),
+      linked: result.linked.map((l) => ({
+        path: l.path,
+        target: l.target,
+        link_type: l.linkType,
+      })),
+      not_linkable: result.notLinkable,
+      skipped: result.skipped,
+      failures: result.failed,
+      manifest_id: result.manifestPath,
+    };
+
+    if (response_format === "json") {
+      return {
+        content: [{ type: "text", text: JSON.stringify(output, null, 2) }],
+        structuredContent: output as unknown as Record<string, unknown>,
+      };
+    }
+
+    const markdown = `### ${dry_run ? "Dedupe Preview" : "Dedupe Report"}
+🔗 **${dry_run ? "Would link" : "Linked"}:** ${output.linked_count} files (${output.space_saved_readable} reclaimed)
+🚫 **Not linkable:** ${output.not_linkable.length} files
+⏭️ **Skipped:** ${output.skipped.length} files
+❌ **Failed:** ${output.failures.length} files
+
+${output.linked.map((l) => `- ${l.path} → ${l.target}${dry_run ? "" : ` (${l.link_type})`}`).join("\n")}
+${output.not_linkable.length > 0 ? `\n**Not linkable:**\n${output.not_linkable.map((n) => `- ${n.path}: ${n.reason}`).join("\n")}\n` : ""}${output.skipped.length > 0 ? `\n**Skipped:**\n${output.skipped.map((s) => `- ${s.path}: ${s.reason}`).join("\n")}\n` : ""}${output.failures.length > 0 ? `\n**Failures:**\n${output.failures.map((f) => `- ${f.path}: ${f.error}`).join("\n")}\n` : ""}${output.manifest_id ? `\nUndo with rollback manifest \`${output.manifest_id}\`; each link becomes an independent copy again.\n` : ""}`;
+    return { content: [{ type: "text", text: markdown }] };
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
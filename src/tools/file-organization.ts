@@ -9,6 +9,8 @@ import type { ToolDefinition, ToolResponse, OrganizeResult } from "../types.js";
 import { validateStrictPath } from "../services/path-validator.service.js";
 import { FileScannerService } from "../services/file-scanner.service.js";
 import { globalOrganizerService } from "../services/index.js";
+import type { ArchiveExtractionOutcome } from "../services/organizer.service.js";
+import { loadOrganizationRules } from "../services/rules-engine.service.js";
 import { createErrorResponse } from "../utils/error-handler.js";
 import { escapeMarkdown } from "../utils/index.js";
 import {
@@ -21,7 +23,7 @@ export const organizeFilesToolDefinition: ToolDefinition = {
   name: "file_organizer_organize_files",
   title: "Organize Files",
   description:
-    "Automatically organize files into categorized folders. Enable use_content_analysis to detect file type mismatches and potential security threats. Use dry_run=true to preview changes.",
+    'Automatically organize files into categorized folders. Organization rules from the user config (conditions on size, age, MIME type, EXIF/ID3 metadata, path) are applied first and reported per file. An optional destination_template (e.g. "{category}/{year}/{month}/{name}{ext}") replaces the default category layout. With archive_content, archives are filed by what they contain and can be extracted when every entry passes inspection. Enable use_content_analysis to detect file type mismatches and potential security threats. Use dry_run=true to preview changes.',
   inputSchema: {
     type: "object",
     properties: {
@@ -48,6 +50,18 @@ export const organizeFilesToolDefinition: ToolDefinition = {
         description:
           "How to handle file conflicts (rename/skip/overwrite). Uses config default if not specified",
       },
+      destination_template: {
+        type: "string",
+        description:
+          'Relative destination path template, e.g. "{category}/{year}/{month}/{camera_model}/{name}{ext}" or "{artist|Unknown Artist}/{album}/{track:02} - {title}{ext}". Supports {token|fallback} and {token:02}; a trailing "/" keeps the original file name. Files with missing token values are skipped',
+      },
+      archive_content: {
+        type: "string",
+        enum: ["off", "categorize", "extract"],
+        description:
+          'Look inside ZIP/TAR/GZ archives: "categorize" files an archive under the category of most of its content (a ZIP of photos goes to Images); "extract" also extracts archives whose entries all pass inspection into a folder next to the moved archive',
+        default: "off",
+      },
     },
     required: ["directory"],
   },
@@ -89,6 +103,8 @@ export async function handleOrganizeFiles(
       response_format,
       conflict_strategy,
       use_content_analysis,
+      destination_template,
+      archive_content,
     } = parsed.data;
     const validatedPath = await validateStrictPath(directory);
     if (!validatedPath) {
@@ -110,20 +126,37 @@ export async function handleOrganizeFiles(
       conflict_strategy ?? getConflictStrategy();
 
     const files = await scanner.getAllFiles(validatedPath, false);
+    const { rules, errors: ruleErrors } = loadOrganizationRules();
 
     // Note: use_content_analysis is available in the categorizer service
     // but the organize method uses the categorizer which now has content analysis enabled
     // Full content analysis per-file would require modifying the organizer service
     // For now, we document that content analysis is available in categorize_by_type
 
-    const { statistics, actions, errors, errorCount, successCount, aborted } =
-      await organizer.organize(validatedPath, files, {
-        dryRun: dry_run,
-        conflictStrategy: effectiveConflictStrategy,
-        useContentAnalysis: use_content_analysis,
-      });
-
-    const result: OrganizeResult & { content_analysis_enabled?: boolean } = {
+    const {
+      statistics,
+      actions,
+      errors,
+      skippedFiles,
+      errorCount,
+      successCount,
+      aborted,
+      extractions,
+    } = await organizer.organize(validatedPath, files, {
+      dryRun: dry_run,
+      conflictStrategy: effectiveConflictStrategy,
+      useContentAnalysis: use_content_analysis,
+      rules,
+      destinationTemplate: destination_template,
+      archiveContent: archive_content,
+    });
+
+    const result: OrganizeResult & {
+      content_analysis_enabled?: boolean;
+      rules_loaded?: number;
+      rule_errors?: string[];
+      archive_extractions?: ArchiveExtractionOutcome[];
+    } = {
       directory: validatedPath,
       dry_run,
       total_files: files.length,
@@ -135,10 +168,23 @@ export async function handleOrganizeFiles(
       aborted,
     };
 
+    if (skippedFiles.length > 0) {
+      result.skipped_files = skippedFiles;
+    }
+
     if (use_content_analysis) {
       result.content_analysis_enabled = true;
     }
 
+    if (extractions) {
+      result.archive_extractions = extractions;
+    }
+
+    if (rules.length > 0 || ruleErrors.length > 0) {
+      result.rules_loaded = rules.length;
+      result.rule_errors = ruleErrors;
+    }
+
     if (response_format === "json") {
       return {
         content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
@@ -157,7 +203,7 @@ export async function handleOrganizeFiles(
 **Total Files Processed:** ${result.total_files}
 **Errors:** ${result.errors.length}
 **Conflict Strategy:** ${effectiveConflictStrategy}
-
+${destination_template ? `**Destination Template:** \`${escapeMarkdown(destination_template)}\`\n` : ""}${rules.length > 0 ? `**Organization Rules:** ${rules.length} loaded\n` : ""}${ruleErrors.length > 0 ? `**Invalid Rules (ignored):**\n${ruleErrors.map((e) => `- ${e}`).join("\n")}\n` : ""}
 **Statistics:**
 ${Object.entries(result.statistics)
   .map(([cat, count]) => `- ${cat}: ${count}`)
@@ -168,11 +214,12 @@ ${result.actions
   .slice(0, 20)
   .map(
     (a) =>
-      `- Moved \`${escapeMarkdown(a.file)}\` → \`${escapeMarkdown(a.to)}\``,
+      `- ${a.operation === "copy" ? "Copied" : "Moved"} \`${escapeMarkdown(a.file)}\` → \`${escapeMarkdown(a.to)}\`${a.rule ? ` (matched rule "${escapeMarkdown(a.rule)}")` : ""}${a.tags?.length ? ` [tags: ${a.tags.map(escapeMarkdown).join(", ")}]` : ""}`,
   )
   .join("\n")}
 ${result.actions.length > 20 ? `\n*(...and ${result.actions.length - 20} more actions)*` : ""}
 
+${extractions?.length ? `\n**Archives ${dry_run ? "to Extract" : "Extracted"}:**\n${extractions.map((e) => `- \`${escapeMarkdown(e.archive)}\` → ${e.reason ? `not extracted: ${escapeMarkdown(e.reason)}` : `\`${escapeMarkdown(e.destination)}\`${e.extracted ? ` (${e.fileCount} files, undo with manifest \`${e.manifestId}\`)` : ""}`}`).join("\n")}\n` : ""}${skippedFiles.length > 0 ? `\n**Skipped Files:**\n${skippedFiles.map((f) => `- \`${escapeMarkdown(f.path)}\`: ${escapeMarkdown(f.reason)}`).join("\n")}\n` : ""}
 ${result.errors.length > 0 ? `\n**Errors:**\n${result.errors.join("\n")}` : ""}`;
 
     return {
@@ -59,6 +59,19 @@ export {
 export { OrganizeMusicInputSchema } from "../schemas/media.schemas.js";
 export type { OrganizeMusicInput } from "../schemas/media.schemas.js";
 
+export {
+  editAudioTagsToolDefinition,
+  handleEditAudioTags,
+} from "./audio-tag-editing.js";
+export {
+  EditAudioTagsInputSchema,
+  AudioTagsSchema,
+} from "../schemas/media.schemas.js";
+export type {
+  EditAudioTagsInput,
+  AudioTags,
+} from "../schemas/media.schemas.js";
+
 export {
   organizePhotosToolDefinition,
   handleOrganizePhotos,
@@ -66,6 +79,20 @@ export {
 export { OrganizePhotosInputSchema } from "../schemas/media.schemas.js";
 export type { OrganizePhotosInput } from "../schemas/media.schemas.js";
 
+export {
+  correctPhotoDatesToolDefinition,
+  handleCorrectPhotoDates,
+} from "./photo-date-correction.js";
+export { CorrectPhotoDatesInputSchema } from "../schemas/media.schemas.js";
+export type { CorrectPhotoDatesInput } from "../schemas/media.schemas.js";
+
+export {
+  organizeVideosToolDefinition,
+  handleOrganizeVideos,
+} from "./video-organization.js";
+export { OrganizeVideosInputSchema } from "../schemas/media.schemas.js";
+export type { OrganizeVideosInput } from "../schemas/media.schemas.js";
+
 // ==================== Content Organization ====================
 
 export {
@@ -106,6 +133,50 @@ export { BatchReadFilesInputSchema } from "../schemas/batch.schemas.js";
 export type { BatchReadFilesInput } from "../schemas/batch.schemas.js";
 export type { FileReadResult } from "./batch-file-reader.js";
 
+// ==================== Archives ====================
+
+export {
+  extractArchiveToolDefinition,
+  handleExtractArchive,
+} from "./archive-extraction.js";
+export { ExtractArchiveInputSchema } from "../schemas/archive.schemas.js";
+export type { ExtractArchiveInput } from "../schemas/archive.schemas.js";
+export {
+  inspectArchiveToolDefinition,
+  handleInspectArchive,
+} from "./archive-inspection.js";
+export { InspectArchiveInputSchema } from "../schemas/archive.schemas.js";
+export type { InspectArchiveInput } from "../schemas/archive.schemas.js";
+
+// ==================== Quarantine ====================
+
+export {
+  quarantineFilesToolDefinition,
+  handleQuarantineFiles,
+  listQuarantineToolDefinition,
+  handleListQuarantine,
+  inspectQuarantineToolDefinition,
+  handleInspectQuarantine,
+  releaseQuarantineToolDefinition,
+  handleReleaseQuarantine,
+  purgeQuarantineToolDefinition,
+  handlePurgeQuarantine,
+} from "./quarantine.js";
+export {
+  QuarantineFilesInputSchema,
+  ListQuarantineInputSchema,
+  InspectQuarantineInputSchema,
+  ReleaseQuarantineInputSchema,
+  PurgeQuarantineInputSchema,
+} from "../schemas/quarantine.schemas.js";
+export type {
+  QuarantineFilesInput,
+  ListQuarantineInput,
+  InspectQuarantineInput,
+  ReleaseQuarantineInput,
+  PurgeQuarantineInput,
+} from "../schemas/quarantine.schemas.js";
+
 // ==================== Tool Registry ====================
 
 import { listFilesToolDefinition } from "./file-listing.js";
@@ -122,12 +193,21 @@ import {
 import {
   analyzeDuplicatesToolDefinition,
   deleteDuplicatesToolDefinition,
+  dedupeDuplicatesToolDefinition,
 } from "./duplicate-management.js";
-import { undoLastOperationToolDefinition } from "./rollback.js";
+import {
+  undoLastOperationToolDefinition,
+  listRollbacksToolDefinition,
+  inspectRollbackToolDefinition,
+  rollbackSinceToolDefinition,
+} from "./rollback.js";
 import { batchRenameToolDefinition } from "./file-renaming.js";
 import { inspectMetadataToolDefinition } from "./metadata-inspection.js";
 import { organizeMusicToolDefinition } from "./music-organization.js";
+import { editAudioTagsToolDefinition } from "./audio-tag-editing.js";
 import { organizePhotosToolDefinition } from "./photo-organization.js";
+import { correctPhotoDatesToolDefinition } from "./photo-date-correction.js";
+import { organizeVideosToolDefinition } from "./video-organization.js";
 import { organizeByContentToolDefinition } from "./content-organization.js";
 import { organizeSmartToolDefinition } from "./smart-organization.js";
 import { smartSuggestToolDefinition } from "./smart-suggest.js";
@@ -140,13 +220,39 @@ import {
 } from "./watch.tool.js";
 import { fileReaderToolDefinition } from "./file-reader.tool.js";
 import { viewHistoryToolDefinition } from "./view-history.js";
+import { recoverOrganizationToolDefinition } from "./organize-recovery.js";
+import { extractArchiveToolDefinition } from "./archive-extraction.js";
+import { inspectArchiveToolDefinition } from "./archive-inspection.js";
+import {
+  quarantineFilesToolDefinition,
+  listQuarantineToolDefinition,
+  inspectQuarantineToolDefinition,
+  releaseQuarantineToolDefinition,
+  purgeQuarantineToolDefinition,
+} from "./quarantine.js";
 
 export {
   undoLastOperationToolDefinition,
   handleUndoLastOperation,
+  listRollbacksToolDefinition,
+  handleListRollbacks,
+  inspectRollbackToolDefinition,
+  handleInspectRollback,
+  rollbackSinceToolDefinition,
+  handleRollbackSince,
 } from "./rollback.js";
-export { UndoLastOperationInputSchema } from "../schemas/rollback.schemas.js";
-export type { UndoLastOperationInput } from "../schemas/rollback.schemas.js";
+export {
+  UndoLastOperationInputSchema,
+  ListRollbacksInputSchema,
+  InspectRollbackInputSchema,
+  RollbackSinceInputSchema,
+} from "../schemas/rollback.schemas.js";
+export type {
+  UndoLastOperationInput,
+  ListRollbacksInput,
+  InspectRollbackInput,
+  RollbackSinceInput,
+} from "../schemas/rollback.schemas.js";
 
 export {
   previewOrganizationToolDefinition,
@@ -171,14 +277,18 @@ export {
   handleAnalyzeDuplicates,
   deleteDuplicatesToolDefinition,
   handleDeleteDuplicates,
+  dedupeDuplicatesToolDefinition,
+  handleDedupeDuplicates,
 } from "./duplicate-management.js";
 export {
   AnalyzeDuplicatesInputSchema,
   DeleteDuplicatesInputSchema,
+  DedupeDuplicatesInputSchema,
 } from "../schemas/duplicate.schemas.js";
 export type {
   AnalyzeDuplicatesInput,
   DeleteDuplicatesInput,
+  DedupeDuplicatesInput,
 } from "../schemas/duplicate.schemas.js";
 
 export {
@@ -226,6 +336,13 @@ export {
   handleViewHistory,
 } from "./view-history.js";
 
+export {
+  recoverOrganizationToolDefinition,
+  handleRecoverOrganization,
+} from "./organize-recovery.js";
+export { RecoverOrganizationInputSchema } from "../schemas/recovery.schemas.js";
+export type { RecoverOrganizationInput } from "../schemas/recovery.schemas.js";
+
 /**
  * All available tools for MCP registration
  * @description Array of all tool definitions that can be registered with the MCP server.
@@ -240,17 +357,32 @@ export const TOOLS: ToolDefinition[] = [
   organizeFilesToolDefinition,
   previewOrganizationToolDefinition,
   organizeMusicToolDefinition,
+  editAudioTagsToolDefinition,
   organizePhotosToolDefinition,
+  correctPhotoDatesToolDefinition,
+  organizeVideosToolDefinition,
   organizeByContentToolDefinition,
   organizeSmartToolDefinition,
   smartSuggestToolDefinition,
   systemOrganizationToolDefinition,
   batchReadFilesToolDefinition,
+  extractArchiveToolDefinition,
+  inspectArchiveToolDefinition,
+  quarantineFilesToolDefinition,
+  listQuarantineToolDefinition,
+  inspectQuarantineToolDefinition,
+  releaseQuarantineToolDefinition,
+  purgeQuarantineToolDefinition,
   getCategoriesToolDefinition,
   setCustomRulesToolDefinition,
   analyzeDuplicatesToolDefinition,
   deleteDuplicatesToolDefinition,
+  dedupeDuplicatesToolDefinition,
   undoLastOperationToolDefinition,
+  listRollbacksToolDefinition,
+  inspectRollbackToolDefinition,
+  rollbackSinceToolDefinition,
+  recoverOrganizationToolDefinition,
   batchRenameToolDefinition,
   inspectMetadataToolDefinition,
   watchDirectoryToolDefinition,
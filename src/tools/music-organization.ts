@@ -5,10 +5,15 @@
  * @module tools/music-organization
  */
 
+import path from "path";
 import { z } from "zod";
 import type { ToolDefinition, ToolResponse, RollbackAction } from "../types.js";
 import { validateStrictPath } from "../services/path-validator.service.js";
-import { MusicOrganizerService } from "../services/music-organizer.service.js";
+import {
+  MusicOrganizerService,
+  type InferredTags,
+} from "../services/music-organizer.service.js";
+import type { AlbumReport } from "../services/album-grouping.service.js";
 import { RollbackService } from "../services/rollback.service.js";
 import { createErrorResponse } from "../utils/error-handler.js";
 import { OrganizeMusicInputSchema } from "../schemas/media.schemas.js";
@@ -21,7 +26,10 @@ export const organizeMusicToolDefinition: ToolDefinition = {
   name: "file_organizer_organize_music",
   title: "Organize Music Files",
   description:
-    "Organize music files into structured folders based on metadata (Artist/Album). Supports MP3, FLAC, OGG, WAV, M4A, AAC. Use dry_run=true to preview changes.",
+    "Organize music files into structured folders based on metadata (Artist/Album). Supports MP3, FLAC, OGG, WAV, M4A, AAC. " +
+    'With infer_missing_tags=true, missing tags are filled from paths like "Artist - Album/03 - Title.mp3" and reported with a confidence per field. ' +
+    "Tracks are grouped into albums first, so one album is not split by inconsistent tags, and multi-disc sets go into Disc N folders. " +
+    "Use dry_run=true to preview changes and album problems (missing track numbers, gaps).",
   inputSchema: {
     type: "object",
     properties: {
@@ -61,6 +69,28 @@ export const organizeMusicToolDefinition: ToolDefinition = {
         description: "Skip files missing artist/album metadata",
         default: false,
       },
+      infer_missing_tags: {
+        type: "boolean",
+        description: "Fill missing tags from file and folder names",
+        default: false,
+      },
+      inference_patterns: {
+        type: "array",
+        items: { type: "string" },
+        description:
+          'Path patterns tried in order, using {artist}, {album}, {title}, {track}, {disc}, {year}, {genre}, e.g. "{artist}/{album}/{track} - {title}"',
+      },
+      min_inference_confidence: {
+        type: "number",
+        description: "Inferred values below this confidence (0-1) are ignored",
+        default: 0.5,
+      },
+      group_albums: {
+        type: "boolean",
+        description:
+          "Keep each album together with one artist and year, put multi-disc sets into Disc N folders and report missing track numbers",
+        default: true,
+      },
       response_format: {
         type: "string",
         enum: ["json", "markdown"],
@@ -77,6 +107,56 @@ export const organizeMusicToolDefinition: ToolDefinition = {
   },
 };
 
+function formatAlbums(albums: AlbumReport[] | undefined): string {
+  if (!albums || albums.length === 0) return "";
+
+  const multiDisc = albums.filter((a) => a.discCount > 1).length;
+  const problems = albums.filter(
+    (a) =>
+      a.missingTrackNumbers.length > 0 ||
+      a.gaps.length > 0 ||
+      a.inconsistencies.length > 0,
+  );
+
+  let md = `**Albums:** ${albums.length} (${multiDisc} multi-disc)\n`;
+  for (const album of problems.slice(0, 30)) {
+    md += `- **${album.artist ?? "Unknown Artist"} - ${album.album}**${album.year ? ` (${album.year})` : ""}\n`;
+    for (const note of album.inconsistencies) {
+      md += `  - ${note}\n`;
+    }
+    for (const gap of album.gaps) {
+      const more = gap.missingCount - gap.missing.length;
+      md += `  - Missing tracks${album.discCount > 1 ? ` on disc ${gap.disc}` : ""}: ${gap.missing.join(", ")}${more > 0 ? ` and ${more} more` : ""}\n`;
+    }
+    if (album.missingTrackNumbers.length > 0) {
+      md += `  - No track number: ${album.missingTrackNumbers.map((p) => `\`${path.basename(p)}\``).join(", ")}\n`;
+    }
+  }
+  if (problems.length > 30) {
+    md += `- ... and ${problems.length - 30} more albums with problems\n`;
+  }
+  return md;
+}
+
+function formatInferredTags(inferred: InferredTags[] | undefined): string {
+  if (!inferred || inferred.length === 0) return "";
+
+  let md = `**Inferred Tags (${inferred.length} file(s)):**\n`;
+  for (const entry of inferred.slice(0, 50)) {
+    const fields = Object.entries(entry.fields)
+      .map(
+        ([field, { value, confidence }]) =>
+          `${field}: "${value}" (${Math.round(confidence * 100)}%)`,
+      )
+      .join(", ");
+    md += `- \`${path.basename(entry.file)}\` - ${fields}\n`;
+  }
+  if (inferred.length > 50) {
+    md += `- ... and ${inferred.length - 50} more\n`;
+  }
+  return md;
+}
+
 export async function handleOrganizeMusic(
   args: Record<string, unknown>,
 ): Promise<ToolResponse> {
@@ -101,6 +181,10 @@ export async function handleOrganizeMusic(
       dry_run,
       copy_instead_of_move,
       skip_if_missing_metadata,
+      infer_missing_tags,
+      inference_patterns,
+      min_inference_confidence,
+      group_albums,
       response_format,
     } = parsed.data;
 
@@ -109,15 +193,22 @@ export async function handleOrganizeMusic(
 
     const musicOrganizer = new MusicOrganizerService();
 
-    const result = await musicOrganizer.organize({
+    const config = {
       sourceDir: validatedSourcePath,
       targetDir: validatedTargetPath,
       structure,
       filenamePattern: filename_pattern,
       copyInsteadOfMove: copy_instead_of_move,
       skipIfMissingMetadata: skip_if_missing_metadata,
+      inferMissingTags: infer_missing_tags,
+      inferencePatterns: inference_patterns,
+      minInferenceConfidence: min_inference_confidence,
+      groupAlbums: group_albums,
       dryRun: dry_run,
-    });
+    };
+    const result = dry_run
+      ? await musicOrganizer.previewOrganization(config)
+      : await musicOrganizer.organize(config);
 
     // Create rollback manifest for moved files (not copies)
     if (!dry_run && !copy_instead_of_move && result.movedFiles.length > 0) {
@@ -168,6 +259,8 @@ ${Object.entries(result.structure)
   .map(([folder, files]) => `- \`${folder}\`: ${files.length} file(s)`)
   .join("\n")}
 
+${formatAlbums(result.albums)}
+${formatInferredTags(result.inferredTags)}
 ${result.errors.length > 0 ? `**Errors:**\n${result.errors.map((e) => `- \`${e.file}\`: ${e.error}`).join("\n")}` : ""}`;
 
     return {
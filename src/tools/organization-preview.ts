@@ -14,6 +14,7 @@ import type {
 import { validateStrictPath } from "../services/path-validator.service.js";
 import { FileScannerService } from "../services/file-scanner.service.js";
 import { globalOrganizerService } from "../services/index.js";
+import { loadOrganizationRules } from "../services/rules-engine.service.js";
 import { createErrorResponse } from "../utils/error-handler.js";
 import { PreviewOrganizationInputSchema } from "../schemas/preview.schemas.js";
 import { loadUserConfig } from "../config.js";
@@ -24,6 +25,9 @@ export interface MoveItem {
   category: string;
   conflict: boolean;
   conflict_resolution?: "rename" | "skip" | "overwrite" | "overwrite_if_newer";
+  operation?: "move" | "copy";
+  matched_rule?: string;
+  tags?: string[];
 }
 
 export interface SkippedFile {
@@ -37,7 +41,7 @@ export const previewOrganizationToolDefinition: ToolDefinition = {
   name: "file_organizer_preview_organization",
   title: "Preview File Organization Plan",
   description:
-    "Shows what would happen if files were organized, WITHOUT making any changes. Shows moves, conflicts, and skip reasons.",
+    "Shows what would happen if files were organized, WITHOUT making any changes. Shows moves, conflicts, skip reasons, and which organization rule matched each file. Accepts an optional destination_template to preview a custom folder layout.",
   inputSchema: {
     type: "object",
     properties: {
@@ -54,6 +58,11 @@ export const previewOrganizationToolDefinition: ToolDefinition = {
         description:
           "How to handle file conflicts for preview (rename/skip/overwrite). Uses config default if not specified",
       },
+      destination_template: {
+        type: "string",
+        description:
+          'Relative destination path template, e.g. "{category}/{year}/{month}/{camera_model}/{name}{ext}" or "{artist|Unknown Artist}/{album}/{track:02} - {title}{ext}". Supports {token|fallback} and {token:02}; a trailing "/" keeps the original file name. Files with missing token values are skipped',
+      },
     },
     required: ["directory"],
   },
@@ -94,6 +103,7 @@ export async function handlePreviewOrganization(
       show_conflicts_only,
       response_format,
       conflict_strategy,
+      destination_template,
     } = parsed.data;
     const validatedPath = await validateStrictPath(directory);
 
@@ -105,10 +115,13 @@ export async function handlePreviewOrganization(
       conflict_strategy ?? getConflictStrategy();
 
     const files = await scanner.getAllFiles(validatedPath, false);
+    const { rules, errors: ruleErrors } = loadOrganizationRules();
     const plan = await organizer.generateOrganizationPlan(
       validatedPath,
       files,
       effectiveConflictStrategy,
+      false,
+      { rules, destinationTemplate: destination_template },
     );
 
     const output = {
@@ -117,6 +130,9 @@ export async function handlePreviewOrganization(
         categories_affected: plan.categoryCounts,
         estimated_duration_seconds: plan.estimatedDuration,
         warnings: plan.warnings,
+        rules_loaded: rules.length,
+        rule_errors: ruleErrors,
+        ...(destination_template ? { destination_template } : {}),
       },
       moves: plan.moves.map((m: OrganizationPlan["moves"][0]) => ({
         source: m.source,
@@ -124,6 +140,9 @@ export async function handlePreviewOrganization(
         category: m.category,
         conflict: m.hasConflict,
         conflict_resolution: m.conflictResolution,
+        operation: m.operation,
+        matched_rule: m.matchedRule,
+        tags: m.tags,
       })),
       conflicts: plan.conflicts,
       skipped_files: plan.skippedFiles.map(
@@ -152,15 +171,15 @@ export async function handlePreviewOrganization(
 - Estimated Time: ${output.summary.estimated_duration_seconds.toFixed(2)}s
 - Conflicts: ${output.moves.filter((m: MoveItem) => m.conflict).length}
 - Conflict Strategy: ${effectiveConflictStrategy}
-
+${destination_template ? `- Destination Template: \`${destination_template}\`\n` : ""}
 **Category Breakdown:**
 ${Object.entries(output.summary.categories_affected)
   .map(([cat, count]) => `- **${cat}**: ${count}`)
   .join("\n")}
 
 **Proposed Moves:**
-${output.moves.map((m: MoveItem) => `- \`${m.source}\` -> \`${m.destination}\` ${m.conflict ? `⚠️ (${m.conflict_resolution || "Rename"})` : ""}`).join("\n")}
-
+${output.moves.map((m: MoveItem) => `- ${m.operation === "copy" ? "(copy) " : ""}\`${m.source}\` -> \`${m.destination}\` ${m.conflict ? `⚠️ (${m.conflict_resolution || "Rename"})` : ""}${m.matched_rule ? ` — matched rule "${m.matched_rule}"` : ""}${m.tags?.length ? ` [tags: ${m.tags.join(", ")}]` : ""}`).join("\n")}
+${ruleErrors.length ? `\n**Invalid Rules (ignored):**\n${ruleErrors.map((e) => `- ${e}`).join("\n")}\n` : ""}
 ${output.skipped_files.length ? `**Skipped Files:**\n${output.skipped_files.map((f: SkippedFile) => `- ${f.path}: ${f.reason}`).join("\n")}` : ""}
 `;
 
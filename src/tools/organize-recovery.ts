@@ -0,0 +1,189 @@
+/**
+ * File Organizer MCP Server v3.5.0
+ * Organize Recovery Tool
+ *
+ * @module tools/organize-recovery
+ */
+
+import type { ToolDefinition, ToolResponse } from "../types.js";
+import { organizeJournalService } from "../services/organize-journal.service.js";
+import { createErrorResponse } from "../utils/error-handler.js";
+import { RecoverOrganizationInputSchema } from "../schemas/recovery.schemas.js";
+
+export { RecoverOrganizationInputSchema } from "../schemas/recovery.schemas.js";
+export type { RecoverOrganizationInput } from "../schemas/recovery.schemas.js";
+
+export const recoverOrganizationToolDefinition: ToolDefinition = {
+  name: "file_organizer_recover_organization",
+  title: "Recover Interrupted Organization",
+  description:
+    "Find organize runs that were interrupted (crash, kill, power loss) before finishing, then either resume the remaining moves or roll back what was already done. " +
+    'Use action="list" first, then action="resume" or action="rollback" with the journal_id. Use dry_run to preview.',
+  inputSchema: {
+    type: "object",
+    properties: {
+      action: {
+        type: "string",
+        enum: ["list", "resume", "rollback"],
+        description:
+          "list interrupted runs, resume the remaining moves, or roll back what was done",
+        default: "list",
+      },
+      journal_id: {
+        type: "string",
+        description:
+          "ID of the interrupted run (required for resume and rollback)",
+      },
+      dry_run: {
+        type: "boolean",
+        description: "Report what would happen without moving files",
+        default: false,
+      },
+      response_format: {
+        type: "string",
+        enum: ["json", "markdown"],
+        default: "markdown",
+      },
+    },
+    required: [],
+  },
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+};
+
+export async function handleRecoverOrganization(
+  args: Record<string, unknown>,
+): Promise<ToolResponse> {
+  try {
+    const parsed = RecoverOrganizationInputSchema.safeParse(args);
+    if (!parsed.success) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${parsed.error.issues.map((i) => i.message).join(", ")}`,
+          },
+        ],
+      };
+    }
+
+    const { action, journal_id, dry_run, response_format } = parsed.data;
+
+    if (action === "resume") {
+      const result = await organizeJournalService.resume(journal_id!, {
+        dryRun: dry_run,
+      });
+
+      if (response_format === "json") {
+        return {
+          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+          structuredContent: result as unknown as Record<string, unknown>,
+        };
+      }
+
+      const labels: Record<string, string> = {
+        move: dry_run ? "move" : "moved",
+        copy: dry_run ? "copy" : "copied",
+        finish_move: dry_run
+          ? "remove leftover source"
+          : "removed leftover source",
+        already_done: "already done",
+        missing: "missing",
+      };
+      const markdown = `### ${dry_run ? "Resume Preview (dry run)" : "Resumed Organization"}
+**Journal ID:** \`${journal_id}\`
+${result.manifestId ? `**Undo with manifest:** \`${result.manifestId}\`\n` : ""}
+✅ **${dry_run ? "To resume" : "Resumed"}:** ${dry_run ? result.steps.filter((s) => s.outcome !== "already_done" && s.outcome !== "missing").length : result.resumed}
+↩️ **Already done:** ${result.alreadyDone}
+❌ **Failed:** ${result.failed}
+
+${result.steps.map((s) => `- #${s.index} ${labels[s.outcome]}: \`${s.from}\` → \`${s.to}\`${s.error ? ` (${s.error})` : ""}`).join("\n")}`;
+
+      return { content: [{ type: "text", text: markdown }] };
+    }
+
+    if (action === "rollback") {
+      const result = await organizeJournalService.rollback(journal_id!, {
+        dryRun: dry_run,
+      });
+
+      if (response_format === "json") {
+        return {
+          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+          structuredContent: result as unknown as Record<string, unknown>,
+        };
+      }
+
+      const conflicts = result.conflicts.length
+        ? `**Conflicts (${result.conflicts.length}):**\n${result.conflicts.map((c) => `- ${c.type} \`${c.path}\`: ${c.reason}`).join("\n")}\n\n`
+        : "";
+      const markdown = dry_run
+        ? `### Rollback Preview (dry run)
+**Journal ID:** \`${journal_id}\`
+
+**Planned steps (${result.steps.length}):**
+${result.steps.length ? result.steps.map((s) => (s.to === null ? `- remove copy \`${s.from}\`` : `- \`${s.from}\` → \`${s.to}\``)).join("\n") : "_No steps_"}
+
+${conflicts}`
+        : `### Rolled Back Interrupted Organization
+**Journal ID:** \`${journal_id}\`
+✅ **Restored:** ${result.success} files
+❌ **Failed:** ${result.failed} files
+
+${conflicts}${result.errors.length ? `**Errors:**\n${result.errors.map((e) => `- ${e}`).join("\n")}` : ""}`;
+
+      return { content: [{ type: "text", text: markdown }] };
+    }
+
+    const journals = await organizeJournalService.listInterrupted();
+    const result = {
+      count: journals.length,
+      journals: journals.map((j) => ({
+        id: j.id,
+        directory: j.directory,
+        started: new Date(j.timestamp).toISOString(),
+        manifest_id: j.manifestId,
+        total_steps: j.steps.length,
+        done: j.steps.filter((s) => s.status === "done").length,
+        pending: j.steps.filter((s) => s.status === "pending").length,
+        failed: j.steps.filter((s) => s.status === "failed").length,
+        skipped: j.steps.filter((s) => s.status === "skipped").length,
+      })),
+    };
+
+    if (response_format === "json") {
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+        structuredContent: result,
+      };
+    }
+
+    if (journals.length === 0) {
+      return {
+        content: [
+          { type: "text", text: "No interrupted organization runs found." },
+        ],
+      };
+    }
+
+    const markdown = `### Interrupted Organization Runs (${result.count})
+
+${result.journals
+  .map(
+    (j) => `- **${j.directory}** started ${new Date(j.started).toLocaleString()}
+  - Journal ID: \`${j.id}\`
+  - ${j.done} of ${j.total_steps} steps done, ${j.pending} pending${j.failed ? `, ${j.failed} failed` : ""}${j.skipped ? `, ${j.skipped} skipped` : ""}`,
+  )
+  .join("\n")}
+
+Use \`action: "resume"\` to finish a run or \`action: "rollback"\` to undo it.`;
+
+    return { content: [{ type: "text", text: markdown }] };
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
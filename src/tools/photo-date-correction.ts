@@ -0,0 +1,193 @@
+/**
+ * File Organizer MCP Server v3.5.0
+ * correct_photo_dates Tool
+ *
+ * @module tools/photo-date-correction
+ */
+
+import path from "path";
+import type { ToolDefinition, ToolResponse } from "../types.js";
+import { validateStrictPath } from "../services/path-validator.service.js";
+import { ClockOffsetService } from "../services/clock-offset.service.js";
+import { createErrorResponse } from "../utils/error-handler.js";
+import { CorrectPhotoDatesInputSchema } from "../schemas/media.schemas.js";
+
+export { CorrectPhotoDatesInputSchema } from "../schemas/media.schemas.js";
+export type { CorrectPhotoDatesInput } from "../schemas/media.schemas.js";
+
+export const correctPhotoDatesToolDefinition: ToolDefinition = {
+  name: "file_organizer_correct_photo_dates",
+  title: "Correct Photo Dates",
+  description:
+    "Measure how far each camera's clock was off and correct photo dates. Offsets come from a reference photo whose real capture time you know, or from GPS timestamps versus camera time. Optionally rewrites DateTimeOriginal in JPEG, TIFF and RAW files (undo with rollback). The offsets can also be passed to file_organizer_organize_photos as clock_offsets.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      directory: {
+        type: "string",
+        description: "Directory containing the photos to correct",
+      },
+      reference_file: {
+        type: "string",
+        description: "Photo whose real capture time is known",
+      },
+      reference_time: {
+        type: "string",
+        description:
+          "Real local capture time of reference_file, e.g. 2024-05-01T14:05:00",
+      },
+      use_gps: {
+        type: "boolean",
+        description: "Measure offsets from GPS timestamps versus camera time",
+        default: true,
+      },
+      timezone: {
+        type: "string",
+        description:
+          "IANA time zone the photos were taken in (e.g. Europe/Lisbon); defaults to the system time zone",
+      },
+      write_exif: {
+        type: "boolean",
+        description:
+          "Rewrite DateTimeOriginal (and the other EXIF dates) of JPEG, TIFF and RAW files",
+        default: false,
+      },
+      dry_run: {
+        type: "boolean",
+        description: "If true, only report offsets and corrected dates",
+        default: true,
+      },
+      response_format: {
+        type: "string",
+        enum: ["json", "markdown"],
+        default: "markdown",
+      },
+    },
+    required: ["directory"],
+  },
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+};
+
+function formatOffset(seconds: number): string {
+  const sign = seconds < 0 ? "-" : "+";
+  const abs = Math.abs(seconds);
+  const hours = Math.floor(abs / 3600);
+  const minutes = Math.floor((abs % 3600) / 60);
+  const secs = abs % 60;
+  return `${sign}${hours}h ${String(minutes).padStart(2, "0")}m ${String(secs).padStart(2, "0")}s`;
+}
+
+export async function handleCorrectPhotoDates(
+  args: Record<string, unknown>,
+): Promise<ToolResponse> {
+  try {
+    const parsed = CorrectPhotoDatesInputSchema.safeParse(args);
+    if (!parsed.success) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${parsed.error.issues.map((i) => i.message).join(", ")}`,
+          },
+        ],
+      };
+    }
+
+    const {
+      directory,
+      reference_file,
+      reference_time,
+      use_gps,
+      timezone,
+      write_exif,
+      dry_run,
+      response_format,
+    } = parsed.data;
+
+    const validatedDir = await validateStrictPath(directory);
+    const reference =
+      reference_file && reference_time
+        ? {
+            path: await validateStrictPath(reference_file),
+            actualTime: new Date(reference_time),
+          }
+        : undefined;
+
+    const result = await new ClockOffsetService().correct(validatedDir, {
+      reference,
+      useGPS: use_gps,
+      timeZone: timezone,
+      writeExif: write_exif,
+      dryRun: dry_run,
+    });
+
+    const output = {
+      dry_run,
+      offsets: result.offsets.map((o) => ({
+        camera: o.camera,
+        offset_seconds: o.offsetSeconds,
+        source: o.source,
+        samples: o.samples,
+      })),
+      corrected_count: result.corrected.length,
+      rewritten_count: result.corrected.filter((c) => c.rewritten).length,
+      failed_count: result.failed.length,
+      corrected: result.corrected,
+      failures: result.failed,
+      manifest_id: result.manifestId,
+    };
+
+    if (response_format === "json") {
+      return {
+        content: [{ type: "text", text: JSON.stringify(output, null, 2) }],
+        structuredContent: output as unknown as Record<string, unknown>,
+      };
+    }
+
+    if (result.offsets.length === 0) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "No clock offsets found. Give a reference_file and reference_time, or use photos with GPS timestamps.",
+          },
+        ],
+      };
+    }
+
+    let md = `### Photo Date Correction ${dry_run ? "(Dry Run)" : "Result"}\n\n`;
+    md += `| Camera | Offset | Source | Samples |\n|---|---|---|---|\n`;
+    for (const offset of result.offsets) {
+      md += `| ${offset.camera} | ${formatOffset(offset.offsetSeconds)} | ${offset.source} | ${offset.samples} |\n`;
+    }
+
+    md += `\n- **Corrected Dates:** ${output.corrected_count}\n`;
+    if (write_exif) {
+      md += `- **${dry_run ? "Would rewrite" : "EXIF Rewritten"}:** ${dry_run ? output.corrected_count : output.rewritten_count}\n`;
+    }
+    md += `- **Failed:** ${output.failed_count}\n\n`;
+
+    if (result.corrected.length > 0) {
+      md += `| File | Camera Time | Corrected Time |\n|---|---|---|\n`;
+      for (const file of result.corrected.slice(0, 50)) {
+        md += `| \`${path.basename(file.path)}\` | ${file.from} | ${file.to} |\n`;
+      }
+      if (result.corrected.length > 50) md += `| ... | ... | ... |\n`;
+    }
+    if (result.failed.length > 0) {
+      md += `\n**Failures:**\n${result.failed.map((f) => `- ${f.path}: ${f.error}`).join("\n")}\n`;
+    }
+    if (result.manifestId) {
+      md += `\nOriginal dates backed up; undo with rollback manifest \`${result.manifestId}\`.\n`;
+    }
+
+    return { content: [{ type: "text", text: md }] };
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
@@ -5,10 +5,15 @@
  * @module tools/photo-organization
  */
 
+import path from "path";
 import { z } from "zod";
 import type { ToolDefinition, ToolResponse, RollbackAction } from "../types.js";
 import { validateStrictPath } from "../services/path-validator.service.js";
-import { PhotoOrganizerService } from "../services/photo-organizer.service.js";
+import {
+  PhotoOrganizerService,
+  type PhotoGroup,
+  type PhotoGroupType,
+} from "../services/photo-organizer.service.js";
 import { RollbackService } from "../services/rollback.service.js";
 import { createErrorResponse } from "../utils/error-handler.js";
 import { OrganizePhotosInputSchema } from "../schemas/media.schemas.js";
@@ -21,7 +26,7 @@ export const organizePhotosToolDefinition: ToolDefinition = {
   name: "file_organizer_organize_photos",
   title: "Organize Photo Files",
   description:
-    "Organize photos into date-based folders using EXIF metadata. Supports JPG, PNG, TIFF, HEIC, RAW formats. Can group by camera model and strip GPS data for privacy. Use dry_run=true to preview changes.",
+    "Organize photos into date-based folders using EXIF metadata. Supports JPG, PNG, TIFF, WebP, HEIC and RAW (CR2, NEF, ARW, DNG, ...) formats; RAW+JPEG pairs, Live Photos, bursts and exposure brackets are kept together. Can group by camera model, add place-name folders from GPS data using an offline gazetteer (no network calls), and strip GPS data for privacy. Use dry_run=true to preview changes.",
   inputSchema: {
     type: "object",
     properties: {
@@ -60,6 +65,47 @@ export const organizePhotosToolDefinition: ToolDefinition = {
         description: "Strip GPS location data from photos for privacy",
         default: false,
       },
+      group_sequences: {
+        type: "boolean",
+        description:
+          "Move bursts and exposure brackets into a subfolder of their own instead of keeping them side by side",
+        default: false,
+      },
+      group_by_location: {
+        type: "boolean",
+        description:
+          "Add a place-name folder (e.g. 2024/Lisbon, Portugal) resolved from GPS data with an offline gazetteer",
+        default: false,
+      },
+      location_granularity: {
+        type: "string",
+        enum: ["country", "region", "city"],
+        description: "Place name used for location folders",
+        default: "city",
+      },
+      location_inherit_minutes: {
+        type: "number",
+        description:
+          "Photos without GPS take the location of the closest photo from the same camera taken within this many minutes (0 to disable)",
+        default: 60,
+      },
+      clock_offsets: {
+        type: "object",
+        additionalProperties: { type: "integer" },
+        description:
+          'Seconds to add to each camera\'s dates, keyed by "Make Model" (e.g. {"Canon EOS R5": 3600}); see file_organizer_correct_photo_dates',
+      },
+      clock_from_gps: {
+        type: "boolean",
+        description:
+          "Correct camera clocks with offsets measured from GPS timestamps versus capture times",
+        default: false,
+      },
+      timezone: {
+        type: "string",
+        description:
+          "IANA time zone the photos were taken in, used to read GPS timestamps (defaults to the system time zone)",
+      },
       unknown_date_folder: {
         type: "string",
         description: "Folder name for photos without date metadata",
@@ -81,6 +127,22 @@ export const organizePhotosToolDefinition: ToolDefinition = {
   },
 };
 
+const GROUP_LABELS: Record<PhotoGroupType, string> = {
+  raw_jpeg: "RAW+JPEG",
+  live_photo: "Live Photo",
+  burst: "Burst",
+  bracket: "Bracket",
+};
+
+function formatPhotoGroups(groups: PhotoGroup[]): string {
+  if (groups.length === 0) return "";
+  const lines = groups.map(
+    (group) =>
+      `- ${GROUP_LABELS[group.type]} → \`${group.targetDir}\`: ${group.files.map((f) => path.basename(f)).join(", ")}`,
+  );
+  return `\n**Kept Together:**\n${lines.join("\n")}\n`;
+}
+
 export async function handleOrganizePhotos(
   args: Record<string, unknown>,
 ): Promise<ToolResponse> {
@@ -105,6 +167,13 @@ export async function handleOrganizePhotos(
       dry_run,
       copy_instead_of_move,
       strip_gps,
+      group_sequences,
+      group_by_location,
+      location_granularity,
+      location_inherit_minutes,
+      clock_offsets,
+      clock_from_gps,
+      timezone,
       unknown_date_folder,
       response_format,
     } = parsed.data;
@@ -122,6 +191,13 @@ export async function handleOrganizePhotos(
       groupByCamera: group_by_camera,
       copyInsteadOfMove: copy_instead_of_move,
       stripGPS: strip_gps,
+      groupSequences: group_sequences,
+      groupByLocation: group_by_location,
+      locationGranularity: location_granularity,
+      locationInheritMinutes: location_inherit_minutes,
+      clockOffsets: clock_offsets,
+      clockFromGPS: clock_from_gps,
+      timeZone: timezone,
       unknownDateFolder: unknown_date_folder,
       dryRun: dry_run,
     });
@@ -163,6 +239,7 @@ export async function handleOrganizePhotos(
 **Target:** \`${validatedTargetPath}\`
 **Date Format:** ${date_format}
 **Group by Camera:** ${group_by_camera ? "Yes" : "No"}
+**Group by Location:** ${group_by_location ? `Yes (${location_granularity})` : "No"}
 **Strip GPS:** ${strip_gps ? "Yes" : "No"}
 
 **Results:**
@@ -170,13 +247,17 @@ export async function handleOrganizePhotos(
 - **Organized Files:** ${result.organizedFiles}
 - **Skipped Files:** ${result.skippedFiles}
 - **GPS Stripped:** ${result.strippedGPSFiles} file(s)
-- **Errors:** ${result.errors.length}
+- **RAW+JPEG Pairs:** ${result.rawJpegPairs}
+- **Live Photos:** ${result.livePhotos}
+- **Bursts:** ${result.burstGroups}
+- **Exposure Brackets:** ${result.bracketGroups}
+${group_by_location ? `- **Located:** ${result.geotaggedFiles} file(s), ${result.inheritedLocations} inherited from nearby shots\n` : ""}${result.clockOffsets.length > 0 ? `- **Corrected Dates:** ${result.correctedDates} file(s) from ${result.clockOffsets.length} camera clock offset(s)\n` : ""}- **Errors:** ${result.errors.length}
 
 **Organized Structure:**
 ${Object.entries(result.structure)
   .map(([folder, count]) => `- \`${folder}\`: ${count} file(s)`)
   .join("\n")}
-
+${formatPhotoGroups(result.groups)}
 ${result.errors.length > 0 ? `**Errors:**\n${result.errors.map((e) => `- \`${e.file}\`: ${e.error}`).join("\n")}` : ""}`;
 
     return {
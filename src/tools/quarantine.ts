@@ -0,0 +1,458 @@
+/**
+ * File Organizer MCP Server v3.5.0
+ * Quarantine Tools
+ *
+ * @module tools/quarantine
+ */
+
+import fs from "fs/promises";
+import type { ToolDefinition, ToolResponse } from "../types.js";
+import { validateStrictPath } from "../services/path-validator.service.js";
+import { FileScannerService } from "../services/file-scanner.service.js";
+import { quarantineService } from "../services/quarantine.service.js";
+import { createErrorResponse } from "../utils/error-handler.js";
+import { escapeMarkdown } from "../utils/index.js";
+import { formatBytes } from "../utils/formatters.js";
+import {
+  QuarantineFilesInputSchema,
+  ListQuarantineInputSchema,
+  InspectQuarantineInputSchema,
+  ReleaseQuarantineInputSchema,
+  PurgeQuarantineInputSchema,
+} from "../schemas/quarantine.schemas.js";
+
+export {
+  QuarantineFilesInputSchema,
+  ListQuarantineInputSchema,
+  InspectQuarantineInputSchema,
+  ReleaseQuarantineInputSchema,
+  PurgeQuarantineInputSchema,
+} from "../schemas/quarantine.schemas.js";
+export type {
+  QuarantineFilesInput,
+  ListQuarantineInput,
+  InspectQuarantineInput,
+  ReleaseQuarantineInput,
+  PurgeQuarantineInput,
+} from "../schemas/quarantine.schemas.js";
+
+export const quarantineFilesToolDefinition: ToolDefinition = {
+  name: "file_organizer_quarantine_files",
+  title: "Quarantine Flagged Files",
+  description:
+    "Screen a file or the files of a directory for security threats and move those at or above min_threat_level (default high) into the quarantine directory. Each file is renamed to a non-executable name, stripped of write and execute permissions, and stored with a sidecar holding its screening result. Use dry_run=true to only see what would be quarantined.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      path: {
+        type: "string",
+        description: "File to screen, or directory whose files are screened",
+      },
+      include_subdirs: {
+        type: "boolean",
+        description: "Also screen files in subdirectories",
+        default: false,
+      },
+      min_threat_level: {
+        type: "string",
+        enum: ["low", "medium", "high"],
+        description: "Lowest screening threat level that is quarantined",
+        default: "high",
+      },
+      dry_run: {
+        type: "boolean",
+        description: "Only screen and report which files would be quarantined",
+        default: false,
+      },
+      response_format: {
+        type: "string",
+        enum: ["json", "markdown"],
+        default: "markdown",
+      },
+    },
+    required: ["path"],
+  },
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+};
+
+export async function handleQuarantineFiles(
+  args: Record<string, unknown>,
+): Promise<ToolResponse> {
+  try {
+    const parsed = QuarantineFilesInputSchema.safeParse(args);
+    if (!parsed.success) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${parsed.error.issues.map((i) => i.message).join(", ")}`,
+          },
+        ],
+      };
+    }
+
+    const {
+      path: inputPath,
+      include_subdirs,
+      min_threat_level,
+      dry_run,
+      response_format,
+    } = parsed.data;
+    const validatedPath = await validateStrictPath(inputPath);
+
+    const filePaths = (await fs.stat(validatedPath)).isDirectory()
+      ? (
+          await new FileScannerService().getAllFiles(
+            validatedPath,
+            include_subdirs,
+          )
+        ).map((f) => f.path)
+      : [validatedPath];
+
+    const result = await quarantineService.screenAndQuarantine(filePaths, {
+      minThreatLevel: min_threat_level,
+      dryRun: dry_run,
+    });
+
+    const output = {
+      dry_run,
+      min_threat_level,
+      screened: result.screened,
+      flagged: result.flagged.map((r) => ({
+        path: r.filePath,
+        threat_level: r.threatLevel,
+        issues: r.issues.map((i) => i.message),
+      })),
+      quarantined: result.quarantined.map((r) => ({
+        id: r.id,
+        original_path: r.originalPath,
+        reason: r.reason,
+      })),
+      errors: result.errors,
+    };
+
+    if (response_format === "json") {
+      return {
+        content: [{ type: "text", text: JSON.stringify(output, null, 2) }],
+        structuredContent: output as unknown as Record<string, unknown>,
+      };
+    }
+
+    let md = `### Quarantine ${dry_run ? "(Dry Run)" : "Result"}\n\n`;
+    md += `- **Screened:** ${result.screened}\n`;
+    md += `- **Flagged (${min_threat_level} or above):** ${result.flagged.length}\n`;
+    if (!dry_run) md += `- **Quarantined:** ${result.quarantined.length}\n`;
+    md += "\n";
+
+    if (dry_run) {
+      for (const flagged of output.flagged) {
+        md += `- \`${escapeMarkdown(flagged.path)}\` (${flagged.threat_level}): ${escapeMarkdown(flagged.issues.join("; "))}\n`;
+      }
+    } else {
+      for (const record of output.quarantined) {
+        md += `- \`${escapeMarkdown(record.original_path)}\` → \`${record.id}\`: ${escapeMarkdown(record.reason)}\n`;
+      }
+    }
+    if (result.errors.length > 0) {
+      md += `\n**Errors:**\n${result.errors.map((e) => `- \`${escapeMarkdown(e.path)}\`: ${escapeMarkdown(e.error)}`).join("\n")}\n`;
+    }
+
+    return { content: [{ type: "text", text: md }] };
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
+
+export const listQuarantineToolDefinition: ToolDefinition = {
+  name: "file_organizer_list_quarantine",
+  title: "List Quarantined Files",
+  description:
+    "List the files held in quarantine, newest first, with where they came from and why they were quarantined.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      response_format: {
+        type: "string",
+        enum: ["json", "markdown"],
+        default: "markdown",
+      },
+    },
+    required: [],
+  },
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+};
+
+export async function handleListQuarantine(
+  args: Record<string, unknown>,
+): Promise<ToolResponse> {
+  try {
+    const parsed = ListQuarantineInputSchema.safeParse(args);
+    if (!parsed.success) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${parsed.error.issues.map((i) => i.message).join(", ")}`,
+          },
+        ],
+      };
+    }
+
+    const records = await quarantineService.list();
+    const output = {
+      count: records.length,
+      items: records.map((r) => ({
+        id: r.id,
+        original_path: r.originalPath,
+        size: r.size,
+        quarantined_at: r.quarantinedAt,
+        threat_level: r.screenResult.threatLevel,
+        reason: r.reason,
+      })),
+    };
+
+    if (parsed.data.response_format === "json") {
+      return {
+        content: [{ type: "text", text: JSON.stringify(output, null, 2) }],
+        structuredContent: output,
+      };
+    }
+
+    if (records.length === 0) {
+      return { content: [{ type: "text", text: "Quarantine is empty." }] };
+    }
+
+    let md = `### Quarantined Files (${records.length})\n\n`;
+    md += "| Quarantined | Original Path | Threat | Reason | ID |\n";
+    md += "|---|---|---|---|---|\n";
+    for (const item of output.items) {
+      md += `| ${new Date(item.quarantined_at).toLocaleString()} | \`${escapeMarkdown(item.original_path)}\` | ${item.threat_level} | ${escapeMarkdown(item.reason)} | \`${item.id}\` |\n`;
+    }
+
+    return { content: [{ type: "text", text: md }] };
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
+
+export const inspectQuarantineToolDefinition: ToolDefinition = {
+  name: "file_organizer_inspect_quarantine",
+  title: "Inspect Quarantined File",
+  description:
+    "Show the full screening result of a quarantined file, where it came from, and whether the stored copy is still present and unchanged.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      id: {
+        type: "string",
+        description: "ID of the quarantined item, as listed by list_quarantine",
+      },
+      response_format: {
+        type: "string",
+        enum: ["json", "markdown"],
+        default: "markdown",
+      },
+    },
+    required: ["id"],
+  },
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+};
+
+export async function handleInspectQuarantine(
+  args: Record<string, unknown>,
+): Promise<ToolResponse> {
+  try {
+    const parsed = InspectQuarantineInputSchema.safeParse(args);
+    if (!parsed.success) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${parsed.error.issues.map((i) => i.message).join(", ")}`,
+          },
+        ],
+      };
+    }
+
+    const item = await quarantineService.inspect(parsed.data.id);
+
+    if (parsed.data.response_format === "json") {
+      return {
+        content: [{ type: "text", text: JSON.stringify(item, null, 2) }],
+        structuredContent: item as unknown as Record<string, unknown>,
+      };
+    }
+
+    const { screenResult } = item;
+    let md = `### Quarantined File \`${item.id}\`\n\n`;
+    md += `- **Original Path:** \`${escapeMarkdown(item.originalPath)}\`\n`;
+    md += `- **Quarantined:** ${new Date(item.quarantinedAt).toLocaleString()}\n`;
+    md += `- **Size:** ${formatBytes(item.size)}\n`;
+    md += `- **Stored As:** \`${escapeMarkdown(item.storedPath)}\`${item.present ? (item.intact ? "" : " ⚠ modified since quarantine") : " ⚠ missing"}\n`;
+    md += `- **Threat Level:** ${screenResult.threatLevel}\n`;
+    md += `- **Detected Type:** ${screenResult.detectedType} (declared \`${screenResult.declaredExtension || "none"}\`)\n\n`;
+    md += `**Issues:**\n${screenResult.issues.map((i) => `- [${i.severity}] ${i.type}: ${escapeMarkdown(i.message)}`).join("\n") || "- none"}\n`;
+
+    return { content: [{ type: "text", text: md }] };
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
+
+export const releaseQuarantineToolDefinition: ToolDefinition = {
+  name: "file_organizer_release_quarantine",
+  title: "Release Quarantined File",
+  description:
+    "Restore a quarantined file to the path it was quarantined from (or target_path) with its original permissions. An existing file at the destination is never replaced.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      id: {
+        type: "string",
+        description: "ID of the quarantined item, as listed by list_quarantine",
+      },
+      target_path: {
+        type: "string",
+        description:
+          "Where to restore the file; defaults to the path it was quarantined from",
+      },
+      response_format: {
+        type: "string",
+        enum: ["json", "markdown"],
+        default: "markdown",
+      },
+    },
+    required: ["id"],
+  },
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+};
+
+export async function handleReleaseQuarantine(
+  args: Record<string, unknown>,
+): Promise<ToolResponse> {
+  try {
+    const parsed = ReleaseQuarantineInputSchema.safeParse(args);
+    if (!parsed.success) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${parsed.error.issues.map((i) => i.message).join(", ")}`,
+          },
+        ],
+      };
+    }
+
+    const { id, target_path, response_format } = parsed.data;
+    const item = await quarantineService.inspect(id);
+    const destination = await validateStrictPath(
+      target_path ?? item.originalPath,
+    );
+    const releasedTo = await quarantineService.release(id, destination);
+
+    const output = { id, released_to: releasedTo };
+    if (response_format === "json") {
+      return {
+        content: [{ type: "text", text: JSON.stringify(output, null, 2) }],
+        structuredContent: output,
+      };
+    }
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Released \`${id}\` to \`${escapeMarkdown(releasedTo)}\`.`,
+        },
+      ],
+    };
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
+
+export const purgeQuarantineToolDefinition: ToolDefinition = {
+  name: "file_organizer_purge_quarantine",
+  title: "Purge Quarantined Files",
+  description:
+    "Permanently delete quarantined files and their records. This cannot be undone.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      ids: {
+        type: "array",
+        items: { type: "string" },
+        description: "IDs of the quarantined items to delete permanently",
+      },
+      response_format: {
+        type: "string",
+        enum: ["json", "markdown"],
+        default: "markdown",
+      },
+    },
+    required: ["ids"],
+  },
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+};
+
+export async function handlePurgeQuarantine(
+  args: Record<string, unknown>,
+): Promise<ToolResponse> {
+  try {
+    const parsed = PurgeQuarantineInputSchema.safeParse(args);
+    if (!parsed.success) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${parsed.error.issues.map((i) => i.message).join(", ")}`,
+          },
+        ],
+      };
+    }
+
+    const purged = await quarantineService.purge(parsed.data.ids);
+    const output = { purged, count: purged.length };
+
+    if (parsed.data.response_format === "json") {
+      return {
+        content: [{ type: "text", text: JSON.stringify(output, null, 2) }],
+        structuredContent: output,
+      };
+    }
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Permanently deleted ${purged.length} quarantined file(s):\n${purged.map((id) => `- \`${id}\``).join("\n")}`,
+        },
+      ],
+    };
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
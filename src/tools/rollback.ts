@@ -7,24 +7,73 @@
 
 import { z } from "zod";
 import type { ToolDefinition, ToolResponse } from "../types.js";
-import { RollbackService } from "../services/rollback.service.js";
+import {
+  RollbackService,
+  type RollbackResult,
+} from "../services/rollback.service.js";
+import { manifestIntegrityService } from "../services/manifest-integrity.service.js";
 import { createErrorResponse } from "../utils/error-handler.js";
-import { UndoLastOperationInputSchema } from "../schemas/rollback.schemas.js";
+import {
+  UndoLastOperationInputSchema,
+  ListRollbacksInputSchema,
+  InspectRollbackInputSchema,
+  RollbackSinceInputSchema,
+} from "../schemas/rollback.schemas.js";
 
 // Singleton for now, or just new instance since it reads from disk
 const rollbackService = new RollbackService();
 
-export { UndoLastOperationInputSchema } from "../schemas/rollback.schemas.js";
-export type { UndoLastOperationInput } from "../schemas/rollback.schemas.js";
+export {
+  UndoLastOperationInputSchema,
+  ListRollbacksInputSchema,
+  InspectRollbackInputSchema,
+  RollbackSinceInputSchema,
+} from "../schemas/rollback.schemas.js";
+export type {
+  UndoLastOperationInput,
+  ListRollbacksInput,
+  InspectRollbackInput,
+  RollbackSinceInput,
+} from "../schemas/rollback.schemas.js";
 export const undoLastOperationToolDefinition: ToolDefinition = {
   name: "file_organizer_undo_last_operation",
   title: "Undo Last Organization Operation",
   description:
-    "Reverses file moves and renames from a previous organization task.",
+    "Reverses file moves and renames from a previous organization task. Pass manifest_id to undo a specific operation from file_organizer_list_rollbacks. " +
+    "Files modified, removed or replaced since the operation are reported as conflicts and nothing is moved. Use dry_run to preview. " +
+    "Use paths, categories or action_indices to undo only part of an operation; the remaining actions stay undoable.",
   inputSchema: {
     type: "object",
     properties: {
-      manifest_id: { type: "string" },
+      manifest_id: {
+        type: "string",
+        description:
+          "ID of the operation to undo. If omitted, undoes the last operation",
+      },
+      dry_run: {
+        type: "boolean",
+        description:
+          "Report the planned steps and conflicts without moving files",
+        default: false,
+      },
+      paths: {
+        type: "array",
+        items: { type: "string" },
+        description:
+          'Only undo actions whose original or current path matches one of these globs (e.g. "**/Documents/**", "*.pdf")',
+      },
+      categories: {
+        type: "array",
+        items: { type: "string" },
+        description:
+          'Only undo actions organized into these categories (e.g. "Documents")',
+      },
+      action_indices: {
+        type: "array",
+        items: { type: "number" },
+        description:
+          "Only undo the actions at these zero-based positions (see file_organizer_inspect_rollback)",
+      },
       response_format: {
         type: "string",
         enum: ["json", "markdown"],
@@ -57,19 +106,39 @@ export async function handleUndoLastOperation(
       };
     }
 
-    const { manifest_id, response_format } = parsed.data;
+    const {
+      manifest_id,
+      dry_run,
+      paths,
+      categories,
+      action_indices,
+      response_format,
+    } = parsed.data;
 
     // Find manifest
     let targetId = manifest_id;
     if (!targetId) {
-      const manifests = await rollbackService.listManifests();
+      const manifests = await rollbackService.listManifests({ limit: 1 });
       if (manifests.length === 0 || !manifests[0]) {
         return { content: [{ type: "text", text: "No undo history found." }] };
       }
       targetId = manifests[0].id;
     }
 
-    const result = await rollbackService.rollback(targetId!);
+    const partial =
+      paths !== undefined ||
+      categories !== undefined ||
+      action_indices !== undefined;
+    const result = await rollbackService.rollback(targetId!, {
+      dryRun: dry_run,
+      ...(partial && {
+        select: {
+          ...(paths !== undefined && { paths }),
+          ...(categories !== undefined && { categories }),
+          ...(action_indices !== undefined && { indices: action_indices }),
+        },
+      }),
+    });
 
     if (response_format === "json") {
       return {
@@ -78,15 +147,363 @@ export async function handleUndoLastOperation(
       };
     }
 
-    const markdown = `### Undo Result
+    const markdown = dry_run
+      ? `### Undo Preview (dry run)
 **Manifest ID:** \`${targetId}\`
+
+${formatRollbackPlan(result)}`
+      : `### Undo Result
+**Manifest ID:** \`${targetId}\`
+✅ **Restored:** ${result.success} files
+❌ **Failed:** ${result.failed} files
+${partial && result.remainingActions > 0 ? `↩️ **Still undoable in this manifest:** ${result.remainingActions} actions\n` : ""}
+${formatConflicts(result)}${result.errors.length ? `**Errors:**\n${result.errors.map((e) => `- ${e}`).join("\n")}` : ""}
+`;
+    return { content: [{ type: "text", text: markdown }] };
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
+
+export const listRollbacksToolDefinition: ToolDefinition = {
+  name: "file_organizer_list_rollbacks",
+  title: "List Undoable Operations",
+  description:
+    "List recorded operations that can be undone (rollback manifests), newest first. Filter by time range or by text in the description and file paths.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      since: {
+        type: "string",
+        description: "ISO date string - only operations at or after this time",
+      },
+      until: {
+        type: "string",
+        description: "ISO date string - only operations at or before this time",
+      },
+      search: {
+        type: "string",
+        description: "Text to match in the description or file paths",
+      },
+      limit: {
+        type: "number",
+        description: "Maximum number of manifests to return",
+        default: 20,
+        minimum: 1,
+        maximum: 200,
+      },
+      response_format: {
+        type: "string",
+        enum: ["json", "markdown"],
+        default: "markdown",
+      },
+    },
+    required: [],
+  },
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+};
+
+export async function handleListRollbacks(
+  args: Record<string, unknown>,
+): Promise<ToolResponse> {
+  try {
+    const parsed = ListRollbacksInputSchema.safeParse(args);
+    if (!parsed.success) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${parsed.error.issues.map((i) => i.message).join(", ")}`,
+          },
+        ],
+      };
+    }
+
+    const { since, until, search, limit, response_format } = parsed.data;
+
+    const manifests = await rollbackService.listManifests({
+      ...(since !== undefined && { since: Date.parse(since) }),
+      ...(until !== undefined && { until: Date.parse(until) }),
+      ...(search !== undefined && { search }),
+      limit,
+    });
+
+    const result = {
+      count: manifests.length,
+      manifests: manifests.map((m) => ({
+        id: m.id,
+        timestamp: new Date(m.timestamp).toISOString(),
+        description: m.description,
+        actions: m.actions.length,
+        verified: manifestIntegrityService.verifyManifest(m).valid,
+      })),
+    };
+
+    if (response_format === "json") {
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+        structuredContent: result,
+      };
+    }
+
+    if (manifests.length === 0) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "No undoable operations found matching the specified criteria.",
+          },
+        ],
+      };
+    }
+
+    let markdown = `### Undoable Operations (${result.count})\n\n`;
+    markdown += "| Time | Description | Actions | ID |\n";
+    markdown += "|------|-------------|---------|----|\n";
+    for (const m of result.manifests) {
+      const integrity = m.verified ? "" : " ⚠ integrity check failed";
+      markdown += `| ${new Date(m.timestamp).toLocaleString()} | ${m.description}${integrity} | ${m.actions} | \`${m.id}\` |\n`;
+    }
+
+    return { content: [{ type: "text", text: markdown }] };
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
+
+export const inspectRollbackToolDefinition: ToolDefinition = {
+  name: "file_organizer_inspect_rollback",
+  title: "Inspect Undoable Operation",
+  description:
+    "Show the file changes recorded in one rollback manifest (original path → current path for every action) and verify its integrity.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      manifest_id: {
+        type: "string",
+        description: "ID of the manifest to inspect",
+      },
+      response_format: {
+        type: "string",
+        enum: ["json", "markdown"],
+        default: "markdown",
+      },
+    },
+    required: ["manifest_id"],
+  },
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+};
+
+export async function handleInspectRollback(
+  args: Record<string, unknown>,
+): Promise<ToolResponse> {
+  try {
+    const parsed = InspectRollbackInputSchema.safeParse(args);
+    if (!parsed.success) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${parsed.error.issues.map((i) => i.message).join(", ")}`,
+          },
+        ],
+      };
+    }
+
+    const { manifest_id, response_format } = parsed.data;
+    const manifest = await rollbackService.getManifest(manifest_id);
+
+    const result = {
+      id: manifest.id,
+      timestamp: new Date(manifest.timestamp).toISOString(),
+      description: manifest.description,
+      actions: manifest.actions.map((a, index) => ({
+        index,
+        type: a.type,
+        original_path: a.originalPath,
+        current_path: a.currentPath ?? a.backupPath ?? null,
+        ...(a.overwrittenBackupPath && {
+          overwritten_backup_path: a.overwrittenBackupPath,
+        }),
+        ...(a.category && { category: a.category }),
+        at: new Date(a.timestamp).toISOString(),
+        ...(a.fingerprint && {
+          size: a.fingerprint.size,
+          hashed: a.fingerprint.hash !== undefined,
+        }),
+      })),
+    };
+
+    if (response_format === "json") {
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+        structuredContent: result,
+      };
+    }
+
+    const symbols: Record<string, string> = {
+      move: "→",
+      rename: "→",
+      copy: "⇉",
+      delete: "✗",
+    };
+    const markdown = `### ${manifest.description}
+**Manifest ID:** \`${manifest.id}\`
+**Created:** ${new Date(manifest.timestamp).toLocaleString()}
+**Actions:** ${manifest.actions.length}
+
+${result.actions
+  .map(
+    (a) =>
+      `- #${a.index} **${a.type}**${a.category ? ` [${a.category}]` : ""} \`${a.original_path}\` ${a.type === "mkdir" ? "(created)" : `${symbols[a.type] ?? "→"} \`${a.current_path ?? "(no backup)"}\``}${a.overwritten_backup_path ? ` (replaced file kept at \`${a.overwritten_backup_path}\`)` : ""}`,
+  )
+  .join("\n")}`;
+
+    return { content: [{ type: "text", text: markdown }] };
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
+
+export const rollbackSinceToolDefinition: ToolDefinition = {
+  name: "file_organizer_rollback_since",
+  title: "Undo Operations Since",
+  description:
+    "Undo every recorded operation at or after a point in time, newest first. All operations are checked before anything is moved; " +
+    "if any file was modified, removed or replaced since, the conflicts are reported and nothing is changed. Use dry_run to preview.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      since: {
+        type: "string",
+        description:
+          "ISO date string - undo every operation at or after this time",
+      },
+      dry_run: {
+        type: "boolean",
+        description:
+          "Report the planned steps and conflicts without moving files",
+        default: false,
+      },
+      response_format: {
+        type: "string",
+        enum: ["json", "markdown"],
+        default: "markdown",
+      },
+    },
+    required: ["since"],
+  },
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+};
+
+export async function handleRollbackSince(
+  args: Record<string, unknown>,
+): Promise<ToolResponse> {
+  try {
+    const parsed = RollbackSinceInputSchema.safeParse(args);
+    if (!parsed.success) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${parsed.error.issues.map((i) => i.message).join(", ")}`,
+          },
+        ],
+      };
+    }
+
+    const { since, dry_run, response_format } = parsed.data;
+    const result = await rollbackService.rollbackSince(Date.parse(since), {
+      dryRun: dry_run,
+    });
+
+    if (response_format === "json") {
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+        structuredContent: result as unknown as Record<string, unknown>,
+      };
+    }
+
+    if (result.manifests.length === 0) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `No undoable operations found since ${since}.`,
+          },
+        ],
+      };
+    }
+
+    const operations = result.manifests
+      .map(
+        (m) =>
+          `- ${new Date(m.timestamp).toLocaleString()}: ${m.description} (\`${m.id}\`)`,
+      )
+      .join("\n");
+
+    const markdown = dry_run
+      ? `### Undo Preview since ${since} (dry run)
+**Operations (newest first):**
+${operations}
+
+${formatRollbackPlan(result)}`
+      : `### Undo Result since ${since}
+**Operations (newest first):**
+${operations}
+
 ✅ **Restored:** ${result.success} files
 ❌ **Failed:** ${result.failed} files
 
-${result.errors.length ? `**Errors:**\n${result.errors.map((e) => `- ${e}`).join("\n")}` : ""}
+${formatConflicts(result)}${result.errors.length ? `**Errors:**\n${result.errors.map((e) => `- ${e}`).join("\n")}` : ""}
 `;
     return { content: [{ type: "text", text: markdown }] };
   } catch (error) {
     return createErrorResponse(error);
   }
 }
+
+function formatConflicts(result: RollbackResult): string {
+  if (result.conflicts.length === 0) return "";
+  return `**Conflicts (${result.conflicts.length}):**
+${result.conflicts.map((c) => `- ${c.type} \`${c.path}\`: ${c.reason}`).join("\n")}
+
+`;
+}
+
+function formatRollbackPlan(result: RollbackResult): string {
+  const steps = result.steps.length
+    ? result.steps
+        .map((s) =>
+          s.to === null
+            ? `- remove ${s.type === "mkdir" ? "directory" : "copy"} \`${s.from}\``
+            : `- \`${s.from}\` → \`${s.to}\``,
+        )
+        .join("\n")
+    : "_No steps_";
+  const verdict =
+    result.conflicts.length > 0
+      ? "⚠️ Rollback would be blocked until the conflicts are resolved."
+      : "✅ No conflicts, rollback can proceed.";
+
+  return `**Planned steps (${result.steps.length}):**
+${steps}
+
+${formatConflicts(result)}${verdict}
+`;
+}
@@ -0,0 +1,179 @@
+/**
+ * File Organizer MCP Server v3.5.0
+ * organize_videos Tool
+ *
+ * @module tools/video-organization
+ */
+
+import type { ToolDefinition, ToolResponse, RollbackAction } from "../types.js";
+import { validateStrictPath } from "../services/path-validator.service.js";
+import { VideoOrganizerService } from "../services/video-organizer.service.js";
+import { RollbackService } from "../services/rollback.service.js";
+import { createErrorResponse } from "../utils/error-handler.js";
+import { OrganizeVideosInputSchema } from "../schemas/media.schemas.js";
+import { logger } from "../utils/logger.js";
+
+export { OrganizeVideosInputSchema } from "../schemas/media.schemas.js";
+export type { OrganizeVideosInput } from "../schemas/media.schemas.js";
+
+export const organizeVideosToolDefinition: ToolDefinition = {
+  name: "file_organizer_organize_videos",
+  title: "Organize Video Files",
+  description:
+    "Organize videos into date-based folders using the recording date stored in the file. Supports MP4, MOV, M4V, 3GP, MKV and WebM. " +
+    "Uses the same folder layout as file_organizer_organize_photos, so phone videos land next to photos from the same day. Can group by recording device. Use dry_run=true to preview changes.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      source_dir: {
+        type: "string",
+        description: "Full path to the directory containing videos",
+      },
+      target_dir: {
+        type: "string",
+        description:
+          "Full path to the directory where organized videos will be placed",
+      },
+      date_format: {
+        type: "string",
+        enum: ["YYYY/MM/DD", "YYYY-MM-DD", "YYYY/MM", "YYYY"],
+        description: "Date format for folder structure",
+        default: "YYYY/MM",
+      },
+      group_by_device: {
+        type: "boolean",
+        description: "Group videos by recording device within date folders",
+        default: false,
+      },
+      dry_run: {
+        type: "boolean",
+        description: "Preview changes without moving files",
+        default: true,
+      },
+      copy_instead_of_move: {
+        type: "boolean",
+        description: "Copy files instead of moving them",
+        default: false,
+      },
+      unknown_date_folder: {
+        type: "string",
+        description: "Folder name for videos without a recording date",
+        default: "Unknown Date",
+      },
+      response_format: {
+        type: "string",
+        enum: ["json", "markdown"],
+        default: "markdown",
+      },
+    },
+    required: ["source_dir", "target_dir"],
+  },
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+};
+
+export async function handleOrganizeVideos(
+  args: Record<string, unknown>,
+): Promise<ToolResponse> {
+  try {
+    const parsed = OrganizeVideosInputSchema.safeParse(args);
+    if (!parsed.success) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${parsed.error.issues.map((i) => i.message).join(", ")}`,
+          },
+        ],
+      };
+    }
+
+    const {
+      source_dir,
+      target_dir,
+      date_format,
+      group_by_device,
+      dry_run,
+      copy_instead_of_move,
+      unknown_date_folder,
+      response_format,
+    } = parsed.data;
+
+    const validatedSourcePath = await validateStrictPath(source_dir);
+    const validatedTargetPath = await validateStrictPath(target_dir);
+
+    const videoOrganizer = new VideoOrganizerService();
+
+    const result = await videoOrganizer.organize({
+      sourceDir: validatedSourcePath,
+      targetDir: validatedTargetPath,
+      dateFormat: date_format,
+      useDateCreated: false, // Always use the recording date in the file
+      groupByDevice: group_by_device,
+      copyInsteadOfMove: copy_instead_of_move,
+      unknownDateFolder: unknown_date_folder,
+      dryRun: dry_run,
+    });
+
+    // Create rollback manifest for moved files (not copies)
+    if (!dry_run && !copy_instead_of_move && result.movedFiles.length > 0) {
+      try {
+        const rollbackService = new RollbackService();
+        const rollbackActions: RollbackAction[] = result.movedFiles.map(
+          (f) => ({
+            type: "move" as const,
+            originalPath: f.originalPath,
+            currentPath: f.currentPath,
+            timestamp: Date.now(),
+          }),
+        );
+        await rollbackService.createManifest(
+          `Video organization from ${validatedSourcePath} to ${validatedTargetPath} (${rollbackActions.length} files)`,
+          rollbackActions,
+        );
+      } catch (manifestErr) {
+        logger.error(
+          `Failed to create rollback manifest: ${manifestErr instanceof Error ? manifestErr.message : String(manifestErr)}`,
+        );
+      }
+    }
+
+    if (response_format === "json") {
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+        structuredContent: result as unknown as Record<string, unknown>,
+      };
+    }
+
+    const dryRunText = dry_run ? "(Dry Run - No files were moved)" : "";
+    const markdown = `### Video Organization Result ${dryRunText}
+
+**Source:** \`${validatedSourcePath}\`
+**Target:** \`${validatedTargetPath}\`
+**Date Format:** ${date_format}
+**Group by Device:** ${group_by_device ? "Yes" : "No"}
+
+**Results:**
+- **Success:** ${result.success ? "✅" : "❌"}
+- **Organized Files:** ${result.organizedFiles}
+- **Skipped Files:** ${result.skippedFiles}
+- **Errors:** ${result.errors.length}
+
+**Organized Structure:**
+${Object.entries(result.structure)
+  .map(([folder, count]) => `- \`${folder}\`: ${count} file(s)`)
+  .join("\n")}
+
+${result.errors.length > 0 ? `**Errors:**\n${result.errors.map((e) => `- \`${e.file}\`: ${e.error}`).join("\n")}` : ""}`;
+
+    return {
+      content: [{ type: "text", text: markdown }],
+    };
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
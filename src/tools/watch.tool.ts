@@ -13,7 +13,10 @@ import {
   updateUserConfig,
   type WatchConfig,
 } from "../config.js";
-import { reloadAutoOrganizeScheduler } from "../services/auto-organize.service.js";
+import {
+  getAutoOrganizeScheduler,
+  reloadAutoOrganizeScheduler,
+} from "../services/auto-organize.service.js";
 import { createErrorResponse } from "../utils/error-handler.js";
 import {
   WatchDirectoryInputSchema,
@@ -39,6 +42,7 @@ export const watchDirectoryToolDefinition: ToolDefinition = {
   title: "Watch Directory",
   description:
     "Add a directory to the watch list with a cron-based schedule for automatic organization. " +
+    'Set trigger="events" to organize new or changed files within seconds of them appearing (debounced, waits until files stop growing), or trigger="both" to combine events with the schedule. ' +
     'When the user specifies a schedule in natural language (e.g., "every day at 10am"), ' +
     'convert it to a standard cron expression. Cron format: "minute hour day month weekday". ' +
     'Common conversions: "every day at 10am" → "0 10 * * *", "every 30 minutes" → "*/30 * * * *", ' +
@@ -54,7 +58,14 @@ export const watchDirectoryToolDefinition: ToolDefinition = {
       schedule: {
         type: "string",
         description:
-          'Cron expression. Convert natural language to cron: "every day at 10am" → "0 10 * * *", "every 30 minutes" → "*/30 * * * *", "every Monday at 9am" → "0 9 * * 1", "every hour" → "0 * * * *", "daily at midnight" → "0 0 * * *"',
+          'Cron expression. Convert natural language to cron: "every day at 10am" → "0 10 * * *", "every 30 minutes" → "*/30 * * * *", "every Monday at 9am" → "0 9 * * 1", "every hour" → "0 * * * *", "daily at midnight" → "0 0 * * *". Not needed when trigger is "events"',
+      },
+      trigger: {
+        type: "string",
+        enum: ["cron", "events", "both"],
+        description:
+          'What starts organization: "cron" (schedule only), "events" (filesystem events, near real-time), or "both"',
+        default: "cron",
       },
       auto_organize: {
         type: "boolean",
@@ -76,8 +87,15 @@ export const watchDirectoryToolDefinition: ToolDefinition = {
         description: "Maximum files to process per run",
         minimum: 1,
       },
+      debounce_ms: {
+        type: "number",
+        description:
+          "Quiet period in milliseconds after the last file event before files are checked (events trigger, default 1000)",
+        minimum: 100,
+        maximum: 60000,
+      },
     },
-    required: ["directory", "schedule"],
+    required: ["directory"],
   },
   annotations: {
     readOnlyHint: false,
@@ -121,7 +139,7 @@ export const listWatchesToolDefinition: ToolDefinition = {
   name: "file_organizer_list_watches",
   title: "List Watched Directories",
   description:
-    "List all directories currently being watched with their schedules.",
+    "List all directories currently being watched with their schedules and triggers. Event-triggered watches also report live queue depth and the last file event processed.",
   inputSchema: {
     type: "object",
     properties: {
@@ -160,9 +178,11 @@ export async function handleWatchDirectory(
     const {
       directory,
       schedule,
+      trigger,
       auto_organize,
       min_file_age_minutes,
       max_files_per_run,
+      debounce_ms,
       response_format,
     } = parsed.data;
 
@@ -170,7 +190,7 @@ export async function handleWatchDirectory(
     const validatedPath = await validateStrictPath(directory);
 
     // Validate cron expression
-    if (!cron.validate(schedule)) {
+    if (schedule !== undefined && !cron.validate(schedule)) {
       return {
         content: [
           {
@@ -185,11 +205,13 @@ export async function handleWatchDirectory(
     // Build watch config
     const watchConfig: WatchConfig = {
       directory: validatedPath,
-      schedule,
+      ...(schedule !== undefined && { schedule }),
+      trigger,
       rules: {
         auto_organize,
         ...(min_file_age_minutes !== undefined && { min_file_age_minutes }),
         ...(max_files_per_run !== undefined && { max_files_per_run }),
+        ...(debounce_ms !== undefined && { debounce_ms }),
       },
     };
 
@@ -222,6 +244,7 @@ export async function handleWatchDirectory(
       action,
       directory: validatedPath,
       schedule,
+      trigger,
       rules: watchConfig.rules,
     };
 
@@ -234,10 +257,11 @@ export async function handleWatchDirectory(
 
     const markdown = `### ${action} Watch for \`${validatedPath}\`
 
-**Schedule:** ${schedule}
-**Auto-organize:** ${auto_organize ? "Enabled" : "Disabled"}
+**Trigger:** ${trigger}
+${schedule !== undefined ? `**Schedule:** ${schedule}\n` : ""}**Auto-organize:** ${auto_organize ? "Enabled" : "Disabled"}
 ${min_file_age_minutes !== undefined ? `**Min File Age:** ${min_file_age_minutes} minutes` : ""}
 ${max_files_per_run !== undefined ? `**Max Files Per Run:** ${max_files_per_run}` : ""}
+${debounce_ms !== undefined ? `**Event Debounce:** ${debounce_ms} ms` : ""}
 
 The scheduler has been reloaded with the new configuration.`;
 
@@ -341,13 +365,34 @@ export async function handleListWatches(
     const userConfig = loadUserConfig();
     const watchList = userConfig.watchList ?? [];
 
+    const scheduler = getAutoOrganizeScheduler();
     const result = {
       count: watchList.length,
-      watches: watchList.map((w) => ({
-        directory: w.directory,
-        schedule: w.schedule,
-        rules: w.rules,
-      })),
+      watches: watchList.map((w) => {
+        const live = scheduler?.getEventWatchStatus(w.directory);
+        return {
+          directory: w.directory,
+          schedule: w.schedule,
+          trigger: w.trigger ?? "cron",
+          rules: w.rules,
+          ...(live && {
+            events: {
+              attached: live.attached,
+              queue_depth: live.queueDepth,
+              last_event: live.lastEvent && {
+                path: live.lastEvent.path,
+                type: live.lastEvent.type,
+                at: live.lastEvent.at.toISOString(),
+              },
+              last_processed: live.lastProcessed && {
+                path: live.lastProcessed.path,
+                files: live.lastProcessed.files,
+                at: live.lastProcessed.at.toISOString(),
+              },
+            },
+          }),
+        };
+      }),
     };
 
     if (response_format === "json") {
@@ -370,13 +415,17 @@ export async function handleListWatches(
 
     const markdown = `### Watched Directories (${watchList.length})
 
-${watchList
+${result.watches
   .map(
     (w, i) => `${i + 1}. **${w.directory}**
-   - Schedule: \`${w.schedule}\`
+   - Trigger: ${w.trigger}
+   ${w.schedule !== undefined ? `- Schedule: \`${w.schedule}\`` : ""}
    - Auto-organize: ${w.rules.auto_organize ? "✓" : "✗"}
    ${w.rules.min_file_age_minutes !== undefined ? `- Min file age: ${w.rules.min_file_age_minutes} min` : ""}
-   ${w.rules.max_files_per_run !== undefined ? `- Max files/run: ${w.rules.max_files_per_run}` : ""}`,
+   ${w.rules.max_files_per_run !== undefined ? `- Max files/run: ${w.rules.max_files_per_run}` : ""}
+   ${w.events ? `- Watcher: ${w.events.attached ? "attached" : "waiting for directory"}, queue depth ${w.events.queue_depth}` : ""}
+   ${w.events?.last_event ? `- Last event: ${w.events.last_event.type} \`${w.events.last_event.path}\` at ${w.events.last_event.at}` : ""}
+   ${w.events?.last_processed ? `- Last processed: ${w.events.last_processed.files} file(s) ending with \`${w.events.last_processed.path}\` at ${w.events.last_processed.at}` : ""}`,
   )
   .join("\n\n")}`;
 
@@ -176,6 +176,11 @@ export interface OrganizationPlan {
     category: string;
     hasConflict: boolean;
     conflictResolution?: "rename" | "skip" | "overwrite" | "overwrite_if_newer";
+    operation?: "move" | "copy";
+    matchedRule?: string; // Name of the organization rule that decided the destination
+    tags?: string[];
+    // Set for archives when organizing with archive extraction: whether every entry passed inspection
+    extraction?: { safe: boolean; reason?: string };
   }[];
   categoryCounts: Record<string, number>;
   conflicts: Array<{ file: string; reason: string }>;
@@ -198,6 +203,100 @@ export interface OrganizeAction {
   from: string;
   to: string;
   category: CategoryName;
+  operation?: "move" | "copy";
+  rule?: string;
+  tags?: string[];
+}
+
+// ==================== Organization Rule Types ====================
+
+/**
+ * Fields a rule condition can inspect. `exif.<key>` and `id3.<key>` read
+ * ImageMetadata / AudioMetadata properties (e.g. "exif.cameraModel").
+ */
+export type RuleField =
+  | "name"
+  | "extension"
+  | "path"
+  | "size"
+  | "age_days"
+  | "modified"
+  | "mime_type"
+  | "detected_type"
+  | "category"
+  | `exif.${string}`
+  | `id3.${string}`;
+
+export type RuleOperator =
+  | "eq"
+  | "neq"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+  | "contains"
+  | "starts_with"
+  | "ends_with"
+  | "glob"
+  | "regex"
+  | "in"
+  | "exists";
+
+export type RuleConditionValue = string | number | boolean | Array<string | number>;
+
+export interface RuleFieldCondition {
+  field: RuleField;
+  op: RuleOperator;
+  value?: RuleConditionValue;
+}
+
+export type RuleCondition =
+  | RuleFieldCondition
+  | { all: RuleCondition[] }
+  | { any: RuleCondition[] }
+  | { not: RuleCondition };
+
+export type RuleAction =
+  | { type: "move"; destination: string }
+  | { type: "copy"; destination: string }
+  | { type: "tag"; tags: string[] }
+  | { type: "skip"; reason?: string }
+  | { type: "quarantine" };
+
+export interface OrganizationRule {
+  name: string;
+  description?: string;
+  enabled: boolean;
+  priority: number;
+  conditions: RuleCondition;
+  action: RuleAction;
+}
+
+/**
+ * Content topic defined in the user config, used by organize_by_content in
+ * place of (or next to) the built-in topics
+ */
+export interface UserTopic {
+  /** Topic and folder name, e.g. "Invoices" or "Tax 2024" */
+  name: string;
+  /** Words or phrases that indicate the topic, optionally weighted (default 1) */
+  keywords: Array<string | { term: string; weight: number }>;
+  /** Documents containing any of these never match the topic */
+  exclude?: string[];
+  /** Multiplier on the topic's confidence (default 1) */
+  weight?: number;
+}
+
+/**
+ * Outcome of evaluating the rule set against one file
+ */
+export interface RuleEvaluation {
+  /** Rule whose terminal action (move/copy/skip/quarantine) decided the file */
+  rule?: string;
+  action?: Exclude<RuleAction, { type: "tag" }>;
+  tags: string[];
+  /** Every rule that matched, in evaluation order (including tag rules) */
+  matchedRules: string[];
 }
 
 export interface OrganizeResult {
@@ -207,6 +306,7 @@ export interface OrganizeResult {
   statistics: Record<string, number>;
   actions: OrganizeAction[];
   errors: string[];
+  skipped_files?: { path: string; reason: string }[];
   errorCount: number;
   successCount: number;
   aborted: boolean;
@@ -229,12 +329,24 @@ export interface LargestFilesResult {
 // ==================== Rollback Types ====================
 
 export interface RollbackAction {
-  type: "move" | "copy" | "delete" | "rename";
-  originalPath: string;
-  currentPath?: string; // For moves/copies
-  backupPath?: string; // For deletions (where the file is temporarily stored)
+  type: "move" | "copy" | "delete" | "rename" | "link" | "retag" | "mkdir";
+  originalPath: string; // For mkdir, the directory that was created
+  currentPath?: string; // For moves/copies; for links, the kept file the link points to
+  backupPath?: string; // For deletions (where the file is temporarily stored); for retags, the saved original tag block
   overwrittenBackupPath?: string; // If a move overwrote a file, this is where the ORIGINAL file is stored
   timestamp: number;
+  fingerprint?: FileFingerprint; // State of currentPath (backupPath for deletes, originalPath for retags) right after the operation
+  category?: string; // Category assigned by the organizer, used to select actions for partial rollback
+  linkType?: "hardlink" | "symlink"; // For links, how originalPath now refers to currentPath
+}
+
+/**
+ * Snapshot used to detect files changed after an operation was recorded
+ */
+export interface FileFingerprint {
+  size: number;
+  mtimeMs: number;
+  hash?: string; // SHA-256, only recorded for small files
 }
 
 export interface RollbackManifest {
@@ -247,6 +359,56 @@ export interface RollbackManifest {
   signature?: string;
 }
 
+/**
+ * Write-ahead journal records for an organize run (JSON Lines, one signed
+ * record per line). Planned moves are written before any file is touched.
+ */
+export type JournalRecord =
+  | {
+      kind: "begin";
+      version: "1.0";
+      id: string;
+      pid: number;
+      directory: string;
+      description: string;
+      timestamp: number;
+      actions: RollbackAction[]; // Planned; currentPath is the intended destination
+      signature?: string;
+    }
+  | {
+      kind: "step";
+      index: number;
+      status: "done" | "failed" | "skipped";
+      action?: RollbackAction; // What actually happened (final destination)
+      reason?: string;
+      timestamp: number;
+      signature?: string;
+    }
+  | {
+      kind: "manifest";
+      manifestId: string;
+      timestamp: number;
+      signature?: string;
+    };
+
+export type JournalStepStatus = "pending" | "done" | "failed" | "skipped";
+
+export interface InterruptedJournal {
+  id: string;
+  pid: number;
+  directory: string;
+  description: string;
+  timestamp: number;
+  manifestId?: string;
+  steps: Array<{
+    index: number;
+    status: JournalStepStatus;
+    planned: RollbackAction;
+    action?: RollbackAction;
+    reason?: string;
+  }>;
+}
+
 // ==================== Tool Types ====================
 
 export interface ToolResponse {
@@ -385,7 +547,8 @@ export type IssueType =
   | "suspicious_pattern"
   | "unknown_type"
   | "malicious_content"
-  | "policy_violation";
+  | "policy_violation"
+  | "active_content";
 
 export interface ContentScreeningConfig {
   checkExtensionMismatch: boolean;
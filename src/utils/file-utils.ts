@@ -179,3 +179,36 @@ export function isSubPath(parentPath: string, childPath: string): boolean {
     (!relative.startsWith("..") && !path.isAbsolute(relative))
   );
 }
+
+/**
+ * Sanitize a single file or folder name by removing invalid characters,
+ * guarding Windows reserved names and limiting length
+ * @param filename - Name to sanitize (must not be a full path)
+ * @returns Sanitized name
+ */
+export function sanitizeFilename(filename: string): string {
+  // Remove or replace invalid filename characters
+  // Order matters: first replace > and < with nothing, then other chars with _
+  const sanitized = filename
+    .replace(/[>]/g, "") // Remove > first
+    .replace(/[<]/g, "_") // Replace < with _
+    .replace(/[\/\\:*?"<>|]/g, "_") // Replace rest with _
+    .replace(/[\x00-\x1F]/g, "") // Remove control characters
+    .trim();
+
+  // Prevent Windows reserved names
+  const nameWithoutExt = sanitized.split(".")[0] ?? "";
+  if (/^(CON|PRN|AUX|NUL|COM[1-9]|LPT[1-9])$/i.test(nameWithoutExt)) {
+    // Add underscore BEFORE the extension if there is one
+    const extIndex = sanitized.lastIndexOf(".");
+    if (extIndex > 0) {
+      return (
+        sanitized.substring(0, extIndex) + "_" + sanitized.substring(extIndex)
+      );
+    }
+    return sanitized + "_";
+  }
+
+  // Limit length to avoid path issues
+  return sanitized.substring(0, 200);
+}
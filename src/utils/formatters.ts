@@ -23,6 +23,29 @@ export function formatBytes(bytes: number): string {
   return `${Math.round((bytes / Math.pow(k, index)) * 100) / 100} ${sizes[index]}`;
 }
 
+/**
+ * Parse a human-readable size into bytes
+ * @param value - Number of bytes or a string such as "10MB", "1.5 GB", "512"
+ * @returns Number of bytes, or NaN if the value cannot be parsed
+ */
+export function parseBytes(value: string | number): number {
+  if (typeof value === "number") return value;
+
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(B|BYTES|KB|MB|GB|TB)?\s*$/i.exec(value);
+  if (!match || !match[1]) return NaN;
+
+  const units: Record<string, number> = {
+    B: 1,
+    BYTES: 1,
+    KB: 1024,
+    MB: 1024 ** 2,
+    GB: 1024 ** 3,
+    TB: 1024 ** 4,
+  };
+  const unit = (match[2] ?? "B").toUpperCase();
+  return Math.round(parseFloat(match[1]) * (units[unit] ?? 1));
+}
+
 /**
  * Format date to ISO string
  * @param date - Date to format
@@ -0,0 +1,147 @@
+/**
+ * File Organizer MCP Server v3.5.0
+ * Destination Path Templates
+ *
+ * Renders relative destination paths such as "Photos/{year}/{month}" from a
+ * set of tokens. Substituted values are sanitized so a token can never
+ * introduce a path separator or a traversal segment.
+ *
+ * Token syntax:
+ * - `{artist}` - value of the token
+ * - `{track:02}` - numeric value zero-padded to the given width
+ * - `{artist|Unknown Artist}` - fallback used when the value is missing
+ *   (an empty fallback, `{album|}`, makes the token optional)
+ */
+
+import { sanitizeFilename } from "./file-utils.js";
+
+/**
+ * Tokens produced by MetadataService.getTemplateTokens
+ */
+export const DESTINATION_TEMPLATE_TOKENS = [
+  "name",
+  "ext",
+  "extension",
+  "category",
+  "year",
+  "month",
+  "day",
+  "camera_make",
+  "camera_model",
+  "lens",
+  "width",
+  "height",
+  "artist",
+  "album_artist",
+  "album",
+  "title",
+  "track",
+  "total_tracks",
+  "disc",
+  "total_discs",
+  "genre",
+  "composer",
+] as const;
+
+export type PathTemplateTokens = Record<string, string | number | undefined>;
+
+export interface RenderedPathTemplate {
+  /** Rendered relative path using "/" separators */
+  path: string;
+  /** Token names referenced by the template that had no value or fallback */
+  missing: string[];
+}
+
+/** Tokens for which an empty value is real, e.g. {ext} of "Makefile" */
+const EMPTY_VALUE_TOKENS = new Set(["ext", "extension"]);
+
+const TOKEN_PATTERN =
+  /\{([a-zA-Z_][a-zA-Z0-9_]*)(?::(\d{1,2}))?(?:\|([^{}]*))?\}/g;
+
+/**
+ * Make a token value safe to use inside a single path segment
+ */
+function sanitizeTokenValue(value: string): string {
+  const sanitized = sanitizeFilename(value);
+  // A value consisting only of dots would become "." or ".." segments
+  return /^\.+$/.test(sanitized) ? sanitized.replace(/\./g, "_") : sanitized;
+}
+
+function formatTokenValue(
+  value: string | number,
+  width: string | undefined,
+): string {
+  const text = String(value);
+  if (width === undefined || !/^\d+$/.test(text)) {
+    return text;
+  }
+  return text.padStart(parseInt(width, 10), "0");
+}
+
+/**
+ * List the token names referenced by a template
+ */
+export function getTemplateTokenNames(template: string): string[] {
+  return [...template.matchAll(TOKEN_PATTERN)].map((match) => match[1]!);
+}
+
+/**
+ * Render a destination template.
+ * @example
+ * renderPathTemplate("{category}/{year}", { category: "Images", year: 2024 })
+ * // => { path: "Images/2024", missing: [] }
+ * renderPathTemplate("{artist|Unknown Artist}/{track:02} - {title}", {
+ *   track: 3,
+ *   title: "Intro",
+ * })
+ * // => { path: "Unknown Artist/03 - Intro", missing: [] }
+ */
+export function renderPathTemplate(
+  template: string,
+  tokens: PathTemplateTokens,
+): RenderedPathTemplate {
+  const missing: string[] = [];
+
+  const rendered = template.replace(
+    TOKEN_PATTERN,
+    (
+      _match,
+      name: string,
+      width: string | undefined,
+      fallback: string | undefined,
+    ) => {
+      const value = tokens[name];
+      if (value === undefined || value === "") {
+        if (fallback !== undefined) {
+          return sanitizeTokenValue(fallback);
+        }
+        if (value === undefined || !EMPTY_VALUE_TOKENS.has(name)) {
+          missing.push(name);
+        }
+        return "";
+      }
+      return sanitizeTokenValue(formatTokenValue(value, width));
+    },
+  );
+
+  const segments = rendered
+    .split(/[\/\\]+/)
+    .map((segment) => segment.trim())
+    .filter((segment) => segment.length > 0 && segment !== ".");
+
+  return { path: segments.join("/"), missing };
+}
+
+/**
+ * Standard date tokens (year, month, day) for a date
+ */
+export function getDateTokens(date: Date | undefined): PathTemplateTokens {
+  if (!date || isNaN(date.getTime())) {
+    return {};
+  }
+  return {
+    year: date.getFullYear().toString(),
+    month: (date.getMonth() + 1).toString().padStart(2, "0"),
+    day: date.getDate().toString().padStart(2, "0"),
+  };
+}
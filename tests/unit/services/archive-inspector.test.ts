@@ -0,0 +1,260 @@
+/**
+ * File Organizer MCP Server - Archive Inspector Tests
+ * Tests per-entry type detection, suspicious entry flags and the dominant
+ * category of an archive, and organizing archives by what they contain
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import zlib from "zlib";
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import { ArchiveInspectorService } from "../../../src/services/archive-inspector.service.js";
+import { OrganizerService } from "../../../src/services/organizer.service.js";
+import { CategorizerService } from "../../../src/services/categorizer.service.js";
+import { RollbackService } from "../../../src/services/rollback.service.js";
+import type { FileWithSize } from "../../../src/types.js";
+import { buildTar, buildZip } from "../../utils/archive-fixtures.js";
+
+const PNG = Buffer.concat([
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  Buffer.alloc(2000, 7),
+]);
+const EXE = Buffer.concat([Buffer.from("MZ"), Buffer.alloc(500, 1)]);
+
+describe("ArchiveInspectorService", () => {
+  let testDir: string;
+  const service = new ArchiveInspectorService();
+
+  beforeEach(async () => {
+    const baseTempDir = path.join(process.cwd(), "tests", "temp");
+    await fs.mkdir(baseTempDir, { recursive: true });
+    testDir = await fs.mkdtemp(path.join(baseTempDir, "archive-inspector-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it("detects entry types and the category holding most of the content", async () => {
+    const archive = path.join(testDir, "holiday.zip");
+    await fs.writeFile(
+      archive,
+      buildZip([
+        { name: "holiday/", mode: 0o040755 },
+        { name: "holiday/beach.png", content: PNG },
+        { name: "holiday/sunset.png", content: PNG },
+        { name: "holiday/notes.txt", content: "Day one: Lisbon." },
+      ]),
+    );
+
+    const inspection = await service.inspect(archive);
+
+    expect(inspection.format).toBe("zip");
+    expect(inspection.safe).toBe(true);
+    expect(inspection.suspiciousCount).toBe(0);
+    expect(
+      inspection.entries.map((e) => [e.name, e.detectedType, e.category]),
+    ).toEqual([
+      ["holiday/", undefined, undefined],
+      ["holiday/beach.png", "PNG", "Images"],
+      ["holiday/sunset.png", "PNG", "Images"],
+      ["holiday/notes.txt", "TEXT", "Documents"],
+    ]);
+    expect(inspection.entries[1]!.compressionRatio).toBeGreaterThan(1);
+    expect(inspection.dominantCategory?.category).toBe("Images");
+    expect(inspection.dominantCategory!.share).toBeGreaterThan(0.9);
+  });
+
+  it("flags executables, disguised files and links", async () => {
+    const zip = path.join(testDir, "invoice.zip");
+    await fs.writeFile(
+      zip,
+      buildZip([
+        { name: "invoice.pdf.exe", content: EXE },
+        { name: "photo.jpg", content: EXE },
+        { name: "readme.txt", content: "Open the invoice" },
+      ]),
+    );
+    const tar = path.join(testDir, "links.tar.gz");
+    await fs.writeFile(
+      tar,
+      zlib.gzipSync(
+        buildTar([
+          { name: "run.sh", content: "#!/bin/sh\nrm -rf ~\n" },
+          { name: "passwd", type: "2", linkName: "/etc/passwd" },
+        ]),
+      ),
+    );
+
+    const invoice = await service.inspect(zip);
+    expect(invoice.safe).toBe(false);
+    expect(invoice.suspiciousCount).toBe(2);
+    expect(invoice.entries[0]!.flags).toEqual([
+      "Executable content: Portable Executable (Windows)",
+      "Double extension hides an executable",
+    ]);
+    expect(invoice.entries[1]!.flags).toEqual([
+      "Executable content: Portable Executable (Windows)",
+      "Content is PE but the name ends in .jpg",
+    ]);
+    expect(invoice.entries[2]!.flags).toEqual([]);
+
+    const links = await service.inspect(tar);
+    expect(links.format).toBe("tar.gz");
+    expect(links.entries.map((e) => e.flags)).toEqual([
+      ["Executable content: Shell Script"],
+      ["Symbolic link to /etc/passwd"],
+    ]);
+    expect(links.problems).toEqual(["Links are not extracted: passwd"]);
+  });
+});
+
+describe("OrganizerService archive content", () => {
+  let testDir: string;
+  let organizer: OrganizerService;
+
+  beforeEach(async () => {
+    const baseTempDir = path.join(process.cwd(), "tests", "temp");
+    await fs.mkdir(baseTempDir, { recursive: true });
+    testDir = await fs.mkdtemp(path.join(baseTempDir, "archive-organize-"));
+    organizer = new OrganizerService(new CategorizerService());
+
+    await fs.writeFile(
+      path.join(testDir, "photos.zip"),
+      buildZip([
+        { name: "beach.png", content: PNG },
+        { name: "sunset.png", content: PNG },
+      ]),
+    );
+    await fs.writeFile(
+      path.join(testDir, "setup.zip"),
+      buildZip([{ name: "setup.exe", content: EXE }]),
+    );
+    await fs.writeFile(path.join(testDir, "broken.zip"), "not a zip");
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  const files = async (): Promise<FileWithSize[]> =>
+    Promise.all(
+      ["photos.zip", "setup.zip", "broken.zip"].map(async (name) => ({
+        name,
+        path: path.join(testDir, name),
+        size: (await fs.stat(path.join(testDir, name))).size,
+        modified: new Date(),
+      })),
+    );
+
+  it("files archives under the category of their content", async () => {
+    const plan = await organizer.generateOrganizationPlan(
+      testDir,
+      await files(),
+      "rename",
+      false,
+      { archiveContent: "categorize" },
+    );
+
+    expect(
+      plan.moves.map((m) => [path.basename(m.source), m.category]),
+    ).toEqual([
+      ["photos.zip", "Images"],
+      ["setup.zip", "Executables"],
+      ["broken.zip", "Archives"],
+    ]);
+    expect(plan.moves.every((m) => m.extraction === undefined)).toBe(true);
+  });
+
+  it("extracts only archives whose entries all pass inspection", async () => {
+    const result = await organizer.organize(testDir, await files(), {
+      archiveContent: "extract",
+    });
+
+    const images = path.join(testDir, "Images");
+    expect(result.extractions).toEqual([
+      {
+        archive: path.join(images, "photos.zip"),
+        destination: path.join(images, "photos"),
+        extracted: true,
+        fileCount: 2,
+        manifestId: expect.any(String),
+      },
+      {
+        archive: path.join(testDir, "Executables", "setup.zip"),
+        destination: path.join(testDir, "Executables", "setup"),
+        extracted: false,
+        fileCount: 0,
+        reason: "setup.exe: Executable content: Portable Executable (Windows)",
+      },
+      expect.objectContaining({
+        archive: path.join(testDir, "Archives", "broken.zip"),
+        extracted: false,
+      }),
+    ]);
+    expect(
+      (await fs.readFile(path.join(images, "photos", "beach.png"))).equals(PNG),
+    ).toBe(true);
+    await expect(
+      fs.access(path.join(testDir, "Executables", "setup")),
+    ).rejects.toThrow();
+
+    const undo = await new RollbackService().rollback(
+      result.extractions![0]!.manifestId!,
+    );
+    expect(undo.failed).toBe(0);
+    await expect(fs.access(path.join(images, "photos"))).rejects.toThrow();
+    await expect(
+      fs.access(path.join(images, "photos.zip")),
+    ).resolves.toBeUndefined();
+  });
+
+  it("does not extract archives with an entry that fails screening", async () => {
+    const archive = path.join(testDir, "reports.zip");
+    await fs.writeFile(
+      archive,
+      buildZip([
+        { name: "notes.txt", content: "quarterly notes" },
+        {
+          name: "summary.docm",
+          content: buildZip([
+            {
+              name: "[Content_Types].xml",
+              content: '<?xml version="1.0"?><Types/>',
+            },
+            { name: "word/vbaProject.bin", content: "macro" },
+          ]),
+        },
+      ]),
+    );
+
+    const result = await organizer.organize(
+      testDir,
+      [
+        {
+          name: "reports.zip",
+          path: archive,
+          size: (await fs.stat(archive)).size,
+          modified: new Date(),
+        },
+      ],
+      { archiveContent: "extract" },
+    );
+
+    const archives = path.join(testDir, "Archives");
+    expect(result.extractions).toEqual([
+      {
+        archive: path.join(archives, "reports.zip"),
+        destination: path.join(archives, "reports"),
+        extracted: false,
+        fileCount: 0,
+        reason:
+          "Archive rejected: summary.docm failed screening: Document contains VBA macros (word/vbaProject.bin)",
+      },
+    ]);
+    await expect(fs.access(path.join(archives, "reports"))).rejects.toThrow();
+    await expect(
+      fs.access(path.join(archives, "reports.zip")),
+    ).resolves.toBeUndefined();
+  });
+});
@@ -746,4 +746,113 @@ describe("AudioMetadataService", () => {
       expect(metadata.artist).toBe("ID3v1 Artist");
     });
   });
+
+  // ==================== AUDIO PROPERTIES ====================
+
+  describe("Audio Properties", () => {
+    // MPEG1 Layer III, 128 kbps, 44.1 kHz, stereo: 417-byte frames
+    const mpegFrame = (extra: Buffer = Buffer.alloc(0)) => {
+      const frame = Buffer.alloc(417);
+      Buffer.from([0xff, 0xfb, 0x90, 0x00]).copy(frame);
+      extra.copy(frame, 4);
+      return frame;
+    };
+
+    it("should compute duration and bitrate of a CBR MP3 by size", async () => {
+      const frames = Array.from({ length: 100 }, () => mpegFrame());
+      const filePath = path.join(testDir, "cbr.mp3");
+      await fs.writeFile(filePath, Buffer.concat(frames));
+
+      const metadata = await service.extract(filePath);
+
+      expect(metadata.bitrate).toBe(128);
+      expect(metadata.sampleRate).toBe(44100);
+      expect(metadata.channels).toBe(2);
+      expect(metadata.duration).toBeCloseTo((100 * 417 * 8) / 128000, 3);
+    });
+
+    it("should use the frame count from a Xing header for VBR MP3", async () => {
+      // Side info for MPEG1 stereo is 32 bytes, then "Xing", flags, frames
+      const xing = Buffer.alloc(44);
+      xing.write("Xing", 32);
+      xing.writeUInt32BE(0x01, 36);
+      xing.writeUInt32BE(1000, 40);
+      const filePath = path.join(testDir, "vbr.mp3");
+      await fs.writeFile(
+        filePath,
+        Buffer.concat([mpegFrame(xing), mpegFrame(), mpegFrame()]),
+      );
+
+      const metadata = await service.extract(filePath);
+
+      expect(metadata.duration).toBeCloseTo((1000 * 1152) / 44100, 3);
+    });
+
+    it("should not report audio properties for random data after ID3 tags", async () => {
+      const id3Header = Buffer.from([0x49, 0x44, 0x33, 0x03, 0, 0, 0, 0, 0, 0]);
+      const filePath = path.join(testDir, "noise.mp3");
+      await fs.writeFile(
+        filePath,
+        Buffer.concat([
+          id3Header,
+          Buffer.from([0xff, 0xfb, 0x90, 0x00]),
+          Buffer.alloc(600, 0x11),
+        ]),
+      );
+
+      const metadata = await service.extract(filePath);
+
+      expect(metadata.duration).toBeUndefined();
+      expect(metadata.bitrate).toBeUndefined();
+    });
+
+    it("should parse WAV audio properties and INFO tags", async () => {
+      const fmt = Buffer.alloc(24);
+      fmt.write("fmt ", 0);
+      fmt.writeUInt32LE(16, 4);
+      fmt.writeUInt16LE(1, 8); // PCM
+      fmt.writeUInt16LE(2, 10);
+      fmt.writeUInt32LE(44100, 12);
+      fmt.writeUInt32LE(176400, 16);
+      fmt.writeUInt16LE(4, 20);
+      fmt.writeUInt16LE(16, 22);
+
+      const infoEntry = (id: string, value: string) => {
+        const text = Buffer.from(`${value}\0`);
+        const header = Buffer.alloc(8);
+        header.write(id, 0);
+        header.writeUInt32LE(text.length, 4);
+        return Buffer.concat([header, text, Buffer.alloc(text.length % 2)]);
+      };
+      const info = Buffer.concat([
+        Buffer.from("INFO"),
+        infoEntry("INAM", "Wave Title"),
+        infoEntry("IART", "Wave Artist"),
+      ]);
+      const list = Buffer.alloc(8);
+      list.write("LIST", 0);
+      list.writeUInt32LE(info.length, 4);
+
+      const samples = Buffer.alloc(176400 / 2);
+      const data = Buffer.alloc(8);
+      data.write("data", 0);
+      data.writeUInt32LE(samples.length, 4);
+
+      const body = Buffer.concat([fmt, list, info, data, samples]);
+      const riff = Buffer.alloc(12);
+      riff.write("RIFF", 0);
+      riff.writeUInt32LE(body.length + 4, 4);
+      riff.write("WAVE", 8);
+      const filePath = path.join(testDir, "track.wav");
+      await fs.writeFile(filePath, Buffer.concat([riff, body]));
+
+      const metadata = await service.extract(filePath);
+
+      expect(metadata.title).toBe("Wave Title");
+      expect(metadata.artist).toBe("Wave Artist");
+      expect(metadata.sampleRate).toBe(44100);
+      expect(metadata.bitrate).toBe(1411);
+      expect(metadata.duration).toBeCloseTo(0.5, 3);
+    });
+  });
 });
@@ -0,0 +1,284 @@
+/**
+ * File Organizer MCP Server - Audio Tag Writer Tests
+ * Tests for writing ID3v2.4, FLAC Vorbis comments and MP4 atoms, album
+ * edits and undoing edits through the rollback manifest
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import { AudioTagWriterService } from "../../../src/services/audio-tag-writer.service.js";
+import { AudioTagEditorService } from "../../../src/services/audio-tag-editor.service.js";
+import { AudioMetadataService } from "../../../src/services/audio-metadata.service.js";
+import { RollbackService } from "../../../src/services/rollback.service.js";
+
+/** ID3v2.3 text frame with ISO-8859-1 encoding */
+function id3Frame(id: string, text: string): Buffer {
+  const header = Buffer.alloc(10);
+  header.write(id, 0);
+  header.writeUInt32BE(text.length + 1, 4);
+  return Buffer.concat([header, Buffer.from([0x00]), Buffer.from(text)]);
+}
+
+/** MP3 with an ID3v2.3 tag followed by a few 128 kbps MPEG1 Layer III frames */
+function buildMP3(frames: Buffer[]): Buffer {
+  const tag = Buffer.concat(frames);
+  const header = Buffer.from([0x49, 0x44, 0x33, 0x03, 0, 0, 0, 0, 0, 0]);
+  header.writeUInt32BE(tag.length, 6);
+  const frame = Buffer.alloc(417, 0x55);
+  Buffer.from([0xff, 0xfb, 0x90, 0x00]).copy(frame);
+  return Buffer.concat([header, tag, frame, frame, frame]);
+}
+
+/** FLAC with STREAMINFO, Vorbis comments and fake audio frames */
+function buildFLAC(comments: string[]): Buffer {
+  const streamInfo = Buffer.alloc(34);
+  streamInfo.writeUInt32BE(((44100 << 12) | (1 << 9) | (15 << 4)) >>> 0, 10);
+  streamInfo.writeUInt32BE(44100 * 5, 14);
+
+  const vendor = Buffer.from("test");
+  const parts: Buffer[] = [Buffer.alloc(4), vendor, Buffer.alloc(4)];
+  parts[0]!.writeUInt32LE(vendor.length);
+  parts[2]!.writeUInt32LE(comments.length);
+  for (const comment of comments) {
+    const length = Buffer.alloc(4);
+    length.writeUInt32LE(Buffer.byteLength(comment));
+    parts.push(length, Buffer.from(comment));
+  }
+  const commentBlock = Buffer.concat(parts);
+
+  const blockHeader = (last: boolean, type: number, size: number) =>
+    Buffer.from([
+      (last ? 0x80 : 0) | type,
+      size >> 16,
+      (size >> 8) & 0xff,
+      size & 0xff,
+    ]);
+
+  return Buffer.concat([
+    Buffer.from("fLaC"),
+    blockHeader(false, 0, 34),
+    streamInfo,
+    blockHeader(true, 4, commentBlock.length),
+    commentBlock,
+    Buffer.from("FLAC AUDIO FRAMES"),
+  ]);
+}
+
+function atom(type: string, ...children: Buffer[]): Buffer {
+  const body = Buffer.concat(children);
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(8 + body.length);
+  header.write(type, 4, "latin1");
+  return Buffer.concat([header, body]);
+}
+
+const MEDIA = Buffer.from("AUDIO SAMPLES");
+
+/**
+ * Untagged M4A with moov before mdat; the single stco entry points at MEDIA
+ */
+function buildM4A(): Buffer {
+  const ftyp = atom("ftyp", Buffer.from("M4A \0\0\0\0M4A "));
+  const mvhd = Buffer.alloc(100);
+  mvhd.writeUInt32BE(1000, 12); // timescale
+  mvhd.writeUInt32BE(5000, 16); // duration
+  const stco = (offset: number) => {
+    const body = Buffer.alloc(12);
+    body.writeUInt32BE(1, 4);
+    body.writeUInt32BE(offset, 8);
+    return atom("stco", body);
+  };
+  const moov = (offset: number) =>
+    atom(
+      "moov",
+      atom("mvhd", mvhd),
+      atom("trak", atom("mdia", atom("minf", atom("stbl", stco(offset))))),
+    );
+  const mediaOffset = ftyp.length + moov(0).length + 8;
+  return Buffer.concat([ftyp, moov(mediaOffset), atom("mdat", MEDIA)]);
+}
+
+/** Resolve the single stco entry of an M4A file */
+function readMediaAt(buffer: Buffer): Buffer {
+  const index = buffer.indexOf("stco", 0, "latin1");
+  const offset = buffer.readUInt32BE(index + 12);
+  return buffer.subarray(offset, offset + MEDIA.length);
+}
+
+describe("AudioTagWriterService", () => {
+  let testDir: string;
+  const writer = new AudioTagWriterService();
+  const reader = new AudioMetadataService();
+
+  beforeEach(async () => {
+    const baseTempDir = path.join(process.cwd(), "tests", "temp");
+    await fs.mkdir(baseTempDir, { recursive: true });
+    testDir = await fs.mkdtemp(path.join(baseTempDir, "audio-tags-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  const writeFile = async (name: string, data: Buffer) => {
+    const filePath = path.join(testDir, name);
+    await fs.writeFile(filePath, data);
+    return filePath;
+  };
+
+  it("rewrites an ID3v2.3 tag as ID3v2.4, keeping other frames and the audio", async () => {
+    const original = buildMP3([
+      id3Frame("TIT2", "Old Title"),
+      id3Frame("TCOM", "Composer"),
+      id3Frame("TRCK", "3/12"),
+      id3Frame("TYER", "1999"),
+    ]);
+    const filePath = await writeFile("song.mp3", original);
+
+    await writer.writeTags(filePath, {
+      title: "Ünïcode Title",
+      artist: "Artist",
+      totalTracks: 10,
+    });
+
+    const data = await fs.readFile(filePath);
+    expect(data[3]).toBe(4);
+    expect(data.subarray(data.length - 417 * 3)).toEqual(
+      original.subarray(original.length - 417 * 3),
+    );
+    const metadata = await reader.extract(filePath);
+    expect(metadata).toMatchObject({
+      title: "Ünïcode Title",
+      artist: "Artist",
+      composer: "Composer",
+      trackNumber: 3,
+      totalTracks: 10,
+      year: 1999,
+    });
+  });
+
+  it("replaces Vorbis comments and keeps STREAMINFO and audio frames", async () => {
+    const original = buildFLAC([
+      "TITLE=Old",
+      "TRACKNUMBER=3/12",
+      "COMMENT=keep me",
+    ]);
+    const filePath = await writeFile("song.flac", original);
+
+    await writer.writeTags(filePath, { title: "New", totalTracks: 10 });
+
+    const data = await fs.readFile(filePath);
+    expect(data.subarray(8, 42)).toEqual(original.subarray(8, 42));
+    expect(data.subarray(-17).toString()).toBe("FLAC AUDIO FRAMES");
+    expect(data.includes("COMMENT=keep me")).toBe(true);
+    expect(data.includes("TRACKTOTAL=10")).toBe(true);
+    const metadata = await reader.extract(filePath);
+    expect(metadata).toMatchObject({
+      title: "New",
+      trackNumber: 3,
+      totalTracks: 10,
+      duration: 5,
+    });
+  });
+
+  it("creates iTunes tags in an M4A and shifts chunk offsets past the grown moov", async () => {
+    const original = buildM4A();
+    expect(readMediaAt(original)).toEqual(MEDIA);
+    const filePath = await writeFile("song.m4a", original);
+
+    await writer.writeTags(filePath, {
+      title: "Title",
+      artist: "Artist",
+      trackNumber: 2,
+      totalTracks: 9,
+      discNumber: 1,
+      totalDiscs: 2,
+    });
+
+    const data = await fs.readFile(filePath);
+    expect(data.length).toBeGreaterThan(original.length);
+    expect(readMediaAt(data)).toEqual(MEDIA);
+    const metadata = await reader.extract(filePath);
+    expect(metadata).toMatchObject({
+      title: "Title",
+      artist: "Artist",
+      trackNumber: 2,
+      totalTracks: 9,
+      discNumber: 1,
+      totalDiscs: 2,
+      duration: 5,
+    });
+  });
+
+  it("puts a saved tag block back byte-for-byte", async () => {
+    const original = buildM4A();
+    const filePath = await writeFile("song.m4a", original);
+    const block = await writer.readTagBlock(filePath);
+
+    await writer.writeTags(filePath, { album: "Album" });
+    await writer.restoreTagBlock(filePath, block);
+
+    expect(await fs.readFile(filePath)).toEqual(original);
+  });
+
+  describe("AudioTagEditorService", () => {
+    it("numbers an album, previews on a dry run and undoes the edit through the manifest", async () => {
+      const originals = new Map<string, Buffer>();
+      for (const name of ["10 - c.mp3", "2 - b.flac", "1 - a.mp3"]) {
+        const data = name.endsWith(".flac")
+          ? buildFLAC(["TITLE=b"])
+          : buildMP3([id3Frame("TIT2", name)]);
+        originals.set(await writeFile(name, data), data);
+      }
+      const editor = new AudioTagEditorService();
+      const requests = editor.planAlbumEdit(
+        [...originals.keys()],
+        { album: "Album", albumArtist: "Band" },
+        { numberTracks: true },
+      );
+
+      const preview = await editor.editTags(requests, { dryRun: true });
+      expect(preview.edited).toHaveLength(3);
+      expect(preview.manifestId).toBeUndefined();
+      for (const [filePath, data] of originals) {
+        expect(await fs.readFile(filePath)).toEqual(data);
+      }
+
+      const result = await editor.editTags(requests);
+      expect(result.failed).toEqual([]);
+      const tracks = await Promise.all(
+        [...originals.keys()].map((p) => reader.extract(p)),
+      );
+      expect(tracks.map((t) => t.trackNumber)).toEqual([3, 2, 1]);
+      expect(
+        tracks.every((t) => t.album === "Album" && t.totalTracks === 3),
+      ).toBe(true);
+
+      const rollback = await new RollbackService().rollback(result.manifestId!);
+      expect(rollback.success).toBe(3);
+      for (const [filePath, data] of originals) {
+        expect(await fs.readFile(filePath)).toEqual(data);
+      }
+    });
+
+    it("refuses to undo tags of a file changed after the edit", async () => {
+      const filePath = await writeFile(
+        "song.mp3",
+        buildMP3([id3Frame("TIT2", "Old")]),
+      );
+      const editor = new AudioTagEditorService();
+      const result = await editor.editTags([
+        { path: filePath, tags: { title: "New" } },
+      ]);
+      await fs.appendFile(filePath, Buffer.alloc(10));
+
+      const rollback = await new RollbackService().rollback(result.manifestId!);
+
+      expect(rollback.success).toBe(0);
+      expect(rollback.conflicts[0]?.reason).toBe(
+        "File was modified after its tags were edited",
+      );
+    });
+  });
+});
@@ -478,4 +478,136 @@ describe('AutoOrganizeService', () => {
       service.stop();
     });
   });
+
+  describe('Event trigger', () => {
+    let eventDir: string;
+
+    beforeEach(async () => {
+      eventDir = await fs.mkdtemp(path.join(os.tmpdir(), 'auto-org-events-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(eventDir, { recursive: true, force: true });
+    });
+
+    it('should start a file watcher without a cron task for trigger "events"', async () => {
+      const { AutoOrganizeService } =
+        await import('../../../src/services/auto-organize.service.js');
+      const { FileScannerService } = await import('../../../src/services/file-scanner.service.js');
+      const { OrganizerService } = await import('../../../src/services/organizer.service.js');
+
+      const organizer = new OrganizerService();
+      const organizeSpy = jest.spyOn(organizer, 'organize').mockResolvedValue({
+        statistics: { Documents: 1 },
+        actions: [],
+        errors: [],
+        skippedFiles: [],
+        errorCount: 0,
+        successCount: 1,
+        aborted: false,
+      });
+      const watches: WatchConfig[] = [
+        {
+          directory: eventDir,
+          trigger: 'events',
+          rules: { auto_organize: true, debounce_ms: 100 },
+        },
+      ];
+      const service = new AutoOrganizeService(
+        new FileScannerService(),
+        organizer,
+        () => ({ watchList: watches })
+      );
+
+      const result = service.reloadTasks();
+      expect(result.errors).toEqual([]);
+      expect(result.taskCount).toBe(1);
+      expect(service.isActive()).toBe(true);
+      expect(service.getEventWatchStatus(eventDir)?.attached).toBe(true);
+
+      await fs.writeFile(path.join(eventDir, 'new.txt'), 'hello');
+
+      const deadline = Date.now() + 8000;
+      while (organizeSpy.mock.calls.length === 0 && Date.now() < deadline) {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+      }
+
+      expect(organizeSpy).toHaveBeenCalledTimes(1);
+      const [dir, files] = organizeSpy.mock.calls[0]!;
+      expect(dir).toBe(eventDir);
+      expect(files.map((f) => f.name)).toEqual(['new.txt']);
+      expect(service.getEventWatchStatus(eventDir)?.lastProcessed?.files).toBe(1);
+
+      service.stop();
+      expect(service.getEventWatchStatus(eventDir)).toBeUndefined();
+    }, 15000);
+
+    it('should organize at most max_files_per_run files per event run', async () => {
+      const { AutoOrganizeService } =
+        await import('../../../src/services/auto-organize.service.js');
+      const { FileScannerService } = await import('../../../src/services/file-scanner.service.js');
+      const { OrganizerService } = await import('../../../src/services/organizer.service.js');
+
+      const organizer = new OrganizerService();
+      const organizeSpy = jest.spyOn(organizer, 'organize').mockResolvedValue({
+        statistics: {},
+        actions: [],
+        errors: [],
+        skippedFiles: [],
+        errorCount: 0,
+        successCount: 0,
+        aborted: false,
+      });
+      const watches: WatchConfig[] = [
+        {
+          directory: eventDir,
+          trigger: 'events',
+          rules: { auto_organize: true, debounce_ms: 100, max_files_per_run: 2 },
+        },
+      ];
+      const service = new AutoOrganizeService(
+        new FileScannerService(),
+        organizer,
+        () => ({ watchList: watches })
+      );
+      service.reloadTasks();
+
+      for (const name of ['a.txt', 'b.txt', 'c.txt', '.hidden']) {
+        await fs.writeFile(path.join(eventDir, name), name);
+      }
+
+      const organized = () => organizeSpy.mock.calls.flatMap(([, files]) => files!);
+      const deadline = Date.now() + 10000;
+      while (organized().length < 3 && Date.now() < deadline) {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+      }
+
+      expect(organizeSpy.mock.calls.map(([, files]) => files!.length)).toEqual([2, 1]);
+      expect(organized().map((f) => f.name).sort()).toEqual(['a.txt', 'b.txt', 'c.txt']);
+
+      service.stop();
+    }, 15000);
+
+    it('should report a missing schedule for trigger "both"', async () => {
+      const { AutoOrganizeService } =
+        await import('../../../src/services/auto-organize.service.js');
+      const { FileScannerService } = await import('../../../src/services/file-scanner.service.js');
+      const { OrganizerService } = await import('../../../src/services/organizer.service.js');
+
+      const watches: WatchConfig[] = [
+        { directory: eventDir, trigger: 'both', rules: { auto_organize: true } },
+      ];
+      const service = new AutoOrganizeService(
+        new FileScannerService(),
+        new OrganizerService(),
+        () => ({ watchList: watches })
+      );
+
+      const result = service.reloadTasks();
+      expect(result.errors[0]).toContain('Missing cron schedule');
+      // The file watcher still runs for the events half of the trigger
+      expect(service.getEventWatchStatus(eventDir)).toBeDefined();
+      service.stop();
+    });
+  });
 });
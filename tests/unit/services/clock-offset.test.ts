@@ -0,0 +1,259 @@
+/**
+ * File Organizer MCP Server - Clock Offset Tests
+ * Tests for camera clock offsets from GPS timestamps and reference photos,
+ * EXIF date rewriting and undoing it through the rollback manifest
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import { ClockOffsetService } from "../../../src/services/clock-offset.service.js";
+import { ImageMetadataService } from "../../../src/services/image-metadata.service.js";
+import { RollbackService } from "../../../src/services/rollback.service.js";
+
+interface IFDEntry {
+  tag: number;
+  type: number;
+  count: number;
+  data: Buffer;
+}
+
+const ascii = (tag: number, text: string): IFDEntry => ({
+  tag,
+  type: 2,
+  count: text.length + 1,
+  data: Buffer.from(`${text}\0`, "latin1"),
+});
+
+const long = (tag: number, value: number): IFDEntry => {
+  const data = Buffer.alloc(4);
+  data.writeUInt32LE(value);
+  return { tag, type: 4, count: 1, data };
+};
+
+const rationals = (tag: number, values: number[]): IFDEntry => {
+  const data = Buffer.alloc(values.length * 8);
+  values.forEach((value, i) => {
+    data.writeUInt32LE(value, i * 8);
+    data.writeUInt32LE(1, i * 8 + 4);
+  });
+  return { tag, type: 5, count: values.length, data };
+};
+
+const ifdSize = (entries: IFDEntry[]) =>
+  2 +
+  entries.length * 12 +
+  4 +
+  entries.reduce((sum, e) => sum + (e.data.length > 4 ? e.data.length : 0), 0);
+
+/** IFD at offset, with values over four bytes stored right after it */
+function encodeIFD(entries: IFDEntry[], offset: number): Buffer {
+  const table = Buffer.alloc(2 + entries.length * 12 + 4);
+  table.writeUInt16LE(entries.length);
+  const external: Buffer[] = [];
+  let dataOffset = offset + table.length;
+  entries.forEach((entry, i) => {
+    const pos = 2 + i * 12;
+    table.writeUInt16LE(entry.tag, pos);
+    table.writeUInt16LE(entry.type, pos + 2);
+    table.writeUInt32LE(entry.count, pos + 4);
+    if (entry.data.length <= 4) {
+      entry.data.copy(table, pos + 8);
+    } else {
+      table.writeUInt32LE(dataOffset, pos + 8);
+      external.push(entry.data);
+      dataOffset += entry.data.length;
+    }
+  });
+  return Buffer.concat([table, ...external]);
+}
+
+/**
+ * Little-endian TIFF with camera, DateTimeOriginal and, optionally, a GPS
+ * fix taken at gpsTime (UTC)
+ */
+function buildTIFF(
+  model: string,
+  dateTaken: string,
+  gpsTime?: { date: string; time: [number, number, number] },
+): Buffer {
+  const exif = [ascii(0x9003, dateTaken)];
+  const gps = gpsTime
+    ? [
+        ascii(0x0001, "N"),
+        rationals(0x0002, [38, 43, 0]),
+        ascii(0x0003, "W"),
+        rationals(0x0004, [9, 8, 0]),
+        rationals(0x0007, gpsTime.time),
+        ascii(0x001d, gpsTime.date),
+      ]
+    : [];
+  const ifd0 = (exifOffset: number, gpsOffset: number) => [
+    ascii(0x010f, "Canon"),
+    ascii(0x0110, model),
+    ascii(0x0132, dateTaken),
+    long(0x8769, exifOffset),
+    ...(gps.length > 0 ? [long(0x8825, gpsOffset)] : []),
+  ];
+
+  const exifOffset = 8 + ifdSize(ifd0(0, 0));
+  const gpsOffset = exifOffset + ifdSize(exif);
+  return Buffer.concat([
+    Buffer.from([0x49, 0x49, 0x2a, 0x00, 0x08, 0x00, 0x00, 0x00]),
+    encodeIFD(ifd0(exifOffset, gpsOffset), 8),
+    encodeIFD(exif, exifOffset),
+    ...(gps.length > 0 ? [encodeIFD(gps, gpsOffset)] : []),
+  ]);
+}
+
+describe("ClockOffsetService", () => {
+  let testDir: string;
+  const service = new ClockOffsetService();
+
+  beforeEach(async () => {
+    const baseTempDir = path.join(process.cwd(), "tests", "temp");
+    await fs.mkdir(baseTempDir, { recursive: true });
+    testDir = await fs.mkdtemp(path.join(baseTempDir, "clock-offset-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  const writeFile = async (name: string, data: Buffer) => {
+    const filePath = path.join(testDir, name);
+    await fs.writeFile(filePath, data);
+    return filePath;
+  };
+
+  it("takes the per-camera median of GPS time, read in the shooting time zone, minus camera time", () => {
+    // Lisbon is UTC+1 in July; the R5 clock runs 2h 30m slow
+    const offsets = service.fromGPS(
+      [
+        {
+          camera: "Canon EOS R5",
+          dateTaken: new Date(2024, 6, 1, 10, 0, 0),
+          gpsTimestamp: new Date(Date.UTC(2024, 6, 1, 11, 30, 0)),
+        },
+        {
+          camera: "Canon EOS R5",
+          dateTaken: new Date(2024, 6, 1, 11, 0, 0),
+          gpsTimestamp: new Date(Date.UTC(2024, 6, 1, 12, 30, 0)),
+        },
+        {
+          // A stale fix from the last time the camera saw the sky
+          camera: "Canon EOS R5",
+          dateTaken: new Date(2024, 6, 1, 12, 0, 0),
+          gpsTimestamp: new Date(Date.UTC(2024, 6, 1, 2, 0, 0)),
+        },
+        {
+          camera: "Sony A7",
+          dateTaken: new Date(2024, 6, 1, 12, 30, 10),
+          gpsTimestamp: new Date(Date.UTC(2024, 6, 1, 11, 30, 0)),
+        },
+        { camera: "Sony A7", dateTaken: new Date(2024, 6, 1, 13, 0, 0) },
+      ],
+      "Europe/Lisbon",
+    );
+
+    expect(offsets).toEqual([
+      {
+        camera: "Canon EOS R5",
+        offsetSeconds: 9000,
+        source: "gps",
+        samples: 3,
+      },
+      { camera: "Sony A7", offsetSeconds: -10, source: "gps", samples: 1 },
+    ]);
+  });
+
+  it("corrects dates from a reference photo and measures GPS offsets from the files", async () => {
+    const reference = await writeFile(
+      "ref.tif",
+      buildTIFF("EOS R5", "2024:05:01 23:10:00"),
+    );
+    await writeFile("later.tif", buildTIFF("EOS R5", "2024:05:01 23:40:00"));
+    const gpsTagged = await writeFile(
+      "gps.tif",
+      buildTIFF("EOS 90D", "2024:05:01 09:00:00", {
+        date: "2024:05:01",
+        time: [10, 0, 0],
+      }),
+    );
+    const before = await fs.readFile(gpsTagged);
+
+    const result = await service.correct(testDir, {
+      reference: {
+        path: reference,
+        actualTime: new Date(2024, 4, 2, 0, 10, 0),
+      },
+      timeZone: "UTC",
+      dryRun: true,
+    });
+
+    expect(result.offsets).toEqual(
+      expect.arrayContaining([
+        {
+          camera: "Canon EOS R5",
+          offsetSeconds: 3600,
+          source: "reference",
+          samples: 1,
+        },
+        {
+          camera: "Canon EOS 90D",
+          offsetSeconds: 3600,
+          source: "gps",
+          samples: 1,
+        },
+      ]),
+    );
+    expect(
+      Object.fromEntries(
+        result.corrected.map((c) => [path.basename(c.path), c.to]),
+      ),
+    ).toEqual({
+      "ref.tif": "2024-05-02 00:10:00",
+      "later.tif": "2024-05-02 00:40:00",
+      "gps.tif": "2024-05-01 10:00:00",
+    });
+    expect(result.manifestId).toBeUndefined();
+    expect(await fs.readFile(gpsTagged)).toEqual(before);
+  });
+
+  it("rewrites EXIF dates and undoes the rewrite through the manifest", async () => {
+    const original = buildTIFF("EOS R5", "2024:12:31 23:30:00");
+    const filePath = await writeFile("night.tif", original);
+
+    const result = await service.correct(testDir, {
+      reference: { path: filePath, actualTime: new Date(2025, 0, 1, 1, 0, 0) },
+      writeExif: true,
+      dryRun: false,
+    });
+
+    expect(result.corrected[0]).toMatchObject({
+      from: "2024-12-31 23:30:00",
+      to: "2025-01-01 01:00:00",
+      rewritten: true,
+    });
+    const rewritten = await new ImageMetadataService().extract(filePath);
+    expect(rewritten.dateTaken).toEqual(new Date(2025, 0, 1, 1, 0, 0));
+    expect((await fs.readFile(filePath)).length).toBe(original.length);
+
+    const rollback = await new RollbackService().rollback(result.manifestId!);
+    expect(rollback.success).toBe(1);
+    expect(await fs.readFile(filePath)).toEqual(original);
+  });
+
+  it("rejects a reference photo without a capture date and unknown time zones", async () => {
+    const filePath = await writeFile("blank.tif", Buffer.alloc(64));
+
+    await expect(
+      service.correct(testDir, {
+        reference: { path: filePath, actualTime: new Date() },
+      }),
+    ).rejects.toThrow("Reference photo has no camera model or capture date");
+    await expect(
+      service.correct(testDir, { timeZone: "Mars/Olympus_Mons" }),
+    ).rejects.toThrow("Unknown time zone: Mars/Olympus_Mons");
+  });
+});
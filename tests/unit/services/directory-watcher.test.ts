@@ -0,0 +1,171 @@
+/**
+ * File Organizer MCP Server - Directory Watcher Tests
+ * Tests for event-driven watching: debounce, stability checks, directory renames
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { DirectoryWatcher } from '../../../src/services/directory-watcher.service.js';
+import type { FileWithSize } from '../../../src/types.js';
+
+const FAST = { debounceMs: 50, stabilityMs: 100, reattachMs: 100 };
+
+async function waitFor(condition: () => boolean, timeoutMs = 5000): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 25));
+  }
+}
+
+describe('DirectoryWatcher', () => {
+  let root: string;
+  let testDir: string;
+  let watcher: DirectoryWatcher | undefined;
+  let batches: FileWithSize[][];
+
+  const collect = async (files: FileWithSize[]): Promise<boolean> => {
+    batches.push(files);
+    return true;
+  };
+  const handed = (): string[] => batches.flat().map((f) => f.name);
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'test-watcher-'));
+    testDir = path.join(root, 'inbox');
+    await fs.mkdir(testDir);
+    batches = [];
+  });
+
+  afterEach(async () => {
+    watcher?.stop();
+    watcher = undefined;
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should coalesce a burst of events into one batch', async () => {
+    watcher = new DirectoryWatcher(testDir, collect, FAST);
+    watcher.start();
+
+    await Promise.all(
+      ['a.txt', 'b.txt', 'c.txt'].map((name) =>
+        fs.writeFile(path.join(testDir, name), name)
+      )
+    );
+
+    await waitFor(() => handed().length === 3);
+    expect(batches).toHaveLength(1);
+    expect(handed().sort()).toEqual(['a.txt', 'b.txt', 'c.txt']);
+    expect(watcher.getStatus().queueDepth).toBe(0);
+    expect(watcher.getStatus().lastProcessed?.files).toBe(3);
+  });
+
+  it('should wait until a file stops growing', async () => {
+    watcher = new DirectoryWatcher(testDir, collect, {
+      ...FAST,
+      stabilityMs: 300,
+    });
+    watcher.start();
+
+    const file = path.join(testDir, 'download.bin');
+    await fs.writeFile(file, 'x');
+    for (let i = 0; i < 4; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      await fs.appendFile(file, 'more data');
+    }
+    expect(handed()).toEqual([]);
+    expect(watcher.getStatus().queueDepth).toBe(1);
+
+    await waitFor(() => handed().length === 1);
+    expect(batches[0]?.[0]?.size).toBe(1 + 4 * 'more data'.length);
+  });
+
+  it('should keep files queued while the handler is busy', async () => {
+    let busy = true;
+    watcher = new DirectoryWatcher(
+      testDir,
+      async (files) => {
+        if (busy) return false;
+        batches.push(files);
+        return true;
+      },
+      FAST
+    );
+    watcher.start();
+
+    await fs.writeFile(path.join(testDir, 'queued.txt'), 'q');
+    await waitFor(() => watcher!.getStatus().lastEvent !== undefined);
+    await new Promise((resolve) => setTimeout(resolve, 400));
+    expect(watcher.getStatus().queueDepth).toBe(1);
+
+    busy = false;
+    await waitFor(() => handed().includes('queued.txt'));
+  });
+
+  it('should re-attach after the watched directory is renamed away and back', async () => {
+    watcher = new DirectoryWatcher(testDir, collect, FAST);
+    watcher.start();
+
+    const moved = path.join(root, 'moved');
+    await fs.rename(testDir, moved);
+    // Trigger an event so the watcher notices the directory identity changed
+    await fs.writeFile(path.join(moved, 'while-away.txt'), 'w');
+    await waitFor(() => !watcher!.getStatus().attached);
+
+    await fs.rename(moved, testDir);
+    await waitFor(() => watcher!.getStatus().attached);
+
+    await fs.writeFile(path.join(testDir, 'after.txt'), 'a');
+    await waitFor(() => handed().includes('after.txt'));
+    // Files that arrived while detached are picked up by the rescan
+    expect(handed()).toContain('while-away.txt');
+  });
+
+  it('should ignore hidden files', async () => {
+    watcher = new DirectoryWatcher(testDir, collect, FAST);
+    watcher.start();
+
+    await fs.writeFile(path.join(testDir, '.DS_Store'), 'x');
+    await fs.writeFile(path.join(testDir, '.report.pdf.part'), 'x');
+    await fs.writeFile(path.join(testDir, 'report.pdf'), 'x');
+
+    await waitFor(() => handed().length === 1);
+    await new Promise((resolve) => setTimeout(resolve, 400));
+    expect(handed()).toEqual(['report.pdf']);
+    expect(watcher.getStatus().queueDepth).toBe(0);
+  });
+
+  it('should hand off at most maxBatchFiles files at a time', async () => {
+    watcher = new DirectoryWatcher(testDir, collect, {
+      ...FAST,
+      maxBatchFiles: 2,
+    });
+    watcher.start();
+
+    await Promise.all(
+      ['a.txt', 'b.txt', 'c.txt'].map((name) =>
+        fs.writeFile(path.join(testDir, name), name)
+      )
+    );
+
+    await waitFor(() => handed().length === 3);
+    expect(batches.map((batch) => batch.length)).toEqual([2, 1]);
+  });
+
+  it('should pick up existing files on rescan', async () => {
+    await fs.writeFile(path.join(testDir, 'existing.txt'), 'e');
+    await fs.writeFile(path.join(testDir, '.hidden'), 'h');
+    await fs.mkdir(path.join(testDir, 'Documents'));
+
+    watcher = new DirectoryWatcher(testDir, collect, FAST);
+    watcher.start();
+    watcher.rescan();
+
+    await waitFor(() => handed().length === 1);
+    expect(handed()).toEqual(['existing.txt']);
+  });
+});
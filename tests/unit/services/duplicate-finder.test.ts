@@ -2,6 +2,7 @@ import fs from "fs/promises";
 import path from "path";
 import os from "os";
 import { DuplicateFinderService } from "../../../src/services/duplicate-finder.service.js";
+import { RollbackService } from "../../../src/services/rollback.service.js";
 import { FileWithSize } from "../../../src/types.js";
 import { jest } from "@jest/globals";
 import {
@@ -350,4 +351,110 @@ describe("DuplicateFinderService", () => {
       expect(result.deleted.length).toBe(0);
     });
   });
+
+  describe("linkDuplicates", () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("replaces verified duplicates with hardlinks and undo restores independent copies", async () => {
+      const keep = await createFile("keep.txt", "shared content");
+      const copy = await createFile("sub/copy.txt", "shared content");
+
+      const result = await duplicateFinder.linkDuplicates([
+        { keep: keep.path, duplicates: [copy.path] },
+      ]);
+
+      expect(result.linked).toEqual([
+        {
+          path: copy.path,
+          target: keep.path,
+          linkType: "hardlink",
+          bytesSaved: copy.size,
+        },
+      ]);
+      const [keepStats, copyStats] = await Promise.all([
+        fs.stat(keep.path),
+        fs.stat(copy.path),
+      ]);
+      expect(copyStats.ino).toBe(keepStats.ino);
+      expect(await fs.readdir(path.join(testDir, "sub"))).toEqual(["copy.txt"]);
+
+      const rollback = await new RollbackService().rollback(
+        result.manifestPath!,
+      );
+
+      expect(rollback.success).toBe(1);
+      expect((await fs.stat(copy.path)).ino).not.toBe(keepStats.ino);
+      await fs.writeFile(copy.path, "edited");
+      expect(await fs.readFile(keep.path, "utf-8")).toBe("shared content");
+    });
+
+    it("refuses to link files whose content differs and changes nothing on a dry run", async () => {
+      const keep = await createFile("keep.txt", "content A");
+      const different = await createFile("different.txt", "content B");
+      const same = await createFile("same.txt", "content A");
+
+      const result = await duplicateFinder.linkDuplicates(
+        [{ keep: keep.path, duplicates: [different.path, same.path] }],
+        { dryRun: true },
+      );
+
+      expect(result.failed).toEqual([
+        { path: different.path, error: "Content differs from the kept file" },
+      ]);
+      expect(result.linked.map((l) => l.path)).toEqual([same.path]);
+      expect(result.manifestPath).toBeUndefined();
+      expect((await fs.stat(same.path)).nlink).toBe(1);
+    });
+
+    it("reports duplicates on another filesystem as not linkable", async () => {
+      const keep = await createFile("keep.txt", "shared content");
+      const copy = await createFile("copy.txt", "shared content");
+      const realLstat = fs.lstat;
+      jest.spyOn(fs, "lstat").mockImplementation((async (p: string) => {
+        const stats = await realLstat(p);
+        if (p === copy.path) stats.dev += 1;
+        return stats;
+      }) as typeof fs.lstat);
+
+      const result = await duplicateFinder.linkDuplicates([
+        { keep: keep.path, duplicates: [copy.path] },
+      ]);
+
+      expect(result.linked).toHaveLength(0);
+      expect(result.notLinkable).toEqual([
+        {
+          path: copy.path,
+          target: keep.path,
+          reason: "Different filesystem than the kept file",
+        },
+      ]);
+    });
+
+    it("falls back to a symlink when the filesystem refuses hardlinks", async () => {
+      const keep = await createFile("keep.txt", "shared content");
+      const copy = await createFile("copy.txt", "shared content");
+      jest.spyOn(fs, "link").mockRejectedValue(
+        Object.assign(new Error("Operation not permitted"), {
+          code: "EPERM",
+        }),
+      );
+
+      const result = await duplicateFinder.linkDuplicates([
+        { keep: keep.path, duplicates: [copy.path] },
+      ]);
+
+      expect(result.linked[0]!.linkType).toBe("symlink");
+      expect(await fs.readlink(copy.path)).toBe(keep.path);
+
+      jest.restoreAllMocks();
+      const rollback = await new RollbackService().rollback(
+        result.manifestPath!,
+      );
+      expect(rollback.success).toBe(1);
+      expect((await fs.lstat(copy.path)).isSymbolicLink()).toBe(false);
+      expect(await fs.readFile(copy.path, "utf-8")).toBe("shared content");
+    });
+  });
 });
@@ -4,7 +4,8 @@ import { createWriteStream } from 'fs';
 import path from 'path';
 import os from 'os';
 import crypto from 'crypto';
-import { HashCalculatorService } from '../../../src/services/hash-calculator.service.js';
+import { HashCalculatorService, PARTIAL_HASH_BYTES } from '../../../src/services/hash-calculator.service.js';
+import { MetadataCacheService } from '../../../src/services/metadata-cache.service.js';
 
 describe('HashCalculatorService', () => {
     let hashService: HashCalculatorService;
@@ -65,4 +66,85 @@ describe('HashCalculatorService', () => {
         expect(duplicates[0].files.map(f => f.name)).toContain('file1.txt');
         expect(duplicates[0].files.map(f => f.name)).toContain('file2.txt');
     });
+
+    describe('staged duplicate pipeline', () => {
+        let cache: MetadataCacheService;
+
+        beforeEach(() => {
+            cache = new MetadataCacheService({ cacheDir: path.join(testDir, '.cache') });
+            hashService = new HashCalculatorService(100 * 1024 * 1024, cache);
+        });
+
+        const writeFile = async (name: string, content: Buffer | string) => {
+            const filePath = path.join(testDir, name);
+            await fs.writeFile(filePath, content);
+            const stats = await fs.stat(filePath);
+            return { name, path: filePath, size: stats.size, modified: stats.mtime };
+        };
+
+        it('only hashes files that share a size', async () => {
+            const a = await writeFile('a.txt', 'same');
+            const b = await writeFile('b.txt', 'same');
+            const unique = await writeFile('unique.txt', 'unique size');
+
+            const duplicates = await hashService.findDuplicates([a, b, unique]);
+
+            expect(duplicates).toHaveLength(1);
+            const stats = await fs.stat(unique.path);
+            expect(await cache.getContentHash('sha256-partial', unique.path, stats.size, stats.mtimeMs)).toBeNull();
+            const aStats = await fs.stat(a.path);
+            expect(await cache.getContentHash('sha256-partial', a.path, aStats.size, aStats.mtimeMs)).toBe(
+                crypto.createHash('sha256').update('same').digest('hex'),
+            );
+        });
+
+        it('tells apart large files that only differ in the middle', async () => {
+            const base = Buffer.alloc(PARTIAL_HASH_BYTES * 3, 0x61);
+            const changed = Buffer.from(base);
+            changed[PARTIAL_HASH_BYTES + 10] = 0x62;
+
+            const files = [
+                await writeFile('one.bin', base),
+                await writeFile('two.bin', base),
+                await writeFile('three.bin', changed),
+            ];
+
+            const duplicates = await hashService.findDuplicates(files);
+
+            expect(duplicates).toHaveLength(1);
+            expect(duplicates[0].files.map((f) => f.name)).toEqual(['one.bin', 'two.bin']);
+            expect(duplicates[0].hash).toBe(crypto.createHash('sha256').update(base).digest('hex'));
+        });
+
+        it('compares files above the size cap instead of skipping them', async () => {
+            const capped = new HashCalculatorService(100, cache);
+            const content = 'x'.repeat(500);
+            const files = [await writeFile('big1.txt', content), await writeFile('big2.txt', content)];
+
+            const duplicates = await capped.findDuplicates(files);
+
+            expect(duplicates).toHaveLength(1);
+            expect(duplicates[0].count).toBe(2);
+        });
+
+        it('reuses cached hashes while path, size and mtime are unchanged', async () => {
+            const a = await writeFile('a.txt', 'aaaa');
+            const b = await writeFile('b.txt', 'aaaa');
+            const mtime = new Date('2024-01-01T00:00:00Z');
+            await fs.utimes(b.path, mtime, mtime);
+            await hashService.findDuplicates([a, b]);
+
+            // Rewrite b with same-size content and put its mtime back
+            await fs.writeFile(b.path, 'bbbb');
+            await fs.utimes(b.path, mtime, mtime);
+
+            const rescan = new HashCalculatorService(100 * 1024 * 1024, new MetadataCacheService({ cacheDir: path.join(testDir, '.cache') }));
+            expect(await rescan.findDuplicates([a, b])).toHaveLength(1);
+            expect(await rescan.findDuplicates([a, b], { useCache: false })).toHaveLength(0);
+
+            // A new mtime invalidates the cached hash
+            await fs.utimes(b.path, new Date(), new Date());
+            expect(await rescan.findDuplicates([a, b])).toHaveLength(0);
+        });
+    });
 });
@@ -79,8 +79,6 @@ describe("ImageMetadataService", () => {
 
   function createEXIFData(options: any): Buffer {
     // TIFF header (little endian)
-    // NOTE: The service has a bug where it uses tiffHeaderOffset as the IFD offset
-    // instead of reading it from the TIFF header. So IFD0 ends up at byte 24 (12+12).
     // Structure: Exif identifier (6) + TIFF header (8) + padding (4) + IFD0
     const tiffHeader = Buffer.from([
       0x45,
@@ -96,14 +94,13 @@ describe("ImageMetadataService", () => {
       0x0c,
       0x00,
       0x00,
-      0x00, // IFD offset = 12 (to match service's expectation)
+      0x00, // IFD offset = 12
     ]);
 
-    // Padding to align IFD0 where the service expects it (byte 24 from JPEG start = byte 12 from TIFF start)
+    // Padding between the TIFF header and IFD0
     const padding = Buffer.alloc(4, 0);
 
     // IFD0 starts at offset 12 from TIFF header start (byte 24 from JPEG start)
-    // This matches what the service calculates: tiffHeaderOffset + tiffHeaderOffset = 12 + 12 = 24
     const ifd0Offset = 12;
 
     // First pass: determine all entries and calculate IFD0 size
@@ -168,20 +165,11 @@ describe("ImageMetadataService", () => {
     const externalData: Buffer[] = [];
     let gpsIFDOffset = 0;
 
-    // NOTE: Service has bug where it reads offsets as absolute buffer positions
-    // So we need to add TIFF header offset (12) to all external data offsets
-    const tiffHeaderOffset = 12;
-
     for (const info of entryInfos) {
       if (info.data) {
-        // External data (strings) - store offset to data (add tiffHeaderOffset for service bug)
+        // External data (strings) - store offset to data
         entries.push(
-          createIFDEntry(
-            info.tag,
-            info.type,
-            info.count,
-            externalDataOffset + tiffHeaderOffset,
-          ),
+          createIFDEntry(info.tag, info.type, info.count, externalDataOffset),
         );
         externalData.push(info.data);
         externalDataOffset += info.data.length;
@@ -241,35 +229,26 @@ describe("ImageMetadataService", () => {
     const gpsIFDSize = 2 + 4 * 12 + 4;
     const dataOffset = ifdOffset + gpsIFDSize;
 
-    // NOTE: The service has a bug where it doesn't add tiffHeaderOffset when reading
-    // data at offsets. It treats entry.valueOffset as absolute buffer offset.
-    // So we need to add 12 (TIFF header offset) to make it work.
-    const tiffHeaderOffset = 12;
-
     // GPS entries (4 entries: LatRef, Lat, LngRef, Lng)
     const gpsEntries: Buffer[] = [];
 
     // GPSLatitudeRef (0x0001) - ASCII, 2 bytes (including null)
-    // NOTE: Service reads value as big-endian, so we need to shift char code to high byte
-    const latRefValue = latRef.charCodeAt(0) << 24; // 'N' or 'S' in highest byte
+    // Inline ASCII is stored in file order: first byte of the value field
+    const latRefValue = latRef.charCodeAt(0); // 'N' or 'S' in the lowest (first LE) byte
     gpsEntries.push(createIFDEntry(0x0001, 2, 2, latRefValue));
 
     // GPSLatitude (0x0002) - RATIONAL, 3 values = 24 bytes
-    // Value is offset to rational array (add tiffHeaderOffset for service bug)
-    gpsEntries.push(
-      createIFDEntry(0x0002, 5, 3, dataOffset + tiffHeaderOffset),
-    );
+    // Value is offset to rational array
+    gpsEntries.push(createIFDEntry(0x0002, 5, 3, dataOffset));
 
     // GPSLongitudeRef (0x0003) - ASCII, 2 bytes (including null)
-    // NOTE: Service reads value as big-endian, so we need to shift char code to high byte
-    const lngRefValue = lngRef.charCodeAt(0) << 24; // 'E' or 'W' in highest byte
+    // Inline ASCII is stored in file order: first byte of the value field
+    const lngRefValue = lngRef.charCodeAt(0); // 'E' or 'W' in the lowest (first LE) byte
     gpsEntries.push(createIFDEntry(0x0003, 2, 2, lngRefValue));
 
     // GPSLongitude (0x0004) - RATIONAL, 3 values = 24 bytes
-    // Value is offset to rational array (after latitude rationals, add tiffHeaderOffset)
-    gpsEntries.push(
-      createIFDEntry(0x0004, 5, 3, dataOffset + 24 + tiffHeaderOffset),
-    );
+    // Value is offset to rational array (after latitude rationals)
+    gpsEntries.push(createIFDEntry(0x0004, 5, 3, dataOffset + 24));
 
     // GPS IFD count
     const gpsCount = Buffer.alloc(2);
@@ -737,6 +716,213 @@ describe("ImageMetadataService", () => {
     });
   });
 
+  // ==================== CAMERA FORMATS ====================
+
+  describe("HEIC, WebP and RAW formats", () => {
+    // TIFF structure with offsets relative to its own start, as found in
+    // RAW files, WebP EXIF chunks and HEIF Exif items
+    function createTIFF(
+      make: string,
+      model: string,
+      dateTaken: string,
+      extra: { subSec?: string; exposureBias?: [number, number] } = {},
+    ) {
+      const strings = [make, model, dateTaken].map((v) =>
+        Buffer.from(v + "\0"),
+      );
+      const exifCount =
+        1 + (extra.subSec ? 1 : 0) + (extra.exposureBias ? 1 : 0);
+      const ifd0Offset = 8;
+      const exifIFDOffset = ifd0Offset + 2 + 3 * 12 + 4;
+      let dataOffset = exifIFDOffset + 2 + exifCount * 12 + 4;
+      const [makeOffset, modelOffset, dateOffset] = strings.map((str) => {
+        const offset = dataOffset;
+        dataOffset += str.length;
+        return offset;
+      });
+
+      const exifEntries = [
+        createIFDEntry(0x9003, 2, strings[2]!.length, dateOffset!),
+      ];
+      if (extra.subSec) {
+        // Up to 3 digits fit in the entry itself
+        const inline = Buffer.alloc(4);
+        inline.write(extra.subSec);
+        exifEntries.push(
+          createIFDEntry(
+            0x9291,
+            2,
+            extra.subSec.length + 1,
+            inline.readUInt32LE(),
+          ),
+        );
+      }
+      const rational = Buffer.alloc(extra.exposureBias ? 8 : 0);
+      if (extra.exposureBias) {
+        rational.writeInt32LE(extra.exposureBias[0], 0);
+        rational.writeInt32LE(extra.exposureBias[1], 4);
+        exifEntries.push(createIFDEntry(0x9204, 10, 1, dataOffset));
+      }
+
+      return Buffer.concat([
+        Buffer.from([0x49, 0x49, 0x2a, 0x00, ifd0Offset, 0x00, 0x00, 0x00]),
+        Buffer.from([0x03, 0x00]),
+        createIFDEntry(0x010f, 2, strings[0]!.length, makeOffset!),
+        createIFDEntry(0x0110, 2, strings[1]!.length, modelOffset!),
+        createIFDEntry(0x8769, 4, 1, exifIFDOffset),
+        Buffer.alloc(4),
+        Buffer.from([exifCount, 0x00]),
+        ...exifEntries,
+        Buffer.alloc(4),
+        ...strings,
+        rational,
+      ]);
+    }
+
+    function box(type: string, ...children: Buffer[]): Buffer {
+      const body = Buffer.concat(children);
+      const header = Buffer.alloc(8);
+      header.writeUInt32BE(8 + body.length);
+      header.write(type, 4, "latin1");
+      return Buffer.concat([header, body]);
+    }
+
+    function riffChunk(type: string, data: Buffer): Buffer {
+      const header = Buffer.alloc(8);
+      header.write(type, 0, "latin1");
+      header.writeUInt32LE(data.length, 4);
+      return Buffer.concat([header, data, Buffer.alloc(data.length & 1)]);
+    }
+
+    const expectedDate = new Date(2023, 5, 15, 14, 30, 0);
+
+    it("reads EXIF from TIFF-based RAW files", async () => {
+      const filePath = path.join(testDir, "DSC_0001.NEF");
+      await fs.writeFile(
+        filePath,
+        Buffer.concat([
+          createTIFF("NIKON CORPORATION", "NIKON D850", "2023:06:15 14:30:00"),
+          Buffer.alloc(256),
+        ]),
+      );
+
+      const metadata = await service.extract(filePath);
+
+      expect(metadata.format).toBe("NEF");
+      expect(metadata.hasEXIF).toBe(true);
+      expect(metadata.cameraMake).toBe("NIKON CORPORATION");
+      expect(metadata.cameraModel).toBe("NIKON D850");
+      expect(metadata.dateTaken).toEqual(expectedDate);
+    });
+
+    it("reads the EXIF chunk after the image data of a WebP file", async () => {
+      const filePath = path.join(testDir, "photo.webp");
+      const chunks = Buffer.concat([
+        riffChunk("VP8X", Buffer.from([0x08, 0, 0, 0, 0, 0, 0, 0, 0, 0])),
+        riffChunk("VP8 ", Buffer.alloc(301)),
+        riffChunk(
+          "EXIF",
+          Buffer.concat([
+            Buffer.from("Exif\0\0"),
+            createTIFF("Google", "Pixel 7", "2023:06:15 14:30:00"),
+          ]),
+        ),
+      ]);
+      const header = Buffer.alloc(12);
+      header.write("RIFF", 0, "latin1");
+      header.writeUInt32LE(4 + chunks.length, 4);
+      header.write("WEBP", 8, "latin1");
+      await fs.writeFile(filePath, Buffer.concat([header, chunks]));
+
+      const metadata = await service.extract(filePath);
+
+      expect(metadata.format).toBe("WEBP");
+      expect(metadata.cameraModel).toBe("Pixel 7");
+      expect(metadata.dateTaken).toEqual(expectedDate);
+    });
+
+    it("reads the Exif item of a HEIC file through iinf and iloc", async () => {
+      const filePath = path.join(testDir, "IMG_0001.HEIC");
+      const exifItem = Buffer.concat([
+        Buffer.from([0, 0, 0, 6]),
+        Buffer.from("Exif\0\0"),
+        createTIFF("Apple", "iPhone 14 Pro", "2023:06:15 14:30:00"),
+      ]);
+
+      const infe = (id: number, type: string) =>
+        box(
+          "infe",
+          Buffer.from([2, 0, 0, 0, 0, id, 0, 0]),
+          Buffer.from(type + "\0"),
+        );
+      const iloc = (offset: number) => {
+        // version 1, 4-byte offsets and lengths, one item with one extent
+        const body = Buffer.alloc(24);
+        body[0] = 1;
+        body[4] = 0x44;
+        body.writeUInt16BE(1, 6);
+        body.writeUInt16BE(2, 8);
+        body.writeUInt16BE(1, 14);
+        body.writeUInt32BE(offset, 16);
+        body.writeUInt32BE(exifItem.length, 20);
+        return box("iloc", body);
+      };
+      const meta = (exifOffset: number) =>
+        box(
+          "meta",
+          Buffer.alloc(4),
+          box(
+            "iinf",
+            Buffer.from([0, 0, 0, 0, 0, 2]),
+            infe(1, "hvc1"),
+            infe(2, "Exif"),
+          ),
+          iloc(exifOffset),
+        );
+
+      const ftyp = box("ftyp", Buffer.from("heic\0\0\0\0mif1heicmiaf"));
+      const mdatStart = ftyp.length + meta(0).length + 8;
+      await fs.writeFile(
+        filePath,
+        Buffer.concat([
+          ftyp,
+          meta(mdatStart + 64),
+          box("mdat", Buffer.alloc(64), exifItem),
+        ]),
+      );
+
+      const metadata = await service.extract(filePath);
+
+      expect(metadata.format).toBe("HEIC");
+      expect(metadata.hasEXIF).toBe(true);
+      expect(metadata.cameraMake).toBe("Apple");
+      expect(metadata.cameraModel).toBe("iPhone 14 Pro");
+      expect(metadata.dateTaken).toEqual(expectedDate);
+    });
+
+    it("adds fractional seconds and reads negative exposure compensation", async () => {
+      const filePath = path.join(testDir, "IMG_0002.DNG");
+      await fs.writeFile(
+        filePath,
+        createTIFF("Canon", "Canon EOS R5", "2023:06:15 14:30:00", {
+          subSec: "25",
+          exposureBias: [-2, 3],
+        }),
+      );
+
+      const metadata = await service.extract(filePath);
+
+      expect(metadata.dateTaken).toEqual(new Date(2023, 5, 15, 14, 30, 0, 250));
+      expect(metadata.exposureCompensation).toBeCloseTo(-2 / 3);
+    });
+
+    it("lists RAW extensions as supported", () => {
+      expect(service.isFormatSupported("IMG_0001.CR2")).toBe(true);
+      expect(service.isFormatSupported("DSC_0001.NEF")).toBe(true);
+      expect(service.isFormatSupported("photo.heif")).toBe(true);
+    });
+  });
+
   // ==================== INTEGRATION TESTS ====================
 
   describe("Integration Tests", () => {
@@ -0,0 +1,220 @@
+/**
+ * File Organizer MCP Server - Music Duplicate Tests
+ * Tests for tag + duration matching of the same track in different formats
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import {
+  MusicDuplicateService,
+  normalizeTag,
+} from "../../../src/services/music-duplicate.service.js";
+import { DuplicateFinderService } from "../../../src/services/duplicate-finder.service.js";
+import { RollbackService } from "../../../src/services/rollback.service.js";
+import type { FileWithSize } from "../../../src/types.js";
+
+interface Tags {
+  artist: string;
+  title: string;
+}
+
+/** ID3v2.3 text frame with ISO-8859-1 encoding */
+function id3Frame(id: string, text: string): Buffer {
+  const header = Buffer.alloc(10);
+  header.write(id, 0);
+  header.writeUInt32BE(text.length + 1, 4);
+  return Buffer.concat([header, Buffer.from([0x00]), Buffer.from(text)]);
+}
+
+/** Tagged CBR MP3: MPEG1 Layer III frames at the given bitrate, 44.1 kHz */
+function buildMP3(tags: Tags, seconds: number, kbps: 128 | 320): Buffer {
+  const frames = [id3Frame("TIT2", tags.title), id3Frame("TPE1", tags.artist)];
+  const tagSize = frames.reduce((sum, f) => sum + f.length, 0);
+  const header = Buffer.from([0x49, 0x44, 0x33, 0x03, 0, 0, 0, 0, 0, 0]);
+  header.writeUInt32BE(tagSize, 6);
+
+  const frameLength = Math.floor((144 * kbps * 1000) / 44100);
+  const frame = Buffer.alloc(frameLength);
+  Buffer.from([0xff, 0xfb, kbps === 320 ? 0xe0 : 0x90, 0x00]).copy(frame);
+  const count = Math.round((seconds * kbps * 1000) / 8 / frameLength);
+
+  return Buffer.concat([
+    header,
+    ...frames,
+    ...Array.from({ length: count }, () => frame),
+  ]);
+}
+
+/** FLAC with STREAMINFO (44.1 kHz stereo) and Vorbis comments */
+function buildFLAC(tags: Tags, seconds: number): Buffer {
+  const streamInfo = Buffer.alloc(34);
+  // 20-bit sample rate, 3-bit channels - 1, 5-bit bits per sample - 1
+  streamInfo.writeUInt32BE(((44100 << 12) | (1 << 9) | (15 << 4)) >>> 0, 10);
+  streamInfo.writeUInt32BE(Math.round(seconds * 44100), 14);
+
+  const entries = [`TITLE=${tags.title}`, `ARTIST=${tags.artist}`];
+  const vendor = Buffer.from("test");
+  const parts: Buffer[] = [Buffer.alloc(4), vendor, Buffer.alloc(4)];
+  parts[0]!.writeUInt32LE(vendor.length);
+  parts[2]!.writeUInt32LE(entries.length);
+  for (const entry of entries) {
+    const length = Buffer.alloc(4);
+    length.writeUInt32LE(Buffer.byteLength(entry));
+    parts.push(length, Buffer.from(entry));
+  }
+  const comments = Buffer.concat(parts);
+
+  const blockHeader = (last: boolean, type: number, size: number) =>
+    Buffer.from([
+      (last ? 0x80 : 0) | type,
+      (size >> 16) & 0xff,
+      (size >> 8) & 0xff,
+      size & 0xff,
+    ]);
+
+  return Buffer.concat([
+    Buffer.from("fLaC"),
+    blockHeader(false, 0, 34),
+    streamInfo,
+    blockHeader(true, 4, comments.length),
+    comments,
+    Buffer.alloc(1024),
+  ]);
+}
+
+describe("normalizeTag", () => {
+  it("ignores case, accents, punctuation, featured artists and a leading 'The'", () => {
+    expect(normalizeTag("The Beatles")).toBe(normalizeTag("beatles"));
+    expect(normalizeTag("Beyoncé")).toBe("beyonce");
+    expect(normalizeTag("Don't Stop (feat. Someone)")).toBe("don t stop");
+    expect(normalizeTag("Simon & Garfunkel")).toBe("simon and garfunkel");
+    expect(normalizeTag("Song ft. Guest")).toBe("song");
+  });
+});
+
+describe("MusicDuplicateService", () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    const baseTempDir = path.join(process.cwd(), "tests", "temp");
+    await fs.mkdir(baseTempDir, { recursive: true });
+    testDir = await fs.mkdtemp(path.join(baseTempDir, "music-duplicates-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  const writeTrack = async (
+    name: string,
+    data: Buffer,
+  ): Promise<FileWithSize> => {
+    const filePath = path.join(testDir, name);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+    return { name, path: filePath, size: data.length, modified: new Date() };
+  };
+
+  it("groups the same track across formats within the duration tolerance", async () => {
+    const song = { artist: "The Band", title: "Song" };
+    const files = [
+      await writeTrack("song.flac", buildFLAC(song, 10)),
+      await writeTrack(
+        "song.mp3",
+        buildMP3({ ...song, artist: "band" }, 10.4, 128),
+      ),
+      await writeTrack("live.mp3", buildMP3(song, 14, 128)),
+      await writeTrack(
+        "other.mp3",
+        buildMP3({ ...song, title: "Other" }, 10, 128),
+      ),
+    ];
+
+    const groups = await new MusicDuplicateService().findMatchingTracks(files);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0]!.key).toBe("band - song");
+    expect(groups[0]!.files.map((f) => f.name)).toEqual([
+      "song.flac",
+      "song.mp3",
+    ]);
+    expect(groups[0]!.durationDiffs.get(files[1]!.path)).toBeCloseTo(0.4, 1);
+  });
+
+  it("never groups tracks with missing tags", async () => {
+    const files = [
+      await writeTrack(
+        "a.mp3",
+        buildMP3({ artist: "", title: "Song" }, 10, 128),
+      ),
+      await writeTrack(
+        "b.mp3",
+        buildMP3({ artist: "", title: "Song" }, 10, 128),
+      ),
+    ];
+
+    const groups = await new MusicDuplicateService().findMatchingTracks(files);
+
+    expect(groups).toHaveLength(0);
+  });
+
+  describe("DuplicateFinderService music mode", () => {
+    it("keeps the lossless copy, explains the match and deletes the rest with a rollback manifest", async () => {
+      const song = { artist: "Artist", title: "Track" };
+      const flac = await writeTrack("Music/track.flac", buildFLAC(song, 10));
+      const low = await writeTrack(
+        "Music/track.mp3",
+        buildMP3(song, 10.4, 128),
+      );
+      const high = await writeTrack(
+        "Music/track (320).mp3",
+        buildMP3(song, 10, 320),
+      );
+
+      const finder = new DuplicateFinderService();
+      const groups = await finder.findWithScoring(
+        [low, high, flac],
+        "best_location",
+        {
+          matchMode: "music",
+        },
+      );
+
+      expect(groups).toHaveLength(1);
+      const group = groups[0]!;
+      expect(group.recommended_keep).toBe(flac.path);
+      expect(group.recommended_delete).toEqual([high.path, low.path]);
+      expect(group.match_reason).toBe("same tags, 0.4s duration diff");
+      expect(group.wasted_space_bytes).toBe(low.size + high.size);
+      expect(group.files[0]!.reasons).toContain(
+        "Format quality: FLAC lossless (+300.0)",
+      );
+
+      const result = await finder.deleteFiles(group.recommended_delete);
+      expect(result.deleted).toHaveLength(2);
+
+      const rollback = await new RollbackService().rollback(
+        result.manifestPath!,
+      );
+      expect(rollback.success).toBe(2);
+      await expect(fs.access(low.path)).resolves.toBeUndefined();
+    });
+
+    it("keeps the lossless copy over an older lossy one with the oldest strategy", async () => {
+      const song = { artist: "Artist", title: "Track" };
+      const flac = await writeTrack("Music/track.flac", buildFLAC(song, 10));
+      const mp3 = await writeTrack("Music/track.mp3", buildMP3(song, 10, 320));
+      mp3.modified = new Date(Date.now() - 5 * 365 * 24 * 60 * 60 * 1000);
+
+      const groups = await new DuplicateFinderService().findWithScoring(
+        [mp3, flac],
+        "oldest",
+        { matchMode: "music" },
+      );
+
+      expect(groups[0]!.recommended_keep).toBe(flac.path);
+      expect(groups[0]!.recommended_delete).toEqual([mp3.path]);
+    });
+  });
+});
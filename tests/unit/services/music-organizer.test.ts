@@ -6,6 +6,8 @@
 import fs from "fs/promises";
 import path from "path";
 import { MusicOrganizerService } from "../../../src/services/music-organizer.service.js";
+import { TagInferenceService } from "../../../src/services/tag-inference.service.js";
+import { AlbumGroupingService } from "../../../src/services/album-grouping.service.js";
 import {
   setupLoggerMocks,
   teardownLoggerMocks,
@@ -871,4 +873,210 @@ describe("MusicOrganizerService", () => {
       expect(files[0]).toMatch(/\.flac$/);
     });
   });
+
+  // ==================== TAG INFERENCE TESTS ====================
+
+  describe("tag inference", () => {
+    it("reads fields and confidences from path patterns", () => {
+      const inference = new TagInferenceService();
+
+      expect(
+        inference.infer("/rips/Artist - Album/03 - Title.mp3", {
+          rootDir: "/rips",
+        }),
+      ).toEqual({
+        pattern: "{artist} - {album}/{track} - {title}",
+        fields: {
+          artist: { value: "Artist", confidence: 0.8 },
+          album: { value: "Album", confidence: 0.8 },
+          trackNumber: { value: 3, confidence: 0.9 },
+          title: { value: "Title", confidence: 0.8 },
+        },
+      });
+
+      const custom = inference.infer("/rips/Music/Some_Album/Song.mp3", {
+        rootDir: "/rips",
+        patterns: ["{artist}/{album}/{title}"],
+      });
+      expect(custom?.fields.artist).toEqual({
+        value: "Music",
+        confidence: 0.2,
+      });
+      expect(custom?.fields.album).toEqual({
+        value: "Some Album",
+        confidence: 0.6,
+      });
+
+      expect(inference.validatePattern("{artist}/{label}")).toMatch(
+        /Unknown placeholder \{label\}/,
+      );
+    });
+
+    it("fills only missing tags and shows them in the dry run", async () => {
+      await fs.mkdir(path.join(sourceDir, "Artist A - Album X"));
+      await fs.mkdir(path.join(sourceDir, "Band", "Record"), {
+        recursive: true,
+      });
+      await createMockMP3("Artist A - Album X/03 - Song.mp3");
+      await createMockMP3("Band/Record/01 - Intro.mp3", {
+        title: "Tagged Intro",
+      });
+      const config = {
+        sourceDir,
+        targetDir,
+        structure: "artist/album" as const,
+        filenamePattern: "{track} - {title}" as const,
+        inferMissingTags: true,
+        dryRun: true,
+      };
+
+      const preview = await service.organize(config);
+
+      expect(preview.structure["Artist A"]).toEqual(["Album X"]);
+      expect(preview.structure["Band"]).toEqual(["Record"]);
+      const intro = preview.inferredTags?.find((t) =>
+        t.file.endsWith("01 - Intro.mp3"),
+      );
+      expect(intro?.fields.title).toBeUndefined();
+      expect(intro?.fields.artist).toEqual({ value: "Band", confidence: 0.6 });
+      expect(await fs.readdir(targetDir)).toEqual([]);
+
+      await service.organize({ ...config, dryRun: false });
+
+      await expect(
+        fs.access(path.join(targetDir, "Artist A", "Album X", "03 - Song.mp3")),
+      ).resolves.toBeUndefined();
+      await expect(
+        fs.access(
+          path.join(targetDir, "Band", "Record", "01 - Tagged Intro.mp3"),
+        ),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  // ==================== ALBUM GROUPING TESTS ====================
+
+  describe("album grouping", () => {
+    it("unifies artist and year per album and reports gaps", () => {
+      const track = (
+        file: string,
+        metadata: Record<string, string | number>,
+      ) => ({ path: `/music/rip/${file}`, metadata });
+
+      const [album] = new AlbumGroupingService().group([
+        track("1.mp3", {
+          album: "Record",
+          artist: "Band",
+          trackNumber: 1,
+          year: 2001,
+        }),
+        track("2.mp3", {
+          album: "Record",
+          artist: "Band feat. Guest",
+          trackNumber: 2,
+          year: 2001,
+        }),
+        track("5.mp3", {
+          album: "Record",
+          artist: "Band",
+          trackNumber: 5,
+          year: 2003,
+        }),
+        track("x.mp3", { album: "Record", artist: "Band" }),
+      ]);
+
+      expect(album).toMatchObject({
+        album: "Record",
+        artist: "Band",
+        year: 2001,
+        trackCount: 4,
+        discCount: 1,
+        missingTrackNumbers: ["/music/rip/x.mp3"],
+        gaps: [{ disc: 1, missing: [3, 4] }],
+        inconsistencies: ["Year differs: 2001 (2), 2003 (1)"],
+      });
+    });
+
+    it("ignores track numbers out of range and lists at most 50 gaps", () => {
+      const track = (
+        file: string,
+        trackNumber: number,
+        totalTracks?: number,
+      ) => ({
+        path: `/music/rip/${file}`,
+        metadata: { album: "Record", artist: "Band", trackNumber, totalTracks },
+      });
+
+      const [bogus] = new AlbumGroupingService().group([
+        track("1.mp3", 1, 10000000),
+        track("2.mp3", 2),
+        track("x.mp3", 1000000000),
+      ]);
+      expect(bogus!.gaps).toEqual([]);
+      expect(bogus!.missingTrackNumbers).toEqual([]);
+      expect(bogus!.inconsistencies).toEqual([
+        "Track numbers or totals above 999 ignored: 10000000, 1000000000",
+      ]);
+
+      const [sparse] = new AlbumGroupingService().group([
+        track("1.mp3", 1, 999),
+      ]);
+      expect(sparse!.gaps).toEqual([
+        {
+          disc: 1,
+          missing: Array.from({ length: 50 }, (_, i) => i + 2),
+          missingCount: 998,
+        },
+      ]);
+    });
+
+    it("keeps featured tracks with the album and splits discs into folders", async () => {
+      await createMockMP3("a.mp3", {
+        title: "One",
+        artist: "Band",
+        album: "Record (Disc 1)",
+        trackNumber: 1,
+      });
+      await createMockMP3("b.mp3", {
+        title: "Two",
+        artist: "Band feat. Guest",
+        album: "Record (Disc 1)",
+        trackNumber: 2,
+      });
+      await createMockMP3("c.mp3", {
+        title: "Three",
+        artist: "Band",
+        album: "Record (Disc 2)",
+        trackNumber: 1,
+      });
+
+      const result = await service.previewOrganization({
+        sourceDir,
+        targetDir,
+        structure: "artist/album",
+        filenamePattern: "{track} - {title}",
+        groupAlbums: true,
+      });
+
+      expect(result.structure).toEqual({ Band: ["Record"] });
+      expect(result.albums).toHaveLength(1);
+      expect(result.albums![0]).toMatchObject({ discCount: 2, gaps: [] });
+
+      await service.organize({
+        sourceDir,
+        targetDir,
+        structure: "artist/album",
+        filenamePattern: "{track} - {title}",
+        groupAlbums: true,
+      });
+      expect(
+        (
+          await fs.readdir(path.join(targetDir, "Band", "Record", "Disc 1"))
+        ).sort(),
+      ).toEqual(["01 - One.mp3", "02 - Two.mp3"]);
+      expect(
+        await fs.readdir(path.join(targetDir, "Band", "Record", "Disc 2")),
+      ).toEqual(["01 - Three.mp3"]);
+    });
+  });
 });
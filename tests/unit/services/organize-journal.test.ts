@@ -0,0 +1,202 @@
+/**
+ * File Organizer MCP Server - Organize Journal Tests
+ * Tests for the write-ahead journal: interrupted run detection, resume and rollback
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { randomUUID } from 'crypto';
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { organizeJournalService } from '../../../src/services/organize-journal.service.js';
+import { RollbackService } from '../../../src/services/rollback.service.js';
+import { manifestIntegrityService } from '../../../src/services/manifest-integrity.service.js';
+import type { JournalRecord, RollbackAction } from '../../../src/types.js';
+
+const journalDir = path.join(process.cwd(), '.file-organizer-journals');
+const exists = (p: string) =>
+  fs.access(p).then(() => true).catch(() => false);
+
+describe('OrganizeJournalService', () => {
+  let testDir: string;
+  let journalIds: string[];
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'organize-journal-'));
+    journalIds = [];
+  });
+
+  afterEach(async () => {
+    for (const id of journalIds) {
+      await fs.rm(path.join(journalDir, `${id}.journal`), { force: true });
+    }
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Write a journal as a crashed run would have left it
+   */
+  async function writeJournal(
+    planned: RollbackAction[],
+    steps: JournalRecord[] = [],
+  ): Promise<string> {
+    const id = randomUUID();
+    journalIds.push(id);
+    const records: JournalRecord[] = [
+      {
+        kind: 'begin',
+        version: '1.0',
+        id,
+        pid: process.pid,
+        directory: testDir,
+        description: `Organization of ${testDir}`,
+        timestamp: Date.now(),
+        actions: planned,
+      },
+      ...steps,
+    ];
+    await fs.mkdir(journalDir, { recursive: true });
+    await fs.writeFile(
+      path.join(journalDir, `${id}.journal`),
+      records
+        .map((r) =>
+          JSON.stringify({
+            ...r,
+            signature: manifestIntegrityService.computeRecordSignature(r),
+          }),
+        )
+        .join('\n') + '\n',
+    );
+    return id;
+  }
+
+  /**
+   * Three planned moves: #0 done and recorded, #1 moved but not recorded
+   * (killed right after the move), #2 never started
+   */
+  async function interruptedRun() {
+    const names = ['a.txt', 'b.txt', 'c.txt'];
+    const planned: RollbackAction[] = names.map((name) => ({
+      type: 'move',
+      originalPath: path.join(testDir, name),
+      currentPath: path.join(testDir, 'Documents', name),
+      timestamp: Date.now(),
+    }));
+    await fs.mkdir(path.join(testDir, 'Documents'));
+    for (const name of names) {
+      await fs.writeFile(path.join(testDir, name), `content of ${name}`);
+    }
+    for (const action of planned.slice(0, 2)) {
+      await fs.rename(action.originalPath, action.currentPath!);
+    }
+    const id = await writeJournal(planned, [
+      { kind: 'step', index: 0, status: 'done', action: planned[0], timestamp: Date.now() },
+    ]);
+    return { id, planned };
+  }
+
+  it('keeps journals of running organize operations out of the interrupted list', async () => {
+    const journal = await organizeJournalService.begin(testDir, 'Running', [
+      { type: 'move', originalPath: path.join(testDir, 'x'), currentPath: path.join(testDir, 'y'), timestamp: Date.now() },
+    ]);
+    journalIds.push(journal.id);
+
+    const interrupted = await organizeJournalService.listInterrupted();
+    expect(interrupted.map((j) => j.id)).not.toContain(journal.id);
+
+    await journal.complete();
+    expect(await exists(path.join(journalDir, `${journal.id}.journal`))).toBe(false);
+  });
+
+  it('finds interrupted runs and reports each step status', async () => {
+    const { id } = await interruptedRun();
+
+    const interrupted = await organizeJournalService.listInterrupted();
+    const journal = interrupted.find((j) => j.id === id);
+
+    expect(journal?.directory).toBe(testDir);
+    expect(journal?.steps.map((s) => s.status)).toEqual(['done', 'pending', 'pending']);
+  });
+
+  it('previews and resumes the remaining moves, then records them in a manifest', async () => {
+    const { id, planned } = await interruptedRun();
+
+    const preview = await organizeJournalService.resume(id, { dryRun: true });
+    expect(preview.steps.map((s) => s.outcome)).toEqual(['already_done', 'move']);
+    expect(await exists(planned[2]!.originalPath)).toBe(true);
+
+    const result = await organizeJournalService.resume(id);
+
+    expect(result.resumed).toBe(1);
+    expect(result.alreadyDone).toBe(1);
+    expect(result.failed).toBe(0);
+    expect(await exists(planned[2]!.currentPath!)).toBe(true);
+    expect(await exists(planned[2]!.originalPath)).toBe(false);
+    expect(await exists(path.join(journalDir, `${id}.journal`))).toBe(false);
+
+    const manifest = await new RollbackService().getManifest(result.manifestId!);
+    expect(manifest.actions).toHaveLength(3);
+  });
+
+  it('rolls back everything the interrupted run moved, including unrecorded steps', async () => {
+    const { id, planned } = await interruptedRun();
+
+    const preview = await organizeJournalService.rollback(id, { dryRun: true });
+    expect(preview.steps).toHaveLength(2);
+    expect(preview.conflicts).toEqual([]);
+
+    const result = await organizeJournalService.rollback(id);
+
+    expect(result.success).toBe(2);
+    expect(result.failed).toBe(0);
+    for (const action of planned) {
+      expect(await exists(action.originalPath)).toBe(true);
+      expect(await exists(action.currentPath!)).toBe(false);
+    }
+    expect(await exists(path.join(journalDir, `${id}.journal`))).toBe(false);
+  });
+
+  it('finishes a move that was copied but whose source was not yet removed', async () => {
+    const source = path.join(testDir, 'half.txt');
+    const dest = path.join(testDir, 'Documents', 'half.txt');
+    await fs.mkdir(path.dirname(dest));
+    await fs.writeFile(source, 'same content');
+    await fs.copyFile(source, dest);
+    const id = await writeJournal([
+      { type: 'move', originalPath: source, currentPath: dest, timestamp: Date.now() },
+    ]);
+
+    const result = await organizeJournalService.resume(id);
+
+    expect(result.steps[0]!.outcome).toBe('finish_move');
+    expect(await exists(source)).toBe(false);
+    expect(await fs.readFile(dest, 'utf-8')).toBe('same content');
+  });
+
+  it('never overwrites a different file at the planned destination', async () => {
+    const source = path.join(testDir, 'report.txt');
+    const dest = path.join(testDir, 'Documents', 'report.txt');
+    await fs.mkdir(path.dirname(dest));
+    await fs.writeFile(source, 'mine');
+    await fs.writeFile(dest, 'someone else');
+    const id = await writeJournal([
+      { type: 'move', originalPath: source, currentPath: dest, timestamp: Date.now() },
+    ]);
+
+    const result = await organizeJournalService.resume(id);
+
+    expect(result.steps[0]!.to).toBe(path.join(testDir, 'Documents', 'report_1.txt'));
+    expect(await fs.readFile(dest, 'utf-8')).toBe('someone else');
+  });
+
+  it('rejects a tampered journal', async () => {
+    const { id } = await interruptedRun();
+    const file = path.join(journalDir, `${id}.journal`);
+    const content = await fs.readFile(file, 'utf-8');
+    await fs.writeFile(file, content.replace('"index":0', '"index":2'));
+
+    await expect(organizeJournalService.resume(id)).rejects.toThrow('integrity check failed');
+    const interrupted = await organizeJournalService.listInterrupted();
+    expect(interrupted.map((j) => j.id)).not.toContain(id);
+  });
+});
@@ -1,9 +1,13 @@
+import { jest } from "@jest/globals";
 import fs from "fs/promises";
 
 import path from "path";
 import os from "os";
 import { OrganizerService } from "../../../src/services/organizer.service.js";
 import { CategorizerService } from "../../../src/services/categorizer.service.js";
+import { MetadataService } from "../../../src/services/metadata.service.js";
+import { organizeJournalService } from "../../../src/services/organize-journal.service.js";
+import { RollbackService } from "../../../src/services/rollback.service.js";
 import { FileWithSize } from "../../../src/types.js";
 
 describe("OrganizerService", () => {
@@ -139,4 +143,153 @@ describe("OrganizerService", () => {
       expect(move.conflictResolution).toBe("skip");
     });
   });
+
+  describe("destination templates", () => {
+    it("should place files using metadata tokens and fallbacks", async () => {
+      const metadataService = new MetadataService();
+      jest
+        .spyOn(metadataService, "getDetailedMetadata")
+        .mockImplementation(async (filePath: string) =>
+          filePath.endsWith(".mp3")
+            ? {
+                audio: {
+                  filePath,
+                  format: "MP3",
+                  hasEmbeddedArtwork: false,
+                  extractedAt: new Date(),
+                  album: "Blue",
+                  title: "Intro",
+                  trackNumber: 3,
+                },
+              }
+            : {},
+        );
+      organizer = new OrganizerService(
+        new CategorizerService(),
+        metadataService,
+      );
+
+      const files: FileWithSize[] = [
+        {
+          name: "01.mp3",
+          path: path.join(testDir, "01.mp3"),
+          size: 100,
+          modified: new Date(),
+        },
+      ];
+
+      const plan = await organizer.generateOrganizationPlan(
+        testDir,
+        files,
+        "rename",
+        false,
+        {
+          destinationTemplate:
+            "{artist|Unknown Artist}/{album}/{track:02} - {title}{ext}",
+        },
+      );
+
+      expect(plan.moves[0]?.destination).toBe(
+        path.join(testDir, "Unknown Artist", "Blue", "03 - Intro.mp3"),
+      );
+    });
+
+    it("should skip files with missing tokens instead of guessing a folder", async () => {
+      const files: FileWithSize[] = [
+        {
+          name: "notes.txt",
+          path: path.join(testDir, "notes.txt"),
+          size: 10,
+          modified: new Date(2023, 5, 1),
+        },
+        {
+          name: "report.pdf",
+          path: path.join(testDir, "report.pdf"),
+          size: 10,
+          modified: new Date(2023, 5, 1),
+        },
+      ];
+
+      const plan = await organizer.generateOrganizationPlan(
+        testDir,
+        files,
+        "rename",
+        false,
+        { destinationTemplate: "{category}/{year}/{camera_model}/" },
+      );
+
+      expect(plan.moves).toHaveLength(0);
+      expect(plan.skippedFiles).toHaveLength(2);
+      expect(plan.skippedFiles[0]?.reason).toBe(
+        "Destination template is missing values for: {camera_model}",
+      );
+
+      const kept = await organizer.generateOrganizationPlan(
+        testDir,
+        files,
+        "rename",
+        false,
+        { destinationTemplate: "{category}/{year}/" },
+      );
+      expect(kept.moves.map((m) => m.destination)).toEqual([
+        path.join(testDir, "Documents", "2023", "notes.txt"),
+        path.join(testDir, "Documents", "2023", "report.pdf"),
+      ]);
+    });
+  });
+
+  describe("write-ahead journal", () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("should journal the plan before moving and close it afterwards", async () => {
+      const names = ["a.txt", "b.pdf"];
+      for (const name of names) {
+        await fs.writeFile(path.join(testDir, name), name);
+      }
+      const files: FileWithSize[] = names.map((name) => ({
+        name,
+        path: path.join(testDir, name),
+        size: name.length,
+        modified: new Date(),
+      }));
+
+      const begin = organizeJournalService.begin.bind(organizeJournalService);
+      const sourcesAtBegin: boolean[] = [];
+      let journalFile: string | undefined;
+      jest
+        .spyOn(organizeJournalService, "begin")
+        .mockImplementation(async (directory, description, actions) => {
+          for (const action of actions) {
+            sourcesAtBegin.push(
+              await fs
+                .access(action.originalPath)
+                .then(() => true)
+                .catch(() => false),
+            );
+          }
+          const journal = await begin(directory, description, actions);
+          journalFile = path.join(
+            process.cwd(),
+            ".file-organizer-journals",
+            `${journal.id}.journal`,
+          );
+          return journal;
+        });
+      const createManifest = jest.spyOn(
+        RollbackService.prototype,
+        "createManifest",
+      );
+
+      const result = await organizer.organize(testDir, files);
+
+      expect(result.successCount).toBe(2);
+      expect(sourcesAtBegin).toEqual([true, true]);
+      expect(journalFile).toBeDefined();
+      await expect(fs.access(journalFile!)).rejects.toThrow();
+      // One run is one manifest, updated as files move
+      expect(createManifest).toHaveBeenCalledTimes(1);
+    });
+  });
 });
@@ -0,0 +1,414 @@
+/**
+ * File Organizer MCP Server - Perceptual Hash Tests
+ * Tests for pure TypeScript PNG/JPEG decoding, dHash and near-duplicate grouping
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import os from "os";
+import zlib from "zlib";
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import {
+  PerceptualHashService,
+  computeDHash,
+  decodeGrayscale,
+  hammingDistance,
+} from "../../../src/services/perceptual-hash.service.js";
+import { DuplicateFinderService } from "../../../src/services/duplicate-finder.service.js";
+import type { FileWithSize } from "../../../src/types.js";
+
+type Picture = (u: number, v: number) => number;
+
+/** A smooth picture defined on normalized coordinates, so any size works */
+const waves: Picture = (u, v) =>
+  128 + 100 * Math.sin(u * Math.PI * 3) * Math.cos(v * Math.PI * 2);
+const diagonal: Picture = (u, v) => 255 * (1 - (u + v) / 2);
+
+function sample(picture: Picture, width: number, height: number) {
+  return (x: number, y: number) =>
+    Math.max(0, Math.min(255, Math.round(picture(x / width, y / height))));
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  let crc = 0xffffffff;
+  for (const byte of body) crc = CRC_TABLE[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+  const out = Buffer.alloc(12 + data.length);
+  out.writeUInt32BE(data.length, 0);
+  body.copy(out, 4);
+  out.writeUInt32BE((crc ^ 0xffffffff) >>> 0, 8 + data.length);
+  return out;
+}
+
+/** RGB PNG, cycling through all five row filters */
+function encodePNG(picture: Picture, width: number, height: number): Buffer {
+  const gray = sample(picture, width, height);
+  const stride = width * 3;
+  const raw = Buffer.alloc((stride + 1) * height);
+  let previous = Buffer.alloc(stride);
+  for (let y = 0; y < height; y++) {
+    const row = Buffer.alloc(stride);
+    for (let x = 0; x < width; x++) {
+      const g = gray(x, y);
+      row[x * 3] = g;
+      row[x * 3 + 1] = g;
+      row[x * 3 + 2] = g;
+    }
+    const filter = y % 5;
+    raw[y * (stride + 1)] = filter;
+    for (let i = 0; i < stride; i++) {
+      const a = i >= 3 ? row[i - 3]! : 0;
+      const b = previous[i]!;
+      const c = i >= 3 ? previous[i - 3]! : 0;
+      const p = a + b - c;
+      const paeth =
+        Math.abs(p - a) <= Math.abs(p - b) && Math.abs(p - a) <= Math.abs(p - c)
+          ? a
+          : Math.abs(p - b) <= Math.abs(p - c)
+            ? b
+            : c;
+      const predictor = [0, a, b, (a + b) >> 1, paeth][filter]!;
+      raw[y * (stride + 1) + 1 + i] = (row[i]! - predictor) & 0xff;
+    }
+    previous = row;
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;
+  header[9] = 2;
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", zlib.deflateSync(raw)),
+    pngChunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+/**
+ * Baseline JPEG with flat 8x8 blocks (DC only, every AC run is EOB).
+ * DC categories 0-11 use 4-bit codes equal to the category; EOB is "0".
+ */
+function encodeJPEG(
+  picture: Picture,
+  width: number,
+  height: number,
+  options: { subsampled?: boolean; restartInterval?: number } = {},
+): Buffer {
+  const gray = sample(picture, width, height);
+  const bytes: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+  const writeBits = (value: number, count: number) => {
+    for (let i = count - 1; i >= 0; i--) {
+      bitBuffer = (bitBuffer << 1) | ((value >> i) & 1);
+      if (++bitCount === 8) {
+        bytes.push(bitBuffer);
+        if (bitBuffer === 0xff) bytes.push(0x00);
+        bitBuffer = 0;
+        bitCount = 0;
+      }
+    }
+  };
+  const flush = () => {
+    while (bitCount !== 0) writeBits(1, 1);
+  };
+
+  const predictors = [0, 0, 0];
+  const writeBlock = (component: number, dc: number) => {
+    const diff = dc - predictors[component]!;
+    predictors[component] = dc;
+    const size = diff === 0 ? 0 : Math.floor(Math.log2(Math.abs(diff))) + 1;
+    writeBits(size, 4);
+    if (size) writeBits(diff < 0 ? (diff - 1) & ((1 << size) - 1) : diff, size);
+    writeBits(0, 1);
+  };
+  const blockDC = (bx: number, by: number) => {
+    let sum = 0;
+    for (let y = 0; y < 8; y++) {
+      for (let x = 0; x < 8; x++) {
+        sum += gray(
+          Math.min(width - 1, bx * 8 + x),
+          Math.min(height - 1, by * 8 + y),
+        );
+      }
+    }
+    return Math.round((sum / 64 - 128) * 8);
+  };
+
+  const mcuSize = options.subsampled ? 16 : 8;
+  const mcusX = Math.ceil(width / mcuSize);
+  const mcusY = Math.ceil(height / mcuSize);
+  let restarts = 0;
+  for (let mcu = 0; mcu < mcusX * mcusY; mcu++) {
+    if (
+      options.restartInterval &&
+      mcu > 0 &&
+      mcu % options.restartInterval === 0
+    ) {
+      flush();
+      bytes.push(0xff, 0xd0 + (restarts++ % 8));
+      predictors.fill(0);
+    }
+    const mx = mcu % mcusX;
+    const my = Math.floor(mcu / mcusX);
+    if (options.subsampled) {
+      for (let v = 0; v < 2; v++) {
+        for (let h = 0; h < 2; h++)
+          writeBlock(0, blockDC(mx * 2 + h, my * 2 + v));
+      }
+      writeBlock(1, 0);
+      writeBlock(2, 0);
+    } else {
+      writeBlock(0, blockDC(mx, my));
+    }
+  }
+  flush();
+
+  const segment = (marker: number, data: number[]) => [
+    0xff,
+    marker,
+    (data.length + 2) >> 8,
+    (data.length + 2) & 0xff,
+    ...data,
+  ];
+  const components = options.subsampled
+    ? [1, 0x22, 0, 2, 0x11, 0, 3, 0x11, 0]
+    : [1, 0x11, 0];
+  const dcCounts = [0, 0, 0, 12, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0];
+  const acCounts = [1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0];
+  const scan = options.subsampled ? [1, 0x00, 2, 0x00, 3, 0x00] : [1, 0x00];
+
+  return Buffer.from([
+    0xff,
+    0xd8,
+    ...segment(0xdb, [0x00, ...new Array(64).fill(1)]),
+    ...segment(0xc0, [
+      8,
+      height >> 8,
+      height & 0xff,
+      width >> 8,
+      width & 0xff,
+      components.length / 3,
+      ...components,
+    ]),
+    ...segment(0xc4, [
+      0x00,
+      ...dcCounts,
+      ...Array.from({ length: 12 }, (_, i) => i),
+      0x10,
+      ...acCounts,
+      0x00,
+    ]),
+    ...(options.restartInterval
+      ? segment(0xdd, [
+          options.restartInterval >> 8,
+          options.restartInterval & 0xff,
+        ])
+      : []),
+    ...segment(0xda, [scan.length / 2, ...scan, 0, 63, 0]),
+    ...bytes,
+    0xff,
+    0xd9,
+  ]);
+}
+
+describe("PerceptualHashService", () => {
+  let testDir: string;
+  let service: PerceptualHashService;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), "perceptual-hash-"));
+    service = new PerceptualHashService();
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  const writeImage = async (
+    name: string,
+    data: Buffer,
+    modified = new Date(),
+  ): Promise<FileWithSize> => {
+    const filePath = path.join(testDir, name);
+    await fs.writeFile(filePath, data);
+    return { name, path: filePath, size: data.length, modified };
+  };
+
+  it("decodes PNG pixels and keeps the original dimensions", async () => {
+    const image = await decodeGrayscale(encodePNG(diagonal, 20, 10));
+
+    expect(image.width).toBe(20);
+    expect(image.height).toBe(10);
+    expect(image.pixels[0]).toBe(255);
+    expect(image.pixels[image.pixels.length - 1]).toBeLessThan(30);
+  });
+
+  it("decodes baseline JPEG at 1/8 scale, including subsampling and restart markers", async () => {
+    const image = await decodeGrayscale(
+      encodeJPEG(diagonal, 100, 60, { subsampled: true, restartInterval: 2 }),
+    );
+
+    expect(image.originalWidth).toBe(100);
+    expect(image.originalHeight).toBe(60);
+    expect(image.width).toBe(13);
+    expect(image.height).toBe(8);
+    expect(image.pixels[0]).toBeGreaterThan(230);
+    expect(image.pixels[image.pixels.length - 1]).toBeLessThan(40);
+  });
+
+  it("gives resized and re-encoded copies nearly identical hashes", async () => {
+    const original = computeDHash(
+      await decodeGrayscale(encodePNG(waves, 320, 240)),
+    );
+    const resized = computeDHash(
+      await decodeGrayscale(encodePNG(waves, 80, 60)),
+    );
+    const jpeg = computeDHash(
+      await decodeGrayscale(encodeJPEG(waves, 640, 480, { subsampled: true })),
+    );
+    const other = computeDHash(
+      await decodeGrayscale(encodePNG(diagonal, 320, 240)),
+    );
+
+    expect(original).toHaveLength(16);
+    expect(hammingDistance(original, resized)).toBeLessThanOrEqual(4);
+    expect(hammingDistance(original, jpeg)).toBeLessThanOrEqual(6);
+    expect(hammingDistance(original, other)).toBeGreaterThan(20);
+  });
+
+  it("rejects progressive JPEG", async () => {
+    const progressive = encodeJPEG(waves, 16, 16);
+    progressive[progressive.indexOf(0xc0, 2)] = 0xc2;
+
+    await expect(decodeGrayscale(progressive)).rejects.toThrow(
+      "Progressive or arithmetic-coded JPEG is not supported",
+    );
+  });
+
+  it("rejects PNGs larger than their limits", async () => {
+    const huge = encodePNG(diagonal, 20, 10);
+    huge.writeUInt32BE(10000, 16);
+    huge.writeUInt32BE(10000, 20);
+    await expect(decodeGrayscale(huge)).rejects.toThrow(
+      "PNG of 10000x10000 is larger than 50000000 pixels",
+    );
+
+    // Image data that inflates to more rows than the header declares
+    const overlong = encodePNG(diagonal, 20, 10);
+    overlong.writeUInt32BE(2, 20);
+    await expect(decodeGrayscale(overlong)).rejects.toThrow(
+      "PNG image data is larger than its dimensions allow",
+    );
+  });
+
+  it("rejects JPEGs larger than their limits or their data", async () => {
+    const frame = (jpeg: Buffer) => jpeg.indexOf(Buffer.from([0xff, 0xc0]));
+
+    const huge = encodeJPEG(waves, 16, 16);
+    huge.writeUInt16BE(65535, frame(huge) + 5);
+    huge.writeUInt16BE(65535, frame(huge) + 7);
+    await expect(decodeGrayscale(huge)).rejects.toThrow(
+      "JPEG of 65535x65535 is larger than 50000000 pixels",
+    );
+
+    const oversampled = encodeJPEG(waves, 16, 16);
+    oversampled[frame(oversampled) + 11] = 0xff;
+    await expect(decodeGrayscale(oversampled)).rejects.toThrow(
+      "Invalid JPEG sampling factors",
+    );
+
+    // A few bytes of scan data declaring millions of blocks
+    const short = encodeJPEG(waves, 16, 16);
+    short.writeUInt16BE(4000, frame(short) + 5);
+    short.writeUInt16BE(4000, frame(short) + 7);
+    const started = Date.now();
+    await expect(decodeGrayscale(short)).rejects.toThrow(
+      "JPEG data ends before the image does",
+    );
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it("groups similar images and reports files it cannot decode", async () => {
+    const progressive = encodeJPEG(waves, 16, 16);
+    progressive[progressive.indexOf(0xc0, 2)] = 0xc2;
+    const files = [
+      await writeImage("a.png", encodePNG(waves, 160, 120)),
+      await writeImage("b.jpg", encodeJPEG(waves, 320, 240)),
+      await writeImage("c.png", encodePNG(diagonal, 160, 120)),
+      await writeImage("broken.jpg", Buffer.from([0xff, 0xd8, 0xff, 0xd9])),
+      await writeImage("progressive.jpg", progressive),
+      await writeImage("notes.txt", Buffer.from("not an image")),
+    ];
+    const skipped: { path: string; reason: string }[] = [];
+
+    const groups = await service.findSimilar(files, { skipped });
+
+    expect(skipped).toEqual([
+      { path: files[3]!.path, reason: "No JPEG image data found" },
+      {
+        path: files[4]!.path,
+        reason: "Progressive or arithmetic-coded JPEG is not supported",
+      },
+    ]);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0]!.files.map((f) => f.name)).toEqual(["a.png", "b.jpg"]);
+    expect(groups[0]!.dimensions.get(files[1]!.path)).toEqual({
+      width: 320,
+      height: 240,
+    });
+  });
+
+  it("respects the Hamming distance threshold", async () => {
+    const files = [
+      await writeImage("a.png", encodePNG(waves, 160, 120)),
+      await writeImage("b.png", encodePNG(diagonal, 160, 120)),
+    ];
+
+    expect(await service.findSimilar(files, { threshold: 0 })).toHaveLength(0);
+    expect(await service.findSimilar(files, { threshold: 64 })).toHaveLength(1);
+  });
+
+  describe("DuplicateFinderService perceptual mode", () => {
+    it("keeps the highest resolution copy and counts every other copy as waste", async () => {
+      const small = await writeImage("small.png", encodePNG(waves, 80, 60));
+      const large = await writeImage("large.png", encodePNG(waves, 400, 300));
+
+      const groups = await new DuplicateFinderService().findWithScoring(
+        [small, large],
+        "highest_resolution",
+        { matchMode: "perceptual" },
+      );
+
+      expect(groups).toHaveLength(1);
+      expect(groups[0]!.recommended_keep).toBe(large.path);
+      expect(groups[0]!.recommended_delete).toEqual([small.path]);
+      expect(groups[0]!.wasted_space_bytes).toBe(small.size);
+      expect(groups[0]!.files[0]!.reasons).toContain(
+        "Resolution 400x300 (+100.0)",
+      );
+      expect(groups[0]!.files[1]!.distance).toBeDefined();
+    });
+
+    it("ignores visual similarity in exact mode", async () => {
+      const small = await writeImage("small.png", encodePNG(waves, 80, 60));
+      const large = await writeImage("large.png", encodePNG(waves, 400, 300));
+
+      const groups = await new DuplicateFinderService().findWithScoring(
+        [small, large],
+        "most_metadata",
+      );
+
+      expect(groups).toHaveLength(0);
+    });
+  });
+});
@@ -65,6 +65,11 @@ jest.unstable_mockModule("../../../src/services/metadata.service.js", () => ({
   })),
 }));
 
+jest.unstable_mockModule("../../../src/services/rollback.service.js", () => ({
+  RollbackService: jest.fn(),
+  backupTagBlock: jest.fn(),
+}));
+
 jest.unstable_mockModule(
   "../../../src/services/path-validator.service.js",
   () => ({
@@ -245,6 +250,258 @@ describe("PhotoOrganizerService", () => {
     );
   });
 
+  describe("RAW+JPEG pairs", () => {
+    it(
+      "moves both files of a pair into the JPEG's folder under one name",
+      withMockedLogger(async (_logger: MockLogger) => {
+        mockReaddir.mockResolvedValue([
+          { name: "IMG_0001.CR3", isFile: () => true },
+          { name: "IMG_0001.JPG", isFile: () => true },
+        ]);
+        // Only the JPEG has readable EXIF
+        mockExtractMetadata.mockImplementation(async (filePath: unknown) =>
+          String(filePath).endsWith(".JPG")
+            ? { dateTaken: "2021-08-01T12:00:00Z", camera: "Canon EOS R5" }
+            : {},
+        );
+        const dayDir = path.join(targetDir, "2021", "08", "01");
+        // A RAW file of the same name is already in the target folder
+        mockAccess.mockImplementation(async (p: unknown) => {
+          if (p !== path.join(dayDir, "IMG_0001.CR3")) {
+            throw new Error("ENOENT");
+          }
+        });
+
+        const result = await service.organize({
+          sourceDir,
+          targetDir,
+          dateFormat: "YYYY/MM/DD",
+          useDateCreated: true,
+        });
+
+        expect(result.rawJpegPairs).toBe(1);
+        expect(result.movedFiles.map((f) => f.currentPath).sort()).toEqual([
+          path.join(dayDir, "IMG_0001 (1).CR3"),
+          path.join(dayDir, "IMG_0001 (1).JPG"),
+        ]);
+      }),
+    );
+  });
+
+  describe("bursts, brackets and Live Photos", () => {
+    const at = (ms: number) =>
+      new Date(Date.UTC(2022, 6, 4, 12, 0, 0) + ms).toISOString();
+
+    it(
+      "previews bursts and brackets in subfolders of their own",
+      withMockedLogger(async (_logger: MockLogger) => {
+        const shots: Record<string, { ms: number; ev?: number }> = {
+          "B1.jpg": { ms: 0 },
+          "B2.jpg": { ms: 300 },
+          "B3.jpg": { ms: 600 },
+          "K1.jpg": { ms: 10_000, ev: 0 },
+          "K2.jpg": { ms: 10_500, ev: -2 },
+          "K3.jpg": { ms: 11_000, ev: 2 },
+          "single.jpg": { ms: 60_000 },
+        };
+        mockReaddir.mockResolvedValue(
+          Object.keys(shots).map((name) => ({ name, isFile: () => true })),
+        );
+        mockExtractMetadata.mockImplementation(async (filePath: unknown) => {
+          const shot = shots[path.basename(String(filePath))]!;
+          return {
+            dateTaken: at(shot.ms),
+            camera: "Sony ILCE-7M3",
+            exposureCompensation: shot.ev,
+          };
+        });
+
+        const result = await service.organize({
+          sourceDir,
+          targetDir,
+          dateFormat: "YYYY/MM/DD",
+          dryRun: true,
+          groupSequences: true,
+        });
+
+        const dayDir = path.join(targetDir, "2022", "07", "04");
+        expect(result.burstGroups).toBe(1);
+        expect(result.bracketGroups).toBe(1);
+        expect(result.groups).toEqual([
+          {
+            type: "burst",
+            files: ["B1.jpg", "B2.jpg", "B3.jpg"].map((f) =>
+              path.join(sourceDir, f),
+            ),
+            targetDir: path.join(dayDir, "Burst B1"),
+          },
+          {
+            type: "bracket",
+            files: ["K1.jpg", "K2.jpg", "K3.jpg"].map((f) =>
+              path.join(sourceDir, f),
+            ),
+            targetDir: path.join(dayDir, "Bracket K1"),
+          },
+        ]);
+        expect(result.structure).toEqual({
+          [path.join(dayDir, "Burst B1")]: 3,
+          [path.join(dayDir, "Bracket K1")]: 3,
+          [dayDir]: 1,
+        });
+      }),
+    );
+
+    it(
+      "moves the video of a Live Photo next to its still",
+      withMockedLogger(async (_logger: MockLogger) => {
+        mockReaddir.mockResolvedValue([
+          { name: "IMG_0042.HEIC", isFile: () => true },
+          { name: "IMG_0042.MOV", isFile: () => true },
+          { name: "clip.mov", isFile: () => true },
+        ]);
+        mockExtractMetadata.mockImplementation(async (filePath: unknown) =>
+          String(filePath).endsWith(".HEIC")
+            ? { dateTaken: at(0), camera: "Apple iPhone 12" }
+            : { dateTaken: at(86_400_000) },
+        );
+
+        const result = await service.organize({
+          sourceDir,
+          targetDir,
+          dateFormat: "YYYY/MM/DD",
+        });
+
+        const dayDir = path.join(targetDir, "2022", "07", "04");
+        expect(result.livePhotos).toBe(1);
+        expect(result.movedFiles.map((f) => f.currentPath).sort()).toEqual([
+          path.join(dayDir, "IMG_0042.HEIC"),
+          path.join(dayDir, "IMG_0042.MOV"),
+        ]);
+      }),
+    );
+  });
+
+  describe("location folders", () => {
+    const at = (minutes: number) =>
+      new Date(Date.UTC(2024, 3, 20, 9, 0, 0) + minutes * 60_000).toISOString();
+
+    it(
+      "names folders after the nearest place and lets nearby shots inherit it",
+      withMockedLogger(async (_logger: MockLogger) => {
+        const shots: Record<string, Record<string, unknown>> = {
+          "tram.jpg": { minutes: 0, latitude: 38.711, longitude: -9.139 },
+          "cafe.jpg": { minutes: 20 },
+          "evening.jpg": { minutes: 300 },
+          "other-camera.jpg": { minutes: 1, camera: "Apple iPhone 15" },
+          "ocean.jpg": { minutes: 200, latitude: 30, longitude: -40 },
+        };
+        mockReaddir.mockResolvedValue(
+          Object.keys(shots).map((name) => ({ name, isFile: () => true })),
+        );
+        mockExtractMetadata.mockImplementation(async (filePath: unknown) => {
+          const { minutes, camera, ...gps } =
+            shots[path.basename(String(filePath))]!;
+          return {
+            dateTaken: at(minutes as number),
+            camera: camera ?? "Fujifilm X100V",
+            ...gps,
+          };
+        });
+
+        const result = await service.organize({
+          sourceDir,
+          targetDir,
+          dateFormat: "YYYY",
+          dryRun: true,
+          groupByLocation: true,
+        });
+
+        const yearDir = path.join(targetDir, "2024");
+        expect(result.geotaggedFiles).toBe(2);
+        expect(result.inheritedLocations).toBe(1);
+        expect(result.structure).toEqual({
+          [path.join(yearDir, "Lisbon, Portugal")]: 2,
+          [yearDir]: 3,
+        });
+
+        const byCountry = await service.organize({
+          sourceDir,
+          targetDir,
+          dateFormat: "YYYY",
+          dryRun: true,
+          groupByLocation: true,
+          locationGranularity: "country",
+          locationInheritMinutes: 0,
+        });
+
+        expect(byCountry.inheritedLocations).toBe(0);
+        expect(byCountry.structure).toEqual({
+          [path.join(yearDir, "Portugal")]: 1,
+          [yearDir]: 4,
+        });
+      }),
+    );
+  });
+
+  describe("clock offsets", () => {
+    it(
+      "moves photos to the day their corrected time falls on",
+      withMockedLogger(async (_logger: MockLogger) => {
+        const shots: Record<string, Record<string, unknown>> = {
+          "late.jpg": {
+            camera: "Canon EOS R5",
+            dateTaken: new Date(2024, 4, 1, 23, 30).toISOString(),
+          },
+          "gps.jpg": {
+            camera: "Apple iPhone 15",
+            dateTaken: new Date(2024, 4, 1, 22, 0).toISOString(),
+            gpsTimestamp: new Date(Date.UTC(2024, 4, 2, 1, 0)).toISOString(),
+          },
+          "right.jpg": {
+            camera: "Fujifilm X100V",
+            dateTaken: new Date(2024, 4, 1, 12, 0).toISOString(),
+          },
+        };
+        mockReaddir.mockResolvedValue(
+          Object.keys(shots).map((name) => ({ name, isFile: () => true })),
+        );
+        mockExtractMetadata.mockImplementation(
+          async (filePath: unknown) => shots[path.basename(String(filePath))],
+        );
+
+        const result = await service.organize({
+          sourceDir,
+          targetDir,
+          dateFormat: "YYYY/MM/DD",
+          dryRun: true,
+          clockOffsets: { "Canon EOS R5": 3600 },
+          clockFromGPS: true,
+          timeZone: "UTC",
+        });
+
+        expect(result.correctedDates).toBe(2);
+        expect(result.clockOffsets).toEqual([
+          {
+            camera: "Apple iPhone 15",
+            offsetSeconds: 10800,
+            source: "gps",
+            samples: 1,
+          },
+          {
+            camera: "Canon EOS R5",
+            offsetSeconds: 3600,
+            source: "manual",
+            samples: 0,
+          },
+        ]);
+        expect(result.structure).toEqual({
+          [path.join(targetDir, "2024", "05", "02")]: 2,
+          [path.join(targetDir, "2024", "05", "01")]: 1,
+        });
+      }),
+    );
+  });
+
   describe("cross-device EXDEV fallback", () => {
     it(
       "falls back to copyFile and unlink when rename rejects with EXDEV",
@@ -0,0 +1,200 @@
+/**
+ * File Organizer MCP Server - Quarantine Service Tests
+ * Tests moving flagged files into quarantine, listing and inspecting them,
+ * and releasing or purging them again
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+  jest,
+} from "@jest/globals";
+import { QuarantineService } from "../../../src/services/quarantine.service.js";
+import { ContentScreeningService } from "../../../src/services/content-screening.service.js";
+
+const EXE = Buffer.concat([Buffer.from("MZ"), Buffer.alloc(500, 1)]);
+const PDF = Buffer.from("%PDF-1.4\n%%EOF\n");
+const isPosix = process.platform !== "win32";
+
+describe("QuarantineService", () => {
+  let testDir: string;
+  let storeDir: string;
+  let history: { log: jest.Mock<(entry: unknown) => Promise<void>> };
+  let service: QuarantineService;
+
+  beforeEach(async () => {
+    const baseTempDir = path.join(process.cwd(), "tests", "temp");
+    await fs.mkdir(baseTempDir, { recursive: true });
+    testDir = await fs.mkdtemp(path.join(baseTempDir, "quarantine-"));
+    storeDir = path.join(testDir, ".quarantine");
+    history = { log: jest.fn(() => Promise.resolve()) };
+    service = new QuarantineService(
+      storeDir,
+      new ContentScreeningService(),
+      history,
+    );
+  });
+
+  afterEach(async () => {
+    await fs.chmod(testDir, 0o755).catch(() => {});
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it("quarantines only files at or above the threat level", async () => {
+    const invoice = path.join(testDir, "invoice.pdf");
+    const report = path.join(testDir, "report.pdf");
+    await fs.writeFile(invoice, EXE, { mode: 0o644 });
+    await fs.writeFile(report, PDF);
+
+    const dryRun = await service.screenAndQuarantine([invoice, report], {
+      dryRun: true,
+    });
+    expect(dryRun.screened).toBe(2);
+    expect(dryRun.flagged.map((r) => r.filePath)).toEqual([invoice]);
+    expect(dryRun.quarantined).toEqual([]);
+    await expect(fs.access(invoice)).resolves.toBeUndefined();
+
+    const result = await service.screenAndQuarantine([invoice, report]);
+
+    expect(result.errors).toEqual([]);
+    expect(result.quarantined).toHaveLength(1);
+    const record = result.quarantined[0]!;
+    expect(record.originalPath).toBe(invoice);
+    expect(record.storedName).toBe(`${record.id}.quarantined`);
+    expect(record.screenResult.threatLevel).toBe("high");
+    expect(record.reason).toMatch(/executable/i);
+
+    await expect(fs.access(invoice)).rejects.toThrow();
+    await expect(fs.access(report)).resolves.toBeUndefined();
+    const stored = path.join(storeDir, record.storedName);
+    expect((await fs.readFile(stored)).equals(EXE)).toBe(true);
+    if (isPosix) {
+      expect((await fs.stat(stored)).mode & 0o777).toBe(0o400);
+      expect((await fs.stat(storeDir)).mode & 0o777).toBe(0o700);
+    }
+
+    expect(history.log).toHaveBeenCalledWith(
+      expect.objectContaining({ operation: "quarantine", status: "success" }),
+    );
+  });
+
+  it("lists and inspects quarantined items", async () => {
+    const invoice = path.join(testDir, "invoice.pdf");
+    await fs.writeFile(invoice, EXE);
+    const { quarantined } = await service.screenAndQuarantine([invoice]);
+    const id = quarantined[0]!.id;
+
+    const listed = await service.list();
+    expect(listed.map((r) => r.id)).toEqual([id]);
+    expect(listed[0]!.screenResult.timestamp).toBeInstanceOf(Date);
+
+    const inspection = await service.inspect(id);
+    expect(inspection.present).toBe(true);
+    expect(inspection.intact).toBe(true);
+    expect(inspection.storedPath).toBe(
+      path.join(storeDir, `${id}.quarantined`),
+    );
+
+    await expect(service.inspect("../../etc/passwd")).rejects.toThrow(
+      "Invalid quarantine ID format",
+    );
+    await expect(
+      service.inspect("00000000-0000-0000-0000-000000000000"),
+    ).rejects.toThrow("Quarantined item not found");
+  });
+
+  it("ignores a sidecar that points somewhere else", async () => {
+    const invoice = path.join(testDir, "invoice.pdf");
+    await fs.writeFile(invoice, EXE);
+    const { quarantined } = await service.screenAndQuarantine([invoice]);
+    const id = quarantined[0]!.id;
+
+    const sidecar = path.join(storeDir, `${id}.json`);
+    const record = JSON.parse(await fs.readFile(sidecar, "utf8"));
+    await fs.writeFile(
+      sidecar,
+      JSON.stringify({ ...record, id: "other", storedName: "../x" }),
+    );
+
+    const inspection = await service.inspect(id);
+    expect(inspection.id).toBe(id);
+    expect(inspection.storedPath).toBe(
+      path.join(storeDir, `${id}.quarantined`),
+    );
+  });
+
+  it("releases a file to its original path with its permissions", async () => {
+    const invoice = path.join(testDir, "invoice.pdf");
+    await fs.writeFile(invoice, EXE, { mode: 0o640 });
+    await fs.chmod(invoice, 0o640);
+    const { quarantined } = await service.screenAndQuarantine([invoice]);
+    const id = quarantined[0]!.id;
+
+    await fs.writeFile(invoice, "new file with the same name");
+    await expect(service.release(id)).rejects.toThrow("already exists");
+    await fs.rm(invoice);
+
+    await expect(service.release(id)).resolves.toBe(invoice);
+    expect((await fs.readFile(invoice)).equals(EXE)).toBe(true);
+    if (isPosix) {
+      expect((await fs.stat(invoice)).mode & 0o777).toBe(0o640);
+    }
+    expect(await service.list()).toEqual([]);
+    expect(history.log).toHaveBeenLastCalledWith(
+      expect.objectContaining({ operation: "quarantine_release" }),
+    );
+  });
+
+  it("releases to another path", async () => {
+    const invoice = path.join(testDir, "invoice.pdf");
+    await fs.writeFile(invoice, EXE);
+    const { quarantined } = await service.screenAndQuarantine([invoice]);
+
+    const target = path.join(testDir, "reviewed", "invoice.exe");
+    await service.release(quarantined[0]!.id, target);
+
+    expect((await fs.readFile(target)).equals(EXE)).toBe(true);
+    await expect(fs.access(invoice)).rejects.toThrow();
+  });
+
+  it("purges items, and nothing when an id is unknown", async () => {
+    const first = path.join(testDir, "first.pdf");
+    const second = path.join(testDir, "second.jpg");
+    await fs.writeFile(first, EXE);
+    await fs.writeFile(second, EXE);
+    const { quarantined } = await service.screenAndQuarantine([first, second]);
+    const ids = quarantined.map((r) => r.id);
+    expect(ids).toHaveLength(2);
+
+    await expect(
+      service.purge([ids[0]!, "00000000-0000-0000-0000-000000000000"]),
+    ).rejects.toThrow("Quarantined item not found");
+    expect(await service.list()).toHaveLength(2);
+
+    await expect(service.purge(ids)).resolves.toEqual(ids);
+    expect(await service.list()).toEqual([]);
+    expect(await fs.readdir(storeDir)).toEqual([]);
+    expect(history.log).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        operation: "quarantine_purge",
+        filesProcessed: 2,
+      }),
+    );
+  });
+
+  it("does not screen files already in quarantine", async () => {
+    const invoice = path.join(testDir, "invoice.pdf");
+    await fs.writeFile(invoice, EXE);
+    const { quarantined } = await service.screenAndQuarantine([invoice]);
+    const stored = path.join(storeDir, quarantined[0]!.storedName);
+
+    const again = await service.screenAndQuarantine([stored]);
+    expect(again.screened).toBe(0);
+    expect(await service.list()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * File Organizer MCP Server - Reverse Geocoder Tests
+ * Tests for nearest-place lookup against the bundled gazetteer and place
+ * names at each granularity
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { ReverseGeocoderService } from "../../../src/services/reverse-geocoder.service.js";
+
+describe("ReverseGeocoderService", () => {
+  const geocoder = new ReverseGeocoderService();
+
+  it("finds the nearest bundled place", () => {
+    // Sintra, about 25 km from Lisbon
+    const place = geocoder.lookup(38.8, -9.39);
+
+    expect(place).toMatchObject({
+      city: "Lisbon",
+      country: "Portugal",
+      countryCode: "PT",
+    });
+    expect(place!.distanceKm).toBeGreaterThan(20);
+    expect(place!.distanceKm).toBeLessThan(30);
+  });
+
+  it("names places at country, region and city granularity", () => {
+    const [lat, lon] = [37.8, -122.27];
+
+    expect(geocoder.describe(lat, lon, "city")).toBe(
+      "San Francisco, United States",
+    );
+    expect(geocoder.describe(lat, lon, "region")).toBe(
+      "California, United States",
+    );
+    expect(geocoder.describe(lat, lon, "country")).toBe("United States");
+    expect(geocoder.describe(1.29, 103.85)).toBe("Singapore");
+  });
+
+  it("returns null far from every place and for 0,0 coordinates", () => {
+    expect(geocoder.lookup(30, -40, 500)).toBeNull();
+    expect(geocoder.describe(30, -40)).toBeNull();
+    expect(geocoder.lookup(0, 0)).toBeNull();
+    expect(geocoder.lookup(91, 0)).toBeNull();
+  });
+
+  it("searches the places it is given", () => {
+    const custom = new ReverseGeocoderService([
+      {
+        city: "Hometown",
+        region: "Home County",
+        country: "Homeland",
+        countryCode: "HL",
+        latitude: 10,
+        longitude: 10,
+      },
+    ]);
+
+    expect(custom.describe(10.2, 10.1, "region")).toBe("Home County, Homeland");
+  });
+});
@@ -6,6 +6,7 @@ import path from 'path';
 // Assuming RollbackService exists. If not, I'll find it.
 // The task says "tests/unit/services/rollback.test.ts".
 import { RollbackService } from '../../../src/services/rollback.service.js';
+import { manifestIntegrityService } from '../../../src/services/manifest-integrity.service.js';
 
 describe('Rollback Service', () => {
     let rollbackService: RollbackService;
@@ -89,4 +90,214 @@ describe('Rollback Service', () => {
             await fs.rm(externalDir, { recursive: true, force: true }).catch(() => { });
         }
     });
+
+    describe('multi-level undo', () => {
+        const exists = (p: string) => fs.access(p).then(() => true).catch(() => false);
+
+        async function recordMove(name: string, content = 'content') {
+            const src = path.join(testDir, name);
+            const dest = path.join(testDir, 'Moved', name);
+            await fs.writeFile(src, content);
+            await fs.mkdir(path.dirname(dest), { recursive: true });
+            await fs.rename(src, dest);
+            const id = await rollbackService.createManifest(`Move ${name}`, [
+                { type: 'move', originalPath: src, currentPath: dest, timestamp: Date.now() }
+            ]);
+            return { src, dest, id };
+        }
+
+        it('records a fingerprint and previews without moving files', async () => {
+            const { src, dest, id } = await recordMove('preview.txt');
+
+            const manifest = await rollbackService.getManifest(id);
+            expect(manifest.actions[0]!.fingerprint).toMatchObject({ size: 7 });
+            expect(manifest.actions[0]!.fingerprint!.hash).toHaveLength(64);
+
+            const result = await rollbackService.rollback(id, { dryRun: true });
+            expect(result.dryRun).toBe(true);
+            expect(result.conflicts).toEqual([]);
+            expect(result.steps).toEqual([
+                { manifestId: id, type: 'move', from: dest, to: src }
+            ]);
+            expect(await exists(dest)).toBe(true);
+            expect(await exists(src)).toBe(false);
+        });
+
+        it('reports a conflict instead of moving a file modified after the operation', async () => {
+            const { src, dest, id } = await recordMove('edited.txt');
+            await fs.writeFile(dest, 'content changed later');
+
+            const result = await rollbackService.rollback(id);
+
+            expect(result.success).toBe(0);
+            expect(result.conflicts).toEqual([
+                expect.objectContaining({ path: dest, reason: 'File was modified after the operation' })
+            ]);
+            expect(await exists(dest)).toBe(true);
+            expect(await exists(src)).toBe(false);
+            // Manifest is kept so the user can resolve the conflict and retry
+            await expect(rollbackService.getManifest(id)).resolves.toBeDefined();
+        });
+
+        it('reports a conflict when the original location is occupied', async () => {
+            const { src, id } = await recordMove('occupied.txt');
+            await fs.writeFile(src, 'new file');
+
+            const result = await rollbackService.rollback(id);
+
+            expect(result.conflicts).toEqual([
+                expect.objectContaining({ path: src, reason: 'Original location is occupied' })
+            ]);
+            expect(await fs.readFile(src, 'utf-8')).toBe('new file');
+        });
+
+        it('accepts a changed mtime when the content hash still matches', async () => {
+            const { src, dest, id } = await recordMove('touched.txt');
+            const later = new Date(Date.now() + 60_000);
+            await fs.utimes(dest, later, later);
+
+            const result = await rollbackService.rollback(id);
+
+            expect(result.conflicts).toEqual([]);
+            expect(result.success).toBe(1);
+            expect(await exists(src)).toBe(true);
+        });
+
+        it('keeps the manifest ID and signature valid when updating actions', async () => {
+            const { id } = await recordMove('first.txt');
+            const second = await recordMove('second.txt');
+            const first = await rollbackService.getManifest(id);
+            const secondManifest = await rollbackService.getManifest(second.id);
+
+            await rollbackService.updateManifest(id, 'Both moves', [
+                ...first.actions,
+                ...secondManifest.actions
+            ]);
+
+            const updated = await rollbackService.getManifest(id);
+            expect(updated.timestamp).toBe(first.timestamp);
+            expect(updated.description).toBe('Both moves');
+            expect(updated.actions).toHaveLength(2);
+        });
+
+        it('filters manifests by search text and time range', async () => {
+            const before = Date.now();
+            const { id } = await recordMove('findme-report.txt');
+            await recordMove('other.txt');
+
+            const bySearch = await rollbackService.listManifests({
+                search: path.join(testDir, 'FINDME')
+            });
+            expect(bySearch.map((m) => m.id)).toEqual([id]);
+
+            const inRange = await rollbackService.listManifests({ since: before, search: testDir });
+            expect(inRange).toHaveLength(2);
+
+            const none = await rollbackService.listManifests({ until: before - 1, search: testDir });
+            expect(none).toHaveLength(0);
+        });
+
+        it('rolls back chained operations since a point in time, newest first', async () => {
+            const since = Date.now();
+            const { src, dest } = await recordMove('chain.txt');
+            const renamed = path.join(testDir, 'Moved', 'chain-renamed.txt');
+            await new Promise((resolve) => setTimeout(resolve, 5));
+            await fs.rename(dest, renamed);
+            await rollbackService.createManifest('Rename chain.txt', [
+                { type: 'rename', originalPath: dest, currentPath: renamed, timestamp: Date.now() }
+            ]);
+
+            const preview = await rollbackService.rollbackSince(since, { dryRun: true });
+            expect(preview.conflicts).toEqual([]);
+            expect(preview.steps.map((s) => [s.from, s.to])).toEqual([
+                [renamed, dest],
+                [dest, src]
+            ]);
+            expect(await exists(renamed)).toBe(true);
+
+            const result = await rollbackService.rollbackSince(since);
+            expect(result.failed).toBe(0);
+            expect(result.success).toBe(2);
+            expect(await exists(src)).toBe(true);
+            expect(await exists(renamed)).toBe(false);
+        });
+    });
+
+    describe('partial rollback', () => {
+        const exists = (p: string) => fs.access(p).then(() => true).catch(() => false);
+
+        async function organize(files: Array<[name: string, category: string]>) {
+            const actions = [];
+            for (const [name, category] of files) {
+                const src = path.join(testDir, name);
+                const dest = path.join(testDir, category, name);
+                await fs.writeFile(src, name);
+                await fs.mkdir(path.dirname(dest), { recursive: true });
+                await fs.rename(src, dest);
+                actions.push({ type: 'move' as const, originalPath: src, currentPath: dest, category, timestamp: Date.now() });
+            }
+            return rollbackService.createManifest('Organization', actions);
+        }
+
+        it('undoes only the selected category and re-signs the remaining actions', async () => {
+            const id = await organize([['report.pdf', 'Documents'], ['photo.jpg', 'Images'], ['notes.txt', 'Documents']]);
+
+            const result = await rollbackService.rollback(id, { select: { categories: ['documents'] } });
+
+            expect(result.success).toBe(2);
+            expect(result.remainingActions).toBe(1);
+            expect(await exists(path.join(testDir, 'report.pdf'))).toBe(true);
+            expect(await exists(path.join(testDir, 'notes.txt'))).toBe(true);
+            expect(await exists(path.join(testDir, 'Images', 'photo.jpg'))).toBe(true);
+
+            const raw = JSON.parse(
+                await fs.readFile(path.join(process.cwd(), '.file-organizer-rollbacks', `${id}.json`), 'utf-8')
+            );
+            expect(manifestIntegrityService.verifyManifest(raw)).toEqual({ valid: true });
+            expect(raw.actions.map((a: { category: string }) => a.category)).toEqual(['Images']);
+
+            // The rest can still be undone, which removes the manifest
+            const rest = await rollbackService.rollback(id);
+            expect(rest.success).toBe(1);
+            expect(rest.remainingActions).toBe(0);
+            expect(await exists(path.join(testDir, 'photo.jpg'))).toBe(true);
+            await expect(rollbackService.getManifest(id)).rejects.toThrow('not found');
+        });
+
+        it('selects actions by glob on the original or current path', async () => {
+            const id = await organize([['a.pdf', 'Documents'], ['b.jpg', 'Images'], ['c.pdf', 'Archive']]);
+
+            const byName = await rollbackService.rollback(id, { dryRun: true, select: { paths: ['*.pdf'] } });
+            expect(byName.steps.map((s) => path.basename(s.to!))).toEqual(['c.pdf', 'a.pdf']);
+
+            const byFolder = await rollbackService.rollback(id, {
+                select: { paths: [`${testDir}/Images/**`] }
+            });
+            expect(byFolder.success).toBe(1);
+            expect(byFolder.remainingActions).toBe(2);
+            expect(await exists(path.join(testDir, 'b.jpg'))).toBe(true);
+        });
+
+        it('combines criteria and leaves the manifest untouched on a dry run', async () => {
+            const id = await organize([['a.pdf', 'Documents'], ['b.pdf', 'Documents'], ['c.jpg', 'Images']]);
+
+            const preview = await rollbackService.rollback(id, {
+                dryRun: true,
+                select: { indices: [1, 2], categories: ['Documents'] }
+            });
+
+            expect(preview.steps).toHaveLength(1);
+            expect(preview.steps[0]!.to).toBe(path.join(testDir, 'b.pdf'));
+            expect(preview.remainingActions).toBe(2);
+            expect((await rollbackService.getManifest(id)).actions).toHaveLength(3);
+        });
+
+        it('rejects a selection that matches nothing', async () => {
+            const id = await organize([['a.pdf', 'Documents']]);
+
+            await expect(
+                rollbackService.rollback(id, { select: { categories: ['Videos'] } })
+            ).rejects.toThrow('No actions');
+        });
+    });
 });
@@ -0,0 +1,353 @@
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import fs from "fs/promises";
+import path from "path";
+import os from "os";
+import { RulesEngineService } from "../../../src/services/rules-engine.service.js";
+import { OrganizerService } from "../../../src/services/organizer.service.js";
+import { CategorizerService } from "../../../src/services/categorizer.service.js";
+import { parseOrganizationRules } from "../../../src/schemas/rules.schemas.js";
+import type { FileWithSize, OrganizationRule } from "../../../src/types.js";
+
+function rule(
+  partial: Partial<OrganizationRule> &
+    Pick<OrganizationRule, "name" | "conditions" | "action">,
+): OrganizationRule {
+  return { enabled: true, priority: 0, ...partial };
+}
+
+describe("parseOrganizationRules", () => {
+  it("should accept a valid nested rule and apply defaults", () => {
+    const { rules, errors } = parseOrganizationRules([
+      {
+        name: "Big old videos",
+        conditions: {
+          all: [
+            { field: "size", op: "gt", value: "100MB" },
+            { not: { field: "age_days", op: "lt", value: 30 } },
+          ],
+        },
+        action: { type: "move", destination: "Archive/{year}" },
+      },
+    ]);
+
+    expect(errors).toEqual([]);
+    expect(rules).toHaveLength(1);
+    expect(rules[0]?.enabled).toBe(true);
+    expect(rules[0]?.priority).toBe(0);
+  });
+
+  it("should convert legacy pattern/destination rules", () => {
+    const { rules, errors } = parseOrganizationRules([
+      { pattern: "*.pdf", destination: "Documents/PDFs" },
+    ]);
+
+    expect(errors).toEqual([]);
+    expect(rules[0]?.conditions).toEqual({
+      field: "name",
+      op: "glob",
+      value: "*.pdf",
+    });
+    expect(rules[0]?.action).toEqual({
+      type: "move",
+      destination: "Documents/PDFs",
+    });
+  });
+
+  it("should drop invalid rules and report them without failing the set", () => {
+    const { rules, errors } = parseOrganizationRules([
+      {
+        name: "escape",
+        conditions: { field: "name", op: "glob", value: "*" },
+        action: { type: "move", destination: "../outside" },
+      },
+      {
+        name: "bad field",
+        conditions: { field: "owner", op: "eq", value: "root" },
+        action: { type: "skip" },
+      },
+      {
+        name: "ok",
+        conditions: { field: "extension", op: "eq", value: "tmp" },
+        action: { type: "skip" },
+      },
+    ]);
+
+    expect(rules.map((r) => r.name)).toEqual(["ok"]);
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toContain('"escape"');
+  });
+
+  it("should reject regexes with nested quantifiers", () => {
+    const { rules, errors } = parseOrganizationRules([
+      {
+        name: "redos",
+        conditions: { field: "name", op: "regex", value: "(a+)+$" },
+        action: { type: "skip" },
+      },
+    ]);
+
+    expect(rules).toHaveLength(0);
+    expect(errors[0]).toContain("nested quantifiers");
+  });
+});
+
+describe("RulesEngineService", () => {
+  let engine: RulesEngineService;
+  const directory = path.join(os.tmpdir(), "rules-root");
+
+  const file = (
+    name: string,
+    size = 100,
+    modified = new Date(),
+  ): FileWithSize => ({
+    name,
+    path: path.join(directory, "inbox", name),
+    size,
+    modified,
+  });
+
+  beforeEach(() => {
+    engine = new RulesEngineService();
+  });
+
+  it("should pick the highest priority terminal rule", async () => {
+    const rules = [
+      rule({
+        name: "low",
+        priority: 1,
+        conditions: { field: "extension", op: "eq", value: ".pdf" },
+        action: { type: "move", destination: "Low" },
+      }),
+      rule({
+        name: "high",
+        priority: 10,
+        conditions: { field: "name", op: "glob", value: "invoice-*.pdf" },
+        action: { type: "move", destination: "Invoices" },
+      }),
+    ];
+
+    const result = await engine.evaluate(rules, {
+      file: file("invoice-42.pdf"),
+      directory,
+      category: "Documents",
+    });
+
+    expect(result.rule).toBe("high");
+    expect(result.action).toEqual({ type: "move", destination: "Invoices" });
+  });
+
+  it("should accumulate tags and continue to a terminal rule", async () => {
+    const rules = [
+      rule({
+        name: "tag-large",
+        conditions: { field: "size", op: "gte", value: "1KB" },
+        action: { type: "tag", tags: ["large"] },
+      }),
+      rule({
+        name: "skip-tmp",
+        conditions: {
+          any: [
+            { field: "extension", op: "in", value: ["tmp", "part"] },
+            { field: "path", op: "contains", value: "cache/" },
+          ],
+        },
+        action: { type: "skip", reason: "temporary" },
+      }),
+    ];
+
+    const result = await engine.evaluate(rules, {
+      file: file("download.part", 4096),
+      directory,
+      category: "Others",
+    });
+
+    expect(result.tags).toEqual(["large"]);
+    expect(result.matchedRules).toEqual(["tag-large", "skip-tmp"]);
+    expect(result.rule).toBe("skip-tmp");
+  });
+
+  it("should evaluate age and path conditions", async () => {
+    const old = new Date(Date.now() - 90 * 24 * 60 * 60 * 1000);
+    const rules = [
+      rule({
+        name: "stale inbox",
+        conditions: {
+          all: [
+            { field: "age_days", op: "gt", value: 60 },
+            { field: "path", op: "starts_with", value: "inbox/" },
+          ],
+        },
+        action: { type: "quarantine" },
+      }),
+    ];
+
+    const stale = await engine.evaluate(rules, {
+      file: file("a.txt", 10, old),
+      directory,
+      category: "Documents",
+    });
+    const fresh = await engine.evaluate(rules, {
+      file: file("b.txt", 10),
+      directory,
+      category: "Documents",
+    });
+
+    expect(stale.rule).toBe("stale inbox");
+    expect(fresh.rule).toBeUndefined();
+  });
+
+  it("should ignore disabled rules and treat missing metadata as non-matching", async () => {
+    const rules = [
+      rule({
+        name: "disabled",
+        enabled: false,
+        conditions: { field: "name", op: "glob", value: "*" },
+        action: { type: "skip" },
+      }),
+      rule({
+        name: "canon",
+        conditions: { field: "exif.cameraMake", op: "eq", value: "Canon" },
+        action: { type: "move", destination: "Canon" },
+      }),
+    ];
+
+    const result = await engine.evaluate(rules, {
+      file: file("notes.txt"),
+      directory,
+      category: "Documents",
+    });
+
+    expect(result.rule).toBeUndefined();
+    expect(result.matchedRules).toEqual([]);
+  });
+});
+
+describe("OrganizerService with organization rules", () => {
+  let organizer: OrganizerService;
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), "test-rules-"));
+    organizer = new OrganizerService(new CategorizerService());
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it("should report the matched rule and skipped files in the plan", async () => {
+    const files: FileWithSize[] = [
+      {
+        name: "scan.pdf",
+        path: path.join(testDir, "scan.pdf"),
+        size: 10,
+        modified: new Date(2024, 2, 5),
+      },
+      {
+        name: "junk.tmp",
+        path: path.join(testDir, "junk.tmp"),
+        size: 10,
+        modified: new Date(),
+      },
+      {
+        name: "photo.jpg",
+        path: path.join(testDir, "photo.jpg"),
+        size: 10,
+        modified: new Date(),
+      },
+    ];
+    const { rules } = parseOrganizationRules([
+      {
+        name: "pdfs by year",
+        conditions: { field: "extension", op: "eq", value: "pdf" },
+        action: { type: "move", destination: "Paperwork/{year}" },
+      },
+      {
+        name: "no temp files",
+        conditions: { field: "extension", op: "eq", value: ".tmp" },
+        action: { type: "skip" },
+      },
+    ]);
+
+    const plan = await organizer.generateOrganizationPlan(
+      testDir,
+      files,
+      "rename",
+      false,
+      { rules },
+    );
+
+    const pdf = plan.moves.find((m) => m.source.endsWith("scan.pdf"));
+    expect(pdf?.matchedRule).toBe("pdfs by year");
+    expect(pdf?.destination).toBe(
+      path.join(testDir, "Paperwork", "2024", "scan.pdf"),
+    );
+
+    const photo = plan.moves.find((m) => m.source.endsWith("photo.jpg"));
+    expect(photo?.matchedRule).toBeUndefined();
+    expect(photo?.destination).toContain("Images");
+
+    expect(plan.skippedFiles).toEqual([
+      {
+        path: path.join(testDir, "junk.tmp"),
+        reason: 'Skipped by rule "no temp files"',
+      },
+    ]);
+  });
+
+  it("should copy files for copy rules and leave the source in place", async () => {
+    const source = path.join(testDir, "contract.docx");
+    await fs.writeFile(source, "contract");
+    const { rules } = parseOrganizationRules([
+      {
+        name: "backup contracts",
+        conditions: { field: "name", op: "contains", value: "contract" },
+        action: { type: "copy", destination: "Backups/{category}" },
+      },
+    ]);
+
+    const result = await organizer.organize(
+      testDir,
+      [{ name: "contract.docx", path: source, size: 8, modified: new Date() }],
+      { rules },
+    );
+
+    const copied = path.join(testDir, "Backups", "Documents", "contract.docx");
+    expect(result.actions[0]).toMatchObject({
+      operation: "copy",
+      rule: "backup contracts",
+      to: copied,
+    });
+    expect(await fs.readFile(copied, "utf-8")).toBe("contract");
+    expect(await fs.readFile(source, "utf-8")).toBe("contract");
+  });
+
+  it("should send quarantine matches to the Quarantine folder", async () => {
+    const { rules } = parseOrganizationRules([
+      {
+        name: "suspicious names",
+        conditions: { field: "name", op: "regex", value: "\\.pdf\\.exe$" },
+        action: { type: "quarantine" },
+      },
+    ]);
+
+    const plan = await organizer.generateOrganizationPlan(
+      testDir,
+      [
+        {
+          name: "invoice.pdf.exe",
+          path: path.join(testDir, "invoice.pdf.exe"),
+          size: 1,
+        },
+      ],
+      "rename",
+      false,
+      { rules },
+    );
+
+    expect(plan.moves[0]?.category).toBe("Quarantine");
+    expect(plan.moves[0]?.destination).toBe(
+      path.join(testDir, "Quarantine", "invoice.pdf.exe"),
+    );
+  });
+});
@@ -0,0 +1,400 @@
+/**
+ * File Organizer MCP Server - Signature Rules Tests
+ * Tests parsing YARA-style rules, matching them against file content,
+ * reloading changed rule files and reporting matches during screening
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import {
+  SignatureRuleService,
+  matchSignatureRules,
+  parseSignatureRules,
+} from "../../../src/services/signature-rules.service.js";
+import { ContentScreeningService } from "../../../src/services/content-screening.service.js";
+
+const match = (source: string, content: Buffer | string) => {
+  const { rules, errors } = parseSignatureRules(source);
+  expect(errors).toEqual([]);
+  return matchSignatureRules(
+    rules,
+    Buffer.isBuffer(content) ? content : Buffer.from(content),
+  ).map((m) => m.rule);
+};
+
+describe("parseSignatureRules", () => {
+  it("parses meta, tags, strings and the condition", () => {
+    const { rules, errors } = parseSignatureRules(`
+      // Dropper seen in phishing mail
+      rule Dropper : windows phishing {
+        meta:
+          description = "Invoice dropper"
+          severity = "warning"
+          version = 2
+        strings:
+          $mz = { 4D 5A ?? 00 [2-4] 50 45 }
+          $url = "http://evil.example" nocase wide ascii
+        condition:
+          $mz at 0 and ($url or #mz > 1)
+      }
+    `);
+
+    expect(errors).toEqual([]);
+    expect(rules).toHaveLength(1);
+    const rule = rules[0]!;
+    expect(rule.name).toBe("Dropper");
+    expect(rule.tags).toEqual(["windows", "phishing"]);
+    expect(rule.meta).toEqual({
+      description: "Invoice dropper",
+      severity: "warning",
+      version: 2,
+    });
+    expect(rule.line).toBe(3);
+    expect(rule.strings[0]!.pattern).toEqual({
+      kind: "hex",
+      tokens: [
+        { byte: 0x4d, mask: 0xff },
+        { byte: 0x5a, mask: 0xff },
+        { byte: 0, mask: 0 },
+        { byte: 0, mask: 0xff },
+        { min: 2, max: 4 },
+        { byte: 0x50, mask: 0xff },
+        { byte: 0x45, mask: 0xff },
+      ],
+    });
+    expect(rule.strings[1]!.pattern).toMatchObject({
+      kind: "text",
+      nocase: true,
+      ascii: true,
+      wide: true,
+    });
+  });
+
+  it("reports a broken rule and keeps the rules around it", () => {
+    const { rules, errors } = parseSignatureRules(
+      `
+rule First { condition: filesize > 0 }
+rule Broken {
+  strings:
+    $a = { 4D 5A [2-] }
+  condition:
+    $a
+}
+rule Undefined { strings: $a = "x" condition: $b }
+rule Last { strings: $a = "ok" condition: $a }
+`,
+      "mixed.yar",
+    );
+
+    expect(rules.map((r) => r.name)).toEqual(["First", "Last"]);
+    expect(errors).toEqual([
+      {
+        file: "mixed.yar",
+        line: 5,
+        rule: "Broken",
+        message: "Hex jumps must be [n] or [n-m] with both bounds",
+      },
+      {
+        file: "mixed.yar",
+        line: 9,
+        rule: "Undefined",
+        message: "Undefined string $b",
+      },
+    ]);
+  });
+
+  it("rejects unsupported syntax with a message", () => {
+    const messages = [
+      'rule A { strings: $a = "x" xor condition: $a }',
+      "rule B { strings: $a = { 4D (5A|5B) } condition: $a }",
+      'rule C { meta: severity = "fatal" condition: true }',
+      'rule D { strings: $a = "unterminated condition: $a }',
+      "rule E { condition: filesize }",
+      "rule F { strings: $a = { 4D [0-257] 5A } condition: $a }",
+      "rule G { strings: $a = { 4D [1] 00 [1] 00 [1] 00 [1] 00 [1] 5A } condition: $a }",
+    ].map((source) => parseSignatureRules(source).errors[0]?.message);
+
+    expect(messages).toEqual([
+      'Unsupported string modifier "xor"',
+      "Alternatives in hex strings are not supported",
+      'Meta "severity" must be "warning" or "error"',
+      "Unterminated string",
+      'Expected a comparison operator but found "}"',
+      "Hex jump [0-257] must be ordered and at most 256 bytes",
+      "Hex strings may have at most 4 jumps",
+    ]);
+  });
+});
+
+describe("matchSignatureRules", () => {
+  it("matches hex strings with wildcards, jumps and offsets", () => {
+    const rules = `
+      rule AtStart { strings: $h = { 4D 5A ?? 00 [1-3] FF } condition: $h at 0 }
+      rule InRange { strings: $h = { 4? 5A } condition: $h in (0..10) }
+      rule NotAtOne { strings: $h = { 4D 5A } condition: $h at 1 }
+    `;
+    const content = Buffer.from([0x4d, 0x5a, 0x90, 0x00, 1, 2, 0xff, 0xee]);
+
+    expect(match(rules, content)).toEqual(["AtStart", "InRange"]);
+    expect(match(rules, Buffer.from([0x4d, 0x5a, 0x90, 0x00, 0xff]))).toEqual([
+      "InRange",
+    ]);
+  });
+
+  it("matches chained jumps without backtracking and aborts runaway rules", () => {
+    const { rules } = parseSignatureRules(`
+      rule Chained { strings: $h = { 01 [0-200] 00 [0-200] 00 [0-200] 02 } condition: $h }
+      rule Runaway { strings: $h = { 00 [0-256] 01 } condition: $h }
+      rule Cheap { strings: $h = { ?? 00 00 } condition: #h > 100 }
+    `);
+    const content = Buffer.alloc(256 * 1024);
+    content[0] = 1;
+    content[500] = 2;
+    const failed: string[] = [];
+
+    const started = Date.now();
+    const matches = matchSignatureRules(
+      rules,
+      content,
+      content.length,
+      (rule, error) => failed.push(`${rule.name}: ${error.message}`),
+    );
+
+    expect(Date.now() - started).toBeLessThan(2000);
+    expect(matches.map((m) => m.rule)).toEqual(["Chained", "Cheap"]);
+    expect(failed).toEqual([
+      `Runaway: Hex matching exceeded ${256 * 1024 * 16} steps`,
+    ]);
+  });
+
+  it("matches text strings with modifiers", () => {
+    const rules = `
+      rule Exact { strings: $a = "powershell" condition: $a }
+      rule NoCase { strings: $a = "powershell" nocase condition: $a }
+      rule Wide { strings: $a = "cmd.exe" wide condition: $a }
+      rule Word { strings: $a = "eval" fullword condition: $a }
+    `;
+
+    expect(match(rules, "Run PowerShell -enc")).toEqual(["NoCase"]);
+    expect(match(rules, Buffer.from("start cmd.exe /c", "utf16le"))).toEqual([
+      "Wide",
+    ]);
+    expect(match(rules, "retrieval(x)")).toEqual([]);
+    expect(match(rules, "x = eval(y)")).toEqual(["Word"]);
+  });
+
+  it("evaluates counts, sets, filesize and integer reads", () => {
+    const rules = `
+      rule TwoOf {
+        strings: $a1 = "alpha" $a2 = "beta" $b = "gamma"
+        condition: 2 of ($a*) and not $b
+      }
+      rule AnyOfThem { strings: $x = "beta" $y = "delta" condition: any of them }
+      rule AllOfThem { strings: $x = "alpha" $y = "delta" condition: all of them }
+      rule Repeated { strings: $a = "alpha" condition: #a >= 2 and @a == 0 }
+      rule Small { condition: filesize < 1KB and uint16(0) == 0x6c61 }
+      rule BigEndian { condition: uint16be(0) == 0x616c }
+      rule PastEnd { condition: uint32(100) == 0 or not true }
+    `;
+
+    expect(match(rules, "alpha beta alpha")).toEqual([
+      "TwoOf",
+      "AnyOfThem",
+      "Repeated",
+      "Small",
+      "BigEndian",
+    ]);
+    expect(match(rules, "alpha beta gamma delta")).toEqual([
+      "AnyOfThem",
+      "AllOfThem",
+      "Small",
+      "BigEndian",
+    ]);
+  });
+
+  it("reports severity, description and the matched strings", () => {
+    const { rules } = parseSignatureRules(
+      `rule Marker {
+        meta: description = "Test marker" severity = "warning"
+        strings: $m = "MARKER" $n = "absent"
+        condition: $m or $n
+      }`,
+      "markers.yar",
+    );
+
+    expect(matchSignatureRules(rules, Buffer.from("..MARKER.."))).toEqual([
+      {
+        rule: "Marker",
+        tags: [],
+        severity: "warning",
+        description: "Test marker",
+        file: "markers.yar",
+        strings: [{ identifier: "$m", offset: 2 }],
+      },
+    ]);
+  });
+});
+
+describe("SignatureRuleService", () => {
+  let testDir: string;
+  let rulesDir: string;
+
+  beforeEach(async () => {
+    const baseTempDir = path.join(process.cwd(), "tests", "temp");
+    await fs.mkdir(baseTempDir, { recursive: true });
+    testDir = await fs.mkdtemp(path.join(baseTempDir, "signature-rules-"));
+    rulesDir = path.join(testDir, "rules");
+    await fs.mkdir(rulesDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it("loads rule files and picks up changes without a restart", async () => {
+    const service = new SignatureRuleService({
+      rulesDir,
+      reloadIntervalMs: 0,
+    });
+    const sample = path.join(testDir, "sample.bin");
+    await fs.writeFile(sample, "first second");
+
+    expect((await service.scanFile(sample)).matches).toEqual([]);
+
+    const rulesFile = path.join(rulesDir, "local.yar");
+    await fs.writeFile(
+      rulesFile,
+      'rule First { strings: $a = "first" condition: $a }',
+    );
+    await fs.writeFile(path.join(rulesDir, "notes.txt"), "not a rule file");
+    expect((await service.scanFile(sample)).matches.map((m) => m.rule)).toEqual(
+      ["First"],
+    );
+
+    await fs.writeFile(
+      rulesFile,
+      'rule Second { strings: $a = "second" condition: $a }\nrule {',
+    );
+    await fs.utimes(rulesFile, new Date(), new Date(Date.now() + 5000));
+    expect((await service.scanFile(sample)).matches.map((m) => m.rule)).toEqual(
+      ["Second"],
+    );
+    expect(service.getErrors()).toEqual([
+      expect.objectContaining({ file: rulesFile, line: 2 }),
+    ]);
+
+    await fs.rm(rulesFile);
+    expect(await service.scanFile(sample)).toEqual({
+      matches: [],
+      unevaluated: [],
+    });
+    expect(service.getErrors()).toEqual([]);
+  });
+
+  it("reports a rule that exceeds its budget on one file and keeps using it", async () => {
+    const rulesFile = path.join(rulesDir, "slow.yar");
+    await fs.writeFile(
+      rulesFile,
+      "rule Slow { strings: $h = { 00 [0-256] 01 } condition: $h }",
+    );
+    const padded = path.join(testDir, "zeros.bin");
+    await fs.writeFile(padded, Buffer.alloc(128 * 1024));
+    const sample = path.join(testDir, "sample.bin");
+    await fs.writeFile(sample, Buffer.from([0x00, 0x07, 0x01]));
+    const service = new SignatureRuleService({
+      rulesDir,
+      reloadIntervalMs: 0,
+    });
+
+    expect(await service.scanFile(padded)).toEqual({
+      matches: [],
+      unevaluated: [
+        {
+          rule: "Slow",
+          file: rulesFile,
+          message: `Hex matching exceeded ${128 * 1024 * 16} steps`,
+        },
+      ],
+    });
+    expect(service.getErrors()).toEqual([]);
+    expect((await service.scanFile(sample)).matches.map((m) => m.rule)).toEqual(
+      ["Slow"],
+    );
+
+    const screened = await new ContentScreeningService(service).screen(padded);
+    expect(screened.threatLevel).not.toBe("none");
+    expect(screened.issues).toContainEqual({
+      type: "malicious_content",
+      severity: "warning",
+      message: `Signature rule "Slow" could not be evaluated: Hex matching exceeded ${128 * 1024 * 16} steps`,
+      details: { rule: "Slow", ruleFile: rulesFile },
+    });
+  });
+
+  it("keeps the first of two rules with the same name", async () => {
+    await fs.writeFile(
+      path.join(rulesDir, "a.yar"),
+      'rule Same { strings: $a = "a" condition: $a }',
+    );
+    await fs.writeFile(
+      path.join(rulesDir, "b.rules"),
+      'rule Same { strings: $b = "b" condition: $b }',
+    );
+
+    const service = new SignatureRuleService({ rulesDir });
+    const rules = await service.reload();
+
+    expect(rules.map((r) => path.basename(r.file))).toEqual(["a.yar"]);
+    expect(service.getErrors()[0]!.message).toMatch(/Duplicate rule name/);
+  });
+
+  it("reports matches as malicious content when screening", async () => {
+    await fs.writeFile(
+      path.join(rulesDir, "macros.yar"),
+      `rule AutoOpenMacro : office {
+        meta: description = "Document runs a macro when opened"
+        strings: $auto = "AutoOpen" nocase $shell = "Shell(" nocase
+        condition: all of them
+      }`,
+    );
+    const document = path.join(testDir, "invoice.txt");
+    await fs.writeFile(
+      document,
+      'Sub autoopen()\n  Shell("cmd /c payload")\nEnd Sub\n',
+    );
+    const clean = path.join(testDir, "notes.txt");
+    await fs.writeFile(clean, "Meeting notes");
+
+    const screening = new ContentScreeningService(
+      new SignatureRuleService({ rulesDir }),
+    );
+    const [flagged, passed] = await screening.screenBatch([document, clean]);
+
+    expect(flagged!.passed).toBe(false);
+    expect(flagged!.threatLevel).toBe("high");
+    expect(flagged!.issues).toContainEqual({
+      type: "malicious_content",
+      severity: "error",
+      message:
+        'Signature rule "AutoOpenMacro" matched: Document runs a macro when opened',
+      details: {
+        rule: "AutoOpenMacro",
+        tags: ["office"],
+        ruleFile: path.join(rulesDir, "macros.yar"),
+        strings: [
+          { identifier: "$auto", offset: 4 },
+          { identifier: "$shell", offset: 17 },
+        ],
+      },
+    });
+    expect(passed!.issues.map((i) => i.type)).not.toContain(
+      "malicious_content",
+    );
+
+    const unchecked = await screening.screen(document, {
+      checkSignatureRules: false,
+    });
+    expect(unchecked.passed).toBe(true);
+  });
+});
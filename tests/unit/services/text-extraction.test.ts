@@ -26,6 +26,7 @@ jest.unstable_mockModule("fs/promises", () => ({
 const { TextExtractionService } = await import(
   "../../../src/services/text-extraction.service.js"
 );
+const { logger } = await import("../../../src/utils/logger.js");
 
 function buildOdtBuffer(contentXml: string): Buffer {
   const compressed = zlib.deflateRawSync(Buffer.from(contentXml, "utf8"));
@@ -45,6 +46,53 @@ function buildOdtBuffer(contentXml: string): Buffer {
   return Buffer.concat([header, fileName, compressed]);
 }
 
+/**
+ * ZIP with deflated entries; Buffer contents are used as already deflated.
+ * With dataDescriptors the local headers carry no sizes, as streaming
+ * writers produce them, and a central directory follows.
+ */
+function buildZipBuffer(
+  files: Record<string, string | Buffer>,
+  { dataDescriptors = false } = {},
+): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const [name, content] of Object.entries(files)) {
+    const compressed = Buffer.isBuffer(content)
+      ? content
+      : zlib.deflateRawSync(Buffer.from(content, "utf8"));
+    const fileName = Buffer.from(name);
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(dataDescriptors ? 0x08 : 0, 6);
+    header.writeUInt16LE(8, 8);
+    header.writeUInt32LE(dataDescriptors ? 0 : compressed.length, 18);
+    header.writeUInt16LE(fileName.length, 26);
+    const descriptor = Buffer.alloc(dataDescriptors ? 16 : 0);
+    if (dataDescriptors) {
+      descriptor.writeUInt32LE(0x08074b50, 0);
+      descriptor.writeUInt32LE(compressed.length, 8);
+    }
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt16LE(fileName.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, fileName);
+
+    locals.push(header, fileName, compressed, descriptor);
+    offset += 30 + fileName.length + compressed.length + descriptor.length;
+  }
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
 describe("TextExtractionService", () => {
   let service: TextExtractionService;
 
@@ -178,6 +226,217 @@ describe("TextExtractionService", () => {
     });
   });
 
+  describe("office, e-book, web and email formats", () => {
+    it("should extract XLSX cells in workbook sheet order", async () => {
+      mockReadFile.mockResolvedValue(
+        buildZipBuffer(
+          {
+            "xl/workbook.xml":
+              '<workbook><sheets><sheet name="Summary" sheetId="2" r:id="rId2"/><sheet name="Q1 &amp; Q2" sheetId="1" r:id="rId1"/></sheets></workbook>',
+            "xl/_rels/workbook.xml.rels":
+              '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Target="/xl/worksheets/sheet2.xml"/></Relationships>',
+            "xl/sharedStrings.xml":
+              '<sst><si><t>Invoice</t></si><si><r><t>Acme </t></r><r><t xml:space="preserve">Corp</t></r><rPh><t>X</t></rPh></si></sst>',
+            "xl/worksheets/sheet1.xml":
+              '<worksheet><sheetData><row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1"><v>42.5</v></c></row><row r="2"><c r="A2" t="inlineStr"><is><t>Paid</t></is></c><c r="B2"/></row></sheetData></worksheet>',
+            "xl/worksheets/sheet2.xml":
+              '<worksheet><sheetData><row r="1"><c r="A1" t="s"><v>1</v></c></row></sheetData></worksheet>',
+          },
+          { dataDescriptors: true },
+        ),
+      );
+
+      const result = await service.extract(path.join("doc", "book.xlsx"));
+
+      expect(result.extractionMethod).toBe("xlsx-native");
+      expect(result.text).toBe(
+        "Summary\nAcme Corp\n\nQ1 & Q2\nInvoice\t42.5\nPaid",
+      );
+    });
+
+    it("should stop reading XLSX sheets once maxTextLength is reached", async () => {
+      const warn = jest.spyOn(logger, "warn").mockImplementation(() => {});
+      const row = `<row r="1"><c t="inlineStr"><is><t>${"x".repeat(60)}</t></is></c></row>`;
+      mockReadFile.mockResolvedValue(
+        buildZipBuffer({
+          "xl/worksheets/sheet1.xml": `<worksheet><sheetData>${row}</sheetData></worksheet>`,
+          "xl/worksheets/sheet2.xml": Buffer.from("not deflate data"),
+        }),
+      );
+
+      const result = await service.extract(path.join("doc", "book.xlsx"), {
+        maxTextLength: 50,
+      });
+
+      expect(result.truncated).toBe(true);
+      expect(warn).not.toHaveBeenCalled();
+      warn.mockRestore();
+    });
+
+    it("should cap the inflated size of all ZIP entries together", async () => {
+      const warn = jest.spyOn(logger, "warn").mockImplementation(() => {});
+      const bomb = zlib.deflateRawSync(Buffer.alloc(48 * 1024 * 1024, " "));
+      mockReadFile.mockResolvedValue(
+        buildZipBuffer({
+          "xl/worksheets/sheet1.xml": bomb,
+          "xl/worksheets/sheet2.xml": bomb,
+          "xl/worksheets/sheet3.xml": bomb,
+          "xl/worksheets/sheet4.xml":
+            '<worksheet><sheetData><row r="1"><c t="inlineStr"><is><t>Total</t></is></c></row></sheetData></worksheet>',
+        }),
+      );
+
+      const result = await service.extract(path.join("doc", "book.xlsx"));
+
+      expect(result.text).toBe("Total");
+      expect(warn.mock.calls.map(([message]) => message)).toEqual([
+        "Failed to decompress ZIP entry xl/worksheets/sheet3.xml",
+      ]);
+      warn.mockRestore();
+    });
+
+    it("should extract PPTX slide text in slide order", async () => {
+      const slide = (...paragraphs: string[]) =>
+        `<p:sld><p:txBody>${paragraphs.map((p) => `<a:p><a:r><a:t>${p}</a:t></a:r></a:p>`).join("")}</p:txBody></p:sld>`;
+      mockReadFile.mockResolvedValue(
+        buildZipBuffer({
+          "ppt/slides/slide10.xml": slide("Questions?"),
+          "ppt/slides/slide2.xml": slide("Roadmap", "Ship &lt;v2&gt;"),
+          "ppt/slides/slide1.xml": slide("Kick-off"),
+          "ppt/notesSlides/notesSlide1.xml": slide("Speaker notes"),
+        }),
+      );
+
+      const result = await service.extract(path.join("doc", "deck.pptx"));
+
+      expect(result.extractionMethod).toBe("pptx-native");
+      expect(result.text).toBe("Kick-off\n\nRoadmap\nShip <v2>\n\nQuestions?");
+    });
+
+    it("should extract EPUB chapters in spine order", async () => {
+      mockReadFile.mockResolvedValue(
+        buildZipBuffer({
+          "META-INF/container.xml":
+            '<container><rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles></container>',
+          "OEBPS/content.opf":
+            '<package><metadata><dc:title>The Long Voyage</dc:title></metadata><manifest><item id="c1" href="text/chapter%201.xhtml"/><item id="c2" href="text/chapter2.xhtml"/></manifest><spine><itemref idref="c2"/><itemref idref="c1"/></spine></package>',
+          "OEBPS/text/chapter 1.xhtml":
+            "<html><body><h1>Departure</h1><p>We left at dawn.</p></body></html>",
+          "OEBPS/text/chapter2.xhtml":
+            "<html><head><script>track()</script></head><body><p>Prologue</p></body></html>",
+        }),
+      );
+
+      const result = await service.extract(path.join("doc", "book.epub"));
+
+      expect(result.extractionMethod).toBe("epub-native");
+      expect(result.text).toBe(
+        "The Long Voyage\n\nPrologue\n\nDeparture\nWe left at dawn.",
+      );
+    });
+
+    it("should strip scripts, styles and tags from HTML", async () => {
+      mockReadFile.mockResolvedValue(
+        '<html><head><title>Trip notes</title><style>p { color: red; }</style></head><body><!-- draft --><script type="text/javascript">alert("x")</script><p>Flights&nbsp;to <b>Lis</b>bon &amp; Porto</p><table><tr><td>Day 1</td><td>Sintra</td></tr></table></body></html>',
+      );
+
+      const result = await service.extract(path.join("doc", "page.html"));
+
+      expect(result.extractionMethod).toBe("html-native");
+      expect(result.text).toBe(
+        "Trip notes\nFlights to Lisbon & Porto\nDay 1 Sintra",
+      );
+    });
+
+    it("should read HTML with unclosed scripts and comments in linear time", async () => {
+      mockReadFile.mockResolvedValue(
+        "<p>Intro</p><script src=\"a.js\"/><p>Body</p><script>" +
+          "<script>".repeat(500_000) +
+          "<!--".repeat(500_000),
+      );
+
+      const started = Date.now();
+      const result = await service.extract(path.join("doc", "page.html"));
+
+      expect(Date.now() - started).toBeLessThan(2000);
+      expect(result.text).toBe("Intro\nBody");
+
+      mockReadFile.mockResolvedValue(
+        "<p>Notes</p>" + "<!--<p>".repeat(500_000),
+      );
+      const comment = await service.extract(path.join("doc", "notes.html"));
+      expect(comment.text).toBe("Notes");
+    });
+
+    it("should extract headers and the plain-text part of a MIME email", async () => {
+      mockReadFile.mockResolvedValue(
+        [
+          "From: =?UTF-8?B?Sm9zw6k=?= <jose@example.com>",
+          "To: team@example.com",
+          "Subject: =?UTF-8?Q?Caf=C3=A9_budget?=",
+          " =?UTF-8?Q?_review?=",
+          'Content-Type: multipart/mixed; boundary="outer"',
+          "",
+          "--outer",
+          'Content-Type: multipart/alternative; boundary="alt"',
+          "",
+          "--alt",
+          "Content-Type: text/plain; charset=utf-8",
+          "Content-Transfer-Encoding: quoted-printable",
+          "",
+          "The caf=C3=A9 budget is attached and looks =",
+          "fine.",
+          "--alt",
+          "Content-Type: text/html",
+          "",
+          "<p>HTML version</p>",
+          "--alt--",
+          "--outer",
+          "Content-Type: application/pdf",
+          'Content-Disposition: attachment; filename="budget.pdf"',
+          "Content-Transfer-Encoding: base64",
+          "",
+          Buffer.from("%PDF secret").toString("base64"),
+          "--outer--",
+        ].join("\r\n"),
+      );
+
+      const result = await service.extract(path.join("mail", "budget.eml"));
+
+      expect(result.extractionMethod).toBe("email-native");
+      expect(result.text).toBe(
+        "Subject: Café budget review\nFrom: José <jose@example.com>\nTo: team@example.com\n\nThe café budget is attached and looks fine.",
+      );
+      expect(mockReadFile).toHaveBeenCalledWith(
+        path.join("mail", "budget.eml"),
+        "latin1",
+      );
+    });
+
+    it("should split MBOX mailboxes into messages and honour maxTextLength", async () => {
+      const message = (subject: string, body: string) =>
+        `From sender@example.com Mon Jan  1 00:00:00 2024\nSubject: ${subject}\n\n${body}\n`;
+      mockReadFile.mockResolvedValue(
+        message("First", ">From the start, plan ahead.") +
+          message("Second", "Follow-up") +
+          message("Third", "x".repeat(500)),
+      );
+
+      const full = await service.extract(path.join("mail", "inbox.mbox"));
+      expect(full.extractionMethod).toBe("mbox-native");
+      expect(full.text).toContain(
+        "Subject: First\n\nFrom the start, plan ahead.\n\nSubject: Second",
+      );
+
+      const limited = await service.extract(path.join("mail", "inbox.mbox"), {
+        maxTextLength: 40,
+      });
+      expect(limited.truncated).toBe(true);
+      expect(limited.text).toHaveLength(40);
+      expect(limited.text).not.toContain("xxx");
+    });
+  });
+
   describe("isSupported", () => {
     it("should return true for supported extensions", () => {
       expect(service.isSupported("file.txt")).toBe(true);
@@ -206,6 +465,17 @@ describe("TextExtractionService", () => {
       expect(extensions).toContain(".rtf");
       expect(extensions).toContain(".txt");
       expect(extensions).toContain(".md");
+      expect(extensions).toEqual(
+        expect.arrayContaining([
+          ".xlsx",
+          ".pptx",
+          ".epub",
+          ".html",
+          ".htm",
+          ".eml",
+          ".mbox",
+        ]),
+      );
     });
   });
 });
\ No newline at end of file
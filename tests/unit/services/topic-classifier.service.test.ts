@@ -0,0 +1,137 @@
+/**
+ * Tests for Topic Classifier Service
+ * Tests learning topic profiles from sorted example folders and classifying
+ * new documents with a confidence score
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import { TopicClassifierService } from "../../../src/services/topic-classifier.service.js";
+import {
+  setupLoggerMocks,
+  teardownLoggerMocks,
+} from "../../utils/logger-mock.js";
+
+const EXAMPLES: Record<string, string[]> = {
+  Invoices: [
+    "Invoice number 1042. Amount due 1,200 EUR, payment within 30 days. VAT 23% included. Please pay to the bank account below.",
+    "Invoice for consulting services rendered in March. Total amount due including VAT. Payment terms: net 30. Bank transfer details attached.",
+    "Reminder: invoice 0998 is overdue. The outstanding amount due must be paid by bank transfer within seven days.",
+  ],
+  Contracts: [
+    "This agreement is entered into by the parties. The contractor shall deliver the services. Termination requires thirty days written notice.",
+    "Service agreement between the parties. Confidentiality obligations survive termination. Governing law and jurisdiction clauses apply.",
+    "The parties agree to the following terms and conditions. Either party may terminate this agreement. Signed by both parties.",
+  ],
+  "Client Acme": [
+    "Meeting notes with Acme about the warehouse rollout. Acme wants the dashboard ready before the Lisbon launch.",
+    "Acme project status: warehouse scanners installed, dashboard integration pending. Next Acme steering meeting on Friday.",
+  ],
+};
+
+describe("TopicClassifierService", () => {
+  let examplesDir: string;
+  const classifier = new TopicClassifierService();
+
+  beforeEach(async () => {
+    setupLoggerMocks();
+    const baseTempDir = path.join(process.cwd(), "tests", "temp");
+    await fs.mkdir(baseTempDir, { recursive: true });
+    examplesDir = await fs.mkdtemp(path.join(baseTempDir, "topic-examples-"));
+    for (const [topic, texts] of Object.entries(EXAMPLES)) {
+      await fs.mkdir(path.join(examplesDir, topic));
+      for (const [i, text] of texts.entries()) {
+        await fs.writeFile(path.join(examplesDir, topic, `doc${i}.txt`), text);
+      }
+    }
+  });
+
+  afterEach(async () => {
+    await fs.rm(examplesDir, { recursive: true, force: true });
+    teardownLoggerMocks();
+  });
+
+  it("learns a profile per example folder and skips unreadable examples", async () => {
+    await fs.writeFile(path.join(examplesDir, "Invoices", "short.txt"), "Hi");
+    await fs.writeFile(path.join(examplesDir, "Invoices", "scan.png"), "png");
+
+    const { model, skipped } = await classifier.train(examplesDir);
+
+    expect(model.profiles.map((p) => [p.name, p.documents]).sort()).toEqual([
+      ["Client Acme", 2],
+      ["Contracts", 3],
+      ["Invoices", 3],
+    ]);
+    expect(model.documents).toBe(8);
+    expect(skipped).toEqual([
+      {
+        file: path.join(examplesDir, "Invoices", "short.txt"),
+        reason: "Insufficient text content",
+      },
+    ]);
+  });
+
+  it("classifies new documents into the learned folders with confidence", async () => {
+    const { model } = await classifier.train(examplesDir);
+
+    const invoice = classifier.classify(
+      model,
+      "Invoice 1107: amount due 640 EUR including VAT, payment by bank transfer within 30 days.",
+    );
+    expect(invoice[0]).toMatchObject({ topic: "Invoices" });
+    expect(invoice[0]!.confidence).toBeGreaterThan(0.8);
+    expect(invoice[0]!.matchedKeywords).toEqual(
+      expect.arrayContaining(["invoice", "due"]),
+    );
+
+    const acme = classifier.classify(
+      model,
+      "Acme asked to move the dashboard demo; the warehouse team meets Acme next week.",
+    );
+    expect(acme[0]).toMatchObject({ topic: "Client Acme" });
+    expect(acme[0]!.confidence).toBeGreaterThan(0.8);
+    expect(acme.reduce((sum, match) => sum + match.confidence, 0)).toBeCloseTo(
+      1,
+      1,
+    );
+  });
+
+  it("is unsure about documents unlike any example", async () => {
+    const { model } = await classifier.train(examplesDir);
+
+    const [best] = classifier.classify(
+      model,
+      "Grandma's lemon cake: whisk eggs with sugar, fold in flour and lemon zest, bake forty minutes.",
+    );
+
+    expect(best!.confidence).toBeLessThan(0.6);
+    expect(classifier.classify(model, "")).toEqual([]);
+  });
+
+  it("treats terms named like object properties as ordinary terms", async () => {
+    await fs.writeFile(
+      path.join(examplesDir, "Contracts", "builder.txt"),
+      "The constructor shall complete the building works under this agreement between the parties.",
+    );
+    const { model } = await classifier.train(examplesDir);
+
+    const matches = classifier.classify(
+      model,
+      "Agreement with the constructor: the parties accept the termination clause.",
+    );
+
+    expect(matches[0]).toMatchObject({ topic: "Contracts" });
+    expect(matches.every((m) => Number.isFinite(m.confidence))).toBe(true);
+    expect(matches[0]!.matchedKeywords).toContain("constructor");
+  });
+
+  it("needs at least two example folders", async () => {
+    await fs.rm(path.join(examplesDir, "Contracts"), { recursive: true });
+    await fs.rm(path.join(examplesDir, "Client Acme"), { recursive: true });
+
+    await expect(classifier.train(examplesDir)).rejects.toThrow(
+      "Learning topics needs at least two example folders with readable documents",
+    );
+  });
+});
@@ -7,6 +7,7 @@ import {
   TopicExtractorService,
   TopicExtractionResult,
 } from "../../../src/services/topic-extractor.service.js";
+import { parseUserTopics } from "../../../src/schemas/content.schemas.js";
 import {
   setupLoggerMocks,
   teardownLoggerMocks,
@@ -242,4 +243,110 @@ describe("TopicExtractorService", () => {
       expect(result.keywords).not.toContain("with");
     });
   });
+
+  describe("user-defined topics", () => {
+    const invoiceText =
+      "Invoice 2041 for the Lisbon office. Amount due within 30 days; payment by bank transfer.";
+
+    it("should replace the built-in topics with user topics", () => {
+      const custom = new TopicExtractorService({
+        topics: [{ name: "Invoices", keywords: ["Invoice", "amount due"] }],
+      });
+
+      expect(custom.extractTopics(invoiceText).topics).toEqual([
+        {
+          topic: "Invoices",
+          confidence: 1,
+          matchedKeywords: ["invoice", "amount due"],
+        },
+      ]);
+      expect(
+        custom.extractTopics(
+          "The integral and derivative of a function in calculus.",
+        ).topics,
+      ).toEqual([]);
+    });
+
+    it("should weigh keywords and skip topics with an excluded term", () => {
+      const custom = new TopicExtractorService({
+        topics: [
+          {
+            name: "Invoices",
+            keywords: [
+              { term: "invoice", weight: 3 },
+              "receipt",
+              "statement",
+              "remittance",
+              "billing",
+              "vat",
+            ],
+          },
+          {
+            name: "Travel",
+            keywords: ["lisbon", "flight", "hotel"],
+            exclude: ["invoice"],
+          },
+        ],
+      });
+
+      const { topics } = custom.extractTopics(invoiceText);
+
+      // 3 of 8 keyword weight matched, against a 30% (2.4) threshold
+      expect(topics).toEqual([
+        { topic: "Invoices", confidence: 1, matchedKeywords: ["invoice"] },
+      ]);
+    });
+
+    it("should weigh keywords named like object properties normally", () => {
+      const custom = new TopicExtractorService({
+        topics: [
+          { name: "Building", keywords: ["constructor", "scaffolding"] },
+        ],
+      });
+
+      expect(
+        custom.extractTopics("The constructor put up the scaffolding.").topics,
+      ).toEqual([
+        {
+          topic: "Building",
+          confidence: 1,
+          matchedKeywords: ["constructor", "scaffolding"],
+        },
+      ]);
+    });
+
+    it("should keep the built-in topics when includeBuiltInTopics is set", () => {
+      const custom = new TopicExtractorService({
+        topics: [{ name: "Invoices", keywords: ["invoice"] }],
+        includeBuiltInTopics: true,
+      });
+
+      const { topics } = custom.extractTopics(
+        "Invoice for the calculus tutoring: integral, derivative and limit exercises.",
+      );
+
+      expect(topics.map((t) => t.topic)).toEqual(
+        expect.arrayContaining(["Invoices", "Mathematics"]),
+      );
+    });
+
+    it("should drop invalid config topics and report why", () => {
+      const { topics, errors } = parseUserTopics([
+        { name: "Invoices", keywords: ["invoice"], weight: 1.5 },
+        { name: "../escape", keywords: ["x"] },
+        { name: "Empty", keywords: [] },
+      ]);
+
+      expect(topics).toEqual([
+        { name: "Invoices", keywords: ["invoice"], weight: 1.5 },
+      ]);
+      expect(errors).toEqual([
+        'Topic "../escape" is invalid: name: Topic name must be a valid folder name',
+        'Topic "Empty" is invalid: keywords: Topic needs at least one keyword',
+      ]);
+      expect(parseUserTopics("invoices").errors).toEqual([
+        "Topics must be an array",
+      ]);
+    });
+  });
 });
@@ -0,0 +1,290 @@
+/**
+ * File Organizer MCP Server - Video Metadata Tests
+ * Tests for MP4/MOV and Matroska/WebM parsing and date/device based video
+ * organization
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import { VideoMetadataService } from "../../../src/services/video-metadata.service.js";
+import { VideoOrganizerService } from "../../../src/services/video-organizer.service.js";
+
+const MAC_EPOCH_OFFSET = 2082844800;
+
+function box(type: string, ...children: Buffer[]): Buffer {
+  const body = Buffer.concat(children);
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(8 + body.length);
+  header.write(type, 4, "latin1");
+  return Buffer.concat([header, body]);
+}
+
+function mvhd(created: Date, seconds: number): Buffer {
+  const body = Buffer.alloc(100);
+  body.writeUInt32BE(created.getTime() / 1000 + MAC_EPOCH_OFFSET, 4);
+  body.writeUInt32BE(600, 12);
+  body.writeUInt32BE(seconds * 600, 16);
+  return box("mvhd", body);
+}
+
+function videoTrak(width: number, height: number, codec: string): Buffer {
+  const tkhd = Buffer.alloc(84);
+  tkhd.writeUInt32BE(width * 65536, 76);
+  tkhd.writeUInt32BE(height * 65536, 80);
+  const hdlr = Buffer.alloc(24);
+  hdlr.write("vide", 8, "latin1");
+  const stsd = Buffer.alloc(16);
+  stsd.writeUInt32BE(1, 4);
+  stsd.writeUInt32BE(8, 8);
+  stsd.write(codec, 12, "latin1");
+  return box(
+    "trak",
+    box("tkhd", tkhd),
+    box("mdia", box("hdlr", hdlr), box("minf", box("stbl", box("stsd", stsd)))),
+  );
+}
+
+/** QuickTime meta box with "mdta" keys, as written by iPhones */
+function quickTimeMeta(entries: Record<string, string>): Buffer {
+  const names = Object.keys(entries);
+  const keyCount = Buffer.alloc(8);
+  keyCount.writeUInt32BE(names.length, 4);
+  const keys = names.map((name) => box("mdta", Buffer.from(name)));
+  const items = names.map((name, i) => {
+    const item = box(
+      "xxxx",
+      box(
+        "data",
+        Buffer.from([0, 0, 0, 1, 0, 0, 0, 0]),
+        Buffer.from(entries[name]!),
+      ),
+    );
+    item.writeUInt32BE(i + 1, 4);
+    return item;
+  });
+  const hdlr = Buffer.alloc(24);
+  hdlr.write("mdta", 8, "latin1");
+  return box(
+    "meta",
+    box("hdlr", hdlr),
+    box("keys", keyCount, ...keys),
+    box("ilst", ...items),
+  );
+}
+
+/** QuickTime user data text atom */
+function udtaText(type: string, text: string): Buffer {
+  const header = Buffer.alloc(4);
+  header.writeUInt16BE(Buffer.byteLength(text));
+  return box(type, header, Buffer.from(text));
+}
+
+/** EBML element with a 1-byte or 8-byte size */
+function ebml(id: number, body: Buffer, unknownSize = false): Buffer {
+  const idBytes = Buffer.from(id.toString(16).padStart(2, "0"), "hex");
+  if (unknownSize) {
+    return Buffer.concat([
+      idBytes,
+      Buffer.from([0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]),
+      body,
+    ]);
+  }
+  const size = Buffer.alloc(8);
+  size.writeBigUInt64BE(BigInt(body.length) | (1n << 56n));
+  return Buffer.concat([idBytes, size, body]);
+}
+
+const uint = (value: number) => {
+  const b = Buffer.alloc(4);
+  b.writeUInt32BE(value);
+  return b;
+};
+
+function buildWebM(date: Date): Buffer {
+  const duration = Buffer.alloc(8);
+  duration.writeDoubleBE(5000);
+  const dateUtc = Buffer.alloc(8);
+  dateUtc.writeBigInt64BE(
+    BigInt(date.getTime() - Date.UTC(2001, 0, 1)) * 1_000_000n,
+  );
+  const info = ebml(
+    0x1549a966,
+    Buffer.concat([
+      ebml(0x2ad7b1, uint(1_000_000)),
+      ebml(0x4489, duration),
+      ebml(0x4461, dateUtc),
+    ]),
+  );
+  const tracks = ebml(
+    0x1654ae6b,
+    Buffer.concat([
+      ebml(
+        0xae,
+        Buffer.concat([
+          ebml(0x83, Buffer.from([2])),
+          ebml(0x86, Buffer.from("A_OPUS")),
+        ]),
+      ),
+      ebml(
+        0xae,
+        Buffer.concat([
+          ebml(0x83, Buffer.from([1])),
+          ebml(0x86, Buffer.from("V_VP9")),
+          ebml(
+            0xe0,
+            Buffer.concat([ebml(0xb0, uint(640)), ebml(0xba, uint(360))]),
+          ),
+        ]),
+      ),
+    ]),
+  );
+  const cluster = ebml(0x1f43b675, Buffer.alloc(32));
+  return Buffer.concat([
+    ebml(0x1a45dfa3, ebml(0x4282, Buffer.from("webm"))),
+    ebml(0x18538067, Buffer.concat([info, tracks, cluster]), true),
+  ]);
+}
+
+describe("VideoMetadataService", () => {
+  let testDir: string;
+  const service = new VideoMetadataService();
+
+  beforeEach(async () => {
+    const baseTempDir = path.join(process.cwd(), "tests", "temp");
+    await fs.mkdir(baseTempDir, { recursive: true });
+    testDir = await fs.mkdtemp(path.join(baseTempDir, "video-metadata-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  const writeFile = async (name: string, data: Buffer) => {
+    const filePath = path.join(testDir, name);
+    await fs.writeFile(filePath, data);
+    return filePath;
+  };
+
+  const created = new Date(Date.UTC(2023, 4, 10, 21, 30, 0));
+
+  const buildIPhoneMov = () =>
+    Buffer.concat([
+      box("ftyp", Buffer.from("qt  \0\0\0\0qt  ")),
+      box("mdat", Buffer.alloc(64)),
+      box(
+        "moov",
+        mvhd(created, 12),
+        videoTrak(1920, 1080, "hvc1"),
+        quickTimeMeta({
+          "com.apple.quicktime.make": "Apple",
+          "com.apple.quicktime.model": "iPhone 12",
+          "com.apple.quicktime.location.ISO6709": "+37.7749-122.4194+010.000/",
+          "com.apple.quicktime.creationdate": "2023-05-10T23:30:00+0200",
+        }),
+      ),
+    ]);
+
+  it("reads iPhone QuickTime keys after the media data", async () => {
+    const filePath = await writeFile("IMG_0042.MOV", buildIPhoneMov());
+
+    const metadata = await service.extract(filePath);
+
+    expect(metadata).toMatchObject({
+      format: "MOV",
+      creationTime: created,
+      dateTaken: new Date(2023, 4, 10, 23, 30, 0),
+      duration: 12,
+      width: 1920,
+      height: 1080,
+      videoCodec: "hvc1",
+      make: "Apple",
+      model: "iPhone 12",
+      hasGPS: true,
+      latitude: 37.7749,
+      longitude: -122.4194,
+      altitude: 10,
+    });
+  });
+
+  it("falls back to the mvhd creation time and reads ©xyz user data", async () => {
+    const filePath = await writeFile(
+      "clip.mp4",
+      Buffer.concat([
+        box("ftyp", Buffer.from("isom\0\0\0\0isom")),
+        box(
+          "moov",
+          mvhd(created, 3),
+          box("udta", udtaText("\xa9xyz", "-33.8688+151.2093/")),
+        ),
+      ]),
+    );
+
+    const metadata = await service.extract(filePath);
+
+    expect(metadata.format).toBe("MP4");
+    expect(metadata.dateTaken).toEqual(created);
+    expect(metadata.latitude).toBe(-33.8688);
+    expect(metadata.longitude).toBe(151.2093);
+  });
+
+  it("reads segment info and the video track of a WebM file", async () => {
+    const filePath = await writeFile("clip.webm", buildWebM(created));
+
+    const metadata = await service.extract(filePath);
+
+    expect(metadata).toMatchObject({
+      format: "WEBM",
+      creationTime: created,
+      duration: 5,
+      width: 640,
+      height: 360,
+      videoCodec: "V_VP9",
+      hasGPS: false,
+    });
+  });
+
+  describe("VideoOrganizerService", () => {
+    it("puts videos into the photo date folders grouped by device", async () => {
+      const sourceDir = path.join(testDir, "source");
+      const targetDir = path.join(testDir, "target");
+      await fs.mkdir(sourceDir);
+      await fs.writeFile(
+        path.join(sourceDir, "IMG_0042.MOV"),
+        buildIPhoneMov(),
+      );
+      await fs.writeFile(path.join(sourceDir, "broken.mp4"), Buffer.alloc(4));
+      const config = {
+        sourceDir,
+        targetDir,
+        dateFormat: "YYYY/MM/DD" as const,
+        groupByDevice: true,
+      };
+      const organizer = new VideoOrganizerService();
+
+      const preview = await organizer.previewOrganization(config);
+      expect(preview.organizedFiles).toBe(2);
+      expect(await fs.readdir(sourceDir)).toHaveLength(2);
+
+      const result = await organizer.organize(config);
+
+      expect(result.errors).toEqual([]);
+      expect(result.movedFiles).toHaveLength(2);
+      await expect(
+        fs.access(
+          path.join(
+            targetDir,
+            "2023",
+            "05",
+            "10",
+            "Apple iPhone 12",
+            "IMG_0042.MOV",
+          ),
+        ),
+      ).resolves.toBeUndefined();
+      await expect(
+        fs.access(path.join(targetDir, "Unknown Date", "broken.mp4")),
+      ).resolves.toBeUndefined();
+    });
+  });
+});
@@ -19,6 +19,8 @@ const mockExtractTopics = jest.fn();
 const mockTextExtract = jest.fn();
 const mockDetectProjects = jest.fn();
 const mockCreateManifest = jest.fn();
+const mockTrain = jest.fn();
+const mockClassify = jest.fn();
 
 jest.unstable_mockModule(
   "../../../src/services/file-scanner.service.js",
@@ -40,6 +42,11 @@ jest.unstable_mockModule(
     },
     TopicMatch: {} as any,
     STOP_WORDS: new Set<string>(),
+    loadUserTopics: jest.fn(() => ({
+      topics: [],
+      includeBuiltInTopics: false,
+      errors: [],
+    })),
   }),
 );
 
@@ -95,6 +102,10 @@ describe("organize_by_content Tool", () => {
       projectDetector: {
         detect: mockDetectProjects,
       },
+      topicClassifier: {
+        train: mockTrain,
+        classify: mockClassify,
+      },
     };
 
     jest.clearAllMocks();
@@ -563,4 +574,95 @@ describe("organize_by_content Tool", () => {
       expect((actions[0] as { type: string }).type).toBe("move");
     });
   });
+
+  describe("Learned strategy", () => {
+    it("should require examples_dir", async () => {
+      const result = await handleOrganizeByContent(
+        {
+          source_dir: testDir,
+          target_dir: targetDir,
+          strategy: "learned",
+        },
+        services,
+      );
+
+      expect(result.content[0].text).toContain(
+        'examples_dir is required for strategy "learned"',
+      );
+      expect(mockTrain).not.toHaveBeenCalled();
+    });
+
+    it("should move confident documents and leave unsure ones in place", async () => {
+      const examplesDir = path.join(testDir, "examples");
+      const exampleDoc = path.join(examplesDir, "Invoices", "old.pdf");
+      const invoiceDoc = path.join(testDir, "invoice.pdf");
+      const recipeDoc = path.join(testDir, "recipe.txt");
+      await fs.mkdir(path.dirname(exampleDoc), { recursive: true });
+      await fs.writeFile(exampleDoc, "content");
+      await fs.writeFile(invoiceDoc, "content");
+      await fs.writeFile(recipeDoc, "content");
+
+      mockGetAllFiles.mockResolvedValue([
+        { name: "old.pdf", path: exampleDoc, size: 100 },
+        { name: "invoice.pdf", path: invoiceDoc, size: 100 },
+        { name: "recipe.txt", path: recipeDoc, size: 100 },
+      ]);
+      mockTrain.mockResolvedValue({
+        model: {
+          profiles: [
+            {
+              name: "Invoices",
+              documents: 3,
+              termWeights: new Map(),
+              totalWeight: 0,
+            },
+            {
+              name: "Contracts",
+              documents: 2,
+              termWeights: new Map(),
+              totalWeight: 0,
+            },
+          ],
+          idf: new Map(),
+          documents: 5,
+        },
+        skipped: [],
+      });
+      mockTextExtract.mockImplementation(async (filePath: string) => ({
+        text: `${path.basename(filePath)} has enough text to be classified by the learned model.`,
+        truncated: false,
+        originalLength: 100,
+        extractionMethod: "mock",
+      }));
+      mockClassify.mockImplementation((_model: unknown, text: string) =>
+        text.startsWith("invoice")
+          ? [{ topic: "Invoices", confidence: 0.93, matchedKeywords: ["due"] }]
+          : [{ topic: "Contracts", confidence: 0.41, matchedKeywords: [] }],
+      );
+
+      const result = await handleOrganizeByContent(
+        {
+          source_dir: testDir,
+          target_dir: targetDir,
+          dry_run: false,
+          strategy: "learned",
+          examples_dir: examplesDir,
+        },
+        services,
+      );
+
+      const text = result.content[0].text;
+      expect(mockTrain).toHaveBeenCalledWith(examplesDir);
+      expect(mockClassify).toHaveBeenCalledTimes(2);
+      expect(text).toContain("**Learned Topics:** Invoices (3 examples)");
+      expect(text).toContain("**Organized Files:** 1");
+      expect(text).toContain("- **Unsure:** 1");
+      expect(text).toContain("`recipe.txt` → Contracts? (41%)");
+      await expect(
+        fs.access(path.join(targetDir, "Invoices", "invoice.pdf")),
+      ).resolves.toBeUndefined();
+      await expect(fs.access(recipeDoc)).resolves.toBeUndefined();
+      await expect(fs.access(exampleDoc)).resolves.toBeUndefined();
+    });
+  });
 });
@@ -3,7 +3,7 @@ import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals
 import fs from 'fs/promises';
 import path from 'path';
 import { handleFindDuplicateFiles } from '../../../src/tools/file-duplicates.js'; // Check import path
-import { handleDeleteDuplicates } from '../../../src/tools/duplicate-management.js'; // Check import path
+import { handleAnalyzeDuplicates, handleDeleteDuplicates } from '../../../src/tools/duplicate-management.js'; // Check import path
 
 describe('Duplicate Management Tools', () => {
     let testDir: string;
@@ -73,4 +73,24 @@ describe('Duplicate Management Tools', () => {
         expect(result.content[0].text).toContain('Failures:'); // Returns "Failures:" section
         // Detailed check if we had IsError behavior
     });
+
+    it('should report perceptual match mode and reject an out of range distance', async () => {
+        await fs.writeFile(path.join(testDir, 'notes.txt'), 'content');
+
+        const result = await handleAnalyzeDuplicates({
+            directory: testDir,
+            match_mode: 'perceptual',
+            response_format: 'json'
+        });
+        const summary = (result.structuredContent as any).summary;
+        expect(summary.match_mode).toBe('perceptual');
+        expect(summary.total_duplicate_groups).toBe(0);
+
+        const invalid = await handleAnalyzeDuplicates({
+            directory: testDir,
+            match_mode: 'perceptual',
+            max_hamming_distance: 65
+        });
+        expect(invalid.content[0].text).toContain('max_hamming_distance must be between 0 and 64');
+    });
 });
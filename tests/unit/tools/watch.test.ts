@@ -110,6 +110,46 @@ describe('Watch Tools Input Schemas', () => {
     });
   });
 
+  describe('trigger', () => {
+    it('should default to cron', () => {
+      const result = WatchDirectoryInputSchema.safeParse({
+        directory: '/test/dir',
+        schedule: '0 10 * * *',
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.trigger).toBe('cron');
+      }
+    });
+
+    it('should allow events trigger without a schedule', () => {
+      const result = WatchDirectoryInputSchema.safeParse({
+        directory: '/test/dir',
+        trigger: 'events',
+        debounce_ms: 500,
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should require a schedule for cron and both triggers', () => {
+      expect(
+        WatchDirectoryInputSchema.safeParse({ directory: '/test/dir' }).success
+      ).toBe(false);
+      expect(
+        WatchDirectoryInputSchema.safeParse({ directory: '/test/dir', trigger: 'both' }).success
+      ).toBe(false);
+    });
+
+    it('should reject out-of-range debounce_ms', () => {
+      const result = WatchDirectoryInputSchema.safeParse({
+        directory: '/test/dir',
+        trigger: 'events',
+        debounce_ms: 10,
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
   describe('UnwatchDirectoryInputSchema', () => {
     it('should validate valid input', () => {
       const input = { directory: '/test/dir' };
@@ -0,0 +1,156 @@
+/**
+ * File Organizer MCP Server - Path Template Tests
+ * Tests for destination template rendering
+ */
+
+import { describe, it, expect, jest } from "@jest/globals";
+import {
+  getDateTokens,
+  getTemplateTokenNames,
+  renderPathTemplate,
+} from "../../../src/utils/path-template.js";
+import { DestinationTemplateSchema } from "../../../src/schemas/common.schemas.js";
+import { MetadataService } from "../../../src/services/metadata.service.js";
+
+describe("path-template", () => {
+  describe("renderPathTemplate", () => {
+    it("should substitute tokens and join segments", () => {
+      expect(
+        renderPathTemplate("{category}/{year}/{month}/{name}{ext}", {
+          category: "Images",
+          year: "2024",
+          month: "03",
+          name: "IMG_0001",
+          ext: ".jpg",
+        }),
+      ).toEqual({ path: "Images/2024/03/IMG_0001.jpg", missing: [] });
+    });
+
+    it("should apply fallbacks and zero-padding", () => {
+      expect(
+        renderPathTemplate(
+          "{artist|Unknown Artist}/{album}/{track:02} - {title}{ext}",
+          { album: "Blue", track: 7, title: "Intro", ext: ".mp3" },
+        ),
+      ).toEqual({ path: "Unknown Artist/Blue/07 - Intro.mp3", missing: [] });
+    });
+
+    it("should drop optional tokens with an empty fallback", () => {
+      expect(
+        renderPathTemplate("{artist}/{album|}/{title}", {
+          artist: "A",
+          title: "T",
+        }),
+      ).toEqual({ path: "A/T", missing: [] });
+    });
+
+    it("should report missing tokens", () => {
+      const result = renderPathTemplate("{camera_model}/{name}{ext}", {
+        name: "a",
+        ext: ".jpg",
+      });
+      expect(result.missing).toEqual(["camera_model"]);
+    });
+
+    it("should accept an empty extension for files without one", () => {
+      expect(
+        renderPathTemplate("{category}/{name}{ext}", {
+          category: "Code",
+          name: "Makefile",
+          ext: "",
+          extension: "",
+        }),
+      ).toEqual({ path: "Code/Makefile", missing: [] });
+      expect(
+        renderPathTemplate("{extension|none}/{name}", {
+          name: "LICENSE",
+          extension: "",
+        }),
+      ).toEqual({ path: "none/LICENSE", missing: [] });
+      expect(renderPathTemplate("{artist}", { artist: "" }).missing).toEqual([
+        "artist",
+      ]);
+    });
+
+    it("should never let a token value introduce separators or traversal", () => {
+      const result = renderPathTemplate("{artist}/{album}", {
+        artist: "../../etc",
+        album: "..",
+      });
+      expect(result.path).toBe(".._.._etc/__");
+      expect(result.path.split("/")).not.toContain("..");
+    });
+
+    it("should share Windows reserved name handling with filename sanitizing", () => {
+      expect(renderPathTemplate("{artist}", { artist: "CON" }).path).toBe(
+        "CON_",
+      );
+    });
+  });
+
+  describe("getDateTokens", () => {
+    it("should return zero-padded date parts", () => {
+      expect(getDateTokens(new Date(2024, 0, 5))).toEqual({
+        year: "2024",
+        month: "01",
+        day: "05",
+      });
+      expect(getDateTokens(undefined)).toEqual({});
+    });
+  });
+
+  describe("MetadataService.getTemplateTokens", () => {
+    it("should take the year from audio tags and leave month and day missing", async () => {
+      const metadata = new MetadataService();
+      jest.spyOn(metadata, "getDetailedMetadata").mockResolvedValue({
+        audio: {
+          filePath: "song.mp3",
+          format: "mp3",
+          hasEmbeddedArtwork: false,
+          extractedAt: new Date(),
+          year: 1999,
+        },
+      });
+
+      const tokens = await metadata.getTemplateTokens(
+        {
+          name: "song.mp3",
+          path: "song.mp3",
+          size: 1,
+          modified: new Date(2024, 4, 9),
+        },
+        "Audio",
+      );
+
+      expect(tokens).toMatchObject({ year: 1999 });
+      expect(tokens.month).toBeUndefined();
+      expect(tokens.day).toBeUndefined();
+      expect(
+        renderPathTemplate("{year}/{month|Unknown}/{name}{ext}", tokens),
+      ).toMatchObject({ path: "1999/Unknown/song.mp3", missing: [] });
+    });
+  });
+
+  describe("DestinationTemplateSchema", () => {
+    it("should list referenced tokens", () => {
+      expect(getTemplateTokenNames("{artist|X}/{track:02}{ext}")).toEqual([
+        "artist",
+        "track",
+        "ext",
+      ]);
+    });
+
+    it("should reject unknown tokens and absolute paths", () => {
+      expect(
+        DestinationTemplateSchema.safeParse("{category}/{nope}").success,
+      ).toBe(false);
+      expect(DestinationTemplateSchema.safeParse("/abs/{name}").success).toBe(
+        false,
+      );
+      expect(
+        DestinationTemplateSchema.safeParse("{category}/{year}/{name}{ext}")
+          .success,
+      ).toBe(true);
+    });
+  });
+});
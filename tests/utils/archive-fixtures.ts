@@ -0,0 +1,96 @@
+/**
+ * Builders for small ZIP and TAR archives used by the archive tests
+ */
+
+import zlib from "zlib";
+
+export interface ZipFile {
+  name: string;
+  content?: string | Buffer;
+  /** Uncompressed size written to the central directory */
+  declaredSize?: number;
+  /** Unix mode stored in the external attributes */
+  mode?: number;
+}
+
+export function buildZip(files: ZipFile[]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const file of files) {
+    const data = Buffer.from(file.content ?? "");
+    const compressed = zlib.deflateRawSync(data);
+    const name = Buffer.from(file.name);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(0x800, 6);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE((3 << 8) | 20, 4);
+    central.writeUInt16LE(0x800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt16LE(0x5a00, 12);
+    central.writeUInt16LE(0x58a1, 14);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(file.declaredSize ?? data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(((file.mode ?? 0o100644) << 16) >>> 0, 38);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, name, compressed);
+    centrals.push(central, name);
+    offset += 30 + name.length + compressed.length;
+  }
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+export interface TarFile {
+  name: string;
+  content?: string | Buffer;
+  /** "0" file, "2" symlink, "5" directory */
+  type?: string;
+  linkName?: string;
+}
+
+export function tarHeader(name: string, size: number, type: string, link = "") {
+  const header = Buffer.alloc(512);
+  header.write(name, 0, 100, "utf8");
+  header.write("0000644\0", 100);
+  header.write("0000000\0", 108);
+  header.write("0000000\0", 116);
+  header.write(`${size.toString(8).padStart(11, "0")}\0`, 124);
+  header.write(`${(1714564800).toString(8).padStart(11, "0")}\0`, 136);
+  header.write(type, 156);
+  header.write(link, 157, 100, "utf8");
+  header.write("ustar\0", 257);
+  header.write("00", 263);
+  header.fill(0x20, 148, 156);
+  const sum = header.reduce((total, byte) => total + byte, 0);
+  header.write(`${sum.toString(8).padStart(6, "0")}\0 `, 148);
+  return header;
+}
+
+export function buildTar(files: TarFile[]): Buffer {
+  const blocks: Buffer[] = [];
+  for (const file of files) {
+    const data = Buffer.from(file.content ?? "");
+    blocks.push(
+      tarHeader(file.name, data.length, file.type ?? "0", file.linkName),
+    );
+    blocks.push(data, Buffer.alloc((512 - (data.length % 512)) % 512));
+  }
+  return Buffer.concat([...blocks, Buffer.alloc(1024)]);
+}